@@ -48,6 +48,21 @@ export default ({ config }) => ({
       },
     ],
     "@react-native-community/datetimepicker",
+    // Translations in i18n/; Arabic is laid out right to left
+    [
+      "expo-localization",
+      {
+        supportsRTL: true,
+        supportedLocales: ["en", "sw", "ar"],
+      },
+    ],
+    // Face ID unlock for the app lock (Profile → App Lock)
+    [
+      "expo-local-authentication",
+      {
+        faceIDPermission: "Allow $(PRODUCT_NAME) to use Face ID to unlock the app.",
+      },
+    ],
   ],
 
   experiments: {
@@ -58,6 +73,14 @@ export default ({ config }) => ({
   extra: {
     // ✅ NEXT_PUBLIC_* appended here
     apiDomain: process.env.API_DOMAIN,
+    // Extra backends QA can switch to at runtime from the diagnostics screen
+    productionApiDomain: process.env.PRODUCTION_API_DOMAIN,
+    stagingApiDomain: process.env.STAGING_API_DOMAIN,
+    uatApiDomain: process.env.UAT_API_DOMAIN,
+    // Lets QA builds switch backends on the diagnostics screen; always on in development
+    environmentSwitcher: process.env.ENVIRONMENT_SWITCHER === "true",
+    // Answer requests from the in-app mock backend (services/mock), e.g. for sales demos
+    mockApi: process.env.MOCK_API === "true",
     googleKey: process.env.GOOGLE_KEY,
 
     router: {},
@@ -5,12 +5,17 @@ import Skeleton from '@/components/Skeleton';
 import Toast, { ToastType } from '@/components/Toast';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { useLatestEntities } from '@/hooks/useEntities';
+import { useMutation, useQuery } from '@/hooks/useQuery';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Branch, branches as branchesApi, Country, getErrorFieldErrors, isAbortError, reference } from '@/services';
+import { queryKeys } from '@/services/queryKeys';
 import { formatDateCustom } from '@/utils/date';
 import { branchSchema, validateForm } from '@/validators';
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
   KeyboardAvoidingView,
@@ -25,43 +30,21 @@ import {
   View
 } from 'react-native';
 
-interface Branch {
-  id: string;
-  organizationId: string;
-  isMain: boolean;
-  name: string;
-  longitude: number;
-  latitude: number;
-  accuracy: number | null;
-  contact: number;
-  description: string;
-  email: string;
-  stateProvince: string;
-  city: string;
-  location: string;
-  slotsId: string | null;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface Country {
-  id: string;
-  name: string;
-  short: string;
-  formats: string[];
-}
-
 const Branches = () => {
-  const [branches, setBranches] = useState<Branch[]>([]);
-  const [filteredBranches, setFilteredBranches] = useState<Branch[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const { t } = useTranslation();
+  const {
+    data: fetchedBranches,
+    error: branchesError,
+    isLoading,
+    isRefreshing,
+    refresh,
+  } = useQuery(queryKeys.branches.list(), branchesApi.list);
+  const branches = useLatestEntities('branches', fetchedBranches);
+  const error = branchesError ? branchesError.message || t('branches.loadFailed') : null;
   const [searchQuery, setSearchQuery] = useState('');
   
   // Modal state
   const [isAddModalVisible, setIsAddModalVisible] = useState(false);
-  const [isCreating, setIsCreating] = useState(false);
   const [countries, setCountries] = useState<Country[]>([]);
   const [isLoadingCountries, setIsLoadingCountries] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: ToastType; visible: boolean }>({
@@ -82,80 +65,46 @@ const Branches = () => {
   });
 
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const getSignal = useAbortSignal();
 
-  useEffect(() => {
+  const { mutate: createBranch, isPending: isCreating } = useMutation(branchesApi.create, {
+    invalidates: [queryKeys.branches.list()],
+  });
+
+  const filteredBranches = useMemo(() => {
     // Filter branches based on search query
+    const allBranches = branches || [];
     if (searchQuery.trim() === '') {
-      setFilteredBranches(branches);
-    } else {
-      const filtered = branches.filter(
-        (branch) =>
-          branch.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          branch.city.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          branch.location.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          branch.email.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          branch.description.toLowerCase().includes(searchQuery.toLowerCase())
-      );
-      setFilteredBranches(filtered);
+      return allBranches;
     }
+    return allBranches.filter(
+      (branch) =>
+        branch.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        branch.city.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        branch.location.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        branch.email.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        branch.description.toLowerCase().includes(searchQuery.toLowerCase())
+    );
   }, [searchQuery, branches]);
 
-  const fetchBranches = useCallback(async () => {
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      const response = await api.get<Branch[]>('/en/on/branches', {
-        requiresAuth: true,
-      });
-
-      const branchesData = response.data || [];
-      setBranches(branchesData);
-      setFilteredBranches(branchesData);
-    } catch (err: any) {
-      setError(err?.message || 'Failed to load branches. Please try again.');
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
-
-  useEffect(() => {
-    fetchBranches();
-  }, [fetchBranches]);
-
-  const handleRefresh = useCallback(async () => {
-    setIsRefreshing(true);
-    setError(null);
-
-    try {
-      const response = await api.get<Branch[]>('/en/on/branches', {
-        requiresAuth: true,
-      });
-
-      const branchesData = response.data || [];
-      setBranches(branchesData);
-      setFilteredBranches(branchesData);
-    } catch (err: any) {
-      setError(err?.message || 'Failed to refresh branches. Please try again.');
-    } finally {
-      setIsRefreshing(false);
-    }
-  }, []);
-
   const fetchCountries = useCallback(async () => {
     setIsLoadingCountries(true);
+    const signal = getSignal();
     try {
-      const response = await api.get<Country[]>('/countries', {
-        requiresAuth: false,
-      });
-      setCountries(response.data || []);
+      const countryList = await reference.countries({ signal });
+      setCountries(countryList || []);
     } catch (err: any) {
+      if (isAbortError(err)) {
+        return;
+      }
       console.error('Failed to fetch countries:', err);
       setCountries([]);
     } finally {
-      setIsLoadingCountries(false);
+      if (!signal.aborted) {
+        setIsLoadingCountries(false);
+      }
     }
-  }, []);
+  }, [getSignal]);
 
   useEffect(() => {
     if (isAddModalVisible) {
@@ -201,7 +150,7 @@ const Branches = () => {
 
   const handleCreateBranch = async () => {
     if (!formData.location) {
-      setFormErrors({ location: 'Location is required' });
+      setFormErrors({ location: t('validation.locationRequired') });
       return;
     }
 
@@ -228,7 +177,6 @@ const Branches = () => {
       return;
     }
 
-    setIsCreating(true);
     try {
       const payload = {
         name: formData.name.trim(),
@@ -243,21 +191,17 @@ const Branches = () => {
         accuracy: formData.location.accuracy,
       };
 
-      await api.post('/en/on/branch', payload, {
-        requiresAuth: true,
-      });
+      await createBranch(payload);
 
-      showToast('Branch created successfully', 'success');
+      showToast(t('branches.created'), 'success');
       handleCloseAddModal();
-      await fetchBranches();
     } catch (err: any) {
-      const errorMessage = err?.message || 'Failed to create branch. Please try again.';
+      const errorMessage = err?.message || t('branches.createFailed');
       showToast(errorMessage, 'error');
-      if (err?.data?.errors) {
-        setFormErrors(err.data.errors);
-      }
-    } finally {
-      setIsCreating(false);
+      // The picked location is sent as location, latitude, longitude and accuracy
+      setFormErrors(
+        getErrorFieldErrors(err, { latitude: 'location', longitude: 'location', accuracy: 'location' })
+      );
     }
   };
 
@@ -285,7 +229,7 @@ const Branches = () => {
   return (
     <>
       <View style={styles.header}>
-        <Text style={styles.headerTitle}>Branches</Text>
+        <Text style={styles.headerTitle}>{t('branches.title')}</Text>
         <TouchableOpacity
           style={styles.addButton}
           onPress={handleAddBranch}
@@ -306,7 +250,7 @@ const Branches = () => {
           />
           <TextInput
             style={styles.searchInput}
-            placeholder="Search branches..."
+            placeholder={t('branches.search')}
             placeholderTextColor={colors.neutral.gray.medium}
             value={searchQuery}
             onChangeText={setSearchQuery}
@@ -353,10 +297,10 @@ const Branches = () => {
           <Text style={styles.errorTextMain}>{error}</Text>
           <TouchableOpacity
             style={styles.retryButton}
-            onPress={fetchBranches}
+            onPress={refresh}
             activeOpacity={0.7}
           >
-            <Text style={styles.retryButtonText}>Retry</Text>
+            <Text style={styles.retryButtonText}>{t('common.retry')}</Text>
           </TouchableOpacity>
         </View>
       )}
@@ -370,7 +314,7 @@ const Branches = () => {
           refreshControl={
             <RefreshControl
               refreshing={isRefreshing}
-              onRefresh={handleRefresh}
+              onRefresh={refresh}
               colors={[colors.primary.green]}
               tintColor={colors.primary.green}
             />
@@ -380,12 +324,12 @@ const Branches = () => {
             <View style={styles.emptyContainer}>
               <Ionicons name="business-outline" size={64} color={colors.neutral.gray.light} />
               <Text style={styles.emptyText}>
-                {searchQuery ? 'No branches found' : 'No branches available'}
+                {searchQuery ? t('branches.noResults') : t('branches.empty')}
               </Text>
               <Text style={styles.emptySubtext}>
                 {searchQuery
-                  ? 'Try adjusting your search terms'
-                  : 'Add a new branch to get started'}
+                  ? t('services.searchHint')
+                  : t('branches.emptyHint')}
               </Text>
             </View>
           ) : (
@@ -411,7 +355,7 @@ const Branches = () => {
                         {branch.isMain && (
                           <View style={styles.mainBadge}>
                             <Ionicons name="star" size={10} color={colors.secondary.orange} />
-                            <Text style={styles.mainBadgeText}>Main</Text>
+                            <Text style={styles.mainBadgeText}>{t('branches.main')}</Text>
                           </View>
                         )}
                       </View>
@@ -447,7 +391,7 @@ const Branches = () => {
             <View style={styles.modalContent}>
               {/* Modal Header */}
               <View style={styles.modalHeader}>
-                <Text style={styles.modalTitle}>Add New Branch</Text>
+                <Text style={styles.modalTitle}>{t('branches.addTitle')}</Text>
                 <TouchableOpacity
                   onPress={handleCloseAddModal}
                   style={styles.modalCloseButton}
@@ -466,8 +410,8 @@ const Branches = () => {
                 keyboardDismissMode="none"
               >
                 <Input
-                  label="Branch Name *"
-                  placeholder="Enter branch name"
+                  label={t('branches.nameLabel')}
+                  placeholder={t('branches.namePlaceholder')}
                   value={formData.name}
                   onChangeText={(text) => setFormData((prev) => ({ ...prev, name: text }))}
                   autoCapitalize="words"
@@ -475,8 +419,8 @@ const Branches = () => {
                 />
 
                 <Input
-                  label="Contact Number *"
-                  placeholder="Enter phone number"
+                  label={t('branches.contactLabel')}
+                  placeholder={t('staff.phonePlaceholder')}
                   value={formData.contact}
                   onChangeText={(text) => setFormData((prev) => ({ ...prev, contact: text }))}
                   keyboardType="phone-pad"
@@ -484,8 +428,8 @@ const Branches = () => {
                 />
 
                 <Input
-                  label="Email *"
-                  placeholder="Enter email address"
+                  label={t('staff.emailLabel')}
+                  placeholder={t('staff.emailPlaceholder')}
                   value={formData.email}
                   onChangeText={(text) => setFormData((prev) => ({ ...prev, email: text }))}
                   keyboardType="email-address"
@@ -494,8 +438,8 @@ const Branches = () => {
                 />
 
                 <Input
-                  label="City *"
-                  placeholder="Enter city"
+                  label={t('branches.cityLabel')}
+                  placeholder={t('branches.cityPlaceholder')}
                   value={formData.city}
                   onChangeText={(text) => setFormData((prev) => ({ ...prev, city: text }))}
                   autoCapitalize="words"
@@ -503,20 +447,20 @@ const Branches = () => {
                 />
 
                 <Select
-                  label="Country *"
+                  label={t('branches.countryLabel')}
                   options={countries.map((country) => ({
                     label: country.name,
                     value: country.name,
                   }))}
                   value={formData.stateProvince}
                   onValueChange={(value) => setFormData((prev) => ({ ...prev, stateProvince: value as string }))}
-                  placeholder="Select country"
+                  placeholder={t('branches.countryPlaceholder')}
                   error={formErrors.stateProvince}
                 />
 
                 <Input
-                  label="Description"
-                  placeholder="Enter description (optional)"
+                  label={t('common.description')}
+                  placeholder={t('branches.descriptionPlaceholder')}
                   value={formData.description}
                   onChangeText={(text) => setFormData((prev) => ({ ...prev, description: text }))}
                   multiline
@@ -525,7 +469,7 @@ const Branches = () => {
                 />
 
                 <LocationPicker
-                  label="Location *"
+                  label={t('branches.locationLabel')}
                   value={formData.location}
                   onChange={(location) => setFormData((prev) => ({ ...prev, location }))}
                   error={formErrors.location}
@@ -543,7 +487,7 @@ const Branches = () => {
                   {isCreating ? (
                     <ActivityIndicator size="small" color={colors.text.inverse} />
                   ) : (
-                    <Text style={styles.createButtonText}>Create Branch</Text>
+                    <Text style={styles.createButtonText}>{t('branches.create')}</Text>
                   )}
                 </TouchableOpacity>
               </ScrollView>
@@ -13,7 +13,10 @@ import {
 } from "react-native";
 import { colors } from "../../constants/colors";
 import { fonts } from "../../constants/fonts";
-import api from "../../services/api";
+import { useAbortSignal } from "../../hooks/useAbortSignal";
+import { useTranslation } from "../../hooks/useTranslation";
+import { getLocale, t as translate } from "../../i18n";
+import { BookedService, chat, isAbortError } from "../../services";
 
 // Format date for chat list display
 const formatChatDate = (timestamp: number): string => {
@@ -26,17 +29,17 @@ const formatChatDate = (timestamp: number): string => {
 
   // Just now (less than 1 minute)
   if (diffInSeconds < 60) {
-    return "now";
+    return translate("time.justNow");
   }
 
   // Minutes ago (less than 1 hour)
   if (diffInMinutes < 60) {
-    return `${diffInMinutes} min ago`;
+    return translate("time.minutesAgo", { count: diffInMinutes });
   }
 
   // Hours ago (less than 24 hours)
   if (diffInHours < 24) {
-    return `${diffInHours} ${diffInHours === 1 ? "hour" : "hours"} ago`;
+    return translate("time.hoursAgo", { count: diffInHours });
   }
 
   // Yesterday
@@ -47,66 +50,44 @@ const formatChatDate = (timestamp: number): string => {
     messageDate.getMonth() === yesterday.getMonth() &&
     messageDate.getFullYear() === yesterday.getFullYear()
   ) {
-    return "yesterday";
+    return translate("time.yesterday");
   }
 
-  // This year - show "23 Oct" format
+  // This year - show "23 Oct" format, in the active language's locale
   if (messageDate.getFullYear() === now.getFullYear()) {
-    const months = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-    const day = messageDate.getDate();
-    const month = months[messageDate.getMonth()];
-    return `${day} ${month}`;
+    return messageDate.toLocaleDateString(getLocale(), { day: "numeric", month: "short" });
   }
 
   // Last year or older - show "23 Oct 2023" format
-  const months = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-  const day = messageDate.getDate();
-  const month = months[messageDate.getMonth()];
-  const year = messageDate.getFullYear();
-  return `${day} ${month} ${year}`;
+  return messageDate.toLocaleDateString(getLocale(), { day: "numeric", month: "short", year: "numeric" });
 };
 
-interface BookedService {
-  id: string;
-  bookCode: string;
-  description: string;
-  bookedDate: number;
-  customer: {
-    id: string;
-    firstName: string;
-    middleName: string;
-    lastName: string;
-    gender: number; // 1 = male, 2 = female, 3 = other
-  };
-  service: {
-    id: string;
-    name: string;
-  };
-}
-
 const Chats = () => {
   const router = useRouter();
+  const { t } = useTranslation();
   const [bookedServices, setBookedServices] = useState<BookedService[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
+  const getSignal = useAbortSignal();
 
   const fetchBookedServices = useCallback(async () => {
+    const signal = getSignal();
     try {
       setIsLoading(true);
-      const response = await api.get<BookedService[]>(
-        "/en/on/my/book/service/staff",
-        {
-          requiresAuth: true,
-        }
-      );
-      setBookedServices(response.data || []);
+      const data = await chat.conversations({ signal });
+      setBookedServices(data || []);
     } catch (err: any) {
+      if (isAbortError(err)) {
+        return;
+      }
       console.error("Failed to fetch booked services:", err);
       setBookedServices([]);
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
-  }, []);
+  }, [getSignal]);
 
   useEffect(() => {
     fetchBookedServices();
@@ -155,7 +136,7 @@ const Chats = () => {
             <Ionicons name="expand" size={24} color={colors.text.primary} />
           </TouchableOpacity>
 
-          <Text style={styles.headerTitle}>Chat</Text>
+          <Text style={styles.headerTitle}>{t("chats.title")}</Text>
 
           <TouchableOpacity style={styles.avatarButton}>
             <Image
@@ -171,7 +152,7 @@ const Chats = () => {
           <View style={styles.searchBar}>
             <Ionicons name="search" size={20} color={colors.neutral.gray.medium} />
             <TextInput
-              placeholder="Search by name, book code, or service"
+              placeholder={t("chats.search")}
               placeholderTextColor={colors.neutral.gray.medium}
               style={styles.searchInput}
               value={searchQuery}
@@ -185,13 +166,13 @@ const Chats = () => {
           {isLoading ? (
             <View style={styles.loadingContainer}>
               <ActivityIndicator size="large" color={colors.primary.green} />
-              <Text style={styles.loadingText}>Loading chats...</Text>
+              <Text style={styles.loadingText}>{t("chats.loading")}</Text>
             </View>
           ) : filteredServices.length === 0 ? (
             <View style={styles.emptyContainer}>
               <Ionicons name="chatbubbles-outline" size={48} color={colors.neutral.gray.light} />
               <Text style={styles.emptyText}>
-                {searchQuery ? "No chats found" : "No chats yet"}
+                {searchQuery ? t("chats.noResults") : t("chats.empty")}
               </Text>
             </View>
           ) : (
@@ -226,7 +207,7 @@ const Chats = () => {
                         {hasNewMessage && (
                           <View style={styles.badgeContainer}>
                             <View style={styles.newBadge}>
-                              <Text style={styles.badgeText}>New</Text>
+                              <Text style={styles.badgeText}>{t("incomingRequests.new")}</Text>
                             </View>
                           </View>
                         )}
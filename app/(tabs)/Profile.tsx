@@ -1,8 +1,12 @@
+import Select from '@/components/Select';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import { useAuthStore } from '@/store/authStore';
+import { useConfirmLogout } from '@/hooks/useLogout';
+import { useTranslation } from '@/hooks/useTranslation';
+import { applyLayoutDirection, Language, LANGUAGES, restartForLayoutDirection } from '@/i18n';
 import { useBranchStore } from '@/store/branchStore';
 import { useCompanyStore } from '@/store/companyStore';
+import { useLocaleStore } from '@/store/localeStore';
 import { useUserStore } from '@/store/userStore';
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
@@ -16,11 +20,15 @@ import {
   View,
 } from 'react-native';
 
+// Select value for following the device language
+const DEVICE_LANGUAGE = 'device';
+
 const Profile = () => {
   const { user } = useUserStore();
   const { company } = useCompanyStore();
   const { branch } = useBranchStore();
-  const { logout } = useAuthStore();
+  const setLanguage = useLocaleStore((state) => state.setLanguage);
+  const { t, selectedLanguage } = useTranslation();
 
   const getUserInitials = () => {
     if (!user) return 'U';
@@ -30,35 +38,16 @@ const Profile = () => {
   };
 
   const getUserName = () => {
-    if (!user) return 'User';
-    return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email || 'User';
+    if (!user) return t('common.user');
+    return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email || t('common.user');
   };
 
   const getUserNumber = () => {
     // Extract user number from email or use a default
-    return user?.userNumber || 'N/A';
+    return user?.userNumber || t('common.notAvailable');
   };
 
-  const handleLogout = () => {
-    Alert.alert(
-      'Logout',
-      'Are you sure you want to logout?',
-      [
-        {
-          text: 'Cancel',
-          style: 'cancel',
-        },
-        {
-          text: 'Logout',
-          style: 'destructive',
-          onPress: () => {
-            logout();
-            router.replace('/Login');
-          },
-        },
-      ]
-    );
-  };
+  const handleLogout = useConfirmLogout();
 
   const handleMenuItemPress = (item: string) => {
     if (item === 'Change Password') {
@@ -67,46 +56,84 @@ const Profile = () => {
     if (item === 'Update Profile') {
       router.push('/UpdateProfile');
     }
+    if (item === 'Two-Step Verification') {
+      router.push('/TwoFactor');
+    }
+    if (item === 'App Lock') {
+      router.push('/AppLock');
+    }
+    if (item === 'Devices & Sessions') {
+      router.push('/Sessions');
+    }
     // Handle navigation to different screens
     console.log('Navigate to:', item);
     // You can add navigation logic here
     // router.push(`/${item.toLowerCase().replace(/\s+/g, '-')}`);
   };
 
+  const languageOptions = [
+    { label: t('profile.deviceLanguage'), value: DEVICE_LANGUAGE },
+    ...Object.entries(LANGUAGES).map(([code, language]) => ({ label: language.name, value: code })),
+  ];
+
+  const handleLanguageChange = (value: string | number) => {
+    setLanguage(value === DEVICE_LANGUAGE ? null : (value as Language));
+
+    // Switching to or from a right-to-left language only takes effect after a restart
+    if (applyLayoutDirection()) {
+      Alert.alert(t('profile.restartTitle'), t('profile.restartMessage'), [
+        {
+          text: t('common.later'),
+          style: 'cancel',
+        },
+        {
+          text: t('profile.restartNow'),
+          onPress: restartForLayoutDirection,
+        },
+      ]);
+    }
+  };
+
   const menuItems = [
     {
       id: 'update-profile',
-      title: 'Update Profile',
+      title: t('profile.updateProfile'),
       icon: 'person-outline',
       onPress: () => handleMenuItemPress('Update Profile'),
     },
     {
       id: 'change-password',
-      title: 'Change Password',
+      title: t('profile.changePassword'),
       icon: 'lock-closed-outline',
       onPress: () => handleMenuItemPress('Change Password'),
     },
     {
-      id: 'fingerprint',
-      title: 'Fingerprint',
+      id: 'app-lock',
+      title: t('profile.appLock'),
       icon: 'finger-print-outline',
-      onPress: () => handleMenuItemPress('Fingerprint'),
+      onPress: () => handleMenuItemPress('App Lock'),
     },
     {
       id: 'two-step',
-      title: 'Two-Step Verification',
+      title: t('profile.twoStepVerification'),
       icon: 'shield-checkmark-outline',
       onPress: () => handleMenuItemPress('Two-Step Verification'),
     },
+    {
+      id: 'sessions',
+      title: t('profile.sessions'),
+      icon: 'phone-portrait-outline',
+      onPress: () => handleMenuItemPress('Devices & Sessions'),
+    },
     {
       id: 'notifications',
-      title: 'Notifications',
+      title: t('profile.notifications'),
       icon: 'notifications-outline',
       onPress: () => handleMenuItemPress('Notifications'),
     },
     {
       id: 'policy',
-      title: 'Privacy Policy',
+      title: t('profile.privacyPolicy'),
       icon: 'document-text-outline',
       onPress: () => handleMenuItemPress('Privacy Policy'),
     },
@@ -120,9 +147,9 @@ const Profile = () => {
       >
         {/* Header */}
         <View style={styles.header}>
-          <Text style={styles.headerTitle}>Profile</Text>
+          <Text style={styles.headerTitle}>{t('profile.title')}</Text>
           <TouchableOpacity onPress={handleLogout} activeOpacity={0.7}>
-            <Text style={styles.logoutText}>Logout</Text>
+            <Text style={styles.logoutText}>{t('auth.logout')}</Text>
           </TouchableOpacity>
         </View>
 
@@ -142,7 +169,7 @@ const Profile = () => {
           </View>
 
           <Text style={styles.userName}>{getUserName()}</Text>
-          <Text style={styles.userId}>ID No: {getUserNumber()}</Text>
+          <Text style={styles.userId}>{t('profile.idNumber', { number: getUserNumber() })}</Text>
         </View>
 
         {/* Member Status Badge */}
@@ -151,7 +178,7 @@ const Profile = () => {
             <View style={styles.checkmarkCircle}>
               <Ionicons name="checkmark" size={16} color={colors.text.inverse} />
             </View>
-            <Text style={styles.memberBadgeText}>Standard Member</Text>
+            <Text style={styles.memberBadgeText}>{t('profile.standardMember')}</Text>
           </View>
         </View>
 
@@ -161,9 +188,9 @@ const Profile = () => {
             <View style={styles.infoRow}>
               <Ionicons name="business-outline" size={20} color={colors.primary.green} />
               <View style={styles.infoContent}>
-                <Text style={styles.infoLabel}>Company</Text>
+                <Text style={styles.infoLabel}>{t('profile.company')}</Text>
                 <Text style={styles.infoValue} numberOfLines={1}>
-                  {company?.name || 'Not selected'}
+                  {company?.name || t('common.notSelected')}
                 </Text>
               </View>
             </View>
@@ -173,9 +200,9 @@ const Profile = () => {
             <View style={styles.infoRow}>
               <Ionicons name="location-outline" size={20} color={colors.primary.green} />
               <View style={styles.infoContent}>
-                <Text style={styles.infoLabel}>Active Branch</Text>
+                <Text style={styles.infoLabel}>{t('profile.activeBranch')}</Text>
                 <Text style={styles.infoValue} numberOfLines={1}>
-                  {branch?.name || 'Not selected'}
+                  {branch?.name || t('common.notSelected')}
                 </Text>
               </View>
             </View>
@@ -186,7 +213,7 @@ const Profile = () => {
               <View style={styles.infoRow}>
                 <Ionicons name="mail-outline" size={20} color={colors.primary.green} />
                 <View style={styles.infoContent}>
-                  <Text style={styles.infoLabel}>Branch Email</Text>
+                  <Text style={styles.infoLabel}>{t('profile.branchEmail')}</Text>
                   <Text style={styles.infoValue} numberOfLines={1}>
                     {branch.email}
                   </Text>
@@ -200,7 +227,7 @@ const Profile = () => {
               <View style={styles.infoRow}>
                 <Ionicons name="mail-outline" size={20} color={colors.primary.green} />
                 <View style={styles.infoContent}>
-                  <Text style={styles.infoLabel}>Email</Text>
+                  <Text style={styles.infoLabel}>{t('profile.email')}</Text>
                   <Text style={styles.infoValue} numberOfLines={1}>
                     {user.email}
                   </Text>
@@ -214,7 +241,7 @@ const Profile = () => {
               <View style={styles.infoRow}>
                 <Ionicons name="call-outline" size={20} color={colors.primary.green} />
                 <View style={styles.infoContent}>
-                  <Text style={styles.infoLabel}>Phone</Text>
+                  <Text style={styles.infoLabel}>{t('profile.phone')}</Text>
                   <Text style={styles.infoValue}>{user.phone}</Text>
                 </View>
               </View>
@@ -224,7 +251,16 @@ const Profile = () => {
 
         {/* Settings Section */}
         <View style={styles.settingsSection}>
-          <Text style={styles.settingsTitle}>Settings</Text>
+          <Text style={styles.settingsTitle}>{t('profile.settings')}</Text>
+
+          <View style={styles.languageContainer}>
+            <Select
+              label={t('profile.language')}
+              options={languageOptions}
+              value={selectedLanguage ?? DEVICE_LANGUAGE}
+              onValueChange={handleLanguageChange}
+            />
+          </View>
 
           {menuItems.map((item, index) => (
             <TouchableOpacity
@@ -408,6 +444,9 @@ const styles = StyleSheet.create({
     paddingTop: 24,
     backgroundColor: colors.background.primary,
   },
+  languageContainer: {
+    paddingHorizontal: 20,
+  },
   settingsTitle: {
     fontSize: 20,
     fontFamily: fonts.weights.bold,
@@ -1,15 +1,17 @@
+import AuthImage from '@/components/AuthImage';
 import Skeleton from '@/components/Skeleton';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
-import { useAuthStore } from '@/store/authStore';
+import { useLatestEntities } from '@/hooks/useEntities';
+import { useQuery } from '@/hooks/useQuery';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Service, services as servicesApi } from '@/services';
+import { queryKeys } from '@/services/queryKeys';
 import { Ionicons } from '@expo/vector-icons';
-import Constants from 'expo-constants';
 import { router } from 'expo-router';
-import React, { memo, useCallback, useEffect, useState } from 'react';
+import React, { memo, useCallback, useMemo, useState } from 'react';
 import {
   Alert,
-  Image,
   RefreshControl,
   ScrollView,
   StyleSheet,
@@ -19,69 +21,18 @@ import {
   View,
 } from 'react-native';
 
-interface ServiceMode {
-  id: number;
-  name: string;
-  isActive: boolean;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface ThumbNail {
-  id: string;
-  name: string;
-  systemName: string;
-  fileSize: number;
-  mimeType: string;
-  fileSource: string;
-  userId: string;
-  deleted: boolean;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface Service {
-  id: string;
-  organizationId: string;
-  name: string;
-  description: string;
-  isPublic: boolean;
-  isDeleted: boolean;
-  modeId: number;
-  staffId: string;
-  thumbNailId: string | null;
-  thumbNail: ThumbNail | null;
-  mode: ServiceMode;
-  createdAt: number;
-  updatedAt: number;
-}
-
-// Memoized Service Card Component
 interface ServiceCardProps {
   service: Service;
-  imageUri: string | null;
-  isLoadingImage: boolean;
-  isFailedImage: boolean;
-  onLoadImage?: () => void;
   onView: (service: Service) => void;
   onDelete: (service: Service) => void;
 }
 
 const ServiceCard = memo<ServiceCardProps>(({
   service,
-  imageUri,
-  isLoadingImage,
-  isFailedImage,
-  onLoadImage,
   onView,
   onDelete,
 }) => {
-  // Trigger image load on mount if needed
-  React.useEffect(() => {
-    if (onLoadImage && !imageUri && !isLoadingImage && !isFailedImage) {
-      onLoadImage();
-    }
-  }, [onLoadImage, imageUri, isLoadingImage, isFailedImage]);
+  const { t } = useTranslation();
 
   return (
     <TouchableOpacity
@@ -91,35 +42,20 @@ const ServiceCard = memo<ServiceCardProps>(({
     >
       {/* Service Thumbnail or Icon */}
       <View style={styles.serviceImageContainer}>
-        {imageUri ? (
-          <Image
-            source={{ uri: imageUri }}
-            style={styles.serviceImage}
-            resizeMode="cover"
-          />
-        ) : isLoadingImage ? (
-          <Skeleton
-            width="100%"
-            height="100%"
-            borderRadius={12}
-          />
-        ) : isFailedImage || service.thumbNail ? (
-          <View style={styles.serviceIconContainer}>
-            <Ionicons
-              name="construct-outline"
-              size={32}
-              color={colors.primary.green}
-            />
-          </View>
-        ) : (
-          <View style={styles.serviceIconContainer}>
-            <Ionicons
-              name="construct-outline"
-              size={32}
-              color={colors.primary.green}
-            />
-          </View>
-        )}
+        <AuthImage
+          systemName={service.thumbNail?.systemName}
+          style={styles.serviceImage}
+          resizeMode="cover"
+          fallback={
+            <View style={styles.serviceIconContainer}>
+              <Ionicons
+                name="construct-outline"
+                size={32}
+                color={colors.primary.green}
+              />
+            </View>
+          }
+        />
       </View>
 
       {/* Service Content */}
@@ -130,12 +66,12 @@ const ServiceCard = memo<ServiceCardProps>(({
           </Text>
           {!service.isPublic && (
             <View style={styles.privateBadge}>
-              <Text style={styles.privateBadgeText}>Private</Text>
+              <Text style={styles.privateBadgeText}>{t('common.private')}</Text>
             </View>
           )}
           {service.isPublic && (
             <View style={styles.publicBadge}>
-              <Text style={styles.publicBadgeText}>Public</Text>
+              <Text style={styles.publicBadgeText}>{t('serviceDetails.public')}</Text>
             </View>
           )}
         </View>
@@ -172,168 +108,38 @@ const ServiceCard = memo<ServiceCardProps>(({
   // Custom comparison function for memo
   return (
     prevProps.service.id === nextProps.service.id &&
-    prevProps.imageUri === nextProps.imageUri &&
-    prevProps.isLoadingImage === nextProps.isLoadingImage &&
-    prevProps.isFailedImage === nextProps.isFailedImage
+    prevProps.service.thumbNail?.systemName === nextProps.service.thumbNail?.systemName
   );
 });
 
 ServiceCard.displayName = 'ServiceCard';
 
 const Services = () => {
-  const [services, setServices] = useState<Service[]>([]);
-  const [filteredServices, setFilteredServices] = useState<Service[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const { t } = useTranslation();
+  const {
+    data: fetchedServices,
+    error: servicesError,
+    isLoading,
+    isRefreshing,
+    refresh,
+  } = useQuery(queryKeys.services.list(), servicesApi.list);
+  const services = useLatestEntities('services', fetchedServices);
+  const error = servicesError ? servicesError.message || t('branchServices.loadFailed') : null;
   const [searchQuery, setSearchQuery] = useState('');
-  const [imageUris, setImageUris] = useState<Record<string, string>>({});
-  const [loadingImages, setLoadingImages] = useState<Set<string>>(new Set());
-  const [failedImages, setFailedImages] = useState<Set<string>>(new Set());
-
-  useEffect(() => {
+  const filteredServices = useMemo(() => {
     // Filter services based on search query
+    const allServices = services || [];
     if (searchQuery.trim() === '') {
-      setFilteredServices(services);
-    } else {
-      const filtered = services.filter(
-        (service) =>
-          service.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          service.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          service.mode.name.toLowerCase().includes(searchQuery.toLowerCase())
-      );
-      setFilteredServices(filtered);
+      return allServices;
     }
+    return allServices.filter(
+      (service) =>
+        service.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        service.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        service.mode.name.toLowerCase().includes(searchQuery.toLowerCase())
+    );
   }, [searchQuery, services]);
 
-  const getImageUri = useCallback(async (systemName: string): Promise<void> => {
-    // Check cache first
-    if (imageUris[systemName]) {
-      return;
-    }
-
-    // If already loading or failed, don't start another request
-    if (loadingImages.has(systemName) || failedImages.has(systemName)) {
-      return;
-    }
-
-    // Mark as loading
-    setLoadingImages((prev) => new Set(prev).add(systemName));
-
-    try {
-      const API_DOMAIN = Constants.expoConfig?.extra?.apiDomain as string | undefined || '';
-      const authToken = useAuthStore.getState().token;
-
-      const response = await fetch(`${API_DOMAIN}/file/resource/${systemName}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${authToken}`,
-        },
-      });
-
-      if (!response.ok) {
-        // Handle 404 or other errors - mark as failed
-        if (response.status === 404) {
-          setFailedImages((prev) => new Set(prev).add(systemName));
-        }
-        setLoadingImages((prev) => {
-          const next = new Set(prev);
-          next.delete(systemName);
-          return next;
-        });
-        return;
-      }
-
-      // Convert blob to data URI
-      const blob = await response.blob();
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const dataUri = reader.result as string;
-        setImageUris((prev) => ({ ...prev, [systemName]: dataUri }));
-        setLoadingImages((prev) => {
-          const next = new Set(prev);
-          next.delete(systemName);
-          return next;
-        });
-      };
-      reader.onerror = () => {
-        setFailedImages((prev) => new Set(prev).add(systemName));
-        setLoadingImages((prev) => {
-          const next = new Set(prev);
-          next.delete(systemName);
-          return next;
-        });
-      };
-      reader.readAsDataURL(blob);
-    } catch (err) {
-      // Mark as failed on error
-      setFailedImages((prev) => new Set(prev).add(systemName));
-      setLoadingImages((prev) => {
-        const next = new Set(prev);
-        next.delete(systemName);
-        return next;
-      });
-    }
-  }, [imageUris, loadingImages, failedImages]);
-
-  const fetchServices = useCallback(async () => {
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      const response = await api.get<Service[]>('/en/on/services', {
-        requiresAuth: true,
-      });
-
-      const servicesData = response.data || [];
-      setServices(servicesData);
-      setFilteredServices(servicesData);
-
-      // Pre-fetch images asynchronously (non-blocking)
-      // Images will load in the background and update when ready
-      servicesData.forEach((service) => {
-        if (service.thumbNail?.systemName) {
-          // Fire and forget - don't await
-          getImageUri(service.thumbNail.systemName);
-        }
-      });
-    } catch (err: any) {
-      setError(err?.message || 'Failed to load services. Please try again.');
-    } finally {
-      setIsLoading(false);
-    }
-  }, [getImageUri]);
-
-  useEffect(() => {
-    fetchServices();
-  }, [fetchServices]);
-
-  const handleRefresh = useCallback(async () => {
-    setIsRefreshing(true);
-    setError(null);
-
-    try {
-      const response = await api.get<Service[]>('/en/on/services', {
-        requiresAuth: true,
-      });
-
-      const servicesData = response.data || [];
-      setServices(servicesData);
-      setFilteredServices(servicesData);
-
-      // Pre-fetch images asynchronously (non-blocking)
-      servicesData.forEach((service) => {
-        if (service.thumbNail?.systemName) {
-          getImageUri(service.thumbNail.systemName);
-        }
-      });
-    } catch (err: any) {
-      setError(err?.message || 'Failed to refresh services. Please try again.');
-    } finally {
-      setIsRefreshing(false);
-    }
-  }, [getImageUri]);
-
   const handleViewService = useCallback((service: Service) => {
     // Navigate to service details
     router.push(`/ServiceDetails?serviceId=${service.id}`);
@@ -341,30 +147,30 @@ const Services = () => {
 
   const handleDeleteService = useCallback((service: Service) => {
     Alert.alert(
-      'Delete Service',
-      `Are you sure you want to delete "${service.name}"?`,
+      t('serviceDetails.deleteTitle'),
+      t('services.deleteMessage', { name: service.name }),
       [
         {
-          text: 'Cancel',
+          text: t('common.cancel'),
           style: 'cancel',
         },
         {
-          text: 'Delete',
+          text: t('serviceDetails.delete'),
           style: 'destructive',
           onPress: async () => {
             try {
               // Make DELETE request
               // await api.delete(`/en/on/services/${service.id}`, { requiresAuth: true });
               // Refresh services list
-              await fetchServices();
+              await refresh();
             } catch (err: any) {
-              Alert.alert('Error', 'Failed to delete service. Please try again.');
+              Alert.alert(t('common.error'), t('serviceDetails.deleteFailed'));
             }
           },
         },
       ]
     );
-  }, [fetchServices]);
+  }, [refresh, t]);
 
   const handleAddService = useCallback(() => {
     // Navigate to add service page
@@ -374,11 +180,11 @@ const Services = () => {
   return (
     <>
       <View style={styles.header}>
-        <Text style={styles.headerTitle}>Services</Text>
+        <Text style={styles.headerTitle}>{t('services.title')}</Text>
         <View style={styles.headerActions}>
           <TouchableOpacity
             style={styles.reloadButton}
-            onPress={fetchServices}
+            onPress={refresh}
             activeOpacity={0.7}
           >
             <Ionicons name="reload-outline" size={24} color={colors.primary.green} />
@@ -404,7 +210,7 @@ const Services = () => {
           />
           <TextInput
             style={styles.searchInput}
-            placeholder="Search services..."
+            placeholder={t('branchServices.search')}
             placeholderTextColor={colors.neutral.gray.medium}
             value={searchQuery}
             onChangeText={setSearchQuery}
@@ -472,10 +278,10 @@ const Services = () => {
           <Text style={styles.errorText}>{error}</Text>
           <TouchableOpacity
             style={styles.retryButton}
-            onPress={fetchServices}
+            onPress={refresh}
             activeOpacity={0.7}
           >
-            <Text style={styles.retryButtonText}>Retry</Text>
+            <Text style={styles.retryButtonText}>{t('common.retry')}</Text>
           </TouchableOpacity>
         </View>
       )}
@@ -489,7 +295,7 @@ const Services = () => {
           refreshControl={
             <RefreshControl
               refreshing={isRefreshing}
-              onRefresh={handleRefresh}
+              onRefresh={refresh}
               colors={[colors.primary.green]}
               tintColor={colors.primary.green}
             />
@@ -499,35 +305,24 @@ const Services = () => {
             <View style={styles.emptyContainer}>
               <Ionicons name="grid-outline" size={64} color={colors.neutral.gray.light} />
               <Text style={styles.emptyText}>
-                {searchQuery ? 'No services found' : 'No services available'}
+                {searchQuery ? t('branchServices.notFound') : t('branchServices.empty')}
               </Text>
               <Text style={styles.emptySubtext}>
                 {searchQuery
-                  ? 'Try adjusting your search terms'
-                  : 'Add a new service to get started'}
+                  ? t('services.searchHint')
+                  : t('services.emptyHint')}
               </Text>
             </View>
           ) : (
             <View style={styles.servicesList}>
-              {filteredServices.map((service) => {
-                const systemName = service.thumbNail?.systemName;
-                const imageUri = systemName ? imageUris[systemName] : null;
-                const isLoadingImage = systemName ? loadingImages.has(systemName) : false;
-                const isFailedImage = systemName ? failedImages.has(systemName) : false;
-
-                return (
-                  <ServiceCard
-                    key={service.id}
-                    service={service}
-                    imageUri={imageUri}
-                    isLoadingImage={isLoadingImage}
-                    isFailedImage={isFailedImage}
-                    onLoadImage={systemName ? () => getImageUri(systemName) : undefined}
-                    onView={handleViewService}
-                    onDelete={handleDeleteService}
-                  />
-                );
-              })}
+              {filteredServices.map((service) => (
+                <ServiceCard
+                  key={service.id}
+                  service={service}
+                  onView={handleViewService}
+                  onDelete={handleDeleteService}
+                />
+              ))}
             </View>
           )}
         </ScrollView>
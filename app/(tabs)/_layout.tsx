@@ -1,10 +1,13 @@
 import { colors } from '@/constants/colors';
+import { useTranslation } from '@/hooks/useTranslation';
 import { Ionicons } from '@expo/vector-icons';
 import { Tabs } from 'expo-router';
 import React from 'react';
 import { Platform, StyleSheet, View } from 'react-native';
 
 const Layout = () => {
+  const { t } = useTranslation();
+
   return (
     <Tabs
       screenOptions={{
@@ -21,7 +24,7 @@ const Layout = () => {
       <Tabs.Screen
         name="index"
         options={{
-          title: 'Home',
+          title: t('tabs.home'),
           tabBarIcon: ({ focused, color, size }) => (
             <TabIcon
               focused={focused}
@@ -36,7 +39,7 @@ const Layout = () => {
       <Tabs.Screen
         name="Services"
         options={{
-          title: 'Services',
+          title: t('tabs.services'),
           tabBarIcon: ({ focused, color, size }) => (
             <TabIcon
               focused={focused}
@@ -51,7 +54,7 @@ const Layout = () => {
       <Tabs.Screen
         name="Branches"
         options={{
-          title: 'Branches',
+          title: t('tabs.branches'),
           tabBarIcon: ({ focused, color, size }) => (
             <TabIcon
               focused={focused}
@@ -66,7 +69,7 @@ const Layout = () => {
       <Tabs.Screen
         name="Chats"
         options={{
-          title: 'Chats',
+          title: t('tabs.chats'),
           tabBarIcon: ({ focused, color, size }) => (
             <TabIcon
               focused={focused}
@@ -81,7 +84,7 @@ const Layout = () => {
       <Tabs.Screen
         name="Profile"
         options={{
-          title: 'Profile',
+          title: t('tabs.profile'),
           tabBarIcon: ({ focused, color, size }) => (
             <TabIcon
               focused={focused}
@@ -1,23 +1,29 @@
-import type { IncomingRequest } from '@/components/IncomingRequestsComponent';
+import AuthImage from '@/components/AuthImage';
 import IncomingRequestsComponent from '@/components/IncomingRequestsComponent';
+import OutboxBanner from '@/components/OutboxBanner';
 import ServiceStats from '@/components/ServiceStats';
 import Skeleton from '@/components/Skeleton';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
-import { useAuthStore } from '@/store/authStore';
+import { PERMISSIONS } from '@/constants/permissions';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { applyBookingEvent, useBookingEvents } from '@/hooks/useBookingFeed';
+import { useLatestBookings, useLatestEntities } from '@/hooks/useEntities';
+import { useConfirmLogout } from '@/hooks/useLogout';
+import { useQuery } from '@/hooks/useQuery';
+import { useTranslation } from '@/hooks/useTranslation';
+import { BookedService, bookings, isAbortError, services as servicesApi } from '@/services';
+import { queryKeys } from '@/services/queryKeys';
 import { useBranchStore } from '@/store/branchStore';
 import { useCompanyStore } from '@/store/companyStore';
+import { usePermissionsStore } from '@/store/permissionsStore';
 import { useUserStore } from '@/store/userStore';
 import { formatDate } from '@/utils/date';
 import { Ionicons } from '@expo/vector-icons';
-import Constants from 'expo-constants';
 import { router } from 'expo-router';
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
-  Alert,
-  Image,
   ImageBackground,
   ScrollView,
   StyleSheet,
@@ -26,83 +32,51 @@ import {
   View,
 } from 'react-native';
 
-interface ServiceMode {
-  id: number;
-  name: string;
-  isActive: boolean;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface ThumbNail {
-  id: string;
-  name: string;
-  systemName: string;
-  fileSize: number;
-  mimeType: string;
-  fileSource: string;
-  userId: string;
-  deleted: boolean;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface Service {
-  id: string;
-  organizationId: string;
-  name: string;
-  description: string;
-  isPublic: boolean;
-  isDeleted: boolean;
-  modeId: number;
-  staffId: string;
-  thumbNailId: string | null;
-  thumbNail: ThumbNail | null;
-  mode: ServiceMode;
-  createdAt: number;
-  updatedAt: number;
-}
-
-
+// Cards without a permission are shown to everyone
 const actionCards = [
   {
     id: 'finance',
-    title: 'Finance',
+    titleKey: 'home.actions.finance' as const,
     icon: 'wallet-outline',
     color: colors.primary.green,
     route: '/FinanceBreakSummary',
+    permission: PERMISSIONS.viewFinance,
   },
   {
     id: 'Staff',
-    title: 'Members',
+    titleKey: 'home.actions.members' as const,
     icon: 'people-outline',
     color: colors.secondary.orange,
     route: '/Staffs',
+    permission: PERMISSIONS.viewStaff,
   },
   {
     id: 'Branches',
-    title: 'Branches',
+    titleKey: 'home.actions.branches' as const,
     icon: 'business-outline',
     color: colors.semantic.info,
     route: '/Branches',
+    permission: PERMISSIONS.viewBranches,
   },
   {
     id: 'history',
-    title: 'History',
+    titleKey: 'home.actions.history' as const,
     icon: 'time-outline',
     color: colors.semantic.info,
     route: '/BookingHistory',
+    permission: PERMISSIONS.viewBookings,
   },
   {
     id: 'invoices',
-    title: 'Invoices',
+    titleKey: 'home.actions.invoices' as const,
     icon: 'document-text-outline',
     color: colors.semantic.error,
     route: '/InvoiceHistory',
+    permission: PERMISSIONS.viewInvoices,
   },
   {
     id: 'plans',
-    title: 'Plans',
+    titleKey: 'home.actions.plans' as const,
     icon: 'card-outline',
     color: colors.primary.greenDark,
     route: '/SubscriptionPlans',
@@ -113,14 +87,14 @@ const Home = () => {
   const { user } = useUserStore();
   const { company } = useCompanyStore();
   const { branch } = useBranchStore();
-  const { logout } = useAuthStore();
-  const [services, setServices] = useState<Service[]>([]);
-  const [isLoadingServices, setIsLoadingServices] = useState(true);
-  const [imageUris, setImageUris] = useState<Record<string, string>>({});
-  const [loadingImages, setLoadingImages] = useState<Set<string>>(new Set());
-  const [failedImages, setFailedImages] = useState<Set<string>>(new Set());
-  const [incomingRequestsCount, setIncomingRequestsCount] = useState(0);
-  const [ongoingRequestsCount, setOngoingRequestsCount] = useState(0);
+  const permissions = usePermissionsStore((state) => state.permissions);
+  const visibleActionCards = actionCards.filter((card) => !card.permission || permissions.includes(card.permission));
+  const { data: fetchedServices, isLoading: isLoadingServices } = useQuery(queryKeys.services.list(), servicesApi.list);
+  const allServices = useLatestEntities('services', fetchedServices);
+  const services = useMemo(() => (allServices || []).filter((s) => !s.isDeleted).slice(0, 3), [allServices]);
+  const [branchRequests, setBranchRequests] = useState<BookedService[]>([]);
+  // Counted from the latest copies, so bookings pushed by the branch socket or changed elsewhere update the counters
+  const latestBranchRequests = useLatestBookings(branchRequests);
   const [isLoadingRequests, setIsLoadingRequests] = useState(false);
   const [license, setLicense] = useState<{
     id: string;
@@ -157,12 +131,14 @@ const Home = () => {
     updatedAt: number;
   } | null>(null);
   const [isLoadingLicense, setIsLoadingLicense] = useState(true);
+  const getSignal = useAbortSignal();
+  const { t } = useTranslation();
 
   const getGreeting = () => {
     const hour = new Date().getHours();
-    if (hour < 12) return 'Good Morning';
-    if (hour < 18) return 'Good Afternoon';
-    return 'Good Evening';
+    if (hour < 12) return t('home.goodMorning');
+    if (hour < 18) return t('home.goodAfternoon');
+    return t('home.goodEvening');
   };
 
   const getUserInitials = () => {
@@ -173,146 +149,62 @@ const Home = () => {
   };
 
   const getUserName = () => {
-    if (!user) return 'User';
-    return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email || 'User';
+    if (!user) return t('common.user');
+    return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email || t('common.user');
   };
 
-  const getImageUri = useCallback(async (systemName: string, serviceId: string): Promise<void> => {
-    if (imageUris[serviceId] || loadingImages.has(systemName) || failedImages.has(systemName)) {
-      return;
-    }
-
-    setLoadingImages((prev) => new Set(prev).add(systemName));
-
-    try {
-      const API_DOMAIN = Constants.expoConfig?.extra?.apiDomain as string | undefined || '';
-      const authToken = useAuthStore.getState().token;
-
-      const response = await fetch(`${API_DOMAIN}/file/resource/${systemName}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${authToken}`,
-        },
-      });
-
-      if (!response.ok) {
-        setFailedImages((prev) => new Set(prev).add(systemName));
-        setLoadingImages((prev) => {
-          const next = new Set(prev);
-          next.delete(systemName);
-          return next;
-        });
-        return;
-      }
-
-      const blob = await response.blob();
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const dataUri = reader.result as string;
-        setImageUris((prev) => ({ ...prev, [serviceId]: dataUri }));
-        setLoadingImages((prev) => {
-          const next = new Set(prev);
-          next.delete(systemName);
-          return next;
-        });
-      };
-      reader.onerror = () => {
-        setFailedImages((prev) => new Set(prev).add(systemName));
-        setLoadingImages((prev) => {
-          const next = new Set(prev);
-          next.delete(systemName);
-          return next;
-        });
-      };
-      reader.readAsDataURL(blob);
-    } catch (err) {
-      setFailedImages((prev) => new Set(prev).add(systemName));
-      setLoadingImages((prev) => {
-        const next = new Set(prev);
-        next.delete(systemName);
-        return next;
-      });
-    }
-  }, [imageUris, loadingImages, failedImages]);
-
-  const fetchServices = useCallback(async () => {
-    setIsLoadingServices(true);
-    try {
-      const response = await api.get<Service[]>('/en/on/services', {
-        requiresAuth: true,
-      });
-
-      const servicesData = (response.data || []).filter((s) => !s.isDeleted).slice(0, 3);
-      setServices(servicesData);
-
-      // Pre-fetch images
-      servicesData.forEach((service) => {
-        if (service.thumbNail?.systemName) {
-          getImageUri(service.thumbNail.systemName, service.id);
-        }
-      });
-    } catch (err: any) {
-      console.error('Failed to fetch services:', err);
-      setServices([]);
-    } finally {
-      setIsLoadingServices(false);
-    }
-  }, [getImageUri]);
-
-  const fetchRequestCounts = useCallback(async () => {
-    if (!branch?.id) {
-      setIncomingRequestsCount(0);
-      setOngoingRequestsCount(0);
-      return;
-    }
-
-    setIsLoadingRequests(true);
-    try {
-      const response = await api.get<IncomingRequest[]>(
-        `/en/on/book/services/branch/${branch.id}`,
-        {
-          requiresAuth: true,
-        }
-      );
-
-      const requests = response.data || [];
-
-      // Incoming requests: not accepted, not cancelled, not declined, not completed, active
-      const incoming = requests.filter(
+  // Incoming requests: not accepted, not cancelled, not declined, not completed, active
+  const incomingRequestsCount = useMemo(
+    () =>
+      (latestBranchRequests || []).filter(
         (req) =>
           !req.isAccepted &&
           !req.isCancelled &&
           !req.isDeclined &&
           !req.isCompleted &&
           req.isActive
-      );
+      ).length,
+    [latestBranchRequests]
+  );
 
-      // Ongoing requests: accepted, not completed, not cancelled, not declined, active
-      const ongoing = requests.filter(
+  // Ongoing requests: accepted, not completed, not cancelled, not declined, active
+  const ongoingRequestsCount = useMemo(
+    () =>
+      (latestBranchRequests || []).filter(
         (req) =>
           req.isAccepted &&
           !req.isCompleted &&
           !req.isCancelled &&
           !req.isDeclined &&
           req.isActive
-      );
+      ).length,
+    [latestBranchRequests]
+  );
 
-      setIncomingRequestsCount(incoming.length);
-      setOngoingRequestsCount(ongoing.length);
+  useBookingEvents((event) => setBranchRequests((requests) => applyBookingEvent(requests, event)));
+
+  const fetchRequestCounts = useCallback(async () => {
+    if (!branch?.id) {
+      setBranchRequests([]);
+      return;
+    }
+
+    setIsLoadingRequests(true);
+    const signal = getSignal();
+    try {
+      setBranchRequests((await bookings.listForBranch(branch.id, { signal })) || []);
     } catch (err: any) {
+      if (isAbortError(err)) {
+        return;
+      }
       console.error('Failed to fetch request counts:', err);
-      setIncomingRequestsCount(0);
-      setOngoingRequestsCount(0);
+      setBranchRequests([]);
     } finally {
-      setIsLoadingRequests(false);
+      if (!signal.aborted) {
+        setIsLoadingRequests(false);
+      }
     }
-  }, [branch?.id]);
-
-  useEffect(() => {
-    fetchServices();
-    fetchLicense();
-    fetchRequestCounts();
-  }, [fetchServices, fetchRequestCounts]);
+  }, [branch?.id, getSignal]);
 
   const fetchLicense = useCallback(async () => {
     setIsLoadingLicense(true);
@@ -364,6 +256,11 @@ const Home = () => {
     }
   }, []);
 
+  useEffect(() => {
+    fetchLicense();
+    fetchRequestCounts();
+  }, [fetchLicense, fetchRequestCounts]);
+
   const handleViewService = (serviceId: string) => {
     router.push({
       pathname: '/ServiceDetailsSummary',
@@ -371,42 +268,23 @@ const Home = () => {
     });
   };
 
-  const handleLogout = () => {
-    Alert.alert(
-      'Logout',
-      'Are you sure you want to logout?',
-      [
-        {
-          text: 'Cancel',
-          style: 'cancel',
-        },
-        {
-          text: 'Logout',
-          style: 'destructive',
-          onPress: () => {
-            logout();
-            router.replace('/Login');
-          },
-        },
-      ]
-    );
-  };
+  const handleLogout = useConfirmLogout();
 
   const formatLicenseDate = (dateString: string | null): string => {
-    if (!dateString) return 'Never';
+    if (!dateString) return t('common.never');
     try {
       return formatDate(dateString);
     } catch {
-      return 'Invalid Date';
+      return t('common.invalidDate');
     }
   };
 
   const formatTimestampDate = (timestamp: number | string | null): string => {
-    if (!timestamp) return 'Never';
+    if (!timestamp) return t('common.never');
     try {
       return formatDate(timestamp);
     } catch {
-      return 'Invalid Date';
+      return t('common.invalidDate');
     }
   };
 
@@ -423,7 +301,7 @@ const Home = () => {
               <Text style={styles.avatarText}>{getUserInitials()}</Text>
             </View>
             <View style={styles.headerTextContainer}>
-              <Text style={styles.greetingText}>Hi, {getUserName()}</Text>
+              <Text style={styles.greetingText}>{t('home.greeting', { name: getUserName() })}</Text>
               <Text style={styles.greetingSubtext}>{getGreeting()}</Text>
             </View>
           </View>
@@ -441,6 +319,8 @@ const Home = () => {
           
         </View>
 
+        <OutboxBanner style={styles.outboxBanner} />
+
         {/* Requests Section */}
         <View style={styles.requestsSection}>
           <View style={styles.requestsGrid}>
@@ -449,14 +329,14 @@ const Home = () => {
                 <View style={[styles.requestIconContainer, { backgroundColor: colors.semantic.info + '20' }]}>
                   <Ionicons name="time-outline" size={24} color={colors.semantic.info} />
                 </View>
-                <Text style={styles.requestCardTitle}>Incoming </Text>
+                <Text style={styles.requestCardTitle}>{t('home.incoming')}</Text>
               </View>
               {isLoadingRequests ? (
                 <ActivityIndicator size="small" color={colors.primary.green} style={{ marginVertical: 8 }} />
               ) : (
                 <Text style={styles.requestCount}>{incomingRequestsCount}</Text>
               )}
-              <Text style={styles.requestLabel}>Pending requests</Text>
+              <Text style={styles.requestLabel}>{t('home.pendingRequests')}</Text>
               
             </View>
 
@@ -465,14 +345,14 @@ const Home = () => {
                 <View style={[styles.requestIconContainer, { backgroundColor: colors.primary.green + '20' }]}>
                   <Ionicons name="sync-outline" size={24} color={colors.primary.green} />
                 </View>
-                <Text style={styles.requestCardTitle}>Ongoing </Text>
+                <Text style={styles.requestCardTitle}>{t('home.ongoing')}</Text>
               </View>
               {isLoadingRequests ? (
                 <ActivityIndicator size="small" color={colors.primary.green} style={{ marginVertical: 8 }} />
               ) : (
                 <Text style={styles.requestCount}>{ongoingRequestsCount}</Text>
               )}
-              <Text style={styles.requestLabel}>Active requests</Text>
+              <Text style={styles.requestLabel}>{t('home.activeRequests')}</Text>
              
             </View>
           </View>
@@ -491,19 +371,19 @@ const Home = () => {
                     <Ionicons name="shield-checkmark" size={24} color={colors.text.inverse} />
                   </View>
                   <View style={styles.licenseHeaderText}>
-                    <Text style={styles.licenseTitle}>Subscription</Text>
+                    <Text style={styles.licenseTitle}>{t('home.subscription')}</Text>
                     <Text style={styles.licenseSubtitle}>{license.subscription.title}</Text>
                   </View>
                   {license.isInfinity && (
                     <View style={styles.infinityBadge}>
                       <Ionicons name="infinite" size={16} color={colors.text.inverse} />
-                      <Text style={styles.infinityBadgeText}>Unlimited</Text>
+                      <Text style={styles.infinityBadgeText}>{t('common.unlimited')}</Text>
                     </View>
                   )}
                   {license.isExpired && (
                     <View style={styles.expiredBadge}>
                       <Ionicons name="alert-circle" size={16} color={colors.text.inverse} />
-                      <Text style={styles.expiredBadgeText}>Expired</Text>
+                      <Text style={styles.expiredBadgeText}>{t('common.expired')}</Text>
                     </View>
                   )}
                 </View>
@@ -512,7 +392,7 @@ const Home = () => {
                   <View style={styles.licenseDetailItem}>
                     <Ionicons name="calendar-outline" size={16} color={colors.text.inverse} />
                     <View style={styles.licenseDetailContent}>
-                      <Text style={styles.licenseDetailLabel}>Date Purchased</Text>
+                      <Text style={styles.licenseDetailLabel}>{t('home.datePurchased')}</Text>
                       <Text style={styles.licenseDetailValue}>
                         {formatTimestampDate(license.createdAt)}
                       </Text>
@@ -526,10 +406,10 @@ const Home = () => {
                       color={colors.text.inverse}
                     />
                     <View style={styles.licenseDetailContent}>
-                      <Text style={styles.licenseDetailLabel}>Date of Expiry</Text>
+                      <Text style={styles.licenseDetailLabel}>{t('home.dateOfExpiry')}</Text>
                       <Text style={styles.licenseDetailValue}>
                         {license.isInfinity
-                          ? 'Never Expires'
+                          ? t('home.neverExpires')
                           : formatLicenseDate(license.expiryDate)}
                       </Text>
                     </View>
@@ -548,7 +428,7 @@ const Home = () => {
         {/* Service Stats */}
         {company?.id && (
           <View style={styles.statsSection}>
-            <Text style={styles.sectionTitle}>Services Analysis</Text>
+            <Text style={styles.sectionTitle}>{t('home.servicesAnalysis')}</Text>
             <ServiceStats organizationId={company.id} />
           </View>
         )}
@@ -565,8 +445,8 @@ const Home = () => {
                 <Ionicons name="card" size={24} color={colors.primary.green} />
               </View>
               <View style={styles.subscriptionPlanTextContainer}>
-                <Text style={styles.subscriptionPlanTitle}>Subscription Plans</Text>
-                <Text style={styles.subscriptionPlanSubtitle}>View and manage your plans</Text>
+                <Text style={styles.subscriptionPlanTitle}>{t('home.subscriptionPlans')}</Text>
+                <Text style={styles.subscriptionPlanSubtitle}>{t('home.subscriptionPlansSubtitle')}</Text>
               </View>
             </View>
             <Ionicons name="chevron-forward" size={20} color={colors.primary.white} />
@@ -574,9 +454,9 @@ const Home = () => {
         </TouchableOpacity>
         {/* more action Section */}
         <View style={styles.actionsSection}>
-          <Text style={styles.sectionTitle}>Quick Actions</Text>
+          <Text style={styles.sectionTitle}>{t('home.quickActions')}</Text>
           <View style={styles.actionsGrid}>
-            {actionCards.map((card) => (
+            {visibleActionCards.map((card) => (
               <TouchableOpacity
                 key={card.id}
                 style={styles.actionCard}
@@ -588,7 +468,7 @@ const Home = () => {
                 <View style={[styles.actionIconContainer, { backgroundColor: card.color + '15' }]}>
                   <Ionicons name={card.icon as any} size={28} color={card.color} />
                 </View>
-                <Text style={styles.actionCardTitle}>{card.title}</Text>
+                <Text style={styles.actionCardTitle}>{t(card.titleKey)}</Text>
               </TouchableOpacity>
             ))}
           </View>
@@ -600,12 +480,12 @@ const Home = () => {
         {/* Services Section */}
         <View style={styles.servicesSection}>
           <View style={styles.sectionHeader}>
-            <Text style={styles.sectionTitle}>Recent Services</Text>
+            <Text style={styles.sectionTitle}>{t('home.recentServices')}</Text>
             <TouchableOpacity
               onPress={() => router.push('/(tabs)/Services')}
               activeOpacity={0.7}
             >
-              <Text style={styles.viewAllLink}>View All</Text>
+              <Text style={styles.viewAllLink}>{t('common.viewAll')}</Text>
             </TouchableOpacity>
           </View>
           {isLoadingServices ? (
@@ -619,7 +499,7 @@ const Home = () => {
           ) : services.length === 0 ? (
             <View style={styles.emptyServices}>
               <Ionicons name="grid-outline" size={48} color={colors.neutral.gray.light} />
-              <Text style={styles.emptyText}>No services available</Text>
+              <Text style={styles.emptyText}>{t('home.noServices')}</Text>
             </View>
           ) : (
             <View style={styles.servicesList}>
@@ -631,17 +511,16 @@ const Home = () => {
                   activeOpacity={0.7}
                 >
                   <View style={styles.serviceImageContainer}>
-                    {imageUris[service.id] ? (
-                      <Image
-                        source={{ uri: imageUris[service.id] }}
-                        style={styles.serviceImage}
-                        resizeMode="cover"
-                      />
-                    ) : (
-                      <View style={styles.serviceImagePlaceholder}>
-                        <Ionicons name="grid-outline" size={32} color={colors.neutral.gray.medium} />
-                      </View>
-                    )}
+                    <AuthImage
+                      systemName={service.thumbNail?.systemName}
+                      style={styles.serviceImage}
+                      resizeMode="cover"
+                      fallback={
+                        <View style={styles.serviceImagePlaceholder}>
+                          <Ionicons name="grid-outline" size={32} color={colors.neutral.gray.medium} />
+                        </View>
+                      }
+                    />
                   </View>
                   <View style={styles.serviceContent}>
                     <Text style={styles.serviceName} numberOfLines={1}>
@@ -658,7 +537,7 @@ const Home = () => {
                       {!service.isPublic && (
                         <View style={styles.privateBadge}>
                           <Ionicons name="lock-closed" size={12} color={colors.neutral.gray.dark} />
-                          <Text style={styles.privateBadgeText}>Private</Text>
+                          <Text style={styles.privateBadgeText}>{t('common.private')}</Text>
                         </View>
                       )}
                     </View>
@@ -968,6 +847,9 @@ const styles = StyleSheet.create({
     color: colors.neutral.gray.medium,
     marginTop: 8,
   },
+  outboxBanner: {
+    marginBottom: 16,
+  },
   requestsSection: {
     marginBottom: 24,
   },
@@ -0,0 +1,325 @@
+import Button from '@/components/Button';
+import PinPad from '@/components/PinPad';
+import Select from '@/components/Select';
+import { colors } from '@/constants/colors';
+import { fonts } from '@/constants/fonts';
+import { useBiometricType } from '@/hooks/useAppLock';
+import { useTranslation } from '@/hooks/useTranslation';
+import { authenticateWithBiometrics } from '@/services/biometrics';
+import {
+  AUTO_LOCK_MINUTES,
+  confirmSensitiveAction,
+  PIN_LENGTH,
+  useAppLockStore,
+} from '@/store/appLockStore';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, Switch, Text, TouchableOpacity, View } from 'react-native';
+
+type Mode = 'overview' | 'create' | 'confirm';
+
+const AppLock = () => {
+  const {
+    pinHash,
+    biometricsEnabled,
+    autoLockMinutes,
+    lockOnBackground,
+    setPin,
+    setBiometricsEnabled,
+    setAutoLockMinutes,
+    setLockOnBackground,
+    reset,
+  } = useAppLockStore();
+  const biometricType = useBiometricType();
+  const [mode, setMode] = useState<Mode>('overview');
+  const [firstPin, setFirstPin] = useState('');
+  const [pin, setPinValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useTranslation();
+
+  const isEnabled = pinHash !== null;
+  const biometricName = biometricType ? t(`appLock.biometrics.${biometricType}`) : t('appLock.biometrics.fingerprint');
+
+  const showMode = (next: Mode) => {
+    setMode(next);
+    setPinValue('');
+    setError(null);
+  };
+
+  const handlePinChange = async (value: string) => {
+    setPinValue(value);
+    setError(null);
+    if (value.length < PIN_LENGTH) {
+      return;
+    }
+
+    if (mode === 'create') {
+      setFirstPin(value);
+      showMode('confirm');
+      return;
+    }
+
+    if (value !== firstPin) {
+      showMode('create');
+      setError(t('appLock.pinMismatch'));
+      return;
+    }
+
+    await setPin(value);
+    setFirstPin('');
+    showMode('overview');
+  };
+
+  const handleChangePin = async () => {
+    if (await confirmSensitiveAction(t('appLock.changePinReason'))) {
+      showMode('create');
+    }
+  };
+
+  const handleTurnOff = async () => {
+    if (await confirmSensitiveAction(t('appLock.turnOffReason'))) {
+      reset();
+    }
+  };
+
+  const handleBiometricsChange = async (enabled: boolean) => {
+    if (!enabled) {
+      setBiometricsEnabled(false);
+      return;
+    }
+    // Checked once before relying on it, so a lock screen never waits on biometrics that fail
+    try {
+      if (await authenticateWithBiometrics(t('appLock.biometricPrompt'), t('common.cancel'))) {
+        setBiometricsEnabled(true);
+      }
+    } catch (error) {
+      console.warn('Biometric check failed:', error);
+    }
+  };
+
+  const handleBack = () => {
+    if (mode === 'overview') {
+      router.back();
+      return;
+    }
+    showMode('overview');
+  };
+
+  const renderPinEntry = () => (
+    <View style={styles.pinContainer}>
+      <Text style={styles.sectionTitle}>
+        {mode === 'create' ? t('appLock.createPin') : t('appLock.confirmPin')}
+      </Text>
+      <Text style={styles.subtitle}>
+        {mode === 'create' ? t('appLock.createPinSubtitle', { length: PIN_LENGTH }) : t('appLock.confirmPinSubtitle')}
+      </Text>
+      <Text style={[styles.errorText, !error && styles.hidden]}>{error ?? ' '}</Text>
+      <PinPad value={pin} onChange={handlePinChange} hasError={!!error} />
+    </View>
+  );
+
+  const renderOverview = () => (
+    <View>
+      <View style={styles.statusCard}>
+        <Ionicons
+          name={isEnabled ? 'lock-closed' : 'lock-open-outline'}
+          size={32}
+          color={isEnabled ? colors.primary.green : colors.neutral.gray.medium}
+        />
+        <View style={styles.statusContent}>
+          <Text style={styles.statusTitle}>{isEnabled ? t('appLock.statusOn') : t('appLock.statusOff')}</Text>
+          <Text style={styles.statusDescription}>{t('appLock.description')}</Text>
+        </View>
+      </View>
+
+      {isEnabled ? (
+        <>
+          <View style={styles.settingRow}>
+            <View style={styles.settingText}>
+              <Text style={styles.settingTitle}>{t('appLock.unlockWith', { method: biometricName })}</Text>
+              {biometricType === null && <Text style={styles.settingHint}>{t('appLock.biometricsUnavailable')}</Text>}
+            </View>
+            <Switch
+              value={biometricsEnabled && !!biometricType}
+              onValueChange={handleBiometricsChange}
+              disabled={!biometricType}
+              trackColor={{ true: colors.primary.green, false: colors.neutral.gray.light }}
+            />
+          </View>
+
+          <View style={styles.settingRow}>
+            <View style={styles.settingText}>
+              <Text style={styles.settingTitle}>{t('appLock.lockOnBackground')}</Text>
+              <Text style={styles.settingHint}>{t('appLock.lockOnBackgroundHint')}</Text>
+            </View>
+            <Switch
+              value={lockOnBackground}
+              onValueChange={setLockOnBackground}
+              trackColor={{ true: colors.primary.green, false: colors.neutral.gray.light }}
+            />
+          </View>
+
+          <Select
+            label={t('appLock.autoLock')}
+            options={AUTO_LOCK_MINUTES.map((minutes) => ({
+              label: t('appLock.afterMinutes', { count: minutes }),
+              value: minutes,
+            }))}
+            value={autoLockMinutes}
+            onValueChange={(value) => setAutoLockMinutes(value as number)}
+          />
+
+          <Button
+            title={t('appLock.changePin')}
+            variant="outline"
+            onPress={handleChangePin}
+            style={styles.actionButton}
+          />
+          <Button
+            title={t('appLock.turnOff')}
+            variant="outline-danger"
+            onPress={handleTurnOff}
+            style={styles.actionButton}
+          />
+        </>
+      ) : (
+        <Button
+          title={t('appLock.setUp')}
+          variant="primary"
+          onPress={() => showMode('create')}
+          style={styles.actionButton}
+        />
+      )}
+    </View>
+  );
+
+  return (
+    <ScrollView
+      contentContainerStyle={styles.scrollContent}
+      showsVerticalScrollIndicator={false}
+    >
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={handleBack} activeOpacity={0.7}>
+          <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('appLock.title')}</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {mode === 'overview' ? renderOverview() : renderPinEntry()}
+    </ScrollView>
+  );
+};
+
+export default AppLock;
+
+const styles = StyleSheet.create({
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 32,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.primary,
+    flex: 1,
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  statusCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    padding: 16,
+    marginBottom: 24,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.neutral.gray.lighter,
+    backgroundColor: colors.background.secondary,
+  },
+  statusContent: {
+    flex: 1,
+  },
+  statusTitle: {
+    fontSize: 16,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.primary,
+  },
+  statusDescription: {
+    fontSize: 14,
+    fontFamily: fonts.weights.regular,
+    color: colors.neutral.gray.medium,
+    marginTop: 4,
+    lineHeight: 20,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    marginBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.neutral.gray.lighter,
+  },
+  settingText: {
+    flex: 1,
+  },
+  settingTitle: {
+    fontSize: 15,
+    fontFamily: fonts.weights.semiBold,
+    color: colors.text.primary,
+  },
+  settingHint: {
+    fontSize: 13,
+    fontFamily: fonts.weights.regular,
+    color: colors.neutral.gray.medium,
+    marginTop: 2,
+  },
+  actionButton: {
+    marginTop: 12,
+  },
+  pinContainer: {
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.primary,
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    fontFamily: fonts.weights.regular,
+    color: colors.neutral.gray.medium,
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  errorText: {
+    fontSize: 14,
+    fontFamily: fonts.weights.medium,
+    color: colors.semantic.error,
+    marginVertical: 16,
+    textAlign: 'center',
+  },
+  hidden: {
+    opacity: 0,
+  },
+});
@@ -1,16 +1,19 @@
+import AuthImage from '@/components/AuthImage';
+import { withPermission } from '@/components/PermissionGuard';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
-import { useAuthStore } from '@/store/authStore';
+import { PERMISSIONS } from '@/constants/permissions';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { useLatestBookings } from '@/hooks/useEntities';
+import { useTranslation } from '@/hooks/useTranslation';
+import { BookedService, bookings as bookingsApi, isAbortError } from '@/services';
 import { formatDateTime } from '@/utils/date';
 import { Ionicons } from '@expo/vector-icons';
-import Constants from 'expo-constants';
 import { router } from 'expo-router';
 import React, { useCallback, useEffect, useState } from 'react';
 import {
   ActivityIndicator,
   FlatList,
-  Image,
   StyleSheet,
   Text,
   TextInput,
@@ -18,200 +21,40 @@ import {
   View,
 } from 'react-native';
 
-interface BookingHistory {
-  id: string;
-  bookCode: string;
-  description: string;
-  organizationId: string;
-  branchId: string;
-  customerId: string;
-  staffId: string;
-  serviceId: string;
-  priceId: string | null;
-  bookedDate: number;
-  acceptedDate: number | null;
-  isAccepted: boolean;
-  isActive: boolean;
-  isHomeWorkRequest: boolean;
-  isCancelled: boolean;
-  isDeclined: boolean;
-  isCompleted: boolean;
-  completedDate: number | null;
-  organization: {
-    id: string;
-    name: string;
-    description: string;
-    isActive: boolean;
-    isServiceProvider: boolean;
-    createdAt: number;
-    updatedAt: number;
-  };
-  service: {
-    id: string;
-    organizationId: string;
-    name: string;
-    description: string;
-    isPublic: boolean;
-    isDeleted: boolean;
-    modeId: number;
-    staffId: string;
-    thumbNailId: string | null;
-    thumbNail: {
-      id: string;
-      name: string;
-      systemName: string;
-      fileSize: number;
-      mimeType: string;
-      fileSource: string;
-      userId: string;
-      deleted: boolean;
-      createdAt: number;
-      updatedAt: number;
-    } | null;
-    mode: {
-      id: number;
-      name: string;
-      isActive: boolean;
-      createdAt: number;
-      updatedAt: number;
-    };
-    createdAt: number;
-    updatedAt: number;
-  };
-  branch: {
-    id: string;
-    organizationId: string;
-    isMain: boolean;
-    name: string;
-    longitude: number;
-    latitude: number;
-    accuracy: number | null;
-    contact: number;
-    description: string;
-    email: string;
-    stateProvince: string;
-    city: string;
-    location: string;
-    slotsId: string | null;
-    createdAt: number;
-    updatedAt: number;
-  };
-  customer: {
-    id: string;
-    firstName: string;
-    middleName: string;
-    lastName: string;
-    email: string;
-    phone: number;
-    country: string;
-    userNumber: string;
-    gender: number;
-    birthDate: string;
-    verified: boolean;
-    active: boolean;
-    createdAt: number;
-    updatedAt: number;
-  };
-  createdAt: number;
-  updatedAt: number;
-}
-
 const BookingHistory = () => {
-  const [bookings, setBookings] = useState<BookingHistory[]>([]);
-  const [filteredBookings, setFilteredBookings] = useState<BookingHistory[]>([]);
+  const { t } = useTranslation();
+  const [bookings, setBookings] = useState<BookedService[]>([]);
+  const [filteredBookings, setFilteredBookings] = useState<BookedService[]>([]);
+  const latestBookings = useLatestBookings(filteredBookings) ?? [];
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
-  const [imageUris, setImageUris] = useState<Record<string, string>>({});
-  const [loadingImages, setLoadingImages] = useState<Set<string>>(new Set());
-  const [failedImages, setFailedImages] = useState<Set<string>>(new Set());
-
-  const getImageUri = useCallback(async (systemName: string, bookingId: string): Promise<void> => {
-    if (imageUris[bookingId] || loadingImages.has(systemName) || failedImages.has(systemName)) {
-      return;
-    }
-
-    setLoadingImages((prev) => new Set(prev).add(systemName));
-
-    try {
-      const API_DOMAIN = Constants.expoConfig?.extra?.apiDomain as string | undefined || '';
-      const authToken = useAuthStore.getState().token;
-
-      const response = await fetch(`${API_DOMAIN}/file/resource/${systemName}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${authToken}`,
-        },
-      });
-
-      if (!response.ok) {
-        setFailedImages((prev) => new Set(prev).add(systemName));
-        setLoadingImages((prev) => {
-          const next = new Set(prev);
-          next.delete(systemName);
-          return next;
-        });
-        return;
-      }
-
-      const blob = await response.blob();
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const dataUri = reader.result as string;
-        setImageUris((prev) => ({ ...prev, [bookingId]: dataUri }));
-        setLoadingImages((prev) => {
-          const next = new Set(prev);
-          next.delete(systemName);
-          return next;
-        });
-      };
-      reader.onerror = () => {
-        setFailedImages((prev) => new Set(prev).add(systemName));
-        setLoadingImages((prev) => {
-          const next = new Set(prev);
-          next.delete(systemName);
-          return next;
-        });
-      };
-      reader.readAsDataURL(blob);
-    } catch (err) {
-      console.error('Failed to load image:', err);
-      setFailedImages((prev) => new Set(prev).add(systemName));
-      setLoadingImages((prev) => {
-        const next = new Set(prev);
-        next.delete(systemName);
-        return next;
-      });
-    }
-  }, [imageUris, loadingImages, failedImages]);
+  const getSignal = useAbortSignal();
 
   const fetchBookingHistory = useCallback(async () => {
     setIsLoading(true);
+    const signal = getSignal();
     try {
-      const response = await api.get<BookingHistory[]>('/en/on/book/service/histories', {
-        requiresAuth: true,
-      });
+      const data = await bookingsApi.history({ signal });
 
-      const sortedBookings = (response.data || []).sort(
+      const sortedBookings = (data || []).sort(
         (a, b) => (b.bookedDate || 0) - (a.bookedDate || 0)
       );
 
       setBookings(sortedBookings);
       setFilteredBookings(sortedBookings);
-
-      // Load images for bookings with thumbnails
-      sortedBookings.forEach((booking) => {
-        if (booking.service.thumbNail?.systemName) {
-          getImageUri(booking.service.thumbNail.systemName, booking.id);
-        }
-      });
     } catch (err: any) {
+      if (isAbortError(err)) {
+        return;
+      }
       console.error('Failed to fetch booking history:', err);
       setBookings([]);
       setFilteredBookings([]);
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
-  }, [getImageUri]);
+  }, [getSignal]);
 
   useEffect(() => {
     fetchBookingHistory();
@@ -235,43 +78,43 @@ const BookingHistory = () => {
     }
   }, [searchQuery, bookings]);
 
-  const getStatusBadge = (booking: BookingHistory) => {
+  const getStatusBadge = (booking: BookedService) => {
     if (booking.isCompleted) {
       return {
-        label: 'Completed',
+        label: t('bookingHistory.completed'),
         color: colors.primary.green,
         bgColor: colors.primary.greenLight + '20',
       };
     }
     if (booking.isCancelled) {
       return {
-        label: 'Cancelled',
+        label: t('incomingRequest.statusCancelled'),
         color: colors.semantic.error,
         bgColor: colors.semantic.error + '20',
       };
     }
     if (booking.isDeclined) {
       return {
-        label: 'Declined',
+        label: t('bookingHistory.declined'),
         color: colors.semantic.warning,
         bgColor: colors.semantic.warning + '20',
       };
     }
     if (booking.isAccepted) {
       return {
-        label: 'Ongoing',
+        label: t('bookingHistory.ongoing'),
         color: colors.semantic.info,
         bgColor: colors.semantic.info + '20',
       };
     }
     return {
-      label: 'Pending',
+      label: t('incomingRequest.statusPending'),
       color: colors.secondary.orange,
       bgColor: colors.secondary.orangeLight + '20',
     };
   };
 
-  const handleBookingPress = (booking: BookingHistory) => {
+  const handleBookingPress = (booking: BookedService) => {
     router.push({
       pathname: '/IncomingRequestDetails',
       params: {
@@ -280,13 +123,9 @@ const BookingHistory = () => {
     });
   };
 
-  const renderBookingItem = ({ item }: { item: BookingHistory }) => {
+  const renderBookingItem = ({ item }: { item: BookedService }) => {
     const status = getStatusBadge(item);
     const customerName = `${item.customer.firstName} ${item.customer.lastName}`.trim();
-    const hasThumbnail = item.service.thumbNail?.systemName;
-    const imageUri = imageUris[item.id];
-    const isLoadingImage = hasThumbnail && loadingImages.has(item.service.thumbNail!.systemName);
-    const isFailedImage = hasThumbnail && failedImages.has(item.service.thumbNail!.systemName);
 
     return (
       <TouchableOpacity
@@ -296,17 +135,16 @@ const BookingHistory = () => {
       >
         {/* Service Image Cover */}
         <View style={styles.serviceImageContainer}>
-          {isLoadingImage ? (
-            <View style={styles.imagePlaceholder}>
-              <ActivityIndicator size="small" color={colors.primary.green} />
-            </View>
-          ) : imageUri ? (
-            <Image source={{ uri: imageUri }} style={styles.serviceImage} resizeMode="cover" />
-          ) : (
-            <View style={styles.imagePlaceholder}>
-              <Ionicons name="grid-outline" size={32} color={colors.neutral.gray.medium} />
-            </View>
-          )}
+          <AuthImage
+            systemName={item.service.thumbNail?.systemName}
+            style={styles.serviceImage}
+            resizeMode="cover"
+            fallback={
+              <View style={styles.imagePlaceholder}>
+                <Ionicons name="grid-outline" size={32} color={colors.neutral.gray.medium} />
+              </View>
+            }
+          />
         </View>
 
         {/* Booking Content */}
@@ -355,13 +193,13 @@ const BookingHistory = () => {
             <View style={styles.detailRow}>
               <Ionicons name="person-outline" size={14} color={colors.text.secondary} />
               <Text style={styles.detailText} numberOfLines={1}>
-                {customerName || 'N/A'}
+                {customerName || t('common.notAvailable')}
               </Text>
             </View>
             <View style={styles.detailRow}>
               <Ionicons name="location-outline" size={14} color={colors.text.secondary} />
               <Text style={styles.detailText} numberOfLines={1}>
-                {item.branch?.name || 'N/A'}
+                {item.branch?.name || t('common.notAvailable')}
               </Text>
             </View>
           </View>
@@ -397,7 +235,7 @@ const BookingHistory = () => {
         >
           <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Booking History</Text>
+        <Text style={styles.headerTitle}>{t('bookingHistory.title')}</Text>
         <View style={styles.placeholder} />
       </View>
 
@@ -412,7 +250,7 @@ const BookingHistory = () => {
           />
           <TextInput
             style={styles.searchInput}
-            placeholder="Search by book code, service, customer, or branch..."
+            placeholder={t('bookingHistory.search')}
             placeholderTextColor={colors.neutral.gray.medium}
             value={searchQuery}
             onChangeText={setSearchQuery}
@@ -434,13 +272,13 @@ const BookingHistory = () => {
       {isLoading ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={colors.primary.green} />
-          <Text style={styles.loadingText}>Loading booking history...</Text>
+          <Text style={styles.loadingText}>{t('bookingHistory.loading')}</Text>
         </View>
       ) : filteredBookings.length === 0 ? (
         <View style={styles.emptyContainer}>
           <Ionicons name="time-outline" size={64} color={colors.neutral.gray.light} />
           <Text style={styles.emptyText}>
-            {searchQuery ? 'No bookings found' : 'No booking history available'}
+            {searchQuery ? t('bookingHistory.noResults') : t('bookingHistory.empty')}
           </Text>
           {searchQuery && (
             <TouchableOpacity
@@ -448,13 +286,13 @@ const BookingHistory = () => {
               style={styles.clearSearchButton}
               activeOpacity={0.7}
             >
-              <Text style={styles.clearSearchText}>Clear search</Text>
+              <Text style={styles.clearSearchText}>{t('bookingHistory.clearSearch')}</Text>
             </TouchableOpacity>
           )}
         </View>
       ) : (
         <FlatList
-          data={filteredBookings}
+          data={latestBookings}
           renderItem={renderBookingItem}
           keyExtractor={(item) => item.id}
           contentContainerStyle={styles.listContent}
@@ -467,7 +305,7 @@ const BookingHistory = () => {
   );
 };
 
-export default BookingHistory;
+export default withPermission(BookingHistory, PERMISSIONS.viewBookings);
 
 const styles = StyleSheet.create({
   container: {
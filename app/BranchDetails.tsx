@@ -1,7 +1,11 @@
+import { withPermission } from '@/components/PermissionGuard';
 import Toast, { ToastType } from '@/components/Toast';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
+import { PERMISSIONS } from '@/constants/permissions';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Branch, branches, isAbortError } from '@/services';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { router, useLocalSearchParams } from 'expo-router';
@@ -19,28 +23,10 @@ import BranchDetailsTab from './components/BranchDetailsTab';
 import BranchServicesTab from './components/BranchServicesTab';
 import BranchStaffsTab from './components/BranchStaffsTab';
 
-interface Branch {
-  id: string;
-  organizationId: string;
-  isMain: boolean;
-  name: string;
-  longitude: number;
-  latitude: number;
-  accuracy: number | null;
-  contact: number;
-  description: string;
-  email: string;
-  stateProvince: string;
-  city: string;
-  location: string;
-  slotsId: string | null;
-  createdAt: number;
-  updatedAt: number;
-}
-
 type TabType = 'details' | 'services' | 'staffs';
 
 const BranchDetails = () => {
+  const { t } = useTranslation();
   const { branchId } = useLocalSearchParams<{ branchId: string }>();
   const [branch, setBranch] = useState<Branch | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -51,6 +37,7 @@ const BranchDetails = () => {
     type: 'info',
     visible: false,
   });
+  const getSignal = useAbortSignal();
 
   const showToast = (message: string, type: ToastType = 'info') => {
     setToast({ message, type, visible: true });
@@ -62,7 +49,7 @@ const BranchDetails = () => {
 
   const fetchBranchDetails = useCallback(async () => {
     if (!branchId) {
-      setError('Branch ID is required');
+      setError(t('branches.idRequired'));
       setIsLoading(false);
       return;
     }
@@ -70,19 +57,22 @@ const BranchDetails = () => {
     setIsLoading(true);
     setError(null);
 
+    const signal = getSignal();
     try {
-      const response = await api.get<Branch>(`/en/on/branch/${branchId}`, {
-        requiresAuth: true,
-      });
-
-      setBranch(response.data);
+      const branchDetails = await branches.get(branchId, { signal });
+      setBranch(branchDetails);
     } catch (err: any) {
-      setError(err?.message || 'Failed to load branch details. Please try again.');
-      showToast(err?.message || 'Failed to load branch details. Please try again.', 'error');
+      if (isAbortError(err)) {
+        return;
+      }
+      setError(err?.message || t('branches.detailsLoadFailed'));
+      showToast(err?.message || t('branches.detailsLoadFailed'), 'error');
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
-  }, [branchId]);
+  }, [branchId, getSignal, t]);
 
   useEffect(() => {
     fetchBranchDetails();
@@ -94,7 +84,7 @@ const BranchDetails = () => {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color={colors.primary.green} />
-        <Text style={styles.loadingText}>Loading branch details...</Text>
+        <Text style={styles.loadingText}>{t('branches.loadingDetails')}</Text>
       </View>
     );
   }
@@ -103,20 +93,20 @@ const BranchDetails = () => {
     return (
       <View style={styles.errorContainer}>
         <Ionicons name="alert-circle-outline" size={64} color={colors.semantic.error} />
-        <Text style={styles.errorText}>{error || 'Branch not found'}</Text>
+        <Text style={styles.errorText}>{error || t('branches.notFound')}</Text>
         <TouchableOpacity
           style={styles.retryButton}
           onPress={fetchBranchDetails}
           activeOpacity={0.7}
         >
-          <Text style={styles.retryButtonText}>Retry</Text>
+          <Text style={styles.retryButtonText}>{t('common.retry')}</Text>
         </TouchableOpacity>
         <TouchableOpacity
           style={styles.backButton}
           onPress={() => router.back()}
           activeOpacity={0.7}
         >
-          <Text style={styles.backButtonText}>Go Back</Text>
+          <Text style={styles.backButtonText}>{t('common.goBack')}</Text>
         </TouchableOpacity>
       </View>
     );
@@ -162,7 +152,7 @@ const BranchDetails = () => {
               {branch.isMain && (
                 <View style={styles.mainBadge}>
                   <Ionicons name="star" size={14} color={colors.secondary.orange} />
-                  <Text style={styles.mainBadgeText}>Main Branch</Text>
+                  <Text style={styles.mainBadgeText}>{t('switchAccount.mainBranch')}</Text>
                 </View>
               )}
             </View>
@@ -182,7 +172,7 @@ const BranchDetails = () => {
                 activeTab === 'details' && styles.activeTabText,
               ]}
             >
-              Details
+              {t('staff.detailsTab')}
             </Text>
           </TouchableOpacity>
           <TouchableOpacity
@@ -196,7 +186,7 @@ const BranchDetails = () => {
                 activeTab === 'services' && styles.activeTabText,
               ]}
             >
-              Services
+              {t('services.title')}
             </Text>
           </TouchableOpacity>
           <TouchableOpacity
@@ -210,7 +200,7 @@ const BranchDetails = () => {
                 activeTab === 'staffs' && styles.activeTabText,
               ]}
             >
-              Staffs
+              {t('staff.title')}
             </Text>
           </TouchableOpacity>
         </View>
@@ -226,7 +216,7 @@ const BranchDetails = () => {
   );
 };
 
-export default BranchDetails;
+export default withPermission(BranchDetails, PERMISSIONS.viewBranches);
 
 const styles = StyleSheet.create({
   loadingContainer: {
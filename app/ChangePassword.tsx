@@ -2,7 +2,8 @@ import Button from '@/components/Button';
 import Input from '@/components/Input';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
+import { useTranslation } from '@/hooks/useTranslation';
+import { auth } from '@/services';
 import { useAuthStore } from '@/store/authStore';
 import { validateField, validateForm } from '@/validators';
 import { Ionicons } from '@expo/vector-icons';
@@ -24,14 +25,14 @@ import { z } from 'zod';
 const changePasswordSchema = z.object({
   password: z
     .string()
-    .min(1, 'Password is required')
-    .min(8, 'Password must be at least 8 characters')
-    .regex(/[A-Z]/, 'Password must contain at least one capital letter')
-    .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
-    .regex(/[0-9]/, 'Password must contain at least one number'),
-  confirmPassword: z.string().min(1, 'Please confirm your password'),
+    .min(1, 'validation.passwordRequired')
+    .min(8, 'validation.passwordMin')
+    .regex(/[A-Z]/, 'validation.passwordUppercase')
+    .regex(/[a-z]/, 'validation.passwordLowercase')
+    .regex(/[0-9]/, 'validation.passwordNumber'),
+  confirmPassword: z.string().min(1, 'validation.confirmPasswordRequired'),
 }).refine((data) => data.password === data.confirmPassword, {
-  message: 'Passwords do not match',
+  message: 'validation.passwordsMismatch',
   path: ['confirmPassword'],
 });
 
@@ -42,6 +43,8 @@ const ChangePassword = () => {
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const { logout } = useAuthStore();
+  const { t } = useTranslation();
+  const mismatchError = t('validation.passwordsMismatch');
 
   // Validate single field on change
   const handleFieldChange = (field: 'password' | 'confirmPassword', value: string) => {
@@ -72,11 +75,11 @@ const ChangePassword = () => {
     // Validate password match if confirmPassword is filled
     if (field === 'password' && confirmPassword) {
       if (value !== confirmPassword) {
-        setErrors((prev) => ({ ...prev, confirmPassword: 'Passwords do not match' }));
+        setErrors((prev) => ({ ...prev, confirmPassword: mismatchError }));
       } else {
         setErrors((prev) => {
           const newErrors = { ...prev };
-          if (newErrors.confirmPassword === 'Passwords do not match') {
+          if (newErrors.confirmPassword === mismatchError) {
             delete newErrors.confirmPassword;
           }
           return newErrors;
@@ -87,11 +90,11 @@ const ChangePassword = () => {
     // Validate password match if password is filled
     if (field === 'confirmPassword' && password) {
       if (value !== password) {
-        setErrors((prev) => ({ ...prev, confirmPassword: 'Passwords do not match' }));
+        setErrors((prev) => ({ ...prev, confirmPassword: mismatchError }));
       } else {
         setErrors((prev) => {
           const newErrors = { ...prev };
-          if (newErrors.confirmPassword === 'Passwords do not match') {
+          if (newErrors.confirmPassword === mismatchError) {
             delete newErrors.confirmPassword;
           }
           return newErrors;
@@ -115,22 +118,14 @@ const ChangePassword = () => {
 
     try {
       // Make API call to update password
-      const response = await api.post(
-        '/en/update/password',
-        {
-          password: password,
-        },
-        {
-          requiresAuth: true,
-        }
-      );
+      await auth.updatePassword(password);
 
       // Show success modal
       setShowSuccessModal(true);
     } catch (error: any) {
       console.error('Change password failed:', error);
       const errorMessage =
-        error?.message || error?.data?.message || 'Failed to change password. Please try again.';
+        error?.message || error?.data?.message || t('changePassword.failed');
 
       setErrors({
         general: errorMessage,
@@ -167,19 +162,17 @@ const ChangePassword = () => {
             >
               <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
             </TouchableOpacity>
-            <Text style={styles.headerTitle}>Change Password</Text>
+            <Text style={styles.headerTitle}>{t('changePassword.title')}</Text>
             <View style={styles.headerSpacer} />
           </View>
 
           {/* Form Section */}
           <View style={styles.form}>
-            <Text style={styles.subtitle}>
-              Enter your new password. Make sure it's strong and secure.
-            </Text>
+            <Text style={styles.subtitle}>{t('changePassword.subtitle')}</Text>
 
             <Input
-              label="New Password"
-              placeholder="Enter new password"
+              label={t('changePassword.newPassword')}
+              placeholder={t('changePassword.newPasswordPlaceholder')}
               value={password}
               onChangeText={(text) => handleFieldChange('password', text)}
               secureTextEntry
@@ -188,8 +181,8 @@ const ChangePassword = () => {
             />
 
             <Input
-              label="Confirm Password"
-              placeholder="Confirm new password"
+              label={t('changePassword.confirmPassword')}
+              placeholder={t('changePassword.confirmPasswordPlaceholder')}
               value={confirmPassword}
               onChangeText={(text) => handleFieldChange('confirmPassword', text)}
               secureTextEntry
@@ -204,7 +197,7 @@ const ChangePassword = () => {
             )}
 
             <Button
-              title="Change Password"
+              title={t('changePassword.title')}
               variant="primary"
               onPress={handleChangePassword}
               loading={isLoading}
@@ -227,12 +220,10 @@ const ChangePassword = () => {
             <View style={styles.successIconContainer}>
               <Ionicons name="checkmark-circle" size={64} color={colors.primary.green} />
             </View>
-            <Text style={styles.modalTitle}>Password Updated</Text>
-            <Text style={styles.modalMessage}>
-              Your password has been updated successfully. You will be logged out for security reasons.
-            </Text>
+            <Text style={styles.modalTitle}>{t('changePassword.successTitle')}</Text>
+            <Text style={styles.modalMessage}>{t('changePassword.successMessage')}</Text>
             <Button
-              title="OK"
+              title={t('common.ok')}
               variant="primary"
               onPress={handleSuccessModalClose}
               style={styles.modalButton}
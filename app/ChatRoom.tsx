@@ -1,5 +1,4 @@
 import Ionicons from "@expo/vector-icons/Ionicons";
-import Constants from "expo-constants";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import React, { useEffect, useRef, useState } from "react";
 import {
@@ -18,28 +17,18 @@ import {
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { colors } from "../constants/colors";
 import { fonts } from "../constants/fonts";
-import api from "../services/api";
+import { useOutboxItems } from "../hooks/useOutbox";
+import { useTranslation } from "../hooks/useTranslation";
+import { BookedService, bookings, chat, isAbortError } from "../services";
+import { runOrQueue } from "../services/outbox";
 import { useAuthStore } from "../store/authStore";
 import { useUserStore } from "../store/userStore";
 import { formatTime } from "../utils/date";
 
-interface BookedService {
-  id: string;
-  bookCode: string;
-  isCompleted: boolean;
-  isActive: boolean;
-  customer: {
-    id: string;
-    firstName: string;
-    middleName: string;
-    lastName: string;
-    gender: number; // 1 = male, 2 = female, 3 = other
-  };
-}
-
 const ChatRoom = () => {
   const router = useRouter();
   const params = useLocalSearchParams();
+  const { t } = useTranslation();
   const { token } = useAuthStore();
   const { user } = useUserStore();
   const bookedServiceId = params.bookedServiceId as string;
@@ -52,8 +41,9 @@ const ChatRoom = () => {
     senderId: string;
     timestamp: string;
     type: string;
-    status?: "sending" | "sent" | "failed";
+    status?: "sending" | "sent" | "failed" | "queued";
     tempId?: string; // For tracking optimistic messages
+    outboxId?: string; // Set while the message waits in the offline outbox
   }>>([]);
   const [bookedService, setBookedService] = useState<BookedService | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -62,6 +52,7 @@ const ChatRoom = () => {
   const wsRef = useRef<WebSocket | null>(null);
   const scrollViewRef = useRef<ScrollView>(null);
   const pendingMessagesRef = useRef<Map<string, { tempId: string; messageData: any }>>(new Map());
+  const queuedMessageIds = new Set(useOutboxItems(bookedServiceId, "chat.send").map((item) => item.id));
 
   // Get customer name and gender
   const customerName = bookedService
@@ -79,6 +70,8 @@ const ChatRoom = () => {
 
   // Fetch booked service details
   useEffect(() => {
+    const controller = new AbortController();
+
     const fetchBookedService = async () => {
       if (!bookedServiceId) {
         setIsLoading(false);
@@ -87,21 +80,22 @@ const ChatRoom = () => {
 
       try {
         setIsLoading(true);
-        const response = await api.get<BookedService>(
-          `/en/on/book/service/request/${bookedServiceId}`,
-          {
-            requiresAuth: true,
-          }
-        );
-        setBookedService(response.data);
+        const data = await bookings.get(bookedServiceId, { signal: controller.signal });
+        setBookedService(data);
       } catch (err: any) {
+        if (isAbortError(err)) {
+          return;
+        }
         console.error("Failed to fetch booked service:", err);
       } finally {
-        setIsLoading(false);
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
       }
     };
 
     fetchBookedService();
+    return () => controller.abort();
   }, [bookedServiceId]);
 
   // Set up WebSocket connection
@@ -110,31 +104,14 @@ const ChatRoom = () => {
       return;
     }
 
-    const API_DOMAIN = Constants.expoConfig?.extra?.apiDomain as string | undefined || "";
-    if (!API_DOMAIN) {
+    setIsConnecting(true);
+    const ws = chat.openRoomSocket(bookedService.bookCode, token);
+    if (!ws) {
       console.error("API_DOMAIN is not set");
+      setIsConnecting(false);
       return;
     }
 
-    // Convert http/https to ws/wss
-    let wsUrl = API_DOMAIN;
-    if (wsUrl.startsWith("https://")) {
-      wsUrl = wsUrl.replace("https://", "wss://");
-    } else if (wsUrl.startsWith("http://")) {
-      wsUrl = wsUrl.replace("http://", "ws://");
-    } else {
-      // If no protocol, assume wss for production
-      wsUrl = `wss://${wsUrl}`;
-    }
-
-    const wsEndpoint = `/skt/ws/service/${bookedService.bookCode}?token=${token}`;
-    const wsFullUrl = `${wsUrl}${wsEndpoint}`;
-
-    console.log("Connecting to WebSocket:", wsFullUrl.replace(token, "***"));
-
-    setIsConnecting(true);
-    const ws = new WebSocket(wsFullUrl);
-
     ws.onopen = () => {
       console.log("WebSocket connected");
       setIsConnecting(false);
@@ -253,6 +230,36 @@ const ChatRoom = () => {
     };
   }, [bookedService?.bookCode, bookedService?.customer.id, token, user?.id]);
 
+  // Without an open room connection the message goes through the outbox and is sent once back online
+  const sendThroughOutbox = async (messageId: string, content: string) => {
+    const setStatus = (updates: { status: "sent" | "failed" | "queued"; outboxId?: string }) =>
+      setMessages((prev) => prev.map((msg) => (msg.id === messageId ? { ...msg, ...updates } : msg)));
+
+    if (!bookedService || !user?.id) {
+      setStatus({ status: "failed" });
+      return;
+    }
+
+    try {
+      const result = await runOrQueue(
+        "chat.send",
+        {
+          type: "MESSAGE",
+          receiverId: bookedService.customer.id,
+          content,
+          bookCode: bookedService.bookCode,
+          bookServiceId: bookedService.id,
+          senderId: user.id,
+        },
+        { label: t("chat.messageLabel", { name: customerName }), entityId: bookedService.id }
+      );
+      setStatus(result.queued ? { status: "queued", outboxId: result.id } : { status: "sent" });
+    } catch (error) {
+      console.error("Failed to send message:", error);
+      setStatus({ status: "failed" });
+    }
+  };
+
   const handleSendMessage = () => {
     // Prevent sending if order is completed or inactive
     if (!canChat) {
@@ -325,12 +332,7 @@ const ChatRoom = () => {
           pendingMessagesRef.current.delete(tempId);
         }
       } else {
-        // WebSocket not open, mark as failed
-        setMessages((prev) =>
-          prev.map((msg) =>
-            msg.tempId === tempId ? { ...msg, status: "failed" } : msg
-          )
-        );
+        sendThroughOutbox(tempId, messageContent);
       }
     }
   };
@@ -379,11 +381,7 @@ const ChatRoom = () => {
         pendingMessagesRef.current.delete(tempId);
       }
     } else {
-      setMessages((prev) =>
-        prev.map((msg) =>
-          msg.id === messageId ? { ...msg, status: "failed" } : msg
-        )
-      );
+      sendThroughOutbox(messageId, message.content);
     }
   };
 
@@ -446,7 +444,7 @@ const ChatRoom = () => {
                 <Text style={styles.bookCodeText}>{bookedService.bookCode}</Text>
               )}
               {isConnecting && (
-                <Text style={styles.connectingText}>Connecting...</Text>
+                <Text style={styles.connectingText}>{t("chat.connecting")}</Text>
               )}
             </>
           )}
@@ -480,6 +478,9 @@ const ChatRoom = () => {
               })
               .map((msg) => {
                 const isMyMessage = msg.senderId === user?.id;
+                // A queued message that left the outbox has been sent
+                const status =
+                  msg.status === "queued" && !queuedMessageIds.has(msg.outboxId ?? "") ? "sent" : msg.status;
                 return (
                   <View
                     key={msg.id}
@@ -513,14 +514,22 @@ const ChatRoom = () => {
                       </Text>
                       {isMyMessage && (
                         <View style={styles.messageStatus}>
-                          {msg.status === "sending" && (
+                          {status === "sending" && (
                             <ActivityIndicator
                               size="small"
                               color={isMyMessage ? colors.text.inverse : colors.text.secondary}
                               style={styles.statusIcon}
                             />
                           )}
-                          {msg.status === "sent" && (
+                          {status === "queued" && (
+                            <Ionicons
+                              name="time-outline"
+                              size={16}
+                              color={colors.text.inverse}
+                              style={styles.statusIcon}
+                            />
+                          )}
+                          {status === "sent" && (
                             <Ionicons
                               name="checkmark-done"
                               size={16}
@@ -528,7 +537,7 @@ const ChatRoom = () => {
                               style={styles.statusIcon}
                             />
                           )}
-                          {msg.status === "failed" && (
+                          {status === "failed" && (
                             <TouchableOpacity
                               onPress={() => handleRetryMessage(msg.id)}
                               style={styles.retryButton}
@@ -562,7 +571,7 @@ const ChatRoom = () => {
               ) : (
                 <>
                   <Image source={profileImage} style={styles.largeAvatar} />
-                  <Text style={styles.emptyStateName}>{customerName || "Customer"}</Text>
+                  <Text style={styles.emptyStateName}>{customerName || t("invoices.customer")}</Text>
                 </>
               )}
 
@@ -573,17 +582,13 @@ const ChatRoom = () => {
                     size={16}
                     color={colors.text.secondary}
                   />
-                  <Text style={styles.securityInfoText}>
-                    Messages are end-to-end encrypted
-                  </Text>
+                  <Text style={styles.securityInfoText}>{t("chat.encrypted")}</Text>
                 </View>
                 <Text style={styles.securityInfoSubtext}>
                   and only visible within this chat.
                 </Text>
-                <Text style={styles.securityInfoSubtext}>
-                  Payments use a public blockchain.
-                </Text>
-                <Text style={styles.securityInfoSubtext}>Secured by XMTP</Text>
+                <Text style={styles.securityInfoSubtext}>{t("chat.publicBlockchain")}</Text>
+                <Text style={styles.securityInfoSubtext}>{t("chat.securedBy")}</Text>
               </View>
             </View>
           </ScrollView>
@@ -594,7 +599,7 @@ const ChatRoom = () => {
       {!canChat && (
         <View style={styles.closedOrderBanner}>
           <Ionicons name="lock-closed-outline" size={18} color={colors.semantic.warning} />
-          <Text style={styles.closedOrderText}>This order has been closed. You can view previous messages but cannot send new ones.</Text>
+          <Text style={styles.closedOrderText}>{t("chat.orderClosedMessage")}</Text>
         </View>
       )}
 
@@ -621,7 +626,7 @@ const ChatRoom = () => {
           />
           <TextInput
             style={styles.messageInput}
-            placeholder={canChat ? "Message" : "Order closed"}
+            placeholder={canChat ? t("chat.messagePlaceholder") : t("chat.orderClosed")}
             placeholderTextColor={colors.neutral.gray.medium}
             value={message}
             onChangeText={setMessage}
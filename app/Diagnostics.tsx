@@ -0,0 +1,586 @@
+import Button from '@/components/Button';
+import Input from '@/components/Input';
+import { colors } from '@/constants/colors';
+import { API_ENVIRONMENTS, ApiEnvironmentId, CAN_SWITCH_ENVIRONMENT } from '@/constants/environments';
+import { fonts } from '@/constants/fonts';
+import { useTranslation } from '@/hooks/useTranslation';
+import { getActiveEnvironment } from '@/services/environment';
+import { resetMockBackend } from '@/services/mock';
+import { toCurl } from '@/services/networkLog';
+import { useAuthStore } from '@/store/authStore';
+import { useDevSettingsStore } from '@/store/devSettingsStore';
+import { NetworkLogEntry, SocketLogEntry, SocketStatus, useNetworkLogStore } from '@/store/networkLogStore';
+import { PERMISSION_REFRESH_INTERVALS, usePermissionsStore } from '@/store/permissionsStore';
+import { Ionicons } from '@expo/vector-icons';
+import * as Clipboard from 'expo-clipboard';
+import { router } from 'expo-router';
+import React, { useState } from 'react';
+import {
+    Alert,
+    FlatList,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+
+type TabType = 'environment' | 'network' | 'sockets';
+
+const TABS = [
+  { id: 'environment' as const, labelKey: 'diagnostics.environmentTab' as const, icon: 'server-outline' },
+  { id: 'network' as const, labelKey: 'diagnostics.networkTab' as const, icon: 'swap-vertical-outline' },
+  { id: 'sockets' as const, labelKey: 'diagnostics.socketsTab' as const, icon: 'pulse-outline' },
+];
+
+const SOCKET_STATUS_COLORS: Record<SocketStatus, string> = {
+  connecting: colors.semantic.info,
+  open: colors.primary.green,
+  closed: colors.neutral.gray.medium,
+  error: colors.semantic.error,
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString();
+
+function getStatusColor(entry: NetworkLogEntry) {
+  if (entry.error || (entry.status !== null && entry.status >= 500)) {
+    return colors.semantic.error;
+  }
+  if (entry.status !== null && entry.status >= 400) {
+    return colors.semantic.warning;
+  }
+  return entry.status === null ? colors.semantic.info : colors.primary.green;
+}
+
+/**
+ * Hidden diagnostics screen for QA, opened by long-pressing the logo on the login screen
+ * Shows recent requests and chat sockets, and switches the backend at runtime in builds that allow it
+ * (CAN_SWITCH_ENVIRONMENT); other builds only show which backend is used.
+ */
+const Diagnostics = () => {
+  const { t } = useTranslation();
+  const [activeTab, setActiveTab] = useState<TabType>('environment');
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('diagnostics.title')}</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <View style={styles.tabs}>
+        {TABS.map((tab) => (
+          <TouchableOpacity
+            key={tab.id}
+            style={[styles.tab, activeTab === tab.id && styles.tabActive]}
+            onPress={() => setActiveTab(tab.id)}
+            activeOpacity={0.7}
+          >
+            <Ionicons
+              name={tab.icon as any}
+              size={18}
+              color={activeTab === tab.id ? colors.primary.green : colors.neutral.gray.medium}
+            />
+            <Text style={[styles.tabText, activeTab === tab.id && styles.tabTextActive]}>{t(tab.labelKey)}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {activeTab === 'environment' && <EnvironmentTab />}
+      {activeTab === 'network' && <NetworkTab />}
+      {activeTab === 'sockets' && <SocketsTab />}
+    </View>
+  );
+};
+
+export default Diagnostics;
+
+/**
+ * Environment picker; switching signs the user out (see services/environment.ts)
+ * Read-only in builds that cannot switch environment.
+ */
+const EnvironmentTab = () => {
+  const { t } = useTranslation();
+  const { environmentId, customApiDomain, setEnvironment, setCustomApiDomain } = useDevSettingsStore();
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const [customDomain, setCustomDomain] = useState(customApiDomain);
+  const [customDomainError, setCustomDomainError] = useState<string>();
+  const refreshIntervalMinutes = usePermissionsStore((state) => state.refreshIntervalMinutes);
+  const setRefreshInterval = usePermissionsStore((state) => state.setRefreshInterval);
+  const activeEnvironment = getActiveEnvironment();
+
+  const confirmSwitch = (apply: () => void) => {
+    if (!isAuthenticated) {
+      apply();
+      return;
+    }
+    Alert.alert(t('diagnostics.switchTitle'), t('diagnostics.switchMessage'), [
+      {
+        text: t('common.cancel'),
+        style: 'cancel',
+      },
+      {
+        text: t('diagnostics.switch'),
+        style: 'destructive',
+        onPress: apply,
+      },
+    ]);
+  };
+
+  const handleSelect = (id: ApiEnvironmentId) => {
+    if (id !== environmentId) {
+      confirmSwitch(() => setEnvironment(id));
+    }
+  };
+
+  const handleApplyCustomDomain = () => {
+    if (!/^https?:\/\/[^\s/]+/.test(customDomain.trim())) {
+      setCustomDomainError(t('diagnostics.originInvalid'));
+      return;
+    }
+    setCustomDomainError(undefined);
+    confirmSwitch(() => {
+      setCustomApiDomain(customDomain);
+      setEnvironment('custom');
+    });
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.listContent} keyboardShouldPersistTaps="handled">
+      {activeEnvironment.id !== 'mock' && !activeEnvironment.apiDomain && (
+        <View style={styles.warningCard}>
+          <Ionicons name="warning-outline" size={20} color={colors.semantic.warning} />
+          <Text style={styles.warningText}>{t('diagnostics.noDomain')}</Text>
+        </View>
+      )}
+
+      {CAN_SWITCH_ENVIRONMENT ? (
+        <>
+          {API_ENVIRONMENTS.map((environment) => {
+            const isSelected = environment.id === environmentId;
+            const domain = environment.id === 'custom' ? customApiDomain : environment.apiDomain;
+
+            return (
+              <TouchableOpacity
+                key={environment.id}
+                style={[styles.card, styles.environmentCard, isSelected && styles.environmentCardSelected]}
+                onPress={() => (environment.id === 'custom' && !customApiDomain ? undefined : handleSelect(environment.id))}
+                activeOpacity={0.7}
+              >
+                <Ionicons
+                  name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+                  size={22}
+                  color={isSelected ? colors.primary.green : colors.neutral.gray.medium}
+                />
+                <View style={styles.textContainer}>
+                  <Text style={styles.itemTitle}>{environment.name}</Text>
+                  <Text style={styles.itemSubtitle} numberOfLines={1}>
+                    {environment.id === 'mock' ? t('diagnostics.sampleData') : domain || t('diagnostics.notConfigured')}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+
+          <View style={styles.card}>
+            <Input
+              label={t('diagnostics.customDomain')}
+              placeholder="https://api.example.com"
+              value={customDomain}
+              onChangeText={(text) => {
+                setCustomDomain(text);
+                setCustomDomainError(undefined);
+              }}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+              error={customDomainError}
+            />
+            <Button title={t('diagnostics.useCustomDomain')} variant="outline" onPress={handleApplyCustomDomain} />
+          </View>
+        </>
+      ) : (
+        <View style={[styles.card, styles.environmentCard]}>
+          <Ionicons name="lock-closed-outline" size={22} color={colors.neutral.gray.medium} />
+          <View style={styles.textContainer}>
+            <Text style={styles.itemTitle}>{activeEnvironment.name}</Text>
+            <Text style={styles.itemSubtitle} numberOfLines={2}>
+              {activeEnvironment.id === 'mock' ? t('diagnostics.sampleData') : activeEnvironment.apiDomain || t('diagnostics.notConfigured')}
+              {'\n'}{t('diagnostics.switchingDisabled')}
+            </Text>
+          </View>
+        </View>
+      )}
+
+      <View style={styles.card}>
+        <Text style={styles.itemTitle}>{t('diagnostics.permissionRefresh')}</Text>
+        <Text style={styles.itemSubtitle}>{t('diagnostics.permissionRefreshHint')}</Text>
+        <View style={styles.intervalOptions}>
+          {PERMISSION_REFRESH_INTERVALS.map((minutes) => {
+            const isSelected = minutes === refreshIntervalMinutes;
+            return (
+              <TouchableOpacity
+                key={minutes}
+                style={[styles.intervalOption, isSelected && styles.intervalOptionSelected]}
+                onPress={() => setRefreshInterval(minutes)}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.intervalOptionText, isSelected && styles.intervalOptionTextSelected]}>
+                  {minutes === 0 ? t('diagnostics.off') : t('diagnostics.minutes', { count: minutes })}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+
+      {activeEnvironment.id === 'mock' && (
+        <Button
+          title={t('diagnostics.resetMockData')}
+          variant="outline-danger"
+          onPress={resetMockBackend}
+          style={styles.resetButton}
+        />
+      )}
+    </ScrollView>
+  );
+};
+
+/**
+ * Recent request attempts, newest first; tap one for its headers, body and cURL command
+ */
+const NetworkTab = () => {
+  const { t } = useTranslation();
+  const requests = useNetworkLogStore((state) => state.requests);
+  const clearLog = useNetworkLogStore((state) => state.clearLog);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const handleCopy = async (entry: NetworkLogEntry) => {
+    await Clipboard.setStringAsync(toCurl(entry));
+    Alert.alert(t('diagnostics.copied'), t('diagnostics.copiedMessage'));
+  };
+
+  const renderItem = ({ item }: { item: NetworkLogEntry }) => {
+    const isExpanded = item.id === expandedId;
+    const statusColor = getStatusColor(item);
+
+    return (
+      <TouchableOpacity
+        style={styles.card}
+        onPress={() => setExpandedId(isExpanded ? null : item.id)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.requestRow}>
+          <Text style={styles.method}>{item.method}</Text>
+          <Text style={styles.requestUrl} numberOfLines={isExpanded ? undefined : 1}>
+            {item.url}
+          </Text>
+        </View>
+        <View style={styles.requestRow}>
+          <Text style={[styles.requestStatus, { color: statusColor }]}>
+            {item.error ?? (item.status === null ? t('diagnostics.pending') : String(item.status))}
+          </Text>
+          <Text style={styles.itemSubtitle}>
+            {formatTime(item.startedAt)}
+            {item.duration !== null && ` · ${item.duration} ms`}
+          </Text>
+        </View>
+
+        {isExpanded && (
+          <View style={styles.requestDetails}>
+            <Text style={styles.detailLabel}>{t('diagnostics.headers')}</Text>
+            {Object.entries(item.headers).map(([name, value]) => (
+              <Text key={name} style={styles.code}>
+                {name}: {value}
+              </Text>
+            ))}
+            {item.body !== null && (
+              <>
+                <Text style={styles.detailLabel}>{t('diagnostics.body')}</Text>
+                <Text style={styles.code}>{item.body}</Text>
+              </>
+            )}
+            <Button title={t('diagnostics.copyCurl')} variant="outline" onPress={() => handleCopy(item)} style={styles.copyButton} />
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <FlatList
+      data={requests}
+      renderItem={renderItem}
+      keyExtractor={(item) => item.id}
+      contentContainerStyle={styles.listContent}
+      ListHeaderComponent={
+        requests.length > 0 ? (
+          <TouchableOpacity style={styles.clearButton} onPress={clearLog}>
+            <Text style={styles.clearButtonText}>{t('diagnostics.clearLog')}</Text>
+          </TouchableOpacity>
+        ) : null
+      }
+      ListEmptyComponent={<EmptyState icon="swap-vertical-outline" message={t('diagnostics.requestsEmpty')} />}
+    />
+  );
+};
+
+/**
+ * Chat socket connections, newest first
+ */
+const SocketsTab = () => {
+  const { t } = useTranslation();
+  const sockets = useNetworkLogStore((state) => state.sockets);
+
+  const renderItem = ({ item }: { item: SocketLogEntry }) => (
+    <View style={styles.card}>
+      <View style={styles.requestRow}>
+        <View style={[styles.statusDot, { backgroundColor: SOCKET_STATUS_COLORS[item.status] }]} />
+        <Text style={styles.itemTitle}>{t(`diagnostics.status_${item.status}`)}</Text>
+      </View>
+      <Text style={styles.code} numberOfLines={2}>
+        {item.url}
+      </Text>
+      <Text style={styles.itemSubtitle}>
+        {t('diagnostics.socketActivity', {
+          sent: item.messagesSent,
+          received: item.messagesReceived,
+          time: formatTime(item.openedAt),
+        })}
+        {item.closedAt !== null && t('diagnostics.socketClosed', { time: formatTime(item.closedAt) })}
+      </Text>
+    </View>
+  );
+
+  return (
+    <FlatList
+      data={sockets}
+      renderItem={renderItem}
+      keyExtractor={(item) => item.id}
+      contentContainerStyle={styles.listContent}
+      ListEmptyComponent={<EmptyState icon="pulse-outline" message={t('diagnostics.socketsEmpty')} />}
+    />
+  );
+};
+
+const EmptyState = ({ icon, message }: { icon: string; message: string }) => (
+  <View style={styles.emptyContainer}>
+    <Ionicons name={icon as any} size={48} color={colors.neutral.gray.medium} />
+    <Text style={styles.emptySubtitle}>{message}</Text>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.secondary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: colors.background.primary,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.neutral.gray.lighter,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.primary,
+  },
+  placeholder: {
+    width: 40,
+  },
+  tabs: {
+    flexDirection: 'row',
+    backgroundColor: colors.background.primary,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.neutral.gray.lighter,
+  },
+  tab: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  tabActive: {
+    borderBottomColor: colors.primary.green,
+  },
+  tabText: {
+    fontSize: 14,
+    fontFamily: fonts.weights.medium,
+    color: colors.neutral.gray.medium,
+  },
+  tabTextActive: {
+    color: colors.primary.green,
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  card: {
+    backgroundColor: colors.background.primary,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: colors.neutral.gray.lighter,
+    gap: 6,
+  },
+  environmentCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  environmentCardSelected: {
+    borderColor: colors.primary.green,
+  },
+  textContainer: {
+    flex: 1,
+    gap: 2,
+  },
+  itemTitle: {
+    fontSize: 15,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.primary,
+  },
+  itemSubtitle: {
+    fontSize: 12,
+    fontFamily: fonts.weights.regular,
+    color: colors.text.secondary,
+  },
+  warningCard: {
+    flexDirection: 'row',
+    gap: 8,
+    padding: 12,
+    marginBottom: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.semantic.warning,
+    backgroundColor: colors.semantic.warning + '15',
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: fonts.weights.medium,
+    color: colors.text.primary,
+    lineHeight: 18,
+  },
+  resetButton: {
+    marginTop: 4,
+  },
+  intervalOptions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 6,
+  },
+  intervalOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.neutral.gray.lighter,
+  },
+  intervalOptionSelected: {
+    borderColor: colors.primary.green,
+    backgroundColor: colors.primary.green + '15',
+  },
+  intervalOptionText: {
+    fontSize: 13,
+    fontFamily: fonts.weights.medium,
+    color: colors.text.primary,
+  },
+  intervalOptionTextSelected: {
+    color: colors.primary.green,
+  },
+  requestRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  method: {
+    fontSize: 12,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.primary,
+    minWidth: 48,
+  },
+  requestUrl: {
+    flex: 1,
+    fontSize: 12,
+    fontFamily: fonts.weights.regular,
+    color: colors.text.primary,
+  },
+  requestStatus: {
+    fontSize: 12,
+    fontFamily: fonts.weights.semiBold,
+    minWidth: 48,
+  },
+  requestDetails: {
+    marginTop: 8,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: colors.neutral.gray.lighter,
+    gap: 4,
+  },
+  detailLabel: {
+    fontSize: 12,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.secondary,
+    marginTop: 4,
+  },
+  code: {
+    fontSize: 11,
+    fontFamily: 'monospace',
+    color: colors.text.primary,
+  },
+  copyButton: {
+    marginTop: 8,
+  },
+  statusDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  clearButton: {
+    alignSelf: 'flex-end',
+    marginBottom: 8,
+  },
+  clearButtonText: {
+    fontSize: 14,
+    fontFamily: fonts.weights.medium,
+    color: colors.primary.green,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 32,
+    gap: 12,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    fontFamily: fonts.weights.regular,
+    color: colors.text.secondary,
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+});
@@ -1,15 +1,22 @@
 import Button from '@/components/Button';
 import ImageUpload from '@/components/ImageUpload';
 import Input from '@/components/Input';
+import { withPermission } from '@/components/PermissionGuard';
 import Select from '@/components/Select';
 import Toast, { ToastType } from '@/components/Toast';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import { uploadConfig } from '@/constants/upload';
-import api from '@/services/api';
-import { useAuthStore } from '@/store/authStore';
+import { PERMISSIONS } from '@/constants/permissions';
+import { UPLOAD_TARGETS, uploadConfig } from '@/constants/upload';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { useResourceUri } from '@/hooks/useResourceUri';
+import { useTranslation } from '@/hooks/useTranslation';
+import { isAbortError, Service, ServiceMode, services as servicesApi } from '@/services';
+import { invalidateQueries } from '@/services/queryClient';
+import { queryKeys } from '@/services/queryKeys';
+import { releaseUploads } from '@/services/uploads';
+import { translateMessage } from '@/validators';
 import { Ionicons } from '@expo/vector-icons';
-import Constants from 'expo-constants';
 import { LinearGradient } from 'expo-linear-gradient';
 import { router, useLocalSearchParams } from 'expo-router';
 import React, { useCallback, useEffect, useState } from 'react';
@@ -27,59 +34,23 @@ import {
 } from 'react-native';
 import { z } from 'zod';
 
-interface ServiceMode {
-  id: number;
-  name: string;
-  isActive: boolean;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface ThumbNail {
-  id: string;
-  name: string;
-  systemName: string;
-  fileSize: number;
-  mimeType: string;
-  fileSource: string;
-  userId: string;
-  deleted: boolean;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface Service {
-  id: string;
-  organizationId: string;
-  name: string;
-  description: string;
-  isPublic: boolean;
-  isDeleted: boolean;
-  modeId: number;
-  staffId: string;
-  thumbNailId: string | null;
-  thumbNail: ThumbNail | null;
-  mode: ServiceMode;
-  createdAt: number;
-  updatedAt: number;
-}
-
 // Service validation schema
 const serviceSchema = z.object({
   name: z
     .string()
-    .min(1, 'Service name is required')
-    .min(2, 'Service name must be at least 2 characters')
-    .max(100, 'Service name must be less than 100 characters'),
+    .min(1, 'validation.serviceNameRequired')
+    .min(2, 'validation.serviceNameMin')
+    .max(100, 'validation.serviceNameMax'),
   description: z
     .string()
-    .min(1, 'Description is required')
-    .min(10, 'Description must be at least 10 characters')
-    .max(500, 'Description must be less than 500 characters'),
-  modeId: z.number().min(1, 'Service mode is required'),
+    .min(1, 'validation.descriptionRequired')
+    .min(10, 'validation.descriptionMin')
+    .max(500, 'validation.descriptionMax'),
+  modeId: z.number().min(1, 'validation.serviceModeRequired'),
 });
 
 const EditService = () => {
+  const { t } = useTranslation();
   const { serviceId } = useLocalSearchParams<{ serviceId: string }>();
   const [service, setService] = useState<Service | null>(null);
   const [name, setName] = useState('');
@@ -91,13 +62,13 @@ const EditService = () => {
   const [isSaving, setIsSaving] = useState(false);
   const [isLoadingModes, setIsLoadingModes] = useState(true);
   const [errors, setErrors] = useState<Record<string, string>>({});
-  const [bannerUri, setBannerUri] = useState<string | null>(null);
-  const [isLoadingBanner, setIsLoadingBanner] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: ToastType; visible: boolean }>({
     message: '',
     type: 'info',
     visible: false,
   });
+  const getSignal = useAbortSignal();
+  const { uri: bannerUri, isLoading: isLoadingBanner } = useResourceUri(service?.thumbNail?.systemName);
 
   const showToast = (message: string, type: ToastType = 'info') => {
     setToast({ message, type, visible: true });
@@ -107,43 +78,9 @@ const EditService = () => {
     setToast((prev) => ({ ...prev, visible: false }));
   };
 
-  const getImageUri = useCallback(async (systemName: string): Promise<void> => {
-    setIsLoadingBanner(true);
-    try {
-      const API_DOMAIN = Constants.expoConfig?.extra?.apiDomain as string | undefined || '';
-      const authToken = useAuthStore.getState().token;
-
-      const response = await fetch(`${API_DOMAIN}/file/resource/${systemName}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${authToken}`,
-        },
-      });
-
-      if (!response.ok) {
-        setIsLoadingBanner(false);
-        return;
-      }
-
-      const blob = await response.blob();
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const dataUri = reader.result as string;
-        setBannerUri(dataUri);
-        setIsLoadingBanner(false);
-      };
-      reader.onerror = () => {
-        setIsLoadingBanner(false);
-      };
-      reader.readAsDataURL(blob);
-    } catch (err) {
-      setIsLoadingBanner(false);
-    }
-  }, []);
-
   const fetchService = useCallback(async () => {
     if (!serviceId) {
-      setErrors({ general: 'Service ID is required' });
+      setErrors({ general: t('serviceForm.idRequired') });
       setIsLoading(false);
       return;
     }
@@ -151,54 +88,55 @@ const EditService = () => {
     setIsLoading(true);
     setErrors({});
 
+    const signal = getSignal();
     try {
-      const response = await api.get<Service>(`/en/on/service/${serviceId}`, {
-        requiresAuth: true,
-      });
-
-      const serviceData = response.data;
+      const serviceData = await servicesApi.get(serviceId, { signal });
       setService(serviceData);
       setName(serviceData.name);
       setDescription(serviceData.description);
       setModeId(serviceData.modeId);
       setThumbNailId(serviceData.thumbNailId);
-
-      // Load banner image if thumbnail exists
-      if (serviceData.thumbNail?.systemName) {
-        getImageUri(serviceData.thumbNail.systemName);
-      }
     } catch (err: any) {
+      if (isAbortError(err)) {
+        return;
+      }
       setErrors({
-        general: err?.message || 'Failed to load service. Please try again.',
+        general: err?.message || t('serviceForm.loadFailed'),
       });
-      showToast(err?.message || 'Failed to load service. Please try again.', 'error');
+      showToast(err?.message || t('serviceForm.loadFailed'), 'error');
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
-  }, [serviceId, getImageUri]);
+  }, [serviceId, getSignal, t]);
 
-  const fetchServiceModes = async () => {
+  const fetchServiceModes = useCallback(async () => {
     setIsLoadingModes(true);
+    const signal = getSignal();
     try {
-      const response = await api.get<ServiceMode[]>('/en/service/modes', {
-        requiresAuth: true,
-      });
-      setModes(response.data || []);
+      const serviceModes = await servicesApi.modes({ signal });
+      setModes(serviceModes || []);
     } catch (err: any) {
+      if (isAbortError(err)) {
+        return;
+      }
       console.error('Failed to fetch service modes:', err);
       setErrors((prev) => ({
         ...prev,
-        general: 'Failed to load service modes. Please try again.',
+        general: t('serviceForm.modesLoadFailed'),
       }));
     } finally {
-      setIsLoadingModes(false);
+      if (!signal.aborted) {
+        setIsLoadingModes(false);
+      }
     }
-  };
+  }, [getSignal, t]);
 
   useEffect(() => {
     fetchService();
     fetchServiceModes();
-  }, [fetchService]);
+  }, [fetchService, fetchServiceModes]);
 
   const handleFieldChange = (field: string, value: string | number) => {
     if (field === 'name') {
@@ -243,7 +181,7 @@ const EditService = () => {
       const fieldErrors: Record<string, string> = {};
       validation.error.issues.forEach((issue) => {
         if (issue.path[0]) {
-          fieldErrors[issue.path[0] as string] = issue.message;
+          fieldErrors[issue.path[0] as string] = translateMessage(issue.message);
         }
       });
       setErrors(fieldErrors);
@@ -256,27 +194,24 @@ const EditService = () => {
 
     try {
       // Make API call to update service
-      await api.patch(
-        `/en/on/service/${serviceId}`,
-        {
-          name,
-          description,
-          thumbNailId: thumbNailId || null,
-          modeId: modeId!,
-        },
-        {
-          requiresAuth: true,
-        }
-      );
+      await servicesApi.update(serviceId, {
+        name,
+        description,
+        thumbNailId: thumbNailId || null,
+        modeId: modeId!,
+      });
+      invalidateQueries(queryKeys.services.list());
+      invalidateQueries(queryKeys.services.detail(serviceId));
+      releaseUploads(UPLOAD_TARGETS.serviceThumbnail(serviceId));
 
-      showToast('Service updated successfully', 'success');
+      showToast(t('serviceForm.updated'), 'success');
       setTimeout(() => {
         router.back();
       }, 1500);
     } catch (error: any) {
       console.error('Update service failed:', error);
       const errorMessage =
-        error?.message || error?.data?.message || 'Failed to update service. Please try again.';
+        error?.message || error?.data?.message || t('serviceForm.updateFailed');
 
       setErrors({
         general: errorMessage,
@@ -300,7 +235,7 @@ const EditService = () => {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color={colors.primary.green} />
-        <Text style={styles.loadingText}>Loading service...</Text>
+        <Text style={styles.loadingText}>{t('serviceForm.loading')}</Text>
       </View>
     );
   }
@@ -311,7 +246,7 @@ const EditService = () => {
         <Ionicons name="alert-circle-outline" size={64} color={colors.semantic.error} />
         <Text style={styles.errorText}>{errors.general}</Text>
         <Button
-          title="Go Back"
+          title={t('common.goBack')}
           variant="outline"
           onPress={() => router.back()}
           style={styles.backButton}
@@ -337,7 +272,7 @@ const EditService = () => {
         >
           <Ionicons name="arrow-back" size={24} color={colors.text.inverse} />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Edit Service</Text>
+        <Text style={styles.headerTitle}>{t('serviceForm.editTitle')}</Text>
         <View style={styles.headerSpacer} />
       </View>
       <KeyboardAvoidingView
@@ -385,12 +320,12 @@ const EditService = () => {
           {/* Form Section */}
           <View style={styles.form}>
             <Text style={styles.subtitle}>
-              Update the service information below.
+              {t('serviceForm.editSubtitle')}
             </Text>
 
             <Input
-              label="Service Name"
-              placeholder="Enter service name"
+              label={t('serviceForm.nameLabel')}
+              placeholder={t('serviceForm.namePlaceholder')}
               value={name}
               onChangeText={(text) => handleFieldChange('name', text)}
               autoCapitalize="words"
@@ -398,13 +333,13 @@ const EditService = () => {
             />
 
             <View style={styles.textAreaContainer}>
-              <Text style={styles.textAreaLabel}>Description</Text>
+              <Text style={styles.textAreaLabel}>{t('common.description')}</Text>
               <TextInput
                 style={[
                   styles.textArea,
                   errors.description && styles.textAreaError,
                 ]}
-                placeholder="Enter service description"
+                placeholder={t('serviceForm.descriptionPlaceholder')}
                 placeholderTextColor={colors.neutral.gray.medium}
                 value={description}
                 onChangeText={(text) => handleFieldChange('description', text)}
@@ -418,18 +353,19 @@ const EditService = () => {
             </View>
 
             <Select
-              label="Service Mode"
+              label={t('serviceForm.modeLabel')}
               options={modeOptions}
               value={modeId}
               onValueChange={(value) => handleFieldChange('modeId', value as number)}
-              placeholder="Select service mode"
+              placeholder={t('serviceForm.modePlaceholder')}
               error={errors.modeId}
             />
 
             <ImageUpload
-              label="Service Thumbnail"
+              label={t('serviceForm.thumbnailLabel')}
               multiple={false}
               maxSize={uploadConfig.maxImageSize}
+              uploadKey={UPLOAD_TARGETS.serviceThumbnail(serviceId)}
               fileTypes={['image']}
               value={thumbNailId || undefined}
               onChange={handleImageChange}
@@ -443,7 +379,7 @@ const EditService = () => {
             )}
 
             <Button
-              title="Update Service"
+              title={t('serviceForm.update')}
               variant="primary"
               onPress={handleUpdateService}
               loading={isSaving || isLoadingModes}
@@ -457,7 +393,7 @@ const EditService = () => {
   );
 };
 
-export default EditService;
+export default withPermission(EditService, PERMISSIONS.manageServices);
 
 const styles = StyleSheet.create({
   container: {
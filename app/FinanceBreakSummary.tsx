@@ -1,6 +1,11 @@
+import { withPermission } from '@/components/PermissionGuard';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
+import { PERMISSIONS } from '@/constants/permissions';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { useTranslation } from '@/hooks/useTranslation';
+import { finance, isAbortError, RevenueBreakdown } from '@/services';
+import { formatCurrency } from '@/utils/number';
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import React, { useCallback, useEffect, useState } from 'react';
@@ -15,50 +20,41 @@ import {
     View,
 } from 'react-native';
 
-interface RevenueBreakdown {
-    organizationId: string;
-    organizationName: string;
-    branchId: string;
-    branchName: string;
-    serviceId: string;
-    serviceName: string;
-    customerId: string;
-    customerFirstName: string;
-    customerLastName: string;
-    totalInvoices: number;
-    totalRevenue: number;
-    averageRevenuePerInvoice: number;
-}
-
 type GroupByType = 'service' | 'branch' | 'customer' | 'all';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const CHART_WIDTH = SCREEN_WIDTH - 64; // Padding on both sides
 
 const FinanceBreakSummary = () => {
+    const { t } = useTranslation();
     const [revenue, setRevenue] = useState<RevenueBreakdown[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [isRefreshing, setIsRefreshing] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [groupBy, setGroupBy] = useState<GroupByType>('all');
+    const getSignal = useAbortSignal();
 
     const fetchRevenue = useCallback(async () => {
         setIsLoading(true);
         setError(null);
 
+        const signal = getSignal();
         try {
-            const response = await api.get<RevenueBreakdown[]>('/en/on/revenue/breakdown', {
-                requiresAuth: true,
-            });
+            const data = await finance.revenueBreakdown({ signal });
 
-            setRevenue(response.data || []);
+            setRevenue(data || []);
         } catch (err: any) {
-            setError(err?.message || 'Failed to load revenue breakdown');
+            if (isAbortError(err)) {
+                return;
+            }
+            setError(err?.message || t('finance.loadFailed'));
             setRevenue([]);
         } finally {
-            setIsLoading(false);
+            if (!signal.aborted) {
+                setIsLoading(false);
+            }
         }
-    }, []);
+    }, [getSignal, t]);
 
     useEffect(() => {
         fetchRevenue();
@@ -68,18 +64,22 @@ const FinanceBreakSummary = () => {
         setIsRefreshing(true);
         setError(null);
 
+        const signal = getSignal();
         try {
-            const response = await api.get<RevenueBreakdown[]>('/en/on/revenue/breakdown', {
-                requiresAuth: true,
-            });
+            const data = await finance.revenueBreakdown({ signal });
 
-            setRevenue(response.data || []);
+            setRevenue(data || []);
         } catch (err: any) {
-            setError(err?.message || 'Failed to refresh revenue breakdown');
+            if (isAbortError(err)) {
+                return;
+            }
+            setError(err?.message || t('finance.refreshFailed'));
         } finally {
-            setIsRefreshing(false);
+            if (!signal.aborted) {
+                setIsRefreshing(false);
+            }
         }
-    }, []);
+    }, [getSignal, t]);
 
     // Calculate totals
     const totalRevenue = revenue.reduce((sum, item) => sum + item.totalRevenue, 0);
@@ -125,7 +125,7 @@ const FinanceBreakSummary = () => {
 
         return (
             <View style={styles.chartContainer}>
-                <Text style={styles.chartTitle}>Revenue Breakdown</Text>
+                <Text style={styles.chartTitle}>{t('finance.revenueBreakdown')}</Text>
                 <View style={styles.chart}>
                     {sortedData.map((item, index) => {
                         const barWidth = (item.totalRevenue / maxRevenue) * CHART_WIDTH;
@@ -144,7 +144,7 @@ const FinanceBreakSummary = () => {
                                     <Text style={styles.barLabel} numberOfLines={1}>
                                         {label}
                                     </Text>
-                                    <Text style={styles.barValue}>KES {item.totalRevenue.toLocaleString()}</Text>
+                                    <Text style={styles.barValue}>{formatCurrency(item.totalRevenue)}</Text>
                                 </View>
                                 <View style={styles.barWrapper}>
                                     <View
@@ -167,7 +167,7 @@ const FinanceBreakSummary = () => {
                                         {item.totalInvoices} invoice{item.totalInvoices !== 1 ? 's' : ''}
                                     </Text>
                                     <Text style={styles.barDetailText}>
-                                        Avg: KES {item.averageRevenuePerInvoice.toFixed(2)}
+                                        Avg: {formatCurrency(item.averageRevenuePerInvoice)}
                                     </Text>
                                 </View>
                             </View>
@@ -189,12 +189,12 @@ const FinanceBreakSummary = () => {
                     >
                         <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
                     </TouchableOpacity>
-                    <Text style={styles.headerTitle}>Finance Summary</Text>
+                    <Text style={styles.headerTitle}>{t('finance.title')}</Text>
                     <View style={{ width: 40 }} />
                 </View>
                 <View style={styles.loadingContainer}>
                     <ActivityIndicator size="large" color={colors.primary.green} />
-                    <Text style={styles.loadingText}>Loading finance data...</Text>
+                    <Text style={styles.loadingText}>{t('finance.loading')}</Text>
                 </View>
             </View>
         );
@@ -211,20 +211,20 @@ const FinanceBreakSummary = () => {
                     >
                         <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
                     </TouchableOpacity>
-                    <Text style={styles.headerTitle}>Finance Summary</Text>
+                    <Text style={styles.headerTitle}>{t('finance.title')}</Text>
                     <View style={{ width: 40 }} />
                 </View>
                 <View style={styles.emptyContainer}>
                     <Ionicons name="cash-outline" size={64} color={colors.neutral.gray.light} />
                     <Text style={styles.emptyText}>
-                        {error || 'No revenue data available'}
+                        {error || t('finance.empty')}
                     </Text>
                     <TouchableOpacity
                         style={styles.retryButton}
                         onPress={fetchRevenue}
                         activeOpacity={0.7}
                     >
-                        <Text style={styles.retryButtonText}>Retry</Text>
+                        <Text style={styles.retryButtonText}>{t('common.retry')}</Text>
                     </TouchableOpacity>
                 </View>
             </View>
@@ -241,7 +241,7 @@ const FinanceBreakSummary = () => {
                 >
                     <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
                 </TouchableOpacity>
-                <Text style={styles.headerTitle}>Finance Summary</Text>
+                <Text style={styles.headerTitle}>{t('finance.title')}</Text>
                 <View style={{ width: 40 }} />
             </View>
 
@@ -264,28 +264,28 @@ const FinanceBreakSummary = () => {
                         <View style={styles.summaryIconContainer}>
                             <Ionicons name="cash" size={32} color={colors.text.inverse} />
                         </View>
-                        <Text style={styles.summaryLabel}>Total Revenue</Text>
-                        <Text style={styles.summaryValue}>KES {totalRevenue.toLocaleString()}</Text>
+                        <Text style={styles.summaryLabel}>{t('finance.totalRevenue')}</Text>
+                        <Text style={styles.summaryValue}>{formatCurrency(totalRevenue)}</Text>
                     </View>
 
                     <View style={styles.summaryCardsRow}>
                         <View style={[styles.summaryCard, styles.summaryCardSecondary]}>
                             <Ionicons name="receipt" size={24} color={colors.primary.green} />
-                            <Text style={styles.summaryCardLabel}>Total Invoices</Text>
+                            <Text style={styles.summaryCardLabel}>{t('finance.totalInvoices')}</Text>
                             <Text style={styles.summaryCardValue}>{totalInvoices}</Text>
                         </View>
 
                         <View style={[styles.summaryCard, styles.summaryCardSecondary]}>
                             <Ionicons name="trending-up" size={24} color={colors.secondary.orange} />
-                            <Text style={styles.summaryCardLabel}>Avg per Invoice</Text>
-                            <Text style={styles.summaryCardValue}>KES {averageRevenue.toFixed(2)}</Text>
+                            <Text style={styles.summaryCardLabel}>{t('finance.averagePerInvoice')}</Text>
+                            <Text style={styles.summaryCardValue}>{formatCurrency(averageRevenue)}</Text>
                         </View>
                     </View>
                 </View>
 
                 {/* Group By Filter */}
                 <View style={styles.filterSection}>
-                    <Text style={styles.filterLabel}>Group By:</Text>
+                    <Text style={styles.filterLabel}>{t('finance.groupBy')}</Text>
                     <View style={styles.filterButtons}>
                         {(['all', 'service', 'branch', 'customer'] as GroupByType[]).map((type) => (
                             <TouchableOpacity
@@ -303,7 +303,7 @@ const FinanceBreakSummary = () => {
                                         groupBy === type && styles.filterButtonTextActive,
                                     ]}
                                 >
-                                    {type.charAt(0).toUpperCase() + type.slice(1)}
+                                    {type === 'all' ? t('finance.group_all') : t(`invoices.${type}`)}
                                 </Text>
                             </TouchableOpacity>
                         ))}
@@ -315,7 +315,7 @@ const FinanceBreakSummary = () => {
 
                 {/* Detailed List */}
                 <View style={styles.detailsSection}>
-                    <Text style={styles.sectionTitle}>Detailed Breakdown</Text>
+                    <Text style={styles.sectionTitle}>{t('finance.detailedBreakdown')}</Text>
                     {groupedData.map((item, index) => (
                         <View key={index} style={styles.detailCard}>
                             <View style={styles.detailHeader}>
@@ -333,19 +333,19 @@ const FinanceBreakSummary = () => {
 
                             <View style={styles.detailStats}>
                                 <View style={styles.detailStatItem}>
-                                    <Text style={styles.detailStatLabel}>Revenue</Text>
+                                    <Text style={styles.detailStatLabel}>{t('finance.revenue')}</Text>
                                     <Text style={styles.detailStatValue}>
-                                        KES {item.totalRevenue.toLocaleString()}
+                                        {formatCurrency(item.totalRevenue)}
                                     </Text>
                                 </View>
                                 <View style={styles.detailStatItem}>
-                                    <Text style={styles.detailStatLabel}>Invoices</Text>
+                                    <Text style={styles.detailStatLabel}>{t('finance.invoices')}</Text>
                                     <Text style={styles.detailStatValue}>{item.totalInvoices}</Text>
                                 </View>
                                 <View style={styles.detailStatItem}>
-                                    <Text style={styles.detailStatLabel}>Average</Text>
+                                    <Text style={styles.detailStatLabel}>{t('finance.average')}</Text>
                                     <Text style={styles.detailStatValue}>
-                                        KES {item.averageRevenuePerInvoice.toFixed(2)}
+                                        {formatCurrency(item.averageRevenuePerInvoice)}
                                     </Text>
                                 </View>
                             </View>
@@ -357,7 +357,7 @@ const FinanceBreakSummary = () => {
     );
 };
 
-export default FinanceBreakSummary;
+export default withPermission(FinanceBreakSummary, PERMISSIONS.viewFinance);
 
 const styles = StyleSheet.create({
     container: {
@@ -0,0 +1,184 @@
+import Button from '@/components/Button';
+import Input from '@/components/Input';
+import { colors } from '@/constants/colors';
+import { fonts } from '@/constants/fonts';
+import { useTranslation } from '@/hooks/useTranslation';
+import { auth, getErrorFieldErrors } from '@/services';
+import { forgotPasswordSchema, validateField, validateForm } from '@/validators';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useState } from 'react';
+import {
+    KeyboardAvoidingView,
+    Platform,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+
+/**
+ * First step of password recovery: emails a reset code, then continues on ResetPassword
+ */
+const ForgotPassword = () => {
+  const [email, setEmail] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const { t } = useTranslation();
+
+  const handleEmailChange = (value: string) => {
+    setEmail(value);
+
+    // Validate field in real-time
+    const fieldError = validateField(forgotPasswordSchema, 'email', value);
+    setErrors(fieldError ? { email: fieldError } : {});
+  };
+
+  const handleSubmit = async () => {
+    const trimmedEmail = email.trim();
+    const validation = validateForm(forgotPasswordSchema, { email: trimmedEmail });
+
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    setErrors({});
+    setIsLoading(true);
+
+    try {
+      await auth.requestPasswordReset(trimmedEmail);
+      router.push({ pathname: '/ResetPassword', params: { email: trimmedEmail } });
+    } catch (error: any) {
+      const fieldErrors = getErrorFieldErrors(error);
+      setErrors(
+        Object.keys(fieldErrors).length > 0
+          ? fieldErrors
+          : { general: error?.message || t('forgotPassword.failed') }
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.keyboardView}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => router.back()}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{t('forgotPassword.title')}</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        {/* Form Section */}
+        <View style={styles.form}>
+          <Text style={styles.subtitle}>{t('forgotPassword.subtitle')}</Text>
+
+          <Input
+            label={t('forgotPassword.email')}
+            placeholder={t('forgotPassword.emailPlaceholder')}
+            value={email}
+            onChangeText={handleEmailChange}
+            keyboardType="email-address"
+            autoCapitalize="none"
+            autoComplete="email"
+            error={errors.email}
+          />
+
+          {errors.general && (
+            <View style={styles.errorContainer}>
+              <Text style={styles.errorText}>{errors.general}</Text>
+            </View>
+          )}
+
+          <Button
+            title={t('forgotPassword.submit')}
+            variant="primary"
+            onPress={handleSubmit}
+            loading={isLoading}
+            disabled={isLoading}
+            style={styles.submitButton}
+          />
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+export default ForgotPassword;
+
+const styles = StyleSheet.create({
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 32,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.primary,
+    flex: 1,
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  form: {
+    flex: 1,
+  },
+  subtitle: {
+    fontSize: 14,
+    fontFamily: fonts.weights.regular,
+    color: colors.neutral.gray.medium,
+    marginBottom: 24,
+    lineHeight: 20,
+  },
+  errorContainer: {
+    marginBottom: 16,
+    padding: 12,
+    backgroundColor: '#FEE2E2',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.semantic.error,
+  },
+  errorText: {
+    fontSize: 14,
+    fontFamily: fonts.weights.medium,
+    color: colors.semantic.error,
+    textAlign: 'center',
+  },
+  submitButton: {
+    marginTop: 8,
+  },
+});
@@ -1,11 +1,15 @@
+import OutboxBanner from '@/components/OutboxBanner';
+import { withPermission } from '@/components/PermissionGuard';
 import Toast, { ToastType } from '@/components/Toast';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
-import { useAuthStore } from '@/store/authStore';
+import { PERMISSIONS } from '@/constants/permissions';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { useResourceUri } from '@/hooks/useResourceUri';
+import { useTranslation } from '@/hooks/useTranslation';
+import { BookedService, bookings, isAbortError } from '@/services';
 import { formatDateTime } from '@/utils/date';
 import { Ionicons } from '@expo/vector-icons';
-import Constants from 'expo-constants';
 import { router, useLocalSearchParams } from 'expo-router';
 import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
@@ -24,108 +28,15 @@ import IncomingRequestInvoicesTab from './components/IncomingRequestInvoicesTab'
 import IncomingRequestSharedFilesTab from './components/IncomingRequestSharedFilesTab';
 import IncomingRequestVehicleProfileTab from './components/IncomingRequestVehicleProfileTab';
 
-interface ThumbNail {
-    id: string;
-    name: string;
-    systemName: string;
-    fileSize: number;
-    mimeType: string;
-    fileSource: string;
-    userId: string;
-    deleted: boolean;
-    createdAt: number;
-    updatedAt: number;
-}
-
-interface ServiceMode {
-    id: number;
-    name: string;
-    isActive: boolean;
-    createdAt: number;
-    updatedAt: number;
-}
-
-interface RequestDetails {
-    id: string;
-    bookCode: string;
-    description: string;
-    organizationId: string;
-    branchId: string;
-    customerId: string;
-    staffId: string | null;
-    serviceId: string;
-    priceId: string | null;
-    bookedDate: number;
-    acceptedDate: number | null;
-    isAccepted: boolean;
-    isActive: boolean;
-    isHomeWorkRequest: boolean;
-    isCancelled: boolean;
-    isDeclined: boolean;
-    isCompleted: boolean;
-    completedDate: number | null;
-    service: {
-        id: string;
-        organizationId: string;
-        name: string;
-        description: string;
-        isPublic: boolean;
-        isDeleted: boolean;
-        modeId: number;
-        staffId: string;
-        thumbNailId: string;
-        thumbNail: ThumbNail | null;
-        mode: ServiceMode;
-        createdAt: number;
-        updatedAt: number;
-    };
-    branch: {
-        id: string;
-        organizationId: string;
-        isMain: boolean;
-        name: string;
-        longitude: number;
-        latitude: number;
-        accuracy: number | null;
-        contact: number;
-        description: string;
-        email: string;
-        stateProvince: string;
-        city: string;
-        location: string;
-        slotsId: string | null;
-        createdAt: number;
-        updatedAt: number;
-    };
-    customer: {
-        id: string;
-        firstName: string;
-        middleName: string;
-        lastName: string;
-        email: string;
-        phone: number;
-        country: string;
-        userNumber: string;
-        gender: number;
-        birthDate: string;
-        verified: boolean;
-        active: boolean;
-        createdAt: number;
-        updatedAt: number;
-    };
-    createdAt: number;
-    updatedAt: number;
-}
-
 type TabType = 'details' | 'sharedFiles' | 'invoices' | 'vehicleProfile' | 'activities';
 
 const IncomingRequestDetails = () => {
+    const { t } = useTranslation();
     const { requestId } = useLocalSearchParams<{ requestId: string }>();
-    const [request, setRequest] = useState<RequestDetails | null>(null);
+    const [request, setRequest] = useState<BookedService | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [activeTab, setActiveTab] = useState<TabType>('details');
-    const [imageUri, setImageUri] = useState<string | null>(null);
     const [toast, setToast] = useState<{ message: string; type: ToastType; visible: boolean }>({
         message: '',
         type: 'info',
@@ -133,6 +44,8 @@ const IncomingRequestDetails = () => {
     });
     const [isScrolled, setIsScrolled] = useState(false);
     const scrollY = useRef(new Animated.Value(0)).current;
+    const getSignal = useAbortSignal();
+    const { uri: imageUri } = useResourceUri(request?.service.thumbNail?.systemName);
 
     const showToast = (message: string, type: ToastType = 'info') => {
         setToast({ message, type, visible: true });
@@ -142,36 +55,9 @@ const IncomingRequestDetails = () => {
         setToast((prev) => ({ ...prev, visible: false }));
     };
 
-    const getImageUri = useCallback(async (systemName: string): Promise<void> => {
-        try {
-            const API_DOMAIN = Constants.expoConfig?.extra?.apiDomain as string | undefined || '';
-            const authToken = useAuthStore.getState().token;
-
-            const response = await fetch(`${API_DOMAIN}/file/resource/${systemName}`, {
-                method: 'GET',
-                headers: {
-                    'Authorization': `Bearer ${authToken}`,
-                },
-            });
-
-            if (!response.ok) {
-                return;
-            }
-
-            const blob = await response.blob();
-            const reader = new FileReader();
-            reader.onloadend = () => {
-                const dataUri = reader.result as string;
-                setImageUri(dataUri);
-            };
-            reader.readAsDataURL(blob);
-        } catch (err) {
-        }
-    }, []);
-
     const fetchRequestDetails = useCallback(async () => {
         if (!requestId) {
-            setError('Request ID is required');
+            setError(t('incomingRequest.idRequired'));
             setIsLoading(false);
             return;
         }
@@ -179,27 +65,23 @@ const IncomingRequestDetails = () => {
         setIsLoading(true);
         setError(null);
 
+        const signal = getSignal();
         try {
-            const response = await api.get<RequestDetails>(
-                `/en/on/book/service/request/${requestId}`,
-                {
-                    requiresAuth: true,
-                }
-            );
-
-            setRequest(response.data);
-
-            // Load thumbnail image if available
-            if (response.data.service.thumbNail?.systemName) {
-                getImageUri(response.data.service.thumbNail.systemName);
-            }
+            const data = await bookings.get(requestId, { signal });
+
+            setRequest(data);
         } catch (err: any) {
-            setError(err?.message || 'Failed to load request details. Please try again.');
-            showToast(err?.message || 'Failed to load request details. Please try again.', 'error');
+            if (isAbortError(err)) {
+                return;
+            }
+            setError(err?.message || t('incomingRequest.loadFailed'));
+            showToast(err?.message || t('incomingRequest.loadFailed'), 'error');
         } finally {
-            setIsLoading(false);
+            if (!signal.aborted) {
+                setIsLoading(false);
+            }
         }
-    }, [requestId, getImageUri]);
+    }, [requestId, getSignal, t]);
 
     useEffect(() => {
         fetchRequestDetails();
@@ -209,7 +91,7 @@ const IncomingRequestDetails = () => {
         return (
             <View style={styles.loadingContainer}>
                 <ActivityIndicator size="large" color={colors.primary.green} />
-                <Text style={styles.loadingText}>Loading request details...</Text>
+                <Text style={styles.loadingText}>{t('incomingRequest.loadingDetails')}</Text>
             </View>
         );
     }
@@ -218,13 +100,13 @@ const IncomingRequestDetails = () => {
         return (
             <View style={styles.errorContainer}>
                 <Ionicons name="alert-circle-outline" size={48} color={colors.semantic.error} />
-                <Text style={styles.errorText}>{error || 'Request not found'}</Text>
+                <Text style={styles.errorText}>{error || t('incomingRequest.notFound')}</Text>
                 <TouchableOpacity
                     style={styles.retryButton}
                     onPress={fetchRequestDetails}
                     activeOpacity={0.7}
                 >
-                    <Text style={styles.retryButtonText}>Retry</Text>
+                    <Text style={styles.retryButtonText}>{t('common.retry')}</Text>
                 </TouchableOpacity>
             </View>
         );
@@ -296,7 +178,7 @@ const IncomingRequestDetails = () => {
                             activeTab === 'details' && styles.tabTextActive,
                         ]}
                     >
-                        Details
+                        {t('staff.detailsTab')}
                     </Text>
                 </TouchableOpacity>
 
@@ -316,7 +198,7 @@ const IncomingRequestDetails = () => {
                             activeTab === 'sharedFiles' && styles.tabTextActive,
                         ]}
                     >
-                        Shared Files
+                        {t('incomingRequest.sharedFilesTab')}
                     </Text>
                 </TouchableOpacity>
 
@@ -336,7 +218,7 @@ const IncomingRequestDetails = () => {
                             activeTab === 'invoices' && styles.tabTextActive,
                         ]}
                     >
-                        Invoices
+                        {t('incomingRequest.invoicesTab')}
                     </Text>
                 </TouchableOpacity>
 
@@ -356,7 +238,7 @@ const IncomingRequestDetails = () => {
                             activeTab === 'vehicleProfile' && styles.tabTextActive,
                         ]}
                     >
-                        Vehicle Profile
+                        {t('incomingRequest.vehicleProfileTab')}
                     </Text>
                 </TouchableOpacity>
 
@@ -376,7 +258,7 @@ const IncomingRequestDetails = () => {
                             activeTab === 'activities' && styles.tabTextActive,
                         ]}
                     >
-                        Activities
+                        {t('incomingRequest.activitiesTab')}
                     </Text>
                 </TouchableOpacity>
             </ScrollView>
@@ -443,7 +325,11 @@ const IncomingRequestDetails = () => {
                                                         : styles.statusBadgeTextNew,
                                             ]}
                                         >
-                                            {request.isAccepted && !request.isCompleted ? 'Ongoing' : request.isCompleted ? 'Completed' : 'New'}
+                                            {request.isAccepted && !request.isCompleted
+                                                ? t('bookingHistory.ongoing')
+                                                : request.isCompleted
+                                                    ? t('bookingHistory.completed')
+                                                    : t('incomingRequests.new')}
                                         </Text>
                                     </View>
                                 </View>
@@ -491,6 +377,7 @@ const IncomingRequestDetails = () => {
 
                     {/* Tab Content */}
                     <View style={styles.tabContent}>
+                        <OutboxBanner entityId={request.id} style={styles.outboxBanner} />
                         {activeTab === 'details' && <IncomingRequestDetailsTab request={request} onToast={openToast} onRefresh={fetchRequestDetails} />}
                         {activeTab === 'sharedFiles' && <IncomingRequestSharedFilesTab bookedServiceId={request.id} isCompleted={request.isCompleted} />}
                         {activeTab === 'invoices' && <IncomingRequestInvoicesTab bookedServiceId={request.id} onToast={openToast} isCompleted={request.isCompleted} />}
@@ -512,13 +399,17 @@ const IncomingRequestDetails = () => {
     );
 };
 
-export default IncomingRequestDetails;
+export default withPermission(IncomingRequestDetails, PERMISSIONS.viewBookings);
 
 const styles = StyleSheet.create({
     container: {
         flex: 1,
         backgroundColor: colors.background.primary,
     },
+    outboxBanner: {
+        marginHorizontal: 16,
+        marginTop: 16,
+    },
     loadingContainer: {
         flex: 1,
         justifyContent: 'center',
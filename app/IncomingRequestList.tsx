@@ -1,8 +1,13 @@
-import type { IncomingRequest } from '@/components/IncomingRequestsComponent';
+import { withPermission } from '@/components/PermissionGuard';
 import Skeleton from '@/components/Skeleton';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
+import { PERMISSIONS } from '@/constants/permissions';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { applyBookingEvent, useBookingEvents } from '@/hooks/useBookingFeed';
+import { useLatestBookings } from '@/hooks/useEntities';
+import { useTranslation } from '@/hooks/useTranslation';
+import { BookedService, bookings, isAbortError } from '@/services';
 import { useBranchStore } from '@/store/branchStore';
 import { formatDateTime } from '@/utils/date';
 import { Ionicons } from '@expo/vector-icons';
@@ -21,12 +26,15 @@ import {
 } from 'react-native';
 
 const IncomingRequestList = () => {
+  const { t } = useTranslation();
   const { branch } = useBranchStore();
-  const [incomingRequests, setIncomingRequests] = useState<IncomingRequest[]>([]);
-  const [filteredRequests, setFilteredRequests] = useState<IncomingRequest[]>([]);
+  const [incomingRequests, setIncomingRequests] = useState<BookedService[]>([]);
+  const [filteredRequests, setFilteredRequests] = useState<BookedService[]>([]);
+  const latestRequests = useLatestBookings(filteredRequests) ?? [];
   const [isLoading, setIsLoading] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const getSignal = useAbortSignal();
 
   const fetchIncomingRequests = useCallback(async () => {
     if (!branch?.id) {
@@ -34,16 +42,12 @@ const IncomingRequestList = () => {
     }
 
     setIsLoading(true);
+    const signal = getSignal();
     try {
-      const response = await api.get<IncomingRequest[]>(
-        `/en/on/book/services/branch/${branch.id}`,
-        {
-          requiresAuth: true,
-        }
-      );
+      const requests = await bookings.listForBranch(branch.id, { signal });
 
       // Filter for incoming requests (new or ongoing, not cancelled, not declined, not completed)
-      const incoming = (response.data || [])
+      const incoming = (requests || [])
         .filter(
           (req) =>
             !req.isCancelled &&
@@ -55,34 +59,37 @@ const IncomingRequestList = () => {
       setIncomingRequests(incoming);
       setFilteredRequests(incoming);
     } catch (err: any) {
+      if (isAbortError(err)) {
+        return;
+      }
       console.error('Failed to fetch incoming requests:', err);
       setIncomingRequests([]);
       setFilteredRequests([]);
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
-  }, [branch?.id]);
+  }, [branch?.id, getSignal]);
 
   useEffect(() => {
     fetchIncomingRequests();
   }, [fetchIncomingRequests]);
 
+  useBookingEvents((event) => setIncomingRequests((requests) => applyBookingEvent(requests, event)));
+
   const handleRefresh = useCallback(async () => {
     if (!branch?.id) {
       return;
     }
 
     setIsRefreshing(true);
+    const signal = getSignal();
     try {
-      const response = await api.get<IncomingRequest[]>(
-        `/en/on/book/services/branch/${branch.id}`,
-        {
-          requiresAuth: true,
-        }
-      );
+      const requests = await bookings.listForBranch(branch.id, { signal });
 
       // Filter for incoming requests (new or ongoing, not cancelled, not declined, not completed)
-      const incoming = (response.data || [])
+      const incoming = (requests || [])
         .filter(
           (req) =>
             !req.isCancelled &&
@@ -94,11 +101,16 @@ const IncomingRequestList = () => {
       setIncomingRequests(incoming);
       setFilteredRequests(incoming);
     } catch (err: any) {
+      if (isAbortError(err)) {
+        return;
+      }
       console.error('Failed to refresh incoming requests:', err);
     } finally {
-      setIsRefreshing(false);
+      if (!signal.aborted) {
+        setIsRefreshing(false);
+      }
     }
-  }, [branch?.id]);
+  }, [branch?.id, getSignal]);
 
   useEffect(() => {
     // Filter requests based on search query (service name)
@@ -112,7 +124,7 @@ const IncomingRequestList = () => {
     }
   }, [searchQuery, incomingRequests]);
 
-  const handleRequestPress = (request: IncomingRequest) => {
+  const handleRequestPress = (request: BookedService) => {
     router.push({
       pathname: "/IncomingRequestDetails",
       params: {
@@ -132,12 +144,12 @@ const IncomingRequestList = () => {
           >
             <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
           </TouchableOpacity>
-          <Text style={styles.headerTitle}>Incoming Requests</Text>
+          <Text style={styles.headerTitle}>{t('incomingRequests.title')}</Text>
           <View style={styles.placeholder} />
         </View>
         <View style={styles.emptyContainer}>
           <Ionicons name="business-outline" size={48} color={colors.neutral.gray.light} />
-          <Text style={styles.emptyText}>No branch selected</Text>
+          <Text style={styles.emptyText}>{t('incomingRequests.noBranch')}</Text>
         </View>
       </View>
     );
@@ -153,7 +165,7 @@ const IncomingRequestList = () => {
         >
           <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Incoming Requests</Text>
+        <Text style={styles.headerTitle}>{t('incomingRequests.title')}</Text>
         <View style={styles.placeholder} />
       </View>
 
@@ -168,7 +180,7 @@ const IncomingRequestList = () => {
           />
           <TextInput
             style={styles.searchInput}
-            placeholder="Search by service name..."
+            placeholder={t('incomingRequests.search')}
             placeholderTextColor={colors.neutral.gray.medium}
             value={searchQuery}
             onChangeText={setSearchQuery}
@@ -203,15 +215,15 @@ const IncomingRequestList = () => {
         <View style={styles.emptyContainer}>
           <Ionicons name="document-text-outline" size={48} color={colors.neutral.gray.light} />
           <Text style={styles.emptyText}>
-            {searchQuery ? 'No requests found' : 'No incoming requests'}
+            {searchQuery ? t('incomingRequests.noResults') : t('incomingRequests.empty')}
           </Text>
           {searchQuery && (
-            <Text style={styles.emptySubtext}>Try adjusting your search</Text>
+            <Text style={styles.emptySubtext}>{t('incomingRequests.searchHint')}</Text>
           )}
         </View>
       ) : (
         <FlatList
-          data={filteredRequests}
+          data={latestRequests}
           keyExtractor={(item) => item.id}
           contentContainerStyle={styles.listContent}
           showsVerticalScrollIndicator={false}
@@ -262,7 +274,11 @@ const IncomingRequestList = () => {
                             : styles.requestStatusBadgeTextNew,
                         ]}
                       >
-                        {item.isAccepted && !item.isCompleted ? 'Ongoing' : item.isCompleted ? 'Completed' : 'New'}
+                        {item.isAccepted && !item.isCompleted
+                          ? t('bookingHistory.ongoing')
+                          : item.isCompleted
+                            ? t('bookingHistory.completed')
+                            : t('incomingRequests.new')}
                       </Text>
                     </View>
                   </View>
@@ -320,7 +336,7 @@ const IncomingRequestList = () => {
   );
 };
 
-export default IncomingRequestList;
+export default withPermission(IncomingRequestList, PERMISSIONS.viewBookings);
 
 const styles = StyleSheet.create({
   container: {
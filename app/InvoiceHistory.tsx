@@ -1,17 +1,20 @@
+import AuthImage from '@/components/AuthImage';
+import { withPermission } from '@/components/PermissionGuard';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
-import { useAuthStore } from '@/store/authStore';
+import { PERMISSIONS } from '@/constants/permissions';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Invoice, InvoiceItem, invoices as invoicesApi, isAbortError } from '@/services';
 import { formatDateTime } from '@/utils/date';
+import { formatCurrency } from '@/utils/number';
 import { Ionicons } from '@expo/vector-icons';
-import Constants from 'expo-constants';
 import { router } from 'expo-router';
 import React, { useCallback, useEffect, useState } from 'react';
 import {
   ActivityIndicator,
   Dimensions,
   FlatList,
-  Image,
   ImageBackground,
   Modal,
   ScrollView,
@@ -22,137 +25,19 @@ import {
   View
 } from 'react-native';
 
-interface InvoiceItem {
-  id: string;
-  name: string;
-  quantity: number;
-  amount: number;
-  netAmount: number;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface Invoice {
-  id: string;
-  customerId: string;
-  bookServiceId: string;
-  serviceId: string;
-  organizationId: string;
-  branchId: string;
-  staffId: string;
-  invoiceNumber: string;
-  invoiceDate: string;
-  discount: number;
-  branch: {
-    id: string;
-    organizationId: string;
-    isMain: boolean;
-    name: string;
-    longitude: number;
-    latitude: number;
-    accuracy: number | null;
-    contact: number;
-    description: string;
-    email: string;
-    stateProvince: string;
-    city: string;
-    location: string;
-    slotsId: string | null;
-    createdAt: number;
-    updatedAt: number;
-  };
-  organization: {
-    id: string;
-    name: string;
-    description: string;
-    isActive: boolean;
-    isServiceProvider: boolean;
-    createdAt: number;
-    updatedAt: number;
-  };
-  customer: {
-    id: string;
-    firstName: string;
-    middleName: string;
-    lastName: string;
-    email: string;
-    phone: number;
-    country: string;
-    userNumber: string;
-    gender: number;
-    birthDate: string;
-    verified: boolean;
-    active: boolean;
-    createdAt: number;
-    updatedAt: number;
-  };
-  service: {
-    id: string;
-    organizationId: string;
-    name: string;
-    description: string;
-    isPublic: boolean;
-    isDeleted: boolean;
-    modeId: number;
-    staffId: string;
-    thumbNailId: string | null;
-    thumbNail?: {
-      id: string;
-      name: string;
-      systemName: string;
-      fileSize: number;
-      mimeType: string;
-      fileSource: string;
-      userId: string;
-      deleted: boolean;
-      createdAt: number;
-      updatedAt: number;
-    } | null;
-    createdAt: number;
-    updatedAt: number;
-  };
-  isPublished: boolean;
-  isCustomerPaid: boolean;
-  isPaymentReceived: boolean;
-  staff?: {
-    id: string;
-    firstName: string;
-    middleName: string;
-    lastName: string;
-    email: string;
-    phone: number;
-    country: string | null;
-    userNumber: string;
-    gender: number;
-    birthDate: string;
-    verified: boolean;
-    active: boolean;
-    createdAt: number;
-    updatedAt: number;
-  };
-  createdAt: number;
-  updatedAt: number;
-  deletedAt: number | null;
-}
-
-interface InvoicePreviewData extends Invoice {
-  // Extended for preview modal
-}
-
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
 const InvoiceHistory = () => {
+  const { t } = useTranslation();
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [filteredInvoices, setFilteredInvoices] = useState<Invoice[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
-  const [imageUris, setImageUris] = useState<Record<string, string>>({});
-  const [loadingImages, setLoadingImages] = useState<Set<string>>(new Set());
-  const [failedImages, setFailedImages] = useState<Set<string>>(new Set());
-  const [selectedInvoice, setSelectedInvoice] = useState<InvoicePreviewData | null>(null);
+  const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
   const [isPreviewModalVisible, setIsPreviewModalVisible] = useState(false);
   const [previewInvoiceItems, setPreviewInvoiceItems] = useState<InvoiceItem[]>([]);
   const [isLoadingPreviewItems, setIsLoadingPreviewItems] = useState(false);
+  const getSignal = useAbortSignal();
 
   const capitalizeName = (name: string) => {
     if (!name) return '';
@@ -162,93 +47,31 @@ const InvoiceHistory = () => {
       .join(' ');
   };
 
-  const getImageUri = useCallback(async (systemName: string, invoiceId: string): Promise<void> => {
-    if (imageUris[invoiceId] || loadingImages.has(systemName) || failedImages.has(systemName)) {
-      return;
-    }
-
-    setLoadingImages((prev) => new Set(prev).add(systemName));
-
-    try {
-      const API_DOMAIN = Constants.expoConfig?.extra?.apiDomain as string | undefined || '';
-      const authToken = useAuthStore.getState().token;
-
-      const response = await fetch(`${API_DOMAIN}/file/resource/${systemName}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${authToken}`,
-        },
-      });
-
-      if (!response.ok) {
-        setFailedImages((prev) => new Set(prev).add(systemName));
-        setLoadingImages((prev) => {
-          const next = new Set(prev);
-          next.delete(systemName);
-          return next;
-        });
-        return;
-      }
-
-      const blob = await response.blob();
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const dataUri = reader.result as string;
-        setImageUris((prev) => ({ ...prev, [invoiceId]: dataUri }));
-        setLoadingImages((prev) => {
-          const next = new Set(prev);
-          next.delete(systemName);
-          return next;
-        });
-      };
-      reader.onerror = () => {
-        setFailedImages((prev) => new Set(prev).add(systemName));
-        setLoadingImages((prev) => {
-          const next = new Set(prev);
-          next.delete(systemName);
-          return next;
-        });
-      };
-      reader.readAsDataURL(blob);
-    } catch (err) {
-      console.error('Failed to load image:', err);
-      setFailedImages((prev) => new Set(prev).add(systemName));
-      setLoadingImages((prev) => {
-        const next = new Set(prev);
-        next.delete(systemName);
-        return next;
-      });
-    }
-  }, [imageUris, loadingImages, failedImages]);
-
   const fetchInvoiceHistory = useCallback(async () => {
     setIsLoading(true);
+    const signal = getSignal();
     try {
-      const response = await api.get<Invoice[]>('/en/on/book/service/invoices/histories', {
-        requiresAuth: true,
-      });
+      const data = await invoicesApi.history({ signal });
 
-      const sortedInvoices = (response.data || []).sort(
+      const sortedInvoices = (data || []).sort(
         (a, b) => new Date(b.invoiceDate).getTime() - new Date(a.invoiceDate).getTime()
       );
 
       setInvoices(sortedInvoices);
       setFilteredInvoices(sortedInvoices);
-
-      // Load images for invoices with thumbnails
-      sortedInvoices.forEach((invoice) => {
-        if (invoice.service.thumbNail?.systemName) {
-          getImageUri(invoice.service.thumbNail.systemName, invoice.id);
-        }
-      });
     } catch (err: any) {
+      if (isAbortError(err)) {
+        return;
+      }
       console.error('Failed to fetch invoice history:', err);
       setInvoices([]);
       setFilteredInvoices([]);
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
-  }, [getImageUri]);
+  }, [getSignal]);
 
   useEffect(() => {
     fetchInvoiceHistory();
@@ -274,32 +97,28 @@ const InvoiceHistory = () => {
 
   const fetchPreviewInvoice = useCallback(async (invoiceId: string) => {
     setIsLoadingPreviewItems(true);
+    const signal = getSignal();
     try {
       // Fetch full invoice details
-      const invoiceResponse = await api.get<InvoicePreviewData>(
-        `/en/auth/booked/service/invoice/${invoiceId}`,
-        {
-          requiresAuth: true,
-        }
-      );
-      setSelectedInvoice(invoiceResponse.data);
+      const invoice = await invoicesApi.get(invoiceId, { signal });
+      setSelectedInvoice(invoice);
 
       // Fetch invoice items
-      const itemsResponse = await api.get<InvoiceItem[]>(
-        `/en/auth/booked/service/invoice/${invoiceId}/items`,
-        {
-          requiresAuth: true,
-        }
-      );
-      setPreviewInvoiceItems(itemsResponse.data || []);
+      const items = await invoicesApi.items(invoiceId, { signal });
+      setPreviewInvoiceItems(items || []);
     } catch (err: any) {
+      if (isAbortError(err)) {
+        return;
+      }
       console.error('Failed to fetch invoice preview:', err);
       setSelectedInvoice(null);
       setPreviewInvoiceItems([]);
     } finally {
-      setIsLoadingPreviewItems(false);
+      if (!signal.aborted) {
+        setIsLoadingPreviewItems(false);
+      }
     }
-  }, []);
+  }, [getSignal]);
 
   const handlePreviewInvoice = (invoice: Invoice) => {
     setIsPreviewModalVisible(true);
@@ -315,16 +134,16 @@ const InvoiceHistory = () => {
   const getStatusBadges = (invoice: Invoice) => {
     const badges = [];
     if (!invoice.isPublished) {
-      badges.push({ label: 'Draft', color: colors.secondary.orange, bgColor: colors.secondary.orangeLight + '20' });
+      badges.push({ label: t('invoices.draft'), color: colors.secondary.orange, bgColor: colors.secondary.orangeLight + '20' });
     }
     if (invoice.isPublished) {
-      badges.push({ label: 'Published', color: colors.semantic.info, bgColor: colors.semantic.info + '20' });
+      badges.push({ label: t('invoices.published'), color: colors.semantic.info, bgColor: colors.semantic.info + '20' });
     }
     if (invoice.isCustomerPaid) {
-      badges.push({ label: 'Paid', color: colors.primary.green, bgColor: colors.primary.greenLight + '20' });
+      badges.push({ label: t('invoices.paid'), color: colors.primary.green, bgColor: colors.primary.greenLight + '20' });
     }
     if (invoice.isPaymentReceived) {
-      badges.push({ label: 'Received', color: colors.primary.green, bgColor: colors.primary.greenLight + '20' });
+      badges.push({ label: t('invoices.received'), color: colors.primary.green, bgColor: colors.primary.greenLight + '20' });
     }
     return badges;
   };
@@ -345,10 +164,6 @@ const InvoiceHistory = () => {
   };
 
   const renderInvoiceItem = ({ item }: { item: Invoice }) => {
-    const hasThumbnail = item.service.thumbNail?.systemName;
-    const imageUri = imageUris[item.id];
-    const isLoadingImage = hasThumbnail && loadingImages.has(item.service.thumbNail!.systemName);
-    const isFailedImage = hasThumbnail && failedImages.has(item.service.thumbNail!.systemName);
     const statusBadges = getStatusBadges(item);
     const customerName = `${capitalizeName(item.customer.firstName)} ${capitalizeName(item.customer.lastName)}`.trim();
 
@@ -360,19 +175,18 @@ const InvoiceHistory = () => {
       >
         {/* Service Image Cover */}
         <View style={styles.serviceImageContainer}>
-          {isLoadingImage ? (
-            <View style={styles.imagePlaceholder}>
-              <ActivityIndicator size="small" color={colors.primary.green} />
-            </View>
-          ) : imageUri ? (
-            <Image source={{ uri: imageUri }} style={styles.serviceImage} resizeMode="cover" />
-          ) : (
-            <ImageBackground
-              source={require('@/assets/backgroud/invoice-image.png')}
-              style={styles.serviceImage}
-              resizeMode="cover"
-            />
-          )}
+          <AuthImage
+            systemName={item.service.thumbNail?.systemName}
+            style={styles.serviceImage}
+            resizeMode="cover"
+            fallback={
+              <ImageBackground
+                source={require('@/assets/backgroud/invoice-image.png')}
+                style={styles.serviceImage}
+                resizeMode="cover"
+              />
+            }
+          />
         </View>
 
         {/* Invoice Content */}
@@ -454,7 +268,7 @@ const InvoiceHistory = () => {
         >
           <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Invoice History</Text>
+        <Text style={styles.headerTitle}>{t('invoiceHistory.title')}</Text>
         <View style={styles.placeholder} />
       </View>
 
@@ -469,7 +283,7 @@ const InvoiceHistory = () => {
           />
           <TextInput
             style={styles.searchInput}
-            placeholder="Search by invoice number, service, customer, or branch..."
+            placeholder={t('invoiceHistory.search')}
             placeholderTextColor={colors.neutral.gray.medium}
             value={searchQuery}
             onChangeText={setSearchQuery}
@@ -491,13 +305,13 @@ const InvoiceHistory = () => {
       {isLoading ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={colors.primary.green} />
-          <Text style={styles.loadingText}>Loading invoice history...</Text>
+          <Text style={styles.loadingText}>{t('invoiceHistory.loading')}</Text>
         </View>
       ) : filteredInvoices.length === 0 ? (
         <View style={styles.emptyContainer}>
           <Ionicons name="receipt-outline" size={64} color={colors.neutral.gray.light} />
           <Text style={styles.emptyText}>
-            {searchQuery ? 'No invoices found' : 'No invoice history available'}
+            {searchQuery ? t('invoices.empty') : t('invoiceHistory.empty')}
           </Text>
           {searchQuery && (
             <TouchableOpacity
@@ -505,7 +319,7 @@ const InvoiceHistory = () => {
               style={styles.clearSearchButton}
               activeOpacity={0.7}
             >
-              <Text style={styles.clearSearchText}>Clear search</Text>
+              <Text style={styles.clearSearchText}>{t('bookingHistory.clearSearch')}</Text>
             </TouchableOpacity>
           )}
         </View>
@@ -531,7 +345,7 @@ const InvoiceHistory = () => {
         <View style={previewStyles.modalOverlay}>
           <View style={previewStyles.modalContent}>
             <View style={previewStyles.modalHeader}>
-              <Text style={previewStyles.modalTitle}>Invoice Details</Text>
+              <Text style={previewStyles.modalTitle}>{t('invoices.invoiceDetails')}</Text>
               <TouchableOpacity
                 onPress={handleClosePreview}
                 style={previewStyles.closeButton}
@@ -544,7 +358,7 @@ const InvoiceHistory = () => {
             {isLoadingPreviewItems ? (
               <View style={previewStyles.loadingContainer}>
                 <ActivityIndicator size="large" color={colors.primary.green} />
-                <Text style={previewStyles.loadingText}>Loading invoice details...</Text>
+                <Text style={previewStyles.loadingText}>{t('invoiceHistory.loadingDetails')}</Text>
               </View>
             ) : selectedInvoice ? (
               <ScrollView
@@ -562,17 +376,17 @@ const InvoiceHistory = () => {
                     <Text style={previewStyles.branchName}>{selectedInvoice.branch.name}</Text>
                   </View>
                   <View style={previewStyles.invoiceInfo}>
-                    <Text style={previewStyles.invoiceTitle}>INVOICE</Text>
+                    <Text style={previewStyles.invoiceTitle}>{t('invoices.invoiceTitle')}</Text>
                     <Text style={previewStyles.invoiceNumberText}>#{selectedInvoice.invoiceNumber}</Text>
                     <Text style={previewStyles.invoiceDateText}>
-                      Date: {formatDateTime(selectedInvoice.invoiceDate)}
+                      {t('invoices.dateLabel', { date: formatDateTime(selectedInvoice.invoiceDate) })}
                     </Text>
                   </View>
                 </View>
 
                 {/* Bill To Section */}
                 <View style={previewStyles.billToSection}>
-                  <Text style={previewStyles.sectionLabel}>Bill To:</Text>
+                  <Text style={previewStyles.sectionLabel}>{t('invoices.billTo')}</Text>
                   <Text style={previewStyles.customerName}>
                     {capitalizeName(selectedInvoice.customer.firstName)} {capitalizeName(selectedInvoice.customer.lastName)}
                   </Text>
@@ -582,7 +396,7 @@ const InvoiceHistory = () => {
                 {/* Served By Section */}
                 {selectedInvoice.staff && (
                   <View style={previewStyles.servedBySection}>
-                    <Text style={previewStyles.sectionLabel}>Served By:</Text>
+                    <Text style={previewStyles.sectionLabel}>{t('invoices.servedBy')}</Text>
                     <Text style={previewStyles.staffName}>
                       {capitalizeName(selectedInvoice.staff.firstName)} {capitalizeName(selectedInvoice.staff.lastName)}
                     </Text>
@@ -593,8 +407,8 @@ const InvoiceHistory = () => {
                 {/* Items Table */}
                 <View style={previewStyles.itemsTable}>
                   <View style={previewStyles.tableHeader}>
-                    <Text style={[previewStyles.tableHeaderText, { flex: 2 }]}>Item</Text>
-                    <Text style={[previewStyles.tableHeaderText, { flex: 1 }]}>Total</Text>
+                    <Text style={[previewStyles.tableHeaderText, { flex: 2 }]}>{t('invoices.item')}</Text>
+                    <Text style={[previewStyles.tableHeaderText, { flex: 1 }]}>{t('invoices.total')}</Text>
                   </View>
                   {previewInvoiceItems && previewInvoiceItems.length > 0 ? (
                     previewInvoiceItems.map((item, index) => (
@@ -606,13 +420,13 @@ const InvoiceHistory = () => {
                           </Text>
                         </View>
                         <Text style={[previewStyles.tableCell, { flex: 1 }]}>
-                          KES {item.netAmount.toFixed(2)}
+                          {formatCurrency(item.netAmount)}
                         </Text>
                       </View>
                     ))
                   ) : (
                     <View style={previewStyles.tableRow}>
-                      <Text style={previewStyles.noItemsText}>No items</Text>
+                      <Text style={previewStyles.noItemsText}>{t('invoices.noItems')}</Text>
                     </View>
                   )}
                 </View>
@@ -620,47 +434,47 @@ const InvoiceHistory = () => {
                 {/* Totals Section */}
                 <View style={previewStyles.totalsSection}>
                   <View style={previewStyles.totalRow}>
-                    <Text style={previewStyles.totalLabel}>Subtotal:</Text>
-                    <Text style={previewStyles.totalValue}>KES {calculateSubtotal().toFixed(2)}</Text>
+                    <Text style={previewStyles.totalLabel}>{t('invoices.subtotalLabel')}</Text>
+                    <Text style={previewStyles.totalValue}>{formatCurrency(calculateSubtotal())}</Text>
                   </View>
                   {selectedInvoice.discount > 0 && (
                     <View style={previewStyles.totalRow}>
                       <Text style={previewStyles.totalLabel}>
-                        Discount ({selectedInvoice.discount}%):
+                        {t('invoices.discountLabel', { percent: selectedInvoice.discount })}
                       </Text>
                       <Text style={previewStyles.totalValue}>
-                        -KES {calculateDiscountAmount().toFixed(2)}
+                        -{formatCurrency(calculateDiscountAmount())}
                       </Text>
                     </View>
                   )}
                   <View style={[previewStyles.totalRow, previewStyles.grandTotalRow]}>
-                    <Text style={previewStyles.grandTotalLabel}>Total:</Text>
-                    <Text style={previewStyles.grandTotalValue}>KES {calculateTotal().toFixed(2)}</Text>
+                    <Text style={previewStyles.grandTotalLabel}>{t('invoices.totalLabel')}</Text>
+                    <Text style={previewStyles.grandTotalValue}>{formatCurrency(calculateTotal())}</Text>
                   </View>
                 </View>
 
                 {/* Status Section */}
                 <View style={previewStyles.statusSection}>
-                  <Text style={previewStyles.sectionLabel}>Status:</Text>
+                  <Text style={previewStyles.sectionLabel}>{t('invoices.statusLabel')}</Text>
                   <View style={previewStyles.statusBadgesContainer}>
                     {!selectedInvoice.isPublished && (
                       <View style={[previewStyles.statusBadge, { backgroundColor: colors.secondary.orangeLight + '20' }]}>
-                        <Text style={[previewStyles.statusBadgeText, { color: colors.secondary.orange }]}>Draft</Text>
+                        <Text style={[previewStyles.statusBadgeText, { color: colors.secondary.orange }]}>{t('invoices.draft')}</Text>
                       </View>
                     )}
                     {selectedInvoice.isPublished && (
                       <View style={[previewStyles.statusBadge, { backgroundColor: colors.semantic.info + '20' }]}>
-                        <Text style={[previewStyles.statusBadgeText, { color: colors.semantic.info }]}>Published</Text>
+                        <Text style={[previewStyles.statusBadgeText, { color: colors.semantic.info }]}>{t('invoices.published')}</Text>
                       </View>
                     )}
                     {selectedInvoice.isCustomerPaid && (
                       <View style={[previewStyles.statusBadge, { backgroundColor: colors.primary.greenLight + '20' }]}>
-                        <Text style={[previewStyles.statusBadgeText, { color: colors.primary.green }]}>Paid</Text>
+                        <Text style={[previewStyles.statusBadgeText, { color: colors.primary.green }]}>{t('invoices.paid')}</Text>
                       </View>
                     )}
                     {selectedInvoice.isPaymentReceived && (
                       <View style={[previewStyles.statusBadge, { backgroundColor: colors.primary.greenLight + '20' }]}>
-                        <Text style={[previewStyles.statusBadgeText, { color: colors.primary.green }]}>Payment Received</Text>
+                        <Text style={[previewStyles.statusBadgeText, { color: colors.primary.green }]}>{t('invoices.paymentReceived')}</Text>
                       </View>
                     )}
                   </View>
@@ -669,13 +483,13 @@ const InvoiceHistory = () => {
             ) : (
               <View style={previewStyles.errorContainer}>
                 <Ionicons name="alert-circle-outline" size={48} color={colors.semantic.error} />
-                <Text style={previewStyles.errorText}>Failed to load invoice details</Text>
+                <Text style={previewStyles.errorText}>{t('invoices.loadDetailsFailed')}</Text>
                 <TouchableOpacity
                   style={previewStyles.retryButton}
                   onPress={handleClosePreview}
                   activeOpacity={0.7}
                 >
-                  <Text style={previewStyles.retryButtonText}>Close</Text>
+                  <Text style={previewStyles.retryButtonText}>{t('invoices.close')}</Text>
                 </TouchableOpacity>
               </View>
             )}
@@ -686,7 +500,7 @@ const InvoiceHistory = () => {
   );
 };
 
-export default InvoiceHistory;
+export default withPermission(InvoiceHistory, PERMISSIONS.viewInvoices);
 
 const styles = StyleSheet.create({
   container: {
@@ -772,13 +586,6 @@ const styles = StyleSheet.create({
     width: '100%',
     height: '100%',
   },
-  imagePlaceholder: {
-    width: '100%',
-    height: '100%',
-    justifyContent: 'center',
-    alignItems: 'center',
-    backgroundColor: colors.background.secondary,
-  },
   invoiceContent: {
     padding: 12,
   },
@@ -1,20 +1,45 @@
 import Button from "@/components/Button";
 import Input from "@/components/Input";
 import { colors } from "@/constants/colors";
+import { CAN_SWITCH_ENVIRONMENT, DEFAULT_ENVIRONMENT_ID } from "@/constants/environments";
 import { fonts } from "@/constants/fonts";
-import api from "@/services/api";
+import { useTranslation } from "@/hooks/useTranslation";
+import { auth, getErrorFieldErrors } from "@/services";
+import { getMockTwoFactorCode, isMockBackendActive } from "@/services/mock";
 import { useAuthStore } from "@/store/authStore";
-import { loginSchema, validateField, validateForm } from "@/validators";
-import { router } from "expo-router";
+import { useDevSettingsStore } from "@/store/devSettingsStore";
+import { backupCodeSchema, loginSchema, twoFactorCodeSchema, validateField, validateForm } from "@/validators";
+import { router, useLocalSearchParams } from "expo-router";
 import { useState } from "react";
-import { Image, KeyboardAvoidingView, Platform, ScrollView, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import {
+  Image,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
 export default function Login() {
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  // Set when the password was right but the account has two-step verification;
+  // ResetPassword opens this screen with the challenge of a reset that needs the second step
+  const params = useLocalSearchParams<{ challengeToken?: string }>();
+  const [challengeToken, setChallengeToken] = useState<string | null>(params.challengeToken ?? null);
+  const [code, setCode] = useState("");
+  const [useBackupCode, setUseBackupCode] = useState(false);
   
-  const { login, isAuthenticated, token } = useAuthStore();
+  const { login, isAuthenticated, token, signOutReason } = useAuthStore();
+  const { environmentId, setEnvironment } = useDevSettingsStore();
+  const { t } = useTranslation();
+  // Builds that cannot switch environment ignore a stored selection (services/environment.ts)
+  const isMockBackend = (CAN_SWITCH_ENVIRONMENT ? environmentId : DEFAULT_ENVIRONMENT_ID) === "mock";
 
   
   // Validate single field on change
@@ -46,6 +71,21 @@ export default function Login() {
     }
   };
 
+  const completeLogin = ({ accessToken, refreshToken, user }: auth.LoginResponse) => {
+    // Without a refresh token the session ends when the access token expires
+    if (accessToken && user) {
+      // Store authentication data
+      login(accessToken, refreshToken ?? null, user);
+      // Permissions will be fetched after account switch
+      router.push("/SwitchAccount");
+    } else {
+      // Handle unexpected response format
+      setErrors({ 
+        general: t("login.invalidResponse")
+      });
+    }
+  };
+
   // Login API call
   const handleLogin = async () => {
     // Validate entire form
@@ -62,42 +102,24 @@ export default function Login() {
 
     try {
       // Make API call to login endpoint
-      const response = await api.post(
-        "/login",
-        {
-          emailOrUserNumber: username,
-          password: password,
-        },
-        {
-          requiresAuth: false, // Login endpoint doesn't require authentication
-        }
-      );
-
-      // Handle successful login response
-      // API returns: { user, accessToken }
-      const { accessToken, user } = response.data;
+      // API returns: { user, accessToken, refreshToken }, or a challenge with two-step verification
+      const response = await auth.login(username, password);
 
-      if (accessToken && user) {
-        // Store authentication data
-        // Using accessToken as both token and refreshToken since API only provides accessToken
-        login(accessToken, accessToken, user);
-        // Permissions will be fetched after account switch
-        router.push("/SwitchAccount");
+      if (auth.isTwoFactorChallenge(response)) {
+        setChallengeToken(response.challengeToken);
       } else {
-        // Handle unexpected response format
-        setErrors({ 
-          general: "Invalid response from server. Please try again." 
-        });
+        completeLogin(response);
       }
     } catch (error: any) {
       
       // Handle API errors
-      const errorMessage = error?.message || error?.data?.message || "Login failed. Please check your credentials and try again.";
+      const errorMessage = error?.message || error?.data?.message || t("login.failed");
       
       // Check if it's a validation error from the API
-      if (error?.data?.errors) {
+      const fieldErrors = getErrorFieldErrors(error, { emailOrUserNumber: "username" });
+      if (Object.keys(fieldErrors).length > 0) {
         // If API returns field-specific errors, map them
-        setErrors(error.data.errors);
+        setErrors(fieldErrors);
       } else {
         // Otherwise show general error
         setErrors({ 
@@ -108,6 +130,48 @@ export default function Login() {
       setIsLoading(false);
     }
   };
+
+  // Two-step verification challenge
+  const handleVerifyCode = async () => {
+    const validation = validateForm(useBackupCode ? backupCodeSchema : twoFactorCodeSchema, { code: code.trim() });
+
+    if (!validation.isValid || !challengeToken) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    setErrors({});
+    setIsLoading(true);
+
+    try {
+      completeLogin(await auth.verifyTwoFactor(challengeToken, code.trim()));
+    } catch (error: any) {
+      const fieldErrors = getErrorFieldErrors(error);
+      setErrors(
+        Object.keys(fieldErrors).length > 0
+          ? fieldErrors
+          : { general: error?.message || t("twoFactor.verifyFailed") }
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleToggleBackupCode = () => {
+    setUseBackupCode((current) => !current);
+    setCode("");
+    setErrors({});
+  };
+
+  const handleCancelChallenge = () => {
+    setChallengeToken(null);
+    setUseBackupCode(false);
+    setCode("");
+    setErrors({});
+  };
+
+  const demoCode = challengeToken && !useBackupCode && isMockBackendActive() ? getMockTwoFactorCode() : null;
+
     return (
       <KeyboardAvoidingView
         style={styles.container}
@@ -118,59 +182,175 @@ export default function Login() {
           showsVerticalScrollIndicator={false}
           keyboardShouldPersistTaps="handled"
         >
-          <View style={styles.headerIconContainer}>
+          {/* Long press opens the hidden diagnostics screen (network log; environment switcher in dev and QA builds) */}
+          <Pressable
+            style={styles.headerIconContainer}
+            onLongPress={() => router.push("/Diagnostics")}
+            delayLongPress={1500}
+          >
               <Image source={require("../assets/images/diracks.png")} style={styles.headerIcon} />
               <Text style={styles.headerIconText}>Diracks</Text>
-          </View>
-          {/* Header Section */}
-          <View style={styles.header}>
-            <Text style={styles.title}>Let's you sign in</Text>
-            <Text style={styles.subtitle}>Welcome back, you have been missed</Text>
-          </View>
+          </Pressable>
+          {challengeToken ? (
+            <>
+              {/* Two-Step Verification Section */}
+              <View style={styles.header}>
+                <Text style={styles.title}>{t("twoFactor.challengeTitle")}</Text>
+                <Text style={styles.subtitle}>
+                  {useBackupCode ? t("twoFactor.backupSubtitle") : t("twoFactor.challengeSubtitle")}
+                </Text>
+              </View>
+
+              <View style={styles.form}>
+                {useBackupCode ? (
+                  <Input
+                    label={t("twoFactor.backupCode")}
+                    placeholder={t("twoFactor.backupCodePlaceholder")}
+                    value={code}
+                    onChangeText={(text) => {
+                      setCode(text);
+                      setErrors({});
+                    }}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    maxLength={9}
+                    error={errors.code}
+                  />
+                ) : (
+                  <Input
+                    label={t("twoFactor.code")}
+                    placeholder={t("twoFactor.codePlaceholder")}
+                    value={code}
+                    onChangeText={(text) => {
+                      setCode(text);
+                      setErrors({});
+                    }}
+                    keyboardType="number-pad"
+                    autoComplete="one-time-code"
+                    textContentType="oneTimeCode"
+                    maxLength={6}
+                    error={errors.code}
+                  />
+                )}
+
+                {demoCode && <Text style={styles.hint}>{t("twoFactor.demoCode", { code: demoCode })}</Text>}
+
+                <TouchableOpacity style={styles.forgotPasswordContainer} onPress={handleToggleBackupCode}>
+                  <Text style={styles.forgotPasswordText}>
+                    {useBackupCode ? t("twoFactor.useAuthenticator") : t("twoFactor.useBackupCode")}
+                  </Text>
+                </TouchableOpacity>
+
+                {errors.general && (
+                  <View style={styles.errorContainer}>
+                    <Text style={styles.errorText}>{errors.general}</Text>
+                  </View>
+                )}
+
+                <Button
+                  title={t("twoFactor.verify")}
+                  variant="primary"
+                  onPress={handleVerifyCode}
+                  loading={isLoading}
+                  disabled={isLoading}
+                  style={styles.signInButton}
+                />
+
+                <View style={styles.signUpContainer}>
+                  <TouchableOpacity onPress={handleCancelChallenge}>
+                    <Text style={styles.signUpLink}>{t("twoFactor.backToSignIn")}</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            </>
+          ) : (
+            <>
+              {/* Header Section */}
+              <View style={styles.header}>
+                <Text style={styles.title}>{t("login.title")}</Text>
+                <Text style={styles.subtitle}>{t("login.subtitle")}</Text>
+              </View>
+
+              {/* Explains a sign-out the user did not ask for */}
+              {signOutReason && (
+                <View style={styles.noticeContainer}>
+                  <Text style={styles.noticeText}>
+                    {signOutReason === "revoked" ? t("login.sessionRevoked") : t("login.sessionExpired")}
+                  </Text>
+                </View>
+              )}
   
-          {/* Form Section */}
-          <View style={styles.form}>
-            <Input
-              label="Username"
-              placeholder="username@email.com"
-              value={username}
-              onChangeText={(text) => handleFieldChange("username", text)}
-              autoCapitalize="none"
-              keyboardType="email-address"
-              error={errors.username}
-            />
+              {/* Form Section */}
+              <View style={styles.form}>
+                <Input
+                  label={t("login.username")}
+                  placeholder={t("login.usernamePlaceholder")}
+                  value={username}
+                  onChangeText={(text) => handleFieldChange("username", text)}
+                  autoCapitalize="none"
+                  keyboardType="email-address"
+                  error={errors.username}
+                />
   
-            <Input
-              label="Password"
-              placeholder="8 Characters / 1 Capital letter"
-              value={password}
-              onChangeText={(text) => handleFieldChange("password", text)}
-              secureTextEntry
-              error={errors.password}
-            />
+                <Input
+                  label={t("login.password")}
+                  placeholder={t("login.passwordPlaceholder")}
+                  value={password}
+                  onChangeText={(text) => handleFieldChange("password", text)}
+                  secureTextEntry
+                  error={errors.password}
+                />
   
-            <TouchableOpacity
-              style={styles.forgotPasswordContainer}
-              onPress={() => {}}
-            >
-              <Text style={styles.forgotPasswordText}>Forgot password?</Text>
-            </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.forgotPasswordContainer}
+                  onPress={() => router.push("/ForgotPassword")}
+                >
+                  <Text style={styles.forgotPasswordText}>{t("login.forgotPassword")}</Text>
+                </TouchableOpacity>
+
+                {errors.general && (
+                  <View style={styles.errorContainer}>
+                    <Text style={styles.errorText}>{errors.general}</Text>
+                  </View>
+                )}
+
+                <Button
+                  title={t("login.signIn")}
+                  variant="primary"
+                  onPress={handleLogin}
+                  loading={isLoading}
+                  disabled={isLoading}
+                  style={styles.signInButton}
+                />
 
-            {errors.general && (
-              <View style={styles.errorContainer}>
-                <Text style={styles.errorText}>{errors.general}</Text>
+                <View style={styles.signUpContainer}>
+                  <Text style={styles.signUpText}>{t("onboarding.newBusiness")} </Text>
+                  <TouchableOpacity onPress={() => router.push("/Onboarding")}>
+                    <Text style={styles.signUpLink}>{t("onboarding.createAccount")}</Text>
+                  </TouchableOpacity>
+                </View>
               </View>
-            )}
+            </>
+          )}
 
-            <Button
-              title="SIGN IN"
-              variant="primary"
-              onPress={handleLogin}
-              loading={isLoading}
-              disabled={isLoading}
-              style={styles.signInButton}
-            />
-          </View>
+          {/* Backend switch, only in development builds */}
+          {(__DEV__ || isMockBackend) && (
+            <View style={styles.mockBackendContainer}>
+              <View style={styles.mockBackendText}>
+                <Text style={styles.mockBackendTitle}>{t("login.demoTitle")}</Text>
+                <Text style={styles.mockBackendSubtitle}>
+                  {isMockBackend ? t("login.demoActive") : t("login.demoInactive")}
+                </Text>
+              </View>
+              {__DEV__ && (
+                <Switch
+                  value={isMockBackend}
+                  onValueChange={(enabled) => setEnvironment(enabled ? "mock" : "default")}
+                  trackColor={{ true: colors.primary.green, false: colors.neutral.gray.light }}
+                />
+              )}
+            </View>
+          )}
   
           
         </ScrollView>
@@ -227,6 +407,13 @@ forgotPasswordContainer: {
   marginBottom: 24,
   marginTop: -8,
 },
+hint: {
+  fontSize: 13,
+  fontFamily: fonts.weights.medium,
+  color: colors.semantic.info,
+  marginTop: -8,
+  marginBottom: 16,
+},
 forgotPasswordText: {
   fontSize: 14,
   fontFamily: fonts.weights.medium,
@@ -235,6 +422,58 @@ forgotPasswordText: {
 signInButton: {
   marginBottom: 16,
 },
+signUpContainer: {
+  flexDirection: "row",
+  justifyContent: "center",
+  alignItems: "center",
+},
+signUpText: {
+  fontSize: 14,
+  fontFamily: fonts.weights.regular,
+  color: colors.neutral.gray.medium,
+},
+signUpLink: {
+  fontSize: 14,
+  fontFamily: fonts.weights.semiBold,
+  color: colors.primary.green,
+},
+mockBackendContainer: {
+  flexDirection: "row",
+  alignItems: "center",
+  gap: 12,
+  padding: 16,
+  borderRadius: 12,
+  borderWidth: 1,
+  borderColor: colors.neutral.gray.lighter,
+  backgroundColor: colors.background.secondary,
+},
+mockBackendText: {
+  flex: 1,
+},
+mockBackendTitle: {
+  fontSize: 14,
+  fontFamily: fonts.weights.bold,
+  color: colors.text.primary,
+},
+mockBackendSubtitle: {
+  fontSize: 12,
+  fontFamily: fonts.weights.regular,
+  color: colors.text.secondary,
+  marginTop: 2,
+},
+noticeContainer: {
+  marginBottom: 16,
+  padding: 12,
+  backgroundColor: "#DBEAFE",
+  borderRadius: 8,
+  borderWidth: 1,
+  borderColor: colors.semantic.info,
+},
+noticeText: {
+  fontSize: 14,
+  fontFamily: fonts.weights.medium,
+  color: colors.text.primary,
+},
 errorContainer: {
   marginBottom: 16,
   padding: 12,
@@ -1,14 +1,22 @@
 import Button from '@/components/Button';
 import ImageUpload from '@/components/ImageUpload';
 import Input from '@/components/Input';
+import { withPermission } from '@/components/PermissionGuard';
 import Select from '@/components/Select';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import { uploadConfig } from '@/constants/upload';
-import api from '@/services/api';
+import { PERMISSIONS } from '@/constants/permissions';
+import { UPLOAD_TARGETS, uploadConfig } from '@/constants/upload';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { useTranslation } from '@/hooks/useTranslation';
+import { getErrorFieldErrors, isAbortError, ServiceMode, services as servicesApi } from '@/services';
+import { invalidateQueries } from '@/services/queryClient';
+import { queryKeys } from '@/services/queryKeys';
+import { releaseUploads } from '@/services/uploads';
+import { translateMessage } from '@/validators';
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
     KeyboardAvoidingView,
     Modal,
@@ -22,30 +30,23 @@ import {
 } from 'react-native';
 import { z } from 'zod';
 
-interface ServiceMode {
-  id: number;
-  name: string;
-  isActive: boolean;
-  createdAt: number;
-  updatedAt: number;
-}
-
 // Service validation schema
 const serviceSchema = z.object({
   name: z
     .string()
-    .min(1, 'Service name is required')
-    .min(2, 'Service name must be at least 2 characters')
-    .max(100, 'Service name must be less than 100 characters'),
+    .min(1, 'validation.serviceNameRequired')
+    .min(2, 'validation.serviceNameMin')
+    .max(100, 'validation.serviceNameMax'),
   description: z
     .string()
-    .min(1, 'Description is required')
-    .min(10, 'Description must be at least 10 characters')
-    .max(500, 'Description must be less than 500 characters'),
-  modeId: z.number().min(1, 'Service mode is required'),
+    .min(1, 'validation.descriptionRequired')
+    .min(10, 'validation.descriptionMin')
+    .max(500, 'validation.descriptionMax'),
+  modeId: z.number().min(1, 'validation.serviceModeRequired'),
 });
 
 const NewService = () => {
+  const { t } = useTranslation();
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
   const [modeId, setModeId] = useState<number | undefined>(undefined);
@@ -55,27 +56,32 @@ const NewService = () => {
   const [isLoadingModes, setIsLoadingModes] = useState(true);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [showSuccessModal, setShowSuccessModal] = useState(false);
+  const getSignal = useAbortSignal();
 
-  useEffect(() => {
-    fetchServiceModes();
-  }, []);
-
-  const fetchServiceModes = async () => {
+  const fetchServiceModes = useCallback(async () => {
     setIsLoadingModes(true);
+    const signal = getSignal();
     try {
-      const response = await api.get<ServiceMode[]>('/en/service/modes', {
-        requiresAuth: true,
-      });
-      setModes(response.data || []);
+      const serviceModes = await servicesApi.modes({ signal });
+      setModes(serviceModes || []);
     } catch (err: any) {
+      if (isAbortError(err)) {
+        return;
+      }
       console.error('Failed to fetch service modes:', err);
       setErrors({
-        general: 'Failed to load service modes. Please try again.',
+        general: t('serviceForm.modesLoadFailed'),
       });
     } finally {
-      setIsLoadingModes(false);
+      if (!signal.aborted) {
+        setIsLoadingModes(false);
+      }
     }
-  };
+  }, [getSignal, t]);
+
+  useEffect(() => {
+    fetchServiceModes();
+  }, [fetchServiceModes]);
 
   const handleFieldChange = (field: string, value: string | number) => {
     if (field === 'name') {
@@ -118,7 +124,7 @@ const NewService = () => {
       const fieldErrors: Record<string, string> = {};
       validation.error.issues.forEach((issue) => {
         if (issue.path[0]) {
-          fieldErrors[issue.path[0] as string] = issue.message;
+          fieldErrors[issue.path[0] as string] = translateMessage(issue.message);
         }
       });
       setErrors(fieldErrors);
@@ -131,29 +137,25 @@ const NewService = () => {
 
     try {
       // Make API call to create service
-      const response = await api.post(
-        '/en/on/service',
-        {
-          name,
-          description,
-          thumbNailId: thumbNailId || null,
-          modeId: modeId!,
-        },
-        {
-          requiresAuth: true,
-        }
-      );
+      await servicesApi.create({
+        name,
+        description,
+        thumbNailId: thumbNailId || null,
+        modeId: modeId!,
+      });
+      invalidateQueries(queryKeys.services.list());
+      releaseUploads(UPLOAD_TARGETS.newServiceThumbnail);
 
       // Show success modal
       setShowSuccessModal(true);
     } catch (error: any) {
       console.error('Create service failed:', error);
       const errorMessage =
-        error?.message || error?.data?.message || 'Failed to create service. Please try again.';
+        error?.message || error?.data?.message || t('serviceForm.createFailed');
 
-      setErrors({
-        general: errorMessage,
-      });
+      // Server validation errors are shown on their fields; anything else as a general error
+      const fieldErrors = getErrorFieldErrors(error);
+      setErrors(Object.keys(fieldErrors).length > 0 ? fieldErrors : { general: errorMessage });
     } finally {
       setIsLoading(false);
     }
@@ -191,19 +193,19 @@ const NewService = () => {
             >
               <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
             </TouchableOpacity>
-            <Text style={styles.headerTitle}>New Service</Text>
+            <Text style={styles.headerTitle}>{t('serviceForm.newTitle')}</Text>
             <View style={styles.headerSpacer} />
           </View>
 
           {/* Form Section */}
           <View style={styles.form}>
             <Text style={styles.subtitle}>
-              Create a new service. Fill in all the required information.
+              {t('serviceForm.newSubtitle')}
             </Text>
 
             <Input
-              label="Service Name"
-              placeholder="Enter service name"
+              label={t('serviceForm.nameLabel')}
+              placeholder={t('serviceForm.namePlaceholder')}
               value={name}
               onChangeText={(text) => handleFieldChange('name', text)}
               autoCapitalize="words"
@@ -211,13 +213,13 @@ const NewService = () => {
             />
 
             <View style={styles.textAreaContainer}>
-              <Text style={styles.textAreaLabel}>Description</Text>
+              <Text style={styles.textAreaLabel}>{t('common.description')}</Text>
               <TextInput
                 style={[
                   styles.textArea,
                   errors.description && styles.textAreaError,
                 ]}
-                placeholder="Enter service description"
+                placeholder={t('serviceForm.descriptionPlaceholder')}
                 placeholderTextColor={colors.neutral.gray.medium}
                 value={description}
                 onChangeText={(text) => handleFieldChange('description', text)}
@@ -231,18 +233,19 @@ const NewService = () => {
             </View>
 
             <Select
-              label="Service Mode"
+              label={t('serviceForm.modeLabel')}
               options={modeOptions}
               value={modeId}
               onValueChange={(value) => handleFieldChange('modeId', value as number)}
-              placeholder="Select service mode"
+              placeholder={t('serviceForm.modePlaceholder')}
               error={errors.modeId}
             />
 
             <ImageUpload
-              label="Service Thumbnail"
+              label={t('serviceForm.thumbnailLabel')}
               multiple={false}
               maxSize={uploadConfig.maxImageSize}
+              uploadKey={UPLOAD_TARGETS.newServiceThumbnail}
               fileTypes={['image']}
               value={thumbNailId || undefined}
               onChange={handleImageChange}
@@ -256,7 +259,7 @@ const NewService = () => {
             )}
 
             <Button
-              title="Create Service"
+              title={t('serviceForm.create')}
               variant="primary"
               onPress={handleCreateService}
               loading={isLoading || isLoadingModes}
@@ -279,12 +282,12 @@ const NewService = () => {
             <View style={styles.successIconContainer}>
               <Ionicons name="checkmark-circle" size={64} color={colors.primary.green} />
             </View>
-            <Text style={styles.modalTitle}>Service Created</Text>
+            <Text style={styles.modalTitle}>{t('serviceForm.createdTitle')}</Text>
             <Text style={styles.modalMessage}>
-              Your service has been created successfully.
+              {t('serviceForm.createdMessage')}
             </Text>
             <Button
-              title="OK"
+              title={t('common.ok')}
               variant="primary"
               onPress={handleSuccessModalClose}
               style={styles.modalButton}
@@ -296,7 +299,7 @@ const NewService = () => {
   );
 };
 
-export default NewService;
+export default withPermission(NewService, PERMISSIONS.manageServices);
 
 const styles = StyleSheet.create({
   container: {
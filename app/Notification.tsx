@@ -1,6 +1,7 @@
 import Skeleton from '@/components/Skeleton';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
+import { useTranslation } from '@/hooks/useTranslation';
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import React, { useCallback, useEffect, useState } from 'react';
@@ -25,6 +26,7 @@ interface Notification {
 }
 
 const Notification = () => {
+  const { t } = useTranslation();
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -190,10 +192,8 @@ const Notification = () => {
           </View>
         </View>
       </View>
-      <Text style={styles.emptyTitle}>There's nothing here</Text>
-      <Text style={styles.emptySubtitle}>
-        We'll inform you when there's something new.
-      </Text>
+      <Text style={styles.emptyTitle}>{t('notifications.emptyTitle')}</Text>
+      <Text style={styles.emptySubtitle}>{t('notifications.emptySubtitle')}</Text>
     </View>
   );
 
@@ -207,7 +207,7 @@ const Notification = () => {
         >
           <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Notifications</Text>
+        <Text style={styles.headerTitle}>{t('profile.notifications')}</Text>
         <View style={styles.placeholder} />
       </View>
 
@@ -0,0 +1,179 @@
+import { colors } from '@/constants/colors';
+import { fonts } from '@/constants/fonts';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useAuthStore } from '@/store/authStore';
+import { ONBOARDING_STEPS, OnboardingStep, useOnboardingStore } from '@/store/onboardingStore';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React from 'react';
+import {
+    Alert,
+    KeyboardAvoidingView,
+    Platform,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import OnboardingBranchStep from './components/OnboardingBranchStep';
+import OnboardingCompanyStep from './components/OnboardingCompanyStep';
+import OnboardingOwnerStep from './components/OnboardingOwnerStep';
+import OnboardingPlanStep from './components/OnboardingPlanStep';
+import OnboardingReviewStep from './components/OnboardingReviewStep';
+import OnboardingServicesStep from './components/OnboardingServicesStep';
+
+/**
+ * Self-service sign-up wizard for a new organization
+ * The owner registers first, which signs them in; the remaining steps fill drafts in the
+ * onboarding store, which the review step submits in one request. Progress after registration
+ * is persisted, and the index screen resumes it.
+ */
+const Onboarding = () => {
+  const { isAuthenticated } = useAuthStore();
+  const { step, setStep } = useOnboardingStore();
+  const { t } = useTranslation();
+
+  // Signed-in users already have an owner account
+  const currentStep: OnboardingStep = step ?? (isAuthenticated ? 'company' : 'owner');
+  const index = ONBOARDING_STEPS.indexOf(currentStep);
+
+  const goToNextStep = () => setStep(ONBOARDING_STEPS[index + 1]);
+
+  const handleBack = () => {
+    if (currentStep === 'owner') {
+      router.back();
+      return;
+    }
+    if (currentStep !== 'company') {
+      setStep(ONBOARDING_STEPS[index - 1]);
+      return;
+    }
+    // The owner account exists; leaving keeps the drafts for later
+    Alert.alert(t('onboarding.leaveTitle'), t('onboarding.leaveMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('onboarding.finishLater'), onPress: () => router.replace('/SwitchAccount') },
+    ]);
+  };
+
+  const renderStep = () => {
+    switch (currentStep) {
+      case 'owner':
+        return <OnboardingOwnerStep onNext={goToNextStep} />;
+      case 'company':
+        return <OnboardingCompanyStep onNext={goToNextStep} />;
+      case 'branch':
+        return <OnboardingBranchStep onNext={goToNextStep} />;
+      case 'services':
+        return <OnboardingServicesStep onNext={goToNextStep} />;
+      case 'plan':
+        return <OnboardingPlanStep onNext={goToNextStep} />;
+      case 'review':
+        return <OnboardingReviewStep onEdit={setStep} />;
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.keyboardView}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={handleBack} activeOpacity={0.7}>
+            <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{t('onboarding.title')}</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        {/* Progress */}
+        <View style={styles.progress}>
+          <View style={styles.progressBar}>
+            {ONBOARDING_STEPS.map((item, itemIndex) => (
+              <View
+                key={item}
+                style={[styles.progressSegment, itemIndex <= index && styles.progressSegmentActive]}
+              />
+            ))}
+          </View>
+          <Text style={styles.progressText}>
+            {t('onboarding.progress', { current: index + 1, total: ONBOARDING_STEPS.length })}
+          </Text>
+          <Text style={styles.stepTitle}>{t(`onboarding.steps.${currentStep}`)}</Text>
+        </View>
+
+        {renderStep()}
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+export default Onboarding;
+
+const styles = StyleSheet.create({
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 24,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.primary,
+    flex: 1,
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  progress: {
+    marginBottom: 24,
+  },
+  progressBar: {
+    flexDirection: 'row',
+    gap: 6,
+    marginBottom: 12,
+  },
+  progressSegment: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: colors.neutral.gray.lighter,
+  },
+  progressSegmentActive: {
+    backgroundColor: colors.primary.green,
+  },
+  progressText: {
+    fontSize: 12,
+    fontFamily: fonts.weights.medium,
+    color: colors.neutral.gray.medium,
+    marginBottom: 4,
+  },
+  stepTitle: {
+    fontSize: 24,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.primary,
+  },
+});
@@ -0,0 +1,282 @@
+import Button from '@/components/Button';
+import { colors } from '@/constants/colors';
+import { fonts } from '@/constants/fonts';
+import { useOutboxItems } from '@/hooks/useOutbox';
+import { useTranslation } from '@/hooks/useTranslation';
+import { discardOutboxItem, replayOutbox, retryOutboxItem } from '@/services/outbox';
+import { OutboxItem, OutboxStatus } from '@/store/outboxStore';
+import { formatRelativeTime } from '@/utils/date';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    FlatList,
+    RefreshControl,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+
+const STATUS_DISPLAY: Record<OutboxStatus, { icon: string; color: string }> = {
+  pending: { icon: 'cloud-upload-outline', color: colors.semantic.info },
+  syncing: { icon: 'sync-outline', color: colors.primary.green },
+  conflict: { icon: 'git-compare-outline', color: colors.semantic.warning },
+  failed: { icon: 'alert-circle-outline', color: colors.semantic.error },
+};
+
+/**
+ * Writes made offline that have not reached the server yet
+ * Conflicts and failures stay here until the user retries or discards them.
+ */
+const PendingSync = () => {
+  const items = useOutboxItems();
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const { t } = useTranslation();
+
+  const handleRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    try {
+      await replayOutbox();
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  const handleDiscard = (item: OutboxItem) => {
+    Alert.alert(
+      t('pendingSync.discardTitle'),
+      t('pendingSync.discardMessage', { label: item.label }),
+      [
+        {
+          text: t('common.cancel'),
+          style: 'cancel',
+        },
+        {
+          text: t('common.discard'),
+          style: 'destructive',
+          onPress: () => discardOutboxItem(item.id),
+        },
+      ]
+    );
+  };
+
+  const renderItem = ({ item }: { item: OutboxItem }) => {
+    const display = STATUS_DISPLAY[item.status];
+    const needsAttention = item.status === 'conflict' || item.status === 'failed';
+
+    return (
+      <View style={[styles.itemCard, needsAttention && { borderLeftWidth: 4, borderLeftColor: display.color }]}>
+        <View style={styles.itemContent}>
+          <View style={[styles.iconContainer, { backgroundColor: display.color + '15' }]}>
+            {item.status === 'syncing' ? (
+              <ActivityIndicator size="small" color={display.color} />
+            ) : (
+              <Ionicons name={display.icon as any} size={24} color={display.color} />
+            )}
+          </View>
+          <View style={styles.textContainer}>
+            <Text style={styles.itemTitle}>{item.label}</Text>
+            <Text style={[styles.itemStatus, { color: display.color }]}>{t(`pendingSync.status.${item.status}`)}</Text>
+            {item.error && (
+              <Text style={styles.itemError} numberOfLines={3}>
+                {item.error}
+              </Text>
+            )}
+            <View style={styles.timestampContainer}>
+              <Ionicons name="time-outline" size={12} color={colors.text.secondary} />
+              <Text style={styles.timestamp}>
+                {t('pendingSync.queued', { time: formatRelativeTime(item.createdAt) })}
+              </Text>
+            </View>
+          </View>
+        </View>
+
+        {needsAttention && (
+          <View style={styles.itemActions}>
+            <Button
+              title={t('common.discard')}
+              variant="outline"
+              onPress={() => handleDiscard(item)}
+              style={styles.actionButton}
+            />
+            <Button
+              title={t('common.retry')}
+              onPress={() => retryOutboxItem(item.id)}
+              style={styles.actionButton}
+            />
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyContainer}>
+      <Ionicons name="cloud-done-outline" size={64} color={colors.primary.green} />
+      <Text style={styles.emptyTitle}>{t('pendingSync.emptyTitle')}</Text>
+      <Text style={styles.emptySubtitle}>{t('pendingSync.emptySubtitle')}</Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('pendingSync.title')}</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      {items.length === 0 ? (
+        renderEmptyState()
+      ) : (
+        <FlatList
+          data={items}
+          renderItem={renderItem}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefreshing}
+              onRefresh={handleRefresh}
+              colors={[colors.primary.green]}
+              tintColor={colors.primary.green}
+            />
+          }
+        />
+      )}
+    </View>
+  );
+};
+
+export default PendingSync;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.secondary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: colors.background.primary,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.neutral.gray.lighter,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.primary,
+  },
+  placeholder: {
+    width: 40,
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  itemCard: {
+    backgroundColor: colors.background.primary,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+    borderWidth: 1,
+    borderColor: colors.neutral.gray.lighter,
+  },
+  itemContent: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  iconContainer: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    alignItems: 'center',
+    justifyContent: 'center',
+    flexShrink: 0,
+  },
+  textContainer: {
+    flex: 1,
+    gap: 4,
+  },
+  itemTitle: {
+    fontSize: 15,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.primary,
+  },
+  itemStatus: {
+    fontSize: 13,
+    fontFamily: fonts.weights.medium,
+  },
+  itemError: {
+    fontSize: 14,
+    fontFamily: fonts.weights.regular,
+    color: colors.text.secondary,
+    lineHeight: 20,
+  },
+  timestampContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+  },
+  timestamp: {
+    fontSize: 12,
+    fontFamily: fonts.weights.regular,
+    color: colors.text.secondary,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    minWidth: 96,
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.primary,
+    marginTop: 24,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    fontFamily: fonts.weights.regular,
+    color: colors.text.secondary,
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+});
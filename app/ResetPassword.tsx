@@ -0,0 +1,406 @@
+import Button from '@/components/Button';
+import Input from '@/components/Input';
+import PasswordStrength from '@/components/PasswordStrength';
+import { colors } from '@/constants/colors';
+import { fonts } from '@/constants/fonts';
+import { useTranslation } from '@/hooks/useTranslation';
+import { auth, getErrorFieldErrors } from '@/services';
+import { isMockBackendActive, MOCK_RESET_CODE } from '@/services/mock';
+import { useAuthStore } from '@/store/authStore';
+import { resetCodeSchema, resetPasswordSchema, validateField, validateForm } from '@/validators';
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+    KeyboardAvoidingView,
+    Platform,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+
+// Seconds before another code can be requested
+const RESEND_COOLDOWN = 30;
+
+type Step = 'code' | 'password';
+
+/**
+ * Second step of password recovery: verifies the emailed code, then sets the new password
+ * The reset email links here as dirackserviceapp://ResetPassword?email=...&code=..., which
+ * verifies the code straight away. Saving the password signs the user in.
+ */
+const ResetPassword = () => {
+  const params = useLocalSearchParams<{ email?: string; code?: string }>();
+  const email = params.email ?? '';
+  const [step, setStep] = useState<Step>('code');
+  const [code, setCode] = useState(params.code ?? '');
+  const [resetToken, setResetToken] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [notice, setNotice] = useState<string | null>(null);
+  const [cooldown, setCooldown] = useState(RESEND_COOLDOWN);
+  const { login } = useAuthStore();
+  const { t } = useTranslation();
+  const mismatchError = t('validation.passwordsMismatch');
+
+  useEffect(() => {
+    // The code is bound to an email; without one the flow starts over
+    if (!email) {
+      router.replace('/ForgotPassword');
+      return;
+    }
+    // Opened from the email link
+    if (params.code) {
+      handleVerify(params.code);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    if (cooldown <= 0) {
+      return;
+    }
+    const timer = setTimeout(() => setCooldown((seconds) => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  const handleCodeChange = (value: string) => {
+    const digits = value.replace(/\D/g, '');
+    setCode(digits);
+    setNotice(null);
+    setErrors({});
+  };
+
+  const handleVerify = async (value: string = code) => {
+    const validation = validateForm(resetCodeSchema, { code: value });
+
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    setErrors({});
+    setNotice(null);
+    setIsLoading(true);
+
+    try {
+      const response = await auth.verifyResetCode(email, value);
+      setResetToken(response.resetToken);
+      setStep('password');
+    } catch (error: any) {
+      const fieldErrors = getErrorFieldErrors(error);
+      setErrors(
+        Object.keys(fieldErrors).length > 0
+          ? fieldErrors
+          : { general: error?.message || t('resetPassword.verifyFailed') }
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setErrors({});
+    setNotice(null);
+    setCooldown(RESEND_COOLDOWN);
+
+    try {
+      await auth.requestPasswordReset(email);
+      setNotice(t('resetPassword.resent'));
+    } catch (error: any) {
+      setErrors({ general: error?.message || t('forgotPassword.failed') });
+      setCooldown(0);
+    }
+  };
+
+  const handlePasswordChange = (field: 'password' | 'confirmPassword', value: string) => {
+    const values = { password, confirmPassword, [field]: value };
+    if (field === 'password') {
+      setPassword(value);
+    } else {
+      setConfirmPassword(value);
+    }
+
+    // Validate the field in real-time, and the match once both are filled
+    setErrors((prev) => {
+      const newErrors = { ...prev };
+      delete newErrors.general;
+
+      const fieldError = validateField(resetPasswordSchema, field, value);
+      if (fieldError) {
+        newErrors[field] = fieldError;
+      } else {
+        delete newErrors[field];
+      }
+
+      if (values.password && values.confirmPassword && values.password !== values.confirmPassword) {
+        newErrors.confirmPassword = mismatchError;
+      } else if (newErrors.confirmPassword === mismatchError) {
+        delete newErrors.confirmPassword;
+      }
+      return newErrors;
+    });
+  };
+
+  const handleReset = async () => {
+    const validation = validateForm(resetPasswordSchema, { password, confirmPassword });
+
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+    if (!resetToken) {
+      setStep('code');
+      return;
+    }
+
+    setErrors({});
+    setIsLoading(true);
+
+    try {
+      const response = await auth.resetPassword(resetToken, password);
+      // Recovery screens should not be reachable with back from the login challenge or the account picker
+      if (auth.isTwoFactorChallenge(response)) {
+        if (router.canDismiss()) {
+          router.dismissAll();
+        }
+        // Finishes on the login screen's two-step verification step, like a password login
+        router.replace({ pathname: '/Login', params: { challengeToken: response.challengeToken } });
+        return;
+      }
+
+      const { accessToken, refreshToken, user } = response;
+      if (!accessToken || !user) {
+        setErrors({ general: t('login.invalidResponse') });
+        return;
+      }
+      login(accessToken, refreshToken ?? null, user);
+      if (router.canDismiss()) {
+        router.dismissAll();
+      }
+      router.replace('/SwitchAccount');
+    } catch (error: any) {
+      const fieldErrors = getErrorFieldErrors(error);
+      setErrors(
+        Object.keys(fieldErrors).length > 0
+          ? fieldErrors
+          : { general: error?.message || t('resetPassword.failed') }
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.keyboardView}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => (step === 'password' ? setStep('code') : router.back())}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>
+            {step === 'code' ? t('resetPassword.codeTitle') : t('resetPassword.title')}
+          </Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        {step === 'code' ? (
+          <View style={styles.form}>
+            <Text style={styles.subtitle}>{t('resetPassword.codeSubtitle', { email })}</Text>
+
+            <Input
+              label={t('resetPassword.code')}
+              placeholder={t('resetPassword.codePlaceholder')}
+              value={code}
+              onChangeText={handleCodeChange}
+              keyboardType="number-pad"
+              autoComplete="one-time-code"
+              textContentType="oneTimeCode"
+              maxLength={6}
+              error={errors.code}
+            />
+
+            {isMockBackendActive() && (
+              <Text style={styles.hint}>{t('resetPassword.demoCode', { code: MOCK_RESET_CODE })}</Text>
+            )}
+
+            {notice && <Text style={styles.notice}>{notice}</Text>}
+
+            {errors.general && (
+              <View style={styles.errorContainer}>
+                <Text style={styles.errorText}>{errors.general}</Text>
+              </View>
+            )}
+
+            <Button
+              title={t('resetPassword.verify')}
+              variant="primary"
+              onPress={() => handleVerify()}
+              loading={isLoading}
+              disabled={isLoading}
+              style={styles.submitButton}
+            />
+
+            <TouchableOpacity
+              style={styles.resendButton}
+              onPress={handleResend}
+              disabled={cooldown > 0 || isLoading}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.resendText, cooldown > 0 && styles.resendTextDisabled]}>
+                {cooldown > 0 ? t('resetPassword.resendIn', { seconds: cooldown }) : t('resetPassword.resend')}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={styles.form}>
+            <Text style={styles.subtitle}>{t('resetPassword.subtitle')}</Text>
+
+            <Input
+              label={t('changePassword.newPassword')}
+              placeholder={t('changePassword.newPasswordPlaceholder')}
+              value={password}
+              onChangeText={(text) => handlePasswordChange('password', text)}
+              secureTextEntry
+              autoCapitalize="none"
+              autoComplete="new-password"
+              error={errors.password}
+            />
+
+            <PasswordStrength password={password} />
+
+            <Input
+              label={t('changePassword.confirmPassword')}
+              placeholder={t('changePassword.confirmPasswordPlaceholder')}
+              value={confirmPassword}
+              onChangeText={(text) => handlePasswordChange('confirmPassword', text)}
+              secureTextEntry
+              autoCapitalize="none"
+              error={errors.confirmPassword}
+            />
+
+            {errors.general && (
+              <View style={styles.errorContainer}>
+                <Text style={styles.errorText}>{errors.general}</Text>
+              </View>
+            )}
+
+            <Button
+              title={t('resetPassword.submit')}
+              variant="primary"
+              onPress={handleReset}
+              loading={isLoading}
+              disabled={isLoading}
+              style={styles.submitButton}
+            />
+          </View>
+        )}
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+export default ResetPassword;
+
+const styles = StyleSheet.create({
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 32,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.primary,
+    flex: 1,
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  form: {
+    flex: 1,
+  },
+  subtitle: {
+    fontSize: 14,
+    fontFamily: fonts.weights.regular,
+    color: colors.neutral.gray.medium,
+    marginBottom: 24,
+    lineHeight: 20,
+  },
+  hint: {
+    fontSize: 13,
+    fontFamily: fonts.weights.medium,
+    color: colors.semantic.info,
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  notice: {
+    fontSize: 13,
+    fontFamily: fonts.weights.medium,
+    color: colors.primary.green,
+    marginBottom: 16,
+  },
+  errorContainer: {
+    marginBottom: 16,
+    padding: 12,
+    backgroundColor: '#FEE2E2',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.semantic.error,
+  },
+  errorText: {
+    fontSize: 14,
+    fontFamily: fonts.weights.medium,
+    color: colors.semantic.error,
+    textAlign: 'center',
+  },
+  submitButton: {
+    marginTop: 8,
+  },
+  resendButton: {
+    alignSelf: 'center',
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+  resendText: {
+    fontSize: 14,
+    fontFamily: fonts.weights.semiBold,
+    color: colors.primary.green,
+  },
+  resendTextDisabled: {
+    color: colors.neutral.gray.light,
+  },
+});
@@ -0,0 +1,653 @@
+import Button from '@/components/Button';
+import Input from '@/components/Input';
+import PermissionDiffList from '@/components/PermissionDiffList';
+import { withPermission } from '@/components/PermissionGuard';
+import Skeleton from '@/components/Skeleton';
+import Toast, { ToastType } from '@/components/Toast';
+import { colors } from '@/constants/colors';
+import { fonts } from '@/constants/fonts';
+import { PERMISSIONS } from '@/constants/permissions';
+import { useMutation, useQuery } from '@/hooks/useQuery';
+import { useTranslation } from '@/hooks/useTranslation';
+import { getErrorFieldErrors, RoleTemplate, roleTemplates as roleTemplatesApi, staff as staffApi } from '@/services';
+import { queryKeys } from '@/services/queryKeys';
+import { RoleTemplateInput } from '@/services/roleTemplates';
+import { getPermissionDiff, PermissionDiff } from '@/utils/permissions';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+interface MemberDiff {
+  accountId: string;
+  name: string;
+  diff: PermissionDiff;
+}
+
+const EMPTY_FORM: RoleTemplateInput = { name: '', description: null, permissions: [] };
+
+const RoleTemplates = () => {
+  const { t } = useTranslation();
+  const {
+    data: templates,
+    error: templatesError,
+    isLoading,
+    isRefreshing,
+    refresh,
+  } = useQuery(queryKeys.roleTemplates.list(), ({ signal }) => roleTemplatesApi.list({ signal }));
+  const { data: allPermissions, isLoading: isLoadingPermissions } = useQuery(
+    queryKeys.staff.organizationPermissions(),
+    ({ signal }) => staffApi.organizationPermissions({ signal })
+  );
+  const { data: staffs } = useQuery(queryKeys.staff.list(), staffApi.list);
+  const { mutate: saveTemplate, isPending: isSaving } = useMutation(
+    ({ templateId, input }: { templateId: string | null; input: RoleTemplateInput }) =>
+      templateId ? roleTemplatesApi.update(templateId, input) : roleTemplatesApi.create(input),
+    { invalidates: [queryKeys.roleTemplates.list()] }
+  );
+  const { mutate: removeTemplate } = useMutation((templateId: string) => roleTemplatesApi.remove(templateId), {
+    invalidates: [queryKeys.roleTemplates.list()],
+  });
+  const { mutate: applyTemplate, isPending: isApplying } = useMutation(
+    (template: RoleTemplate) =>
+      roleTemplatesApi.apply(template.id, template.members.map((member) => member.accountId)),
+    { invalidates: [queryKeys.roleTemplates.list()] }
+  );
+
+  // Editor modal; editingId is null when creating a template
+  const [isEditorVisible, setIsEditorVisible] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<RoleTemplateInput>(EMPTY_FORM);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+
+  // Re-sync modal
+  const [syncingTemplate, setSyncingTemplate] = useState<RoleTemplate | null>(null);
+  const [memberDiffs, setMemberDiffs] = useState<MemberDiff[]>([]);
+  const [isLoadingDiffs, setIsLoadingDiffs] = useState(false);
+
+  const [toast, setToast] = useState<{ message: string; type: ToastType; visible: boolean }>({
+    message: '',
+    type: 'info',
+    visible: false,
+  });
+
+  const showToast = (message: string, type: ToastType = 'info') => {
+    setToast({ message, type, visible: true });
+  };
+
+  const hideToast = () => {
+    setToast((prev) => ({ ...prev, visible: false }));
+  };
+
+  const getMemberName = (userId: string) => {
+    const member = staffs?.find((item) => item.userId === userId);
+    return member ? `${member.staff.firstName} ${member.staff.lastName}` : t('roleTemplates.unknownStaff');
+  };
+
+  const handleOpenEditor = (template?: RoleTemplate) => {
+    setEditingId(template?.id ?? null);
+    setForm(
+      template
+        ? { name: template.name, description: template.description, permissions: template.permissions }
+        : EMPTY_FORM
+    );
+    setFormErrors({});
+    setIsEditorVisible(true);
+  };
+
+  const handleTogglePermission = (name: string) => {
+    setForm((prev) => ({
+      ...prev,
+      permissions: prev.permissions.includes(name)
+        ? prev.permissions.filter((item) => item !== name)
+        : [...prev.permissions, name],
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      setFormErrors({ name: t('roleTemplates.nameRequired') });
+      return;
+    }
+
+    try {
+      await saveTemplate({ templateId: editingId, input: form });
+      setIsEditorVisible(false);
+      showToast(editingId ? t('roleTemplates.updated') : t('roleTemplates.created'), 'success');
+    } catch (err: any) {
+      setFormErrors(getErrorFieldErrors(err));
+      showToast(err?.message || t('roleTemplates.saveFailed'), 'error');
+    }
+  };
+
+  const handleDelete = (template: RoleTemplate) => {
+    Alert.alert(
+      t('roleTemplates.deleteTitle'),
+      t('roleTemplates.deleteMessage', { name: template.name }),
+      [
+        {
+          text: t('common.cancel'),
+          style: 'cancel',
+        },
+        {
+          text: t('roleTemplates.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await removeTemplate(template.id);
+              showToast(t('roleTemplates.deleted'), 'success');
+            } catch (err: any) {
+              showToast(err?.message || t('roleTemplates.deleteFailed'), 'error');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Compares each member's current permissions with the template's before anything changes
+  const handleOpenResync = async (template: RoleTemplate) => {
+    setSyncingTemplate(template);
+    setMemberDiffs([]);
+    setIsLoadingDiffs(true);
+    try {
+      const diffs = await Promise.all(
+        template.members.map(async (member) => ({
+          accountId: member.accountId,
+          name: getMemberName(member.userId),
+          diff: getPermissionDiff((await staffApi.permissions(member.accountId)) || [], template.permissions),
+        }))
+      );
+      setMemberDiffs(diffs);
+    } catch (err: any) {
+      setSyncingTemplate(null);
+      showToast(err?.message || t('roleTemplates.loadPermissionsFailed'), 'error');
+    } finally {
+      setIsLoadingDiffs(false);
+    }
+  };
+
+  const handleResync = async () => {
+    if (!syncingTemplate) {
+      return;
+    }
+
+    try {
+      await applyTemplate(syncingTemplate);
+      showToast(
+        t('roleTemplates.applied', { name: syncingTemplate.name, count: syncingTemplate.members.length }),
+        'success'
+      );
+      setSyncingTemplate(null);
+    } catch (err: any) {
+      showToast(err?.message || t('roleTemplates.applyFailed'), 'error');
+    }
+  };
+
+  const renderTemplate = (template: RoleTemplate) => (
+    <View key={template.id} style={styles.templateCard}>
+      <View style={styles.templateHeader}>
+        <View style={styles.templateIconContainer}>
+          <Ionicons name="shield-checkmark-outline" size={22} color={colors.primary.green} />
+        </View>
+        <View style={styles.templateContent}>
+          <Text style={styles.templateName}>{template.name}</Text>
+          {template.description && <Text style={styles.templateDescription}>{template.description}</Text>}
+          <Text style={styles.templateMeta}>
+            {t('roleTemplates.permissionCount', { count: template.permissions.length })} ·{' '}
+            {t('roleTemplates.staffCount', { count: template.members.length })}
+          </Text>
+        </View>
+      </View>
+      <View style={styles.templateActions}>
+        <TouchableOpacity style={styles.actionButton} onPress={() => handleOpenEditor(template)} activeOpacity={0.7}>
+          <Ionicons name="create-outline" size={18} color={colors.primary.green} />
+          <Text style={styles.actionText}>{t('roleTemplates.edit')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, template.members.length === 0 && styles.actionButtonDisabled]}
+          onPress={() => handleOpenResync(template)}
+          disabled={template.members.length === 0}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="sync-outline" size={18} color={colors.primary.green} />
+          <Text style={styles.actionText}>{t('roleTemplates.resync')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={() => handleDelete(template)} activeOpacity={0.7}>
+          <Ionicons name="trash-outline" size={18} color={colors.semantic.error} />
+          <Text style={[styles.actionText, styles.deleteText]}>{t('roleTemplates.delete')}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderContent = () => {
+    if (isLoading) {
+      return Array.from({ length: 4 }).map((_, index) => (
+        <Skeleton key={index} width="100%" height={120} borderRadius={12} style={styles.skeleton} />
+      ));
+    }
+
+    if (templatesError || !templates) {
+      return (
+        <View style={styles.centerContainer}>
+          <Ionicons name="alert-circle-outline" size={48} color={colors.semantic.error} />
+          <Text style={styles.errorText}>
+            {templatesError?.message || t('roleTemplates.loadFailed')}
+          </Text>
+          <Button title={t('common.retry')} variant="text" onPress={refresh} />
+        </View>
+      );
+    }
+
+    if (templates.length === 0) {
+      return (
+        <View style={styles.centerContainer}>
+          <Ionicons name="shield-outline" size={64} color={colors.neutral.gray.light} />
+          <Text style={styles.emptyText}>{t('roleTemplates.empty')}</Text>
+        </View>
+      );
+    }
+
+    return templates.map(renderTemplate);
+  };
+
+  return (
+    <>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={refresh}
+            colors={[colors.primary.green]}
+            tintColor={colors.primary.green}
+          />
+        }
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()} activeOpacity={0.7}>
+            <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{t('roleTemplates.title')}</Text>
+          <TouchableOpacity style={styles.addButton} onPress={() => handleOpenEditor()} activeOpacity={0.7}>
+            <Ionicons name="add" size={24} color={colors.text.inverse} />
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.subtitle}>{t('roleTemplates.subtitle')}</Text>
+
+        {renderContent()}
+      </ScrollView>
+
+      {/* Create / Edit Template Modal */}
+      <Modal
+        visible={isEditorVisible}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setIsEditorVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{editingId ? t('roleTemplates.editTemplate') : t('roleTemplates.newTemplate')}</Text>
+              <TouchableOpacity onPress={() => setIsEditorVisible(false)} activeOpacity={0.7}>
+                <Ionicons name="close" size={24} color={colors.text.primary} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalScrollView} contentContainerStyle={styles.modalScrollContent}>
+              <Input
+                label={t('roleTemplates.name')}
+                placeholder={t('roleTemplates.namePlaceholder')}
+                value={form.name}
+                onChangeText={(name) => setForm((prev) => ({ ...prev, name }))}
+                error={formErrors.name}
+              />
+              <Input
+                label={t('roleTemplates.description')}
+                placeholder={t('roleTemplates.descriptionPlaceholder')}
+                value={form.description ?? ''}
+                onChangeText={(description) => setForm((prev) => ({ ...prev, description: description || null }))}
+                error={formErrors.description}
+              />
+
+              <Text style={styles.sectionLabel}>
+                {t('roleTemplates.permissionsLabel', { count: form.permissions.length })}
+              </Text>
+              {formErrors.permissions && <Text style={styles.fieldError}>{formErrors.permissions}</Text>}
+              {isLoadingPermissions ? (
+                <ActivityIndicator size="small" color={colors.primary.green} />
+              ) : (
+                allPermissions?.map((permission) => {
+                  const isSelected = form.permissions.includes(permission.name);
+                  return (
+                    <TouchableOpacity
+                      key={permission.id}
+                      style={styles.permissionRow}
+                      onPress={() => handleTogglePermission(permission.name)}
+                      activeOpacity={0.7}
+                    >
+                      <View style={[styles.checkbox, isSelected && styles.checkboxSelected]}>
+                        {isSelected && <Ionicons name="checkmark" size={16} color={colors.text.inverse} />}
+                      </View>
+                      <Text style={styles.permissionName}>{permission.name}</Text>
+                    </TouchableOpacity>
+                  );
+                })
+              )}
+            </ScrollView>
+
+            <View style={styles.modalFooter}>
+              <Button
+                title={t('common.cancel')}
+                variant="outline"
+                onPress={() => setIsEditorVisible(false)}
+                style={styles.footerButton}
+              />
+              <Button
+                title={t('roleTemplates.save')}
+                onPress={handleSave}
+                loading={isSaving}
+                disabled={isSaving}
+                style={styles.footerButton}
+              />
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Re-sync Preview Modal */}
+      <Modal
+        visible={syncingTemplate !== null}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setSyncingTemplate(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>
+                {t('roleTemplates.resyncTitle', { name: syncingTemplate?.name ?? '' })}
+              </Text>
+              <TouchableOpacity onPress={() => setSyncingTemplate(null)} activeOpacity={0.7}>
+                <Ionicons name="close" size={24} color={colors.text.primary} />
+              </TouchableOpacity>
+            </View>
+
+            {isLoadingDiffs ? (
+              <View style={styles.modalLoadingContainer}>
+                <ActivityIndicator size="large" color={colors.primary.green} />
+              </View>
+            ) : (
+              <ScrollView style={styles.modalScrollView} contentContainerStyle={styles.modalScrollContent}>
+                {memberDiffs.map((member) => (
+                  <View key={member.accountId} style={styles.memberCard}>
+                    <Text style={styles.memberName}>{member.name}</Text>
+                    <PermissionDiffList diff={member.diff} />
+                  </View>
+                ))}
+              </ScrollView>
+            )}
+
+            <View style={styles.modalFooter}>
+              <Button
+                title={t('common.cancel')}
+                variant="outline"
+                onPress={() => setSyncingTemplate(null)}
+                style={styles.footerButton}
+              />
+              <Button
+                title={t('roleTemplates.applyTo', { count: memberDiffs.length })}
+                onPress={handleResync}
+                loading={isApplying}
+                disabled={isLoadingDiffs || isApplying}
+                style={styles.footerButton}
+              />
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Toast message={toast.message} type={toast.type} visible={toast.visible} onHide={hideToast} />
+    </>
+  );
+};
+
+export default withPermission(RoleTemplates, PERMISSIONS.manageStaff);
+
+const styles = StyleSheet.create({
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.primary,
+  },
+  addButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.primary.green,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    fontFamily: fonts.weights.regular,
+    color: colors.neutral.gray.medium,
+    lineHeight: 20,
+    marginBottom: 20,
+  },
+  skeleton: {
+    marginBottom: 12,
+  },
+  centerContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  errorText: {
+    marginTop: 16,
+    fontSize: 16,
+    fontFamily: fonts.weights.regular,
+    color: colors.text.primary,
+    textAlign: 'center',
+  },
+  emptyText: {
+    marginTop: 16,
+    fontSize: 16,
+    fontFamily: fonts.weights.regular,
+    color: colors.neutral.gray.medium,
+  },
+  templateCard: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.neutral.gray.lighter,
+    backgroundColor: colors.background.primary,
+  },
+  templateHeader: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  templateIconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.primary.greenLight + '20',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  templateContent: {
+    flex: 1,
+  },
+  templateName: {
+    fontSize: 16,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.primary,
+  },
+  templateDescription: {
+    marginTop: 2,
+    fontSize: 14,
+    fontFamily: fonts.weights.regular,
+    color: colors.text.primary,
+  },
+  templateMeta: {
+    marginTop: 4,
+    fontSize: 13,
+    fontFamily: fonts.weights.regular,
+    color: colors.neutral.gray.medium,
+  },
+  templateActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: colors.neutral.gray.lighter,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  actionButtonDisabled: {
+    opacity: 0.5,
+  },
+  actionText: {
+    fontSize: 14,
+    fontFamily: fonts.weights.semiBold,
+    color: colors.primary.green,
+  },
+  deleteText: {
+    color: colors.semantic.error,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: colors.background.primary,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.neutral.gray.lighter,
+  },
+  modalTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.primary,
+  },
+  modalScrollView: {
+    maxHeight: 480,
+  },
+  modalScrollContent: {
+    padding: 20,
+  },
+  modalLoadingContainer: {
+    padding: 40,
+    alignItems: 'center',
+  },
+  sectionLabel: {
+    marginTop: 8,
+    marginBottom: 12,
+    fontSize: 16,
+    fontFamily: fonts.weights.semiBold,
+    color: colors.text.primary,
+  },
+  fieldError: {
+    marginBottom: 8,
+    fontSize: 12,
+    fontFamily: fonts.weights.regular,
+    color: colors.semantic.error,
+  },
+  permissionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+  },
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: colors.primary.green,
+    backgroundColor: colors.background.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  checkboxSelected: {
+    backgroundColor: colors.primary.green,
+  },
+  permissionName: {
+    fontSize: 15,
+    fontFamily: fonts.weights.regular,
+    color: colors.text.primary,
+  },
+  memberCard: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: colors.background.secondary,
+    borderWidth: 1,
+    borderColor: colors.neutral.gray.lighter,
+  },
+  memberName: {
+    marginBottom: 8,
+    fontSize: 16,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.primary,
+  },
+  modalFooter: {
+    flexDirection: 'row',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderTopWidth: 1,
+    borderTopColor: colors.neutral.gray.lighter,
+    gap: 12,
+  },
+  footerButton: {
+    flex: 1,
+  },
+});
@@ -1,15 +1,28 @@
+import { withPermission } from '@/components/PermissionGuard';
 import Skeleton from '@/components/Skeleton';
 import Toast, { ToastType } from '@/components/Toast';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
-import { useAuthStore } from '@/store/authStore';
+import { PERMISSIONS } from '@/constants/permissions';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { useEntity } from '@/hooks/useEntities';
+import { useMutation, useQuery } from '@/hooks/useQuery';
+import { useResourceUri } from '@/hooks/useResourceUri';
+import { useTranslation } from '@/hooks/useTranslation';
+import {
+  isAbortError,
+  ServiceDetails as ServiceDetailsData,
+  ServicePricing as Pricing,
+  services as servicesApi,
+  ServiceTag as Tag,
+} from '@/services';
+import { queryKeys } from '@/services/queryKeys';
 import { formatDate } from '@/utils/date';
+import { formatCurrency } from '@/utils/number';
 import { Ionicons } from '@expo/vector-icons';
-import Constants from 'expo-constants';
 import { LinearGradient } from 'expo-linear-gradient';
 import { router, useLocalSearchParams } from 'expo-router';
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -23,99 +36,22 @@ import {
   View
 } from 'react-native';
 
-interface ServiceMode {
-  id: number;
-  name: string;
-  isActive: boolean;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface ThumbNail {
-  id: string;
-  name: string;
-  systemName: string;
-  fileSize: number;
-  mimeType: string;
-  fileSource: string;
-  userId: string;
-  deleted: boolean;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface Staff {
-  id: string;
-  firstName: string;
-  middleName: string;
-  lastName: string;
-  email: string;
-  phone: number;
-  country: string | null;
-  userNumber: string;
-  gender: number;
-  birthDate: string;
-  verified: boolean;
-  active: boolean;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface ServiceDetails {
-  id: string;
-  organizationId: string;
-  name: string;
-  description: string;
-  isPublic: boolean;
-  isDeleted: boolean;
-  modeId: number;
-  staffId: string;
-  thumbNailId: string | null;
-  thumbNail: ThumbNail | null;
-  staff: Staff;
-  mode: ServiceMode;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface Tag {
-  id: string;
-  serviceId: string;
-  name: string;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface Pricing {
-  id: string;
-  name: string;
-  description: string;
-  amount: number;
-  discount: number;
-  organizationId: string;
-  serviceId: string;
-  isDeleted: boolean;
-  createdAt: number;
-  updatedAt: number;
-}
-
 const ServiceDetails = () => {
+  const { t } = useTranslation();
   const { serviceId } = useLocalSearchParams<{ serviceId: string }>();
-  const [service, setService] = useState<ServiceDetails | null>(null);
+  const [fetchedService, setFetchedService] = useState<ServiceDetailsData | null>(null);
+  // Shows edits made elsewhere, e.g. on EditService, without fetching again
+  const latestService = useEntity('services', serviceId);
+  const service = useMemo(
+    () => (fetchedService ? { ...fetchedService, ...latestService } : null),
+    [fetchedService, latestService]
+  );
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [bannerUri, setBannerUri] = useState<string | null>(null);
-  const [isLoadingBanner, setIsLoadingBanner] = useState(false);
   const [isVisibilityModalVisible, setIsVisibilityModalVisible] = useState(false);
-  const [isUpdatingVisibility, setIsUpdatingVisibility] = useState(false);
-  const [tags, setTags] = useState<Tag[]>([]);
-  const [isLoadingTags, setIsLoadingTags] = useState(false);
   const [isTagModalVisible, setIsTagModalVisible] = useState(false);
   const [tagInput, setTagInput] = useState('');
   const [editingTag, setEditingTag] = useState<Tag | null>(null);
-  const [isSavingTag, setIsSavingTag] = useState(false);
-  const [pricings, setPricings] = useState<Pricing[]>([]);
-  const [isLoadingPricings, setIsLoadingPricings] = useState(false);
   const [isPricingModalVisible, setIsPricingModalVisible] = useState(false);
   const [editingPricing, setEditingPricing] = useState<Pricing | null>(null);
   const [pricingForm, setPricingForm] = useState({
@@ -124,12 +60,13 @@ const ServiceDetails = () => {
     amount: '',
     discount: '',
   });
-  const [isSavingPricing, setIsSavingPricing] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: ToastType; visible: boolean }>({
     message: '',
     type: 'info',
     visible: false,
   });
+  const getSignal = useAbortSignal();
+  const { uri: bannerUri, isLoading: isLoadingBanner } = useResourceUri(service?.thumbNail?.systemName);
 
   const showToast = (message: string, type: ToastType = 'info') => {
     setToast({ message, type, visible: true });
@@ -139,43 +76,9 @@ const ServiceDetails = () => {
     setToast((prev) => ({ ...prev, visible: false }));
   };
 
-  const getImageUri = useCallback(async (systemName: string): Promise<void> => {
-    setIsLoadingBanner(true);
-    try {
-      const API_DOMAIN = Constants.expoConfig?.extra?.apiDomain as string | undefined || '';
-      const authToken = useAuthStore.getState().token;
-
-      const response = await fetch(`${API_DOMAIN}/file/resource/${systemName}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${authToken}`,
-        },
-      });
-
-      if (!response.ok) {
-        setIsLoadingBanner(false);
-        return;
-      }
-
-      const blob = await response.blob();
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const dataUri = reader.result as string;
-        setBannerUri(dataUri);
-        setIsLoadingBanner(false);
-      };
-      reader.onerror = () => {
-        setIsLoadingBanner(false);
-      };
-      reader.readAsDataURL(blob);
-    } catch (err) {
-      setIsLoadingBanner(false);
-    }
-  }, []);
-
   const fetchServiceDetails = useCallback(async () => {
     if (!serviceId) {
-      setError('Service ID is required');
+      setError(t('serviceDetails.idRequired'));
       setIsLoading(false);
       return;
     }
@@ -183,68 +86,81 @@ const ServiceDetails = () => {
     setIsLoading(true);
     setError(null);
 
+    const signal = getSignal();
     try {
-      const response = await api.get<ServiceDetails>(`/en/on/service/${serviceId}`, {
-        requiresAuth: true,
-      });
-
-      const serviceData = response.data;
-      setService(serviceData);
-
-      // Load banner image if thumbnail exists
-      if (serviceData.thumbNail?.systemName) {
-        getImageUri(serviceData.thumbNail.systemName);
-      }
+      const serviceData = await servicesApi.get(serviceId, { signal });
+      setFetchedService(serviceData);
     } catch (err: any) {
-      setError(err?.message || 'Failed to load service details. Please try again.');
+      if (isAbortError(err)) {
+        return;
+      }
+      setError(err?.message || t('serviceDetails.loadFailed'));
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
-  }, [serviceId, getImageUri]);
+  }, [serviceId, getSignal, t]);
 
   useEffect(() => {
     fetchServiceDetails();
   }, [fetchServiceDetails]);
 
-  const fetchTags = useCallback(async () => {
-    if (!serviceId) return;
-
-    setIsLoadingTags(true);
-    try {
-      const response = await api.get<Tag[]>(`/en/on/service/${serviceId}/tags`, {
-        requiresAuth: true,
-      });
-      setTags(response.data || []);
-    } catch (err: any) {
-      console.error('Failed to fetch tags:', err);
-      setTags([]);
-    } finally {
-      setIsLoadingTags(false);
-    }
-  }, [serviceId]);
+  // Tags and pricing are loaded once the service itself has loaded
+  const {
+    data: tagsData,
+    isFetching: isLoadingTags,
+    refresh: fetchTags,
+  } = useQuery(
+    queryKeys.services.tags(serviceId),
+    ({ signal }) => servicesApi.tags(serviceId, { signal }),
+    { enabled: !!serviceId && !!service }
+  );
+  const tags: Tag[] = tagsData || [];
+
+  const {
+    data: pricingsData,
+    isFetching: isLoadingPricings,
+    refresh: fetchPricings,
+  } = useQuery(
+    queryKeys.services.pricing(serviceId),
+    ({ signal }) => servicesApi.pricing(serviceId, { signal }),
+    { enabled: !!serviceId && !!service }
+  );
+  const pricings: Pricing[] = pricingsData || [];
 
-  const fetchPricings = useCallback(async () => {
-    if (!serviceId) return;
+  const tagMutationOptions = { invalidates: [queryKeys.services.tags(serviceId)] };
+  const { mutate: addTags, isPending: isAddingTags } = useMutation(
+    (tagNames: string[]) => servicesApi.addTags(serviceId, tagNames),
+    tagMutationOptions
+  );
+  const { mutate: updateTag, isPending: isUpdatingTag } = useMutation(
+    ({ tagId, name }: { tagId: string; name: string }) => servicesApi.updateTag(tagId, name),
+    tagMutationOptions
+  );
+  const { mutate: deleteTag } = useMutation(servicesApi.deleteTag, tagMutationOptions);
+  const isSavingTag = isAddingTags || isUpdatingTag;
 
-    setIsLoadingPricings(true);
-    try {
-      const response = await api.get<Pricing[]>(`/en/on/service/${serviceId}/pricing`, {
-        requiresAuth: true,
-      });
-      setPricings(response.data || []);
-    } catch (err: any) {
-      setPricings([]);
-    } finally {
-      setIsLoadingPricings(false);
-    }
-  }, [serviceId]);
+  const pricingMutationOptions = { invalidates: [queryKeys.services.pricing(serviceId)] };
+  const { mutate: createPricing, isPending: isCreatingPricing } = useMutation(
+    (input: servicesApi.PricingInput) => servicesApi.createPricing(serviceId, input),
+    pricingMutationOptions
+  );
+  const { mutate: updatePricing, isPending: isUpdatingPricing } = useMutation(
+    ({ pricingId, input }: { pricingId: string; input: servicesApi.PricingInput }) =>
+      servicesApi.updatePricing(serviceId, pricingId, input),
+    pricingMutationOptions
+  );
+  const { mutate: deletePricing } = useMutation(
+    (pricingId: string) => servicesApi.deletePricing(serviceId, pricingId),
+    pricingMutationOptions
+  );
+  const isSavingPricing = isCreatingPricing || isUpdatingPricing;
 
-  useEffect(() => {
-    if (serviceId && service) {
-      fetchTags();
-      fetchPricings();
-    }
-  }, [serviceId, service, fetchTags, fetchPricings]);
+  const { mutate: setVisibility, isPending: isUpdatingVisibility } = useMutation(
+    (isPublic: boolean) => servicesApi.setVisibility(serviceId, isPublic),
+    { invalidates: [queryKeys.services.list()] }
+  );
 
   const handleEdit = () => {
     router.push(`/EditService?serviceId=${serviceId}`);
@@ -252,24 +168,24 @@ const ServiceDetails = () => {
 
   const handleDelete = () => {
     Alert.alert(
-      'Delete Service',
-      `Are you sure you want to delete "${service?.name}"? This action cannot be undone.`,
+      t('serviceDetails.deleteTitle'),
+      t('serviceDetails.deleteMessage', { name: service?.name ?? '' }),
       [
         {
-          text: 'Cancel',
+          text: t('common.cancel'),
           style: 'cancel',
         },
         {
-          text: 'Delete',
+          text: t('serviceDetails.delete'),
           style: 'destructive',
           onPress: async () => {
             try {
               // TODO: Implement delete API call
               // await api.delete(`/en/on/service/${serviceId}`, { requiresAuth: true });
-              showToast('Service deleted successfully', 'success');
+              showToast(t('serviceDetails.deleted'), 'success');
               setTimeout(() => router.back(), 1000);
             } catch (err: any) {
-              showToast('Failed to delete service. Please try again.', 'error');
+              showToast(t('serviceDetails.deleteFailed'), 'error');
             }
           },
         },
@@ -291,36 +207,23 @@ const ServiceDetails = () => {
 
   const handleDeleteTag = (tag: Tag) => {
     Alert.alert(
-      'Delete Tag',
-      `Are you sure you want to delete the tag "${tag.name}"?`,
+      t('serviceDetails.deleteTagTitle'),
+      t('serviceDetails.deleteTagMessage', { name: tag.name }),
       [
         {
-          text: 'Cancel',
+          text: t('common.cancel'),
           style: 'cancel',
         },
         {
-          text: 'Delete',
+          text: t('serviceDetails.delete'),
           style: 'destructive',
           onPress: async () => {
             try {
-              const response = await api.delete(`/en/on/service/tag/${tag.id}`, {
-                requiresAuth: true,
-              });
-              
-              // Handle 204 status code as success
-              if (response.status === 204 || response.status === 200) {
-                await fetchTags();
-                showToast('Tag deleted successfully', 'success');
-              }
+              await deleteTag(tag.id);
+              showToast(t('serviceDetails.tagDeleted'), 'success');
             } catch (err: any) {
               console.log(err);
-              // Also check if status is 204 in error response
-              if (err?.response?.status === 204) {
-                await fetchTags();
-                showToast('Tag deleted successfully', 'success');
-              } else {
-                showToast(err?.message || 'Failed to delete tag. Please try again.', 'error');
-              }
+              showToast(err?.message || t('serviceDetails.tagDeleteFailed'), 'error');
             }
           },
         },
@@ -330,20 +233,15 @@ const ServiceDetails = () => {
 
   const handleSaveTag = async () => {
     if (!serviceId || !tagInput.trim()) {
-      showToast('Please enter a tag name', 'error');
+      showToast(t('serviceDetails.tagNameRequired'), 'error');
       return;
     }
 
-    setIsSavingTag(true);
     try {
       if (editingTag) {
         // Update existing tag
-        await api.patch(
-          `/en/on/service/tag/${editingTag.id}`,
-          { tag: tagInput.trim() },
-          { requiresAuth: true }
-        );
-        showToast('Tag updated successfully', 'success');
+        await updateTag({ tagId: editingTag.id, name: tagInput.trim() });
+        showToast(t('serviceDetails.tagUpdated'), 'success');
       } else {
         // Add new tags - split by comma and trim
         const tagNames = tagInput
@@ -352,30 +250,19 @@ const ServiceDetails = () => {
           .filter((tag) => tag.length > 0);
 
         if (tagNames.length === 0) {
-          showToast('Please enter at least one tag', 'error');
-          setIsSavingTag(false);
+          showToast(t('serviceDetails.tagsRequired'), 'error');
           return;
         }
 
-        await api.post(
-          '/en/on/service/tags',
-          {
-            serviceId: serviceId,
-            tags: tagNames,
-          },
-          { requiresAuth: true }
-        );
-        showToast('Tags added successfully', 'success');
+        await addTags(tagNames);
+        showToast(t('serviceDetails.tagsAdded'), 'success');
       }
 
       setIsTagModalVisible(false);
       setTagInput('');
       setEditingTag(null);
-      await fetchTags();
     } catch (err: any) {
-      showToast(err?.message || 'Failed to save tag. Please try again.', 'error');
-    } finally {
-      setIsSavingTag(false);
+      showToast(err?.message || t('serviceDetails.tagSaveFailed'), 'error');
     }
   };
 
@@ -403,37 +290,22 @@ const ServiceDetails = () => {
 
   const handleDeletePricing = (pricing: Pricing) => {
     Alert.alert(
-      'Delete Pricing',
-      `Are you sure you want to delete the pricing "${pricing.name}"?`,
+      t('serviceDetails.deletePricingTitle'),
+      t('serviceDetails.deletePricingMessage', { name: pricing.name }),
       [
         {
-          text: 'Cancel',
+          text: t('common.cancel'),
           style: 'cancel',
         },
         {
-          text: 'Delete',
+          text: t('serviceDetails.delete'),
           style: 'destructive',
           onPress: async () => {
             try {
-              const response = await api.delete(
-                `/en/on/service/${serviceId}/pricing/${pricing.id}`,
-                {
-                  requiresAuth: true,
-                }
-              );
-              // Handle 204 status code as success
-              if (response.status === 204 || response.status === 200) {
-                await fetchPricings();
-                showToast('Pricing deleted successfully', 'success');
-              }
+              await deletePricing(pricing.id);
+              showToast(t('serviceDetails.pricingDeleted'), 'success');
             } catch (err: any) {
-              // Also check if status is 204 in error response
-              if (err?.response?.status === 204) {
-                await fetchPricings();
-                showToast('Pricing deleted successfully', 'success');
-              } else {
-                showToast(err?.message || 'Failed to delete pricing. Please try again.', 'error');
-              }
+              showToast(err?.message || t('serviceDetails.pricingDeleteFailed'), 'error');
             }
           },
         },
@@ -446,19 +318,18 @@ const ServiceDetails = () => {
 
     // Validation
     if (!pricingForm.name.trim()) {
-      showToast('Please enter a pricing name', 'error');
+      showToast(t('serviceDetails.pricingNameRequired'), 'error');
       return;
     }
     if (!pricingForm.amount.trim() || isNaN(Number(pricingForm.amount)) || Number(pricingForm.amount) < 0) {
-      showToast('Please enter a valid amount', 'error');
+      showToast(t('serviceDetails.amountInvalid'), 'error');
       return;
     }
     if (pricingForm.discount.trim() && (isNaN(Number(pricingForm.discount)) || Number(pricingForm.discount) < 0)) {
-      showToast('Please enter a valid discount', 'error');
+      showToast(t('serviceDetails.discountInvalid'), 'error');
       return;
     }
 
-    setIsSavingPricing(true);
     try {
       const payload = {
         name: pricingForm.name.trim(),
@@ -469,20 +340,12 @@ const ServiceDetails = () => {
 
       if (editingPricing) {
         // Update existing pricing
-        await api.patch(
-          `/en/on/service/${serviceId}/pricing/${editingPricing.id}`,
-          payload,
-          { requiresAuth: true }
-        );
-        showToast('Pricing updated successfully', 'success');
+        await updatePricing({ pricingId: editingPricing.id, input: payload });
+        showToast(t('serviceDetails.pricingUpdated'), 'success');
       } else {
         // Create new pricing
-        await api.post(
-          `/en/on/create/service/${serviceId}/pricing`,
-          payload,
-          { requiresAuth: true }
-        );
-        showToast('Pricing added successfully', 'success');
+        await createPricing(payload);
+        showToast(t('serviceDetails.pricingAdded'), 'success');
       }
 
       setIsPricingModalVisible(false);
@@ -493,42 +356,22 @@ const ServiceDetails = () => {
         discount: '',
       });
       setEditingPricing(null);
-      await fetchPricings();
     } catch (err: any) {
-      showToast(err?.message || 'Failed to save pricing. Please try again.', 'error');
-    } finally {
-      setIsSavingPricing(false);
+      showToast(err?.message || t('serviceDetails.pricingSaveFailed'), 'error');
     }
   };
 
   const handleToggleVisibility = async (newIsPublic: boolean) => {
     if (!serviceId || !service) return;
 
-    setIsUpdatingVisibility(true);
     try {
-      await api.post(
-        '/en/on/service/state',
-        {
-          isPublic: newIsPublic,
-          serviceId: serviceId,
-        },
-        {
-          requiresAuth: true,
-        }
-      );
-
-      // Update the service state locally
-      setService((prev) => {
-        if (!prev) return prev;
-        return { ...prev, isPublic: newIsPublic };
-      });
+      // The stored service gets the new visibility from the response, or from the value sent
+      await setVisibility(newIsPublic);
 
       setIsVisibilityModalVisible(false);
-      showToast(`Service is now ${newIsPublic ? 'public' : 'private'}`, 'success');
+      showToast(newIsPublic ? t('serviceDetails.nowPublic') : t('serviceDetails.nowPrivate'), 'success');
     } catch (err: any) {
-      showToast(err?.message || 'Failed to update service visibility. Please try again.', 'error');
-    } finally {
-      setIsUpdatingVisibility(false);
+      showToast(err?.message || t('serviceDetails.visibilityFailed'), 'error');
     }
   };
 
@@ -545,7 +388,7 @@ const ServiceDetails = () => {
           {/* Header Skeleton */}
           <View style={styles.processingContainer}>
             <ActivityIndicator size="large" color={colors.primary.green} />
-            <Text style={styles.processingText}>Processing Please Wait...</Text>
+            <Text style={styles.processingText}>{t('serviceDetails.processing')}</Text>
           </View>
 
           {/* Banner Skeleton */}
@@ -574,20 +417,20 @@ const ServiceDetails = () => {
         />
         <View style={styles.errorContainer}>
           <Ionicons name="alert-circle-outline" size={64} color={colors.semantic.error} />
-          <Text style={styles.errorText}>{error || 'Service not found'}</Text>
+          <Text style={styles.errorText}>{error || t('serviceDetails.notFound')}</Text>
           <TouchableOpacity
             style={styles.retryButton}
             onPress={fetchServiceDetails}
             activeOpacity={0.7}
           >
-            <Text style={styles.retryButtonText}>Retry</Text>
+            <Text style={styles.retryButtonText}>{t('common.retry')}</Text>
           </TouchableOpacity>
           <TouchableOpacity
             style={styles.backButton}
             onPress={() => router.back()}
             activeOpacity={0.7}
           >
-            <Text style={styles.backButtonText}>Go Back</Text>
+            <Text style={styles.backButtonText}>{t('permissions.goBack')}</Text>
           </TouchableOpacity>
         </View>
       </>
@@ -613,7 +456,7 @@ const ServiceDetails = () => {
           >
             <Ionicons name="arrow-back" size={24} color={colors.text.inverse} />
           </TouchableOpacity>
-          <Text style={styles.headerTitle}>Service Details</Text>
+          <Text style={styles.headerTitle}>{t('serviceDetails.title')}</Text>
           <View style={styles.headerActions}>
             <TouchableOpacity
               style={styles.headerButton}
@@ -684,7 +527,7 @@ const ServiceDetails = () => {
                   service.isPublic ? styles.publicBadgeText : styles.privateBadgeText
                 ]}
               >
-                {service.isPublic ? 'Public' : 'Private'}
+                {service.isPublic ? t('serviceDetails.public') : t('common.private')}
               </Text>
               <Ionicons
                 name="chevron-down"
@@ -696,13 +539,13 @@ const ServiceDetails = () => {
 
           {/* Description */}
           <View style={styles.section}>
-            <Text style={styles.sectionTitle}>Description</Text>
+            <Text style={styles.sectionTitle}>{t('serviceDetails.description')}</Text>
             <Text style={styles.description}>{service.description}</Text>
           </View>
 
           {/* Service Mode */}
           <View style={styles.section}>
-            <Text style={styles.sectionTitle}>Service Mode</Text>
+            <Text style={styles.sectionTitle}>{t('serviceDetails.serviceMode')}</Text>
             <View style={styles.modeContainer}>
               <Ionicons name="folder-outline" size={20} color={colors.primary.green} />
               <Text style={styles.modeText}>{service.mode.name}</Text>
@@ -711,7 +554,7 @@ const ServiceDetails = () => {
 
           {/* Staff Information */}
           <View style={styles.section}>
-            <Text style={styles.sectionTitle}>Created By</Text>
+            <Text style={styles.sectionTitle}>{t('serviceDetails.createdBy')}</Text>
             <View style={styles.staffContainer}>
               <View style={styles.staffAvatar}>
                 <Text style={styles.staffInitials}>
@@ -731,7 +574,7 @@ const ServiceDetails = () => {
           {/* Service Tags */}
           <View style={styles.section}>
             <View style={styles.sectionHeader}>
-              <Text style={styles.sectionTitle}>Tags</Text>
+              <Text style={styles.sectionTitle}>{t('serviceDetails.tags')}</Text>
               <View style={styles.sectionHeaderActions}>
                 <TouchableOpacity
                   style={styles.addButton}
@@ -753,7 +596,7 @@ const ServiceDetails = () => {
               {isLoadingTags ? (
                 <ActivityIndicator size="small" color={colors.primary.green} />
               ) : tags.length === 0 ? (
-                <Text style={styles.emptyTagsText}>No tags added yet</Text>
+                <Text style={styles.emptyTagsText}>{t('serviceDetails.noTags')}</Text>
               ) : (
                 tags.map((tag) => (
                   <View key={tag.id} style={styles.tagItem}>
@@ -783,7 +626,7 @@ const ServiceDetails = () => {
           {/* Pricing */}
           <View style={styles.section}>
             <View style={styles.sectionHeader}>
-              <Text style={styles.sectionTitle}>Pricing</Text>
+              <Text style={styles.sectionTitle}>{t('serviceDetails.pricing')}</Text>
               <View style={styles.sectionHeaderActions}>
                 <TouchableOpacity
                   style={styles.addButton}
@@ -805,7 +648,7 @@ const ServiceDetails = () => {
               {isLoadingPricings ? (
                 <ActivityIndicator size="small" color={colors.primary.green} />
               ) : pricings.length === 0 ? (
-                <Text style={styles.emptyPricingText}>No pricing items added yet</Text>
+                <Text style={styles.emptyPricingText}>{t('serviceDetails.noPricing')}</Text>
               ) : (
                 pricings.map((pricing) => (
                   <View key={pricing.id} style={styles.pricingItem}>
@@ -815,11 +658,11 @@ const ServiceDetails = () => {
                         <View style={styles.pricingAmountContainer}>
                           {pricing.discount > 0 && (
                             <Text style={styles.pricingOriginalAmount}>
-                              ${pricing.amount.toFixed(2)}
+                              {formatCurrency(pricing.amount)}
                             </Text>
                           )}
                           <Text style={styles.pricingAmount}>
-                            ${(pricing.amount - pricing.discount).toFixed(2)}
+                            {formatCurrency(pricing.amount - pricing.discount)}
                           </Text>
                         </View>
                       </View>
@@ -830,7 +673,7 @@ const ServiceDetails = () => {
                       {pricing.discount > 0 ? (
                         <View style={styles.discountBadge}>
                           <Text style={styles.discountText}>
-                            ${pricing.discount.toFixed(2)} discount
+                            {t('serviceDetails.discountAmount', { amount: formatCurrency(pricing.discount) })}
                           </Text>
                         </View>
                       ) : (
@@ -843,7 +686,7 @@ const ServiceDetails = () => {
                           activeOpacity={0.8}
                         >
                           <Ionicons name="create-outline" size={16} color={colors.text.inverse} />
-                          <Text style={styles.pricingUpdateButtonText}>Update</Text>
+                          <Text style={styles.pricingUpdateButtonText}>{t('serviceDetails.update')}</Text>
                         </TouchableOpacity>
                         <TouchableOpacity
                           style={styles.pricingDeleteButton}
@@ -851,7 +694,7 @@ const ServiceDetails = () => {
                           activeOpacity={0.8}
                         >
                           <Ionicons name="trash-outline" size={16} color={colors.text.inverse} />
-                          <Text style={styles.pricingDeleteButtonText}>Delete</Text>
+                          <Text style={styles.pricingDeleteButtonText}>{t('serviceDetails.delete')}</Text>
                         </TouchableOpacity>
                       </View>
 
@@ -886,7 +729,7 @@ const ServiceDetails = () => {
             disabled={true}
           >
             <Ionicons name="trash-outline" size={24} color={colors.text.inverse} />
-            <Text style={styles.deleteButtonText}>Delete Service</Text>
+            <Text style={styles.deleteButtonText}>{t('serviceDetails.deleteTitle')}</Text>
           </TouchableOpacity> */}
         </View>
       </ScrollView>
@@ -900,9 +743,9 @@ const ServiceDetails = () => {
       >
         <View style={styles.modalOverlay}>
           <View style={styles.modalContent}>
-            <Text style={styles.modalTitle}>Change Service Visibility</Text>
+            <Text style={styles.modalTitle}>{t('serviceDetails.visibilityTitle')}</Text>
             <Text style={styles.modalDescription}>
-              Choose whether this service should be public or private.
+              {t('serviceDetails.visibilityMessage')}
             </Text>
 
             <View style={styles.visibilityOptions}>
@@ -927,7 +770,7 @@ const ServiceDetails = () => {
                       service?.isPublic && styles.visibilityOptionTitleActive
                     ]}
                   >
-                    Public
+                    {t('serviceDetails.public')}
                   </Text>
                   <Text
                     style={[
@@ -935,7 +778,7 @@ const ServiceDetails = () => {
                       service?.isPublic && styles.visibilityOptionDescriptionActive
                     ]}
                   >
-                    Visible to everyone
+                    {t('serviceDetails.publicDescription')}
                   </Text>
                 </View>
                 {service?.isPublic && (
@@ -968,7 +811,7 @@ const ServiceDetails = () => {
                       !service?.isPublic && styles.visibilityOptionTitleActive
                     ]}
                   >
-                    Private
+                    {t('common.private')}
                   </Text>
                   <Text
                     style={[
@@ -976,7 +819,7 @@ const ServiceDetails = () => {
                       !service?.isPublic && styles.visibilityOptionDescriptionActive
                     ]}
                   >
-                    Only visible to you
+                    {t('serviceDetails.privateDescription')}
                   </Text>
                 </View>
                 {!service?.isPublic && (
@@ -992,7 +835,7 @@ const ServiceDetails = () => {
             {isUpdatingVisibility && (
               <View style={styles.modalLoading}>
                 <ActivityIndicator size="small" color={colors.primary.green} />
-                <Text style={styles.modalLoadingText}>Updating...</Text>
+                <Text style={styles.modalLoadingText}>{t('serviceDetails.updating')}</Text>
               </View>
             )}
 
@@ -1002,7 +845,7 @@ const ServiceDetails = () => {
               disabled={isUpdatingVisibility}
               activeOpacity={0.7}
             >
-              <Text style={styles.modalCloseButtonText}>Cancel</Text>
+              <Text style={styles.modalCloseButtonText}>{t('common.cancel')}</Text>
             </TouchableOpacity>
           </View>
         </View>
@@ -1022,18 +865,18 @@ const ServiceDetails = () => {
         <View style={styles.modalOverlay}>
           <View style={styles.modalContent}>
             <Text style={styles.modalTitle}>
-              {editingTag ? 'Edit Tag' : 'Add Tags'}
+              {editingTag ? t('serviceDetails.editTag') : t('serviceDetails.addTags')}
             </Text>
             <Text style={styles.modalDescription}>
               {editingTag
-                ? 'Update the tag name below.'
-                : 'Enter tag names separated by commas (e.g., mechanical, usv cars, brigg)'}
+                ? t('serviceDetails.editTagMessage')
+                : t('serviceDetails.addTagsMessage')}
             </Text>
 
             <View style={styles.tagInputContainer}>
               <TextInput
                 style={styles.tagInput}
-                placeholder="Enter tag name(s)"
+                placeholder={t('serviceDetails.tagPlaceholder')}
                 placeholderTextColor={colors.neutral.gray.medium}
                 value={tagInput}
                 onChangeText={setTagInput}
@@ -1046,7 +889,7 @@ const ServiceDetails = () => {
             {isSavingTag && (
               <View style={styles.modalLoading}>
                 <ActivityIndicator size="small" color={colors.primary.green} />
-                <Text style={styles.modalLoadingText}>Saving...</Text>
+                <Text style={styles.modalLoadingText}>{t('serviceDetails.saving')}</Text>
               </View>
             )}
 
@@ -1061,7 +904,7 @@ const ServiceDetails = () => {
                 disabled={isSavingTag}
                 activeOpacity={0.7}
               >
-                <Text style={styles.tagModalCancelButtonText}>Cancel</Text>
+                <Text style={styles.tagModalCancelButtonText}>{t('common.cancel')}</Text>
               </TouchableOpacity>
               <TouchableOpacity
                 style={[styles.tagModalButton, styles.tagModalSaveButton]}
@@ -1070,7 +913,7 @@ const ServiceDetails = () => {
                 activeOpacity={0.7}
               >
                 <Text style={styles.tagModalSaveButtonText}>
-                  {editingTag ? 'Update' : 'Add'}
+                  {editingTag ? t('serviceDetails.update') : t('serviceDetails.add')}
                 </Text>
               </TouchableOpacity>
             </View>
@@ -1097,20 +940,20 @@ const ServiceDetails = () => {
         <View style={styles.modalOverlay}>
           <View style={styles.modalContent}>
             <Text style={styles.modalTitle}>
-              {editingPricing ? 'Edit Pricing' : 'Add Pricing'}
+              {editingPricing ? t('serviceDetails.editPricing') : t('serviceDetails.addPricing')}
             </Text>
             <Text style={styles.modalDescription}>
               {editingPricing
-                ? 'Update the pricing details below.'
-                : 'Enter the pricing details for this service.'}
+                ? t('serviceDetails.editPricingMessage')
+                : t('serviceDetails.addPricingMessage')}
             </Text>
 
             <View style={styles.pricingFormContainer}>
               <View style={styles.pricingFormField}>
-                <Text style={styles.pricingFormLabel}>Name *</Text>
+                <Text style={styles.pricingFormLabel}>{t('serviceDetails.nameLabel')}</Text>
                 <TextInput
                   style={styles.pricingFormInput}
-                  placeholder="e.g., General Service"
+                  placeholder={t('serviceDetails.pricingNamePlaceholder')}
                   placeholderTextColor={colors.neutral.gray.medium}
                   value={pricingForm.name}
                   onChangeText={(text) => setPricingForm((prev) => ({ ...prev, name: text }))}
@@ -1119,10 +962,10 @@ const ServiceDetails = () => {
               </View>
 
               <View style={styles.pricingFormField}>
-                <Text style={styles.pricingFormLabel}>Description</Text>
+                <Text style={styles.pricingFormLabel}>{t('serviceDetails.description')}</Text>
                 <TextInput
                   style={[styles.pricingFormInput, styles.pricingFormTextArea]}
-                  placeholder="Enter description"
+                  placeholder={t('serviceDetails.descriptionPlaceholder')}
                   placeholderTextColor={colors.neutral.gray.medium}
                   value={pricingForm.description}
                   onChangeText={(text) => setPricingForm((prev) => ({ ...prev, description: text }))}
@@ -1133,7 +976,7 @@ const ServiceDetails = () => {
 
               <View style={styles.pricingFormRow}>
                 <View style={[styles.pricingFormField, { flex: 1, marginRight: 8 }]}>
-                  <Text style={styles.pricingFormLabel}>Amount *</Text>
+                  <Text style={styles.pricingFormLabel}>{t('serviceDetails.amountLabel')}</Text>
                   <View style={styles.pricingFormInputWithPrefix}>
                     <Text style={styles.pricingFormPrefix}>$</Text>
                     <TextInput
@@ -1148,7 +991,7 @@ const ServiceDetails = () => {
                 </View>
 
                 <View style={[styles.pricingFormField, { flex: 1, marginLeft: 8 }]}>
-                  <Text style={styles.pricingFormLabel}>Discount</Text>
+                  <Text style={styles.pricingFormLabel}>{t('serviceDetails.discount')}</Text>
                   <View style={styles.pricingFormInputWithPrefix}>
                     <Text style={styles.pricingFormPrefix}>$</Text>
                     <TextInput
@@ -1165,9 +1008,9 @@ const ServiceDetails = () => {
 
               {pricingForm.amount && !isNaN(Number(pricingForm.amount)) && (
                 <View style={styles.pricingSummary}>
-                  <Text style={styles.pricingSummaryLabel}>Total Amount:</Text>
+                  <Text style={styles.pricingSummaryLabel}>{t('serviceDetails.totalAmount')}</Text>
                   <Text style={styles.pricingSummaryAmount}>
-                    ${(Number(pricingForm.amount) - (Number(pricingForm.discount) || 0)).toFixed(2)}
+                    {formatCurrency(Number(pricingForm.amount) - (Number(pricingForm.discount) || 0))}
                   </Text>
                 </View>
               )}
@@ -1176,7 +1019,7 @@ const ServiceDetails = () => {
             {isSavingPricing && (
               <View style={styles.modalLoading}>
                 <ActivityIndicator size="small" color={colors.primary.green} />
-                <Text style={styles.modalLoadingText}>Saving...</Text>
+                <Text style={styles.modalLoadingText}>{t('serviceDetails.saving')}</Text>
               </View>
             )}
 
@@ -1196,7 +1039,7 @@ const ServiceDetails = () => {
                 disabled={isSavingPricing}
                 activeOpacity={0.7}
               >
-                <Text style={styles.tagModalCancelButtonText}>Cancel</Text>
+                <Text style={styles.tagModalCancelButtonText}>{t('common.cancel')}</Text>
               </TouchableOpacity>
               <TouchableOpacity
                 style={[styles.tagModalButton, styles.tagModalSaveButton]}
@@ -1205,7 +1048,7 @@ const ServiceDetails = () => {
                 activeOpacity={0.7}
               >
                 <Text style={styles.tagModalSaveButtonText}>
-                  {editingPricing ? 'Update' : 'Add'}
+                  {editingPricing ? t('serviceDetails.update') : t('serviceDetails.add')}
                 </Text>
               </TouchableOpacity>
             </View>
@@ -1216,7 +1059,7 @@ const ServiceDetails = () => {
   );
 };
 
-export default ServiceDetails;
+export default withPermission(ServiceDetails, PERMISSIONS.viewServices);
 
 const styles = StyleSheet.create({
   container: {
@@ -1,11 +1,19 @@
 import Skeleton from '@/components/Skeleton';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
-import { useAuthStore } from '@/store/authStore';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { useResourceUri } from '@/hooks/useResourceUri';
+import { useTranslation } from '@/hooks/useTranslation';
+import {
+  isAbortError,
+  ServiceDetails,
+  ServicePricing as Pricing,
+  services as servicesApi,
+  ServiceTag as Tag,
+} from '@/services';
 import { formatDate } from '@/utils/date';
+import { formatCurrency } from '@/utils/number';
 import { Ionicons } from '@expo/vector-icons';
-import Constants from 'expo-constants';
 import { LinearGradient } from 'expo-linear-gradient';
 import { router, useLocalSearchParams } from 'expo-router';
 import React, { useCallback, useEffect, useState } from 'react';
@@ -19,131 +27,22 @@ import {
   View
 } from 'react-native';
 
-interface ServiceMode {
-  id: number;
-  name: string;
-  isActive: boolean;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface ThumbNail {
-  id: string;
-  name: string;
-  systemName: string;
-  fileSize: number;
-  mimeType: string;
-  fileSource: string;
-  userId: string;
-  deleted: boolean;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface Staff {
-  id: string;
-  firstName: string;
-  middleName: string;
-  lastName: string;
-  email: string;
-  phone: number;
-  country: string | null;
-  userNumber: string;
-  gender: number;
-  birthDate: string;
-  verified: boolean;
-  active: boolean;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface ServiceDetails {
-  id: string;
-  organizationId: string;
-  name: string;
-  description: string;
-  isPublic: boolean;
-  isDeleted: boolean;
-  modeId: number;
-  staffId: string;
-  thumbNailId: string | null;
-  thumbNail: ThumbNail | null;
-  staff: Staff;
-  mode: ServiceMode;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface Tag {
-  id: string;
-  serviceId: string;
-  name: string;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface Pricing {
-  id: string;
-  name: string;
-  description: string;
-  amount: number;
-  discount: number;
-  organizationId: string;
-  serviceId: string;
-  isDeleted: boolean;
-  createdAt: number;
-  updatedAt: number;
-}
-
 const ServiceDetailsSummary = () => {
+  const { t } = useTranslation();
   const { serviceId } = useLocalSearchParams<{ serviceId: string }>();
   const [service, setService] = useState<ServiceDetails | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [bannerUri, setBannerUri] = useState<string | null>(null);
-  const [isLoadingBanner, setIsLoadingBanner] = useState(false);
   const [tags, setTags] = useState<Tag[]>([]);
   const [isLoadingTags, setIsLoadingTags] = useState(false);
   const [pricings, setPricings] = useState<Pricing[]>([]);
   const [isLoadingPricings, setIsLoadingPricings] = useState(false);
-
-  const getImageUri = useCallback(async (systemName: string): Promise<void> => {
-    setIsLoadingBanner(true);
-    try {
-      const API_DOMAIN = Constants.expoConfig?.extra?.apiDomain as string | undefined || '';
-      const authToken = useAuthStore.getState().token;
-
-      const response = await fetch(`${API_DOMAIN}/file/resource/${systemName}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${authToken}`,
-        },
-      });
-
-      if (!response.ok) {
-        setIsLoadingBanner(false);
-        return;
-      }
-
-      const blob = await response.blob();
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const dataUri = reader.result as string;
-        setBannerUri(dataUri);
-        setIsLoadingBanner(false);
-      };
-      reader.onerror = () => {
-        setIsLoadingBanner(false);
-      };
-      reader.readAsDataURL(blob);
-    } catch (err) {
-      setIsLoadingBanner(false);
-    }
-  }, []);
+  const getSignal = useAbortSignal();
+  const { uri: bannerUri, isLoading: isLoadingBanner } = useResourceUri(service?.thumbNail?.systemName);
 
   const fetchServiceDetails = useCallback(async () => {
     if (!serviceId) {
-      setError('Service ID is required');
+      setError(t('serviceForm.idRequired'));
       setIsLoading(false);
       return;
     }
@@ -151,24 +50,21 @@ const ServiceDetailsSummary = () => {
     setIsLoading(true);
     setError(null);
 
+    const signal = getSignal();
     try {
-      const response = await api.get<ServiceDetails>(`/en/on/service/${serviceId}`, {
-        requiresAuth: true,
-      });
-
-      const serviceData = response.data;
+      const serviceData = await servicesApi.get(serviceId, { signal });
       setService(serviceData);
-
-      // Load banner image if thumbnail exists
-      if (serviceData.thumbNail?.systemName) {
-        getImageUri(serviceData.thumbNail.systemName);
-      }
     } catch (err: any) {
-      setError(err?.message || 'Failed to load service details. Please try again.');
+      if (isAbortError(err)) {
+        return;
+      }
+      setError(err?.message || t('serviceDetails.loadFailed'));
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
-  }, [serviceId, getImageUri]);
+  }, [serviceId, getSignal, t]);
 
   useEffect(() => {
     fetchServiceDetails();
@@ -178,34 +74,42 @@ const ServiceDetailsSummary = () => {
     if (!serviceId) return;
 
     setIsLoadingTags(true);
+    const signal = getSignal();
     try {
-      const response = await api.get<Tag[]>(`/en/on/service/${serviceId}/tags`, {
-        requiresAuth: true,
-      });
-      setTags(response.data || []);
+      const serviceTags = await servicesApi.tags(serviceId, { signal });
+      setTags(serviceTags || []);
     } catch (err: any) {
+      if (isAbortError(err)) {
+        return;
+      }
       console.error('Failed to fetch tags:', err);
       setTags([]);
     } finally {
-      setIsLoadingTags(false);
+      if (!signal.aborted) {
+        setIsLoadingTags(false);
+      }
     }
-  }, [serviceId]);
+  }, [serviceId, getSignal]);
 
   const fetchPricings = useCallback(async () => {
     if (!serviceId) return;
 
     setIsLoadingPricings(true);
+    const signal = getSignal();
     try {
-      const response = await api.get<Pricing[]>(`/en/on/service/${serviceId}/pricing`, {
-        requiresAuth: true,
-      });
-      setPricings(response.data || []);
+      const servicePricing = await servicesApi.pricing(serviceId, { signal });
+      setPricings(servicePricing || []);
     } catch (err: any) {
+      if (isAbortError(err)) {
+        return;
+      }
       setPricings([]);
     } finally {
-      setIsLoadingPricings(false);
+      if (!signal.aborted) {
+        setIsLoadingPricings(false);
+      }
     }
-  }, [serviceId]);
+  }, [serviceId, getSignal]);
 
   useEffect(() => {
     if (serviceId && service) {
@@ -220,7 +124,7 @@ const ServiceDetailsSummary = () => {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color={colors.primary.green} />
-        <Text style={styles.loadingText}>Loading service details...</Text>
+        <Text style={styles.loadingText}>{t('serviceDetails.loadingDetails')}</Text>
       </View>
     );
   }
@@ -229,20 +133,20 @@ const ServiceDetailsSummary = () => {
     return (
       <View style={styles.errorContainer}>
         <Ionicons name="alert-circle-outline" size={64} color={colors.semantic.error} />
-        <Text style={styles.errorText}>{error || 'Service not found'}</Text>
+        <Text style={styles.errorText}>{error || t('serviceDetails.notFound')}</Text>
         <TouchableOpacity
           style={styles.retryButton}
           onPress={fetchServiceDetails}
           activeOpacity={0.7}
         >
-          <Text style={styles.retryButtonText}>Retry</Text>
+          <Text style={styles.retryButtonText}>{t('common.retry')}</Text>
         </TouchableOpacity>
         <TouchableOpacity
           style={styles.backButton}
           onPress={() => router.back()}
           activeOpacity={0.7}
         >
-          <Text style={styles.backButtonText}>Go Back</Text>
+          <Text style={styles.backButtonText}>{t('common.goBack')}</Text>
         </TouchableOpacity>
       </View>
     );
@@ -347,7 +251,7 @@ const ServiceDetailsSummary = () => {
                 service.isPublic ? styles.publicBadgeText : styles.privateBadgeText
               ]}
             >
-              {service.isPublic ? 'Public' : 'Private'}
+              {service.isPublic ? t('serviceDetails.public') : t('common.private')}
             </Text>
           </View>
         </View>
@@ -355,7 +259,7 @@ const ServiceDetailsSummary = () => {
         {/* Pricing */}
         {pricings.length > 0 && (
           <View style={styles.section}>
-            <Text style={styles.sectionTitle}>Pricing</Text>
+            <Text style={styles.sectionTitle}>{t('serviceDetails.pricing')}</Text>
             <View style={styles.pricingContainer}>
               {isLoadingPricings ? (
                 <ActivityIndicator size="small" color={colors.primary.green} />
@@ -367,11 +271,11 @@ const ServiceDetailsSummary = () => {
                       <View style={styles.pricingAmountContainer}>
                         {pricing.discount > 0 && (
                           <Text style={styles.pricingOriginalAmount}>
-                            ${pricing.amount.toFixed(2)}
+                            {formatCurrency(pricing.amount)}
                           </Text>
                         )}
                         <Text style={styles.pricingAmount}>
-                          ${(pricing.amount - pricing.discount).toFixed(2)}
+                          {formatCurrency(pricing.amount - pricing.discount)}
                         </Text>
                       </View>
                     </View>
@@ -381,7 +285,7 @@ const ServiceDetailsSummary = () => {
                     {pricing.discount > 0 && (
                       <View style={styles.discountBadge}>
                         <Text style={styles.discountText}>
-                          ${pricing.discount.toFixed(2)} discount
+                          {formatCurrency(pricing.discount)} discount
                         </Text>
                       </View>
                     )}
@@ -395,7 +299,7 @@ const ServiceDetailsSummary = () => {
         {/* Tags */}
         {tags.length > 0 && (
           <View style={styles.section}>
-            <Text style={styles.sectionTitle}>Tags</Text>
+            <Text style={styles.sectionTitle}>{t('serviceDetails.tags')}</Text>
             <View style={styles.tagsContainer}>
               {isLoadingTags ? (
                 <ActivityIndicator size="small" color={colors.primary.green} />
@@ -420,7 +324,7 @@ const ServiceDetailsSummary = () => {
               </Text>
             </View>
             <View style={styles.staffInfo}>
-              <Text style={styles.metadataLabel}>Created By</Text>
+              <Text style={styles.metadataLabel}>{t('serviceDetails.createdBy')}</Text>
               <Text style={styles.staffName}>
                 {service.staff.firstName} {service.staff.lastName}
               </Text>
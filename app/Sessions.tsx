@@ -0,0 +1,306 @@
+import Button from '@/components/Button';
+import Skeleton from '@/components/Skeleton';
+import { colors } from '@/constants/colors';
+import { fonts } from '@/constants/fonts';
+import { useMutation, useQuery } from '@/hooks/useQuery';
+import { useTranslation } from '@/hooks/useTranslation';
+import { TranslationKey } from '@/i18n';
+import { Session, sessions as sessionsApi } from '@/services';
+import { queryKeys } from '@/services/queryKeys';
+import { formatDate, formatRelativeTime } from '@/utils/date';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, RefreshControl, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+const PLATFORMS: Record<string, { icon: keyof typeof Ionicons.glyphMap; label: TranslationKey }> = {
+  ios: { icon: 'phone-portrait-outline', label: 'sessions.platforms.ios' },
+  android: { icon: 'phone-portrait-outline', label: 'sessions.platforms.android' },
+  web: { icon: 'desktop-outline', label: 'sessions.platforms.web' },
+};
+
+const Sessions = () => {
+  const { data: sessions, error, isLoading, isRefreshing, refresh } = useQuery(queryKeys.sessions.list(), ({ signal }) =>
+    sessionsApi.list({ signal })
+  );
+  const { mutate: revoke } = useMutation((sessionId: string) => sessionsApi.revoke(sessionId), {
+    invalidates: [queryKeys.sessions.list()],
+  });
+  const { mutate: revokeOthers, isPending: isRevokingOthers } = useMutation(() => sessionsApi.revokeOthers(), {
+    invalidates: [queryKeys.sessions.list()],
+  });
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const { t } = useTranslation();
+
+  const otherSessions = sessions?.filter((session) => !session.isCurrent) ?? [];
+
+  const handleRevoke = (session: Session) => {
+    Alert.alert(t('sessions.revokeTitle'), t('sessions.revokeMessage', { device: session.deviceName }), [
+      {
+        text: t('common.cancel'),
+        style: 'cancel',
+      },
+      {
+        text: t('sessions.revoke'),
+        style: 'destructive',
+        onPress: async () => {
+          setRevokingId(session.id);
+          try {
+            await revoke(session.id);
+          } catch (err: any) {
+            Alert.alert(t('sessions.revokeFailed'), err?.message);
+          } finally {
+            setRevokingId(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleRevokeOthers = () => {
+    Alert.alert(t('sessions.revokeOthersTitle'), t('sessions.revokeOthersMessage', { count: otherSessions.length }), [
+      {
+        text: t('common.cancel'),
+        style: 'cancel',
+      },
+      {
+        text: t('sessions.revokeOthers'),
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await revokeOthers();
+          } catch (err: any) {
+            Alert.alert(t('sessions.revokeFailed'), err?.message);
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderSession = (session: Session) => {
+    const platform = PLATFORMS[session.platform];
+
+    return (
+      <View key={session.id} style={[styles.sessionCard, session.isCurrent && styles.currentSessionCard]}>
+        <Ionicons
+          name={platform?.icon ?? 'hardware-chip-outline'}
+          size={28}
+          color={session.isCurrent ? colors.primary.green : colors.neutral.gray.medium}
+        />
+        <View style={styles.sessionContent}>
+          <View style={styles.sessionTitleRow}>
+            <Text style={styles.deviceName} numberOfLines={1}>
+              {session.deviceName}
+            </Text>
+            {session.isCurrent && (
+              <View style={styles.currentBadge}>
+                <Text style={styles.currentBadgeText}>{t('sessions.thisDevice')}</Text>
+              </View>
+            )}
+          </View>
+          <Text style={styles.sessionDetail}>
+            {[platform ? t(platform.label) : session.platform, session.appVersion]
+              .filter(Boolean)
+              .join(' · ')}
+          </Text>
+          <Text style={styles.sessionDetail}>
+            {session.branch ? t('sessions.branch', { branch: session.branch.name }) : t('sessions.noBranch')}
+          </Text>
+          <Text style={styles.sessionDetail}>
+            {session.isCurrent
+              ? t('sessions.activeNow')
+              : t('sessions.lastSeen', { time: formatRelativeTime(session.lastSeenAt) })}
+            {' · '}
+            {t('sessions.signedIn', { date: formatDate(session.createdAt) })}
+          </Text>
+        </View>
+        {!session.isCurrent &&
+          (revokingId === session.id ? (
+            <ActivityIndicator size="small" color={colors.semantic.error} />
+          ) : (
+            <TouchableOpacity
+              onPress={() => handleRevoke(session)}
+              activeOpacity={0.7}
+              accessibilityLabel={t('sessions.revoke')}
+            >
+              <Ionicons name="log-out-outline" size={24} color={colors.semantic.error} />
+            </TouchableOpacity>
+          ))}
+      </View>
+    );
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.skeletons}>
+          {[0, 1, 2].map((index) => (
+            <Skeleton key={index} width="100%" height={96} borderRadius={12} />
+          ))}
+        </View>
+      );
+    }
+
+    if (error || !sessions) {
+      return (
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorText}>{error?.message || t('sessions.loadFailed')}</Text>
+          <Button title={t('common.retry')} variant="text" onPress={refresh} />
+        </View>
+      );
+    }
+
+    return (
+      <View>
+        {sessions.map(renderSession)}
+
+        {otherSessions.length > 0 ? (
+          <Button
+            title={t('sessions.revokeOthers')}
+            variant="outline-danger"
+            onPress={handleRevokeOthers}
+            loading={isRevokingOthers}
+            disabled={isRevokingOthers}
+            style={styles.revokeOthersButton}
+          />
+        ) : (
+          <Text style={styles.emptyText}>{t('sessions.noOtherSessions')}</Text>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView
+      contentContainerStyle={styles.scrollContent}
+      showsVerticalScrollIndicator={false}
+      refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={refresh} />}
+    >
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()} activeOpacity={0.7}>
+          <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('sessions.title')}</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <Text style={styles.subtitle}>{t('sessions.subtitle')}</Text>
+
+      {renderContent()}
+    </ScrollView>
+  );
+};
+
+export default Sessions;
+
+const styles = StyleSheet.create({
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.primary,
+    flex: 1,
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  subtitle: {
+    fontSize: 14,
+    fontFamily: fonts.weights.regular,
+    color: colors.neutral.gray.medium,
+    lineHeight: 20,
+    marginBottom: 24,
+  },
+  skeletons: {
+    gap: 12,
+  },
+  sessionCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 14,
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.neutral.gray.lighter,
+    backgroundColor: colors.background.secondary,
+  },
+  currentSessionCard: {
+    borderColor: colors.primary.green,
+  },
+  sessionContent: {
+    flex: 1,
+  },
+  sessionTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
+  deviceName: {
+    flexShrink: 1,
+    fontSize: 16,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.primary,
+  },
+  currentBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: colors.primary.green,
+  },
+  currentBadgeText: {
+    fontSize: 11,
+    fontFamily: fonts.weights.semiBold,
+    color: colors.text.inverse,
+  },
+  sessionDetail: {
+    fontSize: 13,
+    fontFamily: fonts.weights.regular,
+    color: colors.neutral.gray.medium,
+    marginTop: 2,
+  },
+  revokeOthersButton: {
+    marginTop: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: fonts.weights.regular,
+    color: colors.neutral.gray.medium,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  errorContainer: {
+    marginBottom: 16,
+    padding: 12,
+    backgroundColor: '#FEE2E2',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.semantic.error,
+  },
+  errorText: {
+    fontSize: 14,
+    fontFamily: fonts.weights.medium,
+    color: colors.semantic.error,
+    textAlign: 'center',
+  },
+});
@@ -1,14 +1,21 @@
 import DateTimePicker from '@/components/DateTimePicker';
 import Input from '@/components/Input';
+import PermissionButton from '@/components/PermissionButton';
+import { withPermission } from '@/components/PermissionGuard';
 import Skeleton from '@/components/Skeleton';
 import Toast, { ToastType } from '@/components/Toast';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
+import { PERMISSIONS } from '@/constants/permissions';
+import { useLatestEntities } from '@/hooks/useEntities';
+import { useMutation, useQuery } from '@/hooks/useQuery';
+import { useTranslation } from '@/hooks/useTranslation';
+import { getErrorFieldErrors, OrganizationStaff, staff as staffApi, UserProfile } from '@/services';
+import { queryKeys } from '@/services/queryKeys';
 import { staffSchema, validateForm } from '@/validators';
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
-import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
   KeyboardAvoidingView,
@@ -23,41 +30,19 @@ import {
   View,
 } from 'react-native';
 
-interface Staff {
-  id: string;
-  firstName: string;
-  middleName: string;
-  lastName: string;
-  email: string;
-  phone: number;
-  country: string | null;
-  userNumber: string;
-  gender: number; // 1 = male, 2 = female, 3 = transgender
-  birthDate: string;
-  verified: boolean;
-  active: boolean;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface OrganizationStaff {
-  id: string;
-  organizationId: string;
-  userId: string;
-  staff: Staff;
-  createdAt: number;
-  updatedAt: number;
-}
-
 const Staffs = () => {
-  const [staffs, setStaffs] = useState<OrganizationStaff[]>([]);
-  const [filteredStaffs, setFilteredStaffs] = useState<OrganizationStaff[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const { t } = useTranslation();
+  const {
+    data: fetchedStaffs,
+    error: staffsError,
+    isLoading,
+    isRefreshing,
+    refresh,
+  } = useQuery(queryKeys.staff.list(), staffApi.list);
+  const staffs = useLatestEntities('staff', fetchedStaffs);
+  const error = staffsError ? staffsError.message || t('staff.loadFailed') : null;
   const [searchQuery, setSearchQuery] = useState('');
   const [isAddModalVisible, setIsAddModalVisible] = useState(false);
-  const [isCreating, setIsCreating] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: ToastType; visible: boolean }>({
     message: '',
     type: 'info',
@@ -98,92 +83,53 @@ const Staffs = () => {
     return validation.isValid;
   }, [formData, formatDateForAPI]);
 
-  useEffect(() => {
+  const { mutate: createStaff, isPending: isCreating } = useMutation(staffApi.create, {
+    invalidates: [queryKeys.staff.list()],
+  });
+
+  const filteredStaffs = useMemo(() => {
     // Filter staffs based on search query
+    const allStaffs = staffs || [];
     if (searchQuery.trim() === '') {
-      setFilteredStaffs(staffs);
-    } else {
-      const filtered = staffs.filter(
-        (orgStaff) => {
-          const staff = orgStaff.staff;
-          const searchLower = searchQuery.toLowerCase();
-          return (
-            staff.firstName.toLowerCase().includes(searchLower) ||
-            staff.lastName.toLowerCase().includes(searchLower) ||
-            staff.email.toLowerCase().includes(searchLower) ||
-            staff.userNumber.toLowerCase().includes(searchLower) ||
-            staff.phone.toString().includes(searchQuery)
-          );
-        }
-      );
-      setFilteredStaffs(filtered);
+      return allStaffs;
     }
+    return allStaffs.filter(
+      (orgStaff) => {
+        const staff = orgStaff.staff;
+        const searchLower = searchQuery.toLowerCase();
+        return (
+          staff.firstName.toLowerCase().includes(searchLower) ||
+          staff.lastName.toLowerCase().includes(searchLower) ||
+          staff.email.toLowerCase().includes(searchLower) ||
+          staff.userNumber.toLowerCase().includes(searchLower) ||
+          staff.phone.toString().includes(searchQuery)
+        );
+      }
+    );
   }, [searchQuery, staffs]);
 
-  const fetchStaffs = useCallback(async () => {
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      const response = await api.get<OrganizationStaff[]>('/en/on/staffs', {
-        requiresAuth: true,
-      });
-
-      const staffsData = response.data || [];
-      setStaffs(staffsData);
-      setFilteredStaffs(staffsData);
-    } catch (err: any) {
-      setError(err?.message || 'Failed to load staffs. Please try again.');
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
-
-  useEffect(() => {
-    fetchStaffs();
-  }, [fetchStaffs]);
-
-  const handleRefresh = useCallback(async () => {
-    setIsRefreshing(true);
-    setError(null);
-
-    try {
-      const response = await api.get<OrganizationStaff[]>('/en/on/staffs', {
-        requiresAuth: true,
-      });
-
-      const staffsData = response.data || [];
-      setStaffs(staffsData);
-      setFilteredStaffs(staffsData);
-    } catch (err: any) {
-      setError(err?.message || 'Failed to refresh staffs. Please try again.');
-    } finally {
-      setIsRefreshing(false);
-    }
-  }, []);
-
-  const getStaffInitials = (staff: Staff): string => {
+  const getStaffInitials = (staff: UserProfile): string => {
     const firstName = staff.firstName || '';
     const lastName = staff.lastName || '';
     return `${firstName.charAt(0)}${lastName.charAt(0)}`.toUpperCase() || 'S';
   };
 
-  const getStaffName = (staff: Staff): string => {
+  const getStaffName = (staff: UserProfile): string => {
     return [staff.firstName, staff.middleName, staff.lastName]
       .filter(Boolean)
-      .join(' ') || staff.email || 'Staff';
+      .join(' ') || staff.email || t('staff.fallbackName');
   };
 
   const getGenderLabel = (gender: number): string => {
     switch (gender) {
       case 1:
-        return 'Male';
+        return t('staff.male');
       case 2:
-        return 'Female';
+        return t('staff.female');
       case 3:
-        return 'Transgender';
+        return t('staff.transgender');
       default:
-        return 'Unknown';
+        return t('staff.unknown');
     }
   };
 
@@ -239,7 +185,6 @@ const Staffs = () => {
       return;
     }
 
-    setIsCreating(true);
     try {
       const payload = {
         firstName: formData.firstName.trim(),
@@ -251,21 +196,14 @@ const Staffs = () => {
         gender: formData.gender,
       };
 
-      await api.post('/en/on/create/staff', payload, {
-        requiresAuth: true,
-      });
+      await createStaff(payload);
 
-      showToast('Staff created successfully', 'success');
+      showToast(t('staff.created'), 'success');
       handleCloseAddModal();
-      await fetchStaffs(); // Refresh the list
     } catch (err: any) {
-      const errorMessage = err?.message || 'Failed to create staff. Please try again.';
+      const errorMessage = err?.message || t('staff.createFailed');
       showToast(errorMessage, 'error');
-      if (err?.data?.errors) {
-        setFormErrors(err.data.errors);
-      }
-    } finally {
-      setIsCreating(false);
+      setFormErrors(getErrorFieldErrors(err));
     }
   };
 
@@ -288,22 +226,34 @@ const Staffs = () => {
           >
             <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
           </TouchableOpacity>
-          <Text style={styles.headerTitle}>Staffs</Text>
+          <Text style={styles.headerTitle}>{t('staff.title')}</Text>
           <View style={styles.headerRight}>
             {/* <TouchableOpacity
               style={styles.iconButton}
-              onPress={fetchStaffs}
+              onPress={refresh}
               activeOpacity={0.7}
             >
               <Ionicons name="refresh" size={24} color={colors.primary.green} />
             </TouchableOpacity> */}
-            <TouchableOpacity
+            <PermissionButton
+              permission={PERMISSIONS.manageStaff}
+              hideWhenNoPermission
+              style={styles.iconButton}
+              onPress={() => router.push('/RoleTemplates')}
+              activeOpacity={0.7}
+              accessibilityLabel={t('roleTemplates.title')}
+            >
+              <Ionicons name="shield-checkmark-outline" size={24} color={colors.primary.green} />
+            </PermissionButton>
+            <PermissionButton
+              permission={PERMISSIONS.manageStaff}
+              hideWhenNoPermission
               style={styles.addButton}
               onPress={handleOpenAddModal}
               activeOpacity={0.7}
             >
               <Ionicons name="add" size={24} color={colors.text.inverse} />
-            </TouchableOpacity>
+            </PermissionButton>
           </View>
         </View>
 
@@ -318,7 +268,7 @@ const Staffs = () => {
             />
             <TextInput
               style={styles.searchInput}
-              placeholder="Search staffs..."
+              placeholder={t('staffPermissions.searchStaff')}
               placeholderTextColor={colors.neutral.gray.medium}
               value={searchQuery}
               onChangeText={setSearchQuery}
@@ -362,8 +312,8 @@ const Staffs = () => {
           <View style={styles.errorContainer}>
             <Ionicons name="alert-circle-outline" size={48} color={colors.semantic.error} />
             <Text style={styles.errorMessageText}>{error}</Text>
-            <TouchableOpacity style={styles.retryButton} onPress={fetchStaffs} activeOpacity={0.7}>
-              <Text style={styles.retryButtonText}>Retry</Text>
+            <TouchableOpacity style={styles.retryButton} onPress={refresh} activeOpacity={0.7}>
+              <Text style={styles.retryButtonText}>{t('common.retry')}</Text>
             </TouchableOpacity>
           </View>
         )}
@@ -377,7 +327,7 @@ const Staffs = () => {
             refreshControl={
               <RefreshControl
                 refreshing={isRefreshing}
-                onRefresh={handleRefresh}
+                onRefresh={refresh}
                 colors={[colors.primary.green]}
                 tintColor={colors.primary.green}
               />
@@ -387,7 +337,7 @@ const Staffs = () => {
               <View style={styles.emptyContainer}>
                 <Ionicons name="people-outline" size={64} color={colors.neutral.gray.light} />
                 <Text style={styles.emptyText}>
-                  {searchQuery ? 'No staff found' : 'No staff available'}
+                  {searchQuery ? t('staff.noResults') : t('staff.empty')}
                 </Text>
               </View>
             ) : (
@@ -431,12 +381,12 @@ const Staffs = () => {
                           {staff.verified && (
                             <View style={styles.verifiedBadge}>
                               <Ionicons name="checkmark-circle" size={14} color={colors.primary.green} />
-                              <Text style={styles.verifiedText}>Verified</Text>
+                              <Text style={styles.verifiedText}>{t('common.verified')}</Text>
                             </View>
                           )}
                           {!staff.active && (
                             <View style={styles.inactiveBadge}>
-                              <Text style={styles.inactiveText}>Inactive</Text>
+                              <Text style={styles.inactiveText}>{t('common.inactive')}</Text>
                             </View>
                           )}
                         </View>
@@ -465,7 +415,7 @@ const Staffs = () => {
             <View style={styles.modalContent}>
               {/* Modal Header */}
               <View style={styles.modalHeader}>
-                <Text style={styles.modalTitle}>Add New Staff</Text>
+                <Text style={styles.modalTitle}>{t('staff.addTitle')}</Text>
                 <TouchableOpacity
                   onPress={handleCloseAddModal}
                   style={styles.modalCloseButton}
@@ -483,8 +433,8 @@ const Staffs = () => {
                 keyboardShouldPersistTaps="handled"
               >
               <Input
-                label="First Name *"
-                placeholder="Enter first name"
+                label={t('staff.firstNameLabel')}
+                placeholder={t('staff.firstNamePlaceholder')}
                 value={formData.firstName}
                 onChangeText={(text) => setFormData((prev) => ({ ...prev, firstName: text }))}
                 autoCapitalize="words"
@@ -492,8 +442,8 @@ const Staffs = () => {
               />
 
               <Input
-                label="Middle Name"
-                placeholder="Enter middle name (optional)"
+                label={t('staff.middleNameLabel')}
+                placeholder={t('staff.middleNamePlaceholder')}
                 value={formData.middleName}
                 onChangeText={(text) => setFormData((prev) => ({ ...prev, middleName: text }))}
                 autoCapitalize="words"
@@ -501,8 +451,8 @@ const Staffs = () => {
               />
 
               <Input
-                label="Last Name *"
-                placeholder="Enter last name"
+                label={t('staff.lastNameLabel')}
+                placeholder={t('staff.lastNamePlaceholder')}
                 value={formData.lastName}
                 onChangeText={(text) => setFormData((prev) => ({ ...prev, lastName: text }))}
                 autoCapitalize="words"
@@ -510,8 +460,8 @@ const Staffs = () => {
               />
 
               <Input
-                label="Email *"
-                placeholder="Enter email address"
+                label={t('staff.emailLabel')}
+                placeholder={t('staff.emailPlaceholder')}
                 value={formData.email}
                 onChangeText={(text) => setFormData((prev) => ({ ...prev, email: text }))}
                 keyboardType="email-address"
@@ -520,8 +470,8 @@ const Staffs = () => {
               />
 
               <Input
-                label="Phone Number *"
-                placeholder="Enter phone number"
+                label={t('staff.phoneLabel')}
+                placeholder={t('staff.phonePlaceholder')}
                 value={formData.phone}
                 onChangeText={(text) => setFormData((prev) => ({ ...prev, phone: text }))}
                 keyboardType="phone-pad"
@@ -529,11 +479,11 @@ const Staffs = () => {
               />
 
               <View style={styles.formField}>
-                <Text style={styles.formLabel}>Gender *</Text>
+                <Text style={styles.formLabel}>{t('staff.genderLabel')}</Text>
                 <View style={styles.genderOptions}>
                   {[
-                    { value: 1, label: 'Male' },
-                    { value: 2, label: 'Female' },
+                    { value: 1, label: t('staff.male') },
+                    { value: 2, label: t('staff.female') },
                   ].map((option) => (
                     <TouchableOpacity
                       key={option.value}
@@ -561,14 +511,14 @@ const Staffs = () => {
               </View>
 
               <DateTimePicker
-                label="Birth Date *"
+                label={t('staff.birthDateLabel')}
                 value={formData.birthDate}
                 onChange={(date) => setFormData((prev) => ({ ...prev, birthDate: date }))}
                 mode="date"
                 format="YYYY-MM-DD"
                 maximumDate={new Date()}
                 error={formErrors.birthDate}
-                placeholder="Select birth date"
+                placeholder={t('staff.birthDatePlaceholder')}
               />
 
               <TouchableOpacity
@@ -584,7 +534,7 @@ const Staffs = () => {
                   <ActivityIndicator size="small" color={colors.text.inverse} />
                 ) : (
                   <>
-                    <Text style={styles.createButtonText}>Create Staff</Text>
+                    <Text style={styles.createButtonText}>{t('staff.create')}</Text>
                   </>
                 )}
               </TouchableOpacity>
@@ -605,7 +555,7 @@ const Staffs = () => {
   );
 };
 
-export default Staffs;
+export default withPermission(Staffs, PERMISSIONS.viewStaff);
 
 const styles = StyleSheet.create({
   container: {
@@ -1,12 +1,14 @@
 import Skeleton from '@/components/Skeleton';
+import SubscriptionPlanCard from '@/components/SubscriptionPlanCard';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { useTranslation } from '@/hooks/useTranslation';
+import { isAbortError, SubscriptionPlan, subscriptions } from '@/services';
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import React, { useCallback, useEffect, useState } from 'react';
 import {
-    ImageBackground,
     ScrollView,
     StyleSheet,
     Text,
@@ -14,58 +16,36 @@ import {
     View,
 } from 'react-native';
 
-interface SubscriptionPlan {
-  id: string;
-  title: string;
-  subscriptionCode: string;
-  noOfBranches: string;
-  members: string;
-  tadarVisibility: string;
-  teamManagement: boolean;
-  services: string;
-  assistanceSupport: string;
-  reports: boolean;
-  noOfMonth: number;
-  isRenewed: boolean;
-  price: number;
-  active: boolean;
-  createdAt: number;
-  updatedAt: number;
-}
-
 const SubscriptionPlans = () => {
   const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const getSignal = useAbortSignal();
+  const { t } = useTranslation();
 
   const fetchPlans = useCallback(async () => {
     setIsLoading(true);
     setError(null);
+    const signal = getSignal();
     try {
-      const response = await api.get<SubscriptionPlan[]>('/en/on/subscription/plans', {
-        requiresAuth: true,
-      });
-      setPlans(response.data || []);
+      const data = await subscriptions.plans({ signal });
+      setPlans(data || []);
     } catch (err: any) {
-      setError(err?.message || 'Failed to load subscription plans. Please try again.');
+      if (isAbortError(err)) {
+        return;
+      }
+      setError(err?.message || t('subscriptionPlans.loadFailed'));
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
-  }, []);
+  }, [getSignal, t]);
 
   useEffect(() => {
     fetchPlans();
   }, [fetchPlans]);
 
-  const formatPrice = (price?: number): string => {
-    if (!price) return 'N/A';
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'KES',
-      minimumFractionDigits: 0,
-    }).format(price);
-  };
-
   const handleSelectPlan = (plan: SubscriptionPlan) => {
     // TODO: Navigate to purchase/payment screen or handle plan selection
     console.log('Selected plan:', plan);
@@ -118,7 +98,7 @@ const SubscriptionPlans = () => {
         <Ionicons name="alert-circle-outline" size={48} color={colors.semantic.error} />
         <Text style={styles.errorText}>{error}</Text>
         <TouchableOpacity style={styles.retryButton} onPress={fetchPlans} activeOpacity={0.7}>
-          <Text style={styles.retryButtonText}>Retry</Text>
+          <Text style={styles.retryButtonText}>{t('common.retry')}</Text>
         </TouchableOpacity>
       </View>
     );
@@ -139,7 +119,7 @@ const SubscriptionPlans = () => {
         >
           <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Subscription Plans</Text>
+        <Text style={styles.headerTitle}>{t('home.subscriptionPlans')}</Text>
         <View style={styles.backButton} />
       </View>
 
@@ -149,121 +129,12 @@ const SubscriptionPlans = () => {
       ) : plans.length === 0 ? (
         <View style={styles.emptyContainer}>
           <Ionicons name="card-outline" size={64} color={colors.neutral.gray.light} />
-          <Text style={styles.emptyText}>No subscription plans available</Text>
+          <Text style={styles.emptyText}>{t('subscriptionPlans.empty')}</Text>
         </View>
       ) : (
         <View style={styles.plansContainer}>
           {plans && plans.length > 0 && plans.map((plan) => (
-            <View key={plan.id} style={styles.planCardWrapper}>
-              <ImageBackground
-                source={require('@/assets/backgroud/plan-background.jpg')}
-                style={styles.planCard}
-                resizeMode="cover"
-              >
-                <View style={styles.planOverlay}>
-                  {/* Plan Header */}
-                  <View style={styles.planHeader}>
-                    <View style={styles.planHeaderLeft}>
-                      <Text style={styles.planTitle}>{plan.title}</Text>
-                      <Text style={styles.planCode}>{plan.subscriptionCode}</Text>
-                    </View>
-                    <View style={styles.priceContainer}>
-                      <Text style={styles.priceAmount}>{formatPrice(plan.price)}</Text>
-                      <Text style={styles.pricePeriod}>/{plan.noOfMonth} month{plan.noOfMonth !== 1 ? 's' : ''}</Text>
-                    </View>
-                  </View>
-
-                  {/* Plan Features */}
-                  <View style={styles.featuresContainer}>
-                    <View style={styles.featureRow}>
-                      <Ionicons name="business-outline" size={18} color={colors.text.inverse} />
-                      <Text style={styles.featureText}>
-                        <Text style={styles.featureLabel}>Branches: </Text>
-                        {plan.noOfBranches}
-                      </Text>
-                    </View>
-
-                    <View style={styles.featureRow}>
-                      <Ionicons name="people-outline" size={18} color={colors.text.inverse} />
-                      <Text style={styles.featureText}>
-                        <Text style={styles.featureLabel}>Members: </Text>
-                        {plan.members}
-                      </Text>
-                    </View>
-
-                    <View style={styles.featureRow}>
-                      <Ionicons name="grid-outline" size={18} color={colors.text.inverse} />
-                      <Text style={styles.featureText}>
-                        <Text style={styles.featureLabel}>Services: </Text>
-                        {plan.services}
-                      </Text>
-                    </View>
-
-                    <View style={styles.featureRow}>
-                      <Ionicons name="eye-outline" size={18} color={colors.text.inverse} />
-                      <Text style={styles.featureText}>
-                        <Text style={styles.featureLabel}>Tadar Visibility: </Text>
-                        {plan.tadarVisibility}
-                      </Text>
-                    </View>
-
-                    <View style={styles.featureRow}>
-                      <Ionicons name="time-outline" size={18} color={colors.text.inverse} />
-                      <Text style={styles.featureText}>
-                        <Text style={styles.featureLabel}>Support: </Text>
-                        {plan.assistanceSupport}
-                      </Text>
-                    </View>
-
-                    <View style={styles.featureRow}>
-                      <Ionicons
-                        name={plan.teamManagement ? 'checkmark-circle' : 'close-circle'}
-                        size={18}
-                        color={colors.text.inverse}
-                      />
-                      <Text style={styles.featureText}>
-                        <Text style={styles.featureLabel}>Team Management: </Text>
-                        {plan.teamManagement ? 'Yes' : 'No'}
-                      </Text>
-                    </View>
-
-                    <View style={styles.featureRow}>
-                      <Ionicons
-                        name={plan.reports ? 'checkmark-circle' : 'close-circle'}
-                        size={18}
-                        color={colors.text.inverse}
-                      />
-                      <Text style={styles.featureText}>
-                        <Text style={styles.featureLabel}>Reports: </Text>
-                        {plan.reports ? 'Yes' : 'No'}
-                      </Text>
-                    </View>
-
-                    <View style={styles.featureRow}>
-                      <Ionicons
-                        name={plan.isRenewed ? 'refresh-circle' : 'time-outline'}
-                        size={18}
-                        color={colors.text.inverse}
-                      />
-                      <Text style={styles.featureText}>
-                        <Text style={styles.featureLabel}>Auto Renewal: </Text>
-                        {plan?.isRenewed ? 'Yes' : 'No'}
-                      </Text>
-                    </View>
-                  </View>
-
-                  {/* Select Button */}
-                  <TouchableOpacity
-                    style={styles.selectButton}
-                    onPress={() => handleSelectPlan(plan)}
-                    activeOpacity={0.8}
-                  >
-                    <Text style={styles.selectButtonText}>Select Plan</Text>
-                    <Ionicons name="arrow-forward" size={20} color={colors.text.inverse} />
-                  </TouchableOpacity>
-                </View>
-              </ImageBackground>
-            </View>
+            <SubscriptionPlanCard key={plan.id} plan={plan} onSelect={handleSelectPlan} />
           ))}
         </View>
       )}
@@ -343,11 +214,6 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
     gap: 20,
   },
-  planCardWrapper: {
-    marginBottom: 20,
-    borderRadius: 20,
-    overflow: 'hidden',
-  },
   skeletonCardWrapper: {
     marginBottom: 20,
     borderRadius: 20,
@@ -361,16 +227,6 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: colors.neutral.gray.lighter,
   },
-  planCard: {
-    width: '100%',
-    minHeight: 400,
-  },
-  planOverlay: {
-    flex: 1,
-    backgroundColor: 'rgba(0, 0, 0, 0.4)',
-    padding: 24,
-    justifyContent: 'space-between',
-  },
   planHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -380,34 +236,9 @@ const styles = StyleSheet.create({
   planHeaderLeft: {
     flex: 1,
   },
-  planTitle: {
-    fontSize: 28,
-    fontFamily: fonts.weights.bold,
-    color: colors.text.inverse,
-    marginBottom: 4,
-  },
-  planCode: {
-    fontSize: 14,
-    fontFamily: fonts.weights.regular,
-    color: colors.text.inverse,
-    opacity: 0.9,
-  },
   priceContainer: {
     alignItems: 'flex-end',
   },
-  priceAmount: {
-    fontSize: 32,
-    fontFamily: fonts.weights.bold,
-    color: colors.text.inverse,
-    lineHeight: 36,
-  },
-  pricePeriod: {
-    fontSize: 14,
-    fontFamily: fonts.weights.regular,
-    color: colors.text.inverse,
-    opacity: 0.9,
-    marginTop: 2,
-  },
   featuresContainer: {
     gap: 12,
     marginBottom: 24,
@@ -417,28 +248,4 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     gap: 12,
   },
-  featureText: {
-    fontSize: 15,
-    fontFamily: fonts.weights.regular,
-    color: colors.text.inverse,
-    flex: 1,
-  },
-  featureLabel: {
-    fontFamily: fonts.weights.semiBold,
-    opacity: 0.9,
-  },
-  selectButton: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'center',
-    backgroundColor: colors.primary.green,
-    paddingVertical: 16,
-    borderRadius: 12,
-    gap: 8,
-  },
-  selectButtonText: {
-    fontSize: 16,
-    fontFamily: fonts.weights.bold,
-    color: colors.text.inverse,
-  },
 });
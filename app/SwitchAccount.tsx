@@ -2,66 +2,26 @@ import Button from '@/components/Button';
 import Skeleton from '@/components/Skeleton';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { useConfirmLogout } from '@/hooks/useLogout';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Account, auth, Branch, branches as branchesApi, isAbortError, Organization } from '@/services';
 import { useAuthStore } from '@/store/authStore';
-import { useBranchStore } from '@/store/branchStore';
-import { useCompanyStore } from '@/store/companyStore';
-import { usePermissionsStore } from '@/store/permissionsStore';
+import { useOnboardingStore } from '@/store/onboardingStore';
+import { enterOrganizationScope } from '@/store/organizationScope';
 import { useUserStore } from '@/store/userStore';
 import { formatDate, formatSmartDate } from '@/utils/date';
 import { LinearGradient } from 'expo-linear-gradient';
 import { router } from 'expo-router';
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { ActivityIndicator, Image, ImageBackground, Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 
-interface Organization {
-  id: string;
-  name: string;
-  description: string;
-  isActive: boolean;
-  isServiceProvider: boolean;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface Account {
-  id: string;
-  userId: string;
-  active: boolean;
-  isLocked: boolean;
-  organization?: Organization;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface Branch {
-  id: string;
-  organizationId: string;
-  isMain: boolean;
-  name: string;
-  longitude: number;
-  latitude: number;
-  accuracy: number | null;
-  contact: number;
-  description: string;
-  email: string;
-  stateProvince: string;
-  city: string;
-  location: string;
-  slotsId: string | null;
-  createdAt: number;
-  updatedAt: number;
-}
-
 const SwitchAccount = () => {
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const { logout, updateToken } = useAuthStore();
-  const { setCompany } = useCompanyStore();
+  const { updateToken, updateRefreshToken } = useAuthStore();
   const { user, setUser } = useUserStore();
-  const { setBranch } = useBranchStore();
-  const { setPermissions } = usePermissionsStore();
   const [branches, setBranches] = useState<Branch[]>([]);
   const [isBranchModalVisible, setIsBranchModalVisible] = useState(false);
   const [isLoadingBranches, setIsLoadingBranches] = useState(false);
@@ -69,51 +29,60 @@ const SwitchAccount = () => {
   const [selectedOrganization, setSelectedOrganization] = useState<Organization | null>(null);
   const [selectedAccount, setSelectedAccount] = useState<Account | null>(null);
   const [branchError, setBranchError] = useState<string | null>(null);
+  const getSignal = useAbortSignal();
+  const { step: onboardingStep } = useOnboardingStore();
+  const { t } = useTranslation();
 
-  useEffect(() => {
-    fetchAccounts();
-  }, []);
-
-  const fetchAccounts = async () => {
+  const fetchAccounts = useCallback(async () => {
     setIsLoading(true);
     setError(null);
     setIsBranchModalVisible(false);
+    const signal = getSignal();
     try {
-      const response = await api.get<Account[]>('/en/my/accounts', {
-        requiresAuth: true,
-      });
+      const myAccounts = await auth.accounts({ signal });
 
       // Filter accounts that have organization details
-      const accountsWithOrganization = (response.data || []).filter(
+      const accountsWithOrganization = (myAccounts || []).filter(
         (account) => account.organization
       );
 
       setAccounts(accountsWithOrganization);
     } catch (err: any) {
-      setError(err?.message || 'Failed to load accounts. Please try again.');
+      if (isAbortError(err)) {
+        return;
+      }
+      setError(err?.message || t('switchAccount.loadFailed'));
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
-  };
+  }, [getSignal, t]);
+
+  useEffect(() => {
+    fetchAccounts();
+  }, [fetchAccounts]);
 
   const fetchBranches = async (organizationId: string) => {
     setIsLoadingBranches(true);
     setBranchError(null);
     setIsBranchModalVisible(true);
+    const signal = getSignal();
     try {
         
-      const response = await api.get<Branch[]>(`/en/staff/branches/${organizationId}`, {
-        requiresAuth: true,
-      });
-
-     
-      setBranches(response.data || []);
+      const organizationBranches = await branchesApi.listForOrganization(organizationId, { signal });
+      setBranches(organizationBranches || []);
       
     } catch (err: any) {
+      if (isAbortError(err)) {
+        return;
+      }
       console.error('Failed to fetch branches:', err);
-      setBranchError(err?.message || 'Failed to load branches. Please try again.');
+      setBranchError(err?.message || t('switchAccount.branchesLoadFailed'));
     } finally {
-      setIsLoadingBranches(false);
+      if (!signal.aborted) {
+        setIsLoadingBranches(false);
+      }
     }
   };
 
@@ -144,27 +113,17 @@ const SwitchAccount = () => {
     setBranchError(null);
 
     try {
-      // Make POST request to switch account
-      const response = await api.post<{
-        user: any;
-        account: any;
-        branch: Branch;
-        accessToken: string;
-      }>(
-        '/en/switch/account',
-        {
-          accountId: selectedAccount.id,
-          branchId: branch.id,
-        },
-        {
-          requiresAuth: true,
-        }
+      // Switch to the selected account and branch
+      const { user: updatedUser, account, branch: selectedBranch, accessToken, refreshToken } = await auth.switchAccount(
+        selectedAccount.id,
+        branch.id
       );
 
-      const { user: updatedUser, account, branch: selectedBranch, accessToken } = response.data;
-
-      // Update token
+      // Update tokens - the refresh token is scoped to the selected account
       updateToken(accessToken);
+      if (refreshToken) {
+        updateRefreshToken(refreshToken);
+      }
 
       // Store user
       setUser({
@@ -181,19 +140,20 @@ const SwitchAccount = () => {
         updatedAt: normalizeTimestamp(updatedUser.updatedAt),
       });
 
-      // Store company/organization
-      if (account.organization) {
-        setCompany({
-          id: account.organization.id,
-          name: account.organization.name,
-          description: account.organization.description || '',
-          createdAt: normalizeTimestamp(account.organization.createdAt),
-          updatedAt: normalizeTimestamp(account.organization.updatedAt),
-        });
-      }
-
-      // Store branch
-      setBranch(selectedBranch);
+      // Replace the previous organization's branch, permissions, cached lists and connections in one step
+      const permissions = await fetchUserPermissions();
+      const organization = account.organization ?? selectedOrganization;
+      enterOrganizationScope({
+        company: {
+          id: organization.id,
+          name: organization.name,
+          description: organization.description || '',
+          createdAt: normalizeTimestamp(organization.createdAt),
+          updatedAt: normalizeTimestamp(organization.updatedAt),
+        },
+        branch: selectedBranch,
+        permissions,
+      });
 
       // Close modal and clear state
       setIsBranchModalVisible(false);
@@ -201,29 +161,31 @@ const SwitchAccount = () => {
       setSelectedOrganization(null);
       setSelectedAccount(null);
 
-      // After successfully switching account, fetch and set user permissions
-      await fetchUserPermissions();
-
       // Navigate to home screen
       router.replace('/(tabs)');
     } catch (err: any) {
+      if (isAbortError(err)) {
+        return;
+      }
       console.error('Failed to switch account:', err);
-      setBranchError(err?.message || 'Failed to switch account. Please try again.');
+      setBranchError(err?.message || t('switchAccount.switchFailed'));
     } finally {
       setIsSwitchingAccount(false);
     }
   };
 
   const fetchUserPermissions = async () => {
+    const signal = getSignal();
     try {
-      const response = await api.get<string[]>('/en/auth/user/permissions', {
-        requiresAuth: true,
-      });
-      setPermissions(response.data || []);
+      const userPermissions = await auth.permissions({ signal });
+      return userPermissions || [];
     } catch (err: any) {
+      if (isAbortError(err)) {
+        throw err;
+      }
       console.error('Failed to fetch user permissions:', err);
-      // Set empty permissions on error
-      setPermissions([]);
+      // Continue with no permissions on error
+      return [];
     }
   };
 
@@ -236,10 +198,8 @@ const SwitchAccount = () => {
 
 
 
-  const handleLogout = () => {
-    logout();
-    router.replace('/Login');
-  };
+  // Only asks when offline changes would be discarded
+  const handleLogout = useConfirmLogout({ alwaysConfirm: false });
 
   return (
     <View style={styles.container}>
@@ -256,12 +216,12 @@ const SwitchAccount = () => {
           {user && (
             <View style={styles.userGreeting}>
               <Text style={styles.subtitle}>
-                Welcome
+                {t('switchAccount.welcome')}
               </Text>
               <Text style={styles.title}>{[user.firstName, user.lastName].filter(Boolean).join(' ') || user.email}</Text>
             </View>
           )}
-          <Text style={styles.subtitle}>Select an organization to continue</Text>
+          <Text style={styles.subtitle}>{t('switchAccount.subtitle')}</Text>
         </View>
 
         {/* Loading State - Skeleton */}
@@ -290,7 +250,7 @@ const SwitchAccount = () => {
           <View style={styles.errorContainer}>
             <Text style={styles.errorText}>{error}</Text>
             <Button
-              title="Retry"
+              title={t('common.retry')}
               variant="outline"
               onPress={fetchAccounts}
               style={styles.retryButton}
@@ -326,10 +286,10 @@ const SwitchAccount = () => {
                     {/* Top Section - Organization Name (like $24 986) */}
                     <View style={styles.topSection}>
                       <Text style={styles.organizationName} numberOfLines={1}>
-                        {account.organization?.name || 'Organization'}
+                        {account.organization?.name || t('incomingRequest.organization')}
                       </Text>
                       <Text style={styles.organizationType}>
-                        {'Service Provider' }
+                        {t('staff.serviceProvider')}
                       </Text>
                     </View>
 
@@ -337,7 +297,7 @@ const SwitchAccount = () => {
                     <View style={styles.bottomSection}>
                       <View style={styles.bottomLeft}>
                         <Text style={styles.accountStatus}>
-                          Created {formatSmartDate(account.createdAt)}
+                          {t('switchAccount.createdAt', { date: formatSmartDate(account.createdAt) })}
                         </Text>
                       </View>
                      
@@ -352,17 +312,23 @@ const SwitchAccount = () => {
             {/* Empty State */}
             {!isLoading && !error && !isSwitchingAccount && accounts.length === 0 && (
           <View style={styles.centerContainer}>
-            <Text style={styles.emptyText}>No organizations found</Text>
+            <Text style={styles.emptyText}>{t('switchAccount.empty')}</Text>
             <Text style={styles.emptySubtext}>
-              You don't have access to any organizations yet.
+              {t('switchAccount.emptyHint')}
             </Text>
+            <Button
+              title={onboardingStep ? t('onboarding.continueSetup') : t('onboarding.setUpBusiness')}
+              variant="primary"
+              onPress={() => router.push('/Onboarding')}
+              style={styles.setUpButton}
+            />
           </View>
         )}
 
         {/* Logout Button */}
         <View style={styles.footer}>
           <Button
-            title="Logout"
+            title={t('auth.logout')}
             variant="outline-danger"
             onPress={handleLogout}
             style={styles.logoutButton}
@@ -382,7 +348,7 @@ const SwitchAccount = () => {
             {/* Modal Header */}
             <View style={styles.modalHeader}>
               <Text style={styles.modalTitle}>
-                Select Branch
+                {t('switchAccount.selectBranch')}
               </Text>
               <Text style={styles.modalSubtitle}>
                 {selectedOrganization?.name}
@@ -440,7 +406,7 @@ const SwitchAccount = () => {
             {isSwitchingAccount && (
               <View style={styles.modalCenterContainer}>
                 <ActivityIndicator size="large" color={colors.primary.green} />
-                <Text style={styles.modalLoadingText}>Processing Please Wait...</Text>
+                <Text style={styles.modalLoadingText}>{t('switchAccount.processing')}</Text>
               </View>
             )}
 
@@ -449,7 +415,7 @@ const SwitchAccount = () => {
               <View style={styles.modalErrorContainer}>
                 <Text style={styles.modalErrorText}>{branchError}</Text>
                 <Button
-                  title="Retry"
+                  title={t('common.retry')}
                   variant="outline"
                   onPress={() => selectedOrganization && fetchBranches(selectedOrganization.id)}
                   style={styles.modalRetryButton}
@@ -490,7 +456,7 @@ const SwitchAccount = () => {
                           {/* Top Left - Branch Type/Label */}
                           <View style={styles.branchTopLeft}>
                             <Text style={styles.branchLabel}>
-                              {branch.isMain ? 'Main Branch' : 'Branch Location'}
+                              {branch.isMain ? t('switchAccount.mainBranch') : t('switchAccount.branchLocation')}
                             </Text>
                           </View>
 
@@ -514,13 +480,13 @@ const SwitchAccount = () => {
                               )}
                               <View style={styles.branchDateContainer}>
                                 <Text style={styles.branchDateText}>
-                                  Created {formatDate(branch.createdAt)}
+                                  {t('switchAccount.createdAt', { date: formatDate(branch.createdAt) })}
                                 </Text>
                               </View>
                             </View>
                             {branch.isMain && (
                               <View style={styles.branchMainBadge}>
-                                <Text style={styles.branchMainBadgeText}>Main</Text>
+                                <Text style={styles.branchMainBadgeText}>{t('switchAccount.main')}</Text>
                               </View>
                             )}
                           </View>
@@ -535,9 +501,9 @@ const SwitchAccount = () => {
             {/* Empty State */}
             {!isLoadingBranches && !branchError && branches.length === 0 && (
               <View style={styles.modalCenterContainer}>
-                <Text style={styles.modalEmptyText}>No branches found</Text>
+                <Text style={styles.modalEmptyText}>{t('switchAccount.noBranches')}</Text>
                 <Text style={styles.modalEmptySubtext}>
-                  This organization doesn't have any branches yet.
+                  {t('switchAccount.noBranchesHint')}
                 </Text>
               </View>
             )}
@@ -766,6 +732,10 @@ const styles = StyleSheet.create({
     color: colors.neutral.gray.medium,
     textAlign: 'center',
   },
+  setUpButton: {
+    marginTop: 24,
+    alignSelf: 'stretch',
+  },
   footer: {
     marginTop: 'auto',
     paddingTop: 24,
@@ -0,0 +1,477 @@
+import BackupCodes from '@/components/BackupCodes';
+import Button from '@/components/Button';
+import Input from '@/components/Input';
+import QRCode from '@/components/QRCode';
+import Skeleton from '@/components/Skeleton';
+import { colors } from '@/constants/colors';
+import { fonts } from '@/constants/fonts';
+import { useQuery } from '@/hooks/useQuery';
+import { useTranslation } from '@/hooks/useTranslation';
+import { getErrorFieldErrors, twoFactor } from '@/services';
+import { getMockTwoFactorCode, isMockBackendActive } from '@/services/mock';
+import { invalidateQueries } from '@/services/queryClient';
+import { queryKeys } from '@/services/queryKeys';
+import { formatTotpSecret } from '@/utils/totp';
+import { passwordConfirmationSchema, twoFactorCodeSchema, validateForm } from '@/validators';
+import { Ionicons } from '@expo/vector-icons';
+import * as Clipboard from 'expo-clipboard';
+import { router } from 'expo-router';
+import React, { useState } from 'react';
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+type Mode = 'overview' | 'enroll' | 'backupCodes' | 'disable' | 'regenerate';
+
+const TwoFactor = () => {
+  const [mode, setMode] = useState<Mode>('overview');
+  const [enrollment, setEnrollment] = useState<twoFactor.TwoFactorEnrollment | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const { data: status, error: statusError, isLoading: isStatusLoading, refresh } = useQuery(
+    queryKeys.twoFactor.status(),
+    ({ signal }) => twoFactor.status({ signal })
+  );
+  const { t } = useTranslation();
+
+  const showMode = (next: Mode) => {
+    setMode(next);
+    setCode('');
+    setPassword('');
+    setErrors({});
+  };
+
+  const handleRequestError = (error: any, fallback: string) => {
+    const fieldErrors = getErrorFieldErrors(error);
+    setErrors(
+      Object.keys(fieldErrors).length > 0 ? fieldErrors : { general: error?.message || fallback }
+    );
+  };
+
+  const handleStartEnrollment = async () => {
+    setErrors({});
+    setIsLoading(true);
+
+    try {
+      setEnrollment(await twoFactor.enroll());
+      showMode('enroll');
+    } catch (error: any) {
+      handleRequestError(error, t('twoFactor.enrollFailed'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCopySecret = async () => {
+    if (!enrollment) {
+      return;
+    }
+    await Clipboard.setStringAsync(enrollment.secret);
+    Alert.alert(t('twoFactor.secretCopiedTitle'), t('twoFactor.secretCopiedMessage'));
+  };
+
+  const handleConfirm = async () => {
+    const validation = validateForm(twoFactorCodeSchema, { code: code.trim() });
+
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    setErrors({});
+    setIsLoading(true);
+
+    try {
+      const result = await twoFactor.confirm(code.trim());
+      invalidateQueries(queryKeys.twoFactor.status());
+      setEnrollment(null);
+      setBackupCodes(result.backupCodes);
+      showMode('backupCodes');
+    } catch (error: any) {
+      handleRequestError(error, t('twoFactor.confirmFailed'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Turning off and replacing backup codes both ask for the password again
+  const handlePasswordConfirm = async () => {
+    const validation = validateForm(passwordConfirmationSchema, { password });
+
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    setErrors({});
+    setIsLoading(true);
+
+    try {
+      if (mode === 'disable') {
+        await twoFactor.disable(password);
+        invalidateQueries(queryKeys.twoFactor.status());
+        showMode('overview');
+        Alert.alert(t('twoFactor.disabledTitle'), t('twoFactor.disabledMessage'));
+      } else {
+        const result = await twoFactor.regenerateBackupCodes(password);
+        invalidateQueries(queryKeys.twoFactor.status());
+        setBackupCodes(result.backupCodes);
+        showMode('backupCodes');
+      }
+    } catch (error: any) {
+      handleRequestError(
+        error,
+        mode === 'disable' ? t('twoFactor.disableFailed') : t('twoFactor.regenerateFailed')
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleBack = () => {
+    if (mode === 'overview') {
+      router.back();
+      return;
+    }
+    showMode('overview');
+  };
+
+  const renderError = () =>
+    errors.general && (
+      <View style={styles.errorContainer}>
+        <Text style={styles.errorText}>{errors.general}</Text>
+      </View>
+    );
+
+  const renderOverview = () => {
+    if (isStatusLoading) {
+      return <Skeleton width="100%" height={160} borderRadius={12} />;
+    }
+
+    if (statusError || !status) {
+      return (
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorText}>{statusError?.message || t('twoFactor.loadFailed')}</Text>
+          <Button title={t('common.retry')} variant="text" onPress={refresh} />
+        </View>
+      );
+    }
+
+    return (
+      <View>
+        <View style={styles.statusCard}>
+          <Ionicons
+            name={status.enabled ? 'shield-checkmark' : 'shield-outline'}
+            size={32}
+            color={status.enabled ? colors.primary.green : colors.neutral.gray.medium}
+          />
+          <View style={styles.statusContent}>
+            <Text style={styles.statusTitle}>
+              {status.enabled ? t('twoFactor.statusOn') : t('twoFactor.statusOff')}
+            </Text>
+            <Text style={styles.statusDescription}>
+              {status.enabled
+                ? t('twoFactor.backupCodesRemaining', { count: status.backupCodesRemaining })
+                : t('twoFactor.offDescription')}
+            </Text>
+          </View>
+        </View>
+
+        {renderError()}
+
+        {status.enabled ? (
+          <>
+            <Button
+              title={t('twoFactor.regenerate')}
+              variant="outline"
+              onPress={() => showMode('regenerate')}
+              style={styles.submitButton}
+            />
+            <Button
+              title={t('twoFactor.disable')}
+              variant="outline-danger"
+              onPress={() => showMode('disable')}
+              style={styles.submitButton}
+            />
+          </>
+        ) : (
+          <Button
+            title={t('twoFactor.setUp')}
+            variant="primary"
+            onPress={handleStartEnrollment}
+            loading={isLoading}
+            disabled={isLoading}
+            style={styles.submitButton}
+          />
+        )}
+      </View>
+    );
+  };
+
+  const renderEnrollment = () => {
+    if (!enrollment) {
+      return null;
+    }
+    const demoCode = isMockBackendActive() ? getMockTwoFactorCode() : null;
+
+    return (
+      <View>
+        <Text style={styles.subtitle}>{t('twoFactor.scanSubtitle')}</Text>
+
+        <View style={styles.qrContainer}>
+          <QRCode value={enrollment.otpauthUri} size={220} />
+        </View>
+
+        <Text style={styles.label}>{t('twoFactor.manualEntry')}</Text>
+        <TouchableOpacity style={styles.secretContainer} onPress={handleCopySecret} activeOpacity={0.7}>
+          <Text style={styles.secret} selectable>
+            {formatTotpSecret(enrollment.secret)}
+          </Text>
+          <Ionicons name="copy-outline" size={20} color={colors.primary.green} />
+        </TouchableOpacity>
+
+        <Input
+          label={t('twoFactor.code')}
+          placeholder={t('twoFactor.codePlaceholder')}
+          value={code}
+          onChangeText={(text) => {
+            setCode(text);
+            setErrors({});
+          }}
+          keyboardType="number-pad"
+          autoComplete="one-time-code"
+          textContentType="oneTimeCode"
+          maxLength={6}
+          error={errors.code}
+        />
+
+        {demoCode && <Text style={styles.hint}>{t('twoFactor.demoCode', { code: demoCode })}</Text>}
+
+        {renderError()}
+
+        <Button
+          title={t('twoFactor.confirm')}
+          variant="primary"
+          onPress={handleConfirm}
+          loading={isLoading}
+          disabled={isLoading}
+          style={styles.submitButton}
+        />
+      </View>
+    );
+  };
+
+  const renderBackupCodes = () => (
+    <View>
+      <Text style={styles.sectionTitle}>{t('backupCodes.title')}</Text>
+      <Text style={styles.subtitle}>{t('backupCodes.subtitle')}</Text>
+
+      <BackupCodes codes={backupCodes} />
+
+      <Button
+        title={t('backupCodes.done')}
+        variant="primary"
+        onPress={() => showMode('overview')}
+        style={styles.doneButton}
+      />
+    </View>
+  );
+
+  const renderPasswordConfirmation = () => (
+    <View>
+      <Text style={styles.subtitle}>
+        {mode === 'disable' ? t('twoFactor.disableSubtitle') : t('twoFactor.regenerateSubtitle')}
+      </Text>
+
+      <Input
+        label={t('twoFactor.password')}
+        placeholder={t('twoFactor.passwordPlaceholder')}
+        value={password}
+        onChangeText={(text) => {
+          setPassword(text);
+          setErrors({});
+        }}
+        secureTextEntry
+        autoCapitalize="none"
+        autoComplete="current-password"
+        error={errors.password}
+      />
+
+      {renderError()}
+
+      <Button
+        title={mode === 'disable' ? t('twoFactor.disable') : t('twoFactor.regenerate')}
+        variant={mode === 'disable' ? 'danger' : 'primary'}
+        onPress={handlePasswordConfirm}
+        loading={isLoading}
+        disabled={isLoading}
+        style={styles.submitButton}
+      />
+    </View>
+  );
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.keyboardView}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={handleBack} activeOpacity={0.7}>
+            <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{t('twoFactor.title')}</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        {mode === 'overview' && renderOverview()}
+        {mode === 'enroll' && renderEnrollment()}
+        {mode === 'backupCodes' && renderBackupCodes()}
+        {(mode === 'disable' || mode === 'regenerate') && renderPasswordConfirmation()}
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+export default TwoFactor;
+
+const styles = StyleSheet.create({
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 32,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.primary,
+    flex: 1,
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  statusCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    padding: 16,
+    marginBottom: 24,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.neutral.gray.lighter,
+    backgroundColor: colors.background.secondary,
+  },
+  statusContent: {
+    flex: 1,
+  },
+  statusTitle: {
+    fontSize: 16,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.primary,
+  },
+  statusDescription: {
+    fontSize: 14,
+    fontFamily: fonts.weights.regular,
+    color: colors.neutral.gray.medium,
+    marginTop: 4,
+    lineHeight: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.primary,
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    fontFamily: fonts.weights.regular,
+    color: colors.neutral.gray.medium,
+    marginBottom: 24,
+    lineHeight: 20,
+  },
+  qrContainer: {
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 14,
+    fontFamily: fonts.weights.medium,
+    color: colors.text.primary,
+    marginBottom: 8,
+  },
+  secretContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    marginBottom: 24,
+    borderRadius: 8,
+    backgroundColor: colors.background.secondary,
+  },
+  secret: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: Platform.select({ ios: 'Menlo', default: 'monospace' }),
+    color: colors.text.primary,
+    letterSpacing: 1,
+  },
+  hint: {
+    fontSize: 13,
+    fontFamily: fonts.weights.medium,
+    color: colors.semantic.info,
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  errorContainer: {
+    marginBottom: 16,
+    padding: 12,
+    backgroundColor: '#FEE2E2',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.semantic.error,
+  },
+  errorText: {
+    fontSize: 14,
+    fontFamily: fonts.weights.medium,
+    color: colors.semantic.error,
+    textAlign: 'center',
+  },
+  submitButton: {
+    marginTop: 8,
+  },
+  doneButton: {
+    marginTop: 24,
+  },
+});
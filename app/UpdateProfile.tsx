@@ -3,7 +3,8 @@ import Input from '@/components/Input';
 import Select from '@/components/Select';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
+import { useTranslation } from '@/hooks/useTranslation';
+import { auth, getErrorFieldErrors } from '@/services';
 import { useUserStore } from '@/store/userStore';
 import { validateField, validateForm } from '@/validators';
 import { Ionicons } from '@expo/vector-icons';
@@ -25,29 +26,30 @@ import { z } from 'zod';
 const updateProfileSchema = z.object({
   firstName: z
     .string()
-    .min(1, 'First name is required')
-    .min(2, 'First name must be at least 2 characters')
-    .max(50, 'First name must be less than 50 characters'),
+    .min(1, 'validation.firstNameRequired')
+    .min(2, 'validation.firstNameMin')
+    .max(50, 'validation.firstNameMax'),
   middleName: z.string().optional(),
   lastName: z
     .string()
-    .min(1, 'Last name is required')
-    .min(2, 'Last name must be at least 2 characters')
-    .max(50, 'Last name must be less than 50 characters'),
+    .min(1, 'validation.lastNameRequired')
+    .min(2, 'validation.lastNameMin')
+    .max(50, 'validation.lastNameMax'),
   gender: z
     .number()
-    .min(1, 'Gender is required')
-    .max(3, 'Invalid gender selection'),
+    .min(1, 'validation.genderRequired')
+    .max(3, 'validation.genderInvalid'),
   birthDate: z
     .string()
-    .min(1, 'Birth date is required')
+    .min(1, 'validation.birthDateRequired')
     .refine(
       (val) => /^\d{4}-\d{2}-\d{2}$/.test(val),
-      'Please enter a valid date (YYYY-MM-DD)'
+      'validation.dateInvalid'
     ),
 });
 
 const UpdateProfile = () => {
+  const { t } = useTranslation();
   const { user, updateUser } = useUserStore();
   const [firstName, setFirstName] = useState('');
   const [middleName, setMiddleName] = useState('');
@@ -75,9 +77,9 @@ const UpdateProfile = () => {
   }, [user]);
 
   const genderOptions = [
-    { label: 'Male', value: 1 },
-    { label: 'Female', value: 2 },
-    { label: 'Transgender', value: 3 },
+    { label: t('staff.male'), value: 1 },
+    { label: t('staff.female'), value: 2 },
+    { label: t('staff.transgender'), value: 3 },
   ];
 
   // Validate single field on change
@@ -136,19 +138,13 @@ const UpdateProfile = () => {
 
     try {
       // Make API call to update profile
-      const response = await api.patch(
-        '/en/auth/user/profile',
-        {
-          firstName,
-          middleName: middleName || '',
-          lastName,
-          gender: gender!,
-          birthDate,
-        },
-        {
-          requiresAuth: true,
-        }
-      );
+      await auth.updateProfile({
+        firstName,
+        middleName: middleName || '',
+        lastName,
+        gender: gender!,
+        birthDate,
+      });
 
       // Update user in store
       updateUser({
@@ -163,11 +159,11 @@ const UpdateProfile = () => {
     } catch (error: any) {
       console.error('Update profile failed:', error);
       const errorMessage =
-        error?.message || error?.data?.message || 'Failed to update profile. Please try again.';
+        error?.message || error?.data?.message || t('updateProfile.updateFailed');
 
-      setErrors({
-        general: errorMessage,
-      });
+      // Server validation errors are shown on their fields; anything else as a general error
+      const fieldErrors = getErrorFieldErrors(error);
+      setErrors(Object.keys(fieldErrors).length > 0 ? fieldErrors : { general: errorMessage });
     } finally {
       setIsLoading(false);
     }
@@ -198,19 +194,19 @@ const UpdateProfile = () => {
             >
               <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
             </TouchableOpacity>
-            <Text style={styles.headerTitle}>Update Profile</Text>
+            <Text style={styles.headerTitle}>{t('profile.updateProfile')}</Text>
             <View style={styles.headerSpacer} />
           </View>
 
           {/* Form Section */}
           <View style={styles.form}>
             <Text style={styles.subtitle}>
-              Update your personal information. Make sure all details are accurate.
+              {t('updateProfile.subtitle')}
             </Text>
 
             <Input
-              label="First Name"
-              placeholder="Enter first name"
+              label={t('updateProfile.firstNameLabel')}
+              placeholder={t('staff.firstNamePlaceholder')}
               value={firstName}
               onChangeText={(text) => handleFieldChange('firstName', text)}
               autoCapitalize="words"
@@ -218,8 +214,8 @@ const UpdateProfile = () => {
             />
 
             <Input
-              label="Middle Name (Optional)"
-              placeholder="Enter middle name"
+              label={t('updateProfile.middleNameLabel')}
+              placeholder={t('updateProfile.middleNamePlaceholder')}
               value={middleName}
               onChangeText={(text) => handleFieldChange('middleName', text)}
               autoCapitalize="words"
@@ -227,8 +223,8 @@ const UpdateProfile = () => {
             />
 
             <Input
-              label="Last Name"
-              placeholder="Enter last name"
+              label={t('updateProfile.lastNameLabel')}
+              placeholder={t('staff.lastNamePlaceholder')}
               value={lastName}
               onChangeText={(text) => handleFieldChange('lastName', text)}
               autoCapitalize="words"
@@ -236,17 +232,17 @@ const UpdateProfile = () => {
             />
 
             <Select
-              label="Gender"
+              label={t('staff.gender')}
               options={genderOptions}
               value={gender}
               onValueChange={(value) => handleFieldChange('gender', value as number)}
-              placeholder="Select gender"
+              placeholder={t('updateProfile.genderPlaceholder')}
               error={errors.gender}
             />
 
             <Input
-              label="Birth Date"
-              placeholder="YYYY-MM-DD (e.g., 1996-05-23)"
+              label={t('staff.birthDate')}
+              placeholder={t('updateProfile.birthDatePlaceholder')}
               value={birthDate}
               onChangeText={(text) => handleFieldChange('birthDate', text)}
               keyboardType="numeric"
@@ -261,7 +257,7 @@ const UpdateProfile = () => {
             )}
 
             <Button
-              title="Update Profile"
+              title={t('profile.updateProfile')}
               variant="primary"
               onPress={handleUpdateProfile}
               loading={isLoading}
@@ -284,12 +280,12 @@ const UpdateProfile = () => {
             <View style={styles.successIconContainer}>
               <Ionicons name="checkmark-circle" size={64} color={colors.primary.green} />
             </View>
-            <Text style={styles.modalTitle}>Profile Updated</Text>
+            <Text style={styles.modalTitle}>{t('updateProfile.updatedTitle')}</Text>
             <Text style={styles.modalMessage}>
-              Your profile has been updated successfully.
+              {t('updateProfile.updatedMessage')}
             </Text>
             <Button
-              title="OK"
+              title={t('common.ok')}
               variant="primary"
               onPress={handleSuccessModalClose}
               style={styles.modalButton}
@@ -1,6 +1,10 @@
+import { withPermission } from '@/components/PermissionGuard';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
+import { PERMISSIONS } from '@/constants/permissions';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { useTranslation } from '@/hooks/useTranslation';
+import { isAbortError, OrganizationStaff, staff as staffApi, UserProfile } from '@/services';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { router, useLocalSearchParams } from 'expo-router';
@@ -19,32 +23,6 @@ import ViewStaffBranchesTab from './components/ViewStaffBranchesTab';
 import ViewStaffDetailsTab from './components/ViewStaffDetailsTab';
 import ViewStaffPermissionsTab from './components/ViewStaffPermissionsTab';
 
-interface Staff {
-  id: string;
-  firstName: string;
-  middleName: string;
-  lastName: string;
-  email: string;
-  phone: number;
-  country: string | null;
-  userNumber: string;
-  gender: number;
-  birthDate: string;
-  verified: boolean;
-  active: boolean;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface OrganizationStaff {
-  id: string;
-  organizationId: string;
-  userId: string;
-  staff: Staff;
-  createdAt: number;
-  updatedAt: number;
-}
-
 type TabType = 'details' | 'branches' | 'permissions' | 'account';
 
 const ViewStaff = () => {
@@ -53,10 +31,12 @@ const ViewStaff = () => {
   const [staffData, setStaffData] = useState<OrganizationStaff | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const getSignal = useAbortSignal();
+  const { t } = useTranslation();
 
   const fetchStaffDetails = useCallback(async () => {
     if (!organizationStaffId) {
-      setError('Staff ID is required');
+      setError(t('staff.idRequired'));
       setIsLoading(false);
       return;
     }
@@ -64,33 +44,33 @@ const ViewStaff = () => {
     setIsLoading(true);
     setError(null);
 
+    const signal = getSignal();
     try {
-      const response = await api.get<OrganizationStaff>(
-        `/en/on/staff/${organizationStaffId}/details`,
-        {
-          requiresAuth: true,
-        }
-      );
-
-      setStaffData(response.data);
+      const details = await staffApi.get(organizationStaffId, { signal });
+      setStaffData(details);
     } catch (err: any) {
-      setError(err?.message || 'Failed to load staff details. Please try again.');
+      if (isAbortError(err)) {
+        return;
+      }
+      setError(err?.message || t('staff.detailsLoadFailed'));
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
-  }, [organizationStaffId]);
+  }, [organizationStaffId, getSignal, t]);
 
   useEffect(() => {
     fetchStaffDetails();
   }, [fetchStaffDetails]);
 
-  const getStaffName = (staff: Staff): string => {
+  const getStaffName = (staff: UserProfile): string => {
     return [staff.firstName, staff.middleName, staff.lastName]
       .filter(Boolean)
-      .join(' ') || staff.email || 'Staff';
+      .join(' ') || staff.email || t('staff.fallbackName');
   };
 
-  const getStaffInitials = (staff: Staff): string => {
+  const getStaffInitials = (staff: UserProfile): string => {
     const firstName = staff.firstName || '';
     const lastName = staff.lastName || '';
     return `${firstName.charAt(0)}${lastName.charAt(0)}`.toUpperCase() || 'S';
@@ -99,13 +79,13 @@ const ViewStaff = () => {
   const getGenderLabel = (gender: number): string => {
     switch (gender) {
       case 1:
-        return 'Male';
+        return t('staff.male');
       case 2:
-        return 'Female';
+        return t('staff.female');
       case 3:
-        return 'Transgender';
+        return t('staff.transgender');
       default:
-        return 'Unknown';
+        return t('staff.unknown');
     }
   };
 
@@ -113,7 +93,7 @@ const ViewStaff = () => {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color={colors.primary.green} />
-        <Text style={styles.loadingText}>Loading staff details...</Text>
+        <Text style={styles.loadingText}>{t('staff.loadingDetails')}</Text>
       </View>
     );
   }
@@ -122,12 +102,12 @@ const ViewStaff = () => {
     return (
       <View style={styles.errorContainer}>
         <Ionicons name="alert-circle-outline" size={48} color={colors.semantic.error} />
-        <Text style={styles.errorText}>{error || 'Staff not found'}</Text>
+        <Text style={styles.errorText}>{error || t('staff.notFound')}</Text>
         <TouchableOpacity style={styles.retryButton} onPress={fetchStaffDetails} activeOpacity={0.7}>
-          <Text style={styles.retryButtonText}>Retry</Text>
+          <Text style={styles.retryButtonText}>{t('common.retry')}</Text>
         </TouchableOpacity>
         <TouchableOpacity style={styles.backButton} onPress={() => router.back()} activeOpacity={0.7}>
-          <Text style={styles.backButtonText}>Go Back</Text>
+          <Text style={styles.backButtonText}>{t('common.goBack')}</Text>
         </TouchableOpacity>
       </View>
     );
@@ -172,12 +152,12 @@ const ViewStaff = () => {
                   {staff.verified && (
                     <View style={styles.verifiedBadge}>
                       <Ionicons name="checkmark-circle" size={14} color={colors.primary.green} />
-                      <Text style={styles.verifiedText}>Verified</Text>
+                      <Text style={styles.verifiedText}>{t('common.verified')}</Text>
                     </View>
                   )}
                   {!staff.active && (
                     <View style={styles.inactiveBadge}>
-                      <Text style={styles.inactiveText}>Inactive</Text>
+                      <Text style={styles.inactiveText}>{t('common.inactive')}</Text>
                     </View>
                   )}
                 </View>
@@ -210,7 +190,7 @@ const ViewStaff = () => {
                 activeTab === 'details' && styles.tabTextActive,
               ]}
             >
-              Details
+              {t('staff.detailsTab')}
             </Text>
           </TouchableOpacity>
 
@@ -230,7 +210,7 @@ const ViewStaff = () => {
                 activeTab === 'branches' && styles.tabTextActive,
               ]}
             >
-              Branches
+              {t('staff.branchesTab')}
             </Text>
           </TouchableOpacity>
 
@@ -250,7 +230,7 @@ const ViewStaff = () => {
                 activeTab === 'permissions' && styles.tabTextActive,
               ]}
             >
-              Permissions
+              {t('staff.permissionsTab')}
             </Text>
           </TouchableOpacity>
 
@@ -270,7 +250,7 @@ const ViewStaff = () => {
                 activeTab === 'account' && styles.tabTextActive,
               ]}
             >
-              Account
+              {t('staff.accountTab')}
             </Text>
           </TouchableOpacity>
         </ScrollView>
@@ -287,7 +267,7 @@ const ViewStaff = () => {
   );
 };
 
-export default ViewStaff;
+export default withPermission(ViewStaff, PERMISSIONS.viewStaff);
 
 const styles = StyleSheet.create({
   container: {
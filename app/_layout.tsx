@@ -1,14 +1,29 @@
+import BookingAlertBanner from '@/components/BookingAlertBanner';
+import LockScreen from '@/components/LockScreen';
+import SchemaDriftOverlay from '@/components/SchemaDriftOverlay';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
+import { recordActivity, useAppLockMonitor } from '@/hooks/useAppLock';
+import { useBookingFeedMonitor } from '@/hooks/useBookingFeed';
+import { usePermissionRefreshMonitor } from '@/hooks/usePermissionRefresh';
+// Applies the dev settings' backend choice before the first request
+import '@/services/environment';
 import { Stack } from "expo-router";
 import { StatusBar } from "expo-status-bar";
 import { SafeAreaView } from 'react-native-safe-area-context';
 
 
 export default function RootLayout() {
+  useAppLockMonitor();
+  usePermissionRefreshMonitor();
+  useBookingFeedMonitor();
+
   return (
     <>
-      <SafeAreaView style={{ flex: 1, backgroundColor: colors.background.darkAccent }}>
+      <SafeAreaView
+        style={{ flex: 1, backgroundColor: colors.background.darkAccent }}
+        onTouchStart={recordActivity}
+      >
         <Stack
           screenOptions={{
             headerStyle: {
@@ -22,6 +37,12 @@ export default function RootLayout() {
         >
           <Stack.Screen name="index"   options={{  headerShown: false }} />
           <Stack.Screen name="Login" options={{ headerShown: false }} />
+          <Stack.Screen name="ForgotPassword" options={{ headerShown: false }} />
+          <Stack.Screen name="ResetPassword" options={{ headerShown: false }} />
+          <Stack.Screen name="TwoFactor" options={{ headerShown: false }} />
+          <Stack.Screen name="AppLock" options={{ headerShown: false }} />
+          <Stack.Screen name="Sessions" options={{ headerShown: false }} />
+          <Stack.Screen name="Onboarding" options={{ headerShown: false }} />
           <Stack.Screen name="SwitchAccount" options={{ headerShown: false }} />
           <Stack.Screen name="ChangePassword" options={{ headerShown: false }} />
           <Stack.Screen name="UpdateProfile" options={{ headerShown: false }} />
@@ -43,6 +64,7 @@ export default function RootLayout() {
           <Stack.Screen name="SubscriptionPlans" options={{ headerShown: false }} />
           <Stack.Screen name="Staffs" options={{ headerShown: false }} />
           <Stack.Screen name="ViewStaff" options={{ headerShown: false }} />
+          <Stack.Screen name="RoleTemplates" options={{ headerShown: false }} />
           <Stack.Screen name="IncomingRequestList" options={{ headerShown: false }} />
           <Stack.Screen name="IncomingRequestDetails" options={{ headerShown: false }} />
           <Stack.Screen name="ChatRoom" options={{ headerShown: false }} />
@@ -50,8 +72,13 @@ export default function RootLayout() {
           <Stack.Screen name="BookingHistory" options={{ title: 'Booking History', headerShown: false }} />  
           <Stack.Screen name="InvoiceHistory" options={{ title: 'Invoice History', headerShown: false }} />
           <Stack.Screen name="Notification" options={{ title: 'Notifications', headerShown: false }} />
+          <Stack.Screen name="PendingSync" options={{ title: 'Pending Sync', headerShown: false }} />
+          <Stack.Screen name="Diagnostics" options={{ title: 'Diagnostics', headerShown: false }} />
         </Stack>
       </SafeAreaView>
+      <SchemaDriftOverlay />
+      <BookingAlertBanner />
+      <LockScreen />
       <StatusBar style="light" />
     </>
   );
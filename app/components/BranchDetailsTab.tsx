@@ -1,34 +1,18 @@
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Branch } from '@/services';
 import { formatDateCustom } from '@/utils/date';
 import { Ionicons } from '@expo/vector-icons';
 import React from 'react';
 import { ScrollView, StyleSheet, Text, View } from 'react-native';
 
-interface Branch {
-  id: string;
-  organizationId: string;
-  isMain: boolean;
-  name: string;
-  longitude: number;
-  latitude: number;
-  accuracy: number | null;
-  contact: number;
-  description: string;
-  email: string;
-  stateProvince: string;
-  city: string;
-  location: string;
-  slotsId: string | null;
-  createdAt: number;
-  updatedAt: number;
-}
-
 interface BranchDetailsTabProps {
   branch: Branch;
 }
 
 const BranchDetailsTab: React.FC<BranchDetailsTabProps> = ({ branch }) => {
+  const { t } = useTranslation();
   return (
     <ScrollView
       style={styles.container}
@@ -38,20 +22,20 @@ const BranchDetailsTab: React.FC<BranchDetailsTabProps> = ({ branch }) => {
       {/* Description */}
       {branch.description && (
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Description</Text>
+          <Text style={styles.sectionTitle}>{t('common.description')}</Text>
           <Text style={styles.description}>{branch.description}</Text>
         </View>
       )}
 
       {/* Contact Information */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Contact Information</Text>
+        <Text style={styles.sectionTitle}>{t('branches.contactInformation')}</Text>
         <View style={styles.infoItem}>
           <View style={styles.infoIconContainer}>
             <Ionicons name="mail-outline" size={20} color={colors.primary.green} />
           </View>
           <View style={styles.infoContent}>
-            <Text style={styles.infoLabel}>Email</Text>
+            <Text style={styles.infoLabel}>{t('incomingRequest.email')}</Text>
             <Text style={styles.infoValue}>{branch.email}</Text>
           </View>
         </View>
@@ -60,7 +44,7 @@ const BranchDetailsTab: React.FC<BranchDetailsTabProps> = ({ branch }) => {
             <Ionicons name="call-outline" size={20} color={colors.primary.green} />
           </View>
           <View style={styles.infoContent}>
-            <Text style={styles.infoLabel}>Contact</Text>
+            <Text style={styles.infoLabel}>{t('incomingRequest.contact')}</Text>
             <Text style={styles.infoValue}>{branch.contact.toString()}</Text>
           </View>
         </View>
@@ -68,13 +52,13 @@ const BranchDetailsTab: React.FC<BranchDetailsTabProps> = ({ branch }) => {
 
       {/* Location Information */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Location</Text>
+        <Text style={styles.sectionTitle}>{t('incomingRequest.location')}</Text>
         <View style={styles.infoItem}>
           <View style={styles.infoIconContainer}>
             <Ionicons name="location-outline" size={20} color={colors.primary.green} />
           </View>
           <View style={styles.infoContent}>
-            <Text style={styles.infoLabel}>Address</Text>
+            <Text style={styles.infoLabel}>{t('branches.address')}</Text>
             <Text style={styles.infoValue}>{branch.location}</Text>
           </View>
         </View>
@@ -83,7 +67,7 @@ const BranchDetailsTab: React.FC<BranchDetailsTabProps> = ({ branch }) => {
             <Ionicons name="business-outline" size={20} color={colors.primary.green} />
           </View>
           <View style={styles.infoContent}>
-            <Text style={styles.infoLabel}>City</Text>
+            <Text style={styles.infoLabel}>{t('branches.city')}</Text>
             <Text style={styles.infoValue}>{branch.city}</Text>
           </View>
         </View>
@@ -92,7 +76,7 @@ const BranchDetailsTab: React.FC<BranchDetailsTabProps> = ({ branch }) => {
             <Ionicons name="map-outline" size={20} color={colors.primary.green} />
           </View>
           <View style={styles.infoContent}>
-            <Text style={styles.infoLabel}>State/Province</Text>
+            <Text style={styles.infoLabel}>{t('branches.stateProvince')}</Text>
             <Text style={styles.infoValue}>{branch.stateProvince}</Text>
           </View>
         </View>
@@ -101,7 +85,7 @@ const BranchDetailsTab: React.FC<BranchDetailsTabProps> = ({ branch }) => {
             <Ionicons name="navigate-outline" size={20} color={colors.primary.green} />
           </View>
           <View style={styles.infoContent}>
-            <Text style={styles.infoLabel}>Coordinates</Text>
+            <Text style={styles.infoLabel}>{t('branches.coordinates')}</Text>
             <Text style={styles.infoValue}>
               {branch.latitude.toFixed(6)}, {branch.longitude.toFixed(6)}
             </Text>
@@ -111,23 +95,23 @@ const BranchDetailsTab: React.FC<BranchDetailsTabProps> = ({ branch }) => {
 
       {/* Metadata */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Information</Text>
+        <Text style={styles.sectionTitle}>{t('branches.information')}</Text>
         <View style={styles.metadataItem}>
           <Ionicons name="calendar-outline" size={16} color={colors.neutral.gray.medium} />
           <Text style={styles.metadataText}>
-            Created: {formatDateCustom(branch.createdAt, 'MMMM DD, YYYY')}
+            {t('branches.createdOn', { date: formatDateCustom(branch.createdAt, 'MMMM DD, YYYY') })}
           </Text>
         </View>
         <View style={styles.metadataItem}>
           <Ionicons name="time-outline" size={16} color={colors.neutral.gray.medium} />
           <Text style={styles.metadataText}>
-            Updated: {formatDateCustom(branch.updatedAt, 'MMMM DD, YYYY')}
+            {t('branches.updatedOn', { date: formatDateCustom(branch.updatedAt, 'MMMM DD, YYYY') })}
           </Text>
         </View>
         {branch.isMain && (
           <View style={styles.metadataItem}>
             <Ionicons name="star" size={16} color={colors.secondary.orange} />
-            <Text style={styles.metadataText}>This is the main branch</Text>
+            <Text style={styles.metadataText}>{t('branches.isMain')}</Text>
           </View>
         )}
       </View>
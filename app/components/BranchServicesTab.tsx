@@ -1,11 +1,18 @@
+import PermissionButton from '@/components/PermissionButton';
 import Skeleton from '@/components/Skeleton';
 import Toast, { ToastType } from '@/components/Toast';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
+import { PERMISSIONS } from '@/constants/permissions';
+import { useLatestEntities } from '@/hooks/useEntities';
+import { useMutation, useQuery } from '@/hooks/useQuery';
+import { useTranslation } from '@/hooks/useTranslation';
+import { branches, services as servicesApi } from '@/services';
+import { queryKeys } from '@/services/queryKeys';
+import { useEntityStore } from '@/store/entityStore';
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -18,67 +25,14 @@ import {
   View,
 } from 'react-native';
 
-interface ThumbNail {
-  id: string;
-  name: string;
-  systemName: string;
-  fileSize: number;
-  mimeType: string;
-  fileSource: string;
-  userId: string;
-  deleted: boolean;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface ServiceMode {
-  id: number;
-  name: string;
-  isActive: boolean;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface Service {
-  id: string;
-  organizationId: string;
-  name: string;
-  description: string;
-  isPublic: boolean;
-  isDeleted: boolean;
-  modeId: number;
-  staffId: string;
-  thumbNailId: string | null;
-  thumbNail: ThumbNail | null;
-  mode: ServiceMode;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface BranchService {
-  id: string;
-  organizationId: string;
-  branchId: string;
-  serviceId: string;
-  isDeleted: boolean;
-  service: Service;
-  createdAt: number;
-  updatedAt: number;
-}
-
 interface BranchServicesTabProps {
   branchId: string;
 }
 
 const BranchServicesTab: React.FC<BranchServicesTabProps> = ({ branchId }) => {
-  const [services, setServices] = useState<BranchService[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { t } = useTranslation();
   const [isAddModalVisible, setIsAddModalVisible] = useState(false);
-  const [allServices, setAllServices] = useState<Service[]>([]);
-  const [isLoadingAllServices, setIsLoadingAllServices] = useState(false);
   const [selectedServiceIds, setSelectedServiceIds] = useState<Set<string>>(new Set());
-  const [isAddingServices, setIsAddingServices] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [toast, setToast] = useState<{ message: string; type: ToastType; visible: boolean }>({
     message: '',
@@ -86,34 +40,59 @@ const BranchServicesTab: React.FC<BranchServicesTabProps> = ({ branchId }) => {
     visible: false,
   });
 
-  const fetchServices = useCallback(async () => {
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      const response = await api.get<BranchService[]>(
-        `/en/on/branch/${branchId}/services`,
-        {
-          requiresAuth: true,
-        }
-      );
-
-      setServices(response.data || []);
-    } catch (err: any) {
-      setError(err?.message || 'Failed to load services. Please try again.');
-    } finally {
-      setIsLoading(false);
-    }
-  }, [branchId]);
+  const {
+    data: branchServices,
+    error: servicesError,
+    isLoading,
+    refresh: fetchServices,
+  } = useQuery(queryKeys.branches.services(branchId), ({ signal }) => branches.services(branchId, { signal }));
+  // Each branch service shows the latest copy of its service, e.g. after it was edited
+  const serviceTable = useEntityStore((state) => state.services);
+  const services = useMemo(
+    () =>
+      (branchServices || []).map((branchService) => ({
+        ...branchService,
+        service: { ...branchService.service, ...serviceTable[branchService.serviceId] },
+      })),
+    [branchServices, serviceTable]
+  );
+  const error = servicesError ? servicesError.message || t('branchServices.loadFailed') : null;
+
+  // The organization's services are only needed while picking services to add
+  const {
+    data: fetchedOrganizationServices,
+    error: allServicesError,
+    isLoading: isLoadingAllServices,
+  } = useQuery(queryKeys.services.list(), servicesApi.list, { enabled: isAddModalVisible });
+  const organizationServices = useLatestEntities('services', fetchedOrganizationServices);
+
+  const { mutate: addServices, isPending: isAddingServices } = useMutation(
+    (serviceIds: string[]) => branches.addServices(branchId, serviceIds),
+    { invalidates: [queryKeys.branches.services(branchId)] }
+  );
 
-  useEffect(() => {
-    fetchServices();
-  }, [fetchServices]);
+  const { mutate: removeService } = useMutation(branches.removeService, {
+    invalidates: [queryKeys.branches.services(branchId)],
+  });
 
   const showToast = (message: string, type: ToastType = 'info') => {
     setToast({ message, type, visible: true });
   };
 
+  useEffect(() => {
+    if (allServicesError) {
+      showToast(allServicesError.message || t('branchServices.loadFailed'), 'error');
+    }
+  }, [allServicesError, t]);
+
+  // Filter out services that are already assigned to this branch
+  const allServices = useMemo(() => {
+    const assignedServiceIds = new Set(services.map((bs) => bs.serviceId));
+    return (organizationServices || []).filter(
+      (service) => !assignedServiceIds.has(service.id) && !service.isDeleted
+    );
+  }, [organizationServices, services]);
+
   const hideToast = () => {
     setToast((prev) => ({ ...prev, visible: false }));
   };
@@ -125,34 +104,12 @@ const BranchServicesTab: React.FC<BranchServicesTabProps> = ({ branchId }) => {
     });
   };
 
-  const handleOpenAddModal = async () => {
+  const handleOpenAddModal = () => {
     setIsAddModalVisible(true);
     setSelectedServiceIds(new Set());
     setSearchQuery('');
-    await fetchAllServices();
   };
 
-  const fetchAllServices = useCallback(async () => {
-    setIsLoadingAllServices(true);
-    try {
-      const response = await api.get<Service[]>('/en/on/services', {
-        requiresAuth: true,
-      });
-
-      const allServicesData = response.data || [];
-      // Filter out services that are already assigned to this branch
-      const assignedServiceIds = new Set(services.map((bs) => bs.serviceId));
-      const availableServices = allServicesData.filter(
-        (service) => !assignedServiceIds.has(service.id) && !service.isDeleted
-      );
-      setAllServices(availableServices);
-    } catch (err: any) {
-      showToast(err?.message || 'Failed to load services. Please try again.', 'error');
-    } finally {
-      setIsLoadingAllServices(false);
-    }
-  }, [services]);
-
   const handleToggleServiceSelection = (serviceId: string) => {
     setSelectedServiceIds((prev) => {
       const newSet = new Set(prev);
@@ -167,70 +124,40 @@ const BranchServicesTab: React.FC<BranchServicesTabProps> = ({ branchId }) => {
 
   const handleAddServices = async () => {
     if (selectedServiceIds.size === 0) {
-      showToast('Please select at least one service', 'error');
+      showToast(t('branchServices.selectRequired'), 'error');
       return;
     }
 
-    setIsAddingServices(true);
     try {
-      const response = await api.post<{ success: boolean }>(
-        '/en/on/add/service/branch',
-        {
-          branchId,
-          serviceId: Array.from(selectedServiceIds),
-        },
-        {
-          requiresAuth: true,
-        }
-      );
+      await addServices(Array.from(selectedServiceIds));
 
-      if (response.status === 200 || response.status === 201) {
-        showToast('Services added successfully', 'success');
-        setIsAddModalVisible(false);
-        setSelectedServiceIds(new Set());
-        await fetchServices(); // Refresh the list
-      }
+      showToast(t('branchServices.added'), 'success');
+      setIsAddModalVisible(false);
+      setSelectedServiceIds(new Set());
     } catch (err: any) {
-      showToast(err?.message || 'Failed to add services. Please try again.', 'error');
-    } finally {
-      setIsAddingServices(false);
+      showToast(err?.message || t('branchServices.addFailed'), 'error');
     }
   };
 
   const handleRemoveService = (serviceBranchId: string, serviceName: string) => {
     Alert.alert(
-      'Remove Service',
-      `Are you sure you want to remove "${serviceName}" from this branch?`,
+      t('branchServices.removeTitle'),
+      t('branchServices.removeMessage', { name: serviceName }),
       [
         {
-          text: 'Cancel',
+          text: t('common.cancel'),
           style: 'cancel',
         },
         {
-          text: 'Remove',
+          text: t('branchServices.remove'),
           style: 'destructive',
           onPress: async () => {
             try {
-              const response = await api.delete(
-                `/en/on/remove/service/branch/${serviceBranchId}`,
-                {
-                  requiresAuth: true,
-                }
-              );
+              await removeService(serviceBranchId);
 
-              // Handle 204 status code as success
-              if (response.status === 204 || response.status === 200) {
-                showToast(`${serviceName} removed successfully`, 'success');
-                await fetchServices(); // Refresh the list
-              }
+              showToast(t('branchServices.removed', { name: serviceName }), 'success');
             } catch (err: any) {
-              // Also check if status is 204 in error response
-              if (err?.response?.status === 204) {
-                showToast(`${serviceName} removed successfully`, 'success');
-                await fetchServices(); // Refresh the list
-              } else {
-                showToast(err?.message || 'Failed to remove service. Please try again.', 'error');
-              }
+              showToast(err?.message || t('branchServices.removeFailed'), 'error');
             }
           },
         },
@@ -269,7 +196,7 @@ const BranchServicesTab: React.FC<BranchServicesTabProps> = ({ branchId }) => {
           onPress={fetchServices}
           activeOpacity={0.7}
         >
-          <Text style={styles.retryButtonText}>Retry</Text>
+          <Text style={styles.retryButtonText}>{t('common.retry')}</Text>
         </TouchableOpacity>
       </View>
     );
@@ -284,7 +211,7 @@ const BranchServicesTab: React.FC<BranchServicesTabProps> = ({ branchId }) => {
         onHide={hideToast}
       />
       <View style={styles.header}>
-        <Text style={styles.headerTitle}>Branch Services</Text>
+        <Text style={styles.headerTitle}>{t('branchServices.title')}</Text>
         <View style={styles.headerActions}>
         <TouchableOpacity
           style={styles.addButton}
@@ -306,9 +233,9 @@ const BranchServicesTab: React.FC<BranchServicesTabProps> = ({ branchId }) => {
       {services.length === 0 ? (
         <View style={styles.emptyContainer}>
           <Ionicons name="grid-outline" size={64} color={colors.neutral.gray.light} />
-          <Text style={styles.emptyText}>No services available</Text>
+          <Text style={styles.emptyText}>{t('branchServices.empty')}</Text>
           <Text style={styles.emptySubtext}>
-            This branch doesn't have any services yet
+            {t('branchServices.emptySubtitle')}
           </Text>
         </View>
       ) : (
@@ -332,7 +259,7 @@ const BranchServicesTab: React.FC<BranchServicesTabProps> = ({ branchId }) => {
                     {!branchService.service.isPublic && (
                       <View style={styles.privateBadge}>
                         <Ionicons name="lock-closed" size={12} color={colors.neutral.gray.dark} />
-                        <Text style={styles.privateBadgeText}>Private</Text>
+                        <Text style={styles.privateBadgeText}>{t('common.private')}</Text>
                       </View>
                     )}
                   </View>
@@ -346,13 +273,15 @@ const BranchServicesTab: React.FC<BranchServicesTabProps> = ({ branchId }) => {
                   color={colors.neutral.gray.medium}
                 />
               </TouchableOpacity>
-              <TouchableOpacity
+              <PermissionButton
+                permission={PERMISSIONS.manageBranches}
+                hideWhenNoPermission
                 style={styles.removeButton}
                 onPress={() => handleRemoveService(branchService.id, branchService.service.name)}
                 activeOpacity={0.7}
               >
                 <Ionicons name="trash-outline" size={18} color={colors.semantic.error} />
-              </TouchableOpacity>
+              </PermissionButton>
             </View>
           ))}
         </ScrollView>
@@ -368,7 +297,7 @@ const BranchServicesTab: React.FC<BranchServicesTabProps> = ({ branchId }) => {
         <View style={styles.modalOverlay}>
           <View style={styles.modalContent}>
             <View style={styles.modalHeader}>
-              <Text style={styles.modalTitle}>Add Services to Branch</Text>
+              <Text style={styles.modalTitle}>{t('branchServices.addTitle')}</Text>
               <TouchableOpacity
                 onPress={() => setIsAddModalVisible(false)}
                 activeOpacity={0.7}
@@ -387,7 +316,7 @@ const BranchServicesTab: React.FC<BranchServicesTabProps> = ({ branchId }) => {
               />
               <TextInput
                 style={styles.searchInput}
-                placeholder="Search services..."
+                placeholder={t('branchServices.search')}
                 placeholderTextColor={colors.neutral.gray.medium}
                 value={searchQuery}
                 onChangeText={setSearchQuery}
@@ -410,13 +339,13 @@ const BranchServicesTab: React.FC<BranchServicesTabProps> = ({ branchId }) => {
             {isLoadingAllServices ? (
               <View style={styles.modalLoadingContainer}>
                 <ActivityIndicator size="large" color={colors.primary.green} />
-                <Text style={styles.modalLoadingText}>Loading services...</Text>
+                <Text style={styles.modalLoadingText}>{t('branchServices.loading')}</Text>
               </View>
             ) : filteredAllServices.length === 0 ? (
               <View style={styles.modalEmptyContainer}>
                 <Ionicons name="grid-outline" size={48} color={colors.neutral.gray.light} />
                 <Text style={styles.modalEmptyText}>
-                  {searchQuery ? 'No services found' : 'No available services'}
+                  {searchQuery ? t('branchServices.notFound') : t('branchServices.noneAvailable')}
                 </Text>
               </View>
             ) : (
@@ -471,7 +400,7 @@ const BranchServicesTab: React.FC<BranchServicesTabProps> = ({ branchId }) => {
                 onPress={() => setIsAddModalVisible(false)}
                 activeOpacity={0.7}
               >
-                <Text style={styles.modalCancelButtonText}>Cancel</Text>
+                <Text style={styles.modalCancelButtonText}>{t('common.cancel')}</Text>
               </TouchableOpacity>
               <TouchableOpacity
                 style={[
@@ -486,7 +415,7 @@ const BranchServicesTab: React.FC<BranchServicesTabProps> = ({ branchId }) => {
                   <ActivityIndicator size="small" color={colors.text.inverse} />
                 ) : (
                   <Text style={styles.modalAddButtonText}>
-                    Add ({selectedServiceIds.size})
+                    {t('branchServices.add', { count: selectedServiceIds.size })}
                   </Text>
                 )}
               </TouchableOpacity>
@@ -1,10 +1,16 @@
+import PermissionButton from '@/components/PermissionButton';
 import Skeleton from '@/components/Skeleton';
 import Toast, { ToastType } from '@/components/Toast';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
+import { PERMISSIONS } from '@/constants/permissions';
+import { useMutation, useQuery } from '@/hooks/useQuery';
+import { useTranslation } from '@/hooks/useTranslation';
+import { branches, BranchStaff, staff as staffApi, UserProfile } from '@/services';
+import { queryKeys } from '@/services/queryKeys';
+import { confirmSensitiveAction } from '@/store/appLockStore';
 import { Ionicons } from '@expo/vector-icons';
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
   Modal,
@@ -16,101 +22,71 @@ import {
   View,
 } from 'react-native';
 
-interface Staff {
-  id: string;
-  firstName: string;
-  middleName: string;
-  lastName: string;
-  email: string;
-  phone: number;
-  country: string | null;
-  userNumber: string;
-  gender: number;
-  birthDate: string;
-  verified: boolean;
-  active: boolean;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface BranchStaff {
-  id: string;
-  organizationId: string;
-  branch_id: string;
-  userId: string;
-  isLocked: boolean;
-  staff: Staff;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface OrganizationStaff {
-  id: string;
-  organizationId: string;
-  userId: string;
-  staff: Staff;
-  createdAt: number;
-  updatedAt: number;
-}
-
 interface BranchStaffsTabProps {
   branchId: string;
 }
 
 const BranchStaffsTab: React.FC<BranchStaffsTabProps> = ({ branchId }) => {
-  const [staffs, setStaffs] = useState<BranchStaff[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { t } = useTranslation();
   const [isAddModalVisible, setIsAddModalVisible] = useState(false);
-  const [allStaffs, setAllStaffs] = useState<OrganizationStaff[]>([]);
-  const [isLoadingAllStaffs, setIsLoadingAllStaffs] = useState(false);
   const [selectedStaffIds, setSelectedStaffIds] = useState<Set<string>>(new Set());
-  const [isAddingStaffs, setIsAddingStaffs] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [isLockModalVisible, setIsLockModalVisible] = useState(false);
   const [lockingStaff, setLockingStaff] = useState<BranchStaff | null>(null);
   const [lockReason, setLockReason] = useState('');
-  const [isLocking, setIsLocking] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: ToastType; visible: boolean }>({
     message: '',
     type: 'info',
     visible: false,
   });
 
-  const fetchStaffs = useCallback(async () => {
-    setIsLoading(true);
-    setError(null);
+  const {
+    data: branchStaffs,
+    error: staffsError,
+    isLoading,
+    refresh: fetchStaffs,
+  } = useQuery(queryKeys.branches.staffs(branchId), ({ signal }) => branches.staffs(branchId, { signal }));
+  const staffs = useMemo(() => branchStaffs || [], [branchStaffs]);
+  const error = staffsError ? staffsError.message || t('staff.loadFailed') : null;
 
-    try {
-      const response = await api.get<BranchStaff[]>(
-        `/en/on/branch/${branchId}/staffs`,
-        {
-          requiresAuth: true,
-        }
-      );
+  // The organization's staff are only needed while picking staff to assign
+  const {
+    data: organizationStaffs,
+    error: allStaffsError,
+    isLoading: isLoadingAllStaffs,
+  } = useQuery(queryKeys.staff.list(), staffApi.list, { enabled: isAddModalVisible });
 
-      setStaffs(response.data || []);
-    } catch (err: any) {
-      setError(err?.message || 'Failed to load staffs. Please try again.');
-    } finally {
-      setIsLoading(false);
-    }
-  }, [branchId]);
+  const { mutate: addStaffs, isPending: isAddingStaffs } = useMutation(
+    (userIds: string[]) => Promise.all(userIds.map((userId) => branches.addStaff(branchId, userId))),
+    { invalidates: [queryKeys.branches.staffs(branchId)] }
+  );
 
-  useEffect(() => {
-    fetchStaffs();
-  }, [fetchStaffs]);
+  const { mutate: lockStaff, isPending: isLocking } = useMutation(
+    ({ branchUserId, locked, reasons }: { branchUserId: string; locked: boolean; reasons: string }) =>
+      branches.lockStaff(branchUserId, locked, reasons),
+    { invalidates: [queryKeys.branches.staffs(branchId)] }
+  );
+
+  // Filter out staff that are already assigned to this branch and not locked
+  const allStaffs = useMemo(() => {
+    const assignedStaffIds = new Set(
+      staffs.filter((bs) => !bs.isLocked).map((bs) => bs.userId)
+    );
+    return (organizationStaffs || []).filter(
+      (orgStaff) => !assignedStaffIds.has(orgStaff.userId) && orgStaff.staff.active
+    );
+  }, [organizationStaffs, staffs]);
 
-  const getStaffInitials = (staff: Staff): string => {
+  const getStaffInitials = (staff: UserProfile): string => {
     const firstName = staff.firstName || '';
     const lastName = staff.lastName || '';
     return `${firstName.charAt(0)}${lastName.charAt(0)}`.toUpperCase() || 'S';
   };
 
-  const getStaffName = (staff: Staff): string => {
+  const getStaffName = (staff: UserProfile): string => {
     return [staff.firstName, staff.middleName, staff.lastName]
       .filter(Boolean)
-      .join(' ') || staff.email || 'Staff';
+      .join(' ') || staff.email || t('staff.fallbackName');
   };
 
   const showToast = (message: string, type: ToastType = 'info') => {
@@ -121,36 +97,18 @@ const BranchStaffsTab: React.FC<BranchStaffsTabProps> = ({ branchId }) => {
     setToast((prev) => ({ ...prev, visible: false }));
   };
 
-  const handleOpenAddModal = async () => {
+  useEffect(() => {
+    if (allStaffsError) {
+      showToast(allStaffsError.message || t('staff.loadFailed'), 'error');
+    }
+  }, [allStaffsError, t]);
+
+  const handleOpenAddModal = () => {
     setIsAddModalVisible(true);
     setSelectedStaffIds(new Set());
     setSearchQuery('');
-    await fetchAllStaffs();
   };
 
-  const fetchAllStaffs = useCallback(async () => {
-    setIsLoadingAllStaffs(true);
-    try {
-      const response = await api.get<OrganizationStaff[]>('/en/on/staffs', {
-        requiresAuth: true,
-      });
-
-      const allStaffsData = response.data || [];
-      // Filter out staff that are already assigned to this branch and not locked
-      const assignedStaffIds = new Set(
-        staffs.filter((bs) => !bs.isLocked).map((bs) => bs.userId)
-      );
-      const availableStaffs = allStaffsData.filter(
-        (orgStaff) => !assignedStaffIds.has(orgStaff.userId) && orgStaff.staff.active
-      );
-      setAllStaffs(availableStaffs);
-    } catch (err: any) {
-      showToast(err?.message || 'Failed to load staffs. Please try again.', 'error');
-    } finally {
-      setIsLoadingAllStaffs(false);
-    }
-  }, [staffs]);
-
   const handleToggleStaffSelection = (staffId: string) => {
     setSelectedStaffIds((prev) => {
       const newSet = new Set(prev);
@@ -165,34 +123,17 @@ const BranchStaffsTab: React.FC<BranchStaffsTabProps> = ({ branchId }) => {
 
   const handleAddStaffs = async () => {
     if (selectedStaffIds.size === 0) {
-      showToast('Please select at least one staff member', 'error');
+      showToast(t('branchStaff.selectStaff'), 'error');
       return;
     }
 
-    setIsAddingStaffs(true);
     try {
-      const staffIdsArray = Array.from(selectedStaffIds);
-      const promises = staffIdsArray.map((userId) =>
-        api.post(
-          `/en/on/staff/${userId}`,
-          {
-            branchId: branchId,
-          },
-          {
-            requiresAuth: true,
-          }
-        )
-      );
-
-      await Promise.all(promises);
-      showToast('Staff assigned successfully', 'success');
+      await addStaffs(Array.from(selectedStaffIds));
+      showToast(t('branchStaff.assigned'), 'success');
       setIsAddModalVisible(false);
       setSelectedStaffIds(new Set());
-      await fetchStaffs(); // Refresh the list
     } catch (err: any) {
-      showToast(err?.message || 'Failed to assign staff. Please try again.', 'error');
-    } finally {
-      setIsAddingStaffs(false);
+      showToast(err?.message || t('branchStaff.assignFailed'), 'error');
     }
   };
 
@@ -210,34 +151,23 @@ const BranchStaffsTab: React.FC<BranchStaffsTabProps> = ({ branchId }) => {
 
   const handleSubmitLock = async () => {
     if (!lockingStaff || !lockReason.trim()) {
-      showToast('Please provide a reason for this action', 'error');
+      showToast(t('staff.reasonRequired'), 'error');
       return;
     }
 
-    setIsLocking(true);
+    if (!(await confirmSensitiveAction(lockingStaff.isLocked ? t('branchStaff.unlockPrompt') : t('branchStaff.lockPrompt')))) return;
+
     try {
-      await api.patch(
-        '/en/on/staff/branch/lock',
-        {
-          branchUserId: lockingStaff.id,
-          reasons: lockReason.trim(),
-          locked: !lockingStaff.isLocked,
-        },
-        {
-          requiresAuth: true,
-        }
-      );
+      await lockStaff({
+        branchUserId: lockingStaff.id,
+        locked: !lockingStaff.isLocked,
+        reasons: lockReason.trim(),
+      });
 
-      showToast(
-        `Staff ${lockingStaff.isLocked ? 'unlocked' : 'locked'} successfully`,
-        'success'
-      );
+      showToast(lockingStaff.isLocked ? t('branchStaff.unlocked') : t('branchStaff.locked'), 'success');
       handleCloseLockModal();
-      await fetchStaffs(); // Refresh the list
     } catch (err: any) {
-      showToast(err?.message || 'Failed to update staff status. Please try again.', 'error');
-    } finally {
-      setIsLocking(false);
+      showToast(err?.message || t('branchStaff.statusFailed'), 'error');
     }
   };
 
@@ -278,7 +208,7 @@ const BranchStaffsTab: React.FC<BranchStaffsTabProps> = ({ branchId }) => {
           onPress={fetchStaffs}
           activeOpacity={0.7}
         >
-          <Text style={styles.retryButtonText}>Retry</Text>
+          <Text style={styles.retryButtonText}>{t('common.retry')}</Text>
         </TouchableOpacity>
       </View>
     );
@@ -293,7 +223,7 @@ const BranchStaffsTab: React.FC<BranchStaffsTabProps> = ({ branchId }) => {
         onHide={hideToast}
       />
       <View style={styles.header}>
-        <Text style={styles.headerTitle}>Branch Staff</Text>
+        <Text style={styles.headerTitle}>{t('branchStaff.title')}</Text>
         <View style={styles.headerActions}>
         <TouchableOpacity
           style={styles.addButton}
@@ -315,9 +245,9 @@ const BranchStaffsTab: React.FC<BranchStaffsTabProps> = ({ branchId }) => {
       {staffs.length === 0 ? (
         <View style={styles.emptyContainer}>
           <Ionicons name="people-outline" size={64} color={colors.neutral.gray.light} />
-          <Text style={styles.emptyText}>No staff members</Text>
+          <Text style={styles.emptyText}>{t('branchStaff.empty')}</Text>
           <Text style={styles.emptySubtext}>
-            This branch doesn't have any staff members yet
+            {t('branchStaff.emptyHint')}
           </Text>
         </View>
       ) : (
@@ -339,7 +269,7 @@ const BranchStaffsTab: React.FC<BranchStaffsTabProps> = ({ branchId }) => {
                   {branchStaff.isLocked && (
                     <View style={styles.lockedBadge}>
                       <Ionicons name="lock-closed" size={12} color={colors.semantic.error} />
-                      <Text style={styles.lockedText}>Locked</Text>
+                      <Text style={styles.lockedText}>{t('staff.locked')}</Text>
                     </View>
                   )}
                 </View>
@@ -370,17 +300,19 @@ const BranchStaffsTab: React.FC<BranchStaffsTabProps> = ({ branchId }) => {
                   {branchStaff.staff.verified && (
                     <View style={styles.verifiedBadge}>
                       <Ionicons name="checkmark-circle" size={12} color={colors.primary.green} />
-                      <Text style={styles.verifiedText}>Verified</Text>
+                      <Text style={styles.verifiedText}>{t('common.verified')}</Text>
                     </View>
                   )}
                   {!branchStaff.staff.active && (
                     <View style={styles.inactiveBadge}>
-                      <Text style={styles.inactiveText}>Inactive</Text>
+                      <Text style={styles.inactiveText}>{t('common.inactive')}</Text>
                     </View>
                   )}
                 </View>
               </View>
-              <TouchableOpacity
+              <PermissionButton
+                permission={PERMISSIONS.manageStaff}
+                hideWhenNoPermission
                 style={styles.lockButton}
                 onPress={() => handleOpenLockModal(branchStaff)}
                 activeOpacity={0.7}
@@ -390,7 +322,7 @@ const BranchStaffsTab: React.FC<BranchStaffsTabProps> = ({ branchId }) => {
                   size={18}
                   color={branchStaff.isLocked ? colors.primary.green : colors.semantic.error}
                 />
-              </TouchableOpacity>
+              </PermissionButton>
             </View>
           ))}
         </ScrollView>
@@ -406,7 +338,7 @@ const BranchStaffsTab: React.FC<BranchStaffsTabProps> = ({ branchId }) => {
         <View style={styles.modalOverlay}>
           <View style={styles.modalContent}>
             <View style={styles.modalHeader}>
-              <Text style={styles.modalTitle}>Add Staff to Branch</Text>
+              <Text style={styles.modalTitle}>{t('branchStaff.addTitle')}</Text>
               <TouchableOpacity
                 onPress={() => setIsAddModalVisible(false)}
                 activeOpacity={0.7}
@@ -425,7 +357,7 @@ const BranchStaffsTab: React.FC<BranchStaffsTabProps> = ({ branchId }) => {
               />
               <TextInput
                 style={styles.searchInput}
-                placeholder="Search staff..."
+                placeholder={t('branchStaff.search')}
                 placeholderTextColor={colors.neutral.gray.medium}
                 value={searchQuery}
                 onChangeText={setSearchQuery}
@@ -448,13 +380,13 @@ const BranchStaffsTab: React.FC<BranchStaffsTabProps> = ({ branchId }) => {
             {isLoadingAllStaffs ? (
               <View style={styles.modalLoadingContainer}>
                 <ActivityIndicator size="large" color={colors.primary.green} />
-                <Text style={styles.modalLoadingText}>Loading staff...</Text>
+                <Text style={styles.modalLoadingText}>{t('branchStaff.loading')}</Text>
               </View>
             ) : filteredAllStaffs.length === 0 ? (
               <View style={styles.modalEmptyContainer}>
                 <Ionicons name="people-outline" size={48} color={colors.neutral.gray.light} />
                 <Text style={styles.modalEmptyText}>
-                  {searchQuery ? 'No staff found' : 'No available staff'}
+                  {searchQuery ? t('staff.noResults') : t('branchStaff.noAvailable')}
                 </Text>
               </View>
             ) : (
@@ -496,7 +428,7 @@ const BranchStaffsTab: React.FC<BranchStaffsTabProps> = ({ branchId }) => {
                         {orgStaff.staff.verified && (
                           <View style={styles.staffSelectVerified}>
                             <Ionicons name="checkmark-circle" size={12} color={colors.primary.green} />
-                            <Text style={styles.staffSelectVerifiedText}>Verified</Text>
+                            <Text style={styles.staffSelectVerifiedText}>{t('common.verified')}</Text>
                           </View>
                         )}
                       </View>
@@ -513,7 +445,7 @@ const BranchStaffsTab: React.FC<BranchStaffsTabProps> = ({ branchId }) => {
                 onPress={() => setIsAddModalVisible(false)}
                 activeOpacity={0.7}
               >
-                <Text style={styles.modalCancelButtonText}>Cancel</Text>
+                <Text style={styles.modalCancelButtonText}>{t('common.cancel')}</Text>
               </TouchableOpacity>
               <TouchableOpacity
                 style={[
@@ -528,7 +460,7 @@ const BranchStaffsTab: React.FC<BranchStaffsTabProps> = ({ branchId }) => {
                   <ActivityIndicator size="small" color={colors.text.inverse} />
                 ) : (
                   <Text style={styles.modalAddButtonText}>
-                    Add ({selectedStaffIds.size})
+                    {t('branchStaff.add', { count: selectedStaffIds.size })}
                   </Text>
                 )}
               </TouchableOpacity>
@@ -548,7 +480,7 @@ const BranchStaffsTab: React.FC<BranchStaffsTabProps> = ({ branchId }) => {
           <View style={styles.lockModalContent}>
             <View style={styles.lockModalHeader}>
               <Text style={styles.lockModalTitle}>
-                {lockingStaff?.isLocked ? 'Unlock Staff' : 'Lock Staff'}
+                {lockingStaff?.isLocked ? t('branchStaff.unlockTitle') : t('branchStaff.lockTitle')}
               </Text>
               <TouchableOpacity
                 onPress={handleCloseLockModal}
@@ -561,15 +493,15 @@ const BranchStaffsTab: React.FC<BranchStaffsTabProps> = ({ branchId }) => {
 
             <Text style={styles.lockModalDescription}>
               {lockingStaff?.isLocked
-                ? `Provide a reason for unlocking "${lockingStaff ? getStaffName(lockingStaff.staff) : 'this staff'}" from this branch.`
-                : `Provide a reason for locking "${lockingStaff ? getStaffName(lockingStaff.staff) : 'this staff'}" from this branch.`}
+                ? t('branchStaff.unlockReason', { name: getStaffName(lockingStaff.staff) })
+                : t('branchStaff.lockReason', { name: lockingStaff ? getStaffName(lockingStaff.staff) : '' })}
             </Text>
 
             <View style={styles.lockReasonContainer}>
-              <Text style={styles.lockReasonLabel}>Reason *</Text>
+              <Text style={styles.lockReasonLabel}>{t('staff.reasonLabel')}</Text>
               <TextInput
                 style={styles.lockReasonInput}
-                placeholder="Enter reason for this action"
+                placeholder={t('staff.reasonPlaceholder')}
                 placeholderTextColor={colors.neutral.gray.medium}
                 value={lockReason}
                 onChangeText={setLockReason}
@@ -595,7 +527,7 @@ const BranchStaffsTab: React.FC<BranchStaffsTabProps> = ({ branchId }) => {
                 disabled={isLocking}
                 activeOpacity={0.7}
               >
-                <Text style={styles.lockModalCancelButtonText}>Cancel</Text>
+                <Text style={styles.lockModalCancelButtonText}>{t('common.cancel')}</Text>
               </TouchableOpacity>
               <TouchableOpacity
                 style={[
@@ -610,7 +542,7 @@ const BranchStaffsTab: React.FC<BranchStaffsTabProps> = ({ branchId }) => {
                 activeOpacity={0.7}
               >
                 <Text style={styles.lockModalActionButtonText}>
-                  {lockingStaff?.isLocked ? 'Unlock' : 'Lock'}
+                  {lockingStaff?.isLocked ? t('staff.unlock') : t('staff.lock')}
                 </Text>
               </TouchableOpacity>
             </View>
@@ -1,6 +1,8 @@
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { useTranslation } from '@/hooks/useTranslation';
+import { BookingActivity, bookings, isAbortError } from '@/services';
 import { formatDateTime } from '@/utils/date';
 import { Ionicons } from '@expo/vector-icons';
 import React, { useCallback, useEffect, useState } from 'react';
@@ -12,25 +14,6 @@ import {
   View,
 } from 'react-native';
 
-interface Activity {
-  id: string;
-  description: string;
-  bookServiceId: string;
-  status: string;
-  user_id: string;
-  user: {
-    id: string;
-    firstName: string;
-    middleName: string;
-    lastName: string;
-    email: string;
-    phone: number;
-    userNumber: string;
-  };
-  createdAt: number;
-  updatedAt: number;
-}
-
 interface IncomingRequestActivitiesTabProps {
   bookedServiceId: string;
   isCompleted?: boolean;
@@ -40,26 +23,29 @@ const IncomingRequestActivitiesTab: React.FC<IncomingRequestActivitiesTabProps>
   bookedServiceId,
   isCompleted = false,
 }) => {
-  const [activities, setActivities] = useState<Activity[]>([]);
+  const { t } = useTranslation();
+  const [activities, setActivities] = useState<BookingActivity[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const getSignal = useAbortSignal();
 
   const fetchActivities = useCallback(async () => {
     setIsLoading(true);
+    const signal = getSignal();
     try {
-      const response = await api.get<Activity[]>(
-        `/en/auth/book/service/${bookedServiceId}/processes`,
-        {
-          requiresAuth: true,
-        }
-      );
+      const data = await bookings.activities(bookedServiceId, { signal });
 
-      setActivities(response.data || []);
+      setActivities(data || []);
     } catch (err: any) {
+      if (isAbortError(err)) {
+        return;
+      }
       setActivities([]);
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
-  }, [bookedServiceId]);
+  }, [bookedServiceId, getSignal]);
 
   useEffect(() => {
     fetchActivities();
@@ -95,7 +81,7 @@ const IncomingRequestActivitiesTab: React.FC<IncomingRequestActivitiesTabProps>
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color={colors.primary.green} />
-        <Text style={styles.loadingText}>Loading activities...</Text>
+        <Text style={styles.loadingText}>{t('incomingRequest.loadingActivities')}</Text>
       </View>
     );
   }
@@ -104,7 +90,7 @@ const IncomingRequestActivitiesTab: React.FC<IncomingRequestActivitiesTabProps>
     return (
       <View style={styles.emptyContainer}>
         <Ionicons name="time-outline" size={48} color={colors.neutral.gray.light} />
-        <Text style={styles.emptyText}>No activities found</Text>
+        <Text style={styles.emptyText}>{t('incomingRequest.noActivities')}</Text>
       </View>
     );
   }
@@ -1,11 +1,22 @@
 import { ToastType } from '@/components/Toast';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { useOutboxItems } from '@/hooks/useOutbox';
+import { useTranslation } from '@/hooks/useTranslation';
+import {
+  AcceptStatus,
+  BookedService,
+  bookings,
+  invoices as invoicesApi,
+  isAbortError,
+  withIdempotencyKey,
+} from '@/services';
+import { runOrQueue } from '@/services/outbox';
 import { formatDateTime } from '@/utils/date';
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -16,57 +27,8 @@ import {
   View
 } from 'react-native';
 
-interface RequestDetails {
-  id: string;
-  bookCode: string;
-  description: string;
-  organizationId: string;
-  branchId: string;
-  customerId: string;
-  staffId: string | null;
-  serviceId: string;
-  priceId: string | null;
-  bookedDate: number;
-  acceptedDate: number | null;
-  isAccepted: boolean;
-  isActive: boolean;
-  isHomeWorkRequest: boolean;
-  isCancelled: boolean;
-  isDeclined: boolean;
-  isCompleted: boolean;
-  completedDate: number | null;
-  service: {
-    id: string;
-    name: string;
-    description: string;
-    mode: {
-      id: number;
-      name: string;
-    };
-  };
-  branch: {
-    id: string;
-    name: string;
-    email: string;
-    contact: number;
-    location: string;
-    city: string;
-    stateProvince: string;
-  };
-  customer: {
-    id: string;
-    firstName: string;
-    middleName: string;
-    lastName: string;
-    email: string;
-    phone: number;
-    country: string;
-    userNumber: string;
-  };
-}
-
 interface IncomingRequestDetailsTabProps {
-  request: RequestDetails;
+  request: BookedService;
   onRefresh: () => void;
   onToast: (message: string, type: ToastType) => void;
 }
@@ -76,6 +38,7 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
   onRefresh,
   onToast,
 }) => {
+  const { t } = useTranslation();
   const [isAccepting, setIsAccepting] = useState(false);
   const [isCancelling, setIsCancelling] = useState(false);
   const [isCompleting, setIsCompleting] = useState(false);
@@ -85,91 +48,43 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
   const [statusCheckComplete, setStatusCheckComplete] = useState(false);
   const [invoices, setInvoices] = useState<Array<{ isPublished: boolean }>>([]);
   const [isLoadingInvoices, setIsLoadingInvoices] = useState(false);
+  const getSignal = useAbortSignal();
+  const queuedCompletion = useOutboxItems(request.id, 'bookings.complete')[0];
+  const hadQueuedCompletion = useRef(!!queuedCompletion);
 
+  // Reload once a completion made offline has been synced
+  useEffect(() => {
+    if (hadQueuedCompletion.current && !queuedCompletion) {
+      onRefresh();
+    }
+    hadQueuedCompletion.current = !!queuedCompletion;
+  }, [queuedCompletion, onRefresh]);
 
- 
-
-  interface AcceptStatus {
-    id: string;
-    organizationId: string;
-    branchId: string;
-    bookServiceId: string;
-    staffId: string;
-    serviceId: string;
-    isAccepted: boolean;
-    isCancelled: boolean;
-    isCustomerCancelled: boolean;
-    isCompleted: boolean;
-    organization?: {
-      id: string;
-      name: string;
-      description: string;
-      isActive: boolean;
-      isServiceProvider: boolean;
-      createdAt: number;
-      updatedAt: number;
-    };
-    branch?: {
-      id: string;
-      organizationId: string;
-      isMain: boolean;
-      name: string;
-      longitude: number;
-      latitude: number;
-      accuracy: number | null;
-      contact: number;
-      description: string;
-      email: string;
-      stateProvince: string;
-      city: string;
-      location: string;
-      slotsId: string | null;
-      createdAt: number;
-      updatedAt: number;
-    };
-    service?: {
-      id: string;
-      organizationId: string;
-      name: string;
-      description: string;
-      isPublic: boolean;
-      isDeleted: boolean;
-      modeId: number;
-      staffId: string;
-      thumbNailId: string | null;
-      createdAt: number;
-      updatedAt: number;
-    };
-    createdAt: number;
-    updatedAt: number;
-  }
-
-  
- 
   const checkAcceptStatus = useCallback(async () => {
     setIsCheckingStatus(true);
     setStatusCheckComplete(false);
+    const signal = getSignal();
     try {
-      const response = await api.get<AcceptStatus | null>(
-        `/en/on/accept/incoming/request/${request.id}/status`,
-        {
-          requiresAuth: true,
-        }
-      );
+      const status = await bookings.acceptStatus(request.id, { signal });
 
       // Store status (single object or null)
-      const fetchedStatus = response.data || null;
+      const fetchedStatus = status || null;
       setStatusDetails(fetchedStatus);
       
       
     } catch (err: any) {
-      onToast(err?.message || 'Failed to check status. Please try again.', 'error');
+      if (isAbortError(err)) {
+        return;
+      }
+      onToast(err?.message || t('incomingRequest.checkStatusFailed'), 'error');
       setStatusDetails(null);
     } finally {
-      setIsCheckingStatus(false);
-      setStatusCheckComplete(true);
+      if (!signal.aborted) {
+        setIsCheckingStatus(false);
+        setStatusCheckComplete(true);
+      }
     }
-  }, [request.id]);
+  }, [request.id, getSignal, onToast, t]);
 
   // Check status on mount if request is not accepted
   useEffect(() => {
@@ -184,21 +99,22 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
     }
 
     setIsLoadingInvoices(true);
+    const signal = getSignal();
     try {
-      const response = await api.get<Array<{ isPublished: boolean }>>(
-        `/en/auth/booked/service/invoices/${request.id}`,
-        {
-          requiresAuth: true,
-        }
-      );
-      setInvoices(response.data || []);
+      const data = await invoicesApi.listForBooking(request.id, undefined, { signal });
+      setInvoices(data || []);
     } catch (err: any) {
+      if (isAbortError(err)) {
+        return;
+      }
       console.error('Failed to fetch invoices:', err);
       setInvoices([]);
     } finally {
-      setIsLoadingInvoices(false);
+      if (!signal.aborted) {
+        setIsLoadingInvoices(false);
+      }
     }
-  }, [request.id, request.isAccepted]);
+  }, [request.id, request.isAccepted, getSignal]);
 
   useEffect(() => {
     if (request.isAccepted) {
@@ -207,36 +123,35 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
   }, [request.isAccepted, fetchInvoices]);
 
   const handleAcceptRequest = async () => {
+    // Locked until the previous accept settles
+    if (isAccepting) {
+      return;
+    }
+
     Alert.alert(
-      'Accept Request',
-      'Are you sure you want to accept this service request? This will notify the customer and wait for their confirmation.',
+      t('incomingRequest.acceptRequest'),
+      t('incomingRequest.acceptMessage'),
       [
         {
-          text: 'Cancel',
+          text: t('common.cancel'),
           style: 'cancel',
         },
         {
-          text: 'Accept',
+          text: t('incomingRequest.accept'),
           onPress: async () => {
             setIsAccepting(true);
             try {
-              const response = await api.post<{ incomingProviderId?: string }>(
-                '/en/on/accept/incoming/request',
-                {
-                  bookedServiceId: request.id,
-                },
-                {
-                  requiresAuth: true,
-                }
+              const data = await withIdempotencyKey(`bookings.accept:${request.id}`, (idempotencyKey) =>
+                bookings.accept(request.id, { idempotencyKey })
               );
 
               // If response contains incomingProviderId, store it
-              if (response.data?.incomingProviderId) {
-                setIncomingProviderId(response.data.incomingProviderId);
+              if (data?.incomingProviderId) {
+                setIncomingProviderId(data.incomingProviderId);
               }
               
               // Show success toast
-              onToast('Request accepted successfully. Waiting for customer confirmation.', 'success');
+              onToast(t('incomingRequest.accepted'), 'success');
               
               // Refresh statuses to update UI
               await checkAcceptStatus();
@@ -245,7 +160,7 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
               onRefresh();
             } catch (err: any) {
               // Show error toast
-              onToast(err?.message || 'Failed to accept request. Please try again.', 'error');
+              onToast(err?.message || t('incomingRequest.acceptFailed'), 'error');
             } finally {
               setIsAccepting(false);
             }
@@ -264,26 +179,20 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
     }
 
     Alert.alert(
-      'Cancel Accept Request',
-      'Are you sure you want to cancel the accept request? This action cannot be undone.',
+      t('incomingRequest.cancelAcceptTitle'),
+      t('incomingRequest.cancelAcceptMessage'),
       [
         {
-          text: 'No',
+          text: t('incomingRequest.no'),
           style: 'cancel',
         },
         {
-          text: 'Yes, Cancel',
+          text: t('incomingRequest.yesCancel'),
           style: 'destructive',
           onPress: async () => {
             setIsCancelling(true);
             try {
-              await api.post(
-                `/en/on/cancel/sent/request/${statusDetails.id}`,
-                {},
-                {
-                  requiresAuth: true,
-                }
-              );
+              await bookings.cancelAcceptance(statusDetails.id);
 
               // Reset states
               setIncomingProviderId(null);
@@ -292,13 +201,13 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
               await checkAcceptStatus();
               
               // Show success toast
-              onToast('Accept request cancelled successfully.', 'success');
+              onToast(t('incomingRequest.acceptCancelled'), 'success');
               
               // Refresh to get updated request status
               onRefresh();
             } catch (err: any) {
               // Show error toast
-              onToast(err?.message || 'Failed to cancel request. Please try again.', 'error');
+              onToast(err?.message || t('incomingRequest.cancelFailed'), 'error');
             } finally {
               setIsCancelling(false);
             }
@@ -323,31 +232,44 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
   };
 
   const handleCompleteOrder = async () => {
+    // Locked until the previous completion settles
+    if (isCompleting) {
+      return;
+    }
+
     Alert.alert(
-      'Complete Order',
-      'Are you sure you want to complete this order? This action cannot be undone.',
+      t('incomingRequest.completeOrder'),
+      t('incomingRequest.completeMessage'),
       [
         {
-          text: 'Cancel',
+          text: t('common.cancel'),
           style: 'cancel',
         },
         {
-          text: 'Complete',
+          text: t('incomingRequest.complete'),
           onPress: async () => {
             setIsCompleting(true);
             try {
-              await api.post(
-                `/en/on/book/service/complete/${request.id}/request`,
-                {},
-                {
-                  requiresAuth: true,
-                }
+              const result = await withIdempotencyKey(`bookings.complete:${request.id}`, (idempotencyKey) =>
+                runOrQueue(
+                  'bookings.complete',
+                  { bookedServiceId: request.id },
+                  {
+                    label: t('incomingRequest.completeLabel', { code: request.bookCode }),
+                    entityId: request.id,
+                    idempotencyKey,
+                  }
+                )
               );
 
-              onToast('Order completed successfully', 'success');
+              if (result.queued) {
+                onToast(t('incomingRequest.completeQueued'), 'info');
+                return;
+              }
+              onToast(t('incomingRequest.completed'), 'success');
               onRefresh();
             } catch (err: any) {
-              onToast(err?.message || 'Failed to complete order. Please try again.', 'error');
+              onToast(err?.message || t('incomingRequest.completeFailed'), 'error');
             } finally {
               setIsCompleting(false);
             }
@@ -372,7 +294,7 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
         {!statusCheckComplete && (
           <View style={styles.loadingContainer}>
             <ActivityIndicator size="small" color={colors.primary.green} />
-            <Text style={styles.loadingText}>Checking status...</Text>
+            <Text style={styles.loadingText}>{t('incomingRequest.checkingStatus')}</Text>
           </View>
         )}
         {statusCheckComplete && !request.isCompleted && (() => {
@@ -390,7 +312,7 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
               <View style={styles.acceptedContainer}>
                 <View style={styles.acceptedInfo}>
                   <Ionicons name="checkmark-circle" size={20} color={colors.primary.green} />
-                  <Text style={styles.acceptedText}>Customer has accepted your request!</Text>
+                  <Text style={styles.acceptedText}>{t('incomingRequest.customerAccepted')}</Text>
                 </View>
               </View>
             );
@@ -404,7 +326,7 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
                   ) : (
                     <Ionicons name="time-outline" size={20} color={colors.secondary.orange} />
                   )}
-                  <Text style={styles.waitingText}>Waiting for customer to accept</Text>
+                  <Text style={styles.waitingText}>{t('incomingRequest.waitingForCustomer')}</Text>
                 </View>
                 <TouchableOpacity
                   style={styles.cancelButton}
@@ -417,7 +339,7 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
                   ) : (
                     <>
                       <Ionicons name="close-circle" size={18} color={colors.text.inverse} />
-                      <Text style={styles.cancelButtonText}>Cancel</Text>
+                      <Text style={styles.cancelButtonText}>{t('common.cancel')}</Text>
                     </>
                   )}
                 </TouchableOpacity>
@@ -437,7 +359,7 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
                 ) : (
                   <>
                     <Ionicons name="checkmark-circle" size={20} color={colors.text.inverse} />
-                    <Text style={styles.acceptButtonText}>Accept Request</Text>
+                    <Text style={styles.acceptButtonText}>{t('incomingRequest.acceptRequest')}</Text>
                   </>
                 )}
               </TouchableOpacity>
@@ -467,13 +389,23 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
           <View style={styles.pendingInvoicesMessage}>
             <Ionicons name="alert-circle-outline" size={20} color={colors.secondary.orange} />
             <Text style={styles.pendingInvoicesText}>
-              Please publish all invoices before completing the order
+              {t('incomingRequest.publishInvoicesFirst')}
             </Text>
           </View>
         )}
 
         {/* Complete Order Button - Only show if request is accepted and no pending invoices */}
-        {shouldShowCompleteButton && !request.isCompleted && (
+        {shouldShowCompleteButton && !request.isCompleted && queuedCompletion && (
+          <View style={styles.pendingInvoicesMessage}>
+            <Ionicons name="cloud-upload-outline" size={20} color={colors.secondary.orange} />
+            <Text style={styles.pendingInvoicesText}>
+              {queuedCompletion.status === 'pending' || queuedCompletion.status === 'syncing'
+                ? t('incomingRequest.completionWaiting')
+                : t('incomingRequest.completionFailed', { error: queuedCompletion.error ?? '' })}
+            </Text>
+          </View>
+        )}
+        {shouldShowCompleteButton && !request.isCompleted && !queuedCompletion && (
           <TouchableOpacity
             style={styles.completeButton}
             onPress={handleCompleteOrder}
@@ -485,7 +417,7 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
             ) : (
               <>
                 <Ionicons name="checkmark-circle" size={20} color={colors.text.inverse} />
-                <Text style={styles.completeButtonText}>Complete Order</Text>
+                <Text style={styles.completeButtonText}>{t('incomingRequest.completeOrder')}</Text>
               </>
             )}
           </TouchableOpacity>
@@ -499,21 +431,21 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
             <Ionicons name="checkmark-circle" size={24} color={colors.text.inverse} />
           </View>
           <View style={styles.completedOrderContent}>
-            <Text style={styles.completedOrderTitle}>Order Completed</Text>
-            <Text style={styles.completedOrderText}>This order has been successfully completed.</Text>
+            <Text style={styles.completedOrderTitle}>{t('incomingRequest.orderCompleted')}</Text>
+            <Text style={styles.completedOrderText}>{t('incomingRequest.orderCompletedMessage')}</Text>
           </View>
         </View>
       )}
 
       {/* Request Information */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Request Information {statusDetails?.isAccepted }</Text>
+        <Text style={styles.sectionTitle}>{t('incomingRequest.requestInformation')} {statusDetails?.isAccepted }</Text>
         <View style={styles.infoItem}>
           <View style={styles.infoIconContainer}>
             <Ionicons name="receipt-outline" size={20} color={colors.primary.green} />
           </View>
           <View style={styles.infoContent}>
-            <Text style={styles.infoLabel}>Book Code</Text>
+            <Text style={styles.infoLabel}>{t('incomingRequest.bookCode')}</Text>
             <Text style={styles.infoValue}>{request.bookCode}</Text>
           </View>
         </View>
@@ -523,7 +455,7 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
             <Ionicons name="time-outline" size={20} color={colors.primary.green} />
           </View>
           <View style={styles.infoContent}>
-            <Text style={styles.infoLabel}>Booked Date</Text>
+            <Text style={styles.infoLabel}>{t('incomingRequest.bookedDate')}</Text>
             <Text style={styles.infoValue}>{formatDateTime(request.bookedDate)}</Text>
           </View>
         </View>
@@ -534,7 +466,7 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
               <Ionicons name="checkmark-circle-outline" size={20} color={colors.primary.green} />
             </View>
             <View style={styles.infoContent}>
-              <Text style={styles.infoLabel}>Accepted Date</Text>
+              <Text style={styles.infoLabel}>{t('incomingRequest.acceptedDate')}</Text>
               <Text style={styles.infoValue}>{formatDateTime(request.acceptedDate)}</Text>
             </View>
           </View>
@@ -546,7 +478,7 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
               <Ionicons name="document-text-outline" size={20} color={colors.primary.green} />
             </View>
             <View style={styles.infoContent}>
-              <Text style={styles.infoLabel}>Description</Text>
+              <Text style={styles.infoLabel}>{t('incomingRequest.description')}</Text>
               <Text style={styles.infoValue}>{request.description}</Text>
             </View>
           </View>
@@ -555,13 +487,13 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
 
       {/* Service Information */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Service Information</Text>
+        <Text style={styles.sectionTitle}>{t('incomingRequest.serviceInformation')}</Text>
         <View style={styles.infoItem}>
           <View style={styles.infoIconContainer}>
             <Ionicons name="construct-outline" size={20} color={colors.primary.green} />
           </View>
           <View style={styles.infoContent}>
-            <Text style={styles.infoLabel}>Service Name</Text>
+            <Text style={styles.infoLabel}>{t('incomingRequest.serviceName')}</Text>
             <Text style={styles.infoValue}>{request.service.name}</Text>
           </View>
         </View>
@@ -571,7 +503,7 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
             <Ionicons name="folder-outline" size={20} color={colors.primary.green} />
           </View>
           <View style={styles.infoContent}>
-            <Text style={styles.infoLabel}>Service Mode</Text>
+            <Text style={styles.infoLabel}>{t('incomingRequest.serviceMode')}</Text>
             <Text style={styles.infoValue}>{request.service.mode.name}</Text>
           </View>
         </View>
@@ -582,7 +514,7 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
               <Ionicons name="information-circle-outline" size={20} color={colors.primary.green} />
             </View>
             <View style={styles.infoContent}>
-              <Text style={styles.infoLabel}>Service Description</Text>
+              <Text style={styles.infoLabel}>{t('incomingRequest.serviceDescription')}</Text>
               <Text style={styles.infoValue}>{request.service.description}</Text>
             </View>
           </View>
@@ -591,13 +523,13 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
 
       {/* Customer Information */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Customer Information</Text>
+        <Text style={styles.sectionTitle}>{t('incomingRequest.customerInformation')}</Text>
         <View style={styles.infoItem}>
           <View style={styles.infoIconContainer}>
             <Ionicons name="person-outline" size={20} color={colors.primary.green} />
           </View>
           <View style={styles.infoContent}>
-            <Text style={styles.infoLabel}>Name</Text>
+            <Text style={styles.infoLabel}>{t('incomingRequest.name')}</Text>
             <Text style={styles.infoValue}>
               {request.customer.firstName} {request.customer.middleName} {request.customer.lastName}
             </Text>
@@ -609,7 +541,7 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
             <Ionicons name="mail-outline" size={20} color={colors.primary.green} />
           </View>
           <View style={styles.infoContent}>
-            <Text style={styles.infoLabel}>Email</Text>
+            <Text style={styles.infoLabel}>{t('incomingRequest.email')}</Text>
             <Text style={styles.infoValue}>{request.customer.email}</Text>
           </View>
         </View> */}
@@ -619,7 +551,7 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
             <Ionicons name="call-outline" size={20} color={colors.primary.green} />
           </View>
           <View style={styles.infoContent}>
-            <Text style={styles.infoLabel}>Phone</Text>
+            <Text style={styles.infoLabel}>{t('profile.phone')}</Text>
             <Text style={styles.infoValue}>{request.customer.phone}</Text>
           </View>
         </View> */}
@@ -629,7 +561,7 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
             <Ionicons name="location-outline" size={20} color={colors.primary.green} />
           </View>
           <View style={styles.infoContent}>
-            <Text style={styles.infoLabel}>Country</Text>
+            <Text style={styles.infoLabel}>{t('incomingRequest.country')}</Text>
             <Text style={styles.infoValue}>{request.customer.country}</Text>
           </View>
         </View>
@@ -639,7 +571,7 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
             <Ionicons name="id-card-outline" size={20} color={colors.primary.green} />
           </View>
           <View style={styles.infoContent}>
-            <Text style={styles.infoLabel}>User Number</Text>
+            <Text style={styles.infoLabel}>{t('incomingRequest.userNumber')}</Text>
             <Text style={styles.infoValue}>{request.customer.userNumber}</Text>
           </View>
         </View>
@@ -647,13 +579,13 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
 
       {/* Branch Information */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Branch Information</Text>
+        <Text style={styles.sectionTitle}>{t('incomingRequest.branchInformation')}</Text>
         <View style={styles.infoItem}>
           <View style={styles.infoIconContainer}>
             <Ionicons name="business-outline" size={20} color={colors.primary.green} />
           </View>
           <View style={styles.infoContent}>
-            <Text style={styles.infoLabel}>Branch Name</Text>
+            <Text style={styles.infoLabel}>{t('incomingRequest.branchName')}</Text>
             <Text style={styles.infoValue}>{request.branch.name}</Text>
           </View>
         </View>
@@ -663,7 +595,7 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
             <Ionicons name="location-outline" size={20} color={colors.primary.green} />
           </View>
           <View style={styles.infoContent}>
-            <Text style={styles.infoLabel}>Location</Text>
+            <Text style={styles.infoLabel}>{t('incomingRequest.location')}</Text>
             <Text style={styles.infoValue}>
               {request.branch.location}, {request.branch.city}, {request.branch.stateProvince}
             </Text>
@@ -675,7 +607,7 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
             <Ionicons name="mail-outline" size={20} color={colors.primary.green} />
           </View>
           <View style={styles.infoContent}>
-            <Text style={styles.infoLabel}>Email</Text>
+            <Text style={styles.infoLabel}>{t('incomingRequest.email')}</Text>
             <Text style={styles.infoValue}>{request.branch.email}</Text>
           </View>
         </View>
@@ -685,7 +617,7 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
             <Ionicons name="call-outline" size={20} color={colors.primary.green} />
           </View>
           <View style={styles.infoContent}>
-            <Text style={styles.infoLabel}>Contact</Text>
+            <Text style={styles.infoLabel}>{t('incomingRequest.contact')}</Text>
             <Text style={styles.infoValue}>{request.branch.contact}</Text>
           </View>
         </View>
@@ -694,29 +626,29 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
       {/* Accept Status Information */}
       {statusDetails && (
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Accept Status</Text>
+          <Text style={styles.sectionTitle}>{t('incomingRequest.acceptStatus')}</Text>
           <View style={styles.statusCard}>
             <View style={styles.statusHeader}>
               <View style={styles.statusBadgeContainer}>
                 {statusDetails.isAccepted ? (
                   <View style={[styles.statusBadge, styles.statusBadgeAccepted]}>
                     <Ionicons name="checkmark-circle" size={16} color={colors.text.inverse} />
-                    <Text style={styles.statusBadgeText}>Accepted</Text>
+                    <Text style={styles.statusBadgeText}>{t('incomingRequest.statusAccepted')}</Text>
                   </View>
                 ) : statusDetails.isCustomerCancelled ? (
                   <View style={[styles.statusBadge, styles.statusBadgeCancelled]}>
                     <Ionicons name="close-circle" size={16} color={colors.text.inverse} />
-                    <Text style={styles.statusBadgeText}>Customer Cancelled</Text>
+                    <Text style={styles.statusBadgeText}>{t('incomingRequest.statusCustomerCancelled')}</Text>
                   </View>
                 ) : statusDetails.isCancelled ? (
                   <View style={[styles.statusBadge, styles.statusBadgeCancelled]}>
                     <Ionicons name="close-circle" size={16} color={colors.text.inverse} />
-                    <Text style={styles.statusBadgeText}>Cancelled</Text>
+                    <Text style={styles.statusBadgeText}>{t('incomingRequest.statusCancelled')}</Text>
                   </View>
                 ) : (
                   <View style={[styles.statusBadge, styles.statusBadgePending]}>
                     <Ionicons name="time-outline" size={16} color={colors.text.inverse} />
-                    <Text style={styles.statusBadgeText}>Pending</Text>
+                    <Text style={styles.statusBadgeText}>{t('incomingRequest.statusPending')}</Text>
                   </View>
                 )}
               </View>
@@ -728,7 +660,7 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
                   <Ionicons name="calendar-outline" size={18} color={colors.primary.green} />
                 </View>
                 <View style={styles.infoContent}>
-                  <Text style={styles.infoLabel}>Created At</Text>
+                  <Text style={styles.infoLabel}>{t('incomingRequest.createdAt')}</Text>
                   <Text style={styles.infoValue}>
                     {formatDateTime(statusDetails.createdAt)}
                   </Text>
@@ -740,7 +672,7 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
                   <Ionicons name="time-outline" size={18} color={colors.primary.green} />
                 </View>
                 <View style={styles.infoContent}>
-                  <Text style={styles.infoLabel}>Last Updated</Text>
+                  <Text style={styles.infoLabel}>{t('incomingRequest.lastUpdated')}</Text>
                   <Text style={styles.infoValue}>
                     {formatDateTime(statusDetails.updatedAt)}
                   </Text>
@@ -753,7 +685,7 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
                     <Ionicons name="business-outline" size={18} color={colors.primary.green} />
                   </View>
                   <View style={styles.infoContent}>
-                    <Text style={styles.infoLabel}>Organization</Text>
+                    <Text style={styles.infoLabel}>{t('incomingRequest.organization')}</Text>
                     <Text style={styles.infoValue}>
                       {statusDetails.organization.name}
                     </Text>
@@ -767,7 +699,7 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
                     <Ionicons name="location-outline" size={18} color={colors.primary.green} />
                   </View>
                   <View style={styles.infoContent}>
-                    <Text style={styles.infoLabel}>Branch</Text>
+                    <Text style={styles.infoLabel}>{t('incomingRequest.branch')}</Text>
                     <Text style={styles.infoValue}>
                       {statusDetails.branch.name}
                     </Text>
@@ -781,7 +713,7 @@ const IncomingRequestDetailsTab: React.FC<IncomingRequestDetailsTabProps> = ({
                     <Ionicons name="construct-outline" size={18} color={colors.primary.green} />
                   </View>
                   <View style={styles.infoContent}>
-                    <Text style={styles.infoLabel}>Service</Text>
+                    <Text style={styles.infoLabel}>{t('incomingRequest.service')}</Text>
                     <Text style={styles.infoValue}>
                       {statusDetails.service.name}
                     </Text>
@@ -1,10 +1,24 @@
+import PermissionButton from '@/components/PermissionButton';
 import { ToastType } from '@/components/Toast';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
+import { PERMISSIONS } from '@/constants/permissions';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { useOutboxItems } from '@/hooks/useOutbox';
+import { useTranslation } from '@/hooks/useTranslation';
+import {
+  Invoice,
+  InvoiceItemInput as InvoiceItem,
+  invoices as invoicesApi,
+  isAbortError,
+  withIdempotencyKey,
+} from '@/services';
+import { runOrQueue } from '@/services/outbox';
+import { confirmSensitiveAction } from '@/store/appLockStore';
 import { formatDateTime } from '@/utils/date';
+import { formatCurrency } from '@/utils/number';
 import { Ionicons } from '@expo/vector-icons';
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -19,51 +33,6 @@ import {
   View
 } from 'react-native';
 
-interface InvoiceItem {
-  name: string;
-  amount: number;
-  quantity: number;
-  totalAmount: number;
-}
-
-interface Invoice {
-  id: string;
-  customerId: string;
-  bookServiceId: string;
-  serviceId: string;
-  organizationId: string;
-  branchId: string;
-  staffId: string;
-  invoiceNumber: string;
-  invoiceDate: string;
-  discount: number;
-  branch: {
-    id: string;
-    name: string;
-  };
-  organization: {
-    id: string;
-    name: string;
-  };
-  customer: {
-    id: string;
-    firstName: string;
-    middleName: string;
-    lastName: string;
-    email: string;
-  };
-  service: {
-    id: string;
-    name: string;
-  };
-  isPublished: boolean;
-  isCustomerPaid: boolean;
-  isPaymentReceived: boolean;
-  createdAt: number;
-  updatedAt: number;
-  items?: InvoiceItem[];
-}
-
 interface IncomingRequestInvoicesTabProps {
   bookedServiceId: string;
   onToast: (message: string, type: ToastType) => void;
@@ -78,31 +47,21 @@ interface InvoicePreviewModalProps {
 }
 
 const InvoicePreviewModal: React.FC<InvoicePreviewModalProps> = ({ visible, invoice, onClose }) => {
+  const { t } = useTranslation();
   const [invoiceItems, setInvoiceItems] = useState<InvoiceItem[]>([]);
   const [isLoadingItems, setIsLoadingItems] = useState(false);
+  const getSignal = useAbortSignal();
 
   const fetchInvoiceItems = useCallback(async () => {
     if (!invoice.id) return;
     
     setIsLoadingItems(true);
+    const signal = getSignal();
     try {
-      const response = await api.get<Array<{
-        id: string;
-        name: string;
-        quantity: number;
-        amount: number;
-        netAmount: number;
-        createdAt: number;
-        updatedAt: number;
-      }>>(
-        `/en/auth/booked/service/invoice/${invoice.id}/items`,
-        {
-          requiresAuth: true,
-        }
-      );
+      const items = await invoicesApi.items(invoice.id, { signal });
 
       // Map API response to InvoiceItem interface (netAmount -> totalAmount)
-      const mappedItems: InvoiceItem[] = (response.data || []).map((item) => ({
+      const mappedItems: InvoiceItem[] = (items || []).map((item) => ({
         name: item.name,
         amount: item.amount,
         quantity: item.quantity,
@@ -111,12 +70,17 @@ const InvoicePreviewModal: React.FC<InvoicePreviewModalProps> = ({ visible, invo
 
       setInvoiceItems(mappedItems);
     } catch (err: any) {
+      if (isAbortError(err)) {
+        return;
+      }
       console.error("Failed to fetch invoice items:", err);
       setInvoiceItems([]);
     } finally {
-      setIsLoadingItems(false);
+      if (!signal.aborted) {
+        setIsLoadingItems(false);
+      }
     }
-  }, [invoice.id]);
+  }, [invoice.id, getSignal]);
 
   // Fetch invoice items when modal becomes visible
   useEffect(() => {
@@ -152,7 +116,7 @@ const InvoicePreviewModal: React.FC<InvoicePreviewModalProps> = ({ visible, invo
       <View style={previewStyles.modalOverlay}>
         <View style={previewStyles.modalContent}>
           <View style={previewStyles.modalHeader}>
-            <Text style={previewStyles.modalTitle}>Invoice Details</Text>
+            <Text style={previewStyles.modalTitle}>{t('invoices.invoiceDetails')}</Text>
             <TouchableOpacity
               onPress={onClose}
               style={previewStyles.closeButton}
@@ -176,17 +140,17 @@ const InvoicePreviewModal: React.FC<InvoicePreviewModalProps> = ({ visible, invo
                 <Text style={previewStyles.branchName}>{invoice.branch.name}</Text>
               </View>
               <View style={previewStyles.invoiceInfo}>
-                <Text style={previewStyles.invoiceTitle}>INVOICE</Text>
+                <Text style={previewStyles.invoiceTitle}>{t('invoices.invoiceTitle')}</Text>
                 <Text style={previewStyles.invoiceNumberText}>#{invoice.invoiceNumber}</Text>
                 <Text style={previewStyles.invoiceDateText}>
-                  Date: {formatDateTime(invoice.invoiceDate)}
+                  {t('invoices.dateLabel', { date: formatDateTime(invoice.invoiceDate) })}
                 </Text>
               </View>
             </View>
 
             {/* Bill To Section */}
             <View style={previewStyles.billToSection}>
-              <Text style={previewStyles.sectionLabel}>Bill To:</Text>
+              <Text style={previewStyles.sectionLabel}>{t('invoices.billTo')}</Text>
               <Text style={previewStyles.customerName}>
                 {invoice.customer.firstName} {invoice.customer.lastName}
               </Text>
@@ -196,13 +160,13 @@ const InvoicePreviewModal: React.FC<InvoicePreviewModalProps> = ({ visible, invo
             {/* Items Table */}
             <View style={previewStyles.itemsTable}>
               <View style={previewStyles.tableHeader}>
-                <Text style={[previewStyles.tableHeaderText, { flex: 2 }]}>Item</Text>
-                <Text style={[previewStyles.tableHeaderText, { flex: 1 }]}>Total</Text>
+                <Text style={[previewStyles.tableHeaderText, { flex: 2 }]}>{t('invoices.item')}</Text>
+                <Text style={[previewStyles.tableHeaderText, { flex: 1 }]}>{t('invoices.total')}</Text>
               </View>
               {isLoadingItems ? (
                 <View style={previewStyles.tableRow}>
                   <ActivityIndicator size="small" color={colors.primary.green} />
-                  <Text style={[previewStyles.noItemsText, { marginLeft: 8 }]}>Loading items...</Text>
+                  <Text style={[previewStyles.noItemsText, { marginLeft: 8 }]}>{t('invoices.loadingItems')}</Text>
                 </View>
               ) : invoiceItems && invoiceItems.length > 0 ? (
                 invoiceItems.map((item, index) => (
@@ -214,13 +178,13 @@ const InvoicePreviewModal: React.FC<InvoicePreviewModalProps> = ({ visible, invo
                       </Text>
                     </View>
                     <Text style={[previewStyles.tableCell, { flex: 1 }]}>
-                      KES {item.totalAmount.toFixed(2)}
+                      {formatCurrency(item.totalAmount)}
                     </Text>
                   </View>
                 ))
               ) : (
                 <View style={previewStyles.tableRow}>
-                  <Text style={previewStyles.noItemsText}>No items</Text>
+                  <Text style={previewStyles.noItemsText}>{t('invoices.noItems')}</Text>
                 </View>
               )}
             </View>
@@ -228,49 +192,51 @@ const InvoicePreviewModal: React.FC<InvoicePreviewModalProps> = ({ visible, invo
             {/* Totals */}
             <View style={previewStyles.totalsSection}>
               <View style={previewStyles.totalRow}>
-                <Text style={previewStyles.totalLabel}>Subtotal:</Text>
+                <Text style={previewStyles.totalLabel}>{t('invoices.subtotalLabel')}</Text>
                 <Text style={previewStyles.totalValue}>
-                  KES {calculateSubtotal().toFixed(2)}
+                  {formatCurrency(calculateSubtotal())}
                 </Text>
               </View>
               {invoice.discount > 0 && (
                 <View style={previewStyles.totalRow}>
-                  <Text style={previewStyles.totalLabel}>Discount ({invoice.discount}%):</Text>
+                  <Text style={previewStyles.totalLabel}>
+                    {t('invoices.discountLabel', { percent: invoice.discount })}
+                  </Text>
                   <Text style={previewStyles.totalValue}>
-                    -KES {calculateDiscountAmount().toFixed(2)}
+                    -{formatCurrency(calculateDiscountAmount())}
                   </Text>
                 </View>
               )}
               <View style={[previewStyles.totalRow, previewStyles.grandTotalRow]}>
-                <Text style={previewStyles.grandTotalLabel}>Total:</Text>
+                <Text style={previewStyles.grandTotalLabel}>{t('invoices.totalLabel')}</Text>
                 <Text style={previewStyles.grandTotalValue}>
-                  KES {calculateTotal().toFixed(2)}
+                  {formatCurrency(calculateTotal())}
                 </Text>
               </View>
             </View>
 
             {/* Status */}
             <View style={previewStyles.statusSection}>
-              <Text style={previewStyles.statusLabel}>Status:</Text>
+              <Text style={previewStyles.statusLabel}>{t('invoices.statusLabel')}</Text>
               <View style={previewStyles.statusBadges}>
                 {!invoice.isPublished && (
                   <View style={[previewStyles.statusBadge, previewStyles.draftBadge]}>
-                    <Text style={previewStyles.statusBadgeText}>Draft</Text>
+                    <Text style={previewStyles.statusBadgeText}>{t('invoices.draft')}</Text>
                   </View>
                 )}
                 {invoice.isPublished && (
                   <View style={[previewStyles.statusBadge, previewStyles.publishedBadge]}>
-                    <Text style={previewStyles.statusBadgeText}>Published</Text>
+                    <Text style={previewStyles.statusBadgeText}>{t('invoices.published')}</Text>
                   </View>
                 )}
                 {invoice.isCustomerPaid && (
                   <View style={[previewStyles.statusBadge, previewStyles.paidBadge]}>
-                    <Text style={previewStyles.statusBadgeText}>Paid</Text>
+                    <Text style={previewStyles.statusBadgeText}>{t('invoices.paid')}</Text>
                   </View>
                 )}
                 {invoice.isPaymentReceived && (
                   <View style={[previewStyles.statusBadge, previewStyles.receivedBadge]}>
-                    <Text style={previewStyles.statusBadgeText}>Payment Received</Text>
+                    <Text style={previewStyles.statusBadgeText}>{t('invoices.paymentReceived')}</Text>
                   </View>
                 )}
               </View>
@@ -287,6 +253,7 @@ const IncomingRequestInvoicesTab: React.FC<IncomingRequestInvoicesTabProps> = ({
   onToast,
   isCompleted = false,
 }) => {
+  const { t } = useTranslation();
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [filters, setFilters] = useState({
@@ -304,35 +271,47 @@ const IncomingRequestInvoicesTab: React.FC<IncomingRequestInvoicesTabProps> = ({
   const [publishingInvoices, setPublishingInvoices] = useState<Set<string>>(new Set());
   const [markingPaidInvoices, setMarkingPaidInvoices] = useState<Set<string>>(new Set());
   const [deletingInvoices, setDeletingInvoices] = useState<Set<string>>(new Set());
+  const getSignal = useAbortSignal();
+  const queuedInvoices = useOutboxItems(bookedServiceId).filter((item) => item.type.startsWith('invoices.'));
+  const queuedInvoiceCount = queuedInvoices.length;
+  const previousQueuedInvoiceCount = useRef(queuedInvoiceCount);
 
   const fetchInvoices = useCallback(async () => {
     setIsLoading(true);
+    const signal = getSignal();
     try {
       const params: Record<string, string> = {};
       if (filters.isPaymentReceived) params.isPaymentReceived = 'true';
       if (filters.customerPaid) params.customerPaid = 'true';
       if (filters.published) params.published = 'false';
 
-      const response = await api.get<Invoice[]>(
-        `/en/auth/booked/service/invoices/${bookedServiceId}`,
-        {
-          requiresAuth: true,
-          params,
-        }
-      );
+      const data = await invoicesApi.listForBooking(bookedServiceId, params, { signal });
 
-      setInvoices(response.data || []);
+      setInvoices(data || []);
     } catch (err: any) {
+      if (isAbortError(err)) {
+        return;
+      }
       setInvoices([]);
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
-  }, [bookedServiceId, filters]);
+  }, [bookedServiceId, filters, getSignal]);
 
   useEffect(() => {
     fetchInvoices();
   }, [fetchInvoices]);
 
+  // Reload as invoices written offline are synced
+  useEffect(() => {
+    if (queuedInvoiceCount < previousQueuedInvoiceCount.current) {
+      fetchInvoices();
+    }
+    previousQueuedInvoiceCount.current = queuedInvoiceCount;
+  }, [queuedInvoiceCount, fetchInvoices]);
+
   const handleOpenCreateModal = () => {
     setInvoiceItems([{ name: '', amount: 0, quantity: 1, totalAmount: 0 }]);
     setDiscount('0');
@@ -346,24 +325,12 @@ const IncomingRequestInvoicesTab: React.FC<IncomingRequestInvoicesTabProps> = ({
     setIsCreateModalVisible(true);
     
     // Fetch invoice items
+    const signal = getSignal();
     try {
-      const response = await api.get<Array<{
-        id: string;
-        name: string;
-        quantity: number;
-        amount: number;
-        netAmount: number;
-        createdAt: number;
-        updatedAt: number;
-      }>>(
-        `/en/auth/booked/service/invoice/${invoice.id}/items`,
-        {
-          requiresAuth: true,
-        }
-      );
+      const items = await invoicesApi.items(invoice.id, { signal });
 
       // Map API response to InvoiceItem interface (netAmount -> totalAmount)
-      const mappedItems: InvoiceItem[] = (response.data || []).map((item) => ({
+      const mappedItems: InvoiceItem[] = (items || []).map((item) => ({
         name: item.name,
         amount: item.amount,
         quantity: item.quantity,
@@ -372,6 +339,9 @@ const IncomingRequestInvoicesTab: React.FC<IncomingRequestInvoicesTabProps> = ({
 
       setInvoiceItems(mappedItems.length > 0 ? mappedItems : [{ name: '', amount: 0, quantity: 1, totalAmount: 0 }]);
     } catch (err: any) {
+      if (isAbortError(err)) {
+        return;
+      }
       console.error("Failed to fetch invoice items for editing:", err);
       setInvoiceItems([{ name: '', amount: 0, quantity: 1, totalAmount: 0 }]);
     }
@@ -430,6 +400,11 @@ const IncomingRequestInvoicesTab: React.FC<IncomingRequestInvoicesTabProps> = ({
   };
 
   const handleCreateInvoice = async () => {
+    // Locked until the previous submit settles
+    if (isSubmitting) {
+      return;
+    }
+
     // Validate items - accept 0 as valid
     const validItems = invoiceItems.filter(item => 
       item.name.trim().length > 0 && 
@@ -438,24 +413,24 @@ const IncomingRequestInvoicesTab: React.FC<IncomingRequestInvoicesTabProps> = ({
     );
     
     if (validItems.length === 0) {
-      onToast('Please add at least one valid invoice item with a name', 'error');
+      onToast(t('invoices.itemRequired'), 'error');
       return;
     }
 
     // Show confirmation dialog
     const action = editingInvoice ? 'update' : 'create';
     Alert.alert(
-      editingInvoice ? 'Update Invoice' : 'Create Invoice',
+      editingInvoice ? t('invoices.updateInvoice') : t('invoices.createInvoice'),
       editingInvoice 
-        ? 'Are you sure you want to update this invoice?'
-        : 'Are you sure you want to create this invoice?',
+        ? t('invoices.updateConfirm')
+        : t('invoices.createConfirm'),
       [
         {
-          text: 'Cancel',
+          text: t('common.cancel'),
           style: 'cancel',
         },
         {
-          text: editingInvoice ? 'Update' : 'Create',
+          text: editingInvoice ? t('invoices.update') : t('invoices.create'),
           onPress: async () => {
             setIsSubmitting(true);
             try {
@@ -465,32 +440,33 @@ const IncomingRequestInvoicesTab: React.FC<IncomingRequestInvoicesTabProps> = ({
                 items: validItems,
               };
 
-              if (editingInvoice) {
-                // Update existing invoice
-                await api.patch(
-                  '/en/on/booked/service/update/invoice',
-                  payload,
-                  {
-                    requiresAuth: true,
-                  }
-                );
-                onToast('Invoice updated successfully', 'success');
+              // Queued when offline and sent once the connection returns
+              const result = editingInvoice
+                ? await runOrQueue('invoices.update', payload, {
+                    label: t('invoices.updateLabel', { number: editingInvoice.invoiceNumber }),
+                    entityId: bookedServiceId,
+                  })
+                : await withIdempotencyKey(
+                    `invoices.create:${bookedServiceId}`,
+                    (idempotencyKey) =>
+                      runOrQueue('invoices.create', payload, {
+                        label: t('invoices.createLabel'),
+                        entityId: bookedServiceId,
+                        idempotencyKey,
+                      }),
+                    payload
+                  );
+
+              if (result.queued) {
+                onToast(t('invoices.saveQueued'), 'info');
               } else {
-                // Create new invoice
-                await api.post(
-                  '/en/on/booked/service/create/invoice',
-                  payload,
-                  {
-                    requiresAuth: true,
-                  }
-                );
-                onToast('Invoice created successfully', 'success');
+                onToast(editingInvoice ? t('invoices.updated') : t('invoices.created'), 'success');
               }
 
               handleCloseCreateModal();
               fetchInvoices();
             } catch (err: any) {
-              onToast(err?.message || (editingInvoice ? 'Failed to update invoice' : 'Failed to create invoice'), 'error');
+              onToast(err?.message || (editingInvoice ? t('invoices.updateFailed') : t('invoices.createFailed')), 'error');
             } finally {
               setIsSubmitting(false);
             }
@@ -502,30 +478,24 @@ const IncomingRequestInvoicesTab: React.FC<IncomingRequestInvoicesTabProps> = ({
 
   const handlePublishInvoice = async (invoiceId: string) => {
     Alert.alert(
-      'Publish Invoice',
-      'Are you sure you want to publish this invoice? Once published, it will be sent to the customer.',
+      t('invoices.publishTitle'),
+      t('invoices.publishMessage'),
       [
         {
-          text: 'Cancel',
+          text: t('common.cancel'),
           style: 'cancel',
         },
         {
-          text: 'Publish',
+          text: t('invoices.publish'),
           onPress: async () => {
             setPublishingInvoices((prev) => new Set(prev).add(invoiceId));
             try {
-              await api.patch(
-                `/en/on/booked/service/invoice/${invoiceId}/publish`,
-                null,
-                {
-                  requiresAuth: true,
-                }
-              );
+              await invoicesApi.publish(invoiceId);
 
-              onToast('Invoice published successfully', 'success');
+              onToast(t('invoices.publishedToast'), 'success');
               fetchInvoices();
             } catch (err: any) {
-              onToast(err?.message || 'Failed to publish invoice', 'error');
+              onToast(err?.message || t('invoices.publishFailed'), 'error');
             } finally {
               setPublishingInvoices((prev) => {
                 const next = new Set(prev);
@@ -540,31 +510,32 @@ const IncomingRequestInvoicesTab: React.FC<IncomingRequestInvoicesTabProps> = ({
   };
 
   const handleMarkAsPaid = async (invoiceId: string) => {
+    // Locked until the previous attempt for this invoice settles
+    if (markingPaidInvoices.has(invoiceId)) {
+      return;
+    }
+
     Alert.alert(
-      'Mark Payment as Received',
-      'Are you sure you want to mark this payment as received? This action cannot be undone.',
+      t('invoices.receiveTitle'),
+      t('invoices.receiveMessage'),
       [
         {
-          text: 'Cancel',
+          text: t('common.cancel'),
           style: 'cancel',
         },
         {
-          text: 'Mark as Received',
+          text: t('invoices.markReceived'),
           onPress: async () => {
             setMarkingPaidInvoices((prev) => new Set(prev).add(invoiceId));
             try {
-              await api.post(
-                `/en/on/book/service/invoice/${invoiceId}/receivedPayments`,
-                null,
-                {
-                  requiresAuth: true,
-                }
+              await withIdempotencyKey(`invoices.receivePayment:${invoiceId}`, (idempotencyKey) =>
+                invoicesApi.receivePayment(invoiceId, { idempotencyKey })
               );
 
-              onToast('Payment marked as received', 'success');
+              onToast(t('invoices.receivedToast'), 'success');
               fetchInvoices();
             } catch (err: any) {
-              onToast(err?.message || 'Failed to mark payment as received', 'error');
+              onToast(err?.message || t('invoices.receiveFailed'), 'error');
             } finally {
               setMarkingPaidInvoices((prev) => {
                 const next = new Set(prev);
@@ -580,30 +551,27 @@ const IncomingRequestInvoicesTab: React.FC<IncomingRequestInvoicesTabProps> = ({
 
   const handleDeleteInvoice = async (invoiceId: string) => {
     Alert.alert(
-      'Delete Invoice',
-      'Are you sure you want to delete this invoice? This action cannot be undone.',
+      t('invoices.deleteTitle'),
+      t('invoices.deleteMessage'),
       [
         {
-          text: 'Cancel',
+          text: t('common.cancel'),
           style: 'cancel',
         },
         {
-          text: 'Delete',
+          text: t('invoices.delete'),
           style: 'destructive',
           onPress: async () => {
+            if (!(await confirmSensitiveAction(t('invoices.deleteReason')))) return;
+
             setDeletingInvoices((prev) => new Set(prev).add(invoiceId));
             try {
-              await api.delete(
-                `/en/on/book/delete/invoice/${invoiceId}`,
-                {
-                  requiresAuth: true,
-                }
-              );
+              await invoicesApi.remove(invoiceId);
 
-              onToast('Invoice deleted successfully', 'success');
+              onToast(t('invoices.deleted'), 'success');
               fetchInvoices();
             } catch (err: any) {
-              onToast(err?.message || 'Failed to delete invoice', 'error');
+              onToast(err?.message || t('invoices.deleteFailed'), 'error');
             } finally {
               setDeletingInvoices((prev) => {
                 const next = new Set(prev);
@@ -633,19 +601,29 @@ const IncomingRequestInvoicesTab: React.FC<IncomingRequestInvoicesTabProps> = ({
             activeOpacity={0.8}
           >
             <Ionicons name="add" size={22} color={colors.text.inverse} />
-            <Text style={styles.fabText}>Create Invoice</Text>
+            <Text style={styles.fabText}>{t('invoices.createInvoice')}</Text>
           </TouchableOpacity>
         </View>
       )}
+      {queuedInvoiceCount > 0 && (
+        <View style={styles.queuedNotice}>
+          <Ionicons name="cloud-upload-outline" size={20} color={colors.secondary.orange} />
+          <Text style={styles.queuedNoticeText}>
+            {queuedInvoices.some((item) => item.status === 'conflict' || item.status === 'failed')
+              ? t('invoices.syncFailed')
+              : t('invoices.waiting', { count: queuedInvoiceCount })}
+          </Text>
+        </View>
+      )}
       {isLoading ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={colors.primary.green} />
-          <Text style={styles.loadingText}>Loading invoices...</Text>
+          <Text style={styles.loadingText}>{t('invoices.loading')}</Text>
         </View>
       ) : invoices.length === 0 ? (
         <View style={styles.emptyContainer}>
           <Ionicons name="receipt-outline" size={48} color={colors.neutral.gray.light} />
-          <Text style={styles.emptyText}>No invoices found</Text>
+          <Text style={styles.emptyText}>{t('invoices.empty')}</Text>
         </View>
       ) : (
         <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
@@ -665,22 +643,22 @@ const IncomingRequestInvoicesTab: React.FC<IncomingRequestInvoicesTabProps> = ({
                         <View style={styles.invoiceStatusContainer}>
                         {!invoice.isPublished && (
                           <View style={[styles.statusBadge, styles.statusBadgeDraft]}>
-                            <Text style={styles.statusBadgeText}>Draft</Text>
+                            <Text style={styles.statusBadgeText}>{t('invoices.draft')}</Text>
                           </View>
                         )}
                         {invoice.isPublished && (
                           <View style={[styles.statusBadge, styles.statusBadgePublished]}>
-                            <Text style={styles.statusBadgeText}>Published</Text>
+                            <Text style={styles.statusBadgeText}>{t('invoices.published')}</Text>
                           </View>
                         )}
                         {invoice.isCustomerPaid && (
                           <View style={[styles.statusBadge, styles.statusBadgePaid]}>
-                            <Text style={styles.statusBadgeText}>Paid</Text>
+                            <Text style={styles.statusBadgeText}>{t('invoices.paid')}</Text>
                           </View>
                         )}
                         {invoice.isPaymentReceived && (
                           <View style={[styles.statusBadge, styles.statusBadgeReceived]}>
-                            <Text style={styles.statusBadgeText}>Received</Text>
+                            <Text style={styles.statusBadgeText}>{t('invoices.received')}</Text>
                           </View>
                         )}
                       </View>
@@ -701,7 +679,9 @@ const IncomingRequestInvoicesTab: React.FC<IncomingRequestInvoicesTabProps> = ({
                           >
                             <Ionicons name="create-outline" size={20} color={colors.primary.green} />
                           </TouchableOpacity>
-                          <TouchableOpacity
+                          <PermissionButton
+                            permission={PERMISSIONS.manageInvoices}
+                            hideWhenNoPermission
                             style={styles.actionIconButton}
                             onPress={() => handleDeleteInvoice(invoice.id)}
                             disabled={deletingInvoices.has(invoice.id)}
@@ -712,7 +692,7 @@ const IncomingRequestInvoicesTab: React.FC<IncomingRequestInvoicesTabProps> = ({
                             ) : (
                               <Ionicons name="trash-outline" size={20} color={colors.semantic.error} />
                             )}
-                          </TouchableOpacity>
+                          </PermissionButton>
                         </>
                       )}
                     </View>
@@ -720,25 +700,25 @@ const IncomingRequestInvoicesTab: React.FC<IncomingRequestInvoicesTabProps> = ({
 
                   <View style={styles.invoiceDetails}>
                     <View style={styles.invoiceDetailItem}>
-                      <Text style={styles.invoiceDetailLabel}>Service</Text>
+                      <Text style={styles.invoiceDetailLabel}>{t('invoices.service')}</Text>
                       <Text style={styles.invoiceDetailValue}>{invoice.service.name}</Text>
                     </View>
 
                     <View style={styles.invoiceDetailItem}>
-                      <Text style={styles.invoiceDetailLabel}>Customer</Text>
+                      <Text style={styles.invoiceDetailLabel}>{t('invoices.customer')}</Text>
                       <Text style={styles.invoiceDetailValue}>
                         {invoice.customer.firstName} {invoice.customer.lastName}
                       </Text>
                     </View>
 
                     <View style={styles.invoiceDetailItem}>
-                      <Text style={styles.invoiceDetailLabel}>Branch</Text>
+                      <Text style={styles.invoiceDetailLabel}>{t('invoices.branch')}</Text>
                       <Text style={styles.invoiceDetailValue}>{invoice.branch.name}</Text>
                     </View>
 
                     {invoice.discount > 0 && (
                       <View style={styles.invoiceDetailItem}>
-                        <Text style={styles.invoiceDetailLabel}>Discount</Text>
+                        <Text style={styles.invoiceDetailLabel}>{t('invoices.discount')}</Text>
                         <Text style={styles.invoiceDetailValue}>{invoice.discount}%</Text>
                       </View>
                     )}
@@ -751,11 +731,13 @@ const IncomingRequestInvoicesTab: React.FC<IncomingRequestInvoicesTabProps> = ({
                       activeOpacity={0.7}
                     >
                       <Ionicons name="eye-outline" size={18} color={colors.primary.green} />
-                      <Text style={styles.previewButtonText}>Preview</Text>
+                      <Text style={styles.previewButtonText}>{t('invoices.preview')}</Text>
                     </TouchableOpacity>
 
                     {isDraft && !isCompleted && (
-                      <TouchableOpacity
+                      <PermissionButton
+                        permission={PERMISSIONS.manageInvoices}
+                        hideWhenNoPermission
                         style={styles.publishButton}
                         onPress={() => handlePublishInvoice(invoice.id)}
                         disabled={publishingInvoices.has(invoice.id)}
@@ -766,15 +748,15 @@ const IncomingRequestInvoicesTab: React.FC<IncomingRequestInvoicesTabProps> = ({
                         ) : (
                           <>
                             <Ionicons name="send-outline" size={18} color={colors.text.inverse} />
-                            <Text style={styles.publishButtonText}>Publish</Text>
+                            <Text style={styles.publishButtonText}>{t('invoices.publish')}</Text>
                           </>
                         )}
-                      </TouchableOpacity>
+                      </PermissionButton>
                     )}
                     {invoice.isPublished && !invoice.isPaymentReceived && !invoice.isCustomerPaid && (
                       <View style={styles.waitingForPaymentContainer}>
                         <Ionicons name="timer-outline" size={18} color={colors.text.inverse} />
-                        <Text style={styles.waitingForPaymentText}>Waiting for payment</Text>
+                        <Text style={styles.waitingForPaymentText}>{t('invoices.waitingForPayment')}</Text>
                       </View>
                     )}
 
@@ -790,7 +772,7 @@ const IncomingRequestInvoicesTab: React.FC<IncomingRequestInvoicesTabProps> = ({
                         ) : (
                           <>
                             <Ionicons name="checkmark-circle-outline" size={18} color={colors.text.inverse} />
-                            <Text style={styles.markPaidButtonText}>Mark as Paid</Text>
+                            <Text style={styles.markPaidButtonText}>{t('invoices.markPaid')}</Text>
                           </>
                         )}
                       </TouchableOpacity>
@@ -816,7 +798,7 @@ const IncomingRequestInvoicesTab: React.FC<IncomingRequestInvoicesTabProps> = ({
           <View style={styles.modalContent}>
             <View style={styles.modalHeader}>
               <Text style={styles.modalTitle}>
-                {editingInvoice ? 'Edit Invoice' : 'Create Invoice'}
+                {editingInvoice ? t('invoices.editInvoice') : t('invoices.createInvoice')}
               </Text>
               <TouchableOpacity
                 onPress={handleCloseCreateModal}
@@ -830,13 +812,13 @@ const IncomingRequestInvoicesTab: React.FC<IncomingRequestInvoicesTabProps> = ({
             <ScrollView style={styles.modalScrollView} showsVerticalScrollIndicator={false}>
               {/* Invoice Items */}
               <View style={styles.itemsSection}>
-                <Text style={styles.sectionTitle}>Invoice Items</Text>
+                <Text style={styles.sectionTitle}>{t('invoices.invoiceItems')}</Text>
                 {invoiceItems.map((item, index) => (
                   <View key={index} style={styles.itemRow}>
                     <View style={styles.itemContainer}>
                       <TextInput
                         style={[styles.itemInput, styles.itemNameInput]}
-                        placeholder="Item name"
+                        placeholder={t('invoices.itemName')}
                         placeholderTextColor={colors.neutral.gray.medium}
                         value={item.name}
                         onChangeText={(text) => handleUpdateInvoiceItem(index, 'name', text)}
@@ -844,7 +826,7 @@ const IncomingRequestInvoicesTab: React.FC<IncomingRequestInvoicesTabProps> = ({
                       <View style={styles.itemDetailsRow}>
                         <TextInput
                           style={[styles.itemInput, styles.itemAmountInput]}
-                          placeholder="Amount"
+                          placeholder={t('invoices.amount')}
                           placeholderTextColor={colors.neutral.gray.medium}
                           value={item.amount > 0 ? String(item.amount) : ''}
                           onChangeText={(text) => {
@@ -855,7 +837,7 @@ const IncomingRequestInvoicesTab: React.FC<IncomingRequestInvoicesTabProps> = ({
                         />
                         <TextInput
                           style={[styles.itemInput, styles.itemQuantityInput]}
-                          placeholder="Qty"
+                          placeholder={t('invoices.quantity')}
                           placeholderTextColor={colors.neutral.gray.medium}
                           value={item.quantity > 0 ? String(item.quantity) : ''}
                           onChangeText={(text) => {
@@ -886,13 +868,13 @@ const IncomingRequestInvoicesTab: React.FC<IncomingRequestInvoicesTabProps> = ({
                   activeOpacity={0.7}
                 >
                   <Ionicons name="add-circle-outline" size={20} color={colors.primary.green} />
-                  <Text style={styles.addItemButtonText}>Add Item</Text>
+                  <Text style={styles.addItemButtonText}>{t('invoices.addItem')}</Text>
                 </TouchableOpacity>
               </View>
 
               {/* Discount */}
               <View style={styles.discountSection}>
-                <Text style={styles.sectionTitle}>Discount (%)</Text>
+                <Text style={styles.sectionTitle}>{t('invoices.discountPercent')}</Text>
                 <TextInput
                   style={styles.discountInput}
                   placeholder="0"
@@ -906,9 +888,9 @@ const IncomingRequestInvoicesTab: React.FC<IncomingRequestInvoicesTabProps> = ({
               {/* Total */}
               <View style={styles.totalSection}>
                 <View style={styles.totalRow}>
-                  <Text style={styles.totalLabel}>Total:</Text>
+                  <Text style={styles.totalLabel}>{t('invoices.totalLabel')}</Text>
                   <Text style={styles.totalAmount}>
-                    KES {calculateTotal().toFixed(2)}
+                    {formatCurrency(calculateTotal())}
                   </Text>
                 </View>
               </View>
@@ -921,7 +903,7 @@ const IncomingRequestInvoicesTab: React.FC<IncomingRequestInvoicesTabProps> = ({
                 onPress={handleCloseCreateModal}
                 activeOpacity={0.7}
               >
-                <Text style={styles.cancelButtonText}>Cancel</Text>
+                <Text style={styles.cancelButtonText}>{t('common.cancel')}</Text>
               </TouchableOpacity>
               <TouchableOpacity
                 style={[styles.saveButton, (!isFormValid() || isSubmitting) && styles.saveButtonDisabled]}
@@ -933,7 +915,7 @@ const IncomingRequestInvoicesTab: React.FC<IncomingRequestInvoicesTabProps> = ({
                   <ActivityIndicator size="small" color={colors.text.inverse} />
                 ) : (
                   <Text style={[styles.saveButtonText, (!isFormValid() || isSubmitting) && styles.saveButtonTextDisabled]}>
-                    Save as Draft
+                    {t('invoices.saveDraft')}
                   </Text>
                 )}
               </TouchableOpacity>
@@ -999,6 +981,24 @@ const styles = StyleSheet.create({
     fontFamily: fonts.weights.regular,
     color: colors.neutral.gray.medium,
   },
+  queuedNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: colors.secondary.orangeLight + '20',
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.secondary.orange + '40',
+    marginHorizontal: 16,
+    marginTop: 16,
+  },
+  queuedNoticeText: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: fonts.weights.medium,
+    color: colors.secondary.orange,
+  },
   emptyContainer: {
     flex: 1,
     backgroundColor: colors.background.primary,
@@ -1,14 +1,15 @@
+import AuthImage from '@/components/AuthImage';
 import Skeleton from '@/components/Skeleton';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
-import { useAuthStore } from '@/store/authStore';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { useTranslation } from '@/hooks/useTranslation';
+import { bookings, isAbortError, SharedFile } from '@/services';
+import { loadResource } from '@/services/resources';
 import { formatDateTime } from '@/utils/date';
 import { Ionicons } from '@expo/vector-icons';
-import Constants from 'expo-constants';
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
-  Image,
   Modal,
   StyleSheet,
   Text,
@@ -16,33 +17,6 @@ import {
   View
 } from 'react-native';
 
-interface SharedFile {
-  id: string;
-  customerId: string;
-  bookServiceId: string;
-  fileId: string;
-  file: {
-    id: string;
-    name: string;
-    systemName: string;
-    fileSize: number;
-    mimeType: string;
-    fileSource: string;
-    userId: string;
-    deleted: boolean;
-    createdAt: number;
-    updatedAt: number;
-  };
-  customer: {
-    id: string;
-    firstName: string;
-    middleName: string;
-    lastName: string;
-  };
-  createdAt: number;
-  updatedAt: number;
-}
-
 interface IncomingRequestSharedFilesTabProps {
   bookedServiceId: string;
   isCompleted?: boolean;
@@ -52,97 +26,31 @@ const IncomingRequestSharedFilesTab: React.FC<IncomingRequestSharedFilesTabProps
   bookedServiceId,
   isCompleted = false,
 }) => {
+  const { t } = useTranslation();
   const [files, setFiles] = useState<SharedFile[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  // System name of the image shown full screen
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
-  const [imageUris, setImageUris] = useState<Record<string, string>>({});
-  const [loadingImages, setLoadingImages] = useState<Set<string>>(new Set());
-  const imageUrisRef = useRef<Record<string, string>>({});
-
-  // Keep ref in sync with state
-  useEffect(() => {
-    imageUrisRef.current = imageUris;
-  }, [imageUris]);
-
-  const getImageUri = useCallback(async (systemName: string, fileId: string): Promise<void> => {
-    // Check both ref and state to avoid race conditions
-    if (imageUrisRef.current[fileId] || loadingImages.has(fileId)) return;
-
-    setLoadingImages((prev) => new Set(prev).add(fileId));
-
-    try {
-      const API_DOMAIN = Constants.expoConfig?.extra?.apiDomain as string | undefined || '';
-      const authToken = useAuthStore.getState().token;
-
-      const response = await fetch(`${API_DOMAIN}/file/resource/${systemName}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${authToken}`,
-        },
-      });
-
-      if (!response.ok) {
-        setLoadingImages((prev) => {
-          const next = new Set(prev);
-          next.delete(fileId);
-          return next;
-        });
-        return;
-      }
-
-      const blob = await response.blob();
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const dataUri = reader.result as string;
-        setImageUris((prev) => {
-          const updated = { ...prev, [fileId]: dataUri };
-          imageUrisRef.current = updated;
-          return updated;
-        });
-        setLoadingImages((prev) => {
-          const next = new Set(prev);
-          next.delete(fileId);
-          return next;
-        });
-      };
-      reader.readAsDataURL(blob);
-    } catch (err) {
-      console.error('Failed to load image:', err);
-      setLoadingImages((prev) => {
-        const next = new Set(prev);
-        next.delete(fileId);
-        return next;
-      });
-    }
-  }, [loadingImages]);
+  const getSignal = useAbortSignal();
 
   const fetchSharedFiles = useCallback(async () => {
     setIsLoading(true);
+    const signal = getSignal();
     try {
-      const response = await api.get<SharedFile[]>(
-        `/en/auth/shared/service/files/${bookedServiceId}`,
-        {
-          requiresAuth: true,
-        }
-      );
-
-      const fetchedFiles = response.data || [];
-      setFiles(fetchedFiles);
+      const data = await bookings.sharedFiles(bookedServiceId, { signal });
 
-      // Pre-load images after a short delay to avoid blocking initial render
-      setTimeout(() => {
-        fetchedFiles.forEach((file) => {
-          if (file.file.mimeType.startsWith('image/')) {
-            getImageUri(file.file.systemName, file.file.id);
-          }
-        });
-      }, 100);
+      setFiles(data || []);
     } catch (err: any) {
+      if (isAbortError(err)) {
+        return;
+      }
       setFiles([]);
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
-  }, [bookedServiceId, getImageUri]);
+  }, [bookedServiceId, getSignal]);
 
   useEffect(() => {
     fetchSharedFiles();
@@ -150,17 +58,11 @@ const IncomingRequestSharedFilesTab: React.FC<IncomingRequestSharedFilesTabProps
 
   const handleDownload = async (file: SharedFile) => {
     try {
-      const API_DOMAIN = Constants.expoConfig?.extra?.apiDomain as string | undefined || '';
-      const authToken = useAuthStore.getState().token;
+      // Downloads into the resource cache
+      const fileUri = await loadResource(file.file.systemName);
 
-      const fileUrl = `${API_DOMAIN}/file/resource/${file.file.systemName}`;
-      
-      // Open file in browser for download
-      // TODO: Implement proper file download/sharing if expo-file-system and expo-sharing are available
-      console.log('Download file:', fileUrl);
-      
-      // For now, we can show a message or open the URL
-      // In a real implementation, you would use Linking.openURL(fileUrl) or proper file download
+      // TODO: Implement file sharing if expo-sharing is available
+      console.log('Downloaded file:', fileUri);
     } catch (err) {
       console.error('Failed to download file:', err);
     }
@@ -193,7 +95,7 @@ const IncomingRequestSharedFilesTab: React.FC<IncomingRequestSharedFilesTabProps
     return (
       <View style={styles.emptyContainer}>
         <Ionicons name="folder-outline" size={48} color={colors.neutral.gray.light} />
-        <Text style={styles.emptyText}>No shared files</Text>
+        <Text style={styles.emptyText}>{t('incomingRequest.noSharedFiles')}</Text>
       </View>
     );
   }
@@ -203,31 +105,24 @@ const IncomingRequestSharedFilesTab: React.FC<IncomingRequestSharedFilesTabProps
       <View style={styles.listContent}>
         {files.map((item) => {
           const isImageFile = isImage(item.file.mimeType);
-          const hasImageUri = !!imageUris[item.file.id];
 
           return (
             <View key={item.id} style={styles.fileCard}>
               {isImageFile ? (
-                hasImageUri ? (
-                  <TouchableOpacity
-                    onPress={() => setSelectedImage(imageUris[item.file.id])}
-                    activeOpacity={0.8}
-                  >
-                    <Image
-                      source={{ uri: imageUris[item.file.id] }}
-                      style={styles.fileImage}
-                      resizeMode="cover"
-                    />
-                  </TouchableOpacity>
-                ) : (
-                  <View style={styles.fileImageContainer}>
-                    <Skeleton width="100%" height={200} borderRadius={0} />
-                  </View>
-                )
+                <TouchableOpacity
+                  onPress={() => setSelectedImage(item.file.systemName)}
+                  activeOpacity={0.8}
+                >
+                  <AuthImage
+                    systemName={item.file.systemName}
+                    style={styles.fileImage}
+                    resizeMode="cover"
+                  />
+                </TouchableOpacity>
               ) : isPDF(item.file.mimeType) ? (
               <View style={styles.filePreview}>
                 <Ionicons name="document-text" size={48} color={colors.primary.green} />
-                <Text style={styles.filePreviewText}>PDF Document</Text>
+                <Text style={styles.filePreviewText}>{t('incomingRequest.pdfDocument')}</Text>
                 <TouchableOpacity
                   style={styles.viewButton}
                   onPress={() => {
@@ -235,7 +130,7 @@ const IncomingRequestSharedFilesTab: React.FC<IncomingRequestSharedFilesTabProps
                     console.log('View PDF:', item.file.name);
                   }}
                 >
-                  <Text style={styles.viewButtonText}>View</Text>
+                  <Text style={styles.viewButtonText}>{t('incomingRequest.view')}</Text>
                 </TouchableOpacity>
               </View>
             ) : (
@@ -247,7 +142,7 @@ const IncomingRequestSharedFilesTab: React.FC<IncomingRequestSharedFilesTabProps
                   onPress={() => handleDownload(item)}
                 >
                   <Ionicons name="download-outline" size={20} color={colors.text.inverse} />
-                  <Text style={styles.downloadButtonText}>Download</Text>
+                  <Text style={styles.downloadButtonText}>{t('incomingRequest.download')}</Text>
                 </TouchableOpacity>
               </View>
               )}
@@ -283,7 +178,7 @@ const IncomingRequestSharedFilesTab: React.FC<IncomingRequestSharedFilesTabProps
             <Ionicons name="close" size={32} color={colors.text.inverse} />
           </TouchableOpacity>
           {selectedImage && (
-            <Image source={{ uri: selectedImage }} style={styles.modalImage} resizeMode="contain" />
+            <AuthImage systemName={selectedImage} style={styles.modalImage} resizeMode="contain" />
           )}
         </View>
       </Modal>
@@ -317,11 +212,6 @@ const styles = StyleSheet.create({
     borderColor: colors.neutral.gray.lighter,
     overflow: 'hidden',
   },
-  fileImageContainer: {
-    width: '100%',
-    height: 200,
-    backgroundColor: colors.background.secondary,
-  },
   fileImage: {
     width: '100%',
     height: 200,
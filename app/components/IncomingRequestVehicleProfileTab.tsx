@@ -1,6 +1,8 @@
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { useTranslation } from '@/hooks/useTranslation';
+import { bookings, isAbortError, VehicleProfile } from '@/services';
 import { formatDateTime } from '@/utils/date';
 import { Ionicons } from '@expo/vector-icons';
 import React, { useCallback, useEffect, useState } from 'react';
@@ -12,41 +14,6 @@ import {
   View,
 } from 'react-native';
 
-interface VehicleProfile {
-  id: string;
-  customerId: string;
-  bookServiceId: string;
-  vehicleServiceId: string;
-  isRevoked: boolean;
-  profile: {
-    id: string;
-    userId: string;
-    vehicleIdentificationNumber: string;
-    make: string;
-    model: string;
-    drive: string;
-    year: number;
-    engineType: string;
-    color: string;
-    transmission: string;
-    bodyType: string;
-    fuelType: string;
-    licensePlate: string;
-    lastServiceDate: string;
-    deleted: boolean;
-    createdAt: number;
-    updatedAt: number;
-  };
-  customer: {
-    id: string;
-    firstName: string;
-    middleName: string;
-    lastName: string;
-  };
-  createdAt: number;
-  updatedAt: number;
-}
-
 interface IncomingRequestVehicleProfileTabProps {
   bookedServiceId: string;
   isCompleted?: boolean;
@@ -56,26 +23,29 @@ const IncomingRequestVehicleProfileTab: React.FC<IncomingRequestVehicleProfileTa
   bookedServiceId,
   isCompleted = false,
 }) => {
+  const { t } = useTranslation();
   const [profiles, setProfiles] = useState<VehicleProfile[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const getSignal = useAbortSignal();
 
   const fetchVehicleProfiles = useCallback(async () => {
     setIsLoading(true);
+    const signal = getSignal();
     try {
-      const response = await api.get<VehicleProfile[]>(
-        `/en/auth/share/vehicle/profiles/${bookedServiceId}`,
-        {
-          requiresAuth: true,
-        }
-      );
+      const data = await bookings.vehicleProfiles(bookedServiceId, { signal });
 
-      setProfiles(response.data || []);
+      setProfiles(data || []);
     } catch (err: any) {
+      if (isAbortError(err)) {
+        return;
+      }
       setProfiles([]);
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
-  }, [bookedServiceId]);
+  }, [bookedServiceId, getSignal]);
 
   useEffect(() => {
     fetchVehicleProfiles();
@@ -85,7 +55,7 @@ const IncomingRequestVehicleProfileTab: React.FC<IncomingRequestVehicleProfileTa
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color={colors.primary.green} />
-        <Text style={styles.loadingText}>Loading vehicle profiles...</Text>
+        <Text style={styles.loadingText}>{t('vehicleProfile.loading')}</Text>
       </View>
     );
   }
@@ -94,7 +64,7 @@ const IncomingRequestVehicleProfileTab: React.FC<IncomingRequestVehicleProfileTa
     return (
       <View style={styles.emptyContainer}>
         <Ionicons name="car-outline" size={48} color={colors.neutral.gray.light} />
-        <Text style={styles.emptyText}>No vehicle profiles found</Text>
+        <Text style={styles.emptyText}>{t('vehicleProfile.empty')}</Text>
       </View>
     );
   }
@@ -115,20 +85,20 @@ const IncomingRequestVehicleProfileTab: React.FC<IncomingRequestVehicleProfileTa
             </View>
             {profile.isRevoked && (
               <View style={styles.revokedBadge}>
-                <Text style={styles.revokedBadgeText}>Revoked</Text>
+                <Text style={styles.revokedBadgeText}>{t('vehicleProfile.revoked')}</Text>
               </View>
             )}
           </View>
 
           <View style={styles.profileDetails}>
             <View style={styles.section}>
-              <Text style={styles.sectionTitle}>Basic Information</Text>
+              <Text style={styles.sectionTitle}>{t('vehicleProfile.basicInformation')}</Text>
               <View style={styles.infoItem}>
                 <View style={styles.infoIconContainer}>
                   <Ionicons name="id-card-outline" size={18} color={colors.primary.green} />
                 </View>
                 <View style={styles.infoContent}>
-                  <Text style={styles.infoLabel}>License Plate</Text>
+                  <Text style={styles.infoLabel}>{t('vehicleProfile.licensePlate')}</Text>
                   <Text style={styles.infoValue}>{profile.profile.licensePlate}</Text>
                 </View>
               </View>
@@ -138,7 +108,7 @@ const IncomingRequestVehicleProfileTab: React.FC<IncomingRequestVehicleProfileTa
                   <Ionicons name="barcode-outline" size={18} color={colors.primary.green} />
                 </View>
                 <View style={styles.infoContent}>
-                  <Text style={styles.infoLabel}>VIN</Text>
+                  <Text style={styles.infoLabel}>{t('vehicleProfile.vin')}</Text>
                   <Text style={styles.infoValue}>{profile.profile.vehicleIdentificationNumber}</Text>
                 </View>
               </View>
@@ -148,7 +118,7 @@ const IncomingRequestVehicleProfileTab: React.FC<IncomingRequestVehicleProfileTa
                   <Ionicons name="color-palette-outline" size={18} color={colors.primary.green} />
                 </View>
                 <View style={styles.infoContent}>
-                  <Text style={styles.infoLabel}>Color</Text>
+                  <Text style={styles.infoLabel}>{t('vehicleProfile.color')}</Text>
                   <View style={styles.colorContainer}>
                     <View
                       style={[
@@ -163,39 +133,39 @@ const IncomingRequestVehicleProfileTab: React.FC<IncomingRequestVehicleProfileTa
             </View>
 
             <View style={styles.section}>
-              <Text style={styles.sectionTitle}>Specifications</Text>
+              <Text style={styles.sectionTitle}>{t('vehicleProfile.specifications')}</Text>
               <View style={styles.specsGrid}>
                 <View style={styles.specItem}>
-                  <Text style={styles.specLabel}>Body Type</Text>
+                  <Text style={styles.specLabel}>{t('vehicleProfile.bodyType')}</Text>
                   <Text style={styles.specValue}>{profile.profile.bodyType}</Text>
                 </View>
                 <View style={styles.specItem}>
-                  <Text style={styles.specLabel}>Transmission</Text>
+                  <Text style={styles.specLabel}>{t('vehicleProfile.transmission')}</Text>
                   <Text style={styles.specValue}>{profile.profile.transmission}</Text>
                 </View>
                 <View style={styles.specItem}>
-                  <Text style={styles.specLabel}>Drive</Text>
+                  <Text style={styles.specLabel}>{t('vehicleProfile.drive')}</Text>
                   <Text style={styles.specValue}>{profile.profile.drive}</Text>
                 </View>
                 <View style={styles.specItem}>
-                  <Text style={styles.specLabel}>Fuel Type</Text>
+                  <Text style={styles.specLabel}>{t('vehicleProfile.fuelType')}</Text>
                   <Text style={styles.specValue}>{profile.profile.fuelType}</Text>
                 </View>
                 <View style={styles.specItem}>
-                  <Text style={styles.specLabel}>Engine Type</Text>
+                  <Text style={styles.specLabel}>{t('vehicleProfile.engineType')}</Text>
                   <Text style={styles.specValue}>{profile.profile.engineType}</Text>
                 </View>
               </View>
             </View>
 
             <View style={styles.section}>
-              <Text style={styles.sectionTitle}>Service Information</Text>
+              <Text style={styles.sectionTitle}>{t('incomingRequest.serviceInformation')}</Text>
               <View style={styles.infoItem}>
                 <View style={styles.infoIconContainer}>
                   <Ionicons name="calendar-outline" size={18} color={colors.primary.green} />
                 </View>
                 <View style={styles.infoContent}>
-                  <Text style={styles.infoLabel}>Last Service Date</Text>
+                  <Text style={styles.infoLabel}>{t('vehicleProfile.lastServiceDate')}</Text>
                   <Text style={styles.infoValue}>
                     {formatDateTime(profile.profile.lastServiceDate)}
                   </Text>
@@ -204,13 +174,13 @@ const IncomingRequestVehicleProfileTab: React.FC<IncomingRequestVehicleProfileTa
             </View>
 
             <View style={styles.section}>
-              <Text style={styles.sectionTitle}>Owner</Text>
+              <Text style={styles.sectionTitle}>{t('vehicleProfile.owner')}</Text>
               <View style={styles.infoItem}>
                 <View style={styles.infoIconContainer}>
                   <Ionicons name="person-outline" size={18} color={colors.primary.green} />
                 </View>
                 <View style={styles.infoContent}>
-                  <Text style={styles.infoLabel}>Customer</Text>
+                  <Text style={styles.infoLabel}>{t('invoices.customer')}</Text>
                   <Text style={styles.infoValue}>
                     {profile.customer.firstName} {profile.customer.lastName}
                   </Text>
@@ -0,0 +1,167 @@
+import Button from '@/components/Button';
+import Input from '@/components/Input';
+import LocationPicker from '@/components/LocationPicker';
+import Select from '@/components/Select';
+import { colors } from '@/constants/colors';
+import { fonts } from '@/constants/fonts';
+import { useQuery } from '@/hooks/useQuery';
+import { useTranslation } from '@/hooks/useTranslation';
+import { reference } from '@/services';
+import { queryKeys } from '@/services/queryKeys';
+import { BranchDraft, useOnboardingStore } from '@/store/onboardingStore';
+import { branchSchema, validateField, validateForm } from '@/validators';
+import React, { useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+interface OnboardingBranchStepProps {
+  onNext: () => void;
+}
+
+type BranchField = Exclude<keyof BranchDraft, 'location'>;
+
+/**
+ * The organization's main branch
+ */
+const OnboardingBranchStep: React.FC<OnboardingBranchStepProps> = ({ onNext }) => {
+  const { branch, updateBranch } = useOnboardingStore();
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const { data: countries } = useQuery(queryKeys.reference.countries(), reference.countries);
+  const { t } = useTranslation();
+
+  const handleFieldChange = (field: BranchField, value: string) => {
+    updateBranch({ [field]: value });
+
+    // Validate field in real-time
+    setErrors((prev) => {
+      const newErrors = { ...prev };
+      const fieldError = validateField(branchSchema, field, value);
+      if (fieldError) {
+        newErrors[field] = fieldError;
+      } else {
+        delete newErrors[field];
+      }
+      return newErrors;
+    });
+  };
+
+  const handleContinue = () => {
+    const validation = validateForm(branchSchema, {
+      name: branch.name.trim(),
+      contact: branch.contact.trim(),
+      email: branch.email.trim(),
+      city: branch.city.trim(),
+      stateProvince: branch.stateProvince,
+      description: branch.description.trim() || null,
+      location: branch.location?.location ?? '',
+      latitude: branch.location?.latitude ?? 0,
+      longitude: branch.location?.longitude ?? 0,
+      accuracy: branch.location?.accuracy ?? 0,
+    });
+
+    if (!validation.isValid) {
+      // The picked location is validated as location, latitude, longitude and accuracy
+      const { latitude, longitude, accuracy, ...fieldErrors } = validation.errors;
+      setErrors({ location: fieldErrors.location ?? latitude ?? longitude ?? accuracy, ...fieldErrors });
+      return;
+    }
+
+    setErrors({});
+    onNext();
+  };
+
+  return (
+    <View>
+      <Text style={styles.subtitle}>{t('onboarding.branch.subtitle')}</Text>
+
+      <Input
+        label={t('onboarding.branch.name')}
+        value={branch.name}
+        onChangeText={(text) => handleFieldChange('name', text)}
+        autoCapitalize="words"
+        error={errors.name}
+      />
+
+      <Input
+        label={t('onboarding.branch.contact')}
+        value={branch.contact}
+        onChangeText={(text) => handleFieldChange('contact', text)}
+        keyboardType="phone-pad"
+        error={errors.contact}
+      />
+
+      <Input
+        label={t('onboarding.branch.email')}
+        value={branch.email}
+        onChangeText={(text) => handleFieldChange('email', text)}
+        keyboardType="email-address"
+        autoCapitalize="none"
+        error={errors.email}
+      />
+
+      <Input
+        label={t('onboarding.branch.city')}
+        value={branch.city}
+        onChangeText={(text) => handleFieldChange('city', text)}
+        autoCapitalize="words"
+        error={errors.city}
+      />
+
+      <Select
+        label={t('onboarding.branch.country')}
+        options={(countries || []).map((country) => ({
+          label: country.name,
+          value: country.name,
+        }))}
+        value={branch.stateProvince}
+        onValueChange={(value) => handleFieldChange('stateProvince', value as string)}
+        placeholder={t('onboarding.branch.selectCountry')}
+        error={errors.stateProvince}
+      />
+
+      <Input
+        label={t('onboarding.branch.description')}
+        value={branch.description}
+        onChangeText={(text) => handleFieldChange('description', text)}
+        multiline
+        numberOfLines={3}
+        error={errors.description}
+      />
+
+      <LocationPicker
+        label={t('onboarding.branch.location')}
+        value={branch.location}
+        onChange={(location) => {
+          updateBranch({ location });
+          setErrors((prev) => {
+            const newErrors = { ...prev };
+            delete newErrors.location;
+            return newErrors;
+          });
+        }}
+        error={errors.location}
+      />
+
+      <Button
+        title={t('onboarding.continue')}
+        variant="primary"
+        onPress={handleContinue}
+        style={styles.submitButton}
+      />
+    </View>
+  );
+};
+
+export default OnboardingBranchStep;
+
+const styles = StyleSheet.create({
+  subtitle: {
+    fontSize: 14,
+    fontFamily: fonts.weights.regular,
+    color: colors.neutral.gray.medium,
+    marginBottom: 24,
+    lineHeight: 20,
+  },
+  submitButton: {
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,149 @@
+import Button from '@/components/Button';
+import ImageUpload from '@/components/ImageUpload';
+import Input from '@/components/Input';
+import { colors } from '@/constants/colors';
+import { fonts } from '@/constants/fonts';
+import { UPLOAD_TARGETS, uploadConfig } from '@/constants/upload';
+import { useTranslation } from '@/hooks/useTranslation';
+import { CompanyDraft, useOnboardingStore } from '@/store/onboardingStore';
+import { companySchema, validateField, validateForm } from '@/validators';
+import React, { useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+interface OnboardingCompanyStepProps {
+  onNext: () => void;
+}
+
+type CompanyField = Exclude<keyof CompanyDraft, 'logoId'>;
+
+/**
+ * Company name, contact details and logo
+ */
+const OnboardingCompanyStep: React.FC<OnboardingCompanyStepProps> = ({ onNext }) => {
+  const { company, updateCompany } = useOnboardingStore();
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const { t } = useTranslation();
+
+  const handleFieldChange = (field: CompanyField, value: string) => {
+    updateCompany({ [field]: value });
+
+    // Validate field in real-time
+    setErrors((prev) => {
+      const newErrors = { ...prev };
+      const fieldError = validateField(companySchema, field, value);
+      if (fieldError) {
+        newErrors[field] = fieldError;
+      } else {
+        delete newErrors[field];
+      }
+      return newErrors;
+    });
+  };
+
+  const handleLogoChange = (id: string | string[]) => {
+    // ImageUpload returns a single id when multiple is false
+    const fileId = Array.isArray(id) ? id[0] : id;
+    updateCompany({ logoId: fileId || null });
+  };
+
+  const handleContinue = () => {
+    const validation = validateForm(companySchema, {
+      name: company.name.trim(),
+      email: company.email.trim(),
+      phone: company.phone.trim(),
+      website: company.website.trim(),
+      description: company.description.trim(),
+    });
+
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    setErrors({});
+    onNext();
+  };
+
+  return (
+    <View>
+      <Text style={styles.subtitle}>{t('onboarding.company.subtitle')}</Text>
+
+      <Input
+        label={t('onboarding.company.name')}
+        value={company.name}
+        onChangeText={(text) => handleFieldChange('name', text)}
+        autoCapitalize="words"
+        error={errors.name}
+      />
+
+      <Input
+        label={t('onboarding.company.email')}
+        value={company.email}
+        onChangeText={(text) => handleFieldChange('email', text)}
+        keyboardType="email-address"
+        autoCapitalize="none"
+        error={errors.email}
+      />
+
+      <Input
+        label={t('onboarding.company.phone')}
+        value={company.phone}
+        onChangeText={(text) => handleFieldChange('phone', text)}
+        keyboardType="phone-pad"
+        error={errors.phone}
+      />
+
+      <Input
+        label={t('onboarding.company.website')}
+        placeholder={t('onboarding.company.websitePlaceholder')}
+        value={company.website}
+        onChangeText={(text) => handleFieldChange('website', text)}
+        keyboardType="url"
+        autoCapitalize="none"
+        error={errors.website}
+      />
+
+      <Input
+        label={t('onboarding.company.description')}
+        value={company.description}
+        onChangeText={(text) => handleFieldChange('description', text)}
+        multiline
+        numberOfLines={3}
+        error={errors.description}
+      />
+
+      <ImageUpload
+        label={t('onboarding.company.logo')}
+        multiple={false}
+        maxSize={uploadConfig.maxImageSize}
+        uploadKey={UPLOAD_TARGETS.companyLogo}
+        fileTypes={['image']}
+        value={company.logoId || undefined}
+        onChange={handleLogoChange}
+        error={errors.logoId}
+      />
+
+      <Button
+        title={t('onboarding.continue')}
+        variant="primary"
+        onPress={handleContinue}
+        style={styles.submitButton}
+      />
+    </View>
+  );
+};
+
+export default OnboardingCompanyStep;
+
+const styles = StyleSheet.create({
+  subtitle: {
+    fontSize: 14,
+    fontFamily: fonts.weights.regular,
+    color: colors.neutral.gray.medium,
+    marginBottom: 24,
+    lineHeight: 20,
+  },
+  submitButton: {
+    marginTop: 8,
+  },
+});
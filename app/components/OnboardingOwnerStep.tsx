@@ -0,0 +1,197 @@
+import Button from '@/components/Button';
+import Input from '@/components/Input';
+import PasswordStrength from '@/components/PasswordStrength';
+import { colors } from '@/constants/colors';
+import { fonts } from '@/constants/fonts';
+import { useTranslation } from '@/hooks/useTranslation';
+import { auth, getErrorFieldErrors } from '@/services';
+import { useAuthStore } from '@/store/authStore';
+import { registerSchema, validateField, validateForm } from '@/validators';
+import React, { useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+interface OnboardingOwnerStepProps {
+  onNext: () => void;
+}
+
+type OwnerField = 'firstName' | 'lastName' | 'email' | 'phone' | 'password' | 'confirmPassword';
+
+/**
+ * Registers the business owner and signs them in
+ */
+const OnboardingOwnerStep: React.FC<OnboardingOwnerStepProps> = ({ onNext }) => {
+  const [formData, setFormData] = useState<Record<OwnerField, string>>({
+    firstName: '',
+    lastName: '',
+    email: '',
+    phone: '',
+    password: '',
+    confirmPassword: '',
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const { login } = useAuthStore();
+  const { t } = useTranslation();
+
+  const handleFieldChange = (field: OwnerField, value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+
+    // Validate field in real-time
+    setErrors((prev) => {
+      const newErrors = { ...prev };
+      delete newErrors.general;
+      const fieldError = validateField(registerSchema, field, value);
+      if (fieldError) {
+        newErrors[field] = fieldError;
+      } else {
+        delete newErrors[field];
+      }
+      return newErrors;
+    });
+  };
+
+  const handleSubmit = async () => {
+    const validation = validateForm(registerSchema, {
+      ...formData,
+      email: formData.email.trim(),
+      phone: formData.phone.trim() || undefined,
+    });
+
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    setErrors({});
+    setIsLoading(true);
+
+    try {
+      const { accessToken, refreshToken, user } = await auth.register({
+        firstName: formData.firstName.trim(),
+        lastName: formData.lastName.trim(),
+        email: formData.email.trim(),
+        phone: formData.phone.trim(),
+        password: formData.password,
+      });
+      login(accessToken, refreshToken ?? null, user);
+      onNext();
+    } catch (error: any) {
+      const fieldErrors = getErrorFieldErrors(error);
+      setErrors(
+        Object.keys(fieldErrors).length > 0
+          ? fieldErrors
+          : { general: error?.message || t('onboarding.owner.failed') }
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <View>
+      <Text style={styles.subtitle}>{t('onboarding.owner.subtitle')}</Text>
+
+      <Input
+        label={t('onboarding.owner.firstName')}
+        value={formData.firstName}
+        onChangeText={(text) => handleFieldChange('firstName', text)}
+        autoCapitalize="words"
+        autoComplete="given-name"
+        error={errors.firstName}
+      />
+
+      <Input
+        label={t('onboarding.owner.lastName')}
+        value={formData.lastName}
+        onChangeText={(text) => handleFieldChange('lastName', text)}
+        autoCapitalize="words"
+        autoComplete="family-name"
+        error={errors.lastName}
+      />
+
+      <Input
+        label={t('onboarding.owner.email')}
+        value={formData.email}
+        onChangeText={(text) => handleFieldChange('email', text)}
+        keyboardType="email-address"
+        autoCapitalize="none"
+        autoComplete="email"
+        error={errors.email}
+      />
+
+      <Input
+        label={t('onboarding.owner.phone')}
+        value={formData.phone}
+        onChangeText={(text) => handleFieldChange('phone', text)}
+        keyboardType="phone-pad"
+        autoComplete="tel"
+        error={errors.phone}
+      />
+
+      <Input
+        label={t('onboarding.owner.password')}
+        value={formData.password}
+        onChangeText={(text) => handleFieldChange('password', text)}
+        secureTextEntry
+        autoCapitalize="none"
+        autoComplete="new-password"
+        error={errors.password}
+      />
+
+      <PasswordStrength password={formData.password} />
+
+      <Input
+        label={t('onboarding.owner.confirmPassword')}
+        value={formData.confirmPassword}
+        onChangeText={(text) => handleFieldChange('confirmPassword', text)}
+        secureTextEntry
+        autoCapitalize="none"
+        error={errors.confirmPassword}
+      />
+
+      {errors.general && (
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorText}>{errors.general}</Text>
+        </View>
+      )}
+
+      <Button
+        title={t('onboarding.owner.submit')}
+        variant="primary"
+        onPress={handleSubmit}
+        loading={isLoading}
+        disabled={isLoading}
+        style={styles.submitButton}
+      />
+    </View>
+  );
+};
+
+export default OnboardingOwnerStep;
+
+const styles = StyleSheet.create({
+  subtitle: {
+    fontSize: 14,
+    fontFamily: fonts.weights.regular,
+    color: colors.neutral.gray.medium,
+    marginBottom: 24,
+    lineHeight: 20,
+  },
+  errorContainer: {
+    marginBottom: 16,
+    padding: 12,
+    backgroundColor: '#FEE2E2',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.semantic.error,
+  },
+  errorText: {
+    fontSize: 14,
+    fontFamily: fonts.weights.medium,
+    color: colors.semantic.error,
+    textAlign: 'center',
+  },
+  submitButton: {
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,121 @@
+import Button from '@/components/Button';
+import Skeleton from '@/components/Skeleton';
+import SubscriptionPlanCard from '@/components/SubscriptionPlanCard';
+import { colors } from '@/constants/colors';
+import { fonts } from '@/constants/fonts';
+import { useQuery } from '@/hooks/useQuery';
+import { useTranslation } from '@/hooks/useTranslation';
+import { subscriptions } from '@/services';
+import { queryKeys } from '@/services/queryKeys';
+import { useOnboardingStore } from '@/store/onboardingStore';
+import React, { useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+interface OnboardingPlanStepProps {
+  onNext: () => void;
+}
+
+/**
+ * Subscription plan for the new organization
+ */
+const OnboardingPlanStep: React.FC<OnboardingPlanStepProps> = ({ onNext }) => {
+  const { planId, setPlan } = useOnboardingStore();
+  const [error, setError] = useState<string | null>(null);
+  const { data: plans, error: plansError, isLoading, refresh } = useQuery(
+    queryKeys.subscriptions.plans(),
+    subscriptions.plans
+  );
+  const { t } = useTranslation();
+
+  const handleContinue = () => {
+    if (!planId || !plans?.some((plan) => plan.id === planId)) {
+      setError(t('onboarding.plan.required'));
+      return;
+    }
+    onNext();
+  };
+
+  return (
+    <View>
+      <Text style={styles.subtitle}>{t('onboarding.plan.subtitle')}</Text>
+
+      {isLoading ? (
+        Array.from({ length: 2 }).map((_, index) => (
+          <Skeleton key={index} width="100%" height={400} borderRadius={20} style={styles.skeleton} />
+        ))
+      ) : plansError ? (
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorText}>{plansError.message || t('subscriptionPlans.loadFailed')}</Text>
+          <Button title={t('common.retry')} variant="text" onPress={refresh} />
+        </View>
+      ) : (plans || []).length === 0 ? (
+        <Text style={styles.emptyText}>{t('subscriptionPlans.empty')}</Text>
+      ) : (
+        (plans || []).map((plan) => (
+          <SubscriptionPlanCard
+            key={plan.id}
+            plan={plan}
+            selected={plan.id === planId}
+            onSelect={(selectedPlan) => {
+              setPlan(selectedPlan.id);
+              setError(null);
+            }}
+          />
+        ))
+      )}
+
+      {error && (
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      )}
+
+      <Button
+        title={t('onboarding.continue')}
+        variant="primary"
+        onPress={handleContinue}
+        disabled={isLoading}
+        style={styles.submitButton}
+      />
+    </View>
+  );
+};
+
+export default OnboardingPlanStep;
+
+const styles = StyleSheet.create({
+  subtitle: {
+    fontSize: 14,
+    fontFamily: fonts.weights.regular,
+    color: colors.neutral.gray.medium,
+    marginBottom: 24,
+    lineHeight: 20,
+  },
+  skeleton: {
+    marginBottom: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: fonts.weights.regular,
+    color: colors.neutral.gray.medium,
+    textAlign: 'center',
+    paddingVertical: 40,
+  },
+  errorContainer: {
+    marginBottom: 16,
+    padding: 12,
+    backgroundColor: '#FEE2E2',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.semantic.error,
+  },
+  errorText: {
+    fontSize: 14,
+    fontFamily: fonts.weights.medium,
+    color: colors.semantic.error,
+    textAlign: 'center',
+  },
+  submitButton: {
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,228 @@
+import Button from '@/components/Button';
+import { colors } from '@/constants/colors';
+import { fonts } from '@/constants/fonts';
+import { UPLOAD_TARGETS } from '@/constants/upload';
+import { useQuery } from '@/hooks/useQuery';
+import { useTranslation } from '@/hooks/useTranslation';
+import {
+  createIdempotencyKey,
+  onboarding,
+  services as servicesApi,
+  subscriptions,
+  ValidationError,
+} from '@/services';
+import { queryKeys } from '@/services/queryKeys';
+import { releaseUploads } from '@/services/uploads';
+import { OnboardingStep, useOnboardingStore } from '@/store/onboardingStore';
+import { formatCurrency } from '@/utils/number';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+interface OnboardingReviewStepProps {
+  onEdit: (step: OnboardingStep) => void;
+}
+
+/**
+ * Summary of every draft, and the submission that creates the organization
+ */
+const OnboardingReviewStep: React.FC<OnboardingReviewStepProps> = ({ onEdit }) => {
+  const { company, branch, services, planId, idempotencyKey, setIdempotencyKey, reset } = useOnboardingStore();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { data: modes } = useQuery(queryKeys.services.modes(), servicesApi.modes);
+  const { data: plans } = useQuery(queryKeys.subscriptions.plans(), subscriptions.plans);
+  const { t } = useTranslation();
+
+  const plan = plans?.find((item) => item.id === planId);
+  const getModeName = (id: number) => modes?.find((mode) => mode.id === id)?.name ?? '';
+
+  const handleSubmit = async () => {
+    if (!planId || !branch.location) {
+      return;
+    }
+
+    // Kept in the store so a retry after the app closed is recognized as the same sign-up
+    const key = idempotencyKey ?? createIdempotencyKey();
+    setIdempotencyKey(key);
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      await onboarding.complete(
+        {
+          organization: {
+            name: company.name.trim(),
+            email: company.email.trim(),
+            phone: company.phone.trim(),
+            website: company.website.trim(),
+            description: company.description.trim(),
+            logoId: company.logoId,
+          },
+          branch: {
+            name: branch.name.trim(),
+            // The server stores the contact as digits only
+            contact: parseInt(branch.contact.replace(/\D/g, ''), 10),
+            email: branch.email.trim(),
+            city: branch.city.trim(),
+            stateProvince: branch.stateProvince,
+            description: branch.description.trim(),
+            location: branch.location.location,
+            latitude: branch.location.latitude,
+            longitude: branch.location.longitude,
+            accuracy: branch.location.accuracy,
+          },
+          services: services.map((service) => ({
+            name: service.name,
+            description: service.description,
+            thumbNailId: null,
+            modeId: service.modeId,
+          })),
+          planId,
+        },
+        { idempotencyKey: key }
+      );
+
+      reset();
+      releaseUploads(UPLOAD_TARGETS.companyLogo);
+      // The new organization is picked like any other account
+      router.replace('/SwitchAccount');
+    } catch (err: any) {
+      // A rejected submission is changed before it is sent again
+      if (err instanceof ValidationError) {
+        setIdempotencyKey(createIdempotencyKey());
+      }
+      setError(err?.message || t('onboarding.review.failed'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderSection = (title: string, step: OnboardingStep, rows: (string | null | undefined)[]) => (
+    <View style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionTitle}>{title}</Text>
+        <TouchableOpacity onPress={() => onEdit(step)} activeOpacity={0.7}>
+          <Text style={styles.editText}>{t('onboarding.edit')}</Text>
+        </TouchableOpacity>
+      </View>
+      {rows.filter(Boolean).map((row, index) => (
+        <Text key={index} style={styles.row}>
+          {row}
+        </Text>
+      ))}
+    </View>
+  );
+
+  return (
+    <View>
+      <Text style={styles.subtitle}>{t('onboarding.review.subtitle')}</Text>
+
+      {renderSection(t('onboarding.steps.company'), 'company', [
+        company.name,
+        company.email,
+        company.phone,
+        company.website,
+        company.description,
+        company.logoId ? t('onboarding.review.logoUploaded') : t('onboarding.review.noLogo'),
+      ])}
+
+      {renderSection(t('onboarding.steps.branch'), 'branch', [
+        branch.name,
+        branch.contact,
+        branch.email,
+        [branch.city, branch.stateProvince].filter(Boolean).join(', '),
+        branch.location?.location,
+      ])}
+
+      {renderSection(
+        t('onboarding.steps.services'),
+        'services',
+        services.map((service) => `${service.name} · ${getModeName(service.modeId)}`)
+      )}
+
+      {renderSection(t('onboarding.steps.plan'), 'plan', [
+        plan ? `${plan.title} · ${formatCurrency(plan.price)}` : null,
+      ])}
+
+      {error && (
+        <View style={styles.errorContainer}>
+          <Ionicons name="alert-circle-outline" size={18} color={colors.semantic.error} />
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      )}
+
+      <Button
+        title={t('onboarding.review.submit')}
+        variant="primary"
+        onPress={handleSubmit}
+        loading={isSubmitting}
+        disabled={isSubmitting}
+        style={styles.submitButton}
+      />
+    </View>
+  );
+};
+
+export default OnboardingReviewStep;
+
+const styles = StyleSheet.create({
+  subtitle: {
+    fontSize: 14,
+    fontFamily: fonts.weights.regular,
+    color: colors.neutral.gray.medium,
+    marginBottom: 24,
+    lineHeight: 20,
+  },
+  section: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.neutral.gray.lighter,
+    backgroundColor: colors.background.primary,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.primary,
+  },
+  editText: {
+    fontSize: 14,
+    fontFamily: fonts.weights.semiBold,
+    color: colors.primary.green,
+  },
+  row: {
+    fontSize: 14,
+    fontFamily: fonts.weights.regular,
+    color: colors.neutral.gray.dark,
+    marginTop: 4,
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+    padding: 12,
+    backgroundColor: '#FEE2E2',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.semantic.error,
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: fonts.weights.medium,
+    color: colors.semantic.error,
+  },
+  submitButton: {
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,230 @@
+import Button from '@/components/Button';
+import Input from '@/components/Input';
+import Select from '@/components/Select';
+import { colors } from '@/constants/colors';
+import { fonts } from '@/constants/fonts';
+import { useQuery } from '@/hooks/useQuery';
+import { useTranslation } from '@/hooks/useTranslation';
+import { createIdempotencyKey, services as servicesApi } from '@/services';
+import { queryKeys } from '@/services/queryKeys';
+import { useOnboardingStore } from '@/store/onboardingStore';
+import { serviceSchema, validateForm } from '@/validators';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+interface OnboardingServicesStepProps {
+  onNext: () => void;
+}
+
+/**
+ * The first services the organization offers, each with a service mode
+ */
+const OnboardingServicesStep: React.FC<OnboardingServicesStepProps> = ({ onNext }) => {
+  const { services, addService, removeService } = useOnboardingStore();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [modeId, setModeId] = useState<number | undefined>(undefined);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const { data: modes, error: modesError } = useQuery(queryKeys.services.modes(), servicesApi.modes);
+  const { t } = useTranslation();
+
+  const modeOptions = (modes || [])
+    .filter((mode) => mode.isActive)
+    .map((mode) => ({ label: mode.name, value: mode.id }));
+  const getModeName = (id: number) => modes?.find((mode) => mode.id === id)?.name ?? '';
+
+  const clearError = (field: string) => {
+    setErrors((prev) => {
+      const newErrors = { ...prev };
+      delete newErrors[field];
+      delete newErrors.general;
+      return newErrors;
+    });
+  };
+
+  const handleAddService = () => {
+    const validation = validateForm(serviceSchema, {
+      name: name.trim(),
+      description: description.trim(),
+      modeId,
+    });
+
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    addService({
+      id: createIdempotencyKey(),
+      name: name.trim(),
+      description: description.trim(),
+      modeId: modeId!,
+    });
+    setName('');
+    setDescription('');
+    setModeId(undefined);
+    setErrors({});
+  };
+
+  const handleContinue = () => {
+    if (services.length === 0) {
+      setErrors({ general: t('onboarding.services.required') });
+      return;
+    }
+    onNext();
+  };
+
+  return (
+    <View>
+      <Text style={styles.subtitle}>{t('onboarding.services.subtitle')}</Text>
+
+      {/* Added services */}
+      {services.map((service) => (
+        <View key={service.id} style={styles.serviceCard}>
+          <View style={styles.serviceInfo}>
+            <Text style={styles.serviceName}>{service.name}</Text>
+            <Text style={styles.serviceMode}>{getModeName(service.modeId)}</Text>
+            <Text style={styles.serviceDescription} numberOfLines={2}>
+              {service.description}
+            </Text>
+          </View>
+          <TouchableOpacity
+            onPress={() => removeService(service.id)}
+            style={styles.removeButton}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="trash-outline" size={20} color={colors.semantic.error} />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      {/* New service */}
+      <View style={styles.form}>
+        <Input
+          label={t('onboarding.services.name')}
+          value={name}
+          onChangeText={(text) => {
+            setName(text);
+            clearError('name');
+          }}
+          autoCapitalize="sentences"
+          error={errors.name}
+        />
+
+        <Input
+          label={t('onboarding.services.description')}
+          value={description}
+          onChangeText={(text) => {
+            setDescription(text);
+            clearError('description');
+          }}
+          multiline
+          numberOfLines={3}
+          error={errors.description}
+        />
+
+        <Select
+          label={t('onboarding.services.mode')}
+          options={modeOptions}
+          value={modeId}
+          onValueChange={(value) => {
+            setModeId(value as number);
+            clearError('modeId');
+          }}
+          placeholder={t('onboarding.services.selectMode')}
+          error={errors.modeId ?? (modesError ? t('onboarding.services.modesFailed') : undefined)}
+        />
+
+        <Button
+          title={t('onboarding.services.add')}
+          variant="outline"
+          onPress={handleAddService}
+        />
+      </View>
+
+      {errors.general && (
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorText}>{errors.general}</Text>
+        </View>
+      )}
+
+      <Button
+        title={t('onboarding.continue')}
+        variant="primary"
+        onPress={handleContinue}
+        style={styles.submitButton}
+      />
+    </View>
+  );
+};
+
+export default OnboardingServicesStep;
+
+const styles = StyleSheet.create({
+  subtitle: {
+    fontSize: 14,
+    fontFamily: fonts.weights.regular,
+    color: colors.neutral.gray.medium,
+    marginBottom: 24,
+    lineHeight: 20,
+  },
+  serviceCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.neutral.gray.lighter,
+    backgroundColor: colors.background.primary,
+  },
+  serviceInfo: {
+    flex: 1,
+  },
+  serviceName: {
+    fontSize: 16,
+    fontFamily: fonts.weights.semiBold,
+    color: colors.text.primary,
+  },
+  serviceMode: {
+    fontSize: 12,
+    fontFamily: fonts.weights.medium,
+    color: colors.primary.green,
+    marginTop: 2,
+  },
+  serviceDescription: {
+    fontSize: 13,
+    fontFamily: fonts.weights.regular,
+    color: colors.neutral.gray.medium,
+    marginTop: 4,
+  },
+  removeButton: {
+    padding: 8,
+    marginLeft: 8,
+  },
+  form: {
+    marginTop: 8,
+    marginBottom: 24,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: colors.background.secondary,
+  },
+  errorContainer: {
+    marginBottom: 16,
+    padding: 12,
+    backgroundColor: '#FEE2E2',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.semantic.error,
+  },
+  errorText: {
+    fontSize: 14,
+    fontFamily: fonts.weights.medium,
+    color: colors.semantic.error,
+    textAlign: 'center',
+  },
+  submitButton: {
+    marginTop: 8,
+  },
+});
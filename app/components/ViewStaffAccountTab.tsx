@@ -1,7 +1,12 @@
+import PermissionButton from '@/components/PermissionButton';
 import Toast, { ToastType } from '@/components/Toast';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
+import { PERMISSIONS } from '@/constants/permissions';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Account, isAbortError, staff } from '@/services';
+import { confirmSensitiveAction } from '@/store/appLockStore';
 import { formatDateCustom } from '@/utils/date';
 import { Ionicons } from '@expo/vector-icons';
 import React, { useCallback, useEffect, useState } from 'react';
@@ -18,24 +23,6 @@ import {
   View,
 } from 'react-native';
 
-interface Account {
-  id: string;
-  userId: string;
-  active: boolean;
-  isLocked: boolean;
-  organization: {
-    id: string;
-    name: string;
-    description: string;
-    isActive: boolean;
-    isServiceProvider: boolean;
-    createdAt: number;
-    updatedAt: number;
-  };
-  createdAt: number;
-  updatedAt: number;
-}
-
 interface ViewStaffAccountTabProps {
   userId: string;
 }
@@ -52,10 +39,12 @@ const ViewStaffAccountTab: React.FC<ViewStaffAccountTabProps> = ({ userId }) =>
     type: 'info',
     visible: false,
   });
+  const getSignal = useAbortSignal();
+  const { t } = useTranslation();
 
   const fetchAccount = useCallback(async () => {
     if (!userId) {
-      setError('User ID is required');
+      setError(t('staff.userIdRequired'));
       setIsLoading(false);
       return;
     }
@@ -63,18 +52,21 @@ const ViewStaffAccountTab: React.FC<ViewStaffAccountTabProps> = ({ userId }) =>
     setIsLoading(true);
     setError(null);
 
+    const signal = getSignal();
     try {
-      const response = await api.get<Account>(`/en/on/organization/staff/${userId}/account`, {
-        requiresAuth: true,
-      });
-
-      setAccount(response.data);
+      const staffAccount = await staff.account(userId, { signal });
+      setAccount(staffAccount);
     } catch (err: any) {
-      setError(err?.message || 'Failed to load account details. Please try again.');
+      if (isAbortError(err)) {
+        return;
+      }
+      setError(err?.message || t('staff.accountLoadFailed'));
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
-  }, [userId]);
+  }, [userId, getSignal, t]);
 
   useEffect(() => {
     fetchAccount();
@@ -102,29 +94,21 @@ const ViewStaffAccountTab: React.FC<ViewStaffAccountTabProps> = ({ userId }) =>
     if (!account) return;
 
     if (!lockReason.trim()) {
-      showToast('Please provide a reason for this action', 'error');
+      showToast(t('staff.reasonRequired'), 'error');
       return;
     }
 
+    if (!(await confirmSensitiveAction(locked ? t('staff.lockAccountPrompt') : t('staff.unlockAccountPrompt')))) return;
+
     setIsLocking(true);
     try {
-      await api.patch(
-        '/en/on/organization/staff/account/lock',
-        {
-          accountId: account.id,
-          reasons: lockReason.trim(),
-          locked: locked,
-        },
-        {
-          requiresAuth: true,
-        }
-      );
-
-      showToast(locked ? 'Account locked successfully' : 'Account unlocked successfully', 'success');
+      await staff.lockAccount(account.id, locked, lockReason.trim());
+
+      showToast(locked ? t('staff.accountLocked') : t('staff.accountUnlocked'), 'success');
       handleCloseLockModal();
       await fetchAccount(); // Refresh account data
     } catch (err: any) {
-      showToast(err?.message || 'Failed to update account status. Please try again.', 'error');
+      showToast(err?.message || t('staff.accountStatusFailed'), 'error');
     } finally {
       setIsLocking(false);
     }
@@ -134,7 +118,7 @@ const ViewStaffAccountTab: React.FC<ViewStaffAccountTabProps> = ({ userId }) =>
     return (
       <View style={styles.centerContainer}>
         <ActivityIndicator size="large" color={colors.primary.green} />
-        <Text style={styles.loadingText}>Loading account details...</Text>
+        <Text style={styles.loadingText}>{t('staff.loadingAccount')}</Text>
       </View>
     );
   }
@@ -143,9 +127,9 @@ const ViewStaffAccountTab: React.FC<ViewStaffAccountTabProps> = ({ userId }) =>
     return (
       <View style={styles.centerContainer}>
         <Ionicons name="alert-circle-outline" size={48} color={colors.semantic.error} />
-        <Text style={styles.errorText}>{error || 'Account not found'}</Text>
+        <Text style={styles.errorText}>{error || t('staff.accountNotFound')}</Text>
         <TouchableOpacity style={styles.retryButton} onPress={fetchAccount} activeOpacity={0.7}>
-          <Text style={styles.retryButtonText}>Retry</Text>
+          <Text style={styles.retryButtonText}>{t('common.retry')}</Text>
         </TouchableOpacity>
       </View>
     );
@@ -160,11 +144,11 @@ const ViewStaffAccountTab: React.FC<ViewStaffAccountTabProps> = ({ userId }) =>
       >
         {/* Account Status */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Account Status</Text>
+          <Text style={styles.sectionTitle}>{t('staff.accountStatus')}</Text>
           
           <View style={styles.statusCard}>
             <View style={styles.statusRow}>
-              <Text style={styles.statusLabel}>Account Status</Text>
+              <Text style={styles.statusLabel}>{t('staff.accountStatus')}</Text>
               <View
                 style={[
                   styles.statusBadge,
@@ -179,13 +163,13 @@ const ViewStaffAccountTab: React.FC<ViewStaffAccountTabProps> = ({ userId }) =>
                     account.active ? { color: colors.primary.green } : { color: colors.semantic.error },
                   ]}
                 >
-                  {account.active ? 'Active' : 'Inactive'}
+                  {account.active ? t('common.active') : t('common.inactive')}
                 </Text>
               </View>
             </View>
 
             <View style={styles.statusRow}>
-              <Text style={styles.statusLabel}>Lock Status</Text>
+              <Text style={styles.statusLabel}>{t('staff.lockStatus')}</Text>
               <View
                 style={[
                   styles.statusBadge,
@@ -200,14 +184,16 @@ const ViewStaffAccountTab: React.FC<ViewStaffAccountTabProps> = ({ userId }) =>
                     account.isLocked ? { color: colors.semantic.error } : { color: colors.primary.green },
                   ]}
                 >
-                  {account.isLocked ? 'Locked' : 'Unlocked'}
+                  {account.isLocked ? t('staff.locked') : t('staff.unlocked')}
                 </Text>
               </View>
             </View>
           </View>
 
           {/* Lock/Unlock Button */}
-          <TouchableOpacity
+          <PermissionButton
+            permission={PERMISSIONS.manageStaff}
+            hideWhenNoPermission
             style={[
               styles.lockButton,
               account.isLocked ? styles.unlockButton : styles.lockButtonStyle,
@@ -221,29 +207,29 @@ const ViewStaffAccountTab: React.FC<ViewStaffAccountTabProps> = ({ userId }) =>
               color={colors.text.inverse}
             />
             <Text style={styles.lockButtonText}>
-              {account.isLocked ? 'Unlock Account' : 'Lock Account'}
+              {account.isLocked ? t('staff.unlockAccount') : t('staff.lockAccount')}
             </Text>
-          </TouchableOpacity>
+          </PermissionButton>
         </View>
 
         {/* Organization Information */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Organization</Text>
+          <Text style={styles.sectionTitle}>{t('incomingRequest.organization')}</Text>
           
           <View style={styles.detailRow}>
             <Ionicons name="business-outline" size={20} color={colors.neutral.gray.medium} />
             <View style={styles.detailContent}>
-              <Text style={styles.detailLabel}>Organization Name</Text>
-              <Text style={styles.detailValue}>{account.organization.name}</Text>
+              <Text style={styles.detailLabel}>{t('staff.organizationName')}</Text>
+              <Text style={styles.detailValue}>{account.organization?.name}</Text>
             </View>
           </View>
 
-          {account.organization.description && (
+          {account.organization?.description && (
             <View style={styles.detailRow}>
               <Ionicons name="document-text-outline" size={20} color={colors.neutral.gray.medium} />
               <View style={styles.detailContent}>
-                <Text style={styles.detailLabel}>Description</Text>
-                <Text style={styles.detailValue}>{account.organization.description}</Text>
+                <Text style={styles.detailLabel}>{t('common.description')}</Text>
+                <Text style={styles.detailValue}>{account.organization?.description}</Text>
               </View>
             </View>
           )}
@@ -251,9 +237,9 @@ const ViewStaffAccountTab: React.FC<ViewStaffAccountTabProps> = ({ userId }) =>
           <View style={styles.detailRow}>
             <Ionicons name="checkmark-circle-outline" size={20} color={colors.neutral.gray.medium} />
             <View style={styles.detailContent}>
-              <Text style={styles.detailLabel}>Service Provider</Text>
+              <Text style={styles.detailLabel}>{t('staff.serviceProvider')}</Text>
               <Text style={styles.detailValue}>
-                {account.organization.isServiceProvider ? 'Yes' : 'No'}
+                {account.organization?.isServiceProvider ? t('common.yes') : t('common.no')}
               </Text>
             </View>
           </View>
@@ -261,12 +247,12 @@ const ViewStaffAccountTab: React.FC<ViewStaffAccountTabProps> = ({ userId }) =>
 
         {/* Metadata */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Metadata</Text>
+          <Text style={styles.sectionTitle}>{t('common.metadata')}</Text>
           
           <View style={styles.detailRow}>
             <Ionicons name="time-outline" size={20} color={colors.neutral.gray.medium} />
             <View style={styles.detailContent}>
-              <Text style={styles.detailLabel}>Created</Text>
+              <Text style={styles.detailLabel}>{t('common.created')}</Text>
               <Text style={styles.detailValue}>
                 {formatDateCustom(account.createdAt, 'MM/DD/YYYY')}
               </Text>
@@ -276,7 +262,7 @@ const ViewStaffAccountTab: React.FC<ViewStaffAccountTabProps> = ({ userId }) =>
           <View style={styles.detailRow}>
             <Ionicons name="refresh-outline" size={20} color={colors.neutral.gray.medium} />
             <View style={styles.detailContent}>
-              <Text style={styles.detailLabel}>Last Updated</Text>
+              <Text style={styles.detailLabel}>{t('common.lastUpdated')}</Text>
               <Text style={styles.detailValue}>
                 {formatDateCustom(account.updatedAt, 'MM/DD/YYYY')}
               </Text>
@@ -300,7 +286,7 @@ const ViewStaffAccountTab: React.FC<ViewStaffAccountTabProps> = ({ userId }) =>
             <View style={styles.modalContent}>
             <View style={styles.modalHeader}>
               <Text style={styles.modalTitle}>
-                {account.isLocked ? 'Unlock Account' : 'Lock Account'}
+                {account.isLocked ? t('staff.unlockAccount') : t('staff.lockAccount')}
               </Text>
               <TouchableOpacity
                 onPress={handleCloseLockModal}
@@ -317,14 +303,14 @@ const ViewStaffAccountTab: React.FC<ViewStaffAccountTabProps> = ({ userId }) =>
               showsVerticalScrollIndicator={false}
             >
               <Text style={styles.modalDescription}>
-                Please provide a reason for {account.isLocked ? 'unlocking' : 'locking'} this account.
+                {account.isLocked ? t('staff.unlockAccountReason') : t('staff.lockAccountReason')}
               </Text>
 
               <View style={styles.formField}>
-                <Text style={styles.formLabel}>Reason *</Text>
+                <Text style={styles.formLabel}>{t('staff.reasonLabel')}</Text>
                 <TextInput
                   style={styles.formTextArea}
-                  placeholder="Enter reason for this action"
+                  placeholder={t('staff.reasonPlaceholder')}
                   placeholderTextColor={colors.neutral.gray.medium}
                   value={lockReason}
                   onChangeText={setLockReason}
@@ -340,7 +326,7 @@ const ViewStaffAccountTab: React.FC<ViewStaffAccountTabProps> = ({ userId }) =>
                   onPress={handleCloseLockModal}
                   activeOpacity={0.7}
                 >
-                  <Text style={styles.cancelButtonText}>Cancel</Text>
+                  <Text style={styles.cancelButtonText}>{t('common.cancel')}</Text>
                 </TouchableOpacity>
                 <TouchableOpacity
                   style={[
@@ -356,7 +342,7 @@ const ViewStaffAccountTab: React.FC<ViewStaffAccountTabProps> = ({ userId }) =>
                     <ActivityIndicator size="small" color={colors.text.inverse} />
                   ) : (
                     <Text style={styles.confirmButtonText}>
-                      {account.isLocked ? 'Unlock' : 'Lock'}
+                      {account.isLocked ? t('staff.unlock') : t('staff.lock')}
                     </Text>
                   )}
                 </TouchableOpacity>
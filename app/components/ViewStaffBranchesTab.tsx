@@ -1,6 +1,8 @@
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { useTranslation } from '@/hooks/useTranslation';
+import { isAbortError, staff, StaffBranch } from '@/services';
 import { Ionicons } from '@expo/vector-icons';
 import React, { useCallback, useEffect, useState } from 'react';
 import {
@@ -12,33 +14,6 @@ import {
   View,
 } from 'react-native';
 
-interface Branch {
-  id: string;
-  organizationId: string;
-  name: string;
-  longitude: number;
-  latitude: number;
-  contact: number;
-  description: string;
-  email: string;
-  stateProvince: string;
-  city: string;
-  location: string;
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface StaffBranch {
-  id: string;
-  organizationId: string;
-  branch_id: string;
-  userId: string;
-  isLocked: boolean;
-  branch: Branch;
-  createdAt: number;
-  updatedAt: number;
-}
-
 interface ViewStaffBranchesTabProps {
   organizationStaffId: string;
 }
@@ -47,10 +22,12 @@ const ViewStaffBranchesTab: React.FC<ViewStaffBranchesTabProps> = ({ organizatio
   const [branches, setBranches] = useState<StaffBranch[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const getSignal = useAbortSignal();
+  const { t } = useTranslation();
 
   const fetchBranches = useCallback(async () => {
     if (!organizationStaffId) {
-      setError('Staff ID is required');
+      setError(t('staff.idRequired'));
       setIsLoading(false);
       return;
     }
@@ -58,21 +35,21 @@ const ViewStaffBranchesTab: React.FC<ViewStaffBranchesTabProps> = ({ organizatio
     setIsLoading(true);
     setError(null);
 
+    const signal = getSignal();
     try {
-      const response = await api.get<StaffBranch[]>(
-        `/en/on/staff/${organizationStaffId}/branches`,
-        {
-          requiresAuth: true,
-        }
-      );
-
-      setBranches(response.data || []);
+      const staffBranches = await staff.branches(organizationStaffId, { signal });
+      setBranches(staffBranches || []);
     } catch (err: any) {
-      setError(err?.message || 'Failed to load staff branches. Please try again.');
+      if (isAbortError(err)) {
+        return;
+      }
+      setError(err?.message || t('staff.branchesLoadFailed'));
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
-  }, [organizationStaffId]);
+  }, [organizationStaffId, getSignal, t]);
 
   useEffect(() => {
     fetchBranches();
@@ -89,7 +66,7 @@ const ViewStaffBranchesTab: React.FC<ViewStaffBranchesTabProps> = ({ organizatio
     return (
       <View style={styles.centerContainer}>
         <ActivityIndicator size="large" color={colors.primary.green} />
-        <Text style={styles.loadingText}>Loading branches...</Text>
+        <Text style={styles.loadingText}>{t('staff.loadingBranches')}</Text>
       </View>
     );
   }
@@ -100,7 +77,7 @@ const ViewStaffBranchesTab: React.FC<ViewStaffBranchesTabProps> = ({ organizatio
         <Ionicons name="alert-circle-outline" size={48} color={colors.semantic.error} />
         <Text style={styles.errorText}>{error}</Text>
         <TouchableOpacity style={styles.retryButton} onPress={fetchBranches} activeOpacity={0.7}>
-          <Text style={styles.retryButtonText}>Retry</Text>
+          <Text style={styles.retryButtonText}>{t('common.retry')}</Text>
         </TouchableOpacity>
       </View>
     );
@@ -110,7 +87,7 @@ const ViewStaffBranchesTab: React.FC<ViewStaffBranchesTabProps> = ({ organizatio
     return (
       <View style={styles.centerContainer}>
         <Ionicons name="business-outline" size={64} color={colors.neutral.gray.light} />
-        <Text style={styles.emptyText}>No branches assigned</Text>
+        <Text style={styles.emptyText}>{t('staff.noBranches')}</Text>
       </View>
     );
   }
@@ -146,7 +123,7 @@ const ViewStaffBranchesTab: React.FC<ViewStaffBranchesTabProps> = ({ organizatio
                 {staffBranch.isLocked && (
                   <View style={styles.lockedBadge}>
                     <Ionicons name="lock-closed" size={16} color={colors.semantic.error} />
-                    <Text style={styles.lockedText}>Locked</Text>
+                    <Text style={styles.lockedText}>{t('staff.locked')}</Text>
                   </View>
                 )}
               </View>
@@ -1,43 +1,30 @@
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
+import { useTranslation } from '@/hooks/useTranslation';
+import { UserProfile } from '@/services';
 import { formatDateCustom } from '@/utils/date';
 import { Ionicons } from '@expo/vector-icons';
 import React from 'react';
 import { ScrollView, StyleSheet, Text, View } from 'react-native';
 
-interface Staff {
-  id: string;
-  firstName: string;
-  middleName: string;
-  lastName: string;
-  email: string;
-  phone: number;
-  country: string | null;
-  userNumber: string;
-  gender: number;
-  birthDate: string;
-  verified: boolean;
-  active: boolean;
-  createdAt: number;
-  updatedAt: number;
-}
-
 interface ViewStaffDetailsTabProps {
-  staff: Staff;
+  staff: UserProfile;
   organizationStaffId: string;
 }
 
 const ViewStaffDetailsTab: React.FC<ViewStaffDetailsTabProps> = ({ staff }) => {
+  const { t } = useTranslation();
+
   const getGenderLabel = (gender: number): string => {
     switch (gender) {
       case 1:
-        return 'Male';
+        return t('staff.male');
       case 2:
-        return 'Female';
+        return t('staff.female');
       case 3:
-        return 'Transgender';
+        return t('staff.transgender');
       default:
-        return 'Unknown';
+        return t('staff.unknown');
     }
   };
 
@@ -57,14 +44,14 @@ const ViewStaffDetailsTab: React.FC<ViewStaffDetailsTabProps> = ({ staff }) => {
     >
       {/* Personal Information */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Personal Information</Text>
+        <Text style={styles.sectionTitle}>{t('staff.personalInformation')}</Text>
         
         <View style={styles.detailRow}>
           <Ionicons name="person-outline" size={20} color={colors.neutral.gray.medium} />
           <View style={styles.detailContent}>
-            <Text style={styles.detailLabel}>Full Name</Text>
+            <Text style={styles.detailLabel}>{t('staff.fullName')}</Text>
             <Text style={styles.detailValue}>
-              {[staff.firstName, staff.middleName, staff.lastName].filter(Boolean).join(' ') || 'N/A'}
+              {[staff.firstName, staff.middleName, staff.lastName].filter(Boolean).join(' ') || t('common.notAvailable')}
             </Text>
           </View>
         </View>
@@ -72,7 +59,7 @@ const ViewStaffDetailsTab: React.FC<ViewStaffDetailsTabProps> = ({ staff }) => {
         <View style={styles.detailRow}>
           <Ionicons name="mail-outline" size={20} color={colors.neutral.gray.medium} />
           <View style={styles.detailContent}>
-            <Text style={styles.detailLabel}>Email</Text>
+            <Text style={styles.detailLabel}>{t('profile.email')}</Text>
             <Text style={styles.detailValue}>{staff.email}</Text>
           </View>
         </View>
@@ -80,7 +67,7 @@ const ViewStaffDetailsTab: React.FC<ViewStaffDetailsTabProps> = ({ staff }) => {
         <View style={styles.detailRow}>
           <Ionicons name="call-outline" size={20} color={colors.neutral.gray.medium} />
           <View style={styles.detailContent}>
-            <Text style={styles.detailLabel}>Phone</Text>
+            <Text style={styles.detailLabel}>{t('profile.phone')}</Text>
             <Text style={styles.detailValue}>{staff.phone}</Text>
           </View>
         </View>
@@ -88,7 +75,7 @@ const ViewStaffDetailsTab: React.FC<ViewStaffDetailsTabProps> = ({ staff }) => {
         <View style={styles.detailRow}>
           <Ionicons name="calendar-outline" size={20} color={colors.neutral.gray.medium} />
           <View style={styles.detailContent}>
-            <Text style={styles.detailLabel}>Birth Date</Text>
+            <Text style={styles.detailLabel}>{t('staff.birthDate')}</Text>
             <Text style={styles.detailValue}>{formatDate(staff.birthDate)}</Text>
           </View>
         </View>
@@ -96,7 +83,7 @@ const ViewStaffDetailsTab: React.FC<ViewStaffDetailsTabProps> = ({ staff }) => {
         <View style={styles.detailRow}>
           <Ionicons name="person-outline" size={20} color={colors.neutral.gray.medium} />
           <View style={styles.detailContent}>
-            <Text style={styles.detailLabel}>Gender</Text>
+            <Text style={styles.detailLabel}>{t('staff.gender')}</Text>
             <Text style={styles.detailValue}>{getGenderLabel(staff.gender)}</Text>
           </View>
         </View>
@@ -105,7 +92,7 @@ const ViewStaffDetailsTab: React.FC<ViewStaffDetailsTabProps> = ({ staff }) => {
           <View style={styles.detailRow}>
             <Ionicons name="location-outline" size={20} color={colors.neutral.gray.medium} />
             <View style={styles.detailContent}>
-              <Text style={styles.detailLabel}>Country</Text>
+              <Text style={styles.detailLabel}>{t('incomingRequest.country')}</Text>
               <Text style={styles.detailValue}>{staff.country}</Text>
             </View>
           </View>
@@ -114,12 +101,12 @@ const ViewStaffDetailsTab: React.FC<ViewStaffDetailsTabProps> = ({ staff }) => {
 
       {/* Account Information */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Account Information</Text>
+        <Text style={styles.sectionTitle}>{t('staff.accountInformation')}</Text>
         
         <View style={styles.detailRow}>
           <Ionicons name="id-card-outline" size={20} color={colors.neutral.gray.medium} />
           <View style={styles.detailContent}>
-            <Text style={styles.detailLabel}>User Number</Text>
+            <Text style={styles.detailLabel}>{t('incomingRequest.userNumber')}</Text>
             <Text style={styles.detailValue}>{staff.userNumber}</Text>
           </View>
         </View>
@@ -127,7 +114,7 @@ const ViewStaffDetailsTab: React.FC<ViewStaffDetailsTabProps> = ({ staff }) => {
         <View style={styles.detailRow}>
           <Ionicons name="checkmark-circle-outline" size={20} color={colors.neutral.gray.medium} />
           <View style={styles.detailContent}>
-            <Text style={styles.detailLabel}>Status</Text>
+            <Text style={styles.detailLabel}>{t('staff.status')}</Text>
             <View style={styles.statusContainer}>
               <View
                 style={[
@@ -143,7 +130,7 @@ const ViewStaffDetailsTab: React.FC<ViewStaffDetailsTabProps> = ({ staff }) => {
                     staff.active ? { color: colors.primary.green } : { color: colors.semantic.error },
                   ]}
                 >
-                  {staff.active ? 'Active' : 'Inactive'}
+                  {staff.active ? t('common.active') : t('common.inactive')}
                 </Text>
               </View>
             </View>
@@ -153,7 +140,7 @@ const ViewStaffDetailsTab: React.FC<ViewStaffDetailsTabProps> = ({ staff }) => {
         <View style={styles.detailRow}>
           <Ionicons name="shield-checkmark-outline" size={20} color={colors.neutral.gray.medium} />
           <View style={styles.detailContent}>
-            <Text style={styles.detailLabel}>Verification</Text>
+            <Text style={styles.detailLabel}>{t('staff.verification')}</Text>
             <View style={styles.statusContainer}>
               <View
                 style={[
@@ -169,7 +156,7 @@ const ViewStaffDetailsTab: React.FC<ViewStaffDetailsTabProps> = ({ staff }) => {
                     staff.verified ? { color: colors.primary.green } : { color: colors.neutral.gray.medium },
                   ]}
                 >
-                  {staff.verified ? 'Verified' : 'Not Verified'}
+                  {staff.verified ? t('common.verified') : t('common.notVerified')}
                 </Text>
               </View>
             </View>
@@ -179,12 +166,12 @@ const ViewStaffDetailsTab: React.FC<ViewStaffDetailsTabProps> = ({ staff }) => {
 
       {/* Metadata */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Metadata</Text>
+        <Text style={styles.sectionTitle}>{t('common.metadata')}</Text>
         
         <View style={styles.detailRow}>
           <Ionicons name="time-outline" size={20} color={colors.neutral.gray.medium} />
           <View style={styles.detailContent}>
-            <Text style={styles.detailLabel}>Created</Text>
+            <Text style={styles.detailLabel}>{t('common.created')}</Text>
             <Text style={styles.detailValue}>
               {formatDateCustom(staff.createdAt, 'MM/DD/YYYY')}
             </Text>
@@ -194,7 +181,7 @@ const ViewStaffDetailsTab: React.FC<ViewStaffDetailsTabProps> = ({ staff }) => {
         <View style={styles.detailRow}>
           <Ionicons name="refresh-outline" size={20} color={colors.neutral.gray.medium} />
           <View style={styles.detailContent}>
-            <Text style={styles.detailLabel}>Last Updated</Text>
+            <Text style={styles.detailLabel}>{t('common.lastUpdated')}</Text>
             <Text style={styles.detailValue}>
               {formatDateCustom(staff.updatedAt, 'MM/DD/YYYY')}
             </Text>
@@ -1,7 +1,11 @@
+import PermissionDiffList from '@/components/PermissionDiffList';
 import Toast, { ToastType } from '@/components/Toast';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { useTranslation } from '@/hooks/useTranslation';
+import { isAbortError, OrganizationStaff, Permission, RoleTemplate, roleTemplates, staff } from '@/services';
+import { getPermissionDiff, isEmptyPermissionDiff } from '@/utils/permissions';
 import { Ionicons } from '@expo/vector-icons';
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
@@ -16,38 +20,12 @@ import {
   View,
 } from 'react-native';
 
-interface Account {
-  id: string;
-  userId: string;
-  active: boolean;
-  isLocked: boolean;
-  organization: {
-    id: string;
-    name: string;
-    description: string;
-    isActive: boolean;
-    isServiceProvider: boolean;
-    createdAt: number;
-    updatedAt: number;
-  };
-  createdAt: number;
-  updatedAt: number;
-}
-
-interface Permission {
-  id: string;
-  name: string;
-  type: string;
-  account: string;
-  createdAt: number;
-  updatedAt: number;
-}
-
 interface ViewStaffPermissionsTabProps {
   userId: string;
 }
 
 const ViewStaffPermissionsTab: React.FC<ViewStaffPermissionsTabProps> = ({ userId }) => {
+  const { t } = useTranslation();
   const [permissions, setPermissions] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -59,37 +37,51 @@ const ViewStaffPermissionsTab: React.FC<ViewStaffPermissionsTabProps> = ({ userI
   const [isAssigningPermissions, setIsAssigningPermissions] = useState(false);
   const [isRemovingPermission, setIsRemovingPermission] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [isTemplateModalVisible, setIsTemplateModalVisible] = useState(false);
+  const [templates, setTemplates] = useState<RoleTemplate[]>([]);
+  const [isLoadingTemplates, setIsLoadingTemplates] = useState(false);
+  const [selectedTemplate, setSelectedTemplate] = useState<RoleTemplate | null>(null);
+  const [isApplyingTemplate, setIsApplyingTemplate] = useState(false);
+  const [isMatchModalVisible, setIsMatchModalVisible] = useState(false);
+  const [colleagues, setColleagues] = useState<OrganizationStaff[]>([]);
+  const [isLoadingColleagues, setIsLoadingColleagues] = useState(false);
+  const [colleagueSearchQuery, setColleagueSearchQuery] = useState('');
+  const [sourceStaff, setSourceStaff] = useState<OrganizationStaff | null>(null);
+  const [sourcePermissions, setSourcePermissions] = useState<string[] | null>(null);
+  const [isMatchingPermissions, setIsMatchingPermissions] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: ToastType; visible: boolean }>({
     message: '',
     type: 'info',
     visible: false,
   });
+  const getSignal = useAbortSignal();
 
-  const fetchAccount = useCallback(async () => {
+  const fetchAccount = useCallback(async (signal?: AbortSignal) => {
     if (!userId) {
-      setError('User ID is required');
+      setError(t('staff.userIdRequired'));
       setIsLoading(false);
       return;
     }
 
     try {
-      const response = await api.get<Account>(`/en/on/organization/staff/${userId}/account`, {
-        requiresAuth: true,
-      });
+      const staffAccount = await staff.account(userId, { signal });
 
-      if (response.data) {
-        setAccountId(response.data.id);
-        return response.data.id;
+      if (staffAccount) {
+        setAccountId(staffAccount.id);
+        return staffAccount.id;
       }
       return null;
     } catch (err: any) {
-      throw new Error(err?.message || 'Failed to load account. Please try again.');
+      if (isAbortError(err)) {
+        throw err;
+      }
+      throw new Error(err?.message || t('staffPermissions.loadAccountFailed'));
     }
-  }, [userId]);
+  }, [userId, t]);
 
   const fetchPermissions = useCallback(async () => {
     if (!userId) {
-      setError('User ID is required');
+      setError(t('staff.userIdRequired'));
       setIsLoading(false);
       return;
     }
@@ -97,28 +89,31 @@ const ViewStaffPermissionsTab: React.FC<ViewStaffPermissionsTabProps> = ({ userI
     setIsLoading(true);
     setError(null);
 
+    const signal = getSignal();
     try {
       // First fetch the account to get accountId
-      const userAccountId = accountId || await fetchAccount();
+      const userAccountId = accountId || await fetchAccount(signal);
       
       if (!userAccountId) {
-        setError('Account ID not found');
+        setError(t('staffPermissions.accountIdNotFound'));
         setIsLoading(false);
         return;
       }
 
       // Then fetch permissions using accountId
-      const response = await api.get<string[]>(`/en/on/user/permission/${userAccountId}`, {
-        requiresAuth: true,
-      });
-
-      setPermissions(response.data || []);
+      const assignedPermissions = await staff.permissions(userAccountId, { signal });
+      setPermissions(assignedPermissions || []);
     } catch (err: any) {
-      setError(err?.message || 'Failed to load permissions. Please try again.');
+      if (isAbortError(err)) {
+        return;
+      }
+      setError(err?.message || t('staffPermissions.loadPermissionsFailed'));
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
-  }, [userId, accountId, fetchAccount]);
+  }, [userId, accountId, fetchAccount, getSignal, t]);
 
   useEffect(() => {
     fetchPermissions();
@@ -141,12 +136,9 @@ const ViewStaffPermissionsTab: React.FC<ViewStaffPermissionsTabProps> = ({ userI
 
   const fetchAllPermissions = useCallback(async () => {
     setIsLoadingAllPermissions(true);
+    const signal = getSignal();
     try {
-      const response = await api.get<Permission[]>('/en/on/organization/permissions', {
-        requiresAuth: true,
-      });
-
-      const allPermissionsData = response.data || [];
+      const allPermissionsData = (await staff.organizationPermissions({ signal })) || [];
       // Filter out permissions that are already assigned
       const assignedPermissionNames = new Set(permissions);
       const availablePermissions = allPermissionsData.filter(
@@ -154,11 +146,16 @@ const ViewStaffPermissionsTab: React.FC<ViewStaffPermissionsTabProps> = ({ userI
       );
       setAllPermissions(availablePermissions);
     } catch (err: any) {
-      showToast(err?.message || 'Failed to load permissions. Please try again.', 'error');
+      if (isAbortError(err)) {
+        return;
+      }
+      showToast(err?.message || t('staffPermissions.loadPermissionsFailed'), 'error');
     } finally {
-      setIsLoadingAllPermissions(false);
+      if (!signal.aborted) {
+        setIsLoadingAllPermissions(false);
+      }
     }
-  }, [permissions]);
+  }, [permissions, getSignal, t]);
 
   const handleTogglePermissionSelection = (permissionId: string) => {
     setSelectedPermissionIds((prev) => {
@@ -179,22 +176,14 @@ const ViewStaffPermissionsTab: React.FC<ViewStaffPermissionsTabProps> = ({ userI
 
     setIsAssigningPermissions(true);
     try {
-      await api.post(
-        `/en/on/assign/staff/${accountId}/permissions`,
-        {
-          permissionId: Array.from(selectedPermissionIds),
-        },
-        {
-          requiresAuth: true,
-        }
-      );
+      await staff.assignPermissions(accountId, Array.from(selectedPermissionIds));
 
-      showToast('Permissions assigned successfully', 'success');
+      showToast(t('staffPermissions.assigned'), 'success');
       setIsAddModalVisible(false);
       setSelectedPermissionIds(new Set());
       await fetchPermissions(); // Refresh permissions list
     } catch (err: any) {
-      showToast(err?.message || 'Failed to assign permissions. Please try again.', 'error');
+      showToast(err?.message || t('staffPermissions.assignFailed'), 'error');
     } finally {
       setIsAssigningPermissions(false);
     }
@@ -204,41 +193,36 @@ const ViewStaffPermissionsTab: React.FC<ViewStaffPermissionsTabProps> = ({ userI
     if (!accountId) return;
 
     // Fetch all permissions to find the ID
+    const signal = getSignal();
     try {
-      const allPermsResponse = await api.get<Permission[]>('/en/on/organization/permissions', {
-        requiresAuth: true,
-      });
-
-      const allPerms = allPermsResponse.data || [];
+      const allPerms = (await staff.organizationPermissions({ signal })) || [];
       const permission = allPerms.find((p) => p.name === permissionName);
 
       if (!permission) {
-        showToast('Permission not found', 'error');
+        showToast(t('staffPermissions.permissionNotFound'), 'error');
         return;
       }
 
       Alert.alert(
-        'Remove Permission',
-        `Are you sure you want to remove "${permissionName}"?`,
+        t('staffPermissions.removeTitle'),
+        t('staffPermissions.removeMessage', { name: permissionName }),
         [
           {
-            text: 'Cancel',
+            text: t('common.cancel'),
             style: 'cancel',
           },
           {
-            text: 'Remove',
+            text: t('staffPermissions.remove'),
             style: 'destructive',
             onPress: async () => {
               setIsRemovingPermission(permission.id);
               try {
-                await api.delete(`/en/on/remove/staff/${accountId}/permission/${permission.id}`, {
-                  requiresAuth: true,
-                });
+                await staff.removePermission(accountId, permission.id);
 
-                showToast('Permission removed successfully', 'success');
+                showToast(t('staffPermissions.removed'), 'success');
                 await fetchPermissions(); // Refresh permissions list
               } catch (err: any) {
-                showToast(err?.message || 'Failed to remove permission. Please try again.', 'error');
+                showToast(err?.message || t('staffPermissions.removeFailed'), 'error');
               } finally {
                 setIsRemovingPermission(null);
               }
@@ -247,10 +231,159 @@ const ViewStaffPermissionsTab: React.FC<ViewStaffPermissionsTabProps> = ({ userI
         ]
       );
     } catch (err: any) {
-      showToast('Failed to load permission details. Please try again.', 'error');
+      if (isAbortError(err)) {
+        return;
+      }
+      showToast(t('staffPermissions.permissionLoadFailed'), 'error');
+    }
+  };
+
+  const handleOpenTemplateModal = async () => {
+    setIsTemplateModalVisible(true);
+    setSelectedTemplate(null);
+    setIsLoadingTemplates(true);
+
+    const signal = getSignal();
+    try {
+      setTemplates((await roleTemplates.list({ signal })) || []);
+    } catch (err: any) {
+      if (isAbortError(err)) {
+        return;
+      }
+      showToast(err?.message || t('roleTemplates.loadFailed'), 'error');
+      setIsTemplateModalVisible(false);
+    } finally {
+      if (!signal.aborted) {
+        setIsLoadingTemplates(false);
+      }
+    }
+  };
+
+  const handleApplyTemplate = async () => {
+    if (!accountId || !selectedTemplate) {
+      return;
+    }
+
+    setIsApplyingTemplate(true);
+    try {
+      await roleTemplates.apply(selectedTemplate.id, [accountId]);
+
+      showToast(t('staffPermissions.templateApplied', { name: selectedTemplate.name }), 'success');
+      setIsTemplateModalVisible(false);
+      await fetchPermissions(); // Refresh permissions list
+    } catch (err: any) {
+      showToast(err?.message || t('roleTemplates.applyFailed'), 'error');
+    } finally {
+      setIsApplyingTemplate(false);
+    }
+  };
+
+  const handleOpenMatchModal = async () => {
+    setIsMatchModalVisible(true);
+    setSourceStaff(null);
+    setSourcePermissions(null);
+    setColleagueSearchQuery('');
+    setIsLoadingColleagues(true);
+
+    const signal = getSignal();
+    try {
+      const staffs = (await staff.list({ signal })) || [];
+      setColleagues(staffs.filter((member) => member.userId !== userId));
+    } catch (err: any) {
+      if (isAbortError(err)) {
+        return;
+      }
+      showToast(err?.message || t('staffPermissions.loadStaffFailed'), 'error');
+      setIsMatchModalVisible(false);
+    } finally {
+      if (!signal.aborted) {
+        setIsLoadingColleagues(false);
+      }
+    }
+  };
+
+  const handleSelectSourceStaff = async (member: OrganizationStaff) => {
+    setSourceStaff(member);
+    setSourcePermissions(null);
+
+    const signal = getSignal();
+    try {
+      const sourceAccount = await staff.account(member.userId, { signal });
+      setSourcePermissions((await staff.permissions(sourceAccount.id, { signal })) || []);
+    } catch (err: any) {
+      if (isAbortError(err)) {
+        return;
+      }
+      showToast(err?.message || t('staffPermissions.loadPermissionsFailed'), 'error');
+      setSourceStaff(null);
     }
   };
 
+  const matchDiff = useMemo(
+    () => (sourcePermissions ? getPermissionDiff(permissions, sourcePermissions) : null),
+    [permissions, sourcePermissions]
+  );
+
+  const handleMatchPermissions = async () => {
+    if (!accountId || !sourceStaff || !matchDiff) {
+      return;
+    }
+
+    setIsMatchingPermissions(true);
+    try {
+      // The endpoints take permission IDs, so look them up by name; names the organization
+      // does not define cannot be changed and are reported with the failed changes
+      const allPerms = (await staff.organizationPermissions()) || [];
+      const unresolved: string[] = [];
+      const resolve = (names: string[]) =>
+        names.flatMap((name) => {
+          const permission = allPerms.find((item) => item.name === name);
+          if (!permission) {
+            unresolved.push(name);
+            return [];
+          }
+          return [permission];
+        });
+      const failures = await staff.changePermissions(accountId, {
+        add: resolve(matchDiff.added),
+        remove: resolve(matchDiff.removed),
+      });
+      const failedChanges = [
+        ...unresolved.map((name) => `${name}: ${t('staffPermissions.notInOrganization')}`),
+        ...failures.map(({ permission, error }) => `${permission.name}: ${error.message}`),
+      ];
+
+      const changeCount = matchDiff.added.length + matchDiff.removed.length;
+      if (failedChanges.length === 0) {
+        showToast(t('staffPermissions.matched', { name: sourceStaff.staff.firstName }), 'success');
+        setIsMatchModalVisible(false);
+      } else {
+        Alert.alert(
+          t('staffPermissions.someFailedTitle'),
+          `${t('staffPermissions.someFailedMessage', {
+            applied: changeCount - failedChanges.length,
+            total: changeCount,
+          })}\n\n${failedChanges.join('\n')}`
+        );
+      }
+      await fetchPermissions(); // Refresh permissions list
+    } catch (err: any) {
+      showToast(err?.message || t('staffPermissions.updateFailed'), 'error');
+    } finally {
+      setIsMatchingPermissions(false);
+    }
+  };
+
+  const filteredColleagues = useMemo(() => {
+    if (!colleagueSearchQuery.trim()) {
+      return colleagues;
+    }
+    const query = colleagueSearchQuery.toLowerCase();
+    return colleagues.filter((member) =>
+      `${member.staff.firstName} ${member.staff.lastName}`.toLowerCase().includes(query)
+    );
+  }, [colleagues, colleagueSearchQuery]);
+
   const filteredAllPermissions = useMemo(() => {
     if (!searchQuery.trim()) {
       return allPermissions;
@@ -267,7 +400,7 @@ const ViewStaffPermissionsTab: React.FC<ViewStaffPermissionsTabProps> = ({ userI
     return (
       <View style={styles.centerContainer}>
         <ActivityIndicator size="large" color={colors.primary.green} />
-        <Text style={styles.loadingText}>Loading permissions...</Text>
+        <Text style={styles.loadingText}>{t('staffPermissions.loadingPermissions')}</Text>
       </View>
     );
   }
@@ -285,20 +418,38 @@ const ViewStaffPermissionsTab: React.FC<ViewStaffPermissionsTabProps> = ({ userI
     <>
       {/* Header with Add Button */}
       <View style={styles.header}>
-        <Text style={styles.headerTitle}>Permissions</Text>
-        <TouchableOpacity
-          style={styles.addButton}
-          onPress={handleOpenAddModal}
-          activeOpacity={0.7}
-        >
-          <Ionicons name="add" size={24} color={colors.text.inverse} />
-        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('staff.permissionsTab')}</Text>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={styles.outlineIconButton}
+            onPress={handleOpenMatchModal}
+            activeOpacity={0.7}
+            accessibilityLabel={t('staffPermissions.makeMatch')}
+          >
+            <Ionicons name="people-outline" size={20} color={colors.primary.green} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.templateButton}
+            onPress={handleOpenTemplateModal}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="shield-checkmark-outline" size={18} color={colors.primary.green} />
+            <Text style={styles.templateButtonText}>{t('staffPermissions.applyTemplate')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={handleOpenAddModal}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="add" size={24} color={colors.text.inverse} />
+          </TouchableOpacity>
+        </View>
       </View>
 
       {permissions.length === 0 ? (
         <View style={styles.centerContainer}>
           <Ionicons name="shield-outline" size={64} color={colors.neutral.gray.light} />
-          <Text style={styles.emptyText}>No permissions assigned</Text>
+          <Text style={styles.emptyText}>{t('staffPermissions.noPermissions')}</Text>
         </View>
       ) : (
         <ScrollView
@@ -341,7 +492,7 @@ const ViewStaffPermissionsTab: React.FC<ViewStaffPermissionsTabProps> = ({ userI
         <View style={styles.modalOverlay}>
           <View style={styles.modalContent}>
             <View style={styles.modalHeader}>
-              <Text style={styles.modalTitle}>Assign Permissions</Text>
+              <Text style={styles.modalTitle}>{t('staffPermissions.assignTitle')}</Text>
               <TouchableOpacity
                 onPress={() => setIsAddModalVisible(false)}
                 activeOpacity={0.7}
@@ -360,7 +511,7 @@ const ViewStaffPermissionsTab: React.FC<ViewStaffPermissionsTabProps> = ({ userI
               />
               <TextInput
                 style={styles.searchInput}
-                placeholder="Search permissions..."
+                placeholder={t('staffPermissions.searchPermissions')}
                 placeholderTextColor={colors.neutral.gray.medium}
                 value={searchQuery}
                 onChangeText={setSearchQuery}
@@ -383,13 +534,13 @@ const ViewStaffPermissionsTab: React.FC<ViewStaffPermissionsTabProps> = ({ userI
             {isLoadingAllPermissions ? (
               <View style={styles.modalLoadingContainer}>
                 <ActivityIndicator size="large" color={colors.primary.green} />
-                <Text style={styles.modalLoadingText}>Loading permissions...</Text>
+                <Text style={styles.modalLoadingText}>{t('staffPermissions.loadingPermissions')}</Text>
               </View>
             ) : filteredAllPermissions.length === 0 ? (
               <View style={styles.modalEmptyContainer}>
                 <Ionicons name="shield-outline" size={48} color={colors.neutral.gray.light} />
                 <Text style={styles.modalEmptyText}>
-                  {searchQuery ? 'No permissions found' : 'No available permissions'}
+                  {searchQuery ? t('staffPermissions.noResults') : t('staffPermissions.noAvailable')}
                 </Text>
               </View>
             ) : (
@@ -440,7 +591,7 @@ const ViewStaffPermissionsTab: React.FC<ViewStaffPermissionsTabProps> = ({ userI
                 onPress={() => setIsAddModalVisible(false)}
                 activeOpacity={0.7}
               >
-                <Text style={styles.modalCancelButtonText}>Cancel</Text>
+                <Text style={styles.modalCancelButtonText}>{t('common.cancel')}</Text>
               </TouchableOpacity>
               <TouchableOpacity
                 style={[
@@ -456,7 +607,7 @@ const ViewStaffPermissionsTab: React.FC<ViewStaffPermissionsTabProps> = ({ userI
                   <ActivityIndicator size="small" color={colors.text.inverse} />
                 ) : (
                   <Text style={styles.modalAddButtonText}>
-                    Assign ({selectedPermissionIds.size})
+                    {t('staffPermissions.assign', { count: selectedPermissionIds.size })}
                   </Text>
                 )}
               </TouchableOpacity>
@@ -465,6 +616,221 @@ const ViewStaffPermissionsTab: React.FC<ViewStaffPermissionsTabProps> = ({ userI
         </View>
       </Modal>
 
+      {/* Apply Template Modal */}
+      <Modal
+        visible={isTemplateModalVisible}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setIsTemplateModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{t('staffPermissions.applyTemplate')}</Text>
+              <TouchableOpacity
+                onPress={() => setIsTemplateModalVisible(false)}
+                activeOpacity={0.7}
+              >
+                <Ionicons name="close" size={24} color={colors.text.primary} />
+              </TouchableOpacity>
+            </View>
+
+            {isLoadingTemplates ? (
+              <View style={styles.modalLoadingContainer}>
+                <ActivityIndicator size="large" color={colors.primary.green} />
+                <Text style={styles.modalLoadingText}>{t('staffPermissions.loadingTemplates')}</Text>
+              </View>
+            ) : templates.length === 0 ? (
+              <View style={styles.modalEmptyContainer}>
+                <Ionicons name="shield-outline" size={48} color={colors.neutral.gray.light} />
+                <Text style={styles.modalEmptyText}>{t('roleTemplates.empty')}</Text>
+              </View>
+            ) : (
+              <ScrollView
+                style={styles.modalScrollView}
+                contentContainerStyle={styles.templateScrollContent}
+                showsVerticalScrollIndicator={false}
+              >
+                {templates.map((template) => {
+                  const isSelected = selectedTemplate?.id === template.id;
+                  return (
+                    <TouchableOpacity
+                      key={template.id}
+                      style={[styles.permissionSelectCard, isSelected && styles.templateCardSelected]}
+                      onPress={() => setSelectedTemplate(template)}
+                      activeOpacity={0.7}
+                    >
+                      <View style={styles.permissionSelectContent}>
+                        <Text style={styles.permissionSelectName}>{template.name}</Text>
+                        {isSelected ? (
+                          <View style={styles.templateDiff}>
+                            <PermissionDiffList diff={getPermissionDiff(permissions, template.permissions)} />
+                          </View>
+                        ) : (
+                          <Text style={styles.templateMeta}>{template.permissions.length} permissions</Text>
+                        )}
+                      </View>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+            )}
+
+            <View style={styles.modalFooter}>
+              <TouchableOpacity
+                style={styles.modalCancelButton}
+                onPress={() => setIsTemplateModalVisible(false)}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.modalCancelButtonText}>{t('common.cancel')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.modalAddButton,
+                  (!selectedTemplate || isApplyingTemplate) && styles.modalAddButtonDisabled,
+                ]}
+                onPress={handleApplyTemplate}
+                disabled={!selectedTemplate || isApplyingTemplate}
+                activeOpacity={0.7}
+              >
+                {isApplyingTemplate ? (
+                  <ActivityIndicator size="small" color={colors.text.inverse} />
+                ) : (
+                  <Text style={styles.modalAddButtonText}>{t('staffPermissions.apply')}</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Make Permissions Match Modal */}
+      <Modal
+        visible={isMatchModalVisible}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setIsMatchModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              {sourceStaff ? (
+                <TouchableOpacity onPress={() => setSourceStaff(null)} activeOpacity={0.7}>
+                  <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
+                </TouchableOpacity>
+              ) : null}
+              <Text style={[styles.modalTitle, styles.matchModalTitle]}>
+                {sourceStaff
+                  ? t('staffPermissions.matchWith', {
+                      name: `${sourceStaff.staff.firstName} ${sourceStaff.staff.lastName}`,
+                    })
+                  : t('staffPermissions.matchTitle')}
+              </Text>
+              <TouchableOpacity
+                onPress={() => setIsMatchModalVisible(false)}
+                activeOpacity={0.7}
+              >
+                <Ionicons name="close" size={24} color={colors.text.primary} />
+              </TouchableOpacity>
+            </View>
+
+            {sourceStaff ? (
+              <ScrollView
+                style={styles.modalScrollView}
+                contentContainerStyle={styles.matchDiffContent}
+                showsVerticalScrollIndicator={false}
+              >
+                {matchDiff ? (
+                  <PermissionDiffList diff={matchDiff} />
+                ) : (
+                  <ActivityIndicator size="large" color={colors.primary.green} />
+                )}
+              </ScrollView>
+            ) : (
+              <>
+                {/* Search */}
+                <View style={[styles.searchContainer, styles.matchSearchContainer]}>
+                  <Ionicons
+                    name="search-outline"
+                    size={20}
+                    color={colors.neutral.gray.medium}
+                    style={styles.searchIcon}
+                  />
+                  <TextInput
+                    style={styles.searchInput}
+                    placeholder={t('staffPermissions.searchStaff')}
+                    placeholderTextColor={colors.neutral.gray.medium}
+                    value={colleagueSearchQuery}
+                    onChangeText={setColleagueSearchQuery}
+                  />
+                </View>
+
+                {isLoadingColleagues ? (
+                  <View style={styles.modalLoadingContainer}>
+                    <ActivityIndicator size="large" color={colors.primary.green} />
+                    <Text style={styles.modalLoadingText}>{t('staffPermissions.loadingStaff')}</Text>
+                  </View>
+                ) : filteredColleagues.length === 0 ? (
+                  <View style={styles.modalEmptyContainer}>
+                    <Ionicons name="people-outline" size={48} color={colors.neutral.gray.light} />
+                    <Text style={styles.modalEmptyText}>{t('staffPermissions.noStaff')}</Text>
+                  </View>
+                ) : (
+                  <ScrollView
+                    style={styles.modalScrollView}
+                    contentContainerStyle={styles.modalScrollContent}
+                    showsVerticalScrollIndicator={false}
+                  >
+                    {filteredColleagues.map((member) => (
+                      <TouchableOpacity
+                        key={member.id}
+                        style={styles.permissionSelectCard}
+                        onPress={() => handleSelectSourceStaff(member)}
+                        activeOpacity={0.7}
+                      >
+                        <View style={styles.permissionSelectContent}>
+                          <Text style={styles.permissionSelectName}>
+                            {member.staff.firstName} {member.staff.lastName}
+                          </Text>
+                          <Text style={styles.templateMeta}>{member.staff.email}</Text>
+                        </View>
+                        <Ionicons name="chevron-forward" size={20} color={colors.neutral.gray.medium} />
+                      </TouchableOpacity>
+                    ))}
+                  </ScrollView>
+                )}
+              </>
+            )}
+
+            <View style={styles.modalFooter}>
+              <TouchableOpacity
+                style={styles.modalCancelButton}
+                onPress={() => setIsMatchModalVisible(false)}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.modalCancelButtonText}>{t('common.cancel')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.modalAddButton,
+                  (!matchDiff || isEmptyPermissionDiff(matchDiff) || isMatchingPermissions) &&
+                    styles.modalAddButtonDisabled,
+                ]}
+                onPress={handleMatchPermissions}
+                disabled={!matchDiff || isEmptyPermissionDiff(matchDiff) || isMatchingPermissions}
+                activeOpacity={0.7}
+              >
+                {isMatchingPermissions ? (
+                  <ActivityIndicator size="small" color={colors.text.inverse} />
+                ) : (
+                  <Text style={styles.modalAddButtonText}>{t('staffPermissions.apply')}</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
       {/* Toast */}
       <Toast
         message={toast.message}
@@ -494,6 +860,35 @@ const styles = StyleSheet.create({
     fontFamily: fonts.weights.bold,
     color: colors.text.primary,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  templateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: colors.primary.green,
+  },
+  templateButtonText: {
+    fontSize: 14,
+    fontFamily: fonts.weights.semiBold,
+    color: colors.primary.green,
+  },
+  outlineIconButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: colors.primary.green,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   addButton: {
     width: 40,
     height: 40,
@@ -668,6 +1063,32 @@ const styles = StyleSheet.create({
     borderColor: colors.neutral.gray.lighter,
     gap: 12,
   },
+  matchModalTitle: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  matchSearchContainer: {
+    marginTop: 16,
+  },
+  matchDiffContent: {
+    padding: 20,
+  },
+  templateScrollContent: {
+    paddingTop: 16,
+    paddingBottom: 20,
+  },
+  templateCardSelected: {
+    borderColor: colors.primary.green,
+  },
+  templateDiff: {
+    marginTop: 8,
+  },
+  templateMeta: {
+    marginTop: 4,
+    fontSize: 13,
+    fontFamily: fonts.weights.regular,
+    color: colors.neutral.gray.medium,
+  },
   permissionSelectCheckbox: {
     width: 24,
     height: 24,
@@ -1,29 +1,40 @@
 import { colors } from "@/constants/colors";
 import { fonts } from "@/constants/fonts";
 import { useAuthStore } from "@/store/authStore";
+import { useBranchStore } from "@/store/branchStore";
+import { useCompanyStore } from "@/store/companyStore";
+import { useStoresHydrated } from "@/store/hydration";
+import { useOnboardingStore } from "@/store/onboardingStore";
 import { router } from "expo-router";
-import { useEffect, useState } from "react";
+import { useEffect } from "react";
 import { ActivityIndicator, Image, StyleSheet, Text, View } from "react-native";
 
 export default function Index() {
+  const isHydrated = useStoresHydrated();
   const { isAuthenticated } = useAuthStore();
-  const [isLoading, setIsLoading] = useState(true);
+  const { company } = useCompanyStore();
+  const { branch } = useBranchStore();
+  const { step: onboardingStep } = useOnboardingStore();
 
   useEffect(() => {
-    // Show splash screen for 2.5 seconds
-    const timer = setTimeout(() => {
-      setIsLoading(false);
-      
-      // Navigate based on authentication status
-      if (isAuthenticated) {
-        router.replace("/(tabs)");
-      } else {
-        router.replace("/Login");
-      }
-    }, 2500);
+    // Keep the splash screen up until the persisted session has been restored
+    if (!isHydrated) {
+      return;
+    }
 
-    return () => clearTimeout(timer);
-  }, [isAuthenticated]);
+    // Navigate based on the restored session
+    if (!isAuthenticated) {
+      router.replace("/Login");
+    } else if (onboardingStep) {
+      // Resume an organization sign-up that was left unfinished
+      router.replace("/Onboarding");
+    } else if (company && branch) {
+      // Resume the last selected organization and branch
+      router.replace("/(tabs)");
+    } else {
+      router.replace("/SwitchAccount");
+    }
+  }, [isHydrated, isAuthenticated, onboardingStep, company, branch]);
 
   return (
     <View style={styles.container}>
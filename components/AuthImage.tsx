@@ -0,0 +1,79 @@
+/**
+ * AuthImage component for images served by the authenticated file endpoint
+ * Files are loaded through the resource cache, so each thumbnail is downloaded once.
+ */
+import Skeleton from '@/components/Skeleton';
+import { colors } from '@/constants/colors';
+import { useResourceUri } from '@/hooks/useResourceUri';
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { Image, ImageProps, StyleSheet, View, ViewStyle } from 'react-native';
+
+export interface AuthImageProps extends Omit<ImageProps, 'source'> {
+  /**
+   * System name of the file, e.g. service.thumbNail.systemName
+   * Without one the fallback is shown
+   */
+  systemName?: string | null;
+  /**
+   * Content shown when there is no file or it failed to load
+   * Defaults to an image icon on the skeleton background
+   */
+  fallback?: React.ReactNode;
+  /**
+   * Icon of the default fallback
+   */
+  fallbackIcon?: React.ComponentProps<typeof Ionicons>['name'];
+}
+
+/**
+ * Image loaded from the file endpoint with the current session
+ * Shows a Skeleton while loading and the fallback when there is no file or it failed to load.
+ * @param systemName - System name of the file to show
+ * @param fallback - Optional content replacing the default fallback
+ * @param fallbackIcon - Icon of the default fallback (default: image-outline)
+ */
+export default function AuthImage({
+  systemName,
+  fallback,
+  fallbackIcon = 'image-outline',
+  style,
+  ...imageProps
+}: AuthImageProps) {
+  const { uri, isLoading, markFailed } = useResourceUri(systemName);
+
+  // The image style sizes and rounds the placeholder and fallback as well
+  const containerStyle = [StyleSheet.flatten(style) as ViewStyle, styles.frame];
+
+  if (uri) {
+    return <Image {...imageProps} source={{ uri }} style={style} onError={markFailed} />;
+  }
+
+  if (!isLoading) {
+    if (fallback !== undefined) {
+      return <>{fallback}</>;
+    }
+    return (
+      <View style={[containerStyle, styles.fallback]}>
+        <Ionicons name={fallbackIcon} size={32} color={colors.neutral.gray.medium} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={containerStyle}>
+      <Skeleton width="100%" height="100%" borderRadius={0} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  frame: {
+    overflow: 'hidden',
+  },
+  fallback: {
+    backgroundColor: colors.neutral.gray.lighter,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
@@ -0,0 +1,140 @@
+/**
+ * BackupCodes component listing two-step verification backup codes
+ * The codes can be copied, saved as a text file or shared, since the server shows them only once.
+ */
+import { colors } from '@/constants/colors';
+import { fonts } from '@/constants/fonts';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Ionicons } from '@expo/vector-icons';
+import * as Clipboard from 'expo-clipboard';
+import { Directory, File, Paths } from 'expo-file-system';
+import React from 'react';
+import { Alert, Platform, Share, StyleSheet, Text, TouchableOpacity, View, ViewStyle } from 'react-native';
+
+interface BackupCodesProps {
+  codes: string[];
+  style?: ViewStyle;
+}
+
+const FILE_NAME = 'diracks-backup-codes.txt';
+
+/**
+ * Saves the text as a file the user can find again
+ * Web downloads it, Android writes it to a folder the user picks and iOS hands it to the share
+ * sheet, whose "Save to Files" is where iOS keeps user files.
+ * @returns Whether the file was saved; false when the user cancelled
+ */
+async function saveTextFile(text: string) {
+  if (Platform.OS === 'web') {
+    const link = document.createElement('a');
+    link.href = `data:text/plain;charset=utf-8,${encodeURIComponent(text)}`;
+    link.download = FILE_NAME;
+    link.click();
+    return true;
+  }
+
+  if (Platform.OS === 'android') {
+    const directory = await Directory.pickDirectoryAsync();
+    directory.createFile(FILE_NAME, 'text/plain').write(text);
+    return true;
+  }
+
+  const file = new File(Paths.cache, FILE_NAME);
+  file.create({ overwrite: true });
+  file.write(text);
+  const result = await Share.share({ url: file.uri });
+  return result.action === Share.sharedAction;
+}
+
+/**
+ * Backup codes with copy, download and share actions
+ * @param codes - Unused backup codes
+ * @param style - Optional container style
+ */
+export default function BackupCodes({ codes, style }: BackupCodesProps) {
+  const { t } = useTranslation();
+  const text = [t('backupCodes.fileHeader'), '', ...codes].join('\n');
+
+  const handleCopy = async () => {
+    await Clipboard.setStringAsync(text);
+    Alert.alert(t('backupCodes.copiedTitle'), t('backupCodes.copiedMessage'));
+  };
+
+  const handleDownload = async () => {
+    try {
+      if (await saveTextFile(text)) {
+        Alert.alert(t('backupCodes.savedTitle'), t('backupCodes.savedMessage'));
+      }
+    } catch (error: any) {
+      // Closing the Android folder picker rejects as well
+      console.warn('Saving backup codes failed:', error);
+    }
+  };
+
+  const handleShare = async () => {
+    await Share.share({ message: text, title: t('backupCodes.title') });
+  };
+
+  const actions = [
+    { key: 'copy', icon: 'copy-outline', label: t('backupCodes.copy'), onPress: handleCopy },
+    { key: 'download', icon: 'download-outline', label: t('backupCodes.download'), onPress: handleDownload },
+    { key: 'share', icon: 'share-outline', label: t('backupCodes.share'), onPress: handleShare },
+  ] as const;
+
+  return (
+    <View style={style}>
+      <View style={styles.codes}>
+        {codes.map((code) => (
+          <Text key={code} style={styles.code} selectable>
+            {code}
+          </Text>
+        ))}
+      </View>
+
+      <View style={styles.actions}>
+        {actions.map((action) => (
+          <TouchableOpacity key={action.key} style={styles.action} onPress={action.onPress} activeOpacity={0.7}>
+            <Ionicons name={action.icon} size={20} color={colors.primary.green} />
+            <Text style={styles.actionText}>{action.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  codes: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.neutral.gray.lighter,
+    backgroundColor: colors.background.secondary,
+  },
+  code: {
+    width: '50%',
+    paddingVertical: 6,
+    fontSize: 16,
+    fontFamily: Platform.select({ ios: 'Menlo', default: 'monospace' }),
+    color: colors.text.primary,
+    textAlign: 'center',
+    letterSpacing: 1,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginTop: 12,
+  },
+  action: {
+    alignItems: 'center',
+    gap: 4,
+    padding: 8,
+  },
+  actionText: {
+    fontSize: 13,
+    fontFamily: fonts.weights.medium,
+    color: colors.primary.green,
+  },
+});
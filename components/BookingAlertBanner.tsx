@@ -0,0 +1,145 @@
+import { colors } from '@/constants/colors';
+import { fonts } from '@/constants/fonts';
+import { useTranslation } from '@/hooks/useTranslation';
+import { BookingAlertType, useBookingAlertStore } from '@/store/bookingAlertStore';
+import { Ionicons } from '@expo/vector-icons';
+import { useAudioPlayer } from 'expo-audio';
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import React, { useEffect } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+// How long an alert stays up unless tapped or dismissed (ms)
+const ALERT_DURATION = 8000;
+
+const alertStyles: Record<
+  BookingAlertType,
+  { icon: keyof typeof Ionicons.glyphMap; color: string; haptic: Haptics.NotificationFeedbackType }
+> = {
+  created: {
+    icon: 'notifications',
+    color: colors.primary.green,
+    haptic: Haptics.NotificationFeedbackType.Success,
+  },
+  cancelled: {
+    icon: 'close-circle',
+    color: colors.semantic.error,
+    haptic: Haptics.NotificationFeedbackType.Warning,
+  },
+  confirmed: {
+    icon: 'checkmark-circle',
+    color: colors.semantic.info,
+    haptic: Haptics.NotificationFeedbackType.Success,
+  },
+};
+
+/**
+ * Banner for bookings pushed over the branch event socket, with a sound and haptic feedback
+ * Shows the newest alert; tapping it opens the request.
+ */
+const BookingAlertBanner: React.FC = () => {
+  const alert = useBookingAlertStore((state) => state.alerts[0]);
+  const moreCount = useBookingAlertStore((state) => Math.max(state.alerts.length - 1, 0));
+  const { dismissAlert, clearAlerts } = useBookingAlertStore();
+  const player = useAudioPlayer(require('@/assets/sounds/booking-alert.wav'));
+  const insets = useSafeAreaInsets();
+  const { t } = useTranslation();
+
+  const alertId = alert?.id;
+  const alertType = alert?.type;
+
+  useEffect(() => {
+    if (!alertId || !alertType) {
+      return;
+    }
+
+    player.seekTo(0);
+    player.play();
+    Haptics.notificationAsync(alertStyles[alertType].haptic).catch(() => {});
+
+    const timer = setTimeout(() => dismissAlert(alertId), ALERT_DURATION);
+    return () => clearTimeout(timer);
+  }, [alertId, alertType, player, dismissAlert]);
+
+  if (!alert) return null;
+
+  const { icon, color } = alertStyles[alert.type];
+  const customer = [alert.booking.customer?.firstName, alert.booking.customer?.lastName].filter(Boolean).join(' ');
+
+  const openRequest = () => {
+    clearAlerts();
+    router.push({
+      pathname: '/IncomingRequestDetails',
+      params: { requestId: alert.booking.id },
+    });
+  };
+
+  return (
+    <View style={[styles.container, { top: insets.top }]} pointerEvents="box-none">
+      <TouchableOpacity style={[styles.banner, { backgroundColor: color }]} onPress={openRequest} activeOpacity={0.9}>
+        <Ionicons name={icon} size={24} color={colors.text.inverse} />
+        <View style={styles.content}>
+          <Text style={styles.title} numberOfLines={1}>
+            {t(`bookingAlerts.${alert.type}`)}
+            {moreCount > 0 ? ` ${t('bookingAlerts.more', { count: moreCount })}` : ''}
+          </Text>
+          <Text style={styles.message} numberOfLines={2}>
+            {customer
+              ? t('bookingAlerts.message', { service: alert.booking.service?.name ?? '', customer })
+              : alert.booking.service?.name}
+          </Text>
+        </View>
+        <TouchableOpacity onPress={() => dismissAlert(alert.id)} style={styles.closeButton}>
+          <Ionicons name="close" size={18} color={colors.text.inverse} />
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+export default BookingAlertBanner;
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    zIndex: 9999,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
+    elevation: 5,
+    gap: 12,
+  },
+  content: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 14,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.inverse,
+  },
+  message: {
+    fontSize: 13,
+    fontFamily: fonts.weights.medium,
+    color: colors.text.inverse,
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: 4,
+  },
+});
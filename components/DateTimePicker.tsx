@@ -1,5 +1,6 @@
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
+import { useTranslation } from '@/hooks/useTranslation';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { Ionicons } from '@expo/vector-icons';
 import React, { useState } from 'react';
@@ -69,6 +70,7 @@ export default function CustomDateTimePicker({
   error,
   placeholder,
 }: DateTimePickerProps) {
+  const { t } = useTranslation();
   const [showPicker, setShowPicker] = useState(false);
   const [tempDate, setTempDate] = useState<Date>(value || new Date());
 
@@ -111,7 +113,7 @@ export default function CustomDateTimePicker({
         activeOpacity={0.7}
       >
         <Text style={[styles.inputText, !value && styles.placeholder]}>
-          {displayValue || placeholder || 'Select date'}
+          {displayValue || placeholder || t('dateTimePicker.placeholder')}
         </Text>
         <Ionicons name="calendar-outline" size={20} color={colors.neutral.gray.medium} />
       </TouchableOpacity>
@@ -123,11 +125,17 @@ export default function CustomDateTimePicker({
             <View style={styles.iosPickerContainer}>
               <View style={styles.iosPickerHeader}>
                 <TouchableOpacity onPress={handleCancel} style={styles.iosPickerButton}>
-                  <Text style={styles.iosPickerButtonText}>Cancel</Text>
+                  <Text style={styles.iosPickerButtonText}>{t('common.cancel')}</Text>
                 </TouchableOpacity>
-                <Text style={styles.iosPickerTitle}>Select {mode === 'date' ? 'Date' : mode === 'time' ? 'Time' : 'Date & Time'}</Text>
+                <Text style={styles.iosPickerTitle}>
+                  {mode === 'date'
+                    ? t('dateTimePicker.selectDate')
+                    : mode === 'time'
+                      ? t('dateTimePicker.selectTime')
+                      : t('dateTimePicker.selectDateTime')}
+                </Text>
                 <TouchableOpacity onPress={handleConfirm} style={styles.iosPickerButton}>
-                  <Text style={[styles.iosPickerButtonText, styles.iosPickerButtonConfirm]}>Done</Text>
+                  <Text style={[styles.iosPickerButtonText, styles.iosPickerButtonConfirm]}>{t('dateTimePicker.done')}</Text>
                 </TouchableOpacity>
               </View>
               <DateTimePicker
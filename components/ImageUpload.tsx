@@ -1,26 +1,34 @@
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
 import { formatFileSize as formatSize, uploadConfig } from '@/constants/upload';
-import { useAuthStore } from '@/store/authStore';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useUploads, useUploadsFor } from '@/hooks/useUploads';
+import { cancelUpload, enqueueUpload, retryUpload, UploadAsset, validateUpload } from '@/services/uploads';
+import { useUploadStore } from '@/store/uploadStore';
 import { Ionicons } from '@expo/vector-icons';
-import Constants from 'expo-constants';
 import * as ImagePicker from 'expo-image-picker';
 import React, { useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
   Image,
-  Platform,
   StyleSheet,
   Text,
   TouchableOpacity,
   View,
 } from 'react-native';
 
-interface UploadedFile {
-  id: string;
+interface UploadItem {
+  /** Upload task in the upload manager; null for files passed in through value */
+  taskId: string | null;
+  /** Stored file id of files passed in through value */
+  fileId: string;
   uri: string;
-  name: string;
+  isVideo?: boolean;
+}
+
+interface UploadedFile extends UploadItem {
+  id: string;
   progress: number;
   isUploading: boolean;
   error?: string;
@@ -60,15 +68,22 @@ export interface ImageUploadProps {
    * Maximum number of images allowed (only applies when multiple is true)
    */
   maxImages?: number;
+  /**
+   * Form field the uploads belong to (see UPLOAD_TARGETS)
+   * Uploads started here are recovered when the form is opened again, even after an app restart,
+   * until the form releases them with releaseUploads.
+   */
+  uploadKey?: string;
 }
 
 /**
  * Reusable Image Upload Component
  * Supports single or multiple image uploads with configurable file types and size limits
+ * Files are uploaded through the upload manager, so uploads continue after the screen is left
  * Automatically uploads files and returns file IDs
  */
 export default function ImageUpload({
-  label = 'Upload Image',
+  label,
   multiple = false,
   maxSize = uploadConfig.maxImageSize,
   fileTypes = ['image'],
@@ -76,8 +91,34 @@ export default function ImageUpload({
   onChange,
   error,
   maxImages = uploadConfig.maxImages,
+  uploadKey,
 }: ImageUploadProps) {
-  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
+  const { t } = useTranslation();
+  const labelText = label ?? t('upload.uploadImage');
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const tasks = useUploads(items.flatMap((item) => (item.taskId ? [item.taskId] : [])));
+  const fieldTasks = useUploadsFor(uploadKey);
+  const fieldTaskIds = fieldTasks.map((task) => task.id).join(',');
+
+  // Merge each item with the state of its upload task; uploads released by the form are no longer shown
+  const uploadedFiles = items.flatMap((item): UploadedFile[] => {
+    if (!item.taskId) {
+      return [{ ...item, id: item.fileId, progress: 100, isUploading: false }];
+    }
+    const task = tasks.find((candidate) => candidate.id === item.taskId);
+    if (!task) {
+      return [];
+    }
+    return [
+      {
+        ...item,
+        id: task.fileId ?? '',
+        progress: task.progress,
+        isUploading: task.status !== 'completed' && task.status !== 'failed',
+        error: task.status === 'failed' ? task.error ?? t('upload.failed') : undefined,
+      },
+    ];
+  });
 
   // Initialize from value prop if provided
   React.useEffect(() => {
@@ -85,35 +126,54 @@ export default function ImageUpload({
       const ids = Array.isArray(value) ? value : [value];
       // If we have IDs but no uploaded files, we need to fetch or display them
       // For now, we'll just track the IDs
-      setUploadedFiles((prev) => {
-        const existingIds = prev.map((f) => f.id);
-        const newIds = ids.filter((id) => !existingIds.includes(id));
+      setItems((prev) => {
+        // Includes uploads started here, so their id coming back through value is not added twice
+        const existingIds = prev.map((f) =>
+          f.taskId ? useUploadStore.getState().tasks[f.taskId]?.fileId ?? '' : f.fileId
+        );
+        const newIds = ids.filter((id) => id && !existingIds.includes(id));
         return [
           ...prev,
           ...newIds.map((id) => ({
-            id,
+            taskId: null,
+            fileId: id,
             uri: '', // We don't have the URI for existing files
-            name: '',
-            progress: 100,
-            isUploading: false,
           })),
         ];
       });
     }
   }, [value]);
 
+  // Recover uploads started for this field before the form was left or the app restarted
+  React.useEffect(() => {
+    if (fieldTasks.length === 0) return;
+
+    setItems((prev) => {
+      const recovered: UploadItem[] = fieldTasks
+        .filter((task) => !prev.some((item) => item.taskId === task.id))
+        .map((task) => ({ taskId: task.id, fileId: '', uri: task.uri, isVideo: task.kind === 'video' }));
+      if (recovered.length === 0) {
+        return prev;
+      }
+      return multiple ? [...prev, ...recovered].slice(0, maxImages) : recovered.slice(-1);
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [fieldTaskIds]);
+
   // Track previous IDs to avoid unnecessary onChange calls
   const prevIdsRef = React.useRef<string>('');
 
+  const completedIds = uploadedFiles.filter((f) => f.id && !f.isUploading).map((f) => f.id);
+  const completedIdsString = completedIds.join(',');
+
   // Update parent component when file IDs change (only when uploads complete)
   React.useEffect(() => {
     if (!onChange) return;
     
-    const completedFiles = uploadedFiles.filter((f) => f.id && !f.isUploading);
-    if (completedFiles.length === 0) return;
+    if (completedIds.length === 0) return;
 
-    const allIds = completedFiles.map((f) => f.id);
-    const idsString = allIds.join(',');
+    const allIds = completedIds;
+    const idsString = completedIdsString;
     
     // Only call onChange if IDs have actually changed
     if (prevIdsRef.current !== idsString) {
@@ -126,128 +186,7 @@ export default function ImageUpload({
       }
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [uploadedFiles]);
-
-  const uploadFile = async (uri: string, fileName: string): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const xhr = new XMLHttpRequest();
-      const formData = new FormData();
-
-      // Get file extension from URI or fileName
-      const fileExtension = fileName.split('.').pop() || uri.split('.').pop() || 'jpg';
-      let mimeType = 'image/jpeg';
-      
-      if (fileExtension === 'png') {
-        mimeType = 'image/png';
-      } else if (fileExtension === 'gif') {
-        mimeType = 'image/gif';
-      } else if (fileExtension === 'webp') {
-        mimeType = 'image/webp';
-      }
-
-      // In React Native, FormData requires a specific format
-      // The file object should have uri, type, and name properties
-      const file = {
-        uri: Platform.OS === 'android' ? uri : uri.replace('file://', ''),
-        type: mimeType,
-        name: fileName || `image.${fileExtension}`,
-      } as any;
-
-      formData.append('file', file);
-
-      // Get auth token
-      const authToken = useAuthStore.getState().token;
-      const API_DOMAIN = Constants.expoConfig?.extra?.apiDomain as string | undefined || '';
-
-      xhr.open('POST', `${API_DOMAIN}/en/upload/file`);
-      
-      if (authToken) {
-        xhr.setRequestHeader('Authorization', `Bearer ${authToken}`);
-      }
-
-      // Track upload progress
-      xhr.upload.onprogress = (event) => {
-        if (event.lengthComputable) {
-          const progress = (event.loaded / event.total) * 100;
-          setUploadedFiles((prev) =>
-            prev.map((f) =>
-              f.uri === uri ? { ...f, progress } : f
-            )
-          );
-        }
-      };
-
-      xhr.onload = () => {
-        if (xhr.status >= 200 && xhr.status < 300) {
-          try {
-            const response = JSON.parse(xhr.responseText);
-            // Response format: { id: "...", name: "...", ... } or { data: { id: "...", ... } }
-            const fileId = response.id || response.data?.id;
-            if (fileId) {
-              setUploadedFiles((prev) => {
-                return prev.map((f) =>
-                  f.uri === uri
-                    ? { ...f, id: fileId, progress: 100, isUploading: false }
-                    : f
-                );
-              });
-              
-              resolve(fileId);
-            } else {
-              const errorMsg = response.message || 'No file ID in response';
-              setUploadedFiles((prev) =>
-                prev.map((f) =>
-                  f.uri === uri
-                    ? { ...f, isUploading: false, error: errorMsg }
-                    : f
-                )
-              );
-              reject(new Error(errorMsg));
-            }
-          } catch (err) {
-            const errorMsg = 'Failed to parse response';
-            setUploadedFiles((prev) =>
-              prev.map((f) =>
-                f.uri === uri
-                  ? { ...f, isUploading: false, error: errorMsg }
-                  : f
-              )
-            );
-            reject(new Error(errorMsg));
-          }
-        } else {
-          let errorMsg = `Upload failed with status ${xhr.status}`;
-          try {
-            const errorResponse = JSON.parse(xhr.responseText);
-            errorMsg = errorResponse.message || errorMsg;
-          } catch {
-            // Use default error message
-          }
-          setUploadedFiles((prev) =>
-            prev.map((f) =>
-              f.uri === uri
-                ? { ...f, isUploading: false, error: errorMsg }
-                : f
-            )
-          );
-          reject(new Error(errorMsg));
-        }
-      };
-
-      xhr.onerror = () => {
-        setUploadedFiles((prev) =>
-          prev.map((f) =>
-            f.uri === uri
-              ? { ...f, isUploading: false, error: 'Upload failed' }
-              : f
-          )
-        );
-        reject(new Error('Network error'));
-      };
-
-      xhr.send(formData);
-    });
-  };
+  }, [completedIdsString]);
 
   const pickImage = async () => {
     // Check if single upload mode and file already exists
@@ -255,9 +194,9 @@ export default function ImageUpload({
       const hasUploadedFile = uploadedFiles.some((f) => f.id && !f.isUploading);
       if (hasUploadedFile) {
         Alert.alert(
-          'File Already Uploaded',
-          'You can only upload one file at a time. Please remove the current file before uploading a new one.',
-          [{ text: 'OK' }]
+          t('upload.alreadyUploadedTitle'),
+          t('upload.alreadyUploadedMessage'),
+          [{ text: t('common.ok') }]
         );
         return;
       }
@@ -267,8 +206,8 @@ export default function ImageUpload({
     const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
     if (status !== 'granted') {
       Alert.alert(
-        'Permission Required',
-        'Sorry, we need camera roll permissions to upload images!'
+        t('upload.permissionTitle'),
+        t('upload.permissionMessage')
       );
       return;
     }
@@ -295,35 +234,31 @@ export default function ImageUpload({
       const result = await ImagePicker.launchImageLibraryAsync(options);
 
       if (!result.canceled) {
-        const selectedAssets = result.assets;
-        const validFiles: { uri: string; name: string }[] = [];
+        const validFiles: UploadAsset[] = [];
         const errors: string[] = [];
 
-        // Validate files
-        for (const asset of selectedAssets) {
-          try {
-            const response = await fetch(asset.uri);
-            const blob = await response.blob();
-            const fileSize = blob.size;
-
-            if (fileSize > maxSize) {
-              errors.push(
-                `${asset.fileName || 'Image'} exceeds maximum size of ${formatSize(maxSize)}`
-              );
-              continue;
-            }
-
-            validFiles.push({
-              uri: asset.uri,
-              name: asset.fileName || `image_${Date.now()}.jpg`,
-            });
-          } catch (err) {
-            errors.push('Failed to process image');
+        // Validate files; image sizes are checked by the upload manager after compression
+        for (const asset of result.assets) {
+          const file: UploadAsset = {
+            uri: asset.uri,
+            name: asset.fileName,
+            mimeType: asset.mimeType,
+            size: asset.fileSize,
+            width: asset.width,
+            height: asset.height,
+            // Videos are limited by uploadConfig.maxVideoSize
+            maxSize: asset.type === 'video' ? undefined : maxSize,
+          };
+          const validationError = validateUpload(file);
+          if (validationError) {
+            errors.push(validationError);
+            continue;
           }
+          validFiles.push(file);
         }
 
         if (errors.length > 0) {
-          Alert.alert('Upload Error', errors.join('\n'));
+          Alert.alert(t('upload.errorTitle'), errors.join('\n'));
         }
 
         if (validFiles.length > 0) {
@@ -332,49 +267,51 @@ export default function ImageUpload({
             ? validFiles.slice(0, maxImages - uploadedFiles.length)
             : [validFiles[0]];
 
-          // Add files to state with uploading status
-          const newFiles: UploadedFile[] = filesToUpload.map((file) => ({
-            id: '',
+          // A new file replaces the one still uploading in single mode
+          if (!multiple) {
+            items.forEach((item) => {
+              if (item.taskId) {
+                cancelUpload(item.taskId);
+              }
+            });
+          }
+
+          // Uploads run in the upload manager, which keeps going after this screen is left
+          const newItems: UploadItem[] = filesToUpload.map((file) => ({
+            taskId: enqueueUpload(file, uploadKey ?? null),
+            fileId: '',
             uri: file.uri,
-            name: file.name,
-            progress: 0,
-            isUploading: true,
+            isVideo: file.mimeType?.startsWith('video/'),
           }));
 
-          setUploadedFiles((prev) => {
+          setItems((prev) => {
             if (multiple) {
-              return [...prev, ...newFiles].slice(0, maxImages);
+              return [...prev, ...newItems].slice(0, maxImages);
             } else {
-              return newFiles;
+              return newItems;
             }
           });
-
-          // Upload files sequentially to avoid race conditions
-          try {
-            for (const file of newFiles) {
-              await uploadFile(file.uri, file.name);
-            }
-          } catch (uploadError) {
-            console.error('Upload error:', uploadError);
-            Alert.alert('Upload Failed', 'Failed to upload one or more images. Please try again.');
-          }
         }
       }
     } catch (error) {
       console.error('Error picking image:', error);
-      Alert.alert('Error', 'Failed to pick image. Please try again.');
+      Alert.alert(t('common.error'), t('upload.pickFailed'));
     }
   };
 
-  const removeImage = (index: number) => {
-    const newFiles = uploadedFiles.filter((_, i) => i !== index);
-    setUploadedFiles(newFiles);
+  const removeImage = (file: UploadedFile) => {
+    if (file.taskId) {
+      cancelUpload(file.taskId);
+    }
+    setItems((prev) =>
+      prev.filter((item) => (file.taskId ? item.taskId !== file.taskId : item.fileId !== file.fileId))
+    );
     // onChange will be called automatically by useEffect when state updates
   };
 
   return (
     <View style={styles.container}>
-      {label && <Text style={styles.label}>{label}</Text>}
+      {labelText && <Text style={styles.label}>{labelText}</Text>}
       <TouchableOpacity
         style={[
           styles.uploadButton,
@@ -403,10 +340,10 @@ export default function ImageUpload({
             !multiple && uploadedFiles.some((f) => f.id && !f.isUploading) && styles.uploadButtonTextDisabled,
           ]}
         >
-          {multiple ? 'Upload Images' : 'Upload Image'}
+          {multiple ? t('upload.uploadImages') : t('upload.uploadImage')}
         </Text>
         <Text style={styles.uploadHint}>
-          Max {formatSize(maxSize)} • {fileTypes.join(', ')}
+          {t('upload.hint', { size: formatSize(maxSize), types: fileTypes.join(', ') })}
         </Text>
       </TouchableOpacity>
 
@@ -414,11 +351,15 @@ export default function ImageUpload({
         <View style={styles.imagesContainer}>
           {uploadedFiles.map((file, index) => (
             <View key={file.uri || file.id || index} style={styles.imageWrapper}>
-              {file.uri ? (
+              {file.uri && !file.isVideo ? (
                 <Image source={{ uri: file.uri }} style={styles.image} />
               ) : (
                 <View style={styles.imagePlaceholder}>
-                  <Ionicons name="image-outline" size={32} color={colors.neutral.gray.medium} />
+                  <Ionicons
+                    name={file.isVideo ? 'videocam-outline' : 'image-outline'}
+                    size={32}
+                    color={colors.neutral.gray.medium}
+                  />
                 </View>
               )}
               
@@ -444,18 +385,22 @@ export default function ImageUpload({
                 </View>
               )}
 
-              {/* Error Indicator */}
-              {file.error && (
-                <View style={styles.errorOverlay}>
-                  <Ionicons name="alert-circle" size={24} color={colors.semantic.error} />
-                </View>
+              {/* Error Indicator - tap to retry */}
+              {file.error && file.taskId && (
+                <TouchableOpacity
+                  style={styles.errorOverlay}
+                  onPress={() => retryUpload(file.taskId!)}
+                  activeOpacity={0.7}
+                >
+                  <Ionicons name="refresh-circle" size={24} color={colors.semantic.error} />
+                </TouchableOpacity>
               )}
 
               {/* Remove Button */}
               {!file.isUploading && (
                 <TouchableOpacity
                   style={styles.removeButton}
-                  onPress={() => removeImage(index)}
+                  onPress={() => removeImage(file)}
                   activeOpacity={0.7}
                 >
                   <Ionicons name="close-circle" size={24} color={colors.semantic.error} />
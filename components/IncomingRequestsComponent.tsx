@@ -1,7 +1,10 @@
 import Skeleton from '@/components/Skeleton';
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { applyBookingEvent, useBookingEvents } from '@/hooks/useBookingFeed';
+import { useTranslation } from '@/hooks/useTranslation';
+import { BookedService, bookings, isAbortError } from '@/services';
 import { useBranchStore } from '@/store/branchStore';
 import { formatDateTime } from '@/utils/date';
 import { Ionicons } from '@expo/vector-icons';
@@ -17,81 +20,13 @@ import {
   View,
 } from 'react-native';
 
-export interface IncomingRequest {
-  id: string;
-  bookCode: string;
-  description: string;
-  organizationId: string;
-  branchId: string;
-  customerId: string;
-  staffId: string | null;
-  serviceId: string;
-  priceId: string | null;
-  bookedDate: number;
-  acceptedDate: number | null;
-  isAccepted: boolean;
-  isActive: boolean;
-  isHomeWorkRequest: boolean;
-  isCancelled: boolean;
-  isDeclined: boolean;
-  isCompleted: boolean;
-  completedDate: number | null;
-  service: {
-    id: string;
-    organizationId: string;
-    name: string;
-    description: string;
-    isPublic: boolean;
-    isDeleted: boolean;
-    modeId: number;
-    staffId: string;
-    thumbNailId: string;
-    createdAt: number;
-    updatedAt: number;
-  };
-  branch: {
-    id: string;
-    organizationId: string;
-    isMain: boolean;
-    name: string;
-    longitude: number;
-    latitude: number;
-    accuracy: number | null;
-    contact: number;
-    description: string;
-    email: string;
-    stateProvince: string;
-    city: string;
-    location: string;
-    slotsId: string | null;
-    createdAt: number;
-    updatedAt: number;
-  };
-  customer: {
-    id: string;
-    firstName: string;
-    middleName: string;
-    lastName: string;
-    email: string;
-    phone: number;
-    country: string;
-    userNumber: string;
-    gender: number;
-    birthDate: string;
-    verified: boolean;
-    active: boolean;
-    createdAt: number;
-    updatedAt: number;
-  };
-  createdAt: number;
-  updatedAt: number;
-}
-
 const IncomingRequestsComponent = () => {
+  const { t } = useTranslation();
   const { branch } = useBranchStore();
-  const [incomingRequests, setIncomingRequests] = useState<IncomingRequest[]>([]);
+  const [incomingRequests, setIncomingRequests] = useState<BookedService[]>([]);
   const [isLoadingIncomingRequests, setIsLoadingIncomingRequests] = useState(false);
   const incomingRequestsRef = useRef<FlatList>(null);
+  const getSignal = useAbortSignal();
 
   const fetchIncomingRequests = useCallback(async () => {
     if (!branch?.id) {
@@ -99,16 +34,12 @@ const IncomingRequestsComponent = () => {
     }
 
     setIsLoadingIncomingRequests(true);
+    const signal = getSignal();
     try {
-      const response = await api.get<IncomingRequest[]>(
-        `/en/on/book/services/branch/${branch.id}`,
-        {
-          requiresAuth: true,
-        }
-      );
+      const requests = await bookings.listForBranch(branch.id, { signal });
 
       // Filter for incoming requests (new or ongoing, not cancelled, not declined, not completed)
-      const incoming = (response.data || [])
+      const incoming = (requests || [])
         .filter(
           (req) =>
             !req.isCancelled &&
@@ -120,17 +51,26 @@ const IncomingRequestsComponent = () => {
 
       setIncomingRequests(incoming);
     } catch (err: any) {
+      if (isAbortError(err)) {
+        return;
+      }
       console.error('Failed to fetch incoming requests:', err);
       setIncomingRequests([]);
     } finally {
-      setIsLoadingIncomingRequests(false);
+      if (!signal.aborted) {
+        setIsLoadingIncomingRequests(false);
+      }
     }
-  }, [branch?.id]);
+  }, [branch?.id, getSignal]);
 
   useEffect(() => {
     fetchIncomingRequests();
   }, [fetchIncomingRequests]);
 
+  useBookingEvents((event) =>
+    setIncomingRequests((requests) => applyBookingEvent(requests, event).slice(0, 10))
+  );
+
   if (!branch?.id) {
     return null;
   }
@@ -138,7 +78,7 @@ const IncomingRequestsComponent = () => {
   return (
     <View style={styles.incomingRequestsSection}>
       <View style={styles.incomingRequestsHeader}>
-        <Text style={styles.incomingRequestsTitle}>Incoming Orders</Text>
+        <Text style={styles.incomingRequestsTitle}>{t('incomingRequests.incomingOrders')}</Text>
         {incomingRequests.length > 0 && (
           <TouchableOpacity
             style={styles.viewMoreButton}
@@ -147,7 +87,7 @@ const IncomingRequestsComponent = () => {
             }}
             activeOpacity={0.7}
           >
-            <Text style={styles.viewMoreText}>View More</Text>
+            <Text style={styles.viewMoreText}>{t('incomingRequests.viewMore')}</Text>
             <Ionicons name="chevron-forward" size={20} color={colors.primary.green} />
           </TouchableOpacity>
         )}
@@ -164,7 +104,7 @@ const IncomingRequestsComponent = () => {
       ) : incomingRequests.length === 0 ? (
         <View style={styles.incomingRequestsEmpty}>
           <Ionicons name="document-text-outline" size={48} color={colors.neutral.gray.light} />
-          <Text style={styles.incomingRequestsEmptyText}>No incoming requests</Text>
+          <Text style={styles.incomingRequestsEmptyText}>{t('incomingRequests.empty')}</Text>
         </View>
       ) : (
         <FlatList
@@ -228,7 +168,11 @@ const IncomingRequestsComponent = () => {
                                 : styles.incomingRequestStatusBadgeTextNew,
                         ]}
                       >
-                        {item.isAccepted && !item.isCompleted ? 'Ongoing' : item.isCompleted ? 'Completed' : 'New'}
+                        {item.isAccepted && !item.isCompleted
+                          ? t('bookingHistory.ongoing')
+                          : item.isCompleted
+                            ? t('bookingHistory.completed')
+                            : t('incomingRequests.new')}
                       </Text>
                     </View>
                   </View>
@@ -1,5 +1,6 @@
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
+import { useTranslation } from '@/hooks/useTranslation';
 import { Ionicons } from '@expo/vector-icons';
 import Constants from 'expo-constants';
 import React, { useCallback, useEffect, useState } from 'react';
@@ -34,8 +35,9 @@ const LocationPicker: React.FC<LocationPickerProps> = ({
   value,
   onChange,
   error,
-  label = 'Location',
+  label,
 }) => {
+  const { t } = useTranslation();
   const [isModalVisible, setIsModalVisible] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [manualLatitude, setManualLatitude] = useState('');
@@ -57,8 +59,8 @@ const LocationPicker: React.FC<LocationPickerProps> = ({
         Location = require('expo-location');
       } catch {
         Alert.alert(
-          'Not Available',
-          'Location services require expo-location package. Please install it: npx expo install expo-location'
+          t('locationPicker.notAvailableTitle'),
+          t('locationPicker.notAvailableMessage')
         );
         setIsLoadingCurrentLocation(false);
         return;
@@ -68,8 +70,8 @@ const LocationPicker: React.FC<LocationPickerProps> = ({
       const { status } = await Location.requestForegroundPermissionsAsync();
       if (status !== 'granted') {
         Alert.alert(
-          'Permission Denied',
-          'Location permission is required to pick your current location.'
+          t('locationPicker.permissionTitle'),
+          t('locationPicker.permissionMessage')
         );
         setIsLoadingCurrentLocation(false);
         return;
@@ -89,8 +91,8 @@ const LocationPicker: React.FC<LocationPickerProps> = ({
       
       if (!GOOGLE_API_KEY) {
         Alert.alert(
-          'Configuration Error',
-          'Google Maps API key is not configured. Please add googleKey to your environment variables.'
+          t('locationPicker.configTitle'),
+          t('locationPicker.configMessage')
         );
         setIsLoadingCurrentLocation(false);
         return;
@@ -101,7 +103,7 @@ const LocationPicker: React.FC<LocationPickerProps> = ({
       const reverseResponse = await fetch(reverseGeocodeUrl);
       const reverseData = await reverseResponse.json();
       
-      let locationString = 'Current Location';
+      let locationString = t('locationPicker.currentLocation');
       
       if (reverseData.status === 'OK' && reverseData.results.length > 0) {
         // Use the first result's formatted address
@@ -123,7 +125,7 @@ const LocationPicker: React.FC<LocationPickerProps> = ({
               address.country,
             ]
               .filter(Boolean)
-              .join(', ') || 'Current Location';
+              .join(', ') || t('locationPicker.currentLocation');
           }
         } catch (fallbackErr) {
           // Use coordinates as fallback
@@ -142,11 +144,11 @@ const LocationPicker: React.FC<LocationPickerProps> = ({
       setSearchQuery(locationString);
       setIsModalVisible(false);
     } catch (err: any) {
-      Alert.alert('Error', err?.message || 'Failed to get current location. Please try again.');
+      Alert.alert(t('common.error'), err?.message || t('locationPicker.currentLocationFailed'));
     } finally {
       setIsLoadingCurrentLocation(false);
     }
-  }, [onChange]);
+  }, [onChange, t]);
 
   const handleSearchLocation = useCallback(async (query: string) => {
     if (!query.trim() || query.length < 3) {
@@ -282,7 +284,7 @@ const LocationPicker: React.FC<LocationPickerProps> = ({
 
   return (
     <View style={styles.container}>
-      <Text style={styles.label}>{label}</Text>
+      <Text style={styles.label}>{label ?? t('locationPicker.label')}</Text>
       <TouchableOpacity
         style={[styles.inputContainer, { borderColor }]}
         onPress={() => setIsModalVisible(true)}
@@ -295,7 +297,7 @@ const LocationPicker: React.FC<LocationPickerProps> = ({
           ]}
           numberOfLines={1}
         >
-          {value ? value.location : 'Select location'}
+          {value ? value.location : t('locationPicker.placeholder')}
         </Text>
         <View style={styles.iconsContainer}>
           {value && (
@@ -331,7 +333,7 @@ const LocationPicker: React.FC<LocationPickerProps> = ({
         <View style={styles.modalOverlay}>
           <View style={styles.modalContent}>
             <View style={styles.modalHeader}>
-              <Text style={styles.modalTitle}>Select Location</Text>
+              <Text style={styles.modalTitle}>{t('locationPicker.title')}</Text>
               <TouchableOpacity
                 onPress={() => setIsModalVisible(false)}
                 style={styles.closeButton}
@@ -354,20 +356,20 @@ const LocationPicker: React.FC<LocationPickerProps> = ({
                   <Ionicons name="locate" size={20} color={colors.primary.green} />
                 )}
                 <Text style={styles.currentLocationText}>
-                  {isLoadingCurrentLocation ? 'Getting location...' : 'Pick Current Location'}
+                  {isLoadingCurrentLocation ? t('locationPicker.gettingLocation') : t('locationPicker.pickCurrent')}
                 </Text>
               </TouchableOpacity>
 
               {/* Divider */}
               <View style={styles.divider}>
                 <View style={styles.dividerLine} />
-                <Text style={styles.dividerText}>OR</Text>
+                <Text style={styles.dividerText}>{t('locationPicker.or')}</Text>
                 <View style={styles.dividerLine} />
               </View>
 
               {/* Search Location with Google Maps - Dropdown */}
               <View style={styles.searchContainer}>
-                <Text style={styles.searchLabel}>Search Location (Google Maps)</Text>
+                <Text style={styles.searchLabel}>{t('locationPicker.searchLabel')}</Text>
                 <View style={styles.searchInputWrapper}>
                   <View style={styles.searchInputContainer}>
                     <Ionicons
@@ -378,7 +380,7 @@ const LocationPicker: React.FC<LocationPickerProps> = ({
                     />
                     <TextInput
                       style={styles.searchInput}
-                      placeholder="Type to search location..."
+                      placeholder={t('locationPicker.searchPlaceholder')}
                       placeholderTextColor={colors.neutral.gray.medium}
                       value={searchQuery}
                       onChangeText={setSearchQuery}
@@ -430,15 +432,15 @@ const LocationPicker: React.FC<LocationPickerProps> = ({
               {/* Manual Entry */}
               <View style={styles.divider}>
                 <View style={styles.dividerLine} />
-                <Text style={styles.dividerText}>OR</Text>
+                <Text style={styles.dividerText}>{t('locationPicker.or')}</Text>
                 <View style={styles.dividerLine} />
               </View>
 
               <View style={styles.manualEntryContainer}>
-                <Text style={styles.manualEntryLabel}>Enter Location Manually</Text>
+                <Text style={styles.manualEntryLabel}>{t('locationPicker.manualLabel')}</Text>
                 <TextInput
                   style={styles.manualInput}
-                  placeholder="Location name (e.g., Nairobi city)"
+                  placeholder={t('locationPicker.manualPlaceholder')}
                   placeholderTextColor={colors.neutral.gray.medium}
                   value={searchQuery}
                   onChangeText={setSearchQuery}
@@ -446,7 +448,7 @@ const LocationPicker: React.FC<LocationPickerProps> = ({
                 />
                 <View style={styles.coordinatesRow}>
                   <View style={styles.coordinateInputContainer}>
-                    <Text style={styles.coordinateLabel}>Latitude</Text>
+                    <Text style={styles.coordinateLabel}>{t('locationPicker.latitude')}</Text>
                     <TextInput
                       style={styles.coordinateInput}
                       placeholder="-1.3621871"
@@ -457,7 +459,7 @@ const LocationPicker: React.FC<LocationPickerProps> = ({
                     />
                   </View>
                   <View style={styles.coordinateInputContainer}>
-                    <Text style={styles.coordinateLabel}>Longitude</Text>
+                    <Text style={styles.coordinateLabel}>{t('locationPicker.longitude')}</Text>
                     <TextInput
                       style={styles.coordinateInput}
                       placeholder="36.7024963"
@@ -489,7 +491,7 @@ const LocationPicker: React.FC<LocationPickerProps> = ({
                   disabled={!searchQuery.trim() || !manualLatitude || !manualLongitude}
                   activeOpacity={0.7}
                 >
-                  <Text style={styles.saveButtonText}>Save Location</Text>
+                  <Text style={styles.saveButtonText}>{t('locationPicker.save')}</Text>
                 </TouchableOpacity>
               </View>
             </ScrollView>
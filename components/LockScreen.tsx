@@ -0,0 +1,210 @@
+/**
+ * LockScreen component covering the app while it is locked or a sensitive action awaits confirmation
+ * Rendered once in the root layout. It is a modal so it also covers other open modals, such as
+ * the lock staff dialog that asked for the confirmation.
+ */
+import { colors } from '@/constants/colors';
+import { fonts } from '@/constants/fonts';
+import { useBiometricType } from '@/hooks/useAppLock';
+import { useConfirmLogout } from '@/hooks/useLogout';
+import { useTranslation } from '@/hooks/useTranslation';
+import { authenticateWithBiometrics } from '@/services/biometrics';
+import { MAX_PIN_ATTEMPTS, PIN_LENGTH, useAppLockStore } from '@/store/appLockStore';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useCallback, useEffect, useState } from 'react';
+import { Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import PinPad from './PinPad';
+
+const BIOMETRIC_ICONS = {
+  face: 'scan-outline',
+  fingerprint: 'finger-print-outline',
+  iris: 'eye-outline',
+} as const;
+
+const LockScreen: React.FC = () => {
+  const {
+    isLocked,
+    confirmation,
+    biometricsEnabled,
+    failedAttempts,
+    lockedOutUntil,
+    verifyPin,
+    unlock,
+    cancelConfirmation,
+  } = useAppLockStore();
+  const biometricType = useBiometricType();
+  const [pin, setPin] = useState('');
+  const [hasError, setHasError] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const { t } = useTranslation();
+
+  const visible = isLocked || confirmation !== null;
+  const canUseBiometrics = biometricsEnabled && !!biometricType;
+  const lockoutSeconds = lockedOutUntil ? Math.ceil((lockedOutUntil - now) / 1000) : 0;
+
+  const handleBiometrics = useCallback(async () => {
+    try {
+      if (await authenticateWithBiometrics(t('appLock.biometricPrompt'), t('appLock.usePin'))) {
+        unlock();
+      }
+    } catch (error) {
+      console.warn('Biometric unlock failed:', error);
+    }
+  }, [t, unlock]);
+
+  // Offers biometrics as soon as the lock screen appears
+  useEffect(() => {
+    if (visible) {
+      setPin('');
+      setHasError(false);
+      if (canUseBiometrics) {
+        handleBiometrics();
+      }
+    }
+  }, [visible, canUseBiometrics, handleBiometrics]);
+
+  // Counts down a lockout after too many wrong PINs
+  useEffect(() => {
+    if (!lockedOutUntil) {
+      return;
+    }
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [lockedOutUntil]);
+
+  const handlePinChange = async (value: string) => {
+    setPin(value);
+    setHasError(false);
+    if (value.length < PIN_LENGTH) {
+      return;
+    }
+
+    setIsVerifying(true);
+    const isValid = await verifyPin(value);
+    setIsVerifying(false);
+    setPin('');
+    if (isValid) {
+      unlock();
+    } else {
+      setHasError(true);
+    }
+  };
+
+  const handleSignOut = useConfirmLogout({
+    title: t('appLock.signOutTitle'),
+    message: t('appLock.signOutMessage'),
+  });
+
+  const getMessage = () => {
+    if (lockoutSeconds > 0) {
+      return t('appLock.lockedOut', { seconds: lockoutSeconds });
+    }
+    if (hasError) {
+      const remaining = MAX_PIN_ATTEMPTS - failedAttempts;
+      return remaining > 0 ? t('appLock.wrongPin', { count: remaining }) : t('appLock.wrongPinFinal');
+    }
+    return null;
+  };
+  const message = getMessage();
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      statusBarTranslucent
+      // The Android back button cancels a confirmation but cannot dismiss the lock
+      onRequestClose={() => !isLocked && cancelConfirmation()}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Ionicons name="lock-closed" size={40} color={colors.text.inverse} />
+          <Text style={styles.title}>{isLocked ? t('appLock.lockedTitle') : t('appLock.confirmTitle')}</Text>
+          <Text style={styles.subtitle}>
+            {!isLocked && confirmation?.reason ? confirmation.reason : t('appLock.enterPin')}
+          </Text>
+          <Text style={[styles.message, !message && styles.messageHidden]}>{message ?? ' '}</Text>
+        </View>
+
+        <PinPad
+          value={pin}
+          onChange={handlePinChange}
+          disabled={isVerifying || lockoutSeconds > 0}
+          hasError={hasError}
+          inverse
+          accessoryKey={
+            canUseBiometrics && biometricType ? (
+              <TouchableOpacity
+                onPress={handleBiometrics}
+                activeOpacity={0.6}
+                accessibilityLabel={t('appLock.useBiometrics')}
+              >
+                <Ionicons name={BIOMETRIC_ICONS[biometricType]} size={32} color={colors.text.inverse} />
+              </TouchableOpacity>
+            ) : null
+          }
+        />
+
+        <TouchableOpacity
+          style={styles.footerButton}
+          onPress={isLocked ? handleSignOut : cancelConfirmation}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.footerText}>{isLocked ? t('appLock.forgotPin') : t('common.cancel')}</Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+export default LockScreen;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 40,
+    paddingHorizontal: 24,
+    backgroundColor: colors.background.darkAccent,
+  },
+  header: {
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  title: {
+    fontSize: 24,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.inverse,
+    marginTop: 16,
+  },
+  subtitle: {
+    fontSize: 15,
+    fontFamily: fonts.weights.regular,
+    color: colors.text.inverse,
+    opacity: 0.8,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  message: {
+    fontSize: 14,
+    fontFamily: fonts.weights.medium,
+    color: '#FCA5A5',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  messageHidden: {
+    opacity: 0,
+  },
+  footerButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+  },
+  footerText: {
+    fontSize: 15,
+    fontFamily: fonts.weights.semiBold,
+    color: colors.text.inverse,
+  },
+});
@@ -0,0 +1,74 @@
+/**
+ * OutboxBanner component showing writes that are waiting to sync
+ * Links to the pending sync screen; renders nothing when the outbox is empty.
+ */
+import { colors } from '@/constants/colors';
+import { fonts } from '@/constants/fonts';
+import { useOutboxItems } from '@/hooks/useOutbox';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, ViewStyle } from 'react-native';
+
+interface OutboxBannerProps {
+  /**
+   * Only count writes for this record, e.g. the booked service on its details screen
+   */
+  entityId?: string;
+  style?: ViewStyle;
+}
+
+/**
+ * Banner counting queued offline writes
+ * Turns into a warning when a write has a conflict or failed and needs the user.
+ * @param entityId - Optional record to scope the count to
+ * @param style - Optional container style
+ */
+export default function OutboxBanner({ entityId, style }: OutboxBannerProps) {
+  const items = useOutboxItems(entityId);
+  const { t } = useTranslation();
+  if (items.length === 0) {
+    return null;
+  }
+
+  const attentionCount = items.filter((item) => item.status === 'conflict' || item.status === 'failed').length;
+  const color = attentionCount > 0 ? colors.semantic.warning : colors.semantic.info;
+  const message =
+    attentionCount > 0
+      ? t('outbox.needsAttention', { count: attentionCount })
+      : t('outbox.waiting', { count: items.length });
+
+  return (
+    <TouchableOpacity
+      style={[styles.banner, { backgroundColor: color + '15', borderColor: color }, style]}
+      onPress={() => router.push('/PendingSync')}
+      activeOpacity={0.7}
+    >
+      <Ionicons
+        name={attentionCount > 0 ? 'alert-circle-outline' : 'cloud-upload-outline'}
+        size={20}
+        color={color}
+      />
+      <Text style={[styles.message, { color }]}>{message}</Text>
+      <Ionicons name="chevron-forward" size={18} color={color} />
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  message: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: fonts.weights.medium,
+  },
+});
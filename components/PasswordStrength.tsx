@@ -0,0 +1,135 @@
+/**
+ * PasswordStrength component showing how strong a new password is
+ * The checklist mirrors the password rules in validators/schemas.ts.
+ */
+import { colors } from '@/constants/colors';
+import { fonts } from '@/constants/fonts';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, Text, View, ViewStyle } from 'react-native';
+
+interface PasswordStrengthProps {
+  password: string;
+  style?: ViewStyle;
+}
+
+type StrengthLevel = 'weak' | 'fair' | 'good' | 'strong';
+
+const RULES = [
+  { key: 'length', test: (password: string) => password.length >= 8 },
+  { key: 'uppercase', test: (password: string) => /[A-Z]/.test(password) },
+  { key: 'lowercase', test: (password: string) => /[a-z]/.test(password) },
+  { key: 'number', test: (password: string) => /[0-9]/.test(password) },
+] as const;
+
+const LEVELS: StrengthLevel[] = ['weak', 'fair', 'good', 'strong'];
+
+const LEVEL_COLORS: Record<StrengthLevel, string> = {
+  weak: colors.semantic.error,
+  fair: colors.semantic.warning,
+  good: colors.primary.greenLight,
+  strong: colors.primary.green,
+};
+
+/**
+ * Rates a password; only passwords meeting every rule rate above fair,
+ * and symbols or extra length lift a good one to strong
+ */
+function getStrength(password: string): StrengthLevel {
+  const passed = RULES.filter((rule) => rule.test(password)).length;
+  if (passed < RULES.length) {
+    return passed >= 3 ? 'fair' : 'weak';
+  }
+  return password.length >= 12 || /[^A-Za-z0-9]/.test(password) ? 'strong' : 'good';
+}
+
+/**
+ * Strength meter and rule checklist for a password field
+ * @param password - Password being typed
+ * @param style - Optional container style
+ */
+export default function PasswordStrength({ password, style }: PasswordStrengthProps) {
+  const { t } = useTranslation();
+  if (!password) {
+    return null;
+  }
+
+  const level = getStrength(password);
+  const color = LEVEL_COLORS[level];
+  const filled = LEVELS.indexOf(level) + 1;
+
+  return (
+    <View style={[styles.container, style]}>
+      <View style={styles.meterRow}>
+        <View style={styles.meter}>
+          {LEVELS.map((item, index) => (
+            <View
+              key={item}
+              style={[styles.segment, { backgroundColor: index < filled ? color : colors.neutral.gray.lighter }]}
+            />
+          ))}
+        </View>
+        <Text style={[styles.levelText, { color }]}>{t(`passwordStrength.${level}`)}</Text>
+      </View>
+      {RULES.map((rule) => {
+        const passed = rule.test(password);
+        return (
+          <View key={rule.key} style={styles.rule}>
+            <Ionicons
+              name={passed ? 'checkmark-circle' : 'ellipse-outline'}
+              size={16}
+              color={passed ? colors.primary.green : colors.neutral.gray.light}
+            />
+            <Text style={[styles.ruleText, passed && styles.rulePassed]}>
+              {t(`passwordStrength.rules.${rule.key}`)}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  meterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  meter: {
+    flex: 1,
+    flexDirection: 'row',
+    gap: 4,
+  },
+  segment: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+  },
+  levelText: {
+    fontSize: 12,
+    fontFamily: fonts.weights.semiBold,
+    marginLeft: 12,
+    minWidth: 48,
+    textAlign: 'right',
+  },
+  rule: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  ruleText: {
+    fontSize: 12,
+    fontFamily: fonts.weights.regular,
+    color: colors.neutral.gray.medium,
+    marginLeft: 6,
+  },
+  rulePassed: {
+    color: colors.text.primary,
+  },
+});
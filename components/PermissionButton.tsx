@@ -1,11 +1,12 @@
 /**
  * PermissionButton component - A button that is disabled/hidden based on permissions
  */
+import { PermissionName } from '@/constants/permissions';
 import { usePermission } from '@/hooks/usePermission';
 import { TouchableOpacity, TouchableOpacityProps } from 'react-native';
 
 interface PermissionButtonProps extends TouchableOpacityProps {
-  permission: string;
+  permission: PermissionName;
   children: React.ReactNode;
   hideWhenNoPermission?: boolean;
   disabledWhenNoPermission?: boolean;
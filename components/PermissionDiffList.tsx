@@ -0,0 +1,69 @@
+/**
+ * PermissionDiffList component - Lists the permissions a change would add and remove
+ */
+import { colors } from '@/constants/colors';
+import { fonts } from '@/constants/fonts';
+import { useTranslation } from '@/hooks/useTranslation';
+import { isEmptyPermissionDiff, PermissionDiff } from '@/utils/permissions';
+import { Ionicons } from '@expo/vector-icons';
+import { StyleSheet, Text, View } from 'react-native';
+
+interface PermissionDiffListProps {
+  diff: PermissionDiff;
+}
+
+/**
+ * Added permissions are shown in green and removed ones in red
+ * @param diff - Result of getPermissionDiff
+ */
+export default function PermissionDiffList({ diff }: PermissionDiffListProps) {
+  const { t } = useTranslation();
+
+  if (isEmptyPermissionDiff(diff)) {
+    return <Text style={styles.unchangedText}>{t('permissions.noChanges')}</Text>;
+  }
+
+  return (
+    <View style={styles.container}>
+      {diff.added.map((name) => (
+        <View key={`added-${name}`} style={styles.row}>
+          <Ionicons name="add-circle" size={16} color={colors.primary.green} />
+          <Text style={[styles.name, styles.addedName]}>{name}</Text>
+        </View>
+      ))}
+      {diff.removed.map((name) => (
+        <View key={`removed-${name}`} style={styles.row}>
+          <Ionicons name="remove-circle" size={16} color={colors.semantic.error} />
+          <Text style={[styles.name, styles.removedName]}>{name}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  name: {
+    fontSize: 14,
+    fontFamily: fonts.weights.medium,
+  },
+  addedName: {
+    color: colors.primary.green,
+  },
+  removedName: {
+    color: colors.semantic.error,
+    textDecorationLine: 'line-through',
+  },
+  unchangedText: {
+    fontSize: 14,
+    fontFamily: fonts.weights.regular,
+    color: colors.neutral.gray.medium,
+  },
+});
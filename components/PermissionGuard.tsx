@@ -0,0 +1,117 @@
+/**
+ * PermissionGuard component for route screens that need a permission
+ * Usage in a route file: export default withPermission(Staffs, PERMISSIONS.viewStaff);
+ * Without the permission the screen shows an insufficient access message, or redirects when redirectTo is given.
+ */
+import { colors } from '@/constants/colors';
+import { fonts } from '@/constants/fonts';
+import { PermissionName } from '@/constants/permissions';
+import { usePermissions } from '@/hooks/usePermission';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Ionicons } from '@expo/vector-icons';
+import { Href, Redirect, router } from 'expo-router';
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import Button from './Button';
+
+interface PermissionGuardOptions {
+  /** With several permissions, whether all are needed rather than any one (default: false) */
+  requireAll?: boolean;
+  /** Route to send the user to instead of showing the insufficient access message */
+  redirectTo?: Href;
+}
+
+interface PermissionGuardProps extends PermissionGuardOptions {
+  permission: PermissionName | PermissionName[];
+  children: React.ReactNode;
+}
+
+/**
+ * Shown in place of a screen the user has no permission for
+ */
+export function InsufficientAccess() {
+  const { t } = useTranslation();
+
+  const handleGoBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)');
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Ionicons name="lock-closed-outline" size={64} color={colors.neutral.gray.light} />
+      <Text style={styles.title}>{t('permissions.insufficientTitle')}</Text>
+      <Text style={styles.message}>{t('permissions.insufficientMessage')}</Text>
+      <Button title={t('permissions.goBack')} variant="outline" onPress={handleGoBack} style={styles.button} />
+    </View>
+  );
+}
+
+/**
+ * Renders children only when the user has the permission
+ * @param permission - Permission, or permissions, the content needs
+ */
+export default function PermissionGuard({ permission, requireAll = false, redirectTo, children }: PermissionGuardProps) {
+  const isAllowed = usePermissions(Array.isArray(permission) ? permission : [permission], requireAll);
+
+  if (isAllowed) {
+    return <>{children}</>;
+  }
+
+  if (redirectTo) {
+    return <Redirect href={redirectTo} />;
+  }
+
+  return <InsufficientAccess />;
+}
+
+/**
+ * Wraps a route screen in a PermissionGuard
+ * @param Screen - The route's screen component
+ * @param permission - Permission, or permissions, the screen needs
+ */
+export function withPermission<P extends object>(
+  Screen: React.ComponentType<P>,
+  permission: PermissionName | PermissionName[],
+  options: PermissionGuardOptions = {}
+) {
+  const GuardedScreen = (props: P) => (
+    <PermissionGuard permission={permission} {...options}>
+      <Screen {...props} />
+    </PermissionGuard>
+  );
+  GuardedScreen.displayName = `withPermission(${Screen.displayName ?? Screen.name})`;
+  return GuardedScreen;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    backgroundColor: colors.background.primary,
+  },
+  title: {
+    marginTop: 16,
+    fontSize: 20,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.primary,
+    textAlign: 'center',
+  },
+  message: {
+    marginTop: 8,
+    fontSize: 14,
+    fontFamily: fonts.weights.regular,
+    color: colors.neutral.gray.medium,
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  button: {
+    marginTop: 24,
+    alignSelf: 'stretch',
+  },
+});
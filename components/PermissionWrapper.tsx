@@ -1,12 +1,13 @@
 /**
  * PermissionWrapper component to conditionally render children based on user permissions
  */
+import { PermissionName } from '@/constants/permissions';
 import { usePermission } from '@/hooks/usePermission';
 import React from 'react';
 import { View, ViewProps } from 'react-native';
 
 interface PermissionWrapperProps extends ViewProps {
-  permission: string;
+  permission: PermissionName;
   children: React.ReactNode;
   fallback?: React.ReactNode;
   hideWhenNoPermission?: boolean;
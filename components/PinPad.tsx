@@ -0,0 +1,147 @@
+/**
+ * PinPad component for entering the app lock PIN
+ * Shows the entered digits as dots above a numeric keypad; the parent submits once the PIN is complete.
+ */
+import { colors } from '@/constants/colors';
+import { fonts } from '@/constants/fonts';
+import { useTranslation } from '@/hooks/useTranslation';
+import { PIN_LENGTH } from '@/store/appLockStore';
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View, ViewStyle } from 'react-native';
+
+interface PinPadProps {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  /** Whether the dots show the last entry was wrong */
+  hasError?: boolean;
+  /** Key in the bottom left corner, e.g. a biometric unlock button */
+  accessoryKey?: React.ReactNode;
+  /** Light digits for dark backgrounds */
+  inverse?: boolean;
+  style?: ViewStyle;
+}
+
+const DIGIT_ROWS = [
+  ['1', '2', '3'],
+  ['4', '5', '6'],
+  ['7', '8', '9'],
+];
+
+/**
+ * PIN dots and keypad
+ * @param value - Digits entered so far
+ * @param onChange - Called with the new digits after each key press
+ */
+export default function PinPad({
+  value,
+  onChange,
+  disabled = false,
+  hasError = false,
+  accessoryKey,
+  inverse = false,
+  style,
+}: PinPadProps) {
+  const { t } = useTranslation();
+  const textColor = inverse ? colors.text.inverse : colors.text.primary;
+
+  const handleDigit = (digit: string) => {
+    if (value.length < PIN_LENGTH) {
+      onChange(value + digit);
+    }
+  };
+
+  const renderDigit = (digit: string) => (
+    <TouchableOpacity
+      key={digit}
+      style={[styles.key, inverse && styles.keyInverse]}
+      onPress={() => handleDigit(digit)}
+      disabled={disabled}
+      activeOpacity={0.6}
+      accessibilityLabel={digit}
+    >
+      <Text style={[styles.keyText, { color: textColor }]}>{digit}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={[styles.container, style]}>
+      <View style={styles.dots}>
+        {Array.from({ length: PIN_LENGTH }).map((_, index) => (
+          <View
+            key={index}
+            style={[
+              styles.dot,
+              { borderColor: hasError ? colors.semantic.error : textColor },
+              index < value.length && { backgroundColor: hasError ? colors.semantic.error : textColor },
+            ]}
+          />
+        ))}
+      </View>
+
+      {DIGIT_ROWS.map((row) => (
+        <View key={row.join('')} style={styles.row}>
+          {row.map(renderDigit)}
+        </View>
+      ))}
+
+      <View style={styles.row}>
+        <View style={styles.accessoryKey}>{accessoryKey}</View>
+        {renderDigit('0')}
+        <TouchableOpacity
+          style={styles.accessoryKey}
+          onPress={() => onChange(value.slice(0, -1))}
+          disabled={disabled || value.length === 0}
+          activeOpacity={0.6}
+          accessibilityLabel={t('appLock.deleteDigit')}
+        >
+          <Ionicons name="backspace-outline" size={28} color={textColor} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: 16,
+    marginBottom: 32,
+  },
+  dot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 1.5,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 24,
+    marginBottom: 16,
+  },
+  key: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.neutral.gray.lightest,
+  },
+  keyInverse: {
+    backgroundColor: 'rgba(255, 255, 255, 0.12)',
+  },
+  keyText: {
+    fontSize: 28,
+    fontFamily: fonts.weights.medium,
+  },
+  accessoryKey: {
+    width: 72,
+    height: 72,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,75 @@
+/**
+ * QRCode component drawing a QR code with plain views
+ * Encoding happens in utils/qrcode.ts; each row is drawn as runs of equal modules.
+ */
+import { colors } from '@/constants/colors';
+import { encodeQrCode } from '@/utils/qrcode';
+import React from 'react';
+import { StyleSheet, View, ViewStyle } from 'react-native';
+
+interface QRCodeProps {
+  value: string;
+  /** Width and height including the quiet zone (default: 200) */
+  size?: number;
+  style?: ViewStyle;
+}
+
+// Light border scanners need around the code, in modules
+const QUIET_ZONE = 4;
+
+/**
+ * Groups a row into runs of dark or light modules
+ */
+function getRuns(row: boolean[]) {
+  const runs: { dark: boolean; length: number }[] = [];
+  row.forEach((dark) => {
+    const last = runs[runs.length - 1];
+    if (last && last.dark === dark) {
+      last.length++;
+    } else {
+      runs.push({ dark, length: 1 });
+    }
+  });
+  return runs;
+}
+
+/**
+ * QR code for a text, e.g. an otpauth:// URI to scan with an authenticator app
+ * @param value - Text to encode
+ * @param size - Rendered size in points
+ * @param style - Optional container style
+ */
+export default function QRCode({ value, size = 200, style }: QRCodeProps) {
+  const matrix = encodeQrCode(value);
+  const moduleSize = size / (matrix.length + QUIET_ZONE * 2);
+
+  return (
+    <View
+      style={[styles.container, { width: size, height: size, padding: moduleSize * QUIET_ZONE }, style]}
+      accessibilityRole="image"
+    >
+      {matrix.map((row, y) => (
+        <View key={y} style={[styles.row, { height: moduleSize }]}>
+          {getRuns(row).map((run, index) => (
+            <View
+              key={index}
+              style={{
+                width: run.length * moduleSize,
+                backgroundColor: run.dark ? colors.text.primary : colors.background.primary,
+              }}
+            />
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.background.primary,
+  },
+  row: {
+    flexDirection: 'row',
+  },
+});
@@ -1,47 +1,41 @@
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { useTranslation } from '@/hooks/useTranslation';
+import { finance, isAbortError, RevenueBreakdown as RevenueBreakdownRow } from '@/services';
+import { formatCurrency } from '@/utils/number';
 import { Ionicons } from '@expo/vector-icons';
 import React, { useCallback, useEffect, useState } from 'react';
 import { ActivityIndicator, ScrollView, StyleSheet, Text, View } from 'react-native';
 
-interface RevenueBreakdown {
-  organizationId: string;
-  organizationName: string;
-  branchId: string;
-  branchName: string;
-  serviceId: string;
-  serviceName: string;
-  customerId: string;
-  customerFirstName: string;
-  customerLastName: string;
-  totalInvoices: number;
-  totalRevenue: number;
-  averageRevenuePerInvoice: number;
-}
-
 const RevenueBreakdown: React.FC = () => {
-  const [revenue, setRevenue] = useState<RevenueBreakdown[]>([]);
+  const { t } = useTranslation();
+  const [revenue, setRevenue] = useState<RevenueBreakdownRow[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const getSignal = useAbortSignal();
 
   const fetchRevenue = useCallback(async () => {
     setIsLoading(true);
     setError(null);
 
+    const signal = getSignal();
     try {
-      const response = await api.get<RevenueBreakdown[]>('/en/on/revenue/breakdown', {
-        requiresAuth: true,
-      });
+      const data = await finance.revenueBreakdown({ signal });
 
-      setRevenue(response.data || []);
+      setRevenue(data || []);
     } catch (err: any) {
-      setError(err?.message || 'Failed to load revenue breakdown');
+      if (isAbortError(err)) {
+        return;
+      }
+      setError(err?.message || t('finance.loadFailed'));
       setRevenue([]);
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
-  }, []);
+  }, [getSignal, t]);
 
   useEffect(() => {
     fetchRevenue();
@@ -60,7 +54,7 @@ const RevenueBreakdown: React.FC = () => {
       <View style={styles.container}>
         <View style={styles.emptyCard}>
           <Ionicons name="cash-outline" size={32} color={colors.neutral.gray.light} />
-          <Text style={styles.emptyText}>No revenue data available</Text>
+          <Text style={styles.emptyText}>{t('finance.empty')}</Text>
         </View>
       </View>
     );
@@ -73,11 +67,11 @@ const RevenueBreakdown: React.FC = () => {
     <View style={styles.container}>
       <View style={styles.summaryCard}>
         <View style={styles.summaryItem}>
-          <Text style={styles.summaryLabel}>Total Revenue</Text>
-          <Text style={styles.summaryValue}>${totalRevenue.toLocaleString()}</Text>
+          <Text style={styles.summaryLabel}>{t('finance.totalRevenue')}</Text>
+          <Text style={styles.summaryValue}>{formatCurrency(totalRevenue)}</Text>
         </View>
         <View style={styles.summaryItem}>
-          <Text style={styles.summaryLabel}>Total Invoices</Text>
+          <Text style={styles.summaryLabel}>{t('finance.totalInvoices')}</Text>
           <Text style={styles.summaryValue}>{totalInvoices}</Text>
         </View>
       </View>
@@ -100,23 +94,23 @@ const RevenueBreakdown: React.FC = () => {
             </View>
             <View style={styles.revenueDetails}>
               <View style={styles.revenueDetailItem}>
-                <Text style={styles.revenueDetailLabel}>Customer</Text>
+                <Text style={styles.revenueDetailLabel}>{t('invoices.customer')}</Text>
                 <Text style={styles.revenueDetailValue} numberOfLines={1}>
                   {item.customerFirstName} {item.customerLastName}
                 </Text>
               </View>
               <View style={styles.revenueDetailItem}>
-                <Text style={styles.revenueDetailLabel}>Invoices</Text>
+                <Text style={styles.revenueDetailLabel}>{t('finance.invoices')}</Text>
                 <Text style={styles.revenueDetailValue}>{item.totalInvoices}</Text>
               </View>
               <View style={styles.revenueDetailItem}>
-                <Text style={styles.revenueDetailLabel}>Revenue</Text>
-                <Text style={styles.revenueDetailValue}>${item.totalRevenue.toLocaleString()}</Text>
+                <Text style={styles.revenueDetailLabel}>{t('finance.revenue')}</Text>
+                <Text style={styles.revenueDetailValue}>{formatCurrency(item.totalRevenue)}</Text>
               </View>
               <View style={styles.revenueDetailItem}>
-                <Text style={styles.revenueDetailLabel}>Avg/Invoice</Text>
+                <Text style={styles.revenueDetailLabel}>{t('finance.averagePerInvoiceShort')}</Text>
                 <Text style={styles.revenueDetailValue}>
-                  ${item.averageRevenuePerInvoice.toLocaleString()}
+                  {formatCurrency(item.averageRevenuePerInvoice)}
                 </Text>
               </View>
             </View>
@@ -0,0 +1,130 @@
+import { colors } from '@/constants/colors';
+import { fonts } from '@/constants/fonts';
+import { useSchemaDriftStore } from '@/store/schemaDriftStore';
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+/**
+ * Development-only overlay listing API responses that failed schema validation
+ * Renders nothing in production builds
+ */
+const SchemaDriftOverlay: React.FC = () => {
+  const { reports, dismissReport, clearReports } = useSchemaDriftStore();
+  const insets = useSafeAreaInsets();
+
+  if (!__DEV__ || reports.length === 0) return null;
+
+  return (
+    <View style={[styles.container, { bottom: insets.bottom + 16 }]} pointerEvents="box-none">
+      <View style={styles.panel}>
+        <View style={styles.header}>
+          <Ionicons name="warning" size={18} color={colors.text.inverse} />
+          <Text style={styles.title}>API schema mismatch ({reports.length})</Text>
+          <TouchableOpacity onPress={clearReports} style={styles.headerButton}>
+            <Text style={styles.headerButtonText}>Clear</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.list}>
+          {reports.map((report) => (
+            <View key={report.id} style={styles.report}>
+              <View style={styles.reportHeader}>
+                <Text style={styles.endpoint} numberOfLines={2}>
+                  {report.method} {report.endpoint}
+                  {report.lenient ? ' (lenient)' : ''}
+                </Text>
+                <TouchableOpacity onPress={() => dismissReport(report.id)} style={styles.dismissButton}>
+                  <Ionicons name="close" size={16} color={colors.text.inverse} />
+                </TouchableOpacity>
+              </View>
+              {report.issues.map((issue, index) => (
+                <Text key={`${report.id}-${index}`} style={styles.issue}>
+                  {issue.path}: {issue.message}
+                </Text>
+              ))}
+            </View>
+          ))}
+        </ScrollView>
+      </View>
+    </View>
+  );
+};
+
+export default SchemaDriftOverlay;
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    zIndex: 9998,
+    paddingHorizontal: 16,
+  },
+  panel: {
+    backgroundColor: colors.background.dark,
+    borderRadius: 8,
+    borderLeftWidth: 4,
+    borderLeftColor: colors.semantic.warning,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
+    elevation: 5,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    gap: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.inverse,
+  },
+  headerButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  headerButtonText: {
+    fontSize: 13,
+    fontFamily: fonts.weights.semiBold,
+    color: colors.secondary.orangeLight,
+  },
+  list: {
+    maxHeight: 240,
+    paddingHorizontal: 12,
+  },
+  report: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: colors.neutral.gray.medium,
+  },
+  reportHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  endpoint: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: fonts.weights.semiBold,
+    color: colors.text.inverse,
+  },
+  dismissButton: {
+    padding: 2,
+  },
+  issue: {
+    marginTop: 4,
+    fontSize: 12,
+    fontFamily: fonts.weights.regular,
+    color: colors.neutral.gray.lighter,
+  },
+});
@@ -3,6 +3,7 @@ import { View, Text, TouchableOpacity, StyleSheet, Modal, FlatList } from "react
 import Ionicons from "@expo/vector-icons/Ionicons";
 import { colors } from "../constants/colors";
 import { fonts } from "../constants/fonts";
+import { useTranslation } from "../hooks/useTranslation";
 
 export interface SelectOption {
   label: string;
@@ -23,14 +24,15 @@ export default function Select({
   options,
   value,
   onValueChange,
-  placeholder = "Select an option",
+  placeholder,
   error,
 }: SelectProps) {
+  const { t } = useTranslation();
   const [isOpen, setIsOpen] = useState(false);
   const [isFocused, setIsFocused] = useState(false);
 
   const selectedOption = options.find((opt) => opt.value === value);
-  const displayText = selectedOption ? selectedOption.label : placeholder;
+  const displayText = selectedOption ? selectedOption.label : placeholder ?? t("common.selectOption");
   const borderColor = error
     ? colors.semantic.error
     : isFocused
@@ -1,27 +1,22 @@
 import { colors } from '@/constants/colors';
 import { fonts } from '@/constants/fonts';
-import api from '@/services/api';
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { useTranslation } from '@/hooks/useTranslation';
+import { isAbortError, services as servicesApi, ServiceStats as ServiceStatsData } from '@/services';
 import { Ionicons } from '@expo/vector-icons';
 import React, { useCallback, useEffect, useState } from 'react';
 import { ActivityIndicator, StyleSheet, Text, View } from 'react-native';
 
-interface ServiceStats {
-  organizationId: string;
-  organizationName: string;
-  totalServices: number;
-  totalPublicServices: number;
-  totalDraftServices: number;
-  totalDeletedServices: number;
-}
-
 interface ServiceStatsProps {
   organizationId: string;
 }
 
 const ServiceStats: React.FC<ServiceStatsProps> = ({ organizationId }) => {
-  const [stats, setStats] = useState<ServiceStats | null>(null);
+  const { t } = useTranslation();
+  const [stats, setStats] = useState<ServiceStatsData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const getSignal = useAbortSignal();
 
   const fetchStats = useCallback(async () => {
     if (!organizationId) {
@@ -32,17 +27,16 @@ const ServiceStats: React.FC<ServiceStatsProps> = ({ organizationId }) => {
     setIsLoading(true);
     setError(null);
 
+    const signal = getSignal();
     try {
-      const response = await api.get<ServiceStats>(
-        `/en/on/organization/${organizationId}/service/stats`,
-        {
-          requiresAuth: true,
-        }
-      );
+      const data = await servicesApi.stats(organizationId, { signal });
 
-      setStats(response.data);
+      setStats(data);
     } catch (err: any) {
-      setError(err?.message || 'Failed to load service stats');
+      if (isAbortError(err)) {
+        return;
+      }
+      setError(err?.message || t('serviceStats.loadFailed'));
       setStats({
         organizationId,
         organizationName: '',
@@ -52,9 +46,11 @@ const ServiceStats: React.FC<ServiceStatsProps> = ({ organizationId }) => {
         totalDeletedServices: 0,
       });
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
-  }, [organizationId]);
+  }, [organizationId, getSignal, t]);
 
   useEffect(() => {
     fetchStats();
@@ -85,7 +81,7 @@ const ServiceStats: React.FC<ServiceStatsProps> = ({ organizationId }) => {
             <Ionicons name="grid-outline" size={20} color={colors.primary.green} />
           </View>
           <Text style={styles.statValue}>{displayStats.totalServices}</Text>
-          <Text style={styles.statLabel}>Total Services</Text>
+          <Text style={styles.statLabel}>{t('serviceStats.totalServices')}</Text>
         </View>
 
         <View style={styles.statCard}>
@@ -93,7 +89,7 @@ const ServiceStats: React.FC<ServiceStatsProps> = ({ organizationId }) => {
             <Ionicons name="globe-outline" size={20} color={colors.semantic.info} />
           </View>
           <Text style={styles.statValue}>{displayStats.totalPublicServices}</Text>
-          <Text style={styles.statLabel}>Public</Text>
+          <Text style={styles.statLabel}>{t('serviceDetails.public')}</Text>
         </View>
       </View>
     </View>
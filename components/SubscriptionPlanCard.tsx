@@ -0,0 +1,216 @@
+/**
+ * SubscriptionPlanCard component showing a plan's price and features
+ */
+import { colors } from '@/constants/colors';
+import { fonts } from '@/constants/fonts';
+import { useTranslation } from '@/hooks/useTranslation';
+import { SubscriptionPlan } from '@/services';
+import { DEFAULT_CURRENCY, formatNumber } from '@/utils/number';
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { ImageBackground, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+interface SubscriptionPlanCardProps {
+  plan: SubscriptionPlan;
+  onSelect: (plan: SubscriptionPlan) => void;
+  /**
+   * Marks the plan as the current choice, e.g. in the onboarding wizard
+   */
+  selected?: boolean;
+}
+
+type IoniconName = React.ComponentProps<typeof Ionicons>['name'];
+
+/**
+ * Plan card with a select button
+ * @param plan - Plan to show
+ * @param onSelect - Called with the plan when its button is pressed
+ * @param selected - Whether the plan is the current choice
+ */
+export default function SubscriptionPlanCard({ plan, onSelect, selected = false }: SubscriptionPlanCardProps) {
+  const { t } = useTranslation();
+  const yesNo = (value: boolean) => (value ? t('subscriptionPlans.yes') : t('subscriptionPlans.no'));
+
+  const formatPrice = (price?: number): string => {
+    if (!price) return t('common.notAvailable');
+    return formatNumber(price, {
+      style: 'currency',
+      currency: DEFAULT_CURRENCY,
+      minimumFractionDigits: 0,
+    });
+  };
+
+  const features: { icon: IoniconName; label: string; value: string | number }[] = [
+    { icon: 'business-outline', label: t('subscriptionPlans.branches'), value: plan.noOfBranches },
+    { icon: 'people-outline', label: t('subscriptionPlans.members'), value: plan.members },
+    { icon: 'grid-outline', label: t('subscriptionPlans.services'), value: plan.services },
+    { icon: 'eye-outline', label: t('subscriptionPlans.visibility'), value: plan.tadarVisibility },
+    { icon: 'time-outline', label: t('subscriptionPlans.support'), value: plan.assistanceSupport },
+    {
+      icon: plan.teamManagement ? 'checkmark-circle' : 'close-circle',
+      label: t('subscriptionPlans.teamManagement'),
+      value: yesNo(plan.teamManagement),
+    },
+    {
+      icon: plan.reports ? 'checkmark-circle' : 'close-circle',
+      label: t('subscriptionPlans.reports'),
+      value: yesNo(plan.reports),
+    },
+    {
+      icon: plan.isRenewed ? 'refresh-circle' : 'time-outline',
+      label: t('subscriptionPlans.autoRenewal'),
+      value: yesNo(!!plan?.isRenewed),
+    },
+  ];
+
+  return (
+    <View style={[styles.planCardWrapper, selected && styles.planCardSelected]}>
+      <ImageBackground
+        source={require('@/assets/backgroud/plan-background.jpg')}
+        style={styles.planCard}
+        resizeMode="cover"
+      >
+        <View style={styles.planOverlay}>
+          {/* Plan Header */}
+          <View style={styles.planHeader}>
+            <View style={styles.planHeaderLeft}>
+              <Text style={styles.planTitle}>{plan.title}</Text>
+              <Text style={styles.planCode}>{plan.subscriptionCode}</Text>
+            </View>
+            <View style={styles.priceContainer}>
+              <Text style={styles.priceAmount}>{formatPrice(plan.price)}</Text>
+              <Text style={styles.pricePeriod}>{t('subscriptionPlans.perMonths', { count: plan.noOfMonth })}</Text>
+            </View>
+          </View>
+
+          {/* Plan Features */}
+          <View style={styles.featuresContainer}>
+            {features.map((feature) => (
+              <View key={feature.label} style={styles.featureRow}>
+                <Ionicons name={feature.icon} size={18} color={colors.text.inverse} />
+                <Text style={styles.featureText}>
+                  <Text style={styles.featureLabel}>{feature.label}: </Text>
+                  {feature.value}
+                </Text>
+              </View>
+            ))}
+          </View>
+
+          {/* Select Button */}
+          <TouchableOpacity
+            style={[styles.selectButton, selected && styles.selectButtonSelected]}
+            onPress={() => onSelect(plan)}
+            activeOpacity={0.8}
+          >
+            <Text style={[styles.selectButtonText, selected && styles.selectButtonTextSelected]}>
+              {selected ? t('subscriptionPlans.selected') : t('subscriptionPlans.select')}
+            </Text>
+            <Ionicons
+              name={selected ? 'checkmark' : 'arrow-forward'}
+              size={20}
+              color={selected ? colors.primary.green : colors.text.inverse}
+            />
+          </TouchableOpacity>
+        </View>
+      </ImageBackground>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  planCardWrapper: {
+    marginBottom: 20,
+    borderRadius: 20,
+    overflow: 'hidden',
+  },
+  planCardSelected: {
+    borderWidth: 3,
+    borderColor: colors.primary.green,
+  },
+  planCard: {
+    width: '100%',
+    minHeight: 400,
+  },
+  planOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    padding: 24,
+    justifyContent: 'space-between',
+  },
+  planHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 24,
+  },
+  planHeaderLeft: {
+    flex: 1,
+  },
+  planTitle: {
+    fontSize: 28,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.inverse,
+    marginBottom: 4,
+  },
+  planCode: {
+    fontSize: 14,
+    fontFamily: fonts.weights.regular,
+    color: colors.text.inverse,
+    opacity: 0.9,
+  },
+  priceContainer: {
+    alignItems: 'flex-end',
+  },
+  priceAmount: {
+    fontSize: 32,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.inverse,
+    lineHeight: 36,
+  },
+  pricePeriod: {
+    fontSize: 14,
+    fontFamily: fonts.weights.regular,
+    color: colors.text.inverse,
+    opacity: 0.9,
+    marginTop: 2,
+  },
+  featuresContainer: {
+    gap: 12,
+    marginBottom: 24,
+  },
+  featureRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  featureText: {
+    fontSize: 15,
+    fontFamily: fonts.weights.regular,
+    color: colors.text.inverse,
+    flex: 1,
+  },
+  featureLabel: {
+    fontFamily: fonts.weights.semiBold,
+    opacity: 0.9,
+  },
+  selectButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.primary.green,
+    paddingVertical: 16,
+    borderRadius: 12,
+    gap: 8,
+  },
+  selectButtonSelected: {
+    backgroundColor: colors.text.inverse,
+  },
+  selectButtonText: {
+    fontSize: 16,
+    fontFamily: fonts.weights.bold,
+    color: colors.text.inverse,
+  },
+  selectButtonTextSelected: {
+    color: colors.primary.green,
+  },
+});
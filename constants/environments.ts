@@ -0,0 +1,52 @@
+/**
+ * Backends the app can be pointed at at runtime
+ * The build's API_DOMAIN is the default; production, staging and UAT are listed when their domain is
+ * configured at build time (PRODUCTION_API_DOMAIN, STAGING_API_DOMAIN, UAT_API_DOMAIN).
+ * The selection is made on the diagnostics screen, kept in the dev settings store and applied by services/environment.
+ * Only development builds and QA builds made with ENVIRONMENT_SWITCHER=true can switch; other builds always use
+ * the default environment, so nobody with the device in hand can send credentials to another host.
+ */
+import Constants from 'expo-constants';
+
+export type ApiEnvironmentId = 'default' | 'production' | 'staging' | 'uat' | 'mock' | 'custom';
+
+export interface ApiEnvironment {
+  id: ApiEnvironmentId;
+  name: string;
+  /**
+   * Origin requests are sent to
+   * Empty for the mock backend and for a custom domain, which is entered on the diagnostics screen
+   */
+  apiDomain: string;
+}
+
+const extra = Constants.expoConfig?.extra ?? {};
+
+const configuredEnvironments: ApiEnvironment[] = [
+  { id: 'production', name: 'Production', apiDomain: extra.productionApiDomain ?? '' },
+  { id: 'staging', name: 'Staging', apiDomain: extra.stagingApiDomain ?? '' },
+  { id: 'uat', name: 'UAT', apiDomain: extra.uatApiDomain ?? '' },
+];
+
+/**
+ * Environments in picker order
+ */
+export const API_ENVIRONMENTS: ApiEnvironment[] = [
+  { id: 'default', name: 'Build default', apiDomain: extra.apiDomain ?? '' },
+  ...configuredEnvironments.filter((environment) => environment.apiDomain),
+  { id: 'mock', name: 'Mock backend', apiDomain: '' },
+  { id: 'custom', name: 'Custom domain', apiDomain: '' },
+];
+
+/**
+ * Whether this build lets the backend be switched at runtime
+ */
+export const CAN_SWITCH_ENVIRONMENT: boolean = __DEV__ || extra.environmentSwitcher === true;
+
+/**
+ * Environment used until one is picked; demo builds (MOCK_API=true) start on the mock backend
+ */
+export const DEFAULT_ENVIRONMENT_ID: ApiEnvironmentId = extra.mockApi === true ? 'mock' : 'default';
+
+export const getApiEnvironment = (id: ApiEnvironmentId) =>
+  API_ENVIRONMENTS.find((environment) => environment.id === id) ?? API_ENVIRONMENTS[0];
@@ -0,0 +1,25 @@
+/**
+ * Permission catalog
+ * Names of the permissions screens check, e.g. usePermission(PERMISSIONS.manageInvoices).
+ * A check passes only for a name the account is granted, so a name the server does not define hides its screen.
+ * Open backend dependency: these are the names the mock backend seeds (services/mock/fixtures.ts). They must be
+ * replaced with the names the server's catalog (GET /:locale/on/organization/permissions) returns before the
+ * guards are used against a real backend.
+ * The server still enforces every permission; the app only hides what the user cannot do.
+ */
+
+export const PERMISSIONS = {
+  viewServices: 'view_services',
+  manageServices: 'manage_services',
+  viewBranches: 'view_branches',
+  manageBranches: 'manage_branches',
+  viewStaff: 'view_staff',
+  manageStaff: 'manage_staff',
+  viewBookings: 'view_bookings',
+  manageBookings: 'manage_bookings',
+  viewInvoices: 'view_invoices',
+  manageInvoices: 'manage_invoices',
+  viewFinance: 'view_finance',
+} as const;
+
+export type PermissionName = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
@@ -36,13 +36,42 @@ export const uploadConfig = {
   /**
    * Allowed video file types
    */
-  allowedVideoTypes: ['video/mp4', 'video/mov', 'video/avi'],
+  allowedVideoTypes: ['video/mp4', 'video/mov', 'video/quicktime', 'video/avi'],
 
   /**
    * Image quality for compression (0.0 to 1.0)
    * Default: 0.8 (80% quality)
    */
   imageQuality: 0.8,
+
+  /**
+   * Longest side of uploaded images in pixels; larger images are scaled down before upload
+   * Default: 1920
+   */
+  maxImageDimension: 1920,
+
+  /**
+   * Number of files uploaded at the same time
+   * Default: 2
+   */
+  concurrentUploads: 2,
+
+  /**
+   * Automatic retries of an upload after a network or server error
+   * Default: 3
+   */
+  uploadRetries: 3,
+};
+
+/**
+ * Form fields uploads are linked to (see ImageUpload's uploadKey)
+ * The link is persisted with the upload, so a form left mid-upload or after an app restart still gets the
+ * uploaded file id back; the form releases its uploads once it has been saved.
+ */
+export const UPLOAD_TARGETS = {
+  companyLogo: 'onboarding.companyLogo',
+  newServiceThumbnail: 'newService.thumbnail',
+  serviceThumbnail: (serviceId: string) => `services.${serviceId}.thumbnail`,
 };
 
 /**
@@ -0,0 +1,66 @@
+import mockAsyncStorage from "@react-native-async-storage/async-storage/jest/async-storage-mock";
+import type { BranchEvent, BranchEventType } from "@/services/events";
+import type { BookedService } from "@/services/types";
+import { applyBookingEvent } from "../useBookingFeed";
+
+jest.mock("@react-native-async-storage/async-storage", () => mockAsyncStorage);
+
+const booking = (id: string, bookCode = id.toUpperCase()) => ({ id, bookCode }) as BookedService;
+
+const event = (type: BranchEventType, pushed: BookedService): BranchEvent => ({ type, booking: pushed });
+
+const ids = (requests: BookedService[]) => requests.map((request) => request.id);
+
+const requests = [booking("bk-1"), booking("bk-2"), booking("bk-3")];
+
+describe("applyBookingEvent", () => {
+  it("adds a new booking in front", () => {
+    expect(ids(applyBookingEvent(requests, event("BOOKING_CREATED", booking("bk-4"))))).toEqual([
+      "bk-4",
+      "bk-1",
+      "bk-2",
+      "bk-3",
+    ]);
+  });
+
+  it("does not list a booking twice when its creation is pushed again", () => {
+    const pushed = booking("bk-2", "BK-2-PUSHED");
+
+    const next = applyBookingEvent(requests, event("BOOKING_CREATED", pushed));
+
+    expect(ids(next)).toEqual(["bk-2", "bk-1", "bk-3"]);
+    expect(next[0]).toBe(pushed);
+  });
+
+  it("removes a cancelled booking", () => {
+    expect(ids(applyBookingEvent(requests, event("BOOKING_CANCELLED", booking("bk-2"))))).toEqual(["bk-1", "bk-3"]);
+  });
+
+  it("ignores the cancellation of a booking that is not listed", () => {
+    expect(applyBookingEvent(requests, event("BOOKING_CANCELLED", booking("bk-9")))).toEqual(requests);
+  });
+
+  it("replaces a confirmed booking in place with the pushed copy", () => {
+    const pushed = booking("bk-2", "BK-2-CONFIRMED");
+
+    const next = applyBookingEvent(requests, event("BOOKING_CONFIRMED", pushed));
+
+    expect(ids(next)).toEqual(["bk-1", "bk-2", "bk-3"]);
+    expect(next[1]).toBe(pushed);
+  });
+
+  it("adds a confirmed booking that is not listed yet in front", () => {
+    expect(ids(applyBookingEvent(requests, event("BOOKING_CONFIRMED", booking("bk-4"))))).toEqual([
+      "bk-4",
+      "bk-1",
+      "bk-2",
+      "bk-3",
+    ]);
+  });
+
+  it("does not change the list it is given", () => {
+    applyBookingEvent(requests, event("BOOKING_CANCELLED", booking("bk-1")));
+
+    expect(ids(requests)).toEqual(["bk-1", "bk-2", "bk-3"]);
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Hook to cancel a component's requests when it unmounts
+ * Usage:
+ *   const getSignal = useAbortSignal();
+ *   const signal = getSignal();
+ *   try {
+ *     setBookings(await bookings.history({ signal }));
+ *   } catch (err) {
+ *     if (isAbortError(err)) return;
+ *     ...
+ *   } finally {
+ *     if (!signal.aborted) setIsLoading(false);
+ *   }
+ * @returns A function returning the signal to pass to requests started by the component
+ */
+import { useCallback, useEffect, useRef } from 'react';
+
+export function useAbortSignal(): () => AbortSignal {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => {
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+    };
+  }, []);
+
+  return useCallback(() => {
+    // Created lazily so a remounted component gets a fresh signal
+    if (!controllerRef.current) {
+      controllerRef.current = new AbortController();
+    }
+    return controllerRef.current.signal;
+  }, []);
+}
@@ -0,0 +1,87 @@
+/**
+ * Hooks for the app lock
+ * Usage:
+ *   Root layout: useAppLockMonitor(); and <View onTouchStart={recordActivity}>
+ *   Settings: const biometricType = useBiometricType();
+ */
+import { BiometricType, getBiometricType } from '@/services/biometrics';
+import { useAppLockStore } from '@/store/appLockStore';
+import { useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+
+// How often inactivity is checked while the app is open (ms)
+const INACTIVITY_CHECK_INTERVAL = 10_000;
+
+// Kept outside the store so touches do not re-render its subscribers
+let lastActivityAt = Date.now();
+
+/**
+ * Marks the user as active; call on every touch
+ */
+export function recordActivity() {
+  lastActivityAt = Date.now();
+}
+
+/**
+ * Locks the app after the auto-lock time without interaction, and when it goes to the background
+ * if the user chose so. Time spent away from the app counts as inactivity.
+ */
+export function useAppLockMonitor() {
+  const pinHash = useAppLockStore((state) => state.pinHash);
+  const autoLockMinutes = useAppLockStore((state) => state.autoLockMinutes);
+  const lockOnBackground = useAppLockStore((state) => state.lockOnBackground);
+  const lock = useAppLockStore((state) => state.lock);
+
+  useEffect(() => {
+    if (!pinHash) {
+      return;
+    }
+
+    const timeout = autoLockMinutes * 60_000;
+    const lockIfIdle = () => {
+      if (Date.now() - lastActivityAt >= timeout) {
+        lock();
+      }
+    };
+
+    recordActivity();
+    const interval = setInterval(lockIfIdle, INACTIVITY_CHECK_INTERVAL);
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'background' && lockOnBackground) {
+        lock();
+      } else if (state === 'active') {
+        // Timers do not run in the background, so the time away is checked on return
+        lockIfIdle();
+        recordActivity();
+      }
+    });
+
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [pinHash, autoLockMinutes, lockOnBackground, lock]);
+}
+
+/**
+ * The biometric available on this device; undefined while checking, null when there is none
+ */
+export function useBiometricType() {
+  const [biometricType, setBiometricType] = useState<BiometricType | null | undefined>(undefined);
+
+  useEffect(() => {
+    let isMounted = true;
+    getBiometricType()
+      .catch(() => null)
+      .then((type) => {
+        if (isMounted) {
+          setBiometricType(type);
+        }
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  return biometricType;
+}
@@ -0,0 +1,109 @@
+/**
+ * Live booking requests for the selected branch, pushed over the branch event socket
+ * Usage:
+ *   useBookingFeedMonitor(); in the root layout
+ *   useBookingEvents((event) => setRequests((requests) => applyBookingEvent(requests, event)));
+ */
+import { BookedService, events } from '@/services';
+import { BranchEvent, BranchEventType } from '@/services/events';
+import { storeBookings } from '@/services/entities';
+import { useAuthStore } from '@/store/authStore';
+import { BookingAlertType, useBookingAlertStore } from '@/store/bookingAlertStore';
+import { useBranchStore } from '@/store/branchStore';
+import { useEffect, useRef } from 'react';
+
+// Wait before reopening the branch socket after it closes (ms)
+const RECONNECT_DELAY = 10_000;
+
+const ALERT_TYPES: Record<BranchEventType, BookingAlertType> = {
+  BOOKING_CREATED: 'created',
+  BOOKING_CANCELLED: 'cancelled',
+  BOOKING_CONFIRMED: 'confirmed',
+};
+
+const listeners = new Set<(event: BranchEvent) => void>();
+
+/**
+ * Calls the listener with every booking event of the selected branch
+ * @returns Function that removes the listener
+ */
+export function subscribeBookingEvents(listener: (event: BranchEvent) => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Subscribes a screen to booking events while it is mounted; the latest listener is always called
+ */
+export function useBookingEvents(listener: (event: BranchEvent) => void) {
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => subscribeBookingEvents((event) => listenerRef.current(event)), []);
+}
+
+/**
+ * Applies a booking event to a list of open requests: new bookings are added in front,
+ * cancelled ones removed and others replaced by the pushed copy
+ */
+export function applyBookingEvent(requests: BookedService[], { type, booking }: BranchEvent): BookedService[] {
+  const rest = requests.filter((request) => request.id !== booking.id);
+  if (type === 'BOOKING_CANCELLED') {
+    return rest;
+  }
+  if (type === 'BOOKING_CREATED' || rest.length === requests.length) {
+    return [booking, ...rest];
+  }
+  return requests.map((request) => (request.id === booking.id ? booking : request));
+}
+
+/**
+ * Keeps the selected branch's event socket open while signed in: pushed bookings are stored,
+ * passed to subscribed screens and raised as in-app alerts
+ */
+export function useBookingFeedMonitor() {
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const branchId = useBranchStore((state) => state.branch?.id);
+
+  useEffect(() => {
+    if (!isAuthenticated || !branchId) {
+      return;
+    }
+
+    let ws: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let isClosed = false;
+
+    // Reads the token on each connect, since it is refreshed while the socket is open
+    const connect = () => {
+      const { token } = useAuthStore.getState();
+      ws = token ? events.openBranchSocket(branchId, token) : null;
+      if (!ws) {
+        return;
+      }
+      ws.onmessage = ({ data }) => {
+        const event = events.parseBranchEvent(data);
+        if (!event || event.booking.branchId !== branchId) {
+          return;
+        }
+        storeBookings(event.booking);
+        listeners.forEach((listener) => listener(event));
+        useBookingAlertStore.getState().addAlert(ALERT_TYPES[event.type], event.booking);
+      };
+      ws.onclose = () => {
+        if (!isClosed) {
+          reconnectTimer = setTimeout(connect, RECONNECT_DELAY);
+        }
+      };
+    };
+
+    connect();
+    return () => {
+      isClosed = true;
+      clearTimeout(reconnectTimer);
+      ws?.close();
+    };
+  }, [isAuthenticated, branchId]);
+}
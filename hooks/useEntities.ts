@@ -0,0 +1,51 @@
+/**
+ * Hooks to read entities from the entity store, so a screen shows an entity's latest copy
+ * wherever it was fetched or edited
+ * Usage:
+ *   const service = useEntity('services', serviceId);
+ *   const services = useLatestEntities('services', data); // list items replaced by their latest copy
+ */
+import { BookedService } from '@/services/types';
+import { Entity, EntityType, useEntityStore } from '@/store/entityStore';
+import { useMemo } from 'react';
+
+/**
+ * The stored entity with the given id, or undefined if none was fetched yet
+ */
+export function useEntity<K extends EntityType>(type: K, id: string | null | undefined): Entity<K> | undefined {
+  return useEntityStore((state) => (id ? (state[type][id] as Entity<K>) : undefined));
+}
+
+/**
+ * Replaces each entity of a list with its latest stored copy, keeping the list's order
+ * @param type - Entity table the items belong to
+ * @param entities - List as returned by the query; undefined passes through
+ */
+export function useLatestEntities<K extends EntityType, T extends Entity<K>>(
+  type: K,
+  entities: T[] | undefined
+): T[] | undefined {
+  const table = useEntityStore((state) => state[type]);
+  return useMemo(
+    () => entities?.map((entity) => ({ ...entity, ...(table[entity.id] as Entity<K> | undefined) })),
+    [entities, table]
+  );
+}
+
+/**
+ * Replaces each booking, and the service and branch it is for, with their latest stored copies
+ */
+export function useLatestBookings(bookings: BookedService[] | undefined): BookedService[] | undefined {
+  const latestBookings = useLatestEntities('bookings', bookings);
+  const services = useEntityStore((state) => state.services);
+  const branches = useEntityStore((state) => state.branches);
+  return useMemo(
+    () =>
+      latestBookings?.map((booking) => ({
+        ...booking,
+        service: { ...booking.service, ...services[booking.serviceId] },
+        branch: { ...booking.branch, ...branches[booking.branchId] },
+      })),
+    [latestBookings, services, branches]
+  );
+}
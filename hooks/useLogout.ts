@@ -0,0 +1,61 @@
+/**
+ * Signing out on purpose, with a confirmation that warns about writes still waiting in the outbox
+ * Usage: const confirmLogout = useConfirmLogout(); <Button onPress={() => confirmLogout()} />
+ */
+import { useOutboxCount } from '@/hooks/useOutbox';
+import { useTranslation } from '@/hooks/useTranslation';
+import { discardUserOutbox } from '@/services/outbox';
+import { useAuthStore } from '@/store/authStore';
+import { router } from 'expo-router';
+import { useCallback } from 'react';
+import { Alert } from 'react-native';
+
+export interface ConfirmLogoutOptions {
+  /** Dialog title (default: auth.logoutTitle) */
+  title?: string;
+  /** Dialog message (default: auth.logoutMessage) */
+  message?: string;
+  /** Ask even when nothing is waiting to sync (default: true) */
+  alwaysConfirm?: boolean;
+}
+
+/**
+ * Returns a function that signs the user out after confirming, then opens the login screen
+ * Writes the user queued offline are discarded; the dialog says how many. Sessions that end
+ * without the user asking (expiry, remote sign-out) keep them for the user's next sign-in.
+ */
+export function useConfirmLogout({ title, message, alwaysConfirm = true }: ConfirmLogoutOptions = {}) {
+  const logout = useAuthStore((state) => state.logout);
+  const pendingCount = useOutboxCount();
+  const { t } = useTranslation();
+
+  return useCallback(() => {
+    const signOut = () => {
+      discardUserOutbox();
+      logout();
+      router.replace('/Login');
+    };
+
+    if (!alwaysConfirm && pendingCount === 0) {
+      signOut();
+      return;
+    }
+
+    const warning = pendingCount > 0 ? t('auth.unsyncedChanges', { count: pendingCount }) : null;
+    Alert.alert(
+      title ?? t('auth.logoutTitle'),
+      [message ?? t('auth.logoutMessage'), warning].filter(Boolean).join('\n\n'),
+      [
+        {
+          text: t('common.cancel'),
+          style: 'cancel',
+        },
+        {
+          text: t('auth.logout'),
+          style: 'destructive',
+          onPress: signOut,
+        },
+      ]
+    );
+  }, [alwaysConfirm, logout, message, pendingCount, t, title]);
+}
@@ -0,0 +1,36 @@
+/**
+ * Hooks to observe the signed-in user's writes in the offline outbox
+ * Usage:
+ *   const queued = useOutboxItems(bookedServiceId);
+ *   queued.length > 0 && <Text>Waiting to sync</Text>
+ */
+import { isOutboxItemOfUser, OutboxItem, useOutboxStore } from '@/store/outboxStore';
+import { useUserStore } from '@/store/userStore';
+import { useShallow } from 'zustand/react/shallow';
+
+/**
+ * Queued writes, oldest first
+ * @param entityId - Only return writes for this record, e.g. a booked service id (default: every write)
+ * @param type - Only return writes of this mutation type, e.g. "chat.send"
+ */
+export function useOutboxItems(entityId?: string | null, type?: string): OutboxItem[] {
+  const userId = useUserStore((state) => state.user?.id);
+  return useOutboxStore(
+    useShallow((state) =>
+      state.items.filter(
+        (item) =>
+          isOutboxItemOfUser(item, userId) &&
+          (entityId === undefined || item.entityId === entityId) &&
+          (!type || item.type === type)
+      )
+    )
+  );
+}
+
+/**
+ * Number of writes waiting to sync, including conflicts that need attention
+ */
+export function useOutboxCount(): number {
+  const userId = useUserStore((state) => state.user?.id);
+  return useOutboxStore((state) => state.items.filter((item) => isOutboxItemOfUser(item, userId)).length);
+}
@@ -1,11 +1,12 @@
 /**
  * Hook to check if user has a specific permission
- * @param permission - The permission name to check
+ * @param permission - The permission name to check, from PERMISSIONS
  * @returns boolean - true if user has the permission, false otherwise
  */
+import { PermissionName } from '@/constants/permissions';
 import { usePermissionsStore } from '@/store/permissionsStore';
 
-export function usePermission(permission: string): boolean {
+export function usePermission(permission: PermissionName): boolean {
   const hasPermission = usePermissionsStore((state) => state.hasPermission(permission));
   return hasPermission;
 }
@@ -16,12 +17,12 @@ export function usePermission(permission: string): boolean {
  * @param requireAll - If true, user must have all permissions. If false, user needs at least one.
  * @returns boolean - true if permission requirements are met
  */
-export function usePermissions(permissions: string[], requireAll: boolean = false): boolean {
-  const hasPermission = usePermissionsStore((state) => state.hasPermission);
+export function usePermissions(permissions: PermissionName[], requireAll: boolean = false): boolean {
+  // Subscribes to the granted list itself so the result updates when permissions change
+  const granted = usePermissionsStore((state) => state.permissions);
   
   if (requireAll) {
-    return permissions.every((permission) => hasPermission(permission));
+    return permissions.every((permission) => granted.includes(permission));
   }
-  return permissions.some((permission) => hasPermission(permission));
+  return permissions.some((permission) => granted.includes(permission));
 }
-
@@ -0,0 +1,118 @@
+/**
+ * Keeps the signed-in user's permissions current without switching account again
+ * Usage: usePermissionRefreshMonitor(); in the root layout
+ */
+import { auth, events } from '@/services';
+import { subscribeForbidden } from '@/services/api';
+import { useAuthStore } from '@/store/authStore';
+import { useCompanyStore } from '@/store/companyStore';
+import { usePermissionsStore } from '@/store/permissionsStore';
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+
+// Refreshes closer together than this are skipped, so a burst of 403s fetches once (ms)
+const MIN_REFRESH_GAP = 10_000;
+// Wait before reopening the event socket after it closes (ms)
+const RECONNECT_DELAY = 30_000;
+
+let inFlight: Promise<void> | null = null;
+let lastRefreshAt = 0;
+
+/**
+ * Re-fetches the current account's permissions; screens guarded by a revoked permission re-render at once
+ * Failures keep the permissions already loaded.
+ * @param force - Refresh even if the last refresh was moments ago
+ */
+export function refreshPermissions(force = false): Promise<void> {
+  if (inFlight) {
+    return inFlight;
+  }
+  if (!force && Date.now() - lastRefreshAt < MIN_REFRESH_GAP) {
+    return Promise.resolve();
+  }
+
+  lastRefreshAt = Date.now();
+  inFlight = auth
+    .permissions()
+    .then((permissions) => usePermissionsStore.getState().setPermissions(permissions || []))
+    .catch((error) => console.warn('Failed to refresh permissions:', error))
+    .finally(() => {
+      inFlight = null;
+    });
+  return inFlight;
+}
+
+/**
+ * Refreshes permissions when the app returns to the foreground, on the configured interval,
+ * when the server reports a change over the event socket and when a request is refused with a 403
+ */
+export function usePermissionRefreshMonitor() {
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  // Permissions belong to the account chosen on SwitchAccount; the event socket reconnects when it changes
+  const companyId = useCompanyStore((state) => state.company?.id);
+  const refreshIntervalMinutes = usePermissionsStore((state) => state.refreshIntervalMinutes);
+  const isActive = isAuthenticated && !!companyId;
+
+  useEffect(() => {
+    if (!isActive) {
+      return;
+    }
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        refreshPermissions();
+      }
+    });
+    const unsubscribeForbidden = subscribeForbidden(() => refreshPermissions());
+
+    return () => {
+      subscription.remove();
+      unsubscribeForbidden();
+    };
+  }, [isActive]);
+
+  useEffect(() => {
+    if (!isActive || refreshIntervalMinutes <= 0) {
+      return;
+    }
+
+    const interval = setInterval(() => refreshPermissions(), refreshIntervalMinutes * 60_000);
+    return () => clearInterval(interval);
+  }, [isActive, refreshIntervalMinutes]);
+
+  useEffect(() => {
+    if (!isActive) {
+      return;
+    }
+
+    let ws: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let isClosed = false;
+
+    // Reads the token on each connect, since it is refreshed while the socket is open
+    const connect = () => {
+      const { token } = useAuthStore.getState();
+      ws = token ? events.openEventSocket(token) : null;
+      if (!ws) {
+        return;
+      }
+      ws.onmessage = ({ data }) => {
+        if (events.parseEvent(data)?.type === 'PERMISSIONS_CHANGED') {
+          refreshPermissions(true);
+        }
+      };
+      ws.onclose = () => {
+        if (!isClosed) {
+          reconnectTimer = setTimeout(connect, RECONNECT_DELAY);
+        }
+      };
+    };
+
+    connect();
+    return () => {
+      isClosed = true;
+      clearTimeout(reconnectTimer);
+      ws?.close();
+    };
+  }, [isActive, companyId]);
+}
@@ -0,0 +1,145 @@
+/**
+ * React bindings for the query cache
+ * Usage:
+ *   const { data: services, isLoading, error, refresh, isRefreshing } =
+ *     useQuery(queryKeys.services.list(), servicesApi.list);
+ *   Fetchers receive { signal }, which is aborted when no mounted screen needs the result:
+ *     useQuery(queryKeys.services.tags(id), ({ signal }) => servicesApi.tags(id, { signal }));
+ *   const { mutate: createPricing, isPending } =
+ *     useMutation(servicesApi.createPricing, { invalidates: [queryKeys.services.pricing(serviceId)] });
+ */
+import { ApiError } from '@/services/errors';
+import {
+  DEFAULT_STALE_TIME,
+  fetchQuery,
+  getQueryState,
+  hashQueryKey,
+  invalidateQueries,
+  isQueryStale,
+  QueryFetcher,
+  QueryKey,
+  registerQueryFetcher,
+  subscribeQuery,
+} from '@/services/queryClient';
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+
+interface UseQueryOptions {
+  /**
+   * Whether the query should fetch (default: true), e.g. false until a required id is known
+   */
+  enabled?: boolean;
+
+  /**
+   * How long cached data is served without revalidating (ms)
+   */
+  staleTime?: number;
+}
+
+/**
+ * Reads a cached query and keeps it fresh
+ * Cached data is returned immediately; stale data is revalidated in the background.
+ */
+export function useQuery<T>(key: QueryKey, fetcher: QueryFetcher<T>, options: UseQueryOptions = {}) {
+  const { enabled = true, staleTime = DEFAULT_STALE_TIME } = options;
+  const hash = hashQueryKey(key);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  // Keys and fetchers are usually recreated on every render; the key is tracked by its hash
+  // and the latest fetcher is read through a ref
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const subscribe = useCallback((listener: () => void) => subscribeQuery(JSON.parse(hash), listener), [hash]);
+  const getSnapshot = useCallback(() => getQueryState<T>(JSON.parse(hash)), [hash]);
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  const run = useCallback(
+    () => fetchQuery<T>(JSON.parse(hash), (context) => fetcherRef.current(context)),
+    [hash]
+  );
+
+  // A cleared entry has no data, error or fetch in flight
+  const isEmpty = state.updatedAt === 0 && !state.isFetching && state.error === null;
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    registerQueryFetcher<T>(JSON.parse(hash), (context) => fetcherRef.current(context));
+    if (isEmpty || isQueryStale(JSON.parse(hash), staleTime)) {
+      run().catch(() => {
+        // The error is stored on the entry and returned below
+      });
+    }
+  }, [hash, enabled, staleTime, isEmpty, run]);
+
+  /**
+   * Refetches for pull-to-refresh; only this refetch sets isRefreshing
+   */
+  const refresh = useCallback(async () => {
+    setIsRefreshing(true);
+    try {
+      await run();
+    } catch {
+      // The error is stored on the entry and returned below
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, [run]);
+
+  return {
+    data: state.data,
+    error: state.error,
+    isLoading: enabled && state.data === undefined && state.error === null,
+    isFetching: state.isFetching,
+    isRefreshing,
+    refetch: run,
+    refresh,
+  };
+}
+
+interface UseMutationOptions<TVariables, TResult> {
+  /**
+   * Query keys to invalidate after the mutation succeeds
+   */
+  invalidates?: QueryKey[] | ((result: TResult, variables: TVariables) => QueryKey[]);
+}
+
+/**
+ * Wraps a write call and invalidates the affected queries once it succeeds
+ * mutate rethrows errors so screens can keep showing their own toasts.
+ */
+export function useMutation<TVariables = void, TResult = unknown>(
+  mutationFn: (variables: TVariables) => Promise<TResult>,
+  options: UseMutationOptions<TVariables, TResult> = {}
+) {
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+
+  const mutationFnRef = useRef(mutationFn);
+  mutationFnRef.current = mutationFn;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const mutate = useCallback(async (variables: TVariables) => {
+    setIsPending(true);
+    setError(null);
+    try {
+      const result = await mutationFnRef.current(variables);
+
+      const { invalidates = [] } = optionsRef.current;
+      const keys = typeof invalidates === 'function' ? invalidates(result, variables) : invalidates;
+      keys.forEach(invalidateQueries);
+
+      return result;
+    } catch (err: any) {
+      setError(err);
+      throw err;
+    } finally {
+      setIsPending(false);
+    }
+  }, []);
+
+  return { mutate, isPending, error };
+}
@@ -0,0 +1,66 @@
+/**
+ * Hook to display an authenticated file resource
+ * Usage:
+ *   const { uri, isLoading } = useResourceUri(service.thumbNail?.systemName);
+ *   <ImageBackground source={uri ? { uri } : defaultBanner} />
+ * Prefer components/AuthImage for plain images.
+ */
+import { useAbortSignal } from '@/hooks/useAbortSignal';
+import { isAbortError } from '@/services/errors';
+import { getCachedResourceUri, loadResource } from '@/services/resources';
+import { useCallback, useEffect, useState } from 'react';
+
+/**
+ * @param systemName - System name of the file, or nothing while it is not known
+ * @returns The URI of the loaded file, or null while loading, on failure or without a file
+ */
+export function useResourceUri(systemName?: string | null) {
+  const [uri, setUri] = useState<string | null>(() => (systemName ? getCachedResourceUri(systemName) : null));
+  const [isLoading, setIsLoading] = useState(() => Boolean(systemName) && !getCachedResourceUri(systemName!));
+  const [hasFailed, setHasFailed] = useState(false);
+  const getSignal = useAbortSignal();
+
+  useEffect(() => {
+    setHasFailed(false);
+    const cachedUri = systemName ? getCachedResourceUri(systemName) : null;
+    setUri(cachedUri);
+    setIsLoading(Boolean(systemName) && !cachedUri);
+    if (!systemName || cachedUri) {
+      return;
+    }
+
+    let isCurrent = true;
+    loadResource(systemName, { signal: getSignal() })
+      .then((loadedUri) => {
+        if (isCurrent) {
+          setUri(loadedUri);
+        }
+      })
+      .catch((err) => {
+        if (isAbortError(err) || !isCurrent) {
+          return;
+        }
+        console.error('Failed to load resource:', err);
+        setHasFailed(true);
+      })
+      .finally(() => {
+        if (isCurrent) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [systemName, getSignal]);
+
+  /**
+   * Marks the file as failed, e.g. when the image cannot decode it
+   */
+  const markFailed = useCallback(() => {
+    setUri(null);
+    setHasFailed(true);
+  }, []);
+
+  return { uri, isLoading, hasFailed, markFailed };
+}
@@ -0,0 +1,31 @@
+/**
+ * React bindings for i18n
+ */
+import { getLanguage, getLocale, LANGUAGES, translate, TranslationKey, TranslationParams } from '@/i18n';
+import { useLocaleStore } from '@/store/localeStore';
+import { useCallback } from 'react';
+
+/**
+ * Translation function bound to the active language
+ * Components re-render with the new strings when the language changes.
+ * Usage: const { t } = useTranslation(); <Text>{t('profile.title')}</Text>
+ */
+export function useTranslation() {
+  // Subscribing re-renders on a change; the language itself is resolved with the device fallback
+  const selectedLanguage = useLocaleStore((state) => state.language);
+  const language = getLanguage();
+
+  const t = useCallback(
+    (key: TranslationKey, params?: TranslationParams) => translate(language, key, params),
+    [language]
+  );
+
+  return {
+    t,
+    language,
+    /** Language picked in Profile, or null when following the device */
+    selectedLanguage,
+    locale: getLocale(),
+    isRTL: LANGUAGES[language].rtl,
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Hooks to observe the upload queue
+ * Usage:
+ *   const taskId = enqueueUpload(asset);
+ *   const task = useUpload(taskId);
+ *   task?.status === 'uploading' && <ProgressBar progress={task.progress} />
+ */
+import { UploadTask, useUploadStore } from '@/store/uploadStore';
+import { useMemo } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+
+/**
+ * An upload task, or undefined once it has been cancelled
+ */
+export function useUpload(taskId: string | null | undefined): UploadTask | undefined {
+  return useUploadStore((state) => (taskId ? state.tasks[taskId] : undefined));
+}
+
+/**
+ * Upload tasks in queue order, e.g. for a global uploads indicator
+ * @param taskIds - Only return these tasks (default: every task)
+ */
+export function useUploads(taskIds?: string[]): UploadTask[] {
+  const tasks = useUploadStore(
+    useShallow((state) =>
+      taskIds ? taskIds.map((id) => state.tasks[id]).filter(Boolean) : Object.values(state.tasks)
+    )
+  );
+  return useMemo(() => [...tasks].sort((a, b) => a.createdAt - b.createdAt), [tasks]);
+}
+
+/**
+ * Upload tasks of a form field in queue order, including completed ones it has not released yet
+ * @param target - Form field the uploads were started for (see UPLOAD_TARGETS)
+ */
+export function useUploadsFor(target: string | null | undefined): UploadTask[] {
+  const tasks = useUploadStore(
+    useShallow((state) => (target ? Object.values(state.tasks).filter((task) => task.target === target) : []))
+  );
+  return useMemo(() => [...tasks].sort((a, b) => a.createdAt - b.createdAt), [tasks]);
+}
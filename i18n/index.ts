@@ -0,0 +1,132 @@
+/**
+ * Translations
+ * Strings are looked up by key in the active language's catalog (i18n/locales), falling back to English for
+ * keys a catalog does not have yet. The active language is the one picked in Profile, else the device language
+ * when it is supported, else English. It also sets the locale of dates and numbers (utils/date.ts,
+ * utils/number.ts), the API path prefix (services/api.ts) and the layout direction.
+ * React bindings live in hooks/useTranslation.ts.
+ */
+import { useLocaleStore } from '@/store/localeStore';
+import { reloadAppAsync } from 'expo';
+import { getLocales } from 'expo-localization';
+import { I18nManager } from 'react-native';
+import { DEFAULT_LANGUAGE, isSupportedLanguage, Language, LANGUAGES } from './languages';
+import ar from './locales/ar';
+import en from './locales/en';
+import sw from './locales/sw';
+import { PartialCatalog, TranslationKey, TranslationParams } from './types';
+
+export * from './languages';
+export type { TranslationKey, TranslationParams } from './types';
+
+const catalogs: Record<Language, PartialCatalog> = { en, sw, ar };
+
+const getDeviceLocale = () => getLocales()[0] ?? null;
+
+/**
+ * Language strings are shown in
+ */
+export function getLanguage(): Language {
+  const selected = useLocaleStore.getState().language;
+  if (selected) {
+    return selected;
+  }
+  const deviceLanguage = getDeviceLocale()?.languageCode;
+  return isSupportedLanguage(deviceLanguage) ? deviceLanguage : DEFAULT_LANGUAGE;
+}
+
+/**
+ * BCP 47 locale dates and numbers are formatted with
+ * Follows the device's region when the device language is the active language, e.g. en-GB.
+ */
+export function getLocale(): string {
+  const language = getLanguage();
+  const device = getDeviceLocale();
+  return device?.languageCode === language ? device.languageTag : LANGUAGES[language].locale;
+}
+
+/**
+ * Language segment endpoints are prefixed with, e.g. "en" in /en/on/services
+ */
+export const getApiPrefix = () => LANGUAGES[getLanguage()].apiPrefix;
+
+function lookup(catalog: PartialCatalog, key: string): string | undefined {
+  const value = key.split('.').reduce<any>((node, segment) => node?.[segment], catalog);
+  return typeof value === 'string' ? value : undefined;
+}
+
+function getPluralCategory(language: Language, count: number): string {
+  try {
+    return new Intl.PluralRules(LANGUAGES[language].locale).select(count);
+  } catch {
+    return count === 1 ? 'one' : 'other';
+  }
+}
+
+/**
+ * Translates a key in the given language; see t
+ */
+export function translate(language: Language, key: TranslationKey, params?: TranslationParams): string {
+  const candidates =
+    typeof params?.count === 'number'
+      ? [`${key}_${getPluralCategory(language, params.count)}`, `${key}_other`, key]
+      : [key];
+
+  let text: string | undefined;
+  for (const catalog of [catalogs[language], en]) {
+    for (const candidate of candidates) {
+      text = lookup(catalog, candidate);
+      if (text !== undefined) {
+        break;
+      }
+    }
+    if (text !== undefined) {
+      break;
+    }
+  }
+
+  if (text === undefined) {
+    if (__DEV__) {
+      console.warn(`Missing translation: ${key}`);
+    }
+    return key;
+  }
+
+  return params ? text.replace(/\{\{(\w+)\}\}/g, (match, name: string) => String(params[name] ?? match)) : text;
+}
+
+/**
+ * Translates a key in the active language
+ * Placeholders such as {{name}} are filled from params; a numeric `count` param picks the plural form.
+ * For use outside components (alerts raised from services, validation); components use useTranslation
+ * so they re-render when the language changes.
+ * @example t('home.greeting', { name: 'Amina' })
+ */
+export const t = (key: TranslationKey, params?: TranslationParams) => translate(getLanguage(), key, params);
+
+/**
+ * Whether a string is a catalog key, e.g. a validation message stored as a key
+ */
+export const isTranslationKey = (value: string): value is TranslationKey => lookup(en, value) !== undefined;
+
+/**
+ * Sets the native layout direction for the active language
+ * React Native only applies a direction change after the app restarts.
+ * @returns Whether the app has to restart to show the new direction
+ */
+export function applyLayoutDirection(): boolean {
+  const isRTL = LANGUAGES[getLanguage()].rtl;
+  I18nManager.allowRTL(isRTL);
+  I18nManager.forceRTL(isRTL);
+  return I18nManager.isRTL !== isRTL;
+}
+
+/**
+ * Restarts the app so a layout direction change takes effect
+ */
+export const restartForLayoutDirection = () => reloadAppAsync('Layout direction changed');
+
+useLocaleStore.persist.onFinishHydration(applyLayoutDirection);
+if (useLocaleStore.persist.hasHydrated()) {
+  applyLayoutDirection();
+}
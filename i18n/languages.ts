@@ -0,0 +1,37 @@
+/**
+ * Languages the app is translated into
+ */
+
+export const LANGUAGES = {
+  en: {
+    name: 'English',
+    /** Locale used for dates and numbers */
+    locale: 'en-KE',
+    /**
+     * Segment endpoints are prefixed with, e.g. /en/on/services
+     * Only the en routes are confirmed on the server; the other languages use them too and ask for
+     * their language through Accept-Language until the server's /sw/ and /ar/ routes are confirmed.
+     */
+    apiPrefix: 'en',
+    rtl: false,
+  },
+  sw: {
+    name: 'Kiswahili',
+    locale: 'sw-KE',
+    apiPrefix: 'en',
+    rtl: false,
+  },
+  ar: {
+    name: 'العربية',
+    locale: 'ar',
+    apiPrefix: 'en',
+    rtl: true,
+  },
+} as const;
+
+export type Language = keyof typeof LANGUAGES;
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export const isSupportedLanguage = (code: string | null | undefined): code is Language =>
+  !!code && Object.prototype.hasOwnProperty.call(LANGUAGES, code);
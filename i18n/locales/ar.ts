@@ -0,0 +1,1199 @@
+/**
+ * Arabic catalog
+ * Laid out right to left; see applyLayoutDirection in i18n/index.ts.
+ */
+import type { PartialCatalog } from '../types';
+
+const ar: PartialCatalog = {
+  common: {
+    cancel: 'إلغاء',
+    ok: 'حسنًا',
+    retry: 'إعادة المحاولة',
+    discard: 'تجاهل',
+    later: 'لاحقًا',
+    user: 'مستخدم',
+    notSelected: 'غير محدد',
+    notAvailable: 'غير متوفر',
+    never: 'أبدًا',
+    invalidDate: 'تاريخ غير صالح',
+    selectOption: 'اختر خيارًا',
+    viewAll: 'عرض الكل',
+    unlimited: 'غير محدود',
+    expired: 'منتهي',
+    private: 'خاص',
+    error: 'خطأ',
+    goBack: 'رجوع',
+    active: 'نشط',
+    inactive: 'غير نشط',
+    verified: 'موثق',
+    notVerified: 'غير موثق',
+    yes: 'نعم',
+    no: 'لا',
+    created: 'تاريخ الإنشاء',
+    lastUpdated: 'آخر تحديث',
+    metadata: 'البيانات الوصفية',
+    description: 'الوصف',
+  },
+  auth: {
+    logoutTitle: 'تسجيل الخروج',
+    logoutMessage: 'هل أنت متأكد أنك تريد تسجيل الخروج؟',
+    logout: 'تسجيل الخروج',
+    unsyncedChanges_one: 'لم يُرسل تغيير واحد أُجري دون اتصال بعد. سيُحذف عند تسجيل الخروج.',
+    unsyncedChanges_two: 'لم يُرسل تغييران أُجريا دون اتصال بعد. سيُحذفان عند تسجيل الخروج.',
+    unsyncedChanges_few: 'لم تُرسل {{count}} تغييرات أُجريت دون اتصال بعد. ستُحذف عند تسجيل الخروج.',
+    unsyncedChanges_many: 'لم يُرسل {{count}} تغييرًا أُجري دون اتصال بعد. ستُحذف عند تسجيل الخروج.',
+    unsyncedChanges_other: 'لم يُرسل {{count}} تغيير أُجري دون اتصال بعد. ستُحذف عند تسجيل الخروج.',
+  },
+  tabs: {
+    home: 'الرئيسية',
+    services: 'الخدمات',
+    branches: 'الفروع',
+    chats: 'المحادثات',
+    profile: 'الملف الشخصي',
+  },
+  home: {
+    greeting: 'مرحبًا، {{name}}',
+    goodMorning: 'صباح الخير',
+    goodAfternoon: 'مساء الخير',
+    goodEvening: 'مساء الخير',
+    incoming: 'الواردة',
+    pendingRequests: 'طلبات معلقة',
+    ongoing: 'الجارية',
+    activeRequests: 'طلبات نشطة',
+    subscription: 'الاشتراك',
+    datePurchased: 'تاريخ الشراء',
+    dateOfExpiry: 'تاريخ الانتهاء',
+    neverExpires: 'لا ينتهي',
+    servicesAnalysis: 'تحليل الخدمات',
+    subscriptionPlans: 'خطط الاشتراك',
+    subscriptionPlansSubtitle: 'اعرض خططك وأدرها',
+    quickActions: 'إجراءات سريعة',
+    recentServices: 'أحدث الخدمات',
+    noServices: 'لا توجد خدمات متاحة',
+    actions: {
+      finance: 'المالية',
+      members: 'الأعضاء',
+      branches: 'الفروع',
+      history: 'السجل',
+      invoices: 'الفواتير',
+      plans: 'الخطط',
+    },
+  },
+  profile: {
+    title: 'الملف الشخصي',
+    idNumber: 'رقم الهوية: {{number}}',
+    standardMember: 'عضو عادي',
+    company: 'الشركة',
+    activeBranch: 'الفرع النشط',
+    branchEmail: 'بريد الفرع',
+    email: 'البريد الإلكتروني',
+    phone: 'الهاتف',
+    settings: 'الإعدادات',
+    updateProfile: 'تحديث الملف الشخصي',
+    changePassword: 'تغيير كلمة المرور',
+    appLock: 'قفل التطبيق',
+    twoStepVerification: 'التحقق بخطوتين',
+    sessions: 'الأجهزة والجلسات',
+    notifications: 'الإشعارات',
+    privacyPolicy: 'سياسة الخصوصية',
+    language: 'اللغة',
+    deviceLanguage: 'لغة الجهاز',
+    restartTitle: 'يلزم إعادة التشغيل',
+    restartMessage: 'يجب إعادة تشغيل التطبيق لتغيير اتجاه التخطيط.',
+    restartNow: 'أعد التشغيل الآن',
+  },
+  login: {
+    title: 'سجّل الدخول',
+    subtitle: 'مرحبًا بعودتك، لقد افتقدناك',
+    username: 'اسم المستخدم',
+    usernamePlaceholder: 'username@email.com',
+    password: 'كلمة المرور',
+    passwordPlaceholder: '8 أحرف / حرف كبير واحد',
+    forgotPassword: 'نسيت كلمة المرور؟',
+    signIn: 'تسجيل الدخول',
+    invalidResponse: 'استجابة غير صالحة من الخادم. يرجى المحاولة مرة أخرى.',
+    failed: 'فشل تسجيل الدخول. يرجى التحقق من بياناتك والمحاولة مرة أخرى.',
+    demoTitle: 'الوضع التجريبي',
+    demoActive: 'بيانات تجريبية دون الحاجة إلى خادم. سجّل الدخول بأي اسم مستخدم وكلمة مرور.',
+    demoInactive: 'استخدم بيانات تجريبية بدلًا من الخادم',
+    sessionRevoked: 'تم تسجيل خروج هذا الجهاز من جلسة أخرى. سجّل الدخول مرة أخرى للمتابعة.',
+    sessionExpired: 'انتهت صلاحية جلستك. يرجى تسجيل الدخول مرة أخرى.',
+  },
+  changePassword: {
+    title: 'تغيير كلمة المرور',
+    subtitle: 'أدخل كلمة المرور الجديدة. تأكد من أنها قوية وآمنة.',
+    newPassword: 'كلمة المرور الجديدة',
+    newPasswordPlaceholder: 'أدخل كلمة المرور الجديدة',
+    confirmPassword: 'تأكيد كلمة المرور',
+    confirmPasswordPlaceholder: 'أكّد كلمة المرور الجديدة',
+    failed: 'تعذّر تغيير كلمة المرور. يرجى المحاولة مرة أخرى.',
+    successTitle: 'تم تحديث كلمة المرور',
+    successMessage: 'تم تحديث كلمة المرور بنجاح. سيتم تسجيل خروجك لأسباب أمنية.',
+  },
+  forgotPassword: {
+    title: 'نسيت كلمة المرور',
+    subtitle: 'أدخل البريد الإلكتروني المرتبط بحسابك وسنرسل إليك رمزًا لإعادة تعيين كلمة المرور.',
+    email: 'البريد الإلكتروني',
+    emailPlaceholder: 'username@email.com',
+    submit: 'إرسال الرمز',
+    failed: 'تعذّر إرسال الرمز. يرجى المحاولة مرة أخرى.',
+  },
+  resetPassword: {
+    codeTitle: 'تحقق من بريدك الإلكتروني',
+    codeSubtitle: 'أدخل الرمز المكوّن من 6 أرقام المرسل إلى {{email}}، أو افتح الرابط في البريد على هذا الجهاز.',
+    code: 'رمز إعادة التعيين',
+    codePlaceholder: 'رمز من 6 أرقام',
+    verify: 'تحقق من الرمز',
+    verifyFailed: 'تعذّر التحقق من الرمز. يرجى المحاولة مرة أخرى.',
+    resend: 'إعادة إرسال الرمز',
+    resendIn: 'إعادة إرسال الرمز بعد {{seconds}} ث',
+    resent: 'رمز جديد في الطريق إليك.',
+    demoCode: 'الوضع التجريبي: الرمز هو {{code}}',
+    title: 'تعيين كلمة مرور جديدة',
+    subtitle: 'اختر كلمة مرور جديدة لحسابك. سيتم تسجيل دخولك بعد حفظها.',
+    submit: 'حفظ وتسجيل الدخول',
+    failed: 'تعذّرت إعادة تعيين كلمة المرور. يرجى المحاولة مرة أخرى.',
+  },
+  passwordStrength: {
+    weak: 'ضعيفة',
+    fair: 'مقبولة',
+    good: 'جيدة',
+    strong: 'قوية',
+    rules: {
+      length: '8 أحرف على الأقل',
+      uppercase: 'حرف كبير واحد',
+      lowercase: 'حرف صغير واحد',
+      number: 'رقم واحد',
+    },
+  },
+  twoFactor: {
+    title: 'التحقق بخطوتين',
+    statusOn: 'التحقق بخطوتين مفعّل',
+    statusOff: 'التحقق بخطوتين غير مفعّل',
+    offDescription: 'احمِ حسابك برمز من تطبيق المصادقة في كل مرة تسجّل فيها الدخول.',
+    backupCodesRemaining_zero: 'لم يتبقَّ أي رمز احتياطي',
+    backupCodesRemaining_one: 'تبقّى رمز احتياطي واحد',
+    backupCodesRemaining_two: 'تبقّى رمزان احتياطيان',
+    backupCodesRemaining_few: 'تبقّت {{count}} رموز احتياطية',
+    backupCodesRemaining_many: 'تبقّى {{count}} رمزًا احتياطيًا',
+    backupCodesRemaining_other: 'تبقّى {{count}} رمز احتياطي',
+    loadFailed: 'تعذّر تحميل إعدادات التحقق بخطوتين.',
+    setUp: 'إعداد',
+    enrollFailed: 'تعذّر بدء الإعداد. يرجى المحاولة مرة أخرى.',
+    scanSubtitle: 'امسح رمز QR هذا باستخدام تطبيق مصادقة مثل Google Authenticator أو Microsoft Authenticator، ثم أدخل الرمز الذي يظهره.',
+    manualEntry: 'لا يمكنك المسح؟ أدخل هذا المفتاح في التطبيق:',
+    secretCopiedTitle: 'تم النسخ',
+    secretCopiedMessage: 'تم نسخ مفتاح الإعداد إلى الحافظة.',
+    code: 'رمز التحقق',
+    codePlaceholder: 'رمز من 6 أرقام',
+    demoCode: 'الوضع التجريبي: الرمز الحالي هو {{code}}',
+    confirm: 'تحقق وفعّل',
+    confirmFailed: 'تعذّر التحقق من الرمز. يرجى المحاولة مرة أخرى.',
+    regenerate: 'الحصول على رموز احتياطية جديدة',
+    regenerateSubtitle: 'أدخل كلمة المرور لاستبدال رموزك الاحتياطية. ستتوقف الرموز القديمة عن العمل.',
+    regenerateFailed: 'تعذّر إنشاء رموز احتياطية جديدة. يرجى المحاولة مرة أخرى.',
+    disable: 'إيقاف',
+    disableSubtitle: 'أدخل كلمة المرور لإيقاف التحقق بخطوتين. سيتطلب تسجيل الدخول كلمة المرور فقط.',
+    disableFailed: 'تعذّر إيقاف التحقق بخطوتين. يرجى المحاولة مرة أخرى.',
+    disabledTitle: 'تم إيقاف التحقق بخطوتين',
+    disabledMessage: 'لم تعد رموزك الاحتياطية صالحة.',
+    password: 'كلمة المرور',
+    passwordPlaceholder: 'أدخل كلمة المرور',
+    challengeTitle: 'التحقق بخطوتين',
+    challengeSubtitle: 'أدخل الرمز المكوّن من 6 أرقام من تطبيق المصادقة.',
+    backupSubtitle: 'أدخل أحد رموزك الاحتياطية. كل رمز يعمل مرة واحدة.',
+    backupCode: 'رمز احتياطي',
+    backupCodePlaceholder: 'xxxx-xxxx',
+    useBackupCode: 'استخدم رمزًا احتياطيًا بدلًا من ذلك',
+    useAuthenticator: 'استخدم تطبيق المصادقة بدلًا من ذلك',
+    verify: 'تحقق',
+    verifyFailed: 'تعذّر التحقق من الرمز. يرجى المحاولة مرة أخرى.',
+    backToSignIn: 'العودة إلى تسجيل الدخول',
+  },
+  backupCodes: {
+    title: 'احفظ رموزك الاحتياطية',
+    subtitle: 'إذا فقدت هاتفك، يتيح لك كل رمز تسجيل الدخول مرة واحدة. احفظها في مكان آمن؛ لن تظهر مرة أخرى.',
+    fileHeader: 'الرموز الاحتياطية للتحقق بخطوتين في Diracks. يمكن استخدام كل رمز مرة واحدة.',
+    copy: 'نسخ',
+    download: 'تنزيل',
+    share: 'مشاركة',
+    copiedTitle: 'تم النسخ',
+    copiedMessage: 'تم نسخ الرموز الاحتياطية إلى الحافظة.',
+    savedTitle: 'تم الحفظ',
+    savedMessage: 'تم حفظ الرموز الاحتياطية كملف نصي.',
+    done: 'تم',
+  },
+  appLock: {
+    title: 'قفل التطبيق',
+    description: 'اطلب رمز PIN على هذا الجهاز عند العودة إلى التطبيق وقبل الإجراءات الحساسة.',
+    statusOn: 'قفل التطبيق مفعّل',
+    statusOff: 'قفل التطبيق غير مفعّل',
+    setUp: 'إعداد رمز PIN',
+    createPin: 'أنشئ رمز PIN',
+    createPinSubtitle: 'اختر رمز PIN من {{length}} أرقام لهذا الجهاز.',
+    confirmPin: 'أكّد رمز PIN',
+    confirmPinSubtitle: 'أدخل رمز PIN نفسه مرة أخرى.',
+    pinMismatch: 'رمزا PIN غير متطابقين. يرجى البدء من جديد.',
+    biometrics: {
+      face: 'Face ID',
+      fingerprint: 'بصمة الإصبع',
+      iris: 'بصمة القزحية',
+    },
+    unlockWith: 'فتح القفل باستخدام {{method}}',
+    biometricsUnavailable: 'لا توجد بيانات حيوية مُعدّة على هذا الجهاز.',
+    biometricPrompt: 'فتح قفل Diracks',
+    lockOnBackground: 'القفل عند مغادرة التطبيق',
+    lockOnBackgroundHint: 'القفل فور انتقال التطبيق إلى الخلفية.',
+    autoLock: 'القفل التلقائي بعد عدم النشاط',
+    afterMinutes_zero: 'فورًا',
+    afterMinutes_one: 'بعد دقيقة واحدة',
+    afterMinutes_two: 'بعد دقيقتين',
+    afterMinutes_few: 'بعد {{count}} دقائق',
+    afterMinutes_many: 'بعد {{count}} دقيقة',
+    afterMinutes_other: 'بعد {{count}} دقيقة',
+    changePin: 'تغيير رمز PIN',
+    changePinReason: 'أدخل رمز PIN الحالي لتغييره',
+    turnOff: 'إيقاف قفل التطبيق',
+    turnOffReason: 'أدخل رمز PIN لإيقاف قفل التطبيق',
+    lockedTitle: 'Diracks مقفل',
+    confirmTitle: 'أكّد هويتك',
+    enterPin: 'أدخل رمز PIN',
+    usePin: 'استخدام رمز PIN',
+    useBiometrics: 'فتح القفل بالبيانات الحيوية',
+    lockedOut: 'محاولات خاطئة كثيرة. حاول مرة أخرى بعد {{seconds}} ثانية.',
+    wrongPin_zero: 'رمز PIN خاطئ. لم تتبقَّ أي محاولة.',
+    wrongPin_one: 'رمز PIN خاطئ. تبقّت محاولة واحدة.',
+    wrongPin_two: 'رمز PIN خاطئ. تبقّت محاولتان.',
+    wrongPin_few: 'رمز PIN خاطئ. تبقّت {{count}} محاولات.',
+    wrongPin_many: 'رمز PIN خاطئ. تبقّت {{count}} محاولة.',
+    wrongPin_other: 'رمز PIN خاطئ. تبقّت {{count}} محاولة.',
+    wrongPinFinal: 'رمز PIN خاطئ.',
+    forgotPin: 'نسيت رمز PIN؟ تسجيل الخروج',
+    signOutTitle: 'تسجيل الخروج',
+    signOutMessage: 'يؤدي تسجيل الخروج إلى إزالة قفل التطبيق من هذا الجهاز. يمكنك تعيين رمز PIN جديد بعد تسجيل الدخول مرة أخرى.',
+    deleteDigit: 'حذف رقم',
+  },
+  sessions: {
+    title: 'الأجهزة والجلسات',
+    subtitle: 'الأجهزة التي سُجّل الدخول فيها إلى حسابك. سجّل خروج أي جهاز لا تعرفه أو لم تعد تستخدمه.',
+    thisDevice: 'هذا الجهاز',
+    platforms: {
+      ios: 'iOS',
+      android: 'Android',
+      web: 'الويب',
+    },
+    branch: 'الفرع: {{branch}}',
+    noBranch: 'لم يتم اختيار فرع',
+    activeNow: 'نشط الآن',
+    lastSeen: 'آخر ظهور {{time}}',
+    signedIn: 'سجّل الدخول في {{date}}',
+    revoke: 'تسجيل الخروج',
+    revokeTitle: 'تسجيل خروج الجهاز',
+    revokeMessage: 'تسجيل خروج "{{device}}"؟ سيحتاج إلى تسجيل الدخول مرة أخرى.',
+    revokeFailed: 'تعذّر تسجيل خروج الجهاز',
+    revokeOthers: 'تسجيل خروج جميع الأجهزة الأخرى',
+    revokeOthersTitle: 'تسجيل خروج الأجهزة الأخرى',
+    revokeOthersMessage_zero: 'لا توجد أجهزة أخرى لتسجيل خروجها.',
+    revokeOthersMessage_one: 'تسجيل خروج جهاز آخر واحد؟ سيبقى هذا الجهاز فقط مسجّل الدخول.',
+    revokeOthersMessage_two: 'تسجيل خروج جهازين آخرين؟ سيبقى هذا الجهاز فقط مسجّل الدخول.',
+    revokeOthersMessage_few: 'تسجيل خروج {{count}} أجهزة أخرى؟ سيبقى هذا الجهاز فقط مسجّل الدخول.',
+    revokeOthersMessage_many: 'تسجيل خروج {{count}} جهازًا آخر؟ سيبقى هذا الجهاز فقط مسجّل الدخول.',
+    revokeOthersMessage_other: 'تسجيل خروج {{count}} جهاز آخر؟ سيبقى هذا الجهاز فقط مسجّل الدخول.',
+    noOtherSessions: 'لم تسجّل الدخول على أي جهاز آخر.',
+    loadFailed: 'تعذّر تحميل جلساتك.',
+  },
+  permissions: {
+    insufficientTitle: 'صلاحيات غير كافية',
+    insufficientMessage: 'ليس لديك صلاحية لعرض هذه الشاشة. اطلب الوصول من المسؤول.',
+    goBack: 'رجوع',
+    noChanges: 'لا توجد تغييرات',
+  },
+  bookingAlerts: {
+    created: 'طلب جديد',
+    cancelled: 'تم إلغاء الطلب',
+    confirmed: 'أكد العميل الطلب',
+    message: '{{service}} من {{customer}}',
+    more: '+{{count}} أخرى',
+  },
+  roleTemplates: {
+    title: 'قوالب الأدوار',
+    subtitle:
+      'تطبيق قالب يستبدل صلاحيات الموظف بصلاحيات القالب. أعد مزامنة القالب بعد تغييره لتحديث كل من طُبّق عليه.',
+    empty: 'لا توجد قوالب أدوار بعد',
+    loadFailed: 'تعذّر تحميل القوالب. يرجى المحاولة مرة أخرى.',
+    unknownStaff: 'موظف غير معروف',
+    permissionCount_zero: 'لا صلاحيات',
+    permissionCount_one: 'صلاحية واحدة',
+    permissionCount_two: 'صلاحيتان',
+    permissionCount_few: '{{count}} صلاحيات',
+    permissionCount_many: '{{count}} صلاحية',
+    permissionCount_other: '{{count}} صلاحية',
+    staffCount_zero: 'لا موظفين',
+    staffCount_one: 'موظف واحد',
+    staffCount_two: 'موظفان',
+    staffCount_few: '{{count}} موظفين',
+    staffCount_many: '{{count}} موظفًا',
+    staffCount_other: '{{count}} موظف',
+    edit: 'تعديل',
+    resync: 'إعادة المزامنة',
+    delete: 'حذف',
+    newTemplate: 'قالب جديد',
+    editTemplate: 'تعديل القالب',
+    name: 'الاسم',
+    namePlaceholder: 'مثال: الاستقبال',
+    nameRequired: 'الاسم مطلوب',
+    description: 'الوصف',
+    descriptionPlaceholder: 'ما الذي يفعله هذا الدور',
+    permissionsLabel: 'الصلاحيات ({{count}})',
+    save: 'حفظ',
+    created: 'تم إنشاء القالب بنجاح',
+    updated: 'تم تحديث القالب بنجاح',
+    saveFailed: 'تعذّر حفظ القالب. يرجى المحاولة مرة أخرى.',
+    deleteTitle: 'حذف القالب',
+    deleteMessage: 'حذف "{{name}}"؟ سيحتفظ الموظفون بالصلاحيات التي لديهم.',
+    deleted: 'تم حذف القالب بنجاح',
+    deleteFailed: 'تعذّر حذف القالب. يرجى المحاولة مرة أخرى.',
+    loadPermissionsFailed: 'تعذّر تحميل صلاحيات الموظفين. يرجى المحاولة مرة أخرى.',
+    resyncTitle: 'إعادة مزامنة {{name}}',
+    applyTo_zero: 'تطبيق على {{count}} موظف',
+    applyTo_one: 'تطبيق على موظف واحد',
+    applyTo_two: 'تطبيق على موظفَين',
+    applyTo_few: 'تطبيق على {{count}} موظفين',
+    applyTo_many: 'تطبيق على {{count}} موظفًا',
+    applyTo_other: 'تطبيق على {{count}} موظف',
+    applied_zero: 'تم تطبيق {{name}} على {{count}} موظف',
+    applied_one: 'تم تطبيق {{name}} على موظف واحد',
+    applied_two: 'تم تطبيق {{name}} على موظفَين',
+    applied_few: 'تم تطبيق {{name}} على {{count}} موظفين',
+    applied_many: 'تم تطبيق {{name}} على {{count}} موظفًا',
+    applied_other: 'تم تطبيق {{name}} على {{count}} موظف',
+    applyFailed: 'تعذّر تطبيق القالب. يرجى المحاولة مرة أخرى.',
+  },
+  staffPermissions: {
+    applyTemplate: 'تطبيق قالب',
+    makeMatch: 'مطابقة الصلاحيات…',
+    matchTitle: 'مطابقة الصلاحيات…',
+    matchWith: 'مطابقة {{name}}',
+    searchStaff: 'ابحث عن الموظفين...',
+    loadingStaff: 'جارٍ تحميل الموظفين...',
+    noStaff: 'لم يتم العثور على موظفين',
+    loadStaffFailed: 'تعذّر تحميل الموظفين. يرجى المحاولة مرة أخرى.',
+    loadPermissionsFailed: 'تعذّر تحميل الصلاحيات. يرجى المحاولة مرة أخرى.',
+    apply: 'تطبيق',
+    matched: 'أصبحت الصلاحيات مطابقة لصلاحيات {{name}}',
+    someFailedTitle: 'فشلت بعض التغييرات',
+    someFailedMessage: 'تم تطبيق {{applied}} من {{total}} تغييرات. فشلت التغييرات التالية:',
+    notInOrganization: 'ليست صلاحية في هذه المؤسسة',
+    updateFailed: 'تعذّر تحديث الصلاحيات. يرجى المحاولة مرة أخرى.',
+    loadAccountFailed: 'تعذر تحميل الحساب. يرجى المحاولة مرة أخرى.',
+    accountIdNotFound: 'لم يتم العثور على معرف الحساب',
+    assigned: 'تم تعيين الصلاحيات بنجاح',
+    assignFailed: 'تعذر تعيين الصلاحيات. يرجى المحاولة مرة أخرى.',
+    permissionNotFound: 'لم يتم العثور على الصلاحية',
+    removeTitle: 'إزالة الصلاحية',
+    removeMessage: 'هل أنت متأكد من إزالة "{{name}}"؟',
+    remove: 'إزالة',
+    removed: 'تمت إزالة الصلاحية بنجاح',
+    removeFailed: 'تعذر إزالة الصلاحية. يرجى المحاولة مرة أخرى.',
+    permissionLoadFailed: 'تعذر تحميل تفاصيل الصلاحية. يرجى المحاولة مرة أخرى.',
+    templateApplied: 'تم تطبيق {{name}} بنجاح',
+    loadingPermissions: 'جارٍ تحميل الصلاحيات...',
+    noPermissions: 'لا توجد صلاحيات معينة',
+    assignTitle: 'تعيين الصلاحيات',
+    searchPermissions: 'ابحث في الصلاحيات...',
+    noAvailable: 'لا توجد صلاحيات متاحة',
+    noResults: 'لم يتم العثور على صلاحيات',
+    loadingTemplates: 'جارٍ تحميل القوالب...',
+    assign: 'تعيين ({{count}})',
+  },
+  incomingRequest: {
+    checkStatusFailed: 'تعذّر التحقق من الحالة. يرجى المحاولة مرة أخرى.',
+    acceptRequest: 'قبول الطلب',
+    acceptMessage: 'هل أنت متأكد من قبول طلب الخدمة هذا؟ سيتم إشعار العميل وانتظار تأكيده.',
+    accept: 'قبول',
+    accepted: 'تم قبول الطلب بنجاح. بانتظار تأكيد العميل.',
+    acceptFailed: 'تعذّر قبول الطلب. يرجى المحاولة مرة أخرى.',
+    cancelAcceptTitle: 'إلغاء قبول الطلب',
+    cancelAcceptMessage: 'هل أنت متأكد من إلغاء قبول الطلب؟ لا يمكن التراجع عن هذا الإجراء.',
+    no: 'لا',
+    yesCancel: 'نعم، إلغاء',
+    acceptCancelled: 'تم إلغاء قبول الطلب بنجاح.',
+    cancelFailed: 'تعذّر إلغاء الطلب. يرجى المحاولة مرة أخرى.',
+    completeOrder: 'إكمال الطلب',
+    completeMessage: 'هل أنت متأكد من إكمال هذا الطلب؟ لا يمكن التراجع عن هذا الإجراء.',
+    complete: 'إكمال',
+    completeLabel: 'إكمال الطلب {{code}}',
+    completeQueued: 'أنت غير متصل. سيُكمل الطلب عند عودتك إلى الإنترنت.',
+    completed: 'تم إكمال الطلب بنجاح',
+    completeFailed: 'تعذّر إكمال الطلب. يرجى المحاولة مرة أخرى.',
+    checkingStatus: 'جارٍ التحقق من الحالة...',
+    customerAccepted: 'قبل العميل طلبك!',
+    waitingForCustomer: 'بانتظار قبول العميل',
+    publishInvoicesFirst: 'يرجى نشر جميع الفواتير قبل إكمال الطلب',
+    completionWaiting: 'الإكمال بانتظار المزامنة',
+    completionFailed: 'تعذّرت مزامنة الإكمال: {{error}}',
+    orderCompleted: 'اكتمل الطلب',
+    orderCompletedMessage: 'تم إكمال هذا الطلب بنجاح.',
+    requestInformation: 'معلومات الطلب',
+    bookCode: 'رمز الحجز',
+    bookedDate: 'تاريخ الحجز',
+    acceptedDate: 'تاريخ القبول',
+    description: 'الوصف',
+    serviceInformation: 'معلومات الخدمة',
+    serviceName: 'اسم الخدمة',
+    serviceMode: 'نوع الخدمة',
+    serviceDescription: 'وصف الخدمة',
+    customerInformation: 'معلومات العميل',
+    name: 'الاسم',
+    country: 'الدولة',
+    userNumber: 'رقم المستخدم',
+    branchInformation: 'معلومات الفرع',
+    branchName: 'اسم الفرع',
+    location: 'الموقع',
+    email: 'البريد الإلكتروني',
+    contact: 'جهة الاتصال',
+    acceptStatus: 'حالة القبول',
+    statusAccepted: 'مقبول',
+    statusCustomerCancelled: 'ألغاه العميل',
+    statusCancelled: 'ملغى',
+    statusPending: 'قيد الانتظار',
+    createdAt: 'تاريخ الإنشاء',
+    lastUpdated: 'آخر تحديث',
+    organization: 'المؤسسة',
+    branch: 'الفرع',
+    service: 'الخدمة',
+    idRequired: 'معرّف الطلب مطلوب',
+    loadFailed: 'فشل تحميل تفاصيل الطلب. يرجى المحاولة مرة أخرى.',
+    loadingDetails: 'جارٍ تحميل تفاصيل الطلب...',
+    notFound: 'لم يتم العثور على الطلب',
+    sharedFilesTab: 'الملفات المشتركة',
+    invoicesTab: 'الفواتير',
+    vehicleProfileTab: 'ملف المركبة',
+    activitiesTab: 'الأنشطة',
+    loadingActivities: 'جارٍ تحميل الأنشطة...',
+    noActivities: 'لم يتم العثور على أنشطة',
+    noSharedFiles: 'لا توجد ملفات مشتركة',
+    pdfDocument: 'مستند PDF',
+    view: 'عرض',
+    download: 'تنزيل',
+  },
+  invoices: {
+    invoiceDetails: 'تفاصيل الفاتورة',
+    invoiceTitle: 'فاتورة',
+    billTo: 'فاتورة إلى:',
+    item: 'البند',
+    total: 'الإجمالي',
+    loadingItems: 'جارٍ تحميل البنود...',
+    noItems: 'لا توجد بنود',
+    subtotalLabel: 'المجموع الفرعي:',
+    totalLabel: 'الإجمالي:',
+    statusLabel: 'الحالة:',
+    draft: 'مسودة',
+    published: 'منشورة',
+    paid: 'مدفوعة',
+    paymentReceived: 'تم استلام الدفع',
+    received: 'مستلمة',
+    itemRequired: 'يرجى إضافة بند فاتورة صالح واحد على الأقل مع اسم',
+    updateInvoice: 'تحديث الفاتورة',
+    createInvoice: 'إنشاء فاتورة',
+    updateConfirm: 'هل أنت متأكد من تحديث هذه الفاتورة؟',
+    createConfirm: 'هل أنت متأكد من إنشاء هذه الفاتورة؟',
+    update: 'تحديث',
+    create: 'إنشاء',
+    updateLabel: 'تحديث الفاتورة {{number}}',
+    createLabel: 'إنشاء فاتورة',
+    saveQueued: 'أنت غير متصل. ستُحفظ الفاتورة عند عودتك إلى الإنترنت.',
+    updated: 'تم تحديث الفاتورة بنجاح',
+    created: 'تم إنشاء الفاتورة بنجاح',
+    updateFailed: 'تعذّر تحديث الفاتورة',
+    createFailed: 'تعذّر إنشاء الفاتورة',
+    publishTitle: 'نشر الفاتورة',
+    publishMessage: 'هل أنت متأكد من نشر هذه الفاتورة؟ بعد النشر سيتم إرسالها إلى العميل.',
+    publish: 'نشر',
+    publishedToast: 'تم نشر الفاتورة بنجاح',
+    publishFailed: 'تعذّر نشر الفاتورة',
+    receiveTitle: 'تأكيد استلام الدفع',
+    receiveMessage: 'هل أنت متأكد من تأكيد استلام هذا الدفع؟ لا يمكن التراجع عن هذا الإجراء.',
+    markReceived: 'تأكيد الاستلام',
+    receivedToast: 'تم تأكيد استلام الدفع',
+    receiveFailed: 'تعذّر تأكيد استلام الدفع',
+    deleteTitle: 'حذف الفاتورة',
+    deleteMessage: 'هل أنت متأكد من حذف هذه الفاتورة؟ لا يمكن التراجع عن هذا الإجراء.',
+    delete: 'حذف',
+    deleteReason: 'حذف هذه الفاتورة',
+    deleted: 'تم حذف الفاتورة بنجاح',
+    deleteFailed: 'تعذّر حذف الفاتورة',
+    syncFailed: 'تعذّرت مزامنة تغيير في الفاتورة. راجعه في المزامنة المعلّقة.',
+    waiting_zero: 'لا توجد تغييرات في الفواتير بانتظار المزامنة',
+    waiting_one: 'تغيير واحد في الفاتورة بانتظار المزامنة',
+    waiting_two: 'تغييران في الفواتير بانتظار المزامنة',
+    waiting_few: '{{count}} تغييرات في الفواتير بانتظار المزامنة',
+    waiting_many: '{{count}} تغييرًا في الفواتير بانتظار المزامنة',
+    waiting_other: '{{count}} تغيير في الفواتير بانتظار المزامنة',
+    loading: 'جارٍ تحميل الفواتير...',
+    empty: 'لم يتم العثور على فواتير',
+    service: 'الخدمة',
+    customer: 'العميل',
+    branch: 'الفرع',
+    discount: 'الخصم',
+    preview: 'معاينة',
+    waitingForPayment: 'بانتظار الدفع',
+    markPaid: 'تأكيد الدفع',
+    editInvoice: 'تعديل الفاتورة',
+    invoiceItems: 'بنود الفاتورة',
+    itemName: 'اسم البند',
+    amount: 'المبلغ',
+    quantity: 'الكمية',
+    addItem: 'إضافة بند',
+    discountPercent: 'الخصم (%)',
+    saveDraft: 'حفظ كمسودة',
+    dateLabel: 'التاريخ: {{date}}',
+    servedBy: 'قدّم الخدمة:',
+    discountLabel: 'الخصم ({{percent}}%):',
+    loadDetailsFailed: 'فشل تحميل تفاصيل الفاتورة',
+    close: 'إغلاق',
+  },
+  branchServices: {
+    loadFailed: 'تعذّر تحميل الخدمات. يرجى المحاولة مرة أخرى.',
+    selectRequired: 'يرجى اختيار خدمة واحدة على الأقل',
+    added: 'تمت إضافة الخدمات بنجاح',
+    addFailed: 'تعذّرت إضافة الخدمات. يرجى المحاولة مرة أخرى.',
+    removeTitle: 'إزالة الخدمة',
+    removeMessage: 'هل أنت متأكد من إزالة "{{name}}" من هذا الفرع؟',
+    remove: 'إزالة',
+    removed: 'تمت إزالة {{name}} بنجاح',
+    removeFailed: 'تعذّرت إزالة الخدمة. يرجى المحاولة مرة أخرى.',
+    title: 'خدمات الفرع',
+    empty: 'لا توجد خدمات متاحة',
+    emptySubtitle: 'لا توجد خدمات في هذا الفرع بعد',
+    addTitle: 'إضافة خدمات إلى الفرع',
+    search: 'ابحث عن الخدمات...',
+    loading: 'جارٍ تحميل الخدمات...',
+    notFound: 'لم يتم العثور على خدمات',
+    noneAvailable: 'لا توجد خدمات متاحة',
+    add: 'إضافة ({{count}})',
+  },
+  serviceDetails: {
+    idRequired: 'معرّف الخدمة مطلوب',
+    loadFailed: 'تعذّر تحميل تفاصيل الخدمة. يرجى المحاولة مرة أخرى.',
+    deleteTitle: 'حذف الخدمة',
+    deleteMessage: 'هل أنت متأكد من حذف "{{name}}"؟ لا يمكن التراجع عن هذا الإجراء.',
+    delete: 'حذف',
+    deleted: 'تم حذف الخدمة بنجاح',
+    deleteFailed: 'تعذّر حذف الخدمة. يرجى المحاولة مرة أخرى.',
+    deleteTagTitle: 'حذف الوسم',
+    deleteTagMessage: 'هل أنت متأكد من حذف الوسم "{{name}}"؟',
+    tagDeleted: 'تم حذف الوسم بنجاح',
+    tagDeleteFailed: 'تعذّر حذف الوسم. يرجى المحاولة مرة أخرى.',
+    tagNameRequired: 'يرجى إدخال اسم الوسم',
+    tagUpdated: 'تم تحديث الوسم بنجاح',
+    tagsRequired: 'يرجى إدخال وسم واحد على الأقل',
+    tagsAdded: 'تمت إضافة الوسوم بنجاح',
+    tagSaveFailed: 'تعذّر حفظ الوسم. يرجى المحاولة مرة أخرى.',
+    deletePricingTitle: 'حذف التسعير',
+    deletePricingMessage: 'هل أنت متأكد من حذف التسعير "{{name}}"؟',
+    pricingDeleted: 'تم حذف التسعير بنجاح',
+    pricingDeleteFailed: 'تعذّر حذف التسعير. يرجى المحاولة مرة أخرى.',
+    pricingNameRequired: 'يرجى إدخال اسم التسعير',
+    amountInvalid: 'يرجى إدخال مبلغ صالح',
+    discountInvalid: 'يرجى إدخال خصم صالح',
+    pricingUpdated: 'تم تحديث التسعير بنجاح',
+    pricingAdded: 'تمت إضافة التسعير بنجاح',
+    pricingSaveFailed: 'تعذّر حفظ التسعير. يرجى المحاولة مرة أخرى.',
+    nowPublic: 'أصبحت الخدمة عامة',
+    nowPrivate: 'أصبحت الخدمة خاصة',
+    visibilityFailed: 'تعذّر تحديث ظهور الخدمة. يرجى المحاولة مرة أخرى.',
+    processing: 'جارٍ المعالجة، يرجى الانتظار...',
+    notFound: 'لم يتم العثور على الخدمة',
+    title: 'تفاصيل الخدمة',
+    public: 'عامة',
+    description: 'الوصف',
+    serviceMode: 'نوع الخدمة',
+    createdBy: 'أنشأها',
+    tags: 'الوسوم',
+    noTags: 'لم تتم إضافة وسوم بعد',
+    pricing: 'التسعير',
+    noPricing: 'لم تتم إضافة عناصر تسعير بعد',
+    discountAmount: 'خصم {{amount}}',
+    update: 'تحديث',
+    visibilityTitle: 'تغيير ظهور الخدمة',
+    visibilityMessage: 'اختر ما إذا كانت هذه الخدمة عامة أو خاصة.',
+    publicDescription: 'مرئية للجميع',
+    privateDescription: 'مرئية لك فقط',
+    updating: 'جارٍ التحديث...',
+    editTag: 'تعديل الوسم',
+    addTags: 'إضافة وسوم',
+    editTagMessage: 'حدّث اسم الوسم أدناه.',
+    addTagsMessage: 'أدخل أسماء الوسوم مفصولة بفواصل (مثال: ميكانيكا، سيارات usv، brigg)',
+    tagPlaceholder: 'أدخل اسم الوسم أو الأسماء',
+    saving: 'جارٍ الحفظ...',
+    add: 'إضافة',
+    editPricing: 'تعديل التسعير',
+    addPricing: 'إضافة تسعير',
+    editPricingMessage: 'حدّث تفاصيل التسعير أدناه.',
+    addPricingMessage: 'أدخل تفاصيل التسعير لهذه الخدمة.',
+    nameLabel: 'الاسم *',
+    pricingNamePlaceholder: 'مثال: خدمة عامة',
+    descriptionPlaceholder: 'أدخل الوصف',
+    amountLabel: 'المبلغ *',
+    discount: 'الخصم',
+    totalAmount: 'المبلغ الإجمالي:',
+    loadingDetails: 'جارٍ تحميل تفاصيل الخدمة...',
+  },
+  upload: {
+    uploadImage: 'رفع صورة',
+    uploadImages: 'رفع الصور',
+    failed: 'فشل الرفع',
+    alreadyUploadedTitle: 'تم رفع الملف بالفعل',
+    alreadyUploadedMessage: 'يمكنك رفع ملف واحد فقط في كل مرة. يرجى إزالة الملف الحالي قبل رفع ملف جديد.',
+    permissionTitle: 'الإذن مطلوب',
+    permissionMessage: 'عذرًا، نحتاج إلى إذن الوصول إلى الصور لرفعها!',
+    errorTitle: 'خطأ في الرفع',
+    pickFailed: 'تعذّر اختيار الصورة. يرجى المحاولة مرة أخرى.',
+    hint: 'الحد الأقصى {{size}} • {{types}}',
+  },
+  locationPicker: {
+    notAvailableTitle: 'غير متاح',
+    notAvailableMessage: 'تتطلب خدمات الموقع حزمة expo-location. يرجى تثبيتها: npx expo install expo-location',
+    permissionTitle: 'تم رفض الإذن',
+    permissionMessage: 'إذن الموقع مطلوب لاختيار موقعك الحالي.',
+    configTitle: 'خطأ في الإعداد',
+    configMessage: 'لم يتم إعداد مفتاح Google Maps API. يرجى إضافة googleKey إلى متغيرات البيئة.',
+    currentLocation: 'الموقع الحالي',
+    currentLocationFailed: 'تعذّر الحصول على الموقع الحالي. يرجى المحاولة مرة أخرى.',
+    placeholder: 'اختر الموقع',
+    title: 'اختيار الموقع',
+    gettingLocation: 'جارٍ تحديد الموقع...',
+    pickCurrent: 'اختيار الموقع الحالي',
+    or: 'أو',
+    searchLabel: 'البحث عن موقع (خرائط Google)',
+    searchPlaceholder: 'اكتب للبحث عن موقع...',
+    manualLabel: 'إدخال الموقع يدويًا',
+    manualPlaceholder: 'اسم الموقع (مثال: مدينة نيروبي)',
+    latitude: 'خط العرض',
+    longitude: 'خط الطول',
+    save: 'حفظ الموقع',
+    label: 'الموقع',
+  },
+  chat: {
+    messageLabel: 'رسالة إلى {{name}}',
+    connecting: 'جارٍ الاتصال...',
+    encrypted: 'الرسائل مشفرة من طرف إلى طرف',
+    publicBlockchain: 'تستخدم المدفوعات سلسلة كتل عامة.',
+    securedBy: 'مؤمَّن بواسطة XMTP',
+    orderClosedMessage: 'تم إغلاق هذا الطلب. يمكنك عرض الرسائل السابقة ولكن لا يمكنك إرسال رسائل جديدة.',
+    messagePlaceholder: 'رسالة',
+    orderClosed: 'الطلب مغلق',
+  },
+  services: {
+    title: 'الخدمات',
+    deleteMessage: 'هل أنت متأكد من حذف "{{name}}"؟',
+    searchHint: 'حاول تعديل كلمات البحث',
+    emptyHint: 'أضف خدمة جديدة للبدء',
+  },
+  staff: {
+    loadFailed: 'تعذر تحميل الموظفين. يرجى المحاولة مرة أخرى.',
+    fallbackName: 'موظف',
+    male: 'ذكر',
+    female: 'أنثى',
+    transgender: 'متحول جنسيًا',
+    unknown: 'غير معروف',
+    created: 'تم إنشاء الموظف بنجاح',
+    createFailed: 'تعذر إنشاء الموظف. يرجى المحاولة مرة أخرى.',
+    title: 'الموظفون',
+    noResults: 'لم يتم العثور على موظفين',
+    empty: 'لا يوجد موظفون',
+    addTitle: 'إضافة موظف جديد',
+    firstNameLabel: 'الاسم الأول *',
+    firstNamePlaceholder: 'أدخل الاسم الأول',
+    middleNameLabel: 'الاسم الأوسط',
+    middleNamePlaceholder: 'أدخل الاسم الأوسط (اختياري)',
+    lastNameLabel: 'اسم العائلة *',
+    lastNamePlaceholder: 'أدخل اسم العائلة',
+    emailLabel: 'البريد الإلكتروني *',
+    emailPlaceholder: 'أدخل البريد الإلكتروني',
+    phoneLabel: 'رقم الهاتف *',
+    phonePlaceholder: 'أدخل رقم الهاتف',
+    genderLabel: 'الجنس *',
+    birthDateLabel: 'تاريخ الميلاد *',
+    birthDatePlaceholder: 'اختر تاريخ الميلاد',
+    create: 'إنشاء موظف',
+    idRequired: 'معرف الموظف مطلوب',
+    detailsLoadFailed: 'تعذر تحميل تفاصيل الموظف. يرجى المحاولة مرة أخرى.',
+    loadingDetails: 'جارٍ تحميل تفاصيل الموظف...',
+    notFound: 'لم يتم العثور على الموظف',
+    detailsTab: 'التفاصيل',
+    branchesTab: 'الفروع',
+    permissionsTab: 'الصلاحيات',
+    accountTab: 'الحساب',
+    personalInformation: 'المعلومات الشخصية',
+    fullName: 'الاسم الكامل',
+    birthDate: 'تاريخ الميلاد',
+    gender: 'الجنس',
+    accountInformation: 'معلومات الحساب',
+    status: 'الحالة',
+    verification: 'التحقق',
+    userIdRequired: 'معرف المستخدم مطلوب',
+    accountLoadFailed: 'تعذر تحميل تفاصيل الحساب. يرجى المحاولة مرة أخرى.',
+    reasonRequired: 'يرجى ذكر سبب هذا الإجراء',
+    lockAccountPrompt: 'قفل حساب هذا الموظف',
+    unlockAccountPrompt: 'إلغاء قفل حساب هذا الموظف',
+    accountLocked: 'تم قفل الحساب بنجاح',
+    accountUnlocked: 'تم إلغاء قفل الحساب بنجاح',
+    accountStatusFailed: 'تعذر تحديث حالة الحساب. يرجى المحاولة مرة أخرى.',
+    loadingAccount: 'جارٍ تحميل تفاصيل الحساب...',
+    accountNotFound: 'لم يتم العثور على الحساب',
+    accountStatus: 'حالة الحساب',
+    lockStatus: 'حالة القفل',
+    locked: 'مقفل',
+    unlocked: 'غير مقفل',
+    unlockAccount: 'إلغاء قفل الحساب',
+    lockAccount: 'قفل الحساب',
+    organizationName: 'اسم المؤسسة',
+    serviceProvider: 'مزود خدمة',
+    reasonLabel: 'السبب *',
+    reasonPlaceholder: 'أدخل سبب هذا الإجراء',
+    unlock: 'إلغاء القفل',
+    lock: 'قفل',
+    unlockAccountReason: 'يرجى ذكر سبب إلغاء قفل هذا الحساب.',
+    lockAccountReason: 'يرجى ذكر سبب قفل هذا الحساب.',
+    branchesLoadFailed: 'تعذر تحميل فروع الموظف. يرجى المحاولة مرة أخرى.',
+    loadingBranches: 'جارٍ تحميل الفروع...',
+    noBranches: 'لا توجد فروع معينة',
+  },
+  branchStaff: {
+    selectStaff: 'يرجى اختيار موظف واحد على الأقل',
+    assigned: 'تم تعيين الموظف بنجاح',
+    assignFailed: 'تعذر تعيين الموظف. يرجى المحاولة مرة أخرى.',
+    unlockPrompt: 'إلغاء قفل هذا الموظف',
+    lockPrompt: 'قفل هذا الموظف',
+    unlocked: 'تم إلغاء قفل الموظف بنجاح',
+    locked: 'تم قفل الموظف بنجاح',
+    statusFailed: 'تعذر تحديث حالة الموظف. يرجى المحاولة مرة أخرى.',
+    title: 'موظفو الفرع',
+    empty: 'لا يوجد موظفون',
+    emptyHint: 'لا يوجد موظفون في هذا الفرع بعد',
+    addTitle: 'إضافة موظف إلى الفرع',
+    search: 'ابحث عن موظف...',
+    loading: 'جارٍ تحميل الموظفين...',
+    noAvailable: 'لا يوجد موظفون متاحون',
+    unlockTitle: 'إلغاء قفل الموظف',
+    lockTitle: 'قفل الموظف',
+    add: 'إضافة ({{count}})',
+    unlockReason: 'اذكر سبب إلغاء قفل "{{name}}" في هذا الفرع.',
+    lockReason: 'اذكر سبب قفل "{{name}}" في هذا الفرع.',
+  },
+  switchAccount: {
+    loadFailed: 'تعذر تحميل الحسابات. يرجى المحاولة مرة أخرى.',
+    branchesLoadFailed: 'تعذر تحميل الفروع. يرجى المحاولة مرة أخرى.',
+    switchFailed: 'تعذر تبديل الحساب. يرجى المحاولة مرة أخرى.',
+    welcome: 'مرحبًا',
+    subtitle: 'اختر مؤسسة للمتابعة',
+    empty: 'لم يتم العثور على مؤسسات',
+    emptyHint: 'ليس لديك وصول إلى أي مؤسسة بعد.',
+    selectBranch: 'اختر الفرع',
+    processing: 'جارٍ المعالجة، يرجى الانتظار...',
+    mainBranch: 'الفرع الرئيسي',
+    branchLocation: 'موقع الفرع',
+    main: 'رئيسي',
+    noBranches: 'لم يتم العثور على فروع',
+    noBranchesHint: 'لا توجد فروع لهذه المؤسسة بعد.',
+    createdAt: 'أُنشئ {{date}}',
+  },
+  serviceForm: {
+    newTitle: 'خدمة جديدة',
+    newSubtitle: 'أنشئ خدمة جديدة. املأ جميع المعلومات المطلوبة.',
+    editTitle: 'تعديل الخدمة',
+    editSubtitle: 'حدّث معلومات الخدمة أدناه.',
+    nameLabel: 'اسم الخدمة',
+    namePlaceholder: 'أدخل اسم الخدمة',
+    descriptionPlaceholder: 'أدخل وصف الخدمة',
+    modeLabel: 'نمط الخدمة',
+    modePlaceholder: 'اختر نمط الخدمة',
+    thumbnailLabel: 'الصورة المصغرة للخدمة',
+    create: 'إنشاء الخدمة',
+    createdTitle: 'تم إنشاء الخدمة',
+    createdMessage: 'تم إنشاء خدمتك بنجاح.',
+    createFailed: 'فشل إنشاء الخدمة. يرجى المحاولة مرة أخرى.',
+    modesLoadFailed: 'فشل تحميل أنماط الخدمة. يرجى المحاولة مرة أخرى.',
+    idRequired: 'معرّف الخدمة مطلوب',
+    loadFailed: 'فشل تحميل الخدمة. يرجى المحاولة مرة أخرى.',
+    updated: 'تم تحديث الخدمة بنجاح',
+    updateFailed: 'فشل تحديث الخدمة. يرجى المحاولة مرة أخرى.',
+    loading: 'جارٍ تحميل الخدمة...',
+    update: 'تحديث الخدمة',
+  },
+  diagnostics: {
+    title: 'التشخيص',
+    switchTitle: 'تبديل البيئة',
+    switchMessage: 'سيتم تسجيل خروجك ومسح البيانات المخزنة مؤقتًا.',
+    switch: 'تبديل',
+    originInvalid: 'أدخل أصلًا مثل https://api.example.com',
+    noDomain: 'لم يتم تكوين نطاق API لهذه البيئة، لذا سيفشل كل طلب. اختر بيئة أخرى أو عيّن API_DOMAIN لهذا الإصدار.',
+    sampleData: 'بيانات نموذجية داخل التطبيق',
+    notConfigured: 'غير مُكوَّن',
+    customDomain: 'نطاق مخصص',
+    useCustomDomain: 'استخدام النطاق المخصص',
+    switchingDisabled: 'تبديل الخوادم معطّل في هذا الإصدار.',
+    permissionRefresh: 'تحديث الأذونات',
+    permissionRefreshHint: 'عدد مرات إعادة التحقق من الأذونات أثناء فتح التطبيق. يُعاد التحقق منها أيضًا عند العودة إلى التطبيق، وعند استجابة 403، وعندما يبلغ الخادم عن تغيير.',
+    off: 'إيقاف',
+    minutes: '{{count}} د',
+    resetMockData: 'إعادة تعيين البيانات التجريبية',
+    copied: 'تم النسخ',
+    copiedMessage: 'تم نسخ الطلب كأمر cURL. تم إخفاء بيانات الاعتماد.',
+    pending: 'قيد الانتظار',
+    headers: 'الترويسات',
+    body: 'المحتوى',
+    copyCurl: 'نسخ كـ cURL',
+    clearLog: 'مسح السجل',
+    requestsEmpty: 'تظهر هنا الطلبات التي يرسلها التطبيق.',
+    socketsEmpty: 'افتح غرفة دردشة لرؤية اتصالها هنا.',
+    environmentTab: 'البيئة',
+    networkTab: 'الشبكة',
+    socketsTab: 'المقابس',
+    socketActivity: '{{sent}} مُرسَلة · {{received}} مُستلَمة · فُتح {{time}}',
+    socketClosed: ' · أُغلق {{time}}',
+    status_connecting: 'جارٍ الاتصال',
+    status_open: 'مفتوح',
+    status_closed: 'مغلق',
+    status_error: 'خطأ',
+  },
+  branches: {
+    loadFailed: 'فشل تحميل الفروع. يرجى المحاولة مرة أخرى.',
+    created: 'تم إنشاء الفرع بنجاح',
+    createFailed: 'فشل إنشاء الفرع. يرجى المحاولة مرة أخرى.',
+    title: 'الفروع',
+    search: 'ابحث في الفروع...',
+    empty: 'لا توجد فروع متاحة',
+    noResults: 'لم يتم العثور على فروع',
+    emptyHint: 'أضف فرعًا جديدًا للبدء',
+    main: 'رئيسي',
+    addTitle: 'إضافة فرع جديد',
+    nameLabel: 'اسم الفرع *',
+    namePlaceholder: 'أدخل اسم الفرع',
+    contactLabel: 'رقم الاتصال *',
+    cityLabel: 'المدينة *',
+    cityPlaceholder: 'أدخل المدينة',
+    countryLabel: 'الدولة *',
+    countryPlaceholder: 'اختر الدولة',
+    descriptionPlaceholder: 'أدخل الوصف (اختياري)',
+    locationLabel: 'الموقع *',
+    create: 'إنشاء الفرع',
+    idRequired: 'معرّف الفرع مطلوب',
+    detailsLoadFailed: 'فشل تحميل تفاصيل الفرع. يرجى المحاولة مرة أخرى.',
+    loadingDetails: 'جارٍ تحميل تفاصيل الفرع...',
+    notFound: 'لم يتم العثور على الفرع',
+    contactInformation: 'معلومات الاتصال',
+    address: 'العنوان',
+    city: 'المدينة',
+    stateProvince: 'الولاية/المقاطعة',
+    coordinates: 'الإحداثيات',
+    information: 'المعلومات',
+    createdOn: 'تاريخ الإنشاء: {{date}}',
+    updatedOn: 'تاريخ التحديث: {{date}}',
+    isMain: 'هذا هو الفرع الرئيسي',
+  },
+  bookingHistory: {
+    title: 'سجل الحجوزات',
+    search: 'ابحث برمز الحجز أو الخدمة أو العميل أو الفرع...',
+    loading: 'جارٍ تحميل سجل الحجوزات...',
+    empty: 'لا يوجد سجل حجوزات',
+    noResults: 'لم يتم العثور على حجوزات',
+    clearSearch: 'مسح البحث',
+    completed: 'مكتمل',
+    declined: 'مرفوض',
+    ongoing: 'جارٍ',
+  },
+  invoiceHistory: {
+    title: 'سجل الفواتير',
+    search: 'ابحث برقم الفاتورة أو الخدمة أو العميل أو الفرع...',
+    loading: 'جارٍ تحميل سجل الفواتير...',
+    empty: 'لا يوجد سجل فواتير',
+    loadingDetails: 'جارٍ تحميل تفاصيل الفاتورة...',
+  },
+  updateProfile: {
+    updateFailed: 'فشل تحديث الملف الشخصي. يرجى المحاولة مرة أخرى.',
+    subtitle: 'حدّث معلوماتك الشخصية. تأكد من دقة جميع التفاصيل.',
+    firstNameLabel: 'الاسم الأول',
+    middleNameLabel: 'الاسم الأوسط (اختياري)',
+    middleNamePlaceholder: 'أدخل الاسم الأوسط',
+    lastNameLabel: 'اسم العائلة',
+    genderPlaceholder: 'اختر الجنس',
+    birthDatePlaceholder: 'YYYY-MM-DD (مثال: 1996-05-23)',
+    updatedTitle: 'تم تحديث الملف الشخصي',
+    updatedMessage: 'تم تحديث ملفك الشخصي بنجاح.',
+  },
+  incomingRequests: {
+    title: 'الطلبات الواردة',
+    noBranch: 'لم يتم اختيار فرع',
+    search: 'ابحث باسم الخدمة...',
+    empty: 'لا توجد طلبات واردة',
+    noResults: 'لم يتم العثور على طلبات',
+    searchHint: 'حاول تعديل بحثك',
+    new: 'جديد',
+    incomingOrders: 'الطلبات الواردة',
+    viewMore: 'عرض المزيد',
+  },
+  notifications: {
+    emptyTitle: 'لا يوجد شيء هنا',
+    emptySubtitle: 'سنُعلمك عندما يكون هناك شيء جديد.',
+  },
+  chats: {
+    title: 'الدردشة',
+    search: 'ابحث بالاسم أو رمز الحجز أو الخدمة',
+    loading: 'جارٍ تحميل المحادثات...',
+    noResults: 'لم يتم العثور على محادثات',
+    empty: 'لا توجد محادثات بعد',
+  },
+  finance: {
+    loadFailed: 'فشل تحميل تفصيل الإيرادات',
+    refreshFailed: 'فشل تحديث تفصيل الإيرادات',
+    revenueBreakdown: 'تفصيل الإيرادات',
+    title: 'الملخص المالي',
+    loading: 'جارٍ تحميل البيانات المالية...',
+    empty: 'لا توجد بيانات إيرادات',
+    totalRevenue: 'إجمالي الإيرادات',
+    totalInvoices: 'إجمالي الفواتير',
+    averagePerInvoice: 'المتوسط لكل فاتورة',
+    groupBy: 'التجميع حسب:',
+    detailedBreakdown: 'التفصيل الكامل',
+    revenue: 'الإيرادات',
+    invoices: 'الفواتير',
+    average: 'المتوسط',
+    group_all: 'الكل',
+    averagePerInvoiceShort: 'المتوسط/فاتورة',
+  },
+  serviceStats: {
+    loadFailed: 'فشل تحميل إحصاءات الخدمات',
+    totalServices: 'إجمالي الخدمات',
+  },
+  vehicleProfile: {
+    loading: 'جارٍ تحميل ملفات المركبات...',
+    empty: 'لم يتم العثور على ملفات مركبات',
+    revoked: 'مُلغى',
+    basicInformation: 'المعلومات الأساسية',
+    licensePlate: 'لوحة الترخيص',
+    vin: 'رقم الهيكل',
+    color: 'اللون',
+    specifications: 'المواصفات',
+    bodyType: 'نوع الهيكل',
+    transmission: 'ناقل الحركة',
+    drive: 'نظام الدفع',
+    fuelType: 'نوع الوقود',
+    engineType: 'نوع المحرك',
+    lastServiceDate: 'تاريخ آخر خدمة',
+    owner: 'المالك',
+  },
+  dateTimePicker: {
+    placeholder: 'اختر التاريخ',
+    selectDate: 'اختر التاريخ',
+    selectTime: 'اختر الوقت',
+    selectDateTime: 'اختر التاريخ والوقت',
+    done: 'تم',
+  },
+  subscriptionPlans: {
+    empty: 'لا توجد خطط اشتراك متاحة',
+    loadFailed: 'تعذّر تحميل خطط الاشتراك. يرجى المحاولة مرة أخرى.',
+    branches: 'الفروع',
+    members: 'الأعضاء',
+    services: 'الخدمات',
+    visibility: 'الظهور في تادار',
+    support: 'الدعم',
+    teamManagement: 'إدارة الفريق',
+    reports: 'التقارير',
+    autoRenewal: 'التجديد التلقائي',
+    yes: 'نعم',
+    no: 'لا',
+    perMonths_one: '/شهر',
+    perMonths_two: '/شهرين',
+    perMonths_few: '/{{count}} أشهر',
+    perMonths_many: '/{{count}} شهرًا',
+    perMonths_other: '/{{count}} شهرًا',
+    select: 'اختر الخطة',
+    selected: 'تم الاختيار',
+  },
+  onboarding: {
+    title: 'إعداد نشاطك التجاري',
+    progress: 'الخطوة {{current}} من {{total}}',
+    continue: 'متابعة',
+    edit: 'تعديل',
+    newBusiness: 'نشاط تجاري جديد؟',
+    createAccount: 'أنشئ حسابًا',
+    setUpBusiness: 'إعداد نشاط تجاري',
+    continueSetup: 'متابعة إعداد النشاط التجاري',
+    leaveTitle: 'الإكمال لاحقًا؟',
+    leaveMessage: 'تم حفظ تقدمك. يمكنك متابعة إعداد نشاطك التجاري من قائمة المؤسسات.',
+    finishLater: 'الإكمال لاحقًا',
+    steps: {
+      owner: 'حسابك',
+      company: 'بيانات الشركة',
+      branch: 'الفرع الأول',
+      services: 'الخدمات',
+      plan: 'الخطة',
+      review: 'المراجعة',
+    },
+    owner: {
+      subtitle: 'أنشئ حساب المالك لنشاطك التجاري. ستستخدمه لتسجيل الدخول.',
+      firstName: 'الاسم الأول',
+      lastName: 'اسم العائلة',
+      email: 'البريد الإلكتروني',
+      phone: 'الهاتف',
+      password: 'كلمة المرور',
+      confirmPassword: 'تأكيد كلمة المرور',
+      submit: 'إنشاء الحساب',
+      failed: 'تعذّر إنشاء حسابك. يرجى المحاولة مرة أخرى.',
+    },
+    company: {
+      subtitle: 'عرّف العملاء بنشاطك.',
+      name: 'اسم الشركة',
+      email: 'بريد الشركة',
+      phone: 'هاتف الشركة',
+      website: 'الموقع الإلكتروني',
+      websitePlaceholder: 'https://example.com',
+      description: 'الوصف',
+      logo: 'الشعار',
+    },
+    branch: {
+      subtitle: 'أين يجدك العملاء؟ يمكنك إضافة فروع أخرى لاحقًا.',
+      name: 'اسم الفرع',
+      contact: 'رقم التواصل',
+      email: 'بريد الفرع',
+      city: 'المدينة',
+      country: 'الدولة',
+      selectCountry: 'اختر الدولة',
+      description: 'الوصف',
+      location: 'الموقع',
+    },
+    services: {
+      subtitle: 'أضف الخدمات التي تقدمها. يمكن إضافة الأسعار والصور لاحقًا.',
+      name: 'اسم الخدمة',
+      description: 'الوصف',
+      mode: 'نوع الخدمة',
+      selectMode: 'اختر نوع الخدمة',
+      add: 'إضافة خدمة',
+      required: 'أضف خدمة واحدة على الأقل',
+      modesFailed: 'تعذّر تحميل أنواع الخدمات. يرجى المحاولة مرة أخرى.',
+    },
+    plan: {
+      subtitle: 'اختر الخطة المناسبة لنشاطك التجاري.',
+      required: 'اختر خطة للمتابعة',
+    },
+    review: {
+      subtitle: 'راجع بياناتك قبل إنشاء نشاطك التجاري.',
+      logoUploaded: 'تم رفع الشعار',
+      noLogo: 'لا يوجد شعار',
+      submit: 'إنشاء النشاط التجاري',
+      failed: 'تعذّر إنشاء نشاطك التجاري. يرجى المحاولة مرة أخرى.',
+    },
+  },
+  outbox: {
+    needsAttention_zero: 'لا توجد تغييرات تحتاج إلى انتباهك',
+    needsAttention_one: 'تغيير واحد يحتاج إلى انتباهك',
+    needsAttention_two: 'تغييران يحتاجان إلى انتباهك',
+    needsAttention_few: '{{count}} تغييرات تحتاج إلى انتباهك',
+    needsAttention_many: '{{count}} تغييرًا يحتاج إلى انتباهك',
+    needsAttention_other: '{{count}} تغيير يحتاج إلى انتباهك',
+    waiting_zero: 'لا توجد تغييرات بانتظار المزامنة',
+    waiting_one: 'تغيير واحد بانتظار المزامنة',
+    waiting_two: 'تغييران بانتظار المزامنة',
+    waiting_few: '{{count}} تغييرات بانتظار المزامنة',
+    waiting_many: '{{count}} تغييرًا بانتظار المزامنة',
+    waiting_other: '{{count}} تغيير بانتظار المزامنة',
+  },
+  pendingSync: {
+    title: 'بانتظار المزامنة',
+    queued: 'أضيف {{time}}',
+    status: {
+      pending: 'بانتظار الاتصال',
+      syncing: 'جارٍ المزامنة',
+      conflict: 'تعارض',
+      failed: 'فشل',
+    },
+    discardTitle: 'تجاهل التغيير',
+    discardMessage: 'لن يتم إرسال "{{label}}". لا يمكن التراجع عن هذا الإجراء.',
+    emptyTitle: 'تمت مزامنة كل شيء',
+    emptySubtitle: 'التغييرات التي تجريها دون اتصال تنتظر هنا حتى يتم إرسالها.',
+  },
+  validation: {
+    failed: 'فشل التحقق',
+    usernameRequired: 'اسم المستخدم مطلوب',
+    passwordRequired: 'كلمة المرور مطلوبة',
+    passwordMin: 'يجب أن تتكون كلمة المرور من 8 أحرف على الأقل',
+    passwordUppercase: 'يجب أن تحتوي كلمة المرور على حرف كبير واحد على الأقل',
+    passwordLowercase: 'يجب أن تحتوي كلمة المرور على حرف صغير واحد على الأقل',
+    passwordNumber: 'يجب أن تحتوي كلمة المرور على رقم واحد على الأقل',
+    confirmPasswordRequired: 'يرجى تأكيد كلمة المرور',
+    passwordsMismatch: 'كلمتا المرور غير متطابقتين',
+    firstNameRequired: 'الاسم الأول مطلوب',
+    firstNameMin: 'يجب أن يتكون الاسم الأول من حرفين على الأقل',
+    firstNameMax: 'يجب أن يكون الاسم الأول أقل من 50 حرفًا',
+    lastNameRequired: 'اسم العائلة مطلوب',
+    lastNameMin: 'يجب أن يتكون اسم العائلة من حرفين على الأقل',
+    lastNameMax: 'يجب أن يكون اسم العائلة أقل من 50 حرفًا',
+    emailRequired: 'البريد الإلكتروني مطلوب',
+    emailInvalid: 'يرجى إدخال بريد إلكتروني صالح',
+    phoneRequired: 'رقم الهاتف مطلوب',
+    phoneInvalid: 'يرجى إدخال رقم هاتف صالح',
+    phoneDigits: 'يجب أن يحتوي رقم الهاتف على أرقام فقط',
+    dateInvalid: 'يرجى إدخال تاريخ صالح (YYYY-MM-DD)',
+    birthDateRequired: 'تاريخ الميلاد مطلوب',
+    dateFormat: 'يجب أن يكون التاريخ بصيغة YYYY-MM-DD',
+    companyNameRequired: 'اسم الشركة مطلوب',
+    companyNameMin: 'يجب أن يتكون اسم الشركة من حرفين على الأقل',
+    companyNameMax: 'يجب أن يكون اسم الشركة أقل من 100 حرف',
+    zipCodeInvalid: 'يرجى إدخال رمز بريدي صالح',
+    websiteInvalid: 'يرجى إدخال عنوان موقع صالح',
+    descriptionMax: 'يجب أن يكون الوصف أقل من 500 حرف',
+    branchNameRequired: 'اسم الفرع مطلوب',
+    branchNameMin: 'يجب أن يتكون اسم الفرع من حرفين على الأقل',
+    branchNameMax: 'يجب أن يكون اسم الفرع أقل من 100 حرف',
+    contactRequired: 'رقم التواصل مطلوب',
+    cityRequired: 'المدينة مطلوبة',
+    cityMin: 'يجب أن يتكون اسم المدينة من حرفين على الأقل',
+    countryRequired: 'الدولة مطلوبة',
+    locationRequired: 'الموقع مطلوب',
+    latitudeInvalid: 'خط عرض غير صالح',
+    longitudeInvalid: 'خط طول غير صالح',
+    accuracyMin: 'يجب أن تكون الدقة 0 أو أكثر',
+    codeRequired: 'الرمز مطلوب',
+    codeInvalid: 'أدخل الرمز المكوّن من 6 أرقام من البريد الإلكتروني',
+    serviceNameRequired: 'اسم الخدمة مطلوب',
+    descriptionRequired: 'الوصف مطلوب',
+    serviceModeRequired: 'نوع الخدمة مطلوب',
+    authenticatorCodeInvalid: 'أدخل الرمز المكوّن من 6 أرقام من تطبيق المصادقة',
+    backupCodeInvalid: 'أدخل رمزًا احتياطيًا مثل xxxx-xxxx',
+    serviceNameMin: 'يجب أن يتكون اسم الخدمة من حرفين على الأقل',
+    serviceNameMax: 'يجب أن يكون اسم الخدمة أقل من 100 حرف',
+    descriptionMin: 'يجب أن يتكون الوصف من 10 أحرف على الأقل',
+    genderRequired: 'الجنس مطلوب',
+    genderInvalid: 'اختيار الجنس غير صالح',
+  },
+  time: {
+    justNow: 'الآن',
+    today: 'اليوم',
+    yesterday: 'أمس',
+    minutesAgo_one: 'منذ دقيقة',
+    minutesAgo_two: 'منذ دقيقتين',
+    minutesAgo_few: 'منذ {{count}} دقائق',
+    minutesAgo_other: 'منذ {{count}} دقيقة',
+    hoursAgo_one: 'منذ ساعة',
+    hoursAgo_two: 'منذ ساعتين',
+    hoursAgo_few: 'منذ {{count}} ساعات',
+    hoursAgo_other: 'منذ {{count}} ساعة',
+    daysAgo_one: 'منذ يوم',
+    daysAgo_two: 'منذ يومين',
+    daysAgo_few: 'منذ {{count}} أيام',
+    daysAgo_other: 'منذ {{count}} يومًا',
+    monthsAgo_one: 'منذ شهر',
+    monthsAgo_two: 'منذ شهرين',
+    monthsAgo_few: 'منذ {{count}} أشهر',
+    monthsAgo_other: 'منذ {{count}} شهرًا',
+    yearsAgo_one: 'منذ سنة',
+    yearsAgo_two: 'منذ سنتين',
+    yearsAgo_few: 'منذ {{count}} سنوات',
+    yearsAgo_other: 'منذ {{count}} سنة',
+  },
+};
+
+export default ar;
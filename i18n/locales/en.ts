@@ -0,0 +1,1138 @@
+/**
+ * English catalog
+ * The source of truth for keys; every other catalog follows its shape.
+ * Plural strings have _one/_other variants (Arabic adds _zero/_two/_few/_many) and are looked up by their base key.
+ */
+const en = {
+  common: {
+    cancel: 'Cancel',
+    ok: 'OK',
+    retry: 'Retry',
+    discard: 'Discard',
+    later: 'Later',
+    user: 'User',
+    notSelected: 'Not selected',
+    notAvailable: 'N/A',
+    never: 'Never',
+    invalidDate: 'Invalid Date',
+    selectOption: 'Select an option',
+    viewAll: 'View All',
+    unlimited: 'Unlimited',
+    expired: 'Expired',
+    private: 'Private',
+    error: 'Error',
+    goBack: 'Go Back',
+    active: 'Active',
+    inactive: 'Inactive',
+    verified: 'Verified',
+    notVerified: 'Not Verified',
+    yes: 'Yes',
+    no: 'No',
+    created: 'Created',
+    lastUpdated: 'Last Updated',
+    metadata: 'Metadata',
+    description: 'Description',
+  },
+  auth: {
+    logoutTitle: 'Logout',
+    logoutMessage: 'Are you sure you want to logout?',
+    logout: 'Logout',
+    unsyncedChanges_one: '{{count}} change made offline has not been sent yet. Logging out discards it.',
+    unsyncedChanges_other: '{{count}} changes made offline have not been sent yet. Logging out discards them.',
+  },
+  tabs: {
+    home: 'Home',
+    services: 'Services',
+    branches: 'Branches',
+    chats: 'Chats',
+    profile: 'Profile',
+  },
+  home: {
+    greeting: 'Hi, {{name}}',
+    goodMorning: 'Good Morning',
+    goodAfternoon: 'Good Afternoon',
+    goodEvening: 'Good Evening',
+    incoming: 'Incoming',
+    pendingRequests: 'Pending requests',
+    ongoing: 'Ongoing',
+    activeRequests: 'Active requests',
+    subscription: 'Subscription',
+    datePurchased: 'Date Purchased',
+    dateOfExpiry: 'Date of Expiry',
+    neverExpires: 'Never Expires',
+    servicesAnalysis: 'Services Analysis',
+    subscriptionPlans: 'Subscription Plans',
+    subscriptionPlansSubtitle: 'View and manage your plans',
+    quickActions: 'Quick Actions',
+    recentServices: 'Recent Services',
+    noServices: 'No services available',
+    actions: {
+      finance: 'Finance',
+      members: 'Members',
+      branches: 'Branches',
+      history: 'History',
+      invoices: 'Invoices',
+      plans: 'Plans',
+    },
+  },
+  profile: {
+    title: 'Profile',
+    idNumber: 'ID No: {{number}}',
+    standardMember: 'Standard Member',
+    company: 'Company',
+    activeBranch: 'Active Branch',
+    branchEmail: 'Branch Email',
+    email: 'Email',
+    phone: 'Phone',
+    settings: 'Settings',
+    updateProfile: 'Update Profile',
+    changePassword: 'Change Password',
+    appLock: 'App Lock',
+    twoStepVerification: 'Two-Step Verification',
+    sessions: 'Devices & Sessions',
+    notifications: 'Notifications',
+    privacyPolicy: 'Privacy Policy',
+    language: 'Language',
+    deviceLanguage: 'Device language',
+    restartTitle: 'Restart Required',
+    restartMessage: 'The app needs to restart to switch the layout direction.',
+    restartNow: 'Restart Now',
+  },
+  login: {
+    title: "Let's you sign in",
+    subtitle: 'Welcome back, you have been missed',
+    username: 'Username',
+    usernamePlaceholder: 'username@email.com',
+    password: 'Password',
+    passwordPlaceholder: '8 Characters / 1 Capital letter',
+    forgotPassword: 'Forgot password?',
+    signIn: 'SIGN IN',
+    invalidResponse: 'Invalid response from server. Please try again.',
+    failed: 'Login failed. Please check your credentials and try again.',
+    demoTitle: 'Demo mode',
+    demoActive: 'Sample data, no server needed. Sign in with any username and password.',
+    demoInactive: 'Use sample data instead of the server',
+    sessionRevoked: 'This device was signed out from another session. Sign in again to continue.',
+    sessionExpired: 'Your session has expired. Please sign in again.',
+  },
+  changePassword: {
+    title: 'Change Password',
+    subtitle: "Enter your new password. Make sure it's strong and secure.",
+    newPassword: 'New Password',
+    newPasswordPlaceholder: 'Enter new password',
+    confirmPassword: 'Confirm Password',
+    confirmPasswordPlaceholder: 'Confirm new password',
+    failed: 'Failed to change password. Please try again.',
+    successTitle: 'Password Updated',
+    successMessage: 'Your password has been updated successfully. You will be logged out for security reasons.',
+  },
+  forgotPassword: {
+    title: 'Forgot Password',
+    subtitle: "Enter the email address on your account and we'll send you a code to reset your password.",
+    email: 'Email',
+    emailPlaceholder: 'username@email.com',
+    submit: 'Send Reset Code',
+    failed: 'Could not send the reset code. Please try again.',
+  },
+  resetPassword: {
+    codeTitle: 'Check Your Email',
+    codeSubtitle: 'Enter the 6-digit code sent to {{email}}, or open the link in the email on this device.',
+    code: 'Reset Code',
+    codePlaceholder: '6-digit code',
+    verify: 'Verify Code',
+    verifyFailed: 'The code could not be verified. Please try again.',
+    resend: 'Resend code',
+    resendIn: 'Resend code in {{seconds}}s',
+    resent: 'A new code is on its way.',
+    demoCode: 'Demo mode: the code is {{code}}',
+    title: 'Set New Password',
+    subtitle: 'Choose a new password for your account. You will be signed in once it is saved.',
+    submit: 'Save and Sign In',
+    failed: 'Could not reset your password. Please try again.',
+  },
+  passwordStrength: {
+    weak: 'Weak',
+    fair: 'Fair',
+    good: 'Good',
+    strong: 'Strong',
+    rules: {
+      length: 'At least 8 characters',
+      uppercase: 'One capital letter',
+      lowercase: 'One lowercase letter',
+      number: 'One number',
+    },
+  },
+  twoFactor: {
+    title: 'Two-Step Verification',
+    statusOn: 'Two-step verification is on',
+    statusOff: 'Two-step verification is off',
+    offDescription: 'Protect your account with a code from an authenticator app each time you sign in.',
+    backupCodesRemaining_one: '{{count}} backup code left',
+    backupCodesRemaining_other: '{{count}} backup codes left',
+    loadFailed: 'Could not load your two-step verification settings.',
+    setUp: 'Set Up',
+    enrollFailed: 'Could not start the setup. Please try again.',
+    scanSubtitle: 'Scan this QR code with an authenticator app such as Google Authenticator or Microsoft Authenticator, then enter the code it shows.',
+    manualEntry: "Can't scan it? Enter this key in the app:",
+    secretCopiedTitle: 'Copied',
+    secretCopiedMessage: 'The setup key was copied to the clipboard.',
+    code: 'Verification Code',
+    codePlaceholder: '6-digit code',
+    demoCode: 'Demo mode: the current code is {{code}}',
+    confirm: 'Verify and Turn On',
+    confirmFailed: 'The code could not be verified. Please try again.',
+    regenerate: 'Get New Backup Codes',
+    regenerateSubtitle: 'Enter your password to replace your backup codes. The old codes stop working.',
+    regenerateFailed: 'Could not create new backup codes. Please try again.',
+    disable: 'Turn Off',
+    disableSubtitle: 'Enter your password to turn off two-step verification. Signing in will only need your password.',
+    disableFailed: 'Could not turn off two-step verification. Please try again.',
+    disabledTitle: 'Two-Step Verification Off',
+    disabledMessage: 'Your backup codes no longer work.',
+    password: 'Password',
+    passwordPlaceholder: 'Enter your password',
+    challengeTitle: 'Two-Step Verification',
+    challengeSubtitle: 'Enter the 6-digit code from your authenticator app.',
+    backupSubtitle: 'Enter one of your backup codes. Each code works once.',
+    backupCode: 'Backup Code',
+    backupCodePlaceholder: 'xxxx-xxxx',
+    useBackupCode: 'Use a backup code instead',
+    useAuthenticator: 'Use your authenticator app instead',
+    verify: 'Verify',
+    verifyFailed: 'The code could not be verified. Please try again.',
+    backToSignIn: 'Back to sign in',
+  },
+  backupCodes: {
+    title: 'Save Your Backup Codes',
+    subtitle: 'If you lose your phone, each code signs you in once. Keep them somewhere safe; they will not be shown again.',
+    fileHeader: 'Diracks two-step verification backup codes. Each code can be used once.',
+    copy: 'Copy',
+    download: 'Download',
+    share: 'Share',
+    copiedTitle: 'Copied',
+    copiedMessage: 'The backup codes were copied to the clipboard.',
+    savedTitle: 'Saved',
+    savedMessage: 'The backup codes were saved as a text file.',
+    done: 'Done',
+  },
+  appLock: {
+    title: 'App Lock',
+    description: 'Ask for a PIN on this device when you return to the app and before sensitive actions.',
+    statusOn: 'App lock is on',
+    statusOff: 'App lock is off',
+    setUp: 'Set Up PIN',
+    createPin: 'Create a PIN',
+    createPinSubtitle: 'Choose a {{length}}-digit PIN for this device.',
+    confirmPin: 'Confirm your PIN',
+    confirmPinSubtitle: 'Enter the same PIN again.',
+    pinMismatch: 'The PINs did not match. Please start again.',
+    biometrics: {
+      face: 'Face ID',
+      fingerprint: 'fingerprint',
+      iris: 'iris',
+    },
+    unlockWith: 'Unlock with {{method}}',
+    biometricsUnavailable: 'No biometrics are set up on this device.',
+    biometricPrompt: 'Unlock Diracks',
+    lockOnBackground: 'Lock when leaving the app',
+    lockOnBackgroundHint: 'Lock as soon as the app goes to the background.',
+    autoLock: 'Auto-lock after inactivity',
+    afterMinutes_one: 'After {{count}} minute',
+    afterMinutes_other: 'After {{count}} minutes',
+    changePin: 'Change PIN',
+    changePinReason: 'Enter your current PIN to change it',
+    turnOff: 'Turn Off App Lock',
+    turnOffReason: 'Enter your PIN to turn off the app lock',
+    lockedTitle: 'Diracks is locked',
+    confirmTitle: 'Confirm it is you',
+    enterPin: 'Enter your PIN',
+    usePin: 'Use PIN',
+    useBiometrics: 'Unlock with biometrics',
+    lockedOut: 'Too many wrong PINs. Try again in {{seconds}} s.',
+    wrongPin_one: 'Wrong PIN. {{count}} attempt left.',
+    wrongPin_other: 'Wrong PIN. {{count}} attempts left.',
+    wrongPinFinal: 'Wrong PIN.',
+    forgotPin: 'Forgot PIN? Sign out',
+    signOutTitle: 'Sign Out',
+    signOutMessage: 'Signing out removes the app lock from this device. You can set a new PIN after signing in again.',
+    deleteDigit: 'Delete digit',
+  },
+  sessions: {
+    title: 'Devices & Sessions',
+    subtitle: 'Devices where your account is signed in. Sign out any device you do not recognize or no longer use.',
+    thisDevice: 'This device',
+    platforms: {
+      ios: 'iOS',
+      android: 'Android',
+      web: 'Web',
+    },
+    branch: 'Branch: {{branch}}',
+    noBranch: 'No branch selected',
+    activeNow: 'Active now',
+    lastSeen: 'Last seen {{time}}',
+    signedIn: 'signed in {{date}}',
+    revoke: 'Sign Out',
+    revokeTitle: 'Sign Out Device',
+    revokeMessage: 'Sign out "{{device}}"? It will need to sign in again.',
+    revokeFailed: 'The device could not be signed out',
+    revokeOthers: 'Sign Out All Other Devices',
+    revokeOthersTitle: 'Sign Out Other Devices',
+    revokeOthersMessage_one: 'Sign out {{count}} other device? Only this device stays signed in.',
+    revokeOthersMessage_other: 'Sign out {{count}} other devices? Only this device stays signed in.',
+    noOtherSessions: 'You are not signed in on any other device.',
+    loadFailed: 'Could not load your sessions.',
+  },
+  permissions: {
+    insufficientTitle: 'Insufficient Access',
+    insufficientMessage: "You don't have permission to view this screen. Ask an administrator for access.",
+    goBack: 'Go Back',
+    noChanges: 'No changes',
+  },
+  bookingAlerts: {
+    created: 'New request',
+    cancelled: 'Request cancelled',
+    confirmed: 'Request confirmed by customer',
+    message: '{{service}} from {{customer}}',
+    more: '+{{count}} more',
+  },
+  roleTemplates: {
+    title: 'Role Templates',
+    subtitle:
+      "Applying a template replaces a staff member's permissions with the template's. Re-sync a template after changing it to update everyone it was applied to.",
+    empty: 'No role templates yet',
+    loadFailed: 'Failed to load templates. Please try again.',
+    unknownStaff: 'Unknown staff',
+    permissionCount_one: '{{count}} permission',
+    permissionCount_other: '{{count}} permissions',
+    staffCount_one: '{{count}} staff',
+    staffCount_other: '{{count}} staff',
+    edit: 'Edit',
+    resync: 'Re-sync',
+    delete: 'Delete',
+    newTemplate: 'New Template',
+    editTemplate: 'Edit Template',
+    name: 'Name',
+    namePlaceholder: 'e.g. Front desk',
+    nameRequired: 'Name is required',
+    description: 'Description',
+    descriptionPlaceholder: 'What this role does',
+    permissionsLabel: 'Permissions ({{count}})',
+    save: 'Save',
+    created: 'Template created successfully',
+    updated: 'Template updated successfully',
+    saveFailed: 'Failed to save template. Please try again.',
+    deleteTitle: 'Delete Template',
+    deleteMessage: 'Delete "{{name}}"? Staff keep the permissions they have.',
+    deleted: 'Template deleted successfully',
+    deleteFailed: 'Failed to delete template. Please try again.',
+    loadPermissionsFailed: 'Failed to load staff permissions. Please try again.',
+    resyncTitle: 'Re-sync {{name}}',
+    applyTo_one: 'Apply to {{count}} staff',
+    applyTo_other: 'Apply to {{count}} staff',
+    applied_one: '{{name}} applied to {{count}} staff',
+    applied_other: '{{name}} applied to {{count}} staff',
+    applyFailed: 'Failed to apply template. Please try again.',
+  },
+  staffPermissions: {
+    applyTemplate: 'Apply Template',
+    makeMatch: 'Make permissions match…',
+    matchTitle: 'Make Permissions Match…',
+    matchWith: 'Match {{name}}',
+    searchStaff: 'Search staffs...',
+    loadingStaff: 'Loading staffs...',
+    noStaff: 'No staffs found',
+    loadStaffFailed: 'Failed to load staffs. Please try again.',
+    loadPermissionsFailed: 'Failed to load permissions. Please try again.',
+    apply: 'Apply',
+    matched: "Permissions now match {{name}}'s",
+    someFailedTitle: 'Some Changes Failed',
+    someFailedMessage: '{{applied}} of {{total}} changes applied. These failed:',
+    notInOrganization: 'Not a permission in this organization',
+    updateFailed: 'Failed to update permissions. Please try again.',
+    loadAccountFailed: 'Failed to load account. Please try again.',
+    accountIdNotFound: 'Account ID not found',
+    assigned: 'Permissions assigned successfully',
+    assignFailed: 'Failed to assign permissions. Please try again.',
+    permissionNotFound: 'Permission not found',
+    removeTitle: 'Remove Permission',
+    removeMessage: 'Are you sure you want to remove "{{name}}"?',
+    remove: 'Remove',
+    removed: 'Permission removed successfully',
+    removeFailed: 'Failed to remove permission. Please try again.',
+    permissionLoadFailed: 'Failed to load permission details. Please try again.',
+    templateApplied: '{{name}} applied successfully',
+    loadingPermissions: 'Loading permissions...',
+    noPermissions: 'No permissions assigned',
+    assignTitle: 'Assign Permissions',
+    searchPermissions: 'Search permissions...',
+    noAvailable: 'No available permissions',
+    noResults: 'No permissions found',
+    loadingTemplates: 'Loading templates...',
+    assign: 'Assign ({{count}})',
+  },
+  incomingRequest: {
+    checkStatusFailed: 'Failed to check status. Please try again.',
+    acceptRequest: 'Accept Request',
+    acceptMessage: 'Are you sure you want to accept this service request? This will notify the customer and wait for their confirmation.',
+    accept: 'Accept',
+    accepted: 'Request accepted successfully. Waiting for customer confirmation.',
+    acceptFailed: 'Failed to accept request. Please try again.',
+    cancelAcceptTitle: 'Cancel Accept Request',
+    cancelAcceptMessage: 'Are you sure you want to cancel the accept request? This action cannot be undone.',
+    no: 'No',
+    yesCancel: 'Yes, Cancel',
+    acceptCancelled: 'Accept request cancelled successfully.',
+    cancelFailed: 'Failed to cancel request. Please try again.',
+    completeOrder: 'Complete Order',
+    completeMessage: 'Are you sure you want to complete this order? This action cannot be undone.',
+    complete: 'Complete',
+    completeLabel: 'Complete order {{code}}',
+    completeQueued: 'You are offline. The order will be completed once you are back online.',
+    completed: 'Order completed successfully',
+    completeFailed: 'Failed to complete order. Please try again.',
+    checkingStatus: 'Checking status...',
+    customerAccepted: 'Customer has accepted your request!',
+    waitingForCustomer: 'Waiting for customer to accept',
+    publishInvoicesFirst: 'Please publish all invoices before completing the order',
+    completionWaiting: 'Completion is waiting to sync',
+    completionFailed: 'Completion could not be synced: {{error}}',
+    orderCompleted: 'Order Completed',
+    orderCompletedMessage: 'This order has been successfully completed.',
+    requestInformation: 'Request Information',
+    bookCode: 'Book Code',
+    bookedDate: 'Booked Date',
+    acceptedDate: 'Accepted Date',
+    description: 'Description',
+    serviceInformation: 'Service Information',
+    serviceName: 'Service Name',
+    serviceMode: 'Service Mode',
+    serviceDescription: 'Service Description',
+    customerInformation: 'Customer Information',
+    name: 'Name',
+    country: 'Country',
+    userNumber: 'User Number',
+    branchInformation: 'Branch Information',
+    branchName: 'Branch Name',
+    location: 'Location',
+    email: 'Email',
+    contact: 'Contact',
+    acceptStatus: 'Accept Status',
+    statusAccepted: 'Accepted',
+    statusCustomerCancelled: 'Customer Cancelled',
+    statusCancelled: 'Cancelled',
+    statusPending: 'Pending',
+    createdAt: 'Created At',
+    lastUpdated: 'Last Updated',
+    organization: 'Organization',
+    branch: 'Branch',
+    service: 'Service',
+    idRequired: 'Request ID is required',
+    loadFailed: 'Failed to load request details. Please try again.',
+    loadingDetails: 'Loading request details...',
+    notFound: 'Request not found',
+    sharedFilesTab: 'Shared Files',
+    invoicesTab: 'Invoices',
+    vehicleProfileTab: 'Vehicle Profile',
+    activitiesTab: 'Activities',
+    loadingActivities: 'Loading activities...',
+    noActivities: 'No activities found',
+    noSharedFiles: 'No shared files',
+    pdfDocument: 'PDF Document',
+    view: 'View',
+    download: 'Download',
+  },
+  invoices: {
+    invoiceDetails: 'Invoice Details',
+    invoiceTitle: 'INVOICE',
+    billTo: 'Bill To:',
+    item: 'Item',
+    total: 'Total',
+    loadingItems: 'Loading items...',
+    noItems: 'No items',
+    subtotalLabel: 'Subtotal:',
+    totalLabel: 'Total:',
+    statusLabel: 'Status:',
+    draft: 'Draft',
+    published: 'Published',
+    paid: 'Paid',
+    paymentReceived: 'Payment Received',
+    received: 'Received',
+    itemRequired: 'Please add at least one valid invoice item with a name',
+    updateInvoice: 'Update Invoice',
+    createInvoice: 'Create Invoice',
+    updateConfirm: 'Are you sure you want to update this invoice?',
+    createConfirm: 'Are you sure you want to create this invoice?',
+    update: 'Update',
+    create: 'Create',
+    updateLabel: 'Update invoice {{number}}',
+    createLabel: 'Create invoice',
+    saveQueued: 'You are offline. The invoice will be saved once you are back online.',
+    updated: 'Invoice updated successfully',
+    created: 'Invoice created successfully',
+    updateFailed: 'Failed to update invoice',
+    createFailed: 'Failed to create invoice',
+    publishTitle: 'Publish Invoice',
+    publishMessage: 'Are you sure you want to publish this invoice? Once published, it will be sent to the customer.',
+    publish: 'Publish',
+    publishedToast: 'Invoice published successfully',
+    publishFailed: 'Failed to publish invoice',
+    receiveTitle: 'Mark Payment as Received',
+    receiveMessage: 'Are you sure you want to mark this payment as received? This action cannot be undone.',
+    markReceived: 'Mark as Received',
+    receivedToast: 'Payment marked as received',
+    receiveFailed: 'Failed to mark payment as received',
+    deleteTitle: 'Delete Invoice',
+    deleteMessage: 'Are you sure you want to delete this invoice? This action cannot be undone.',
+    delete: 'Delete',
+    deleteReason: 'Delete this invoice',
+    deleted: 'Invoice deleted successfully',
+    deleteFailed: 'Failed to delete invoice',
+    syncFailed: 'An invoice change could not be synced. Review it in Pending Sync.',
+    waiting_one: '{{count}} invoice change is waiting to sync',
+    waiting_other: '{{count}} invoice changes are waiting to sync',
+    loading: 'Loading invoices...',
+    empty: 'No invoices found',
+    service: 'Service',
+    customer: 'Customer',
+    branch: 'Branch',
+    discount: 'Discount',
+    preview: 'Preview',
+    waitingForPayment: 'Waiting for payment',
+    markPaid: 'Mark as Paid',
+    editInvoice: 'Edit Invoice',
+    invoiceItems: 'Invoice Items',
+    itemName: 'Item name',
+    amount: 'Amount',
+    quantity: 'Qty',
+    addItem: 'Add Item',
+    discountPercent: 'Discount (%)',
+    saveDraft: 'Save as Draft',
+    dateLabel: 'Date: {{date}}',
+    servedBy: 'Served By:',
+    discountLabel: 'Discount ({{percent}}%):',
+    loadDetailsFailed: 'Failed to load invoice details',
+    close: 'Close',
+  },
+  branchServices: {
+    loadFailed: 'Failed to load services. Please try again.',
+    selectRequired: 'Please select at least one service',
+    added: 'Services added successfully',
+    addFailed: 'Failed to add services. Please try again.',
+    removeTitle: 'Remove Service',
+    removeMessage: 'Are you sure you want to remove "{{name}}" from this branch?',
+    remove: 'Remove',
+    removed: '{{name}} removed successfully',
+    removeFailed: 'Failed to remove service. Please try again.',
+    title: 'Branch Services',
+    empty: 'No services available',
+    emptySubtitle: "This branch doesn't have any services yet",
+    addTitle: 'Add Services to Branch',
+    search: 'Search services...',
+    loading: 'Loading services...',
+    notFound: 'No services found',
+    noneAvailable: 'No available services',
+    add: 'Add ({{count}})',
+  },
+  serviceDetails: {
+    idRequired: 'Service ID is required',
+    loadFailed: 'Failed to load service details. Please try again.',
+    deleteTitle: 'Delete Service',
+    deleteMessage: 'Are you sure you want to delete "{{name}}"? This action cannot be undone.',
+    delete: 'Delete',
+    deleted: 'Service deleted successfully',
+    deleteFailed: 'Failed to delete service. Please try again.',
+    deleteTagTitle: 'Delete Tag',
+    deleteTagMessage: 'Are you sure you want to delete the tag "{{name}}"?',
+    tagDeleted: 'Tag deleted successfully',
+    tagDeleteFailed: 'Failed to delete tag. Please try again.',
+    tagNameRequired: 'Please enter a tag name',
+    tagUpdated: 'Tag updated successfully',
+    tagsRequired: 'Please enter at least one tag',
+    tagsAdded: 'Tags added successfully',
+    tagSaveFailed: 'Failed to save tag. Please try again.',
+    deletePricingTitle: 'Delete Pricing',
+    deletePricingMessage: 'Are you sure you want to delete the pricing "{{name}}"?',
+    pricingDeleted: 'Pricing deleted successfully',
+    pricingDeleteFailed: 'Failed to delete pricing. Please try again.',
+    pricingNameRequired: 'Please enter a pricing name',
+    amountInvalid: 'Please enter a valid amount',
+    discountInvalid: 'Please enter a valid discount',
+    pricingUpdated: 'Pricing updated successfully',
+    pricingAdded: 'Pricing added successfully',
+    pricingSaveFailed: 'Failed to save pricing. Please try again.',
+    nowPublic: 'Service is now public',
+    nowPrivate: 'Service is now private',
+    visibilityFailed: 'Failed to update service visibility. Please try again.',
+    processing: 'Processing Please Wait...',
+    notFound: 'Service not found',
+    title: 'Service Details',
+    public: 'Public',
+    description: 'Description',
+    serviceMode: 'Service Mode',
+    createdBy: 'Created By',
+    tags: 'Tags',
+    noTags: 'No tags added yet',
+    pricing: 'Pricing',
+    noPricing: 'No pricing items added yet',
+    discountAmount: '{{amount}} discount',
+    update: 'Update',
+    visibilityTitle: 'Change Service Visibility',
+    visibilityMessage: 'Choose whether this service should be public or private.',
+    publicDescription: 'Visible to everyone',
+    privateDescription: 'Only visible to you',
+    updating: 'Updating...',
+    editTag: 'Edit Tag',
+    addTags: 'Add Tags',
+    editTagMessage: 'Update the tag name below.',
+    addTagsMessage: 'Enter tag names separated by commas (e.g., mechanical, usv cars, brigg)',
+    tagPlaceholder: 'Enter tag name(s)',
+    saving: 'Saving...',
+    add: 'Add',
+    editPricing: 'Edit Pricing',
+    addPricing: 'Add Pricing',
+    editPricingMessage: 'Update the pricing details below.',
+    addPricingMessage: 'Enter the pricing details for this service.',
+    nameLabel: 'Name *',
+    pricingNamePlaceholder: 'e.g., General Service',
+    descriptionPlaceholder: 'Enter description',
+    amountLabel: 'Amount *',
+    discount: 'Discount',
+    totalAmount: 'Total Amount:',
+    loadingDetails: 'Loading service details...',
+  },
+  upload: {
+    uploadImage: 'Upload Image',
+    uploadImages: 'Upload Images',
+    failed: 'Upload failed',
+    alreadyUploadedTitle: 'File Already Uploaded',
+    alreadyUploadedMessage: 'You can only upload one file at a time. Please remove the current file before uploading a new one.',
+    permissionTitle: 'Permission Required',
+    permissionMessage: 'Sorry, we need camera roll permissions to upload images!',
+    errorTitle: 'Upload Error',
+    pickFailed: 'Failed to pick image. Please try again.',
+    hint: 'Max {{size}} • {{types}}',
+  },
+  locationPicker: {
+    notAvailableTitle: 'Not Available',
+    notAvailableMessage: 'Location services require expo-location package. Please install it: npx expo install expo-location',
+    permissionTitle: 'Permission Denied',
+    permissionMessage: 'Location permission is required to pick your current location.',
+    configTitle: 'Configuration Error',
+    configMessage: 'Google Maps API key is not configured. Please add googleKey to your environment variables.',
+    currentLocation: 'Current Location',
+    currentLocationFailed: 'Failed to get current location. Please try again.',
+    placeholder: 'Select location',
+    title: 'Select Location',
+    gettingLocation: 'Getting location...',
+    pickCurrent: 'Pick Current Location',
+    or: 'OR',
+    searchLabel: 'Search Location (Google Maps)',
+    searchPlaceholder: 'Type to search location...',
+    manualLabel: 'Enter Location Manually',
+    manualPlaceholder: 'Location name (e.g., Nairobi city)',
+    latitude: 'Latitude',
+    longitude: 'Longitude',
+    save: 'Save Location',
+    label: 'Location',
+  },
+  chat: {
+    messageLabel: 'Message to {{name}}',
+    connecting: 'Connecting...',
+    encrypted: 'Messages are end-to-end encrypted',
+    publicBlockchain: 'Payments use a public blockchain.',
+    securedBy: 'Secured by XMTP',
+    orderClosedMessage: 'This order has been closed. You can view previous messages but cannot send new ones.',
+    messagePlaceholder: 'Message',
+    orderClosed: 'Order closed',
+  },
+  services: {
+    title: 'Services',
+    deleteMessage: 'Are you sure you want to delete "{{name}}"?',
+    searchHint: 'Try adjusting your search terms',
+    emptyHint: 'Add a new service to get started',
+  },
+  staff: {
+    loadFailed: 'Failed to load staffs. Please try again.',
+    fallbackName: 'Staff',
+    male: 'Male',
+    female: 'Female',
+    transgender: 'Transgender',
+    unknown: 'Unknown',
+    created: 'Staff created successfully',
+    createFailed: 'Failed to create staff. Please try again.',
+    title: 'Staffs',
+    noResults: 'No staff found',
+    empty: 'No staff available',
+    addTitle: 'Add New Staff',
+    firstNameLabel: 'First Name *',
+    firstNamePlaceholder: 'Enter first name',
+    middleNameLabel: 'Middle Name',
+    middleNamePlaceholder: 'Enter middle name (optional)',
+    lastNameLabel: 'Last Name *',
+    lastNamePlaceholder: 'Enter last name',
+    emailLabel: 'Email *',
+    emailPlaceholder: 'Enter email address',
+    phoneLabel: 'Phone Number *',
+    phonePlaceholder: 'Enter phone number',
+    genderLabel: 'Gender *',
+    birthDateLabel: 'Birth Date *',
+    birthDatePlaceholder: 'Select birth date',
+    create: 'Create Staff',
+    idRequired: 'Staff ID is required',
+    detailsLoadFailed: 'Failed to load staff details. Please try again.',
+    loadingDetails: 'Loading staff details...',
+    notFound: 'Staff not found',
+    detailsTab: 'Details',
+    branchesTab: 'Branches',
+    permissionsTab: 'Permissions',
+    accountTab: 'Account',
+    personalInformation: 'Personal Information',
+    fullName: 'Full Name',
+    birthDate: 'Birth Date',
+    gender: 'Gender',
+    accountInformation: 'Account Information',
+    status: 'Status',
+    verification: 'Verification',
+    userIdRequired: 'User ID is required',
+    accountLoadFailed: 'Failed to load account details. Please try again.',
+    reasonRequired: 'Please provide a reason for this action',
+    lockAccountPrompt: 'Lock this staff account',
+    unlockAccountPrompt: 'Unlock this staff account',
+    accountLocked: 'Account locked successfully',
+    accountUnlocked: 'Account unlocked successfully',
+    accountStatusFailed: 'Failed to update account status. Please try again.',
+    loadingAccount: 'Loading account details...',
+    accountNotFound: 'Account not found',
+    accountStatus: 'Account Status',
+    lockStatus: 'Lock Status',
+    locked: 'Locked',
+    unlocked: 'Unlocked',
+    unlockAccount: 'Unlock Account',
+    lockAccount: 'Lock Account',
+    organizationName: 'Organization Name',
+    serviceProvider: 'Service Provider',
+    reasonLabel: 'Reason *',
+    reasonPlaceholder: 'Enter reason for this action',
+    unlock: 'Unlock',
+    lock: 'Lock',
+    unlockAccountReason: 'Please provide a reason for unlocking this account.',
+    lockAccountReason: 'Please provide a reason for locking this account.',
+    branchesLoadFailed: 'Failed to load staff branches. Please try again.',
+    loadingBranches: 'Loading branches...',
+    noBranches: 'No branches assigned',
+  },
+  branchStaff: {
+    selectStaff: 'Please select at least one staff member',
+    assigned: 'Staff assigned successfully',
+    assignFailed: 'Failed to assign staff. Please try again.',
+    unlockPrompt: 'Unlock this staff member',
+    lockPrompt: 'Lock this staff member',
+    unlocked: 'Staff unlocked successfully',
+    locked: 'Staff locked successfully',
+    statusFailed: 'Failed to update staff status. Please try again.',
+    title: 'Branch Staff',
+    empty: 'No staff members',
+    emptyHint: "This branch doesn't have any staff members yet",
+    addTitle: 'Add Staff to Branch',
+    search: 'Search staff...',
+    loading: 'Loading staff...',
+    noAvailable: 'No available staff',
+    unlockTitle: 'Unlock Staff',
+    lockTitle: 'Lock Staff',
+    add: 'Add ({{count}})',
+    unlockReason: 'Provide a reason for unlocking "{{name}}" from this branch.',
+    lockReason: 'Provide a reason for locking "{{name}}" from this branch.',
+  },
+  switchAccount: {
+    loadFailed: 'Failed to load accounts. Please try again.',
+    branchesLoadFailed: 'Failed to load branches. Please try again.',
+    switchFailed: 'Failed to switch account. Please try again.',
+    welcome: 'Welcome',
+    subtitle: 'Select an organization to continue',
+    empty: 'No organizations found',
+    emptyHint: "You don't have access to any organizations yet.",
+    selectBranch: 'Select Branch',
+    processing: 'Processing Please Wait...',
+    mainBranch: 'Main Branch',
+    branchLocation: 'Branch Location',
+    main: 'Main',
+    noBranches: 'No branches found',
+    noBranchesHint: "This organization doesn't have any branches yet.",
+    createdAt: 'Created {{date}}',
+  },
+  serviceForm: {
+    newTitle: 'New Service',
+    newSubtitle: 'Create a new service. Fill in all the required information.',
+    editTitle: 'Edit Service',
+    editSubtitle: 'Update the service information below.',
+    nameLabel: 'Service Name',
+    namePlaceholder: 'Enter service name',
+    descriptionPlaceholder: 'Enter service description',
+    modeLabel: 'Service Mode',
+    modePlaceholder: 'Select service mode',
+    thumbnailLabel: 'Service Thumbnail',
+    create: 'Create Service',
+    createdTitle: 'Service Created',
+    createdMessage: 'Your service has been created successfully.',
+    createFailed: 'Failed to create service. Please try again.',
+    modesLoadFailed: 'Failed to load service modes. Please try again.',
+    idRequired: 'Service ID is required',
+    loadFailed: 'Failed to load service. Please try again.',
+    updated: 'Service updated successfully',
+    updateFailed: 'Failed to update service. Please try again.',
+    loading: 'Loading service...',
+    update: 'Update Service',
+  },
+  diagnostics: {
+    title: 'Diagnostics',
+    switchTitle: 'Switch Environment',
+    switchMessage: 'You will be signed out and cached data will be cleared.',
+    switch: 'Switch',
+    originInvalid: 'Enter an origin such as https://api.example.com',
+    noDomain: 'No API domain is configured for this environment, so every request will fail. Pick another environment or set API_DOMAIN for the build.',
+    sampleData: 'In-app sample data',
+    notConfigured: 'Not configured',
+    customDomain: 'Custom domain',
+    useCustomDomain: 'Use Custom Domain',
+    switchingDisabled: 'Switching backends is disabled in this build.',
+    permissionRefresh: 'Permission refresh',
+    permissionRefreshHint: 'How often permissions are re-checked while the app is open. They are also re-checked on return to the app, on a 403 and when the server reports a change.',
+    off: 'Off',
+    minutes: '{{count}} min',
+    resetMockData: 'Reset Mock Data',
+    copied: 'Copied',
+    copiedMessage: 'The request was copied as a cURL command. Credentials are redacted.',
+    pending: 'Pending',
+    headers: 'Headers',
+    body: 'Body',
+    copyCurl: 'Copy as cURL',
+    clearLog: 'Clear log',
+    requestsEmpty: 'Requests made by the app appear here.',
+    socketsEmpty: 'Open a chat room to see its connection here.',
+    environmentTab: 'Environment',
+    networkTab: 'Network',
+    socketsTab: 'Sockets',
+    socketActivity: '{{sent}} sent · {{received}} received · opened {{time}}',
+    socketClosed: ' · closed {{time}}',
+    status_connecting: 'Connecting',
+    status_open: 'Open',
+    status_closed: 'Closed',
+    status_error: 'Error',
+  },
+  branches: {
+    loadFailed: 'Failed to load branches. Please try again.',
+    created: 'Branch created successfully',
+    createFailed: 'Failed to create branch. Please try again.',
+    title: 'Branches',
+    search: 'Search branches...',
+    empty: 'No branches available',
+    noResults: 'No branches found',
+    emptyHint: 'Add a new branch to get started',
+    main: 'Main',
+    addTitle: 'Add New Branch',
+    nameLabel: 'Branch Name *',
+    namePlaceholder: 'Enter branch name',
+    contactLabel: 'Contact Number *',
+    cityLabel: 'City *',
+    cityPlaceholder: 'Enter city',
+    countryLabel: 'Country *',
+    countryPlaceholder: 'Select country',
+    descriptionPlaceholder: 'Enter description (optional)',
+    locationLabel: 'Location *',
+    create: 'Create Branch',
+    idRequired: 'Branch ID is required',
+    detailsLoadFailed: 'Failed to load branch details. Please try again.',
+    loadingDetails: 'Loading branch details...',
+    notFound: 'Branch not found',
+    contactInformation: 'Contact Information',
+    address: 'Address',
+    city: 'City',
+    stateProvince: 'State/Province',
+    coordinates: 'Coordinates',
+    information: 'Information',
+    createdOn: 'Created: {{date}}',
+    updatedOn: 'Updated: {{date}}',
+    isMain: 'This is the main branch',
+  },
+  bookingHistory: {
+    title: 'Booking History',
+    search: 'Search by book code, service, customer, or branch...',
+    loading: 'Loading booking history...',
+    empty: 'No booking history available',
+    noResults: 'No bookings found',
+    clearSearch: 'Clear search',
+    completed: 'Completed',
+    declined: 'Declined',
+    ongoing: 'Ongoing',
+  },
+  invoiceHistory: {
+    title: 'Invoice History',
+    search: 'Search by invoice number, service, customer, or branch...',
+    loading: 'Loading invoice history...',
+    empty: 'No invoice history available',
+    loadingDetails: 'Loading invoice details...',
+  },
+  updateProfile: {
+    updateFailed: 'Failed to update profile. Please try again.',
+    subtitle: 'Update your personal information. Make sure all details are accurate.',
+    firstNameLabel: 'First Name',
+    middleNameLabel: 'Middle Name (Optional)',
+    middleNamePlaceholder: 'Enter middle name',
+    lastNameLabel: 'Last Name',
+    genderPlaceholder: 'Select gender',
+    birthDatePlaceholder: 'YYYY-MM-DD (e.g., 1996-05-23)',
+    updatedTitle: 'Profile Updated',
+    updatedMessage: 'Your profile has been updated successfully.',
+  },
+  incomingRequests: {
+    title: 'Incoming Requests',
+    noBranch: 'No branch selected',
+    search: 'Search by service name...',
+    empty: 'No incoming requests',
+    noResults: 'No requests found',
+    searchHint: 'Try adjusting your search',
+    new: 'New',
+    incomingOrders: 'Incoming Orders',
+    viewMore: 'View More',
+  },
+  notifications: {
+    emptyTitle: "There's nothing here",
+    emptySubtitle: "We'll inform you when there's something new.",
+  },
+  chats: {
+    title: 'Chat',
+    search: 'Search by name, book code, or service',
+    loading: 'Loading chats...',
+    noResults: 'No chats found',
+    empty: 'No chats yet',
+  },
+  finance: {
+    loadFailed: 'Failed to load revenue breakdown',
+    refreshFailed: 'Failed to refresh revenue breakdown',
+    revenueBreakdown: 'Revenue Breakdown',
+    title: 'Finance Summary',
+    loading: 'Loading finance data...',
+    empty: 'No revenue data available',
+    totalRevenue: 'Total Revenue',
+    totalInvoices: 'Total Invoices',
+    averagePerInvoice: 'Avg per Invoice',
+    groupBy: 'Group By:',
+    detailedBreakdown: 'Detailed Breakdown',
+    revenue: 'Revenue',
+    invoices: 'Invoices',
+    average: 'Average',
+    group_all: 'All',
+    averagePerInvoiceShort: 'Avg/Invoice',
+  },
+  serviceStats: {
+    loadFailed: 'Failed to load service stats',
+    totalServices: 'Total Services',
+  },
+  vehicleProfile: {
+    loading: 'Loading vehicle profiles...',
+    empty: 'No vehicle profiles found',
+    revoked: 'Revoked',
+    basicInformation: 'Basic Information',
+    licensePlate: 'License Plate',
+    vin: 'VIN',
+    color: 'Color',
+    specifications: 'Specifications',
+    bodyType: 'Body Type',
+    transmission: 'Transmission',
+    drive: 'Drive',
+    fuelType: 'Fuel Type',
+    engineType: 'Engine Type',
+    lastServiceDate: 'Last Service Date',
+    owner: 'Owner',
+  },
+  dateTimePicker: {
+    placeholder: 'Select date',
+    selectDate: 'Select Date',
+    selectTime: 'Select Time',
+    selectDateTime: 'Select Date & Time',
+    done: 'Done',
+  },
+  subscriptionPlans: {
+    empty: 'No subscription plans available',
+    loadFailed: 'Failed to load subscription plans. Please try again.',
+    branches: 'Branches',
+    members: 'Members',
+    services: 'Services',
+    visibility: 'Tadar Visibility',
+    support: 'Support',
+    teamManagement: 'Team Management',
+    reports: 'Reports',
+    autoRenewal: 'Auto Renewal',
+    yes: 'Yes',
+    no: 'No',
+    perMonths_one: '/{{count}} month',
+    perMonths_other: '/{{count}} months',
+    select: 'Select Plan',
+    selected: 'Selected',
+  },
+  onboarding: {
+    title: 'Set Up Your Business',
+    progress: 'Step {{current}} of {{total}}',
+    continue: 'Continue',
+    edit: 'Edit',
+    newBusiness: 'New business?',
+    createAccount: 'Create an account',
+    setUpBusiness: 'Set Up a Business',
+    continueSetup: 'Continue Business Setup',
+    leaveTitle: 'Finish Later?',
+    leaveMessage: 'Your progress is saved. You can continue setting up your business from the organization list.',
+    finishLater: 'Finish Later',
+    steps: {
+      owner: 'Your Account',
+      company: 'Company Details',
+      branch: 'First Branch',
+      services: 'Services',
+      plan: 'Plan',
+      review: 'Review',
+    },
+    owner: {
+      subtitle: 'Create the owner account for your business. You will use it to sign in.',
+      firstName: 'First Name',
+      lastName: 'Last Name',
+      email: 'Email',
+      phone: 'Phone',
+      password: 'Password',
+      confirmPassword: 'Confirm Password',
+      submit: 'Create Account',
+      failed: 'Could not create your account. Please try again.',
+    },
+    company: {
+      subtitle: 'Tell customers who you are.',
+      name: 'Company Name',
+      email: 'Company Email',
+      phone: 'Company Phone',
+      website: 'Website',
+      websitePlaceholder: 'https://example.com',
+      description: 'Description',
+      logo: 'Logo',
+    },
+    branch: {
+      subtitle: 'Where can customers find you? You can add more branches later.',
+      name: 'Branch Name',
+      contact: 'Contact Number',
+      email: 'Branch Email',
+      city: 'City',
+      country: 'Country',
+      selectCountry: 'Select country',
+      description: 'Description',
+      location: 'Location',
+    },
+    services: {
+      subtitle: 'Add the services you offer. Prices and photos can be added later.',
+      name: 'Service Name',
+      description: 'Description',
+      mode: 'Service Mode',
+      selectMode: 'Select service mode',
+      add: 'Add Service',
+      required: 'Add at least one service',
+      modesFailed: 'Failed to load service modes. Please try again.',
+    },
+    plan: {
+      subtitle: 'Choose the plan that fits your business.',
+      required: 'Choose a plan to continue',
+    },
+    review: {
+      subtitle: 'Check your details before creating your business.',
+      logoUploaded: 'Logo uploaded',
+      noLogo: 'No logo',
+      submit: 'Create Business',
+      failed: 'Could not create your business. Please try again.',
+    },
+  },
+  outbox: {
+    needsAttention_one: '{{count}} change needs your attention',
+    needsAttention_other: '{{count}} changes need your attention',
+    waiting_one: '{{count}} change is waiting to sync',
+    waiting_other: '{{count}} changes are waiting to sync',
+  },
+  pendingSync: {
+    title: 'Pending Sync',
+    queued: 'Queued {{time}}',
+    status: {
+      pending: 'Waiting for connection',
+      syncing: 'Syncing',
+      conflict: 'Conflict',
+      failed: 'Failed',
+    },
+    discardTitle: 'Discard Change',
+    discardMessage: '"{{label}}" will not be sent. This action cannot be undone.',
+    emptyTitle: 'Everything is synced',
+    emptySubtitle: 'Changes you make without a connection will wait here until they are sent.',
+  },
+  validation: {
+    failed: 'Validation failed',
+    usernameRequired: 'Username is required',
+    passwordRequired: 'Password is required',
+    passwordMin: 'Password must be at least 8 characters',
+    passwordUppercase: 'Password must contain at least one capital letter',
+    passwordLowercase: 'Password must contain at least one lowercase letter',
+    passwordNumber: 'Password must contain at least one number',
+    confirmPasswordRequired: 'Please confirm your password',
+    passwordsMismatch: 'Passwords do not match',
+    firstNameRequired: 'First name is required',
+    firstNameMin: 'First name must be at least 2 characters',
+    firstNameMax: 'First name must be less than 50 characters',
+    lastNameRequired: 'Last name is required',
+    lastNameMin: 'Last name must be at least 2 characters',
+    lastNameMax: 'Last name must be less than 50 characters',
+    emailRequired: 'Email is required',
+    emailInvalid: 'Please enter a valid email address',
+    phoneRequired: 'Phone number is required',
+    phoneInvalid: 'Please enter a valid phone number',
+    phoneDigits: 'Phone number must contain only digits',
+    dateInvalid: 'Please enter a valid date (YYYY-MM-DD)',
+    birthDateRequired: 'Birth date is required',
+    dateFormat: 'Date must be in YYYY-MM-DD format',
+    companyNameRequired: 'Company name is required',
+    companyNameMin: 'Company name must be at least 2 characters',
+    companyNameMax: 'Company name must be less than 100 characters',
+    zipCodeInvalid: 'Please enter a valid zip/postal code',
+    websiteInvalid: 'Please enter a valid website URL',
+    descriptionMax: 'Description must be less than 500 characters',
+    branchNameRequired: 'Branch name is required',
+    branchNameMin: 'Branch name must be at least 2 characters',
+    branchNameMax: 'Branch name must be less than 100 characters',
+    contactRequired: 'Contact number is required',
+    cityRequired: 'City is required',
+    cityMin: 'City must be at least 2 characters',
+    countryRequired: 'Country is required',
+    locationRequired: 'Location is required',
+    latitudeInvalid: 'Invalid latitude',
+    longitudeInvalid: 'Invalid longitude',
+    accuracyMin: 'Accuracy must be 0 or greater',
+    codeRequired: 'Code is required',
+    codeInvalid: 'Enter the 6-digit code from the email',
+    serviceNameRequired: 'Service name is required',
+    descriptionRequired: 'Description is required',
+    serviceModeRequired: 'Service mode is required',
+    authenticatorCodeInvalid: 'Enter the 6-digit code from your authenticator app',
+    backupCodeInvalid: 'Enter a backup code like xxxx-xxxx',
+    serviceNameMin: 'Service name must be at least 2 characters',
+    serviceNameMax: 'Service name must be less than 100 characters',
+    descriptionMin: 'Description must be at least 10 characters',
+    genderRequired: 'Gender is required',
+    genderInvalid: 'Invalid gender selection',
+  },
+  time: {
+    justNow: 'just now',
+    today: 'Today',
+    yesterday: 'Yesterday',
+    minutesAgo_one: '{{count}} minute ago',
+    minutesAgo_other: '{{count}} minutes ago',
+    hoursAgo_one: '{{count}} hour ago',
+    hoursAgo_other: '{{count}} hours ago',
+    daysAgo_one: '{{count}} day ago',
+    daysAgo_other: '{{count}} days ago',
+    monthsAgo_one: '{{count}} month ago',
+    monthsAgo_other: '{{count}} months ago',
+    yearsAgo_one: '{{count}} year ago',
+    yearsAgo_other: '{{count}} years ago',
+  },
+};
+
+export default en;
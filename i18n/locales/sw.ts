@@ -0,0 +1,1138 @@
+/**
+ * Swahili catalog
+ */
+import type { PartialCatalog } from '../types';
+
+const sw: PartialCatalog = {
+  common: {
+    cancel: 'Ghairi',
+    ok: 'Sawa',
+    retry: 'Jaribu tena',
+    discard: 'Tupa',
+    later: 'Baadaye',
+    user: 'Mtumiaji',
+    notSelected: 'Haijachaguliwa',
+    notAvailable: 'Hakuna',
+    never: 'Kamwe',
+    invalidDate: 'Tarehe si sahihi',
+    selectOption: 'Chagua chaguo',
+    viewAll: 'Tazama Zote',
+    unlimited: 'Bila kikomo',
+    expired: 'Imeisha muda',
+    private: 'Binafsi',
+    error: 'Hitilafu',
+    goBack: 'Rudi Nyuma',
+    active: 'Inatumika',
+    inactive: 'Hatumiki',
+    verified: 'Amethibitishwa',
+    notVerified: 'Hajathibitishwa',
+    yes: 'Ndiyo',
+    no: 'Hapana',
+    created: 'Imeundwa',
+    lastUpdated: 'Ilisasishwa Mwisho',
+    metadata: 'Metadata',
+    description: 'Maelezo',
+  },
+  auth: {
+    logoutTitle: 'Toka',
+    logoutMessage: 'Una uhakika unataka kutoka?',
+    logout: 'Toka',
+    unsyncedChanges_one: 'Badiliko {{count}} lililofanywa nje ya mtandao bado halijatumwa. Ukitoka litafutwa.',
+    unsyncedChanges_other: 'Mabadiliko {{count}} yaliyofanywa nje ya mtandao bado hayajatumwa. Ukitoka yatafutwa.',
+  },
+  tabs: {
+    home: 'Nyumbani',
+    services: 'Huduma',
+    branches: 'Matawi',
+    chats: 'Mazungumzo',
+    profile: 'Wasifu',
+  },
+  home: {
+    greeting: 'Habari, {{name}}',
+    goodMorning: 'Habari za Asubuhi',
+    goodAfternoon: 'Habari za Mchana',
+    goodEvening: 'Habari za Jioni',
+    incoming: 'Zinazoingia',
+    pendingRequests: 'Maombi yanayosubiri',
+    ongoing: 'Zinazoendelea',
+    activeRequests: 'Maombi yanayoendelea',
+    subscription: 'Usajili',
+    datePurchased: 'Tarehe ya Ununuzi',
+    dateOfExpiry: 'Tarehe ya Kuisha',
+    neverExpires: 'Haiishi Muda',
+    servicesAnalysis: 'Uchambuzi wa Huduma',
+    subscriptionPlans: 'Mipango ya Usajili',
+    subscriptionPlansSubtitle: 'Tazama na udhibiti mipango yako',
+    quickActions: 'Vitendo vya Haraka',
+    recentServices: 'Huduma za Hivi Karibuni',
+    noServices: 'Hakuna huduma zilizopo',
+    actions: {
+      finance: 'Fedha',
+      members: 'Wanachama',
+      branches: 'Matawi',
+      history: 'Historia',
+      invoices: 'Ankara',
+      plans: 'Mipango',
+    },
+  },
+  profile: {
+    title: 'Wasifu',
+    idNumber: 'Nambari ya Kitambulisho: {{number}}',
+    standardMember: 'Mwanachama wa Kawaida',
+    company: 'Kampuni',
+    activeBranch: 'Tawi Linalotumika',
+    branchEmail: 'Barua Pepe ya Tawi',
+    email: 'Barua Pepe',
+    phone: 'Simu',
+    settings: 'Mipangilio',
+    updateProfile: 'Sasisha Wasifu',
+    changePassword: 'Badilisha Nenosiri',
+    appLock: 'Kufunga Programu',
+    twoStepVerification: 'Uthibitishaji wa Hatua Mbili',
+    sessions: 'Vifaa na Vipindi',
+    notifications: 'Arifa',
+    privacyPolicy: 'Sera ya Faragha',
+    language: 'Lugha',
+    deviceLanguage: 'Lugha ya kifaa',
+    restartTitle: 'Inahitaji Kuanzishwa Upya',
+    restartMessage: 'Programu inahitaji kuanzishwa upya ili kubadilisha mwelekeo wa mpangilio.',
+    restartNow: 'Anzisha Upya Sasa',
+  },
+  login: {
+    title: 'Ingia kwenye akaunti',
+    subtitle: 'Karibu tena, tulikukumbuka',
+    username: 'Jina la mtumiaji',
+    usernamePlaceholder: 'jina@barua.com',
+    password: 'Nenosiri',
+    passwordPlaceholder: 'Herufi 8 / Herufi kubwa 1',
+    forgotPassword: 'Umesahau nenosiri?',
+    signIn: 'INGIA',
+    invalidResponse: 'Jibu batili kutoka kwa seva. Tafadhali jaribu tena.',
+    failed: 'Imeshindwa kuingia. Tafadhali hakiki taarifa zako na ujaribu tena.',
+    demoTitle: 'Hali ya maonyesho',
+    demoActive: 'Data ya mfano, hakuna seva inayohitajika. Ingia kwa jina na nenosiri lolote.',
+    demoInactive: 'Tumia data ya mfano badala ya seva',
+    sessionRevoked: 'Kifaa hiki kilitolewa kutoka kipindi kingine. Ingia tena ili kuendelea.',
+    sessionExpired: 'Kipindi chako kimeisha. Tafadhali ingia tena.',
+  },
+  changePassword: {
+    title: 'Badilisha Nenosiri',
+    subtitle: 'Weka nenosiri jipya. Hakikisha ni imara na salama.',
+    newPassword: 'Nenosiri Jipya',
+    newPasswordPlaceholder: 'Weka nenosiri jipya',
+    confirmPassword: 'Thibitisha Nenosiri',
+    confirmPasswordPlaceholder: 'Thibitisha nenosiri jipya',
+    failed: 'Imeshindwa kubadilisha nenosiri. Tafadhali jaribu tena.',
+    successTitle: 'Nenosiri Limesasishwa',
+    successMessage: 'Nenosiri lako limesasishwa. Utatolewa nje kwa sababu za usalama.',
+  },
+  forgotPassword: {
+    title: 'Umesahau Nenosiri',
+    subtitle: 'Weka barua pepe ya akaunti yako na tutakutumia msimbo wa kuweka upya nenosiri.',
+    email: 'Barua Pepe',
+    emailPlaceholder: 'jina@barua.com',
+    submit: 'Tuma Msimbo',
+    failed: 'Imeshindwa kutuma msimbo. Tafadhali jaribu tena.',
+  },
+  resetPassword: {
+    codeTitle: 'Angalia Barua Pepe Yako',
+    codeSubtitle: 'Weka msimbo wa tarakimu 6 uliotumwa kwa {{email}}, au fungua kiungo kwenye barua pepe.',
+    code: 'Msimbo',
+    codePlaceholder: 'Msimbo wa tarakimu 6',
+    verify: 'Thibitisha Msimbo',
+    verifyFailed: 'Imeshindwa kuthibitisha msimbo. Tafadhali jaribu tena.',
+    resend: 'Tuma msimbo tena',
+    resendIn: 'Tuma msimbo tena baada ya sekunde {{seconds}}',
+    resent: 'Msimbo mpya unatumwa.',
+    demoCode: 'Hali ya maonyesho: msimbo ni {{code}}',
+    title: 'Weka Nenosiri Jipya',
+    subtitle: 'Chagua nenosiri jipya la akaunti yako. Utaingizwa mara litakapohifadhiwa.',
+    submit: 'Hifadhi na Uingie',
+    failed: 'Imeshindwa kuweka upya nenosiri. Tafadhali jaribu tena.',
+  },
+  passwordStrength: {
+    weak: 'Dhaifu',
+    fair: 'Wastani',
+    good: 'Nzuri',
+    strong: 'Imara',
+    rules: {
+      length: 'Angalau herufi 8',
+      uppercase: 'Herufi kubwa moja',
+      lowercase: 'Herufi ndogo moja',
+      number: 'Nambari moja',
+    },
+  },
+  twoFactor: {
+    title: 'Uthibitishaji wa Hatua Mbili',
+    statusOn: 'Uthibitishaji wa hatua mbili umewashwa',
+    statusOff: 'Uthibitishaji wa hatua mbili umezimwa',
+    offDescription: 'Linda akaunti yako kwa msimbo kutoka programu ya uthibitishaji kila unapoingia.',
+    backupCodesRemaining_one: 'Imebaki misimbo {{count}} ya akiba',
+    backupCodesRemaining_other: 'Imebaki misimbo {{count}} ya akiba',
+    loadFailed: 'Imeshindwa kupakia mipangilio ya uthibitishaji wa hatua mbili.',
+    setUp: 'Washa',
+    enrollFailed: 'Imeshindwa kuanza kuweka. Tafadhali jaribu tena.',
+    scanSubtitle: 'Changanua msimbo huu wa QR kwa programu ya uthibitishaji kama Google Authenticator au Microsoft Authenticator, kisha weka msimbo inaoonyesha.',
+    manualEntry: 'Huwezi kuchanganua? Weka ufunguo huu kwenye programu:',
+    secretCopiedTitle: 'Imenakiliwa',
+    secretCopiedMessage: 'Ufunguo umenakiliwa kwenye ubao wa kunakili.',
+    code: 'Msimbo wa Uthibitishaji',
+    codePlaceholder: 'Msimbo wa tarakimu 6',
+    demoCode: 'Hali ya majaribio: msimbo wa sasa ni {{code}}',
+    confirm: 'Thibitisha na Washa',
+    confirmFailed: 'Msimbo haukuweza kuthibitishwa. Tafadhali jaribu tena.',
+    regenerate: 'Pata Misimbo Mipya ya Akiba',
+    regenerateSubtitle: 'Weka nenosiri lako ili kubadilisha misimbo yako ya akiba. Misimbo ya zamani haitafanya kazi tena.',
+    regenerateFailed: 'Imeshindwa kuunda misimbo mipya ya akiba. Tafadhali jaribu tena.',
+    disable: 'Zima',
+    disableSubtitle: 'Weka nenosiri lako ili kuzima uthibitishaji wa hatua mbili. Kuingia kutahitaji nenosiri pekee.',
+    disableFailed: 'Imeshindwa kuzima uthibitishaji wa hatua mbili. Tafadhali jaribu tena.',
+    disabledTitle: 'Uthibitishaji wa Hatua Mbili Umezimwa',
+    disabledMessage: 'Misimbo yako ya akiba haifanyi kazi tena.',
+    password: 'Nenosiri',
+    passwordPlaceholder: 'Weka nenosiri lako',
+    challengeTitle: 'Uthibitishaji wa Hatua Mbili',
+    challengeSubtitle: 'Weka msimbo wa tarakimu 6 kutoka programu yako ya uthibitishaji.',
+    backupSubtitle: 'Weka mmoja wa misimbo yako ya akiba. Kila msimbo hufanya kazi mara moja.',
+    backupCode: 'Msimbo wa Akiba',
+    backupCodePlaceholder: 'xxxx-xxxx',
+    useBackupCode: 'Tumia msimbo wa akiba badala yake',
+    useAuthenticator: 'Tumia programu ya uthibitishaji badala yake',
+    verify: 'Thibitisha',
+    verifyFailed: 'Msimbo haukuweza kuthibitishwa. Tafadhali jaribu tena.',
+    backToSignIn: 'Rudi kuingia',
+  },
+  backupCodes: {
+    title: 'Hifadhi Misimbo Yako ya Akiba',
+    subtitle: 'Ukipoteza simu yako, kila msimbo utakuingiza mara moja. Iweke mahali salama; haitaonyeshwa tena.',
+    fileHeader: 'Misimbo ya akiba ya uthibitishaji wa hatua mbili wa Diracks. Kila msimbo hutumika mara moja.',
+    copy: 'Nakili',
+    download: 'Pakua',
+    share: 'Shiriki',
+    copiedTitle: 'Imenakiliwa',
+    copiedMessage: 'Misimbo ya akiba imenakiliwa kwenye ubao wa kunakili.',
+    savedTitle: 'Imehifadhiwa',
+    savedMessage: 'Misimbo ya akiba imehifadhiwa kama faili la maandishi.',
+    done: 'Nimemaliza',
+  },
+  appLock: {
+    title: 'Kufunga Programu',
+    description: 'Omba PIN kwenye kifaa hiki unaporudi kwenye programu na kabla ya vitendo nyeti.',
+    statusOn: 'Kufunga programu kumewashwa',
+    statusOff: 'Kufunga programu kumezimwa',
+    setUp: 'Weka PIN',
+    createPin: 'Unda PIN',
+    createPinSubtitle: 'Chagua PIN ya tarakimu {{length}} kwa kifaa hiki.',
+    confirmPin: 'Thibitisha PIN yako',
+    confirmPinSubtitle: 'Weka PIN ileile tena.',
+    pinMismatch: 'PIN hazikulingana. Tafadhali anza upya.',
+    biometrics: {
+      face: 'Face ID',
+      fingerprint: 'alama ya kidole',
+      iris: 'iris',
+    },
+    unlockWith: 'Fungua kwa {{method}}',
+    biometricsUnavailable: 'Hakuna bayometriki zilizowekwa kwenye kifaa hiki.',
+    biometricPrompt: 'Fungua Diracks',
+    lockOnBackground: 'Funga unapotoka kwenye programu',
+    lockOnBackgroundHint: 'Funga mara tu programu inapoenda nyuma.',
+    autoLock: 'Funga kiotomatiki baada ya kutotumika',
+    afterMinutes_one: 'Baada ya dakika {{count}}',
+    afterMinutes_other: 'Baada ya dakika {{count}}',
+    changePin: 'Badilisha PIN',
+    changePinReason: 'Weka PIN yako ya sasa ili kuibadilisha',
+    turnOff: 'Zima Kufunga Programu',
+    turnOffReason: 'Weka PIN yako ili kuzima kufunga programu',
+    lockedTitle: 'Diracks imefungwa',
+    confirmTitle: 'Thibitisha kuwa ni wewe',
+    enterPin: 'Weka PIN yako',
+    usePin: 'Tumia PIN',
+    useBiometrics: 'Fungua kwa bayometriki',
+    lockedOut: 'PIN zisizo sahihi ni nyingi mno. Jaribu tena baada ya sekunde {{seconds}}.',
+    wrongPin_one: 'PIN si sahihi. Limebaki jaribio {{count}}.',
+    wrongPin_other: 'PIN si sahihi. Yamebaki majaribio {{count}}.',
+    wrongPinFinal: 'PIN si sahihi.',
+    forgotPin: 'Umesahau PIN? Toka',
+    signOutTitle: 'Toka',
+    signOutMessage: 'Kutoka kunaondoa kufunga programu kwenye kifaa hiki. Unaweza kuweka PIN mpya baada ya kuingia tena.',
+    deleteDigit: 'Futa tarakimu',
+  },
+  sessions: {
+    title: 'Vifaa na Vipindi',
+    subtitle: 'Vifaa ambavyo akaunti yako imeingia. Toa kifaa chochote usichokitambua au usichokitumia tena.',
+    thisDevice: 'Kifaa hiki',
+    platforms: {
+      ios: 'iOS',
+      android: 'Android',
+      web: 'Wavuti',
+    },
+    branch: 'Tawi: {{branch}}',
+    noBranch: 'Hakuna tawi lililochaguliwa',
+    activeNow: 'Kinatumika sasa',
+    lastSeen: 'Kilionekana mwisho {{time}}',
+    signedIn: 'kiliingia {{date}}',
+    revoke: 'Toa',
+    revokeTitle: 'Toa Kifaa',
+    revokeMessage: 'Toa "{{device}}"? Kitahitaji kuingia tena.',
+    revokeFailed: 'Kifaa hakikuweza kutolewa',
+    revokeOthers: 'Toa Vifaa Vingine Vyote',
+    revokeOthersTitle: 'Toa Vifaa Vingine',
+    revokeOthersMessage_one: 'Toa kifaa {{count}} kingine? Kifaa hiki pekee kitabaki kimeingia.',
+    revokeOthersMessage_other: 'Toa vifaa {{count}} vingine? Kifaa hiki pekee kitabaki kimeingia.',
+    noOtherSessions: 'Hujaingia kwenye kifaa kingine chochote.',
+    loadFailed: 'Imeshindikana kupakia vipindi vyako.',
+  },
+  permissions: {
+    insufficientTitle: 'Huna ruhusa ya kutosha',
+    insufficientMessage: 'Huna ruhusa ya kuona skrini hii. Muombe msimamizi akupe ruhusa.',
+    goBack: 'Rudi nyuma',
+    noChanges: 'Hakuna mabadiliko',
+  },
+  bookingAlerts: {
+    created: 'Ombi jipya',
+    cancelled: 'Ombi limeghairiwa',
+    confirmed: 'Mteja amethibitisha ombi',
+    message: '{{service}} kutoka kwa {{customer}}',
+    more: '+{{count}} zaidi',
+  },
+  roleTemplates: {
+    title: 'Violezo vya Majukumu',
+    subtitle:
+      'Kutumia kiolezo hubadilisha ruhusa za mfanyakazi kuwa za kiolezo. Sawazisha upya kiolezo baada ya kukibadilisha ili kusasisha kila mtu aliyepewa.',
+    empty: 'Bado hakuna violezo vya majukumu',
+    loadFailed: 'Imeshindwa kupakia violezo. Tafadhali jaribu tena.',
+    unknownStaff: 'Mfanyakazi asiyejulikana',
+    permissionCount_one: 'ruhusa {{count}}',
+    permissionCount_other: 'ruhusa {{count}}',
+    staffCount_one: 'mfanyakazi {{count}}',
+    staffCount_other: 'wafanyakazi {{count}}',
+    edit: 'Hariri',
+    resync: 'Sawazisha upya',
+    delete: 'Futa',
+    newTemplate: 'Kiolezo Kipya',
+    editTemplate: 'Hariri Kiolezo',
+    name: 'Jina',
+    namePlaceholder: 'mf. Mapokezi',
+    nameRequired: 'Jina linahitajika',
+    description: 'Maelezo',
+    descriptionPlaceholder: 'Jukumu hili hufanya nini',
+    permissionsLabel: 'Ruhusa ({{count}})',
+    save: 'Hifadhi',
+    created: 'Kiolezo kimeundwa',
+    updated: 'Kiolezo kimesasishwa',
+    saveFailed: 'Imeshindwa kuhifadhi kiolezo. Tafadhali jaribu tena.',
+    deleteTitle: 'Futa Kiolezo',
+    deleteMessage: 'Futa "{{name}}"? Wafanyakazi watabaki na ruhusa walizonazo.',
+    deleted: 'Kiolezo kimefutwa',
+    deleteFailed: 'Imeshindwa kufuta kiolezo. Tafadhali jaribu tena.',
+    loadPermissionsFailed: 'Imeshindwa kupakia ruhusa za wafanyakazi. Tafadhali jaribu tena.',
+    resyncTitle: 'Sawazisha upya {{name}}',
+    applyTo_one: 'Tumia kwa mfanyakazi {{count}}',
+    applyTo_other: 'Tumia kwa wafanyakazi {{count}}',
+    applied_one: '{{name}} kimetumika kwa mfanyakazi {{count}}',
+    applied_other: '{{name}} kimetumika kwa wafanyakazi {{count}}',
+    applyFailed: 'Imeshindwa kutumia kiolezo. Tafadhali jaribu tena.',
+  },
+  staffPermissions: {
+    applyTemplate: 'Tumia Kiolezo',
+    makeMatch: 'Linganisha ruhusa…',
+    matchTitle: 'Linganisha Ruhusa…',
+    matchWith: 'Linganisha na {{name}}',
+    searchStaff: 'Tafuta wafanyakazi...',
+    loadingStaff: 'Inapakia wafanyakazi...',
+    noStaff: 'Hakuna wafanyakazi waliopatikana',
+    loadStaffFailed: 'Imeshindwa kupakia wafanyakazi. Tafadhali jaribu tena.',
+    loadPermissionsFailed: 'Imeshindwa kupakia ruhusa. Tafadhali jaribu tena.',
+    apply: 'Tumia',
+    matched: 'Ruhusa sasa zinalingana na za {{name}}',
+    someFailedTitle: 'Baadhi ya Mabadiliko Yameshindwa',
+    someFailedMessage: 'Mabadiliko {{applied}} kati ya {{total}} yametumika. Haya yameshindwa:',
+    notInOrganization: 'Si ruhusa ya shirika hili',
+    updateFailed: 'Imeshindwa kusasisha ruhusa. Tafadhali jaribu tena.',
+    loadAccountFailed: 'Imeshindwa kupakia akaunti. Tafadhali jaribu tena.',
+    accountIdNotFound: 'Kitambulisho cha akaunti hakikupatikana',
+    assigned: 'Ruhusa zimetolewa',
+    assignFailed: 'Imeshindwa kutoa ruhusa. Tafadhali jaribu tena.',
+    permissionNotFound: 'Ruhusa haikupatikana',
+    removeTitle: 'Ondoa Ruhusa',
+    removeMessage: 'Una uhakika unataka kuondoa "{{name}}"?',
+    remove: 'Ondoa',
+    removed: 'Ruhusa imeondolewa',
+    removeFailed: 'Imeshindwa kuondoa ruhusa. Tafadhali jaribu tena.',
+    permissionLoadFailed: 'Imeshindwa kupakia maelezo ya ruhusa. Tafadhali jaribu tena.',
+    templateApplied: '{{name}} imetumika',
+    loadingPermissions: 'Inapakia ruhusa...',
+    noPermissions: 'Hakuna ruhusa zilizotolewa',
+    assignTitle: 'Toa Ruhusa',
+    searchPermissions: 'Tafuta ruhusa...',
+    noAvailable: 'Hakuna ruhusa zinazopatikana',
+    noResults: 'Hakuna ruhusa zilizopatikana',
+    loadingTemplates: 'Inapakia violezo...',
+    assign: 'Toa ({{count}})',
+  },
+  incomingRequest: {
+    checkStatusFailed: 'Imeshindwa kukagua hali. Tafadhali jaribu tena.',
+    acceptRequest: 'Kubali Ombi',
+    acceptMessage: 'Una uhakika unataka kukubali ombi hili la huduma? Mteja atajulishwa na tutasubiri athibitishe.',
+    accept: 'Kubali',
+    accepted: 'Ombi limekubaliwa. Inasubiri uthibitisho wa mteja.',
+    acceptFailed: 'Imeshindwa kukubali ombi. Tafadhali jaribu tena.',
+    cancelAcceptTitle: 'Ghairi Ukubali wa Ombi',
+    cancelAcceptMessage: 'Una uhakika unataka kughairi ukubali wa ombi? Kitendo hiki hakiwezi kutenduliwa.',
+    no: 'Hapana',
+    yesCancel: 'Ndiyo, Ghairi',
+    acceptCancelled: 'Ukubali wa ombi umeghairiwa.',
+    cancelFailed: 'Imeshindwa kughairi ombi. Tafadhali jaribu tena.',
+    completeOrder: 'Kamilisha Oda',
+    completeMessage: 'Una uhakika unataka kukamilisha oda hii? Kitendo hiki hakiwezi kutenduliwa.',
+    complete: 'Kamilisha',
+    completeLabel: 'Kamilisha oda {{code}}',
+    completeQueued: 'Huna mtandao. Oda itakamilishwa utakaporudi mtandaoni.',
+    completed: 'Oda imekamilishwa',
+    completeFailed: 'Imeshindwa kukamilisha oda. Tafadhali jaribu tena.',
+    checkingStatus: 'Inakagua hali...',
+    customerAccepted: 'Mteja amekubali ombi lako!',
+    waitingForCustomer: 'Inasubiri mteja akubali',
+    publishInvoicesFirst: 'Tafadhali chapisha ankara zote kabla ya kukamilisha oda',
+    completionWaiting: 'Ukamilishaji unasubiri kusawazishwa',
+    completionFailed: 'Ukamilishaji haukuweza kusawazishwa: {{error}}',
+    orderCompleted: 'Oda Imekamilika',
+    orderCompletedMessage: 'Oda hii imekamilishwa.',
+    requestInformation: 'Taarifa za Ombi',
+    bookCode: 'Namba ya Uhifadhi',
+    bookedDate: 'Tarehe ya Uhifadhi',
+    acceptedDate: 'Tarehe ya Kukubaliwa',
+    description: 'Maelezo',
+    serviceInformation: 'Taarifa za Huduma',
+    serviceName: 'Jina la Huduma',
+    serviceMode: 'Aina ya Huduma',
+    serviceDescription: 'Maelezo ya Huduma',
+    customerInformation: 'Taarifa za Mteja',
+    name: 'Jina',
+    country: 'Nchi',
+    userNumber: 'Namba ya Mtumiaji',
+    branchInformation: 'Taarifa za Tawi',
+    branchName: 'Jina la Tawi',
+    location: 'Mahali',
+    email: 'Barua pepe',
+    contact: 'Mawasiliano',
+    acceptStatus: 'Hali ya Ukubali',
+    statusAccepted: 'Imekubaliwa',
+    statusCustomerCancelled: 'Mteja Ameghairi',
+    statusCancelled: 'Imeghairiwa',
+    statusPending: 'Inasubiri',
+    createdAt: 'Iliundwa',
+    lastUpdated: 'Ilisasishwa Mwisho',
+    organization: 'Shirika',
+    branch: 'Tawi',
+    service: 'Huduma',
+    idRequired: 'Kitambulisho cha ombi kinahitajika',
+    loadFailed: 'Imeshindwa kupakia maelezo ya ombi. Tafadhali jaribu tena.',
+    loadingDetails: 'Inapakia maelezo ya ombi...',
+    notFound: 'Ombi halikupatikana',
+    sharedFilesTab: 'Faili Zilizoshirikiwa',
+    invoicesTab: 'Ankara',
+    vehicleProfileTab: 'Wasifu wa Gari',
+    activitiesTab: 'Shughuli',
+    loadingActivities: 'Inapakia shughuli...',
+    noActivities: 'Hakuna shughuli zilizopatikana',
+    noSharedFiles: 'Hakuna faili zilizoshirikiwa',
+    pdfDocument: 'Hati ya PDF',
+    view: 'Tazama',
+    download: 'Pakua',
+  },
+  invoices: {
+    invoiceDetails: 'Maelezo ya Ankara',
+    invoiceTitle: 'ANKARA',
+    billTo: 'Kwa:',
+    item: 'Bidhaa',
+    total: 'Jumla',
+    loadingItems: 'Inapakia bidhaa...',
+    noItems: 'Hakuna bidhaa',
+    subtotalLabel: 'Jumla ndogo:',
+    totalLabel: 'Jumla:',
+    statusLabel: 'Hali:',
+    draft: 'Rasimu',
+    published: 'Imechapishwa',
+    paid: 'Imelipwa',
+    paymentReceived: 'Malipo Yamepokelewa',
+    received: 'Imepokelewa',
+    itemRequired: 'Tafadhali ongeza angalau bidhaa moja halali yenye jina',
+    updateInvoice: 'Sasisha Ankara',
+    createInvoice: 'Unda Ankara',
+    updateConfirm: 'Una uhakika unataka kusasisha ankara hii?',
+    createConfirm: 'Una uhakika unataka kuunda ankara hii?',
+    update: 'Sasisha',
+    create: 'Unda',
+    updateLabel: 'Sasisha ankara {{number}}',
+    createLabel: 'Unda ankara',
+    saveQueued: 'Huna mtandao. Ankara itahifadhiwa utakaporudi mtandaoni.',
+    updated: 'Ankara imesasishwa',
+    created: 'Ankara imeundwa',
+    updateFailed: 'Imeshindwa kusasisha ankara',
+    createFailed: 'Imeshindwa kuunda ankara',
+    publishTitle: 'Chapisha Ankara',
+    publishMessage: 'Una uhakika unataka kuchapisha ankara hii? Ikishachapishwa, itatumwa kwa mteja.',
+    publish: 'Chapisha',
+    publishedToast: 'Ankara imechapishwa',
+    publishFailed: 'Imeshindwa kuchapisha ankara',
+    receiveTitle: 'Weka Malipo Kuwa Yamepokelewa',
+    receiveMessage: 'Una uhakika unataka kuweka malipo haya kuwa yamepokelewa? Kitendo hiki hakiwezi kutenduliwa.',
+    markReceived: 'Weka Kuwa Yamepokelewa',
+    receivedToast: 'Malipo yamewekwa kuwa yamepokelewa',
+    receiveFailed: 'Imeshindwa kuweka malipo kuwa yamepokelewa',
+    deleteTitle: 'Futa Ankara',
+    deleteMessage: 'Una uhakika unataka kufuta ankara hii? Kitendo hiki hakiwezi kutenduliwa.',
+    delete: 'Futa',
+    deleteReason: 'Futa ankara hii',
+    deleted: 'Ankara imefutwa',
+    deleteFailed: 'Imeshindwa kufuta ankara',
+    syncFailed: 'Badiliko la ankara halikuweza kusawazishwa. Likague kwenye Zinazosubiri Kusawazishwa.',
+    waiting_one: 'Badiliko {{count}} la ankara linasubiri kusawazishwa',
+    waiting_other: 'Mabadiliko {{count}} ya ankara yanasubiri kusawazishwa',
+    loading: 'Inapakia ankara...',
+    empty: 'Hakuna ankara zilizopatikana',
+    service: 'Huduma',
+    customer: 'Mteja',
+    branch: 'Tawi',
+    discount: 'Punguzo',
+    preview: 'Hakiki',
+    waitingForPayment: 'Inasubiri malipo',
+    markPaid: 'Weka Kuwa Imelipwa',
+    editInvoice: 'Hariri Ankara',
+    invoiceItems: 'Bidhaa za Ankara',
+    itemName: 'Jina la bidhaa',
+    amount: 'Kiasi',
+    quantity: 'Idadi',
+    addItem: 'Ongeza Bidhaa',
+    discountPercent: 'Punguzo (%)',
+    saveDraft: 'Hifadhi kama Rasimu',
+    dateLabel: 'Tarehe: {{date}}',
+    servedBy: 'Alihudumiwa na:',
+    discountLabel: 'Punguzo ({{percent}}%):',
+    loadDetailsFailed: 'Imeshindwa kupakia maelezo ya ankara',
+    close: 'Funga',
+  },
+  branchServices: {
+    loadFailed: 'Imeshindwa kupakia huduma. Tafadhali jaribu tena.',
+    selectRequired: 'Tafadhali chagua angalau huduma moja',
+    added: 'Huduma zimeongezwa',
+    addFailed: 'Imeshindwa kuongeza huduma. Tafadhali jaribu tena.',
+    removeTitle: 'Ondoa Huduma',
+    removeMessage: 'Una uhakika unataka kuondoa "{{name}}" kwenye tawi hili?',
+    remove: 'Ondoa',
+    removed: '{{name}} imeondolewa',
+    removeFailed: 'Imeshindwa kuondoa huduma. Tafadhali jaribu tena.',
+    title: 'Huduma za Tawi',
+    empty: 'Hakuna huduma zinazopatikana',
+    emptySubtitle: 'Tawi hili bado halina huduma zozote',
+    addTitle: 'Ongeza Huduma kwenye Tawi',
+    search: 'Tafuta huduma...',
+    loading: 'Inapakia huduma...',
+    notFound: 'Hakuna huduma zilizopatikana',
+    noneAvailable: 'Hakuna huduma zilizopo',
+    add: 'Ongeza ({{count}})',
+  },
+  serviceDetails: {
+    idRequired: 'Kitambulisho cha huduma kinahitajika',
+    loadFailed: 'Imeshindwa kupakia maelezo ya huduma. Tafadhali jaribu tena.',
+    deleteTitle: 'Futa Huduma',
+    deleteMessage: 'Una uhakika unataka kufuta "{{name}}"? Kitendo hiki hakiwezi kutenduliwa.',
+    delete: 'Futa',
+    deleted: 'Huduma imefutwa',
+    deleteFailed: 'Imeshindwa kufuta huduma. Tafadhali jaribu tena.',
+    deleteTagTitle: 'Futa Lebo',
+    deleteTagMessage: 'Una uhakika unataka kufuta lebo "{{name}}"?',
+    tagDeleted: 'Lebo imefutwa',
+    tagDeleteFailed: 'Imeshindwa kufuta lebo. Tafadhali jaribu tena.',
+    tagNameRequired: 'Tafadhali weka jina la lebo',
+    tagUpdated: 'Lebo imesasishwa',
+    tagsRequired: 'Tafadhali weka angalau lebo moja',
+    tagsAdded: 'Lebo zimeongezwa',
+    tagSaveFailed: 'Imeshindwa kuhifadhi lebo. Tafadhali jaribu tena.',
+    deletePricingTitle: 'Futa Bei',
+    deletePricingMessage: 'Una uhakika unataka kufuta bei "{{name}}"?',
+    pricingDeleted: 'Bei imefutwa',
+    pricingDeleteFailed: 'Imeshindwa kufuta bei. Tafadhali jaribu tena.',
+    pricingNameRequired: 'Tafadhali weka jina la bei',
+    amountInvalid: 'Tafadhali weka kiasi halali',
+    discountInvalid: 'Tafadhali weka punguzo halali',
+    pricingUpdated: 'Bei imesasishwa',
+    pricingAdded: 'Bei imeongezwa',
+    pricingSaveFailed: 'Imeshindwa kuhifadhi bei. Tafadhali jaribu tena.',
+    nowPublic: 'Huduma sasa ni ya umma',
+    nowPrivate: 'Huduma sasa ni ya faragha',
+    visibilityFailed: 'Imeshindwa kusasisha mwonekano wa huduma. Tafadhali jaribu tena.',
+    processing: 'Inashughulikia, Tafadhali Subiri...',
+    notFound: 'Huduma haikupatikana',
+    title: 'Maelezo ya Huduma',
+    public: 'Ya umma',
+    description: 'Maelezo',
+    serviceMode: 'Aina ya Huduma',
+    createdBy: 'Imeundwa na',
+    tags: 'Lebo',
+    noTags: 'Bado hakuna lebo zilizoongezwa',
+    pricing: 'Bei',
+    noPricing: 'Bado hakuna bei zilizoongezwa',
+    discountAmount: 'Punguzo la {{amount}}',
+    update: 'Sasisha',
+    visibilityTitle: 'Badilisha Mwonekano wa Huduma',
+    visibilityMessage: 'Chagua kama huduma hii iwe ya umma au ya faragha.',
+    publicDescription: 'Inaonekana kwa kila mtu',
+    privateDescription: 'Inaonekana kwako tu',
+    updating: 'Inasasisha...',
+    editTag: 'Hariri Lebo',
+    addTags: 'Ongeza Lebo',
+    editTagMessage: 'Sasisha jina la lebo hapa chini.',
+    addTagsMessage: 'Weka majina ya lebo yakitenganishwa kwa koma (mf. mitambo, magari ya usv, brigg)',
+    tagPlaceholder: 'Weka jina (majina) la lebo',
+    saving: 'Inahifadhi...',
+    add: 'Ongeza',
+    editPricing: 'Hariri Bei',
+    addPricing: 'Ongeza Bei',
+    editPricingMessage: 'Sasisha maelezo ya bei hapa chini.',
+    addPricingMessage: 'Weka maelezo ya bei kwa huduma hii.',
+    nameLabel: 'Jina *',
+    pricingNamePlaceholder: 'mf. Huduma ya Jumla',
+    descriptionPlaceholder: 'Weka maelezo',
+    amountLabel: 'Kiasi *',
+    discount: 'Punguzo',
+    totalAmount: 'Jumla ya Kiasi:',
+    loadingDetails: 'Inapakia maelezo ya huduma...',
+  },
+  upload: {
+    uploadImage: 'Pakia Picha',
+    uploadImages: 'Pakia Picha',
+    failed: 'Upakiaji umeshindwa',
+    alreadyUploadedTitle: 'Faili Tayari Imepakiwa',
+    alreadyUploadedMessage: 'Unaweza kupakia faili moja tu kwa wakati. Tafadhali ondoa faili iliyopo kabla ya kupakia mpya.',
+    permissionTitle: 'Ruhusa Inahitajika',
+    permissionMessage: 'Samahani, tunahitaji ruhusa ya picha ili kupakia picha!',
+    errorTitle: 'Hitilafu ya Upakiaji',
+    pickFailed: 'Imeshindwa kuchagua picha. Tafadhali jaribu tena.',
+    hint: 'Kikomo {{size}} • {{types}}',
+  },
+  locationPicker: {
+    notAvailableTitle: 'Haipatikani',
+    notAvailableMessage: 'Huduma za mahali zinahitaji kifurushi cha expo-location. Tafadhali kisakinishe: npx expo install expo-location',
+    permissionTitle: 'Ruhusa Imekataliwa',
+    permissionMessage: 'Ruhusa ya mahali inahitajika ili kuchagua mahali ulipo sasa.',
+    configTitle: 'Hitilafu ya Usanidi',
+    configMessage: 'Ufunguo wa API wa Google Maps haujasanidiwa. Tafadhali ongeza googleKey kwenye vigezo vya mazingira.',
+    currentLocation: 'Mahali Ulipo',
+    currentLocationFailed: 'Imeshindwa kupata mahali ulipo. Tafadhali jaribu tena.',
+    placeholder: 'Chagua mahali',
+    title: 'Chagua Mahali',
+    gettingLocation: 'Inapata mahali...',
+    pickCurrent: 'Chagua Mahali Ulipo',
+    or: 'AU',
+    searchLabel: 'Tafuta Mahali (Google Maps)',
+    searchPlaceholder: 'Andika kutafuta mahali...',
+    manualLabel: 'Weka Mahali Mwenyewe',
+    manualPlaceholder: 'Jina la mahali (mf. jiji la Nairobi)',
+    latitude: 'Latitudo',
+    longitude: 'Longitudo',
+    save: 'Hifadhi Mahali',
+    label: 'Mahali',
+  },
+  chat: {
+    messageLabel: 'Ujumbe kwa {{name}}',
+    connecting: 'Inaunganisha...',
+    encrypted: 'Ujumbe umesimbwa kutoka mwanzo hadi mwisho',
+    publicBlockchain: 'Malipo hutumia blockchain ya umma.',
+    securedBy: 'Imelindwa na XMTP',
+    orderClosedMessage: 'Oda hii imefungwa. Unaweza kuona ujumbe wa awali lakini huwezi kutuma mpya.',
+    messagePlaceholder: 'Ujumbe',
+    orderClosed: 'Oda imefungwa',
+  },
+  services: {
+    title: 'Huduma',
+    deleteMessage: 'Una uhakika unataka kufuta "{{name}}"?',
+    searchHint: 'Jaribu kubadilisha maneno ya utafutaji',
+    emptyHint: 'Ongeza huduma mpya ili kuanza',
+  },
+  staff: {
+    loadFailed: 'Imeshindwa kupakia wafanyakazi. Tafadhali jaribu tena.',
+    fallbackName: 'Mfanyakazi',
+    male: 'Mwanaume',
+    female: 'Mwanamke',
+    transgender: 'Mbadili jinsia',
+    unknown: 'Haijulikani',
+    created: 'Mfanyakazi ameundwa',
+    createFailed: 'Imeshindwa kumuunda mfanyakazi. Tafadhali jaribu tena.',
+    title: 'Wafanyakazi',
+    noResults: 'Hakuna mfanyakazi aliyepatikana',
+    empty: 'Hakuna wafanyakazi',
+    addTitle: 'Ongeza Mfanyakazi Mpya',
+    firstNameLabel: 'Jina la Kwanza *',
+    firstNamePlaceholder: 'Weka jina la kwanza',
+    middleNameLabel: 'Jina la Kati',
+    middleNamePlaceholder: 'Weka jina la kati (si lazima)',
+    lastNameLabel: 'Jina la Mwisho *',
+    lastNamePlaceholder: 'Weka jina la mwisho',
+    emailLabel: 'Barua Pepe *',
+    emailPlaceholder: 'Weka anwani ya barua pepe',
+    phoneLabel: 'Nambari ya Simu *',
+    phonePlaceholder: 'Weka nambari ya simu',
+    genderLabel: 'Jinsia *',
+    birthDateLabel: 'Tarehe ya Kuzaliwa *',
+    birthDatePlaceholder: 'Chagua tarehe ya kuzaliwa',
+    create: 'Unda Mfanyakazi',
+    idRequired: 'Kitambulisho cha mfanyakazi kinahitajika',
+    detailsLoadFailed: 'Imeshindwa kupakia maelezo ya mfanyakazi. Tafadhali jaribu tena.',
+    loadingDetails: 'Inapakia maelezo ya mfanyakazi...',
+    notFound: 'Mfanyakazi hakupatikana',
+    detailsTab: 'Maelezo',
+    branchesTab: 'Matawi',
+    permissionsTab: 'Ruhusa',
+    accountTab: 'Akaunti',
+    personalInformation: 'Taarifa Binafsi',
+    fullName: 'Jina Kamili',
+    birthDate: 'Tarehe ya Kuzaliwa',
+    gender: 'Jinsia',
+    accountInformation: 'Taarifa za Akaunti',
+    status: 'Hali',
+    verification: 'Uthibitisho',
+    userIdRequired: 'Kitambulisho cha mtumiaji kinahitajika',
+    accountLoadFailed: 'Imeshindwa kupakia maelezo ya akaunti. Tafadhali jaribu tena.',
+    reasonRequired: 'Tafadhali toa sababu ya kitendo hiki',
+    lockAccountPrompt: 'Funga akaunti ya mfanyakazi huyu',
+    unlockAccountPrompt: 'Fungua akaunti ya mfanyakazi huyu',
+    accountLocked: 'Akaunti imefungwa',
+    accountUnlocked: 'Akaunti imefunguliwa',
+    accountStatusFailed: 'Imeshindwa kusasisha hali ya akaunti. Tafadhali jaribu tena.',
+    loadingAccount: 'Inapakia maelezo ya akaunti...',
+    accountNotFound: 'Akaunti haikupatikana',
+    accountStatus: 'Hali ya Akaunti',
+    lockStatus: 'Hali ya Kufungwa',
+    locked: 'Imefungwa',
+    unlocked: 'Haijafungwa',
+    unlockAccount: 'Fungua Akaunti',
+    lockAccount: 'Funga Akaunti',
+    organizationName: 'Jina la Shirika',
+    serviceProvider: 'Mtoa Huduma',
+    reasonLabel: 'Sababu *',
+    reasonPlaceholder: 'Weka sababu ya kitendo hiki',
+    unlock: 'Fungua',
+    lock: 'Funga',
+    unlockAccountReason: 'Tafadhali toa sababu ya kufungua akaunti hii.',
+    lockAccountReason: 'Tafadhali toa sababu ya kufunga akaunti hii.',
+    branchesLoadFailed: 'Imeshindwa kupakia matawi ya mfanyakazi. Tafadhali jaribu tena.',
+    loadingBranches: 'Inapakia matawi...',
+    noBranches: 'Hakuna matawi yaliyopangiwa',
+  },
+  branchStaff: {
+    selectStaff: 'Tafadhali chagua angalau mfanyakazi mmoja',
+    assigned: 'Mfanyakazi amepangiwa',
+    assignFailed: 'Imeshindwa kumpangia mfanyakazi. Tafadhali jaribu tena.',
+    unlockPrompt: 'Mfungulie mfanyakazi huyu',
+    lockPrompt: 'Mfungie mfanyakazi huyu',
+    unlocked: 'Mfanyakazi amefunguliwa',
+    locked: 'Mfanyakazi amefungiwa',
+    statusFailed: 'Imeshindwa kusasisha hali ya mfanyakazi. Tafadhali jaribu tena.',
+    title: 'Wafanyakazi wa Tawi',
+    empty: 'Hakuna wafanyakazi',
+    emptyHint: 'Tawi hili bado halina wafanyakazi',
+    addTitle: 'Ongeza Mfanyakazi kwenye Tawi',
+    search: 'Tafuta mfanyakazi...',
+    loading: 'Inapakia wafanyakazi...',
+    noAvailable: 'Hakuna wafanyakazi wanaopatikana',
+    unlockTitle: 'Mfungulie Mfanyakazi',
+    lockTitle: 'Mfungie Mfanyakazi',
+    add: 'Ongeza ({{count}})',
+    unlockReason: 'Toa sababu ya kumfungulia "{{name}}" kwenye tawi hili.',
+    lockReason: 'Toa sababu ya kumfungia "{{name}}" kwenye tawi hili.',
+  },
+  switchAccount: {
+    loadFailed: 'Imeshindwa kupakia akaunti. Tafadhali jaribu tena.',
+    branchesLoadFailed: 'Imeshindwa kupakia matawi. Tafadhali jaribu tena.',
+    switchFailed: 'Imeshindwa kubadilisha akaunti. Tafadhali jaribu tena.',
+    welcome: 'Karibu',
+    subtitle: 'Chagua shirika ili kuendelea',
+    empty: 'Hakuna mashirika yaliyopatikana',
+    emptyHint: 'Bado huna ufikiaji wa shirika lolote.',
+    selectBranch: 'Chagua Tawi',
+    processing: 'Inashughulikia, Tafadhali Subiri...',
+    mainBranch: 'Tawi Kuu',
+    branchLocation: 'Eneo la Tawi',
+    main: 'Kuu',
+    noBranches: 'Hakuna matawi yaliyopatikana',
+    noBranchesHint: 'Shirika hili bado halina matawi.',
+    createdAt: 'Imeundwa {{date}}',
+  },
+  serviceForm: {
+    newTitle: 'Huduma Mpya',
+    newSubtitle: 'Unda huduma mpya. Jaza taarifa zote zinazohitajika.',
+    editTitle: 'Hariri Huduma',
+    editSubtitle: 'Sasisha taarifa za huduma hapa chini.',
+    nameLabel: 'Jina la Huduma',
+    namePlaceholder: 'Weka jina la huduma',
+    descriptionPlaceholder: 'Weka maelezo ya huduma',
+    modeLabel: 'Aina ya Huduma',
+    modePlaceholder: 'Chagua aina ya huduma',
+    thumbnailLabel: 'Picha ya Huduma',
+    create: 'Unda Huduma',
+    createdTitle: 'Huduma Imeundwa',
+    createdMessage: 'Huduma yako imeundwa kwa mafanikio.',
+    createFailed: 'Imeshindwa kuunda huduma. Tafadhali jaribu tena.',
+    modesLoadFailed: 'Imeshindwa kupakia aina za huduma. Tafadhali jaribu tena.',
+    idRequired: 'Kitambulisho cha huduma kinahitajika',
+    loadFailed: 'Imeshindwa kupakia huduma. Tafadhali jaribu tena.',
+    updated: 'Huduma imesasishwa kwa mafanikio',
+    updateFailed: 'Imeshindwa kusasisha huduma. Tafadhali jaribu tena.',
+    loading: 'Inapakia huduma...',
+    update: 'Sasisha Huduma',
+  },
+  diagnostics: {
+    title: 'Uchunguzi',
+    switchTitle: 'Badilisha Mazingira',
+    switchMessage: 'Utatolewa na data iliyohifadhiwa itafutwa.',
+    switch: 'Badilisha',
+    originInvalid: 'Weka anwani kama https://api.example.com',
+    noDomain: 'Hakuna kikoa cha API kilichowekwa kwa mazingira haya, kwa hivyo kila ombi litashindwa. Chagua mazingira mengine au weka API_DOMAIN kwa muundo huu.',
+    sampleData: 'Data ya mfano ndani ya programu',
+    notConfigured: 'Haijawekwa',
+    customDomain: 'Kikoa maalum',
+    useCustomDomain: 'Tumia Kikoa Maalum',
+    switchingDisabled: 'Kubadilisha seva kumezimwa katika muundo huu.',
+    permissionRefresh: 'Kusasisha ruhusa',
+    permissionRefreshHint: 'Mara ngapi ruhusa hukaguliwa upya programu ikiwa wazi. Pia hukaguliwa unaporudi kwenye programu, kwenye 403 na seva inaporipoti mabadiliko.',
+    off: 'Zima',
+    minutes: 'Dak {{count}}',
+    resetMockData: 'Weka Upya Data ya Mfano',
+    copied: 'Imenakiliwa',
+    copiedMessage: 'Ombi limenakiliwa kama amri ya cURL. Vitambulisho vimefichwa.',
+    pending: 'Inasubiri',
+    headers: 'Vichwa',
+    body: 'Mwili',
+    copyCurl: 'Nakili kama cURL',
+    clearLog: 'Futa kumbukumbu',
+    requestsEmpty: 'Maombi yanayofanywa na programu huonekana hapa.',
+    socketsEmpty: 'Fungua chumba cha mazungumzo kuona muunganisho wake hapa.',
+    environmentTab: 'Mazingira',
+    networkTab: 'Mtandao',
+    socketsTab: 'Soketi',
+    socketActivity: '{{sent}} zimetumwa · {{received}} zimepokelewa · ilifunguliwa {{time}}',
+    socketClosed: ' · ilifungwa {{time}}',
+    status_connecting: 'Inaunganisha',
+    status_open: 'Wazi',
+    status_closed: 'Imefungwa',
+    status_error: 'Hitilafu',
+  },
+  branches: {
+    loadFailed: 'Imeshindwa kupakia matawi. Tafadhali jaribu tena.',
+    created: 'Tawi limeundwa kwa mafanikio',
+    createFailed: 'Imeshindwa kuunda tawi. Tafadhali jaribu tena.',
+    title: 'Matawi',
+    search: 'Tafuta matawi...',
+    empty: 'Hakuna matawi yanayopatikana',
+    noResults: 'Hakuna matawi yaliyopatikana',
+    emptyHint: 'Ongeza tawi jipya kuanza',
+    main: 'Kuu',
+    addTitle: 'Ongeza Tawi Jipya',
+    nameLabel: 'Jina la Tawi *',
+    namePlaceholder: 'Weka jina la tawi',
+    contactLabel: 'Namba ya Mawasiliano *',
+    cityLabel: 'Jiji *',
+    cityPlaceholder: 'Weka jiji',
+    countryLabel: 'Nchi *',
+    countryPlaceholder: 'Chagua nchi',
+    descriptionPlaceholder: 'Weka maelezo (si lazima)',
+    locationLabel: 'Mahali *',
+    create: 'Unda Tawi',
+    idRequired: 'Kitambulisho cha tawi kinahitajika',
+    detailsLoadFailed: 'Imeshindwa kupakia maelezo ya tawi. Tafadhali jaribu tena.',
+    loadingDetails: 'Inapakia maelezo ya tawi...',
+    notFound: 'Tawi halikupatikana',
+    contactInformation: 'Taarifa za Mawasiliano',
+    address: 'Anwani',
+    city: 'Jiji',
+    stateProvince: 'Mkoa',
+    coordinates: 'Viwianishi',
+    information: 'Taarifa',
+    createdOn: 'Iliundwa: {{date}}',
+    updatedOn: 'Ilisasishwa: {{date}}',
+    isMain: 'Hili ni tawi kuu',
+  },
+  bookingHistory: {
+    title: 'Historia ya Maombi',
+    search: 'Tafuta kwa namba ya ombi, huduma, mteja au tawi...',
+    loading: 'Inapakia historia ya maombi...',
+    empty: 'Hakuna historia ya maombi',
+    noResults: 'Hakuna maombi yaliyopatikana',
+    clearSearch: 'Futa utafutaji',
+    completed: 'Imekamilika',
+    declined: 'Imekataliwa',
+    ongoing: 'Inaendelea',
+  },
+  invoiceHistory: {
+    title: 'Historia ya Ankara',
+    search: 'Tafuta kwa namba ya ankara, huduma, mteja au tawi...',
+    loading: 'Inapakia historia ya ankara...',
+    empty: 'Hakuna historia ya ankara',
+    loadingDetails: 'Inapakia maelezo ya ankara...',
+  },
+  updateProfile: {
+    updateFailed: 'Imeshindwa kusasisha wasifu. Tafadhali jaribu tena.',
+    subtitle: 'Sasisha taarifa zako binafsi. Hakikisha taarifa zote ni sahihi.',
+    firstNameLabel: 'Jina la Kwanza',
+    middleNameLabel: 'Jina la Kati (Si lazima)',
+    middleNamePlaceholder: 'Weka jina la kati',
+    lastNameLabel: 'Jina la Mwisho',
+    genderPlaceholder: 'Chagua jinsia',
+    birthDatePlaceholder: 'YYYY-MM-DD (mfano, 1996-05-23)',
+    updatedTitle: 'Wasifu Umesasishwa',
+    updatedMessage: 'Wasifu wako umesasishwa kwa mafanikio.',
+  },
+  incomingRequests: {
+    title: 'Maombi Yanayoingia',
+    noBranch: 'Hakuna tawi lililochaguliwa',
+    search: 'Tafuta kwa jina la huduma...',
+    empty: 'Hakuna maombi yanayoingia',
+    noResults: 'Hakuna maombi yaliyopatikana',
+    searchHint: 'Jaribu kubadilisha utafutaji wako',
+    new: 'Mpya',
+    incomingOrders: 'Oda Zinazoingia',
+    viewMore: 'Ona Zaidi',
+  },
+  notifications: {
+    emptyTitle: 'Hakuna kitu hapa',
+    emptySubtitle: 'Tutakujulisha kutakapokuwa na jambo jipya.',
+  },
+  chats: {
+    title: 'Mazungumzo',
+    search: 'Tafuta kwa jina, namba ya ombi au huduma',
+    loading: 'Inapakia mazungumzo...',
+    noResults: 'Hakuna mazungumzo yaliyopatikana',
+    empty: 'Bado hakuna mazungumzo',
+  },
+  finance: {
+    loadFailed: 'Imeshindwa kupakia mchanganuo wa mapato',
+    refreshFailed: 'Imeshindwa kuonyesha upya mchanganuo wa mapato',
+    revenueBreakdown: 'Mchanganuo wa Mapato',
+    title: 'Muhtasari wa Fedha',
+    loading: 'Inapakia data ya fedha...',
+    empty: 'Hakuna data ya mapato',
+    totalRevenue: 'Jumla ya Mapato',
+    totalInvoices: 'Jumla ya Ankara',
+    averagePerInvoice: 'Wastani kwa Ankara',
+    groupBy: 'Panga kwa:',
+    detailedBreakdown: 'Mchanganuo wa Kina',
+    revenue: 'Mapato',
+    invoices: 'Ankara',
+    average: 'Wastani',
+    group_all: 'Zote',
+    averagePerInvoiceShort: 'Wastani/Ankara',
+  },
+  serviceStats: {
+    loadFailed: 'Imeshindwa kupakia takwimu za huduma',
+    totalServices: 'Jumla ya Huduma',
+  },
+  vehicleProfile: {
+    loading: 'Inapakia wasifu wa magari...',
+    empty: 'Hakuna wasifu wa gari uliopatikana',
+    revoked: 'Imebatilishwa',
+    basicInformation: 'Taarifa za Msingi',
+    licensePlate: 'Namba ya Usajili',
+    vin: 'VIN',
+    color: 'Rangi',
+    specifications: 'Vipimo',
+    bodyType: 'Aina ya Bodi',
+    transmission: 'Giaboksi',
+    drive: 'Mfumo wa Kuendesha',
+    fuelType: 'Aina ya Mafuta',
+    engineType: 'Aina ya Injini',
+    lastServiceDate: 'Tarehe ya Huduma ya Mwisho',
+    owner: 'Mmiliki',
+  },
+  dateTimePicker: {
+    placeholder: 'Chagua tarehe',
+    selectDate: 'Chagua Tarehe',
+    selectTime: 'Chagua Saa',
+    selectDateTime: 'Chagua Tarehe na Saa',
+    done: 'Nimemaliza',
+  },
+  subscriptionPlans: {
+    empty: 'Hakuna mipango ya usajili',
+    loadFailed: 'Imeshindwa kupakia mipango ya usajili. Tafadhali jaribu tena.',
+    branches: 'Matawi',
+    members: 'Wanachama',
+    services: 'Huduma',
+    visibility: 'Mwonekano wa Tadar',
+    support: 'Msaada',
+    teamManagement: 'Usimamizi wa Timu',
+    reports: 'Ripoti',
+    autoRenewal: 'Kujisasisha',
+    yes: 'Ndiyo',
+    no: 'Hapana',
+    perMonths_one: '/mwezi {{count}}',
+    perMonths_other: '/miezi {{count}}',
+    select: 'Chagua Mpango',
+    selected: 'Umechaguliwa',
+  },
+  onboarding: {
+    title: 'Sajili Biashara Yako',
+    progress: 'Hatua {{current}} kati ya {{total}}',
+    continue: 'Endelea',
+    edit: 'Hariri',
+    newBusiness: 'Biashara mpya?',
+    createAccount: 'Fungua akaunti',
+    setUpBusiness: 'Sajili Biashara',
+    continueSetup: 'Endelea Kusajili Biashara',
+    leaveTitle: 'Maliza Baadaye?',
+    leaveMessage: 'Maendeleo yako yamehifadhiwa. Unaweza kuendelea kusajili biashara yako kutoka kwenye orodha ya mashirika.',
+    finishLater: 'Maliza Baadaye',
+    steps: {
+      owner: 'Akaunti Yako',
+      company: 'Taarifa za Kampuni',
+      branch: 'Tawi la Kwanza',
+      services: 'Huduma',
+      plan: 'Mpango',
+      review: 'Hakiki',
+    },
+    owner: {
+      subtitle: 'Fungua akaunti ya mmiliki wa biashara yako. Utaitumia kuingia.',
+      firstName: 'Jina la Kwanza',
+      lastName: 'Jina la Mwisho',
+      email: 'Barua Pepe',
+      phone: 'Simu',
+      password: 'Nenosiri',
+      confirmPassword: 'Thibitisha Nenosiri',
+      submit: 'Fungua Akaunti',
+      failed: 'Imeshindwa kufungua akaunti yako. Tafadhali jaribu tena.',
+    },
+    company: {
+      subtitle: 'Waambie wateja wewe ni nani.',
+      name: 'Jina la Kampuni',
+      email: 'Barua Pepe ya Kampuni',
+      phone: 'Simu ya Kampuni',
+      website: 'Tovuti',
+      websitePlaceholder: 'https://example.com',
+      description: 'Maelezo',
+      logo: 'Nembo',
+    },
+    branch: {
+      subtitle: 'Wateja watakupata wapi? Unaweza kuongeza matawi zaidi baadaye.',
+      name: 'Jina la Tawi',
+      contact: 'Nambari ya Mawasiliano',
+      email: 'Barua Pepe ya Tawi',
+      city: 'Jiji',
+      country: 'Nchi',
+      selectCountry: 'Chagua nchi',
+      description: 'Maelezo',
+      location: 'Mahali',
+    },
+    services: {
+      subtitle: 'Ongeza huduma unazotoa. Bei na picha zinaweza kuongezwa baadaye.',
+      name: 'Jina la Huduma',
+      description: 'Maelezo',
+      mode: 'Aina ya Huduma',
+      selectMode: 'Chagua aina ya huduma',
+      add: 'Ongeza Huduma',
+      required: 'Ongeza angalau huduma moja',
+      modesFailed: 'Imeshindwa kupakia aina za huduma. Tafadhali jaribu tena.',
+    },
+    plan: {
+      subtitle: 'Chagua mpango unaofaa biashara yako.',
+      required: 'Chagua mpango ili kuendelea',
+    },
+    review: {
+      subtitle: 'Hakiki taarifa zako kabla ya kusajili biashara yako.',
+      logoUploaded: 'Nembo imepakiwa',
+      noLogo: 'Hakuna nembo',
+      submit: 'Sajili Biashara',
+      failed: 'Imeshindwa kusajili biashara yako. Tafadhali jaribu tena.',
+    },
+  },
+  outbox: {
+    needsAttention_one: 'Badiliko {{count}} linahitaji umakini wako',
+    needsAttention_other: 'Mabadiliko {{count}} yanahitaji umakini wako',
+    waiting_one: 'Badiliko {{count}} linasubiri kusawazishwa',
+    waiting_other: 'Mabadiliko {{count}} yanasubiri kusawazishwa',
+  },
+  pendingSync: {
+    title: 'Yanayosubiri Kusawazishwa',
+    queued: 'Liliwekwa {{time}}',
+    status: {
+      pending: 'Inasubiri muunganisho',
+      syncing: 'Inasawazisha',
+      conflict: 'Mgongano',
+      failed: 'Imeshindwa',
+    },
+    discardTitle: 'Tupa Badiliko',
+    discardMessage: '"{{label}}" halitatumwa. Kitendo hiki hakiwezi kutenduliwa.',
+    emptyTitle: 'Kila kitu kimesawazishwa',
+    emptySubtitle: 'Mabadiliko unayofanya bila muunganisho yatasubiri hapa hadi yatumwe.',
+  },
+  validation: {
+    failed: 'Uthibitishaji umeshindwa',
+    usernameRequired: 'Jina la mtumiaji linahitajika',
+    passwordRequired: 'Nenosiri linahitajika',
+    passwordMin: 'Nenosiri lazima liwe na angalau herufi 8',
+    passwordUppercase: 'Nenosiri lazima liwe na angalau herufi kubwa moja',
+    passwordLowercase: 'Nenosiri lazima liwe na angalau herufi ndogo moja',
+    passwordNumber: 'Nenosiri lazima liwe na angalau nambari moja',
+    confirmPasswordRequired: 'Tafadhali thibitisha nenosiri lako',
+    passwordsMismatch: 'Manenosiri hayalingani',
+    firstNameRequired: 'Jina la kwanza linahitajika',
+    firstNameMin: 'Jina la kwanza lazima liwe na angalau herufi 2',
+    firstNameMax: 'Jina la kwanza lazima liwe chini ya herufi 50',
+    lastNameRequired: 'Jina la mwisho linahitajika',
+    lastNameMin: 'Jina la mwisho lazima liwe na angalau herufi 2',
+    lastNameMax: 'Jina la mwisho lazima liwe chini ya herufi 50',
+    emailRequired: 'Barua pepe inahitajika',
+    emailInvalid: 'Tafadhali weka barua pepe sahihi',
+    phoneRequired: 'Nambari ya simu inahitajika',
+    phoneInvalid: 'Tafadhali weka nambari ya simu sahihi',
+    phoneDigits: 'Nambari ya simu lazima iwe na tarakimu pekee',
+    dateInvalid: 'Tafadhali weka tarehe sahihi (YYYY-MM-DD)',
+    birthDateRequired: 'Tarehe ya kuzaliwa inahitajika',
+    dateFormat: 'Tarehe lazima iwe katika muundo wa YYYY-MM-DD',
+    companyNameRequired: 'Jina la kampuni linahitajika',
+    companyNameMin: 'Jina la kampuni lazima liwe na angalau herufi 2',
+    companyNameMax: 'Jina la kampuni lazima liwe chini ya herufi 100',
+    zipCodeInvalid: 'Tafadhali weka msimbo wa posta sahihi',
+    websiteInvalid: 'Tafadhali weka anwani ya tovuti sahihi',
+    descriptionMax: 'Maelezo lazima yawe chini ya herufi 500',
+    branchNameRequired: 'Jina la tawi linahitajika',
+    branchNameMin: 'Jina la tawi lazima liwe na angalau herufi 2',
+    branchNameMax: 'Jina la tawi lazima liwe chini ya herufi 100',
+    contactRequired: 'Nambari ya mawasiliano inahitajika',
+    cityRequired: 'Jiji linahitajika',
+    cityMin: 'Jiji lazima liwe na angalau herufi 2',
+    countryRequired: 'Nchi inahitajika',
+    locationRequired: 'Mahali panahitajika',
+    latitudeInvalid: 'Latitudo si sahihi',
+    longitudeInvalid: 'Longitudo si sahihi',
+    accuracyMin: 'Usahihi lazima uwe 0 au zaidi',
+    codeRequired: 'Msimbo unahitajika',
+    codeInvalid: 'Weka msimbo wa tarakimu 6 kutoka kwenye barua pepe',
+    serviceNameRequired: 'Jina la huduma linahitajika',
+    descriptionRequired: 'Maelezo yanahitajika',
+    serviceModeRequired: 'Aina ya huduma inahitajika',
+    authenticatorCodeInvalid: 'Weka msimbo wa tarakimu 6 kutoka programu yako ya uthibitishaji',
+    backupCodeInvalid: 'Weka msimbo wa akiba kama xxxx-xxxx',
+    serviceNameMin: 'Jina la huduma lazima liwe na angalau herufi 2',
+    serviceNameMax: 'Jina la huduma lazima liwe chini ya herufi 100',
+    descriptionMin: 'Maelezo lazima yawe na angalau herufi 10',
+    genderRequired: 'Jinsia inahitajika',
+    genderInvalid: 'Chaguo la jinsia si sahihi',
+  },
+  time: {
+    justNow: 'sasa hivi',
+    today: 'Leo',
+    yesterday: 'Jana',
+    minutesAgo_one: 'dakika {{count}} iliyopita',
+    minutesAgo_other: 'dakika {{count}} zilizopita',
+    hoursAgo_one: 'saa {{count}} iliyopita',
+    hoursAgo_other: 'saa {{count}} zilizopita',
+    daysAgo_one: 'siku {{count}} iliyopita',
+    daysAgo_other: 'siku {{count}} zilizopita',
+    monthsAgo_one: 'mwezi {{count}} uliopita',
+    monthsAgo_other: 'miezi {{count}} iliyopita',
+    yearsAgo_one: 'mwaka {{count}} uliopita',
+    yearsAgo_other: 'miaka {{count}} iliyopita',
+  },
+};
+
+export default sw;
@@ -0,0 +1,35 @@
+/**
+ * Catalog types shared by the translation catalogs
+ */
+import type en from './locales/en';
+
+/**
+ * Shape of every catalog; the English catalog is the source of truth
+ */
+export type Catalog = typeof en;
+
+// Languages with more plural forms than English (e.g. Arabic) add them next to the _other string
+type PluralForms<T> = {
+  [K in keyof T & string as K extends `${infer Base}_other` ? `${Base}_${'zero' | 'two' | 'few' | 'many'}` : never]?: string;
+};
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends string ? string : DeepPartial<T[K]> } & PluralForms<T>;
+
+/**
+ * Other languages may lag behind English; missing keys fall back to the English string
+ */
+export type PartialCatalog = DeepPartial<Catalog>;
+
+type Leaves<T, Prefix extends string = ''> = {
+  [K in keyof T & string]: T[K] extends string ? `${Prefix}${K}` : Leaves<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+type PluralBase<K> = K extends `${infer Base}_other` ? Base : never;
+
+/**
+ * Dotted path of a string in the catalog, e.g. "profile.title"
+ * Plural strings are looked up by their base key, e.g. "time.minutesAgo" for "time.minutesAgo_one"/"_other".
+ */
+export type TranslationKey = Leaves<Catalog> | PluralBase<Leaves<Catalog>>;
+
+export type TranslationParams = Record<string, string | number>;
@@ -0,0 +1,101 @@
+import mockAsyncStorage from "@react-native-async-storage/async-storage/jest/async-storage-mock";
+import { useAuthStore } from "@/store/authStore";
+import { apiRequest, setTransport } from "../api";
+import { AuthError, NetworkError } from "../errors";
+
+jest.mock("@react-native-async-storage/async-storage", () => mockAsyncStorage);
+jest.mock("expo-router", () => ({ router: { replace: jest.fn() } }));
+
+const BASE_URL = "https://api.example.test";
+const REFRESH_URL = `${BASE_URL}/refresh/token`;
+
+const jsonResponse = (status: number, body: unknown) => ({
+  status,
+  ok: status >= 200 && status < 300,
+  statusText: "",
+  headers: { get: () => "application/json" },
+  json: async () => body,
+});
+
+/**
+ * Server accepting only the "fresh" access token, with the refresh endpoint answering refreshResponse
+ */
+function serve(refreshResponse: () => Promise<ReturnType<typeof jsonResponse>>) {
+  const fetch = jest.fn(async (url: string, init: RequestInit) => {
+    if (url === REFRESH_URL) {
+      return refreshResponse();
+    }
+    const { Authorization } = init.headers as Record<string, string>;
+    return Authorization === "Bearer fresh"
+      ? jsonResponse(200, { data: { url } })
+      : jsonResponse(401, { message: "jwt expired" });
+  });
+  setTransport({ baseUrl: BASE_URL, fetch: fetch as any });
+  return fetch;
+}
+
+const refreshCalls = (fetch: jest.Mock) => fetch.mock.calls.filter(([url]) => url === REFRESH_URL);
+
+beforeAll(() => {
+  // Failed responses are logged
+  jest.spyOn(console, "log").mockImplementation(() => {});
+});
+
+beforeEach(() => {
+  useAuthStore.setState({ token: "stale", refreshToken: "refresh", isAuthenticated: true, signOutReason: null });
+});
+
+afterEach(() => {
+  setTransport(null);
+});
+
+describe("apiRequest token refresh", () => {
+  it("refreshes once for concurrent 401s and replays every request with the new token", async () => {
+    const fetch = serve(async () => jsonResponse(200, { accessToken: "fresh", refreshToken: "rotated" }));
+
+    const responses = await Promise.all([
+      apiRequest({ endpoint: "/en/on/services" }),
+      apiRequest({ endpoint: "/en/on/branches" }),
+      apiRequest({ endpoint: "/en/on/staffs" }),
+    ]);
+
+    expect(responses.map((response) => response.status)).toEqual([200, 200, 200]);
+    expect(refreshCalls(fetch)).toHaveLength(1);
+    expect(JSON.parse(refreshCalls(fetch)[0][1].body as string)).toEqual({ refreshToken: "refresh" });
+    expect(useAuthStore.getState()).toMatchObject({ token: "fresh", refreshToken: "rotated" });
+  });
+
+  it("ends the session once and rejects every queued request when the refresh token is rejected", async () => {
+    const fetch = serve(async () => jsonResponse(401, { message: "Refresh token expired" }));
+
+    const results = await Promise.allSettled([
+      apiRequest({ endpoint: "/en/on/services" }),
+      apiRequest({ endpoint: "/en/on/branches" }),
+    ]);
+
+    expect(refreshCalls(fetch)).toHaveLength(1);
+    results.forEach((result) => {
+      expect(result.status).toBe("rejected");
+      expect((result as PromiseRejectedResult).reason).toBeInstanceOf(AuthError);
+    });
+    expect(useAuthStore.getState()).toMatchObject({ token: null, isAuthenticated: false, signOutReason: "expired" });
+  });
+
+  it("keeps the session when the refresh cannot reach the server", async () => {
+    serve(async () => {
+      throw new TypeError("Network request failed");
+    });
+
+    await expect(apiRequest({ endpoint: "/en/on/services", retry: false })).rejects.toBeInstanceOf(NetworkError);
+    expect(useAuthStore.getState()).toMatchObject({ token: "stale", isAuthenticated: true });
+  });
+
+  it("ends the session on expiry when the login issued no refresh token", async () => {
+    const fetch = serve(async () => jsonResponse(200, { accessToken: "fresh" }));
+    useAuthStore.setState({ refreshToken: null });
+
+    await expect(apiRequest({ endpoint: "/en/on/services" })).rejects.toBeInstanceOf(AuthError);
+    expect(refreshCalls(fetch)).toHaveLength(0);
+    expect(useAuthStore.getState()).toMatchObject({ isAuthenticated: false, signOutReason: "expired" });
+  });
+});
@@ -0,0 +1,48 @@
+import { useEntityStore } from "@/store/entityStore";
+import { storeServiceWrite } from "../entities";
+import type { Service } from "../types";
+
+const service: Service = {
+  id: "service-1",
+  organizationId: "org-1",
+  name: "Oil change",
+  description: "Engine oil and filter",
+  isPublic: false,
+  isDeleted: false,
+  modeId: 1,
+  staffId: "staff-1",
+  thumbNailId: null,
+  thumbNail: null,
+  mode: { id: 1, name: "In shop", isActive: true, createdAt: 1, updatedAt: 1 },
+  createdAt: 1,
+  updatedAt: 1,
+};
+
+const stored = () => useEntityStore.getState().services[service.id];
+
+beforeEach(() => {
+  useEntityStore.getState().clear();
+  useEntityStore.getState().upsert("services", [service]);
+});
+
+describe("storeServiceWrite", () => {
+  it("stores a response that is a service", () => {
+    const response = { ...service, isPublic: true, name: "Full service", updatedAt: 2 };
+
+    expect(storeServiceWrite(service.id, { isPublic: true }, response)).toBe(response);
+    expect(stored()).toEqual(response);
+  });
+
+  it("applies the values sent when the response is not a service", () => {
+    const response = { message: "Service state updated" };
+
+    expect(storeServiceWrite(service.id, { isPublic: true }, response)).toBe(response);
+    expect(stored()).toEqual({ ...service, isPublic: true });
+  });
+
+  it("does not store a service that was never loaded", () => {
+    storeServiceWrite("service-2", { isPublic: true }, null);
+
+    expect(useEntityStore.getState().services["service-2"]).toBeUndefined();
+  });
+});
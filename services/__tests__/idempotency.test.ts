@@ -0,0 +1,82 @@
+import { ApiError, NetworkError } from "../errors";
+import { withIdempotencyKey } from "../idempotency";
+
+let nextIntent = 0;
+let intent: string;
+
+beforeEach(() => {
+  // Keys are kept per intent across calls, so each test uses its own
+  intent = `invoices.create:booking-${++nextIntent}`;
+});
+
+/**
+ * Sends a request that fails with the error, returning the key it was sent with
+ */
+async function failWith(error: Error, body?: unknown) {
+  let sentKey = "";
+  await expect(
+    withIdempotencyKey(
+      intent,
+      async (key) => {
+        sentKey = key;
+        throw error;
+      },
+      body
+    )
+  ).rejects.toBe(error);
+  return sentKey;
+}
+
+const keyOf = (body?: unknown) => withIdempotencyKey(intent, async (key) => key, body);
+
+describe("withIdempotencyKey", () => {
+  it("reuses the key for a retry of the same body after a network failure", async () => {
+    const body = { items: [{ name: "Oil", amount: 30 }] };
+    const failedKey = await failWith(new NetworkError("Network request failed"), body);
+
+    expect(await keyOf({ items: [{ name: "Oil", amount: 30 }] })).toBe(failedKey);
+  });
+
+  it("issues a new key when the body changes between attempts", async () => {
+    const failedKey = await failWith(new NetworkError("Network request failed"), { amount: 30 });
+
+    const editedKey = await keyOf({ amount: 45 });
+
+    expect(editedKey).not.toBe(failedKey);
+  });
+
+  it("issues a new key after a success or a definitive rejection", async () => {
+    const firstKey = await keyOf();
+    const rejectedKey = await failWith(new ApiError("Invalid invoice", "REQUEST_FAILED", { status: 422 }));
+
+    expect(rejectedKey).not.toBe(firstKey);
+    expect(await keyOf()).not.toBe(rejectedKey);
+  });
+
+  it("keeps the key after a conflict, as the server may still be processing the request", async () => {
+    const conflictKey = await failWith(new ApiError("Request in progress", "REQUEST_FAILED", { status: 409 }));
+
+    expect(await keyOf()).toBe(conflictKey);
+  });
+
+  it("shares an in-flight call for the same body and sends a different body separately", async () => {
+    let respond = () => {};
+    const request = jest.fn(
+      (key: string) =>
+        new Promise<string>((resolve) => {
+          respond = () => resolve(key);
+        })
+    );
+
+    const first = withIdempotencyKey(intent, request, { amount: 30 });
+    const doubleTap = withIdempotencyKey(intent, request, { amount: 30 });
+    expect(doubleTap).toBe(first);
+    expect(request).toHaveBeenCalledTimes(1);
+
+    const edited = withIdempotencyKey(intent, async (key) => key, { amount: 45 });
+    respond();
+
+    expect(await edited).not.toBe(await first);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
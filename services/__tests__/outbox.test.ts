@@ -0,0 +1,183 @@
+import mockAsyncStorage from "@react-native-async-storage/async-storage/jest/async-storage-mock";
+import { useAuthStore } from "@/store/authStore";
+import { OutboxItem, useOutboxStore } from "@/store/outboxStore";
+import { useUserStore } from "@/store/userStore";
+import type { User } from "@/store/types";
+import * as bookings from "../bookings";
+import { ApiError, AuthError, NetworkError } from "../errors";
+import { replayOutbox, runOrQueue } from "../outbox";
+
+jest.mock("@react-native-async-storage/async-storage", () => mockAsyncStorage);
+jest.mock("@react-native-community/netinfo", () =>
+  jest.requireActual("@react-native-community/netinfo/jest/netinfo-mock.js")
+);
+jest.mock("../bookings", () => ({ complete: jest.fn() }));
+jest.mock("../invoices", () => ({ create: jest.fn(), update: jest.fn(), listForBooking: jest.fn() }));
+jest.mock("../chat", () => ({ sendMessage: jest.fn() }));
+
+const complete = bookings.complete as jest.Mock;
+
+const signIn = (id: string) => {
+  useAuthStore.setState({ token: "token", refreshToken: "refresh", isAuthenticated: true });
+  useUserStore.setState({ user: { id } as User });
+};
+
+let nextItem = 0;
+
+const queued = (bookedServiceId: string, updates: Partial<OutboxItem> = {}): OutboxItem => ({
+  id: `item-${++nextItem}`,
+  type: "bookings.complete",
+  payload: { bookedServiceId },
+  label: `Complete ${bookedServiceId}`,
+  entityId: bookedServiceId,
+  userId: "user-1",
+  idempotencyKey: `key-${nextItem}`,
+  status: "pending",
+  error: null,
+  attempts: 0,
+  createdAt: nextItem,
+  ...updates,
+});
+
+const statusOf = (id: string) => useOutboxStore.getState().items.find((item) => item.id === id)?.status;
+
+beforeAll(async () => {
+  await useOutboxStore.persist.rehydrate();
+  // Rejected replays are logged
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+beforeEach(() => {
+  complete.mockReset();
+  useOutboxStore.setState({ items: [] });
+  signIn("user-1");
+});
+
+describe("replayOutbox", () => {
+  it("sends queued writes in order with their idempotency keys", async () => {
+    const first = queued("booking-1");
+    const second = queued("booking-2");
+    useOutboxStore.setState({ items: [first, second] });
+    complete.mockResolvedValue({});
+
+    await replayOutbox();
+
+    expect(complete.mock.calls).toEqual([
+      ["booking-1", { idempotencyKey: first.idempotencyKey }],
+      ["booking-2", { idempotencyKey: second.idempotencyKey }],
+    ]);
+    expect(useOutboxStore.getState().items).toEqual([]);
+  });
+
+  it("keeps writes pending and stops while offline", async () => {
+    const first = queued("booking-1");
+    const second = queued("booking-2");
+    useOutboxStore.setState({ items: [first, second] });
+    complete.mockRejectedValue(new NetworkError("Network request failed"));
+
+    await replayOutbox();
+
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(statusOf(first.id)).toBe("pending");
+    expect(statusOf(second.id)).toBe("pending");
+  });
+
+  it("waits for the user to sign in again after a 401", async () => {
+    const first = queued("booking-1");
+    const second = queued("booking-2");
+    useOutboxStore.setState({ items: [first, second] });
+    complete.mockRejectedValue(new AuthError("Session expired. Please log in again."));
+
+    await replayOutbox();
+
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(statusOf(first.id)).toBe("pending");
+    expect(statusOf(second.id)).toBe("pending");
+  });
+
+  it("fails a write the user is not allowed to make and moves on", async () => {
+    const first = queued("booking-1");
+    const second = queued("booking-2");
+    useOutboxStore.setState({ items: [first, second] });
+    complete.mockRejectedValueOnce(new AuthError("Forbidden", { status: 403 })).mockResolvedValueOnce({});
+
+    await replayOutbox();
+
+    expect(statusOf(first.id)).toBe("failed");
+    expect(statusOf(second.id)).toBeUndefined();
+  });
+
+  it("holds back later writes for a record with a conflict", async () => {
+    const conflicted = queued("booking-1");
+    const sameRecord = queued("booking-1");
+    const otherRecord = queued("booking-2");
+    useOutboxStore.setState({ items: [conflicted, sameRecord, otherRecord] });
+    complete
+      .mockRejectedValueOnce(new ApiError("Already completed", "REQUEST_FAILED", { status: 409 }))
+      .mockResolvedValueOnce({});
+
+    await replayOutbox();
+
+    expect(complete.mock.calls.map(([id]) => id)).toEqual(["booking-1", "booking-2"]);
+    expect(statusOf(conflicted.id)).toBe("conflict");
+    expect(statusOf(sameRecord.id)).toBe("pending");
+    expect(statusOf(otherRecord.id)).toBeUndefined();
+  });
+
+  it("only replays the signed-in user's writes", async () => {
+    const own = queued("booking-1");
+    const otherUser = queued("booking-2", { userId: "user-2" });
+    useOutboxStore.setState({ items: [own, otherUser] });
+    complete.mockResolvedValue({});
+
+    await replayOutbox();
+
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(useOutboxStore.getState().items).toEqual([otherUser]);
+  });
+
+  it("does nothing while signed out", async () => {
+    useOutboxStore.setState({ items: [queued("booking-1")] });
+    useAuthStore.setState({ isAuthenticated: false });
+
+    await replayOutbox();
+
+    expect(complete).not.toHaveBeenCalled();
+  });
+});
+
+describe("runOrQueue", () => {
+  it("queues a write for the user under the same key when the server cannot be reached", async () => {
+    complete.mockRejectedValue(new NetworkError("Network request failed"));
+
+    const result = await runOrQueue(
+      "bookings.complete",
+      { bookedServiceId: "booking-1" },
+      { label: "Complete BK-1", entityId: "booking-1", idempotencyKey: "intent-key" }
+    );
+
+    expect(result.queued).toBe(true);
+    expect(complete).toHaveBeenCalledWith("booking-1", { idempotencyKey: "intent-key" });
+    expect(useOutboxStore.getState().items).toMatchObject([
+      { userId: "user-1", idempotencyKey: "intent-key", status: "pending" },
+    ]);
+  });
+
+  it("throws other errors without queueing", async () => {
+    complete.mockRejectedValue(new AuthError("Forbidden", { status: 403 }));
+
+    await expect(
+      runOrQueue("bookings.complete", { bookedServiceId: "booking-1" }, { label: "Complete BK-1" })
+    ).rejects.toBeInstanceOf(AuthError);
+    expect(useOutboxStore.getState().items).toEqual([]);
+  });
+
+  it("does not queue writes without a signed-in user", async () => {
+    useUserStore.setState({ user: null });
+
+    await expect(
+      runOrQueue("bookings.complete", { bookedServiceId: "booking-1" }, { label: "Complete BK-1" })
+    ).rejects.toBeInstanceOf(AuthError);
+    expect(complete).not.toHaveBeenCalled();
+  });
+});
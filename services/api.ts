@@ -1,16 +1,34 @@
 /**
  * API service for handling all HTTP requests
  * Supports GET, POST, PUT, PATCH with optional authentication and multipart/form-data
+ * Every attempt has a timeout, requests can be cancelled through an AbortSignal,
+ * and idempotent requests are retried with backoff
  */
 
+import { getApiPrefix, getLocale } from "@/i18n";
 import { useAuthStore } from "@/store/authStore";
 import { router } from "expo-router";
+import { z } from "zod";
+import {
+  AbortError,
+  ApiError,
+  AuthError,
+  ConfigError,
+  createHttpError,
+  isAbortError,
+  isSessionRevokedError,
+  NetworkError,
+  TimeoutError,
+} from "./errors";
+import { getDeviceHeaders } from "./device";
+import { recordRequest } from "./networkLog";
+import { validateResponse } from "./validation";
 
 // Get API domain from environment variables
 // Expo requires EXPO_PUBLIC_ prefix for client-side env vars
 import Constants from 'expo-constants';
 
-const API_DOMAIN = Constants.expoConfig?.extra?.apiDomain as string | undefined || "";
+export const API_DOMAIN = Constants.expoConfig?.extra?.apiDomain as string | undefined || "";
 
 
 
@@ -20,10 +38,129 @@ if (!API_DOMAIN) {
 
 export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
 
-export interface ApiRequestOptions {
+export interface RetryOptions {
   /**
-   * The endpoint path (e.g., "/users", "/auth/login")
-   * Will be appended to API_DOMAIN
+   * Number of retries after the first attempt
+   */
+  retries?: number;
+
+  /**
+   * Delay before the first retry, doubled for each further attempt (ms)
+   */
+  baseDelay?: number;
+
+  /**
+   * Longest wait between attempts, including a server's Retry-After (ms)
+   */
+  maxDelay?: number;
+}
+
+interface ApiConfig {
+  /**
+   * Time allowed for each attempt before it is aborted (ms, 0 disables)
+   */
+  timeout: number;
+  retry: Required<RetryOptions>;
+}
+
+const apiConfig: ApiConfig = {
+  timeout: 30_000,
+  retry: {
+    retries: 2,
+    baseDelay: 500,
+    maxDelay: 10_000,
+  },
+};
+
+/**
+ * A file sent through a transport's upload, e.g. from the image picker
+ */
+export interface TransportUploadRequest {
+  file: { uri: string; name: string; mimeType: string };
+  token: string | null;
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Carries requests to a backend
+ * The default sends them to API_DOMAIN over the network; services/environment swaps it for the selected
+ * environment's domain or the mock backend (services/mock), which answers them in-app.
+ */
+export interface Transport {
+  /**
+   * Origin endpoints are appended to
+   */
+  baseUrl: string;
+
+  /**
+   * Performs one HTTP attempt, with the same contract as fetch
+   */
+  fetch: (url: string, init: RequestInit) => Promise<Response>;
+
+  /**
+   * Opens a WebSocket (default: the global WebSocket)
+   */
+  openSocket?: (url: string) => WebSocket;
+
+  /**
+   * Sends a multipart file upload (default: XMLHttpRequest, for progress events)
+   */
+  upload?: (url: string, request: TransportUploadRequest) => Promise<{ status: number; data: any }>;
+}
+
+/**
+ * Network transport sending requests to the given origin
+ */
+export const createHttpTransport = (baseUrl: string): Transport => ({
+  baseUrl,
+  fetch: (url, init) => fetch(url, init),
+});
+
+const httpTransport = createHttpTransport(API_DOMAIN);
+
+let transport = httpTransport;
+
+/**
+ * The transport requests are currently sent through
+ */
+export const getTransport = () => transport;
+
+/**
+ * Replaces the transport used by every request, or restores the network transport when null
+ */
+export function setTransport(next: Transport | null) {
+  transport = next ?? httpTransport;
+}
+
+/**
+ * Overrides the global timeout and retry defaults used by every request
+ */
+export function configureApi(config: { timeout?: number; retry?: RetryOptions }) {
+  if (config.timeout !== undefined) {
+    apiConfig.timeout = config.timeout;
+  }
+  if (config.retry) {
+    apiConfig.retry = { ...apiConfig.retry, ...config.retry };
+  }
+}
+
+/**
+ * Language segment placeholder in endpoint paths
+ * "/:locale/on/services" is sent as /en/on/services, /sw/on/services... for the active language.
+ */
+const LOCALE_SEGMENT = "/:locale/";
+
+/**
+ * Replaces the language placeholder at the start of an endpoint with the active language's prefix
+ */
+export const resolveEndpoint = (endpoint: string) =>
+  endpoint.startsWith(LOCALE_SEGMENT) ? `/${getApiPrefix()}/${endpoint.slice(LOCALE_SEGMENT.length)}` : endpoint;
+
+export interface ApiRequestOptions<T = any> {
+  /**
+   * The endpoint path (e.g., "/users", "/:locale/on/services")
+   * Will be appended to API_DOMAIN; a leading /:locale/ is replaced with the active language's prefix
    */
   endpoint: string;
   
@@ -62,8 +199,60 @@ export interface ApiRequestOptions {
    * Whether to throw errors on non-2xx responses (default: true)
    */
   throwOnError?: boolean;
+
+  /**
+   * Whether to skip the token refresh and replay on a 401 response (default: false)
+   */
+  skipAuthRefresh?: boolean;
+
+  /**
+   * Schema the unwrapped response data is validated against
+   * A mismatch throws an ApiSchemaError unless lenient is set
+   */
+  schema?: z.ZodType<T>;
+
+  /**
+   * Whether to log a schema mismatch and return the data anyway (default: false)
+   */
+  lenient?: boolean;
+
+  /**
+   * Time allowed for each attempt before it is aborted (ms, default: the global timeout, 0 disables)
+   */
+  timeout?: number;
+
+  /**
+   * Cancels the request, e.g. when the screen that started it unmounts
+   * A cancelled request rejects with an AbortError and is never retried
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Retry behaviour for network failures, timeouts and 408/429/5xx responses
+   * GET, PUT, DELETE and requests with an idempotencyKey retry with the global defaults;
+   * other POST and PATCH requests only retry when this is set.
+   * Pass false to disable retries, a number to set the retry count, or RetryOptions.
+   */
+  retry?: boolean | number | RetryOptions;
+
+  /**
+   * Sent as the Idempotency-Key header so the server applies the request at most once
+   * Use one key per user intent and reuse it for every retry (see withIdempotencyKey)
+   */
+  idempotencyKey?: string;
+
+  /**
+   * How a successful response body is read (default: "json")
+   * "blob" returns the raw body, e.g. for file resources; error bodies are still parsed as JSON
+   */
+  responseType?: "json" | "blob";
 }
 
+/**
+ * Per-call transport options the endpoint SDK passes through to apiRequest
+ */
+export type RequestOptions = Pick<ApiRequestOptions, "signal" | "timeout" | "retry" | "idempotencyKey">;
+
 export interface ApiResponse<T = any> {
   data: T;
   status: number;
@@ -71,13 +260,6 @@ export interface ApiResponse<T = any> {
   headers: Headers;
 }
 
-export interface ApiError {
-  message: string;
-  status?: number;
-  statusText?: string;
-  data?: any;
-}
-
 /**
  * Builds query string from params object
  */
@@ -130,10 +312,363 @@ function objectToFormData(obj: Record<string, any>): FormData {
   return formData;
 }
 
+/**
+ * Methods that can be repeated without changing the result, so they are retried by default
+ */
+const IDEMPOTENT_METHODS: HttpMethod[] = ["GET", "PUT", "DELETE"];
+
+/**
+ * Statuses worth retrying: request timeouts, rate limiting and transient server failures
+ */
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+function resolveRetryOptions(
+  method: HttpMethod,
+  retry: ApiRequestOptions["retry"],
+  idempotencyKey?: string
+): Required<RetryOptions> {
+  if (retry === undefined) {
+    // The server deduplicates keyed requests, so they are as safe to repeat as idempotent methods
+    const canRepeat = IDEMPOTENT_METHODS.includes(method) || !!idempotencyKey;
+    return canRepeat ? apiConfig.retry : { ...apiConfig.retry, retries: 0 };
+  }
+  if (typeof retry === "boolean") {
+    return retry ? apiConfig.retry : { ...apiConfig.retry, retries: 0 };
+  }
+  if (typeof retry === "number") {
+    return { ...apiConfig.retry, retries: retry };
+  }
+  return { ...apiConfig.retry, ...retry };
+}
+
+/**
+ * Exponential backoff with full jitter, so clients that failed together do not retry together
+ */
+function getBackoffDelay(attempt: number, retry: Required<RetryOptions>) {
+  return Math.random() * Math.min(retry.maxDelay, retry.baseDelay * 2 ** attempt);
+}
+
+/**
+ * Reads a Retry-After header given in seconds or as an HTTP date (ms)
+ */
+function parseRetryAfter(headers: Headers): number | null {
+  const value = headers.get("retry-after");
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Waits between attempts; rejects early when the request is cancelled
+ */
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Performs one fetch attempt that is aborted by the caller's signal or after the timeout
+ */
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeout: number,
+  signal?: AbortSignal
+): Promise<Response> {
+  if (signal?.aborted) {
+    throw new AbortError();
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+  const timer =
+    timeout > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeout)
+      : null;
+
+  const finishLogEntry = recordRequest(url, init);
+  try {
+    const response = await transport.fetch(url, { ...init, signal: controller.signal });
+    finishLogEntry({ status: response.status });
+    return response;
+  } catch (error) {
+    const failure = timedOut ? new TimeoutError(timeout) : signal?.aborted ? new AbortError() : error;
+    finishLogEntry({ error: failure });
+    throw failure;
+  } finally {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Fetches with retries for network failures, timeouts and retryable statuses
+ * A Retry-After header sets the wait; a server asking for longer than maxDelay gets its response returned instead.
+ */
+async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  options: Pick<ApiRequestOptions, "signal" | "retry" | "idempotencyKey"> & { method: HttpMethod; timeout: number }
+): Promise<Response> {
+  const retry = resolveRetryOptions(options.method, options.retry, options.idempotencyKey);
+
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = attempt < retry.retries;
+
+    let response: Response;
+    try {
+      response = await fetchWithTimeout(url, init, options.timeout, options.signal);
+    } catch (error) {
+      if (!canRetry || isAbortError(error)) {
+        throw error;
+      }
+      await wait(getBackoffDelay(attempt, retry), options.signal);
+      continue;
+    }
+
+    if (!canRetry || !RETRYABLE_STATUSES.includes(response.status)) {
+      return response;
+    }
+
+    const retryAfter = parseRetryAfter(response.headers);
+    if (retryAfter !== null && retryAfter > retry.maxDelay) {
+      return response;
+    }
+    await wait(retryAfter ?? getBackoffDelay(attempt, retry), options.signal);
+  }
+}
+
+/**
+ * Wraps anything thrown while sending a request or reading its response in an ApiError
+ * Errors raised by the client itself are already ApiErrors and are returned unchanged.
+ */
+function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  // fetch rejects with a TypeError when no response was received
+  const message = (error as Error | null)?.message || "";
+  if (message.includes("Network request failed") || message.includes("Failed to fetch")) {
+    return new NetworkError(
+      "Network request failed. Please check your internet connection and ensure the API server is running."
+    );
+  }
+
+  return new ApiError(message || "Request failed");
+}
+
+/**
+ * Endpoint used to exchange the stored refresh token for a new access token
+ * Intentionally not prefixed with /:locale/: the backend serves it, like /login and /login/two-factor,
+ * without a locale segment (mirrored in services/mock/backend.ts).
+ * A session without a refresh token cannot be refreshed and ends on the first 401.
+ */
+const REFRESH_ENDPOINT = "/refresh/token";
+
+interface RefreshTokenResponse {
+  accessToken: string;
+  refreshToken?: string;
+}
+
+interface QueuedRequest {
+  resolve: (token: string) => void;
+  reject: (error: unknown) => void;
+}
+
+// Requests that received a 401 while a refresh is in flight wait here for the new token
+let isRefreshing = false;
+let refreshQueue: QueuedRequest[] = [];
+
+/**
+ * Settles every queued request with the refresh outcome
+ */
+function flushRefreshQueue(error: unknown, token: string | null) {
+  const queue = refreshQueue;
+  refreshQueue = [];
+  queue.forEach(({ resolve, reject }) => {
+    if (error || !token) {
+      reject(error ?? new AuthError("Unable to refresh session"));
+    } else {
+      resolve(token);
+    }
+  });
+}
+
+// Notified of every 403 on an authenticated request, e.g. to refresh the user's permissions
+const forbiddenListeners = new Set<() => void>();
+
+/**
+ * Calls the listener whenever an authenticated request is refused with a 403
+ * @returns Function that removes the listener
+ */
+export function subscribeForbidden(listener: () => void) {
+  forbiddenListeners.add(listener);
+  return () => {
+    forbiddenListeners.delete(listener);
+  };
+}
+
+/**
+ * Logs the user out after the session can no longer be refreshed
+ * The login screen then explains whether it expired or was signed out from another device.
+ */
+function handleSessionExpired(error: unknown) {
+  useAuthStore.getState().endSession(isSessionRevokedError(error) ? "revoked" : "expired");
+  router.replace("/Login");
+}
+
+/**
+ * Exchanges the refresh token for a new access token.
+ * Only one refresh call is made at a time; concurrent callers are queued
+ * and resolved with the same token once the refresh settles.
+ * If the server rejects the refresh token the user is logged out once and every queued caller is rejected.
+ * Other failures (offline, timeouts, 5xx) reject the queued callers with the original error and keep the session,
+ * so a weak connection does not sign the user out.
+ * Exported for transports that cannot go through apiRequest, e.g. uploads that report progress.
+ */
+export function refreshAccessToken(): Promise<string> {
+  const queued = new Promise<string>((resolve, reject) => {
+    refreshQueue.push({ resolve, reject });
+  });
+
+  if (isRefreshing) {
+    return queued;
+  }
+
+  isRefreshing = true;
+  const { refreshToken, updateToken, updateRefreshToken } = useAuthStore.getState();
+
+  (async () => {
+    try {
+      if (!refreshToken) {
+        throw new AuthError("Refresh token is not available");
+      }
+
+      const response = await executeRequest<RefreshTokenResponse>(
+        {
+          endpoint: REFRESH_ENDPOINT,
+          method: "POST",
+          data: { refreshToken },
+          requiresAuth: false,
+        },
+        false
+      );
+
+      const { accessToken, refreshToken: nextRefreshToken } = response.data || ({} as RefreshTokenResponse);
+      if (!accessToken) {
+        throw new AuthError("Invalid refresh response from server");
+      }
+
+      updateToken(accessToken);
+      // Servers that rotate refresh tokens return a new one with each refresh
+      if (nextRefreshToken) {
+        updateRefreshToken(nextRefreshToken);
+      }
+      flushRefreshQueue(null, accessToken);
+    } catch (error) {
+      // 401/403 from the refresh endpoint, a missing refresh token or a response without a token
+      if (!(error instanceof AuthError)) {
+        flushRefreshQueue(error, null);
+        return;
+      }
+      handleSessionExpired(error);
+      flushRefreshQueue(
+        new AuthError("Your session has expired. Please sign in again.", {
+          data: error.data,
+        }),
+        null
+      );
+    } finally {
+      isRefreshing = false;
+    }
+  })();
+
+  return queued;
+}
+
 /**
  * Main API request function
+ * Successful responses are validated against options.schema when one is given
+ */
+export async function apiRequest<T = any>(options: ApiRequestOptions<T>): Promise<ApiResponse<T>> {
+  const response = await requestWithRefresh<T>(options);
+
+  // Error and empty (204) responses have nothing to validate
+  if (options.schema && response.status >= 200 && response.status < 300 && response.status !== 204) {
+    response.data = validateResponse(options.schema, response.data, {
+      endpoint: options.endpoint,
+      method: options.method ?? "GET",
+      lenient: options.lenient,
+    });
+  }
+
+  return response;
+}
+
+/**
+ * On a 401 the access token is refreshed once and the request is replayed with the new token
  */
-export async function apiRequest<T = any>(options: ApiRequestOptions): Promise<ApiResponse<T>> {
+async function requestWithRefresh<T = any>(options: ApiRequestOptions<T>): Promise<ApiResponse<T>> {
+  const { requiresAuth = true, skipAuthRefresh = false } = options;
+  const canRefresh = requiresAuth && !skipAuthRefresh;
+
+  const response = await executeRequest<T>(options, canRefresh);
+  if (!canRefresh || response.status !== 401) {
+    return response;
+  }
+
+  try {
+    await refreshAccessToken();
+  } catch (error) {
+    // Either the session has already been cleared by refreshAccessToken or the refresh could not reach the server
+    if (options.throwOnError ?? true) {
+      throw error;
+    }
+    return response;
+  }
+
+  // Replay the failed request; a second 401 is not refreshed again
+  return executeRequest<T>(options, false);
+}
+
+/**
+ * Performs a single HTTP request
+ * When deferUnauthorized is true a 401 response is returned instead of thrown so the caller can refresh and replay
+ */
+async function executeRequest<T = any>(
+  options: ApiRequestOptions<T>,
+  deferUnauthorized: boolean
+): Promise<ApiResponse<T>> {
   const {
     endpoint,
     method = "GET",
@@ -143,14 +678,19 @@ export async function apiRequest<T = any>(options: ApiRequestOptions): Promise<A
     isMultipart = false,
     headers = {},
     throwOnError = true,
+    timeout = apiConfig.timeout,
+    signal,
+    retry,
+    idempotencyKey,
+    responseType = "json",
   } = options;
 
   // Validate API_DOMAIN is set
-  if (!API_DOMAIN || API_DOMAIN.trim() === "") {
-    const error: ApiError = {
-      message: "API_DOMAIN is not configured. Please set EXPO_PUBLIC_API_DOMAIN in your environment variables.",
-      status: 0,
-    };
+  const { baseUrl } = transport;
+  if (!baseUrl || baseUrl.trim() === "") {
+    const error = new ConfigError(
+      "API_DOMAIN is not configured. Set it for the build or pick an environment on the diagnostics screen."
+    );
     console.error("API Error:", error.message);
     if (throwOnError) {
       throw error;
@@ -164,7 +704,7 @@ export async function apiRequest<T = any>(options: ApiRequestOptions): Promise<A
   }
 
   // Build URL
-  let url = `${API_DOMAIN}${endpoint.startsWith("/") ? endpoint : `/${endpoint}`}`;
+  let url = `${baseUrl}${resolveEndpoint(endpoint.startsWith("/") ? endpoint : `/${endpoint}`)}`;
  
   // Add query parameters for GET requests or if params are provided
   if (params) {
@@ -176,10 +716,7 @@ export async function apiRequest<T = any>(options: ApiRequestOptions): Promise<A
   if (requiresAuth) {
     authToken = useAuthStore.getState().token;
     if (!authToken) {
-      const error: ApiError = {
-        message: "Authentication token is required but not available",
-        status: 401,
-      };
+      const error = new AuthError("Authentication token is required but not available");
       // logout user to Login screen
       useAuthStore.getState().logout();
       router.replace('/');
@@ -192,6 +729,8 @@ export async function apiRequest<T = any>(options: ApiRequestOptions): Promise<A
 
   // Prepare headers
   const requestHeaders: HeadersInit = {
+    "Accept-Language": getLocale(),
+    ...getDeviceHeaders(),
     ...headers,
   };
 
@@ -204,6 +743,10 @@ export async function apiRequest<T = any>(options: ApiRequestOptions): Promise<A
     requestHeaders["Authorization"] = `Bearer ${authToken}`;
   }
 
+  if (idempotencyKey) {
+    requestHeaders["Idempotency-Key"] = idempotencyKey;
+  }
+
   // Prepare body
   let body: string | FormData | undefined;
   if (data !== undefined) {
@@ -224,11 +767,15 @@ export async function apiRequest<T = any>(options: ApiRequestOptions): Promise<A
 
   // Make the request
   try {
-    const response = await fetch(url, {
-      method,
-      headers: requestHeaders,
-      body,
-    });
+    const response = await fetchWithRetry(
+      url,
+      {
+        method,
+        headers: requestHeaders,
+        body,
+      },
+      { method, timeout, signal, retry, idempotencyKey }
+    );
 
     // Handle 204 No Content - no response body to parse
     if (response.status === 204) {
@@ -245,7 +792,9 @@ export async function apiRequest<T = any>(options: ApiRequestOptions): Promise<A
     let responseData: T;
     const contentType = response.headers.get("content-type");
     
-    if (contentType && contentType.includes("application/json")) {
+    if (responseType === "blob" && response.ok) {
+      responseData = (await response.blob()) as T;
+    } else if (contentType && contentType.includes("application/json")) {
       responseData = await response.json();
     } else {
       // Try to parse as JSON, fallback to text
@@ -262,9 +811,14 @@ export async function apiRequest<T = any>(options: ApiRequestOptions): Promise<A
       }
     }
 
+    // The caller may have cancelled while the body was being read
+    if (signal?.aborted) {
+      throw new AbortError();
+    }
+
     // Extract data - handle both wrapped and unwrapped responses
     // If response has a 'data' property, use it; otherwise use the response directly
-    const extractedData = (responseData as any)?.data !== undefined 
+    const extractedData = responseType !== "blob" && (responseData as any)?.data !== undefined 
       ? (responseData as any).data 
       : responseData;
 
@@ -276,10 +830,18 @@ export async function apiRequest<T = any>(options: ApiRequestOptions): Promise<A
     };
 
   
-    // Handle 401 Unauthorized - clear auth token if request required auth
+    // Handle 401 Unauthorized - hand back to apiRequest for a token refresh and replay
     if (response.status === 401 && requiresAuth) {
-      // Clear authentication token on 401 error
-      useAuthStore.getState().clearToken();
+      if (deferUnauthorized) {
+        return apiResponse;
+      }
+      // The refreshed token was rejected as well, so the session is over
+      handleSessionExpired(new AuthError("Session rejected", { data: responseData }));
+    }
+
+    // A permission may have been revoked since it was loaded
+    if (response.status === 403 && requiresAuth) {
+      forbiddenListeners.forEach((listener) => listener());
     }
 
     // Throw error if status is not ok and throwOnError is true
@@ -296,60 +858,30 @@ export async function apiRequest<T = any>(options: ApiRequestOptions): Promise<A
         errorMessage = errorMessage.charAt(0).toUpperCase() + errorMessage.slice(1);
       }
       
-      const error: ApiError = {
-        message: errorMessage,
-        status: response.status,
+      throw createHttpError(response.status, errorMessage, {
         statusText: response.statusText,
         data: responseData,
-      };
-      throw error;
+      });
     }
 
     return apiResponse;
   } catch (error) {
-    console.log("API Request Error:", error);
-    
-    // Handle network errors or other exceptions
-    if (error instanceof Error && "status" in error) {
-      // This is an ApiError we threw
+    // Cancelled requests always reject so callers never act on them
+    if (isAbortError(error)) {
       throw error;
     }
 
-    // Check if it's a network error (TypeError: Network request failed)
-    const errorMessage = (error as any)?.message || "";
-    if (errorMessage.includes("Network request failed") || errorMessage.includes("Failed to fetch")) {
-      const apiError: ApiError = {
-        message: API_DOMAIN 
-          ? "Network request failed. Please check your internet connection and ensure the API server is running."
-          : "Network request failed. API_DOMAIN is not configured. Please set EXPO_PUBLIC_API_DOMAIN in your environment variables.",
-        data: (error as any)?.data || null,
-      };
-      
-      if (throwOnError) {
-        throw apiError;
-      }
-
-      return {
-        data: null as T,
-        status: 0,
-        statusText: "Network Error",
-        headers: new Headers(),
-      };
-    }
+    console.log("API Request Error:", error);
 
-    const apiError: ApiError = {
-      message: (error as any)?.data?.message || errorMessage || "Network request failed",
-      data: (error as any)?.data?.data || null,
-    };
-    
+    const apiError = toApiError(error);
     if (throwOnError) {
       throw apiError;
     }
 
     return {
       data: null as T,
-      status: 0,
-      statusText: "Network Error",
+      status: apiError.status,
+      statusText: apiError.statusText ?? "Network Error",
       headers: new Headers(),
     };
   }
@@ -362,31 +894,31 @@ export const api = {
   /**
    * GET request
    */
-  get: <T = any>(endpoint: string, options?: Omit<ApiRequestOptions, "endpoint" | "method">) =>
+  get: <T = any>(endpoint: string, options?: Omit<ApiRequestOptions<T>, "endpoint" | "method">) =>
     apiRequest<T>({ ...options, endpoint, method: "GET" }),
 
   /**
    * POST request
    */
-  post: <T = any>(endpoint: string, data?: any, options?: Omit<ApiRequestOptions, "endpoint" | "method" | "data">) =>
+  post: <T = any>(endpoint: string, data?: any, options?: Omit<ApiRequestOptions<T>, "endpoint" | "method" | "data">) =>
     apiRequest<T>({ ...options, endpoint, method: "POST", data }),
 
   /**
    * PUT request
    */
-  put: <T = any>(endpoint: string, data?: any, options?: Omit<ApiRequestOptions, "endpoint" | "method" | "data">) =>
+  put: <T = any>(endpoint: string, data?: any, options?: Omit<ApiRequestOptions<T>, "endpoint" | "method" | "data">) =>
     apiRequest<T>({ ...options, endpoint, method: "PUT", data }),
 
   /**
    * PATCH request
    */
-  patch: <T = any>(endpoint: string, data?: any, options?: Omit<ApiRequestOptions, "endpoint" | "method" | "data">) =>
+  patch: <T = any>(endpoint: string, data?: any, options?: Omit<ApiRequestOptions<T>, "endpoint" | "method" | "data">) =>
     apiRequest<T>({ ...options, endpoint, method: "PATCH", data }),
 
   /**
    * DELETE request
    */
-  delete: <T = any>(endpoint: string, options?: Omit<ApiRequestOptions, "endpoint" | "method">) =>
+  delete: <T = any>(endpoint: string, options?: Omit<ApiRequestOptions<T>, "endpoint" | "method">) =>
     apiRequest<T>({ ...options, endpoint, method: "DELETE" }),
 };
 
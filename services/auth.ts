@@ -0,0 +1,121 @@
+/**
+ * Authentication and signed-in user endpoints
+ */
+import { api, RequestOptions } from "./api";
+import { Account, Branch } from "./types";
+
+export interface LoginResponse {
+  accessToken: string;
+  /** Left out by servers that do not refresh sessions; the user signs in again once the access token expires */
+  refreshToken?: string | null;
+  user: any;
+}
+
+/**
+ * Login answer for users with two-step verification; the tokens follow from verifyTwoFactor
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  /** Short-lived token identifying the half-finished login */
+  challengeToken: string;
+}
+
+export interface ResetCodeResponse {
+  /** Short-lived token that authorizes setting a new password */
+  resetToken: string;
+}
+
+export interface SwitchAccountResponse {
+  user: any;
+  account: any;
+  branch: Branch;
+  accessToken: string;
+  refreshToken?: string;
+}
+
+export interface RegisterInput {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  password: string;
+}
+
+export interface ProfileInput {
+  firstName: string;
+  middleName: string;
+  lastName: string;
+  gender: number;
+  birthDate: string;
+}
+
+/**
+ * Signs in with a password; users with two-step verification get a challenge instead of tokens
+ */
+export const login = async (emailOrUserNumber: string, password: string) =>
+  (await api.post<LoginResponse | TwoFactorChallenge>("/login", { emailOrUserNumber, password }, { requiresAuth: false }))
+    .data;
+
+export const isTwoFactorChallenge = (response: LoginResponse | TwoFactorChallenge): response is TwoFactorChallenge =>
+  "twoFactorRequired" in response && response.twoFactorRequired === true;
+
+/**
+ * Completes a login challenge with an authenticator code or a backup code; answers like login
+ * A backup code can only be used once.
+ */
+export const verifyTwoFactor = async (challengeToken: string, code: string) =>
+  (await api.post<LoginResponse>("/login/two-factor", { challengeToken, code }, { requiresAuth: false })).data;
+
+/**
+ * Creates a user account for a new business owner and signs it in; answers like login
+ * The user has no organization until onboarding completes (see onboarding.complete)
+ */
+export const register = async (input: RegisterInput) =>
+  (await api.post<LoginResponse>("/:locale/register", input, { requiresAuth: false })).data;
+
+/**
+ * Emails a reset code and a dirackserviceapp://ResetPassword link to the address
+ * The server answers the same whether or not the email belongs to an account
+ */
+export const requestPasswordReset = async (email: string) =>
+  (await api.post("/:locale/password/forgot", { email }, { requiresAuth: false })).data;
+
+/**
+ * Exchanges the emailed code for a reset token
+ */
+export const verifyResetCode = async (email: string, code: string) =>
+  (await api.post<ResetCodeResponse>("/:locale/password/verify", { email, code }, { requiresAuth: false })).data;
+
+/**
+ * Sets a new password and signs the user in; answers like login, with a challenge for two-step verification
+ */
+export const resetPassword = async (resetToken: string, password: string) =>
+  (
+    await api.post<LoginResponse | TwoFactorChallenge>(
+      "/:locale/password/reset",
+      { resetToken, password },
+      { requiresAuth: false }
+    )
+  ).data;
+
+/**
+ * Organization accounts of the signed-in user
+ */
+export const accounts = async (options?: RequestOptions) => (await api.get<Account[]>("/:locale/my/accounts", options)).data;
+
+/**
+ * Switches the session to an organization account and branch
+ */
+export const switchAccount = async (accountId: string, branchId: string) =>
+  (await api.post<SwitchAccountResponse>("/:locale/switch/account", { accountId, branchId })).data;
+
+/**
+ * Permission names granted to the signed-in user in the current account
+ */
+export const permissions = async (options?: RequestOptions) =>
+  (await api.get<string[]>("/:locale/auth/user/permissions", options)).data;
+
+export const updateProfile = async (input: ProfileInput) => (await api.patch("/:locale/auth/user/profile", input)).data;
+
+export const updatePassword = async (password: string) =>
+  (await api.post("/:locale/update/password", { password })).data;
@@ -0,0 +1,45 @@
+/**
+ * Biometric authentication (Face ID, Touch ID, Android fingerprint and face unlock) for the app lock
+ * Only biometrics are accepted; the device passcode is not offered as a fallback, the app PIN is.
+ */
+import * as LocalAuthentication from "expo-local-authentication";
+
+export type BiometricType = "face" | "fingerprint" | "iris";
+
+/**
+ * The biometric the device can use right now, or null without hardware or enrolled biometrics
+ */
+export async function getBiometricType(): Promise<BiometricType | null> {
+  const [hasHardware, isEnrolled] = await Promise.all([
+    LocalAuthentication.hasHardwareAsync(),
+    LocalAuthentication.isEnrolledAsync(),
+  ]);
+  if (!hasHardware || !isEnrolled) {
+    return null;
+  }
+
+  const types = await LocalAuthentication.supportedAuthenticationTypesAsync();
+  if (types.includes(LocalAuthentication.AuthenticationType.FACIAL_RECOGNITION)) {
+    return "face";
+  }
+  if (types.includes(LocalAuthentication.AuthenticationType.FINGERPRINT)) {
+    return "fingerprint";
+  }
+  if (types.includes(LocalAuthentication.AuthenticationType.IRIS)) {
+    return "iris";
+  }
+  return null;
+}
+
+/**
+ * Shows the system biometric prompt
+ * @returns Whether the user was recognized; false when they cancelled or it failed
+ */
+export async function authenticateWithBiometrics(promptMessage: string, cancelLabel: string): Promise<boolean> {
+  const result = await LocalAuthentication.authenticateAsync({
+    promptMessage,
+    cancelLabel,
+    disableDeviceFallback: true,
+  });
+  return result.success;
+}
@@ -0,0 +1,82 @@
+/**
+ * Booking endpoints (incoming requests and their lifecycle)
+ */
+import { z } from "zod";
+import { api, RequestOptions } from "./api";
+import { storeBookings } from "./entities";
+import { acceptStatusSchema, bookedServiceSchema } from "./schemas";
+import { AcceptStatus, BookedService, BookingActivity, SharedFile, VehicleProfile } from "./types";
+
+/**
+ * Incoming booking requests for a branch
+ */
+export const listForBranch = async (branchId: string, options?: RequestOptions) =>
+  storeBookings(
+    (
+      await api.get<BookedService[]>(`/:locale/on/book/services/branch/${branchId}`, {
+        ...options,
+        schema: z.array(bookedServiceSchema),
+      })
+    ).data
+  );
+
+export const get = async (bookedServiceId: string, options?: RequestOptions) =>
+  storeBookings(
+    (
+      await api.get<BookedService>(`/:locale/on/book/service/request/${bookedServiceId}`, {
+        ...options,
+        schema: bookedServiceSchema,
+      })
+    ).data
+  );
+
+/**
+ * Past bookings of the current organization
+ */
+export const history = async (options?: RequestOptions) =>
+  storeBookings(
+    (
+      await api.get<BookedService[]>("/:locale/on/book/service/histories", {
+        ...options,
+        schema: z.array(bookedServiceSchema),
+      })
+    ).data
+  );
+
+/**
+ * The provider's acceptance of a request, or null if it has not been accepted
+ */
+export const acceptStatus = async (bookedServiceId: string, options?: RequestOptions) =>
+  (
+    await api.get<AcceptStatus | null>(`/:locale/on/accept/incoming/request/${bookedServiceId}/status`, {
+      ...options,
+      schema: acceptStatusSchema.nullable(),
+    })
+  ).data;
+
+export const accept = async (bookedServiceId: string, options?: RequestOptions) =>
+  (
+    await api.post<{ incomingProviderId?: string }>(
+      "/:locale/on/accept/incoming/request",
+      { bookedServiceId },
+      options
+    )
+  ).data;
+
+/**
+ * Withdraws an acceptance by its accept status id
+ */
+export const cancelAcceptance = async (acceptStatusId: string) =>
+  (await api.post(`/:locale/on/cancel/sent/request/${acceptStatusId}`, {})).data;
+
+export const complete = async (bookedServiceId: string, options?: RequestOptions) =>
+  (await api.post(`/:locale/on/book/service/complete/${bookedServiceId}/request`, {}, options)).data;
+
+export const activities = async (bookedServiceId: string, options?: RequestOptions) =>
+  (await api.get<BookingActivity[]>(`/:locale/auth/book/service/${bookedServiceId}/processes`, options)).data;
+
+export const sharedFiles = async (bookedServiceId: string, options?: RequestOptions) =>
+  (await api.get<SharedFile[]>(`/:locale/auth/shared/service/files/${bookedServiceId}`, options)).data;
+
+export const vehicleProfiles = async (bookedServiceId: string, options?: RequestOptions) =>
+  (await api.get<VehicleProfile[]>(`/:locale/auth/share/vehicle/profiles/${bookedServiceId}`, options)).data;
@@ -0,0 +1,61 @@
+/**
+ * Branch endpoints
+ */
+import { api, RequestOptions } from "./api";
+import { storeBranches, storeBranchServices } from "./entities";
+import { Branch, BranchService, BranchStaff } from "./types";
+
+export interface BranchInput {
+  name: string;
+  contact: number;
+  email: string;
+  city: string;
+  stateProvince: string;
+  description: string;
+  location: string;
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+}
+
+/**
+ * All branches of the current organization
+ */
+export const list = async (options?: RequestOptions) =>
+  storeBranches((await api.get<Branch[]>("/:locale/on/branches", options)).data);
+
+export const get = async (branchId: string, options?: RequestOptions) =>
+  storeBranches((await api.get<Branch>(`/:locale/on/branch/${branchId}`, options)).data);
+
+export const create = async (input: BranchInput) =>
+  storeBranches((await api.post<Branch>("/:locale/on/branch", input)).data);
+
+/**
+ * Branches the signed-in user can work in for an organization
+ */
+export const listForOrganization = async (organizationId: string, options?: RequestOptions) =>
+  storeBranches((await api.get<Branch[]>(`/:locale/staff/branches/${organizationId}`, options)).data);
+
+export const services = async (branchId: string, options?: RequestOptions) =>
+  storeBranchServices((await api.get<BranchService[]>(`/:locale/on/branch/${branchId}/services`, options)).data);
+
+export const addServices = async (branchId: string, serviceIds: string[]) =>
+  (await api.post<{ success: boolean }>("/:locale/on/add/service/branch", { branchId, serviceId: serviceIds })).data;
+
+/**
+ * Removes a service from a branch by its branch-service id
+ */
+export const removeService = async (serviceBranchId: string) =>
+  (await api.delete(`/:locale/on/remove/service/branch/${serviceBranchId}`)).data;
+
+export const staffs = async (branchId: string, options?: RequestOptions) =>
+  (await api.get<BranchStaff[]>(`/:locale/on/branch/${branchId}/staffs`, options)).data;
+
+export const addStaff = async (branchId: string, userId: string) =>
+  (await api.post(`/:locale/on/staff/${userId}`, { branchId })).data;
+
+/**
+ * Locks or unlocks a staff member's access to a branch
+ */
+export const lockStaff = async (branchUserId: string, locked: boolean, reasons: string) =>
+  (await api.patch("/:locale/on/staff/branch/lock", { branchUserId, reasons, locked })).data;
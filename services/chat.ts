@@ -0,0 +1,64 @@
+/**
+ * Chat endpoints (customer conversations per booked service)
+ */
+import { api, RequestOptions } from "./api";
+import { ConfigError, NetworkError, TimeoutError } from "./errors";
+import { openSocket, socketUrl } from "./socket";
+import { BookedService } from "./types";
+
+/**
+ * Booked services the signed-in staff member can chat about
+ */
+export const conversations = async (options?: RequestOptions) =>
+  (await api.get<BookedService[]>("/:locale/on/my/book/service/staff", options)).data;
+
+/**
+ * WebSocket URL for a booked service's chat room, or null when API_DOMAIN is not configured
+ */
+export const roomSocketUrl = (bookCode: string, token: string) => socketUrl(`/service/${bookCode}?token=${token}`);
+
+/**
+ * Opens the chat room socket through the current transport, or returns null when API_DOMAIN is not configured
+ */
+export const openRoomSocket = (bookCode: string, token: string): WebSocket | null =>
+  openSocket(`/service/${bookCode}?token=${token}`);
+
+export interface ChatMessageInput {
+  type: "MESSAGE";
+  receiverId: string;
+  content: string;
+  bookCode: string;
+  bookServiceId: string;
+  senderId: string;
+  /** Set on replays from the outbox; the server ignores a message whose id it has already delivered */
+  clientMessageId?: string;
+}
+
+/**
+ * Sends a single message over a short-lived connection to the chat room
+ * Used to replay messages written while offline, when the room screen may no longer be open.
+ */
+export const sendMessage = (message: ChatMessageInput, token: string, timeout = 15_000) =>
+  new Promise<void>((resolve, reject) => {
+    const ws = openRoomSocket(message.bookCode, token);
+    if (!ws) {
+      reject(new ConfigError("API_DOMAIN is not configured."));
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      ws.close();
+      reject(new TimeoutError(timeout));
+    }, timeout);
+
+    ws.onopen = () => {
+      ws.send(JSON.stringify(message));
+      clearTimeout(timer);
+      ws.close();
+      resolve();
+    };
+    ws.onerror = () => {
+      clearTimeout(timer);
+      reject(new NetworkError("Could not connect to the chat room."));
+    };
+  });
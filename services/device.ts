@@ -0,0 +1,30 @@
+/**
+ * Identifies this device to the server
+ * Sent with every request so the server can label the session in the user's devices list.
+ */
+import Constants from "expo-constants";
+import * as Device from "expo-device";
+import { Platform } from "react-native";
+
+/**
+ * Readable name of this device, e.g. "Priya's iPhone" or "Samsung SM-A546E"
+ */
+export function getDeviceName() {
+  if (Device.deviceName) {
+    return Device.deviceName;
+  }
+  const model = [Device.manufacturer, Device.modelName].filter(Boolean).join(" ");
+  return model || Platform.OS;
+}
+
+/**
+ * Headers describing this device and app build
+ * Header values must be ASCII (OkHttp on Android rejects others), so the device name is URI-encoded.
+ */
+export function getDeviceHeaders(): Record<string, string> {
+  return {
+    "X-Device-Name": encodeURIComponent(getDeviceName()),
+    "X-Device-Platform": Platform.OS,
+    "X-App-Version": Constants.expoConfig?.version ?? "unknown",
+  };
+}
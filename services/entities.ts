@@ -0,0 +1,57 @@
+/**
+ * Upserts API responses into the entity store (store/entityStore.ts)
+ * Each helper stores the entity and those nested in it, then returns the response unchanged,
+ * so endpoints wrap their result: storeServices((await api.get<Service[]>(...)).data)
+ */
+import { useEntityStore } from "@/store/entityStore";
+import { serviceSchema } from "./schemas";
+import { BookedService, Branch, BranchService, OrganizationStaff, Service } from "./types";
+
+const upsert = useEntityStore.getState().upsert;
+
+export const storeServices = <T extends Service | Service[]>(data: T): T => {
+  upsert("services", Array.isArray(data) ? data : [data]);
+  return data;
+};
+
+/**
+ * Stores the result of a write to a service
+ * The response is stored when it is a service; otherwise (e.g. a status message) the values sent
+ * are applied to the stored service, so screens showing it do not wait for a refetch.
+ */
+export const storeServiceWrite = <T>(serviceId: string, sent: Partial<Service>, data: T): T => {
+  const parsed = serviceSchema.safeParse(data);
+  if (parsed.success) {
+    upsert("services", [parsed.data]);
+    return data;
+  }
+
+  const existing = useEntityStore.getState().services[serviceId];
+  if (existing) {
+    upsert("services", [{ ...existing, ...sent }]);
+  }
+  return data;
+};
+
+export const storeBranches = <T extends Branch | Branch[]>(data: T): T => {
+  upsert("branches", Array.isArray(data) ? data : [data]);
+  return data;
+};
+
+export const storeBranchServices = (data: BranchService[]) => {
+  upsert("services", data.map((item) => item.service));
+  return data;
+};
+
+export const storeStaff = <T extends OrganizationStaff | OrganizationStaff[]>(data: T): T => {
+  upsert("staff", Array.isArray(data) ? data : [data]);
+  return data;
+};
+
+export const storeBookings = <T extends BookedService | BookedService[]>(data: T): T => {
+  const bookings: BookedService[] = Array.isArray(data) ? data : [data];
+  upsert("bookings", bookings);
+  upsert("services", bookings.map((booking) => booking.service));
+  upsert("branches", bookings.map((booking) => booking.branch));
+  return data;
+};
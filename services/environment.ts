@@ -0,0 +1,56 @@
+/**
+ * Runtime backend selection
+ * Points the API transport at the environment picked in the dev settings store, so one build can be
+ * tested against production, staging, UAT, a custom domain or the in-app mock backend without rebuilding.
+ * Switching signs the user out: a session and its cached data belong to the backend that issued them.
+ */
+import {
+  ApiEnvironment,
+  CAN_SWITCH_ENVIRONMENT,
+  DEFAULT_ENVIRONMENT_ID,
+  getApiEnvironment,
+} from "@/constants/environments";
+import { useAuthStore } from "@/store/authStore";
+import { useDevSettingsStore } from "@/store/devSettingsStore";
+import { createHttpTransport, setTransport } from "./api";
+import { mockTransport } from "./mock";
+import { clearQueryCache } from "./queryClient";
+
+/**
+ * The selected environment, with the custom domain filled in
+ * Builds that cannot switch ignore any stored selection and use the default environment.
+ */
+export function getActiveEnvironment(): ApiEnvironment {
+  if (!CAN_SWITCH_ENVIRONMENT) {
+    return getApiEnvironment(DEFAULT_ENVIRONMENT_ID);
+  }
+  const { environmentId, customApiDomain } = useDevSettingsStore.getState();
+  const environment = getApiEnvironment(environmentId);
+  return environment.id === "custom" ? { ...environment, apiDomain: customApiDomain } : environment;
+}
+
+function applyEnvironment() {
+  const environment = getActiveEnvironment();
+  setTransport(environment.id === "mock" ? mockTransport : createHttpTransport(environment.apiDomain));
+}
+
+useDevSettingsStore.persist.onFinishHydration(applyEnvironment);
+if (useDevSettingsStore.persist.hasHydrated()) {
+  applyEnvironment();
+}
+
+useDevSettingsStore.subscribe((state, previousState) => {
+  const isCustom = state.environmentId === "custom";
+  if (
+    state.environmentId === previousState.environmentId &&
+    (!isCustom || state.customApiDomain === previousState.customApiDomain)
+  ) {
+    return;
+  }
+  applyEnvironment();
+
+  clearQueryCache();
+  if (useAuthStore.getState().isAuthenticated) {
+    useAuthStore.getState().logout();
+  }
+});
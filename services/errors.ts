@@ -0,0 +1,196 @@
+/**
+ * Errors thrown by the API client
+ * Every error is an ApiError with a stable code, so screens can branch on
+ * `error instanceof ValidationError` or `error.code` instead of inspecting status codes.
+ */
+
+export type ApiErrorCode =
+  | "NETWORK_ERROR"
+  | "TIMEOUT"
+  | "ABORTED"
+  | "AUTH_ERROR"
+  | "VALIDATION_ERROR"
+  | "SERVER_ERROR"
+  | "CONFIG_ERROR"
+  | "SCHEMA_MISMATCH"
+  | "REQUEST_FAILED";
+
+interface ApiErrorOptions {
+  status?: number;
+  statusText?: string;
+  data?: any;
+}
+
+/**
+ * Base class of every API client error
+ * Also used as-is for HTTP failures without a more specific class (e.g. 404, 409)
+ */
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  /** HTTP status, or 0 when no response was received */
+  readonly status: number;
+  readonly statusText?: string;
+  /** Parsed response body, if any */
+  readonly data?: any;
+
+  constructor(message: string, code: ApiErrorCode = "REQUEST_FAILED", options: ApiErrorOptions = {}) {
+    super(message);
+    // Keeps instanceof working when Error subclasses are transpiled
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.code = code;
+    this.status = options.status ?? 0;
+    this.statusText = options.statusText;
+    this.data = options.data;
+  }
+}
+
+/**
+ * The request never got a response: the device is offline or the server is unreachable
+ */
+export class NetworkError extends ApiError {
+  constructor(message: string, code: "NETWORK_ERROR" | "TIMEOUT" | "ABORTED" = "NETWORK_ERROR", data?: any) {
+    super(message, code, { statusText: "Network Error", data });
+  }
+}
+
+/**
+ * An attempt took longer than its timeout
+ */
+export class TimeoutError extends NetworkError {
+  constructor(timeout: number) {
+    super(`Request timed out after ${Math.round(timeout / 1000)} seconds. Please try again.`, "TIMEOUT");
+  }
+}
+
+/**
+ * The request was cancelled through its signal, e.g. because its screen unmounted
+ */
+export class AbortError extends NetworkError {
+  constructor() {
+    super("Request was cancelled", "ABORTED");
+  }
+}
+
+/**
+ * 401/403 responses, or the session is missing or could not be refreshed
+ */
+export class AuthError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, "AUTH_ERROR", { status: 401, ...options });
+  }
+}
+
+/**
+ * 400/422 responses; fieldErrors holds the server's per-field messages, keyed like form fields
+ */
+export class ValidationError extends ApiError {
+  readonly fieldErrors: Record<string, string>;
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, "VALIDATION_ERROR", options);
+    this.fieldErrors = getServerFieldErrors(options.data);
+  }
+}
+
+/**
+ * 5xx responses
+ */
+export class ServerError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, "SERVER_ERROR", options);
+  }
+}
+
+/**
+ * The app is misconfigured, e.g. API_DOMAIN is not set
+ */
+export class ConfigError extends ApiError {
+  constructor(message: string) {
+    super(message, "CONFIG_ERROR", { statusText: "Configuration Error" });
+  }
+}
+
+/**
+ * Creates the error class matching an HTTP error status
+ */
+export function createHttpError(status: number, message: string, options: Omit<ApiErrorOptions, "status"> = {}) {
+  const errorOptions = { ...options, status };
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, errorOptions);
+  }
+  if (status === 401 || status === 403) {
+    return new AuthError(message, errorOptions);
+  }
+  if (status >= 500) {
+    return new ServerError(message, errorOptions);
+  }
+  return new ApiError(message, "REQUEST_FAILED", errorOptions);
+}
+
+/**
+ * Whether an error comes from a request cancelled through its signal
+ * Screens ignore these instead of showing an error for a request they no longer need
+ */
+export function isAbortError(error: unknown): error is AbortError {
+  return error instanceof AbortError;
+}
+
+/**
+ * Whether the server rejected the session because it was signed out from another device
+ * The server marks these 401s with `{ code: "SESSION_REVOKED" }`, unlike tokens that merely expired.
+ */
+export function isSessionRevokedError(error: unknown): error is AuthError {
+  return error instanceof AuthError && error.data?.code === "SESSION_REVOKED";
+}
+
+/**
+ * Translates a server validation payload into the field errors shape produced by getFieldErrors
+ * Supports `errors` as an object of messages (`{ email: "Taken" }` or `{ email: ["Taken"] }`)
+ * or as a list of `{ field | path | property | param, message | msg }` entries.
+ * Nested paths are joined with dots; only the first message per field is kept.
+ */
+export function getServerFieldErrors(data: unknown): Record<string, string> {
+  const fieldErrors: Record<string, string> = {};
+  const errors = (data as { errors?: unknown } | null)?.errors;
+
+  const addError = (field: unknown, message: unknown) => {
+    const path = Array.isArray(field) ? field.join(".") : field;
+    const text = Array.isArray(message) ? message[0] : message;
+    if (typeof path === "string" && path && typeof text === "string" && text && !fieldErrors[path]) {
+      fieldErrors[path] = text;
+    }
+  };
+
+  if (Array.isArray(errors)) {
+    errors.forEach((entry) => {
+      if (entry && typeof entry === "object") {
+        addError(entry.field ?? entry.path ?? entry.property ?? entry.param, entry.message ?? entry.msg);
+      }
+    });
+  } else if (errors && typeof errors === "object") {
+    Object.entries(errors).forEach(([field, message]) => addError(field, message));
+  }
+
+  return fieldErrors;
+}
+
+/**
+ * Field errors carried by an error, or an empty object when it is not a ValidationError
+ * @param fieldAliases - Maps server field names to form field names, e.g. { latitude: "location" }
+ */
+export function getErrorFieldErrors(
+  error: unknown,
+  fieldAliases: Record<string, string> = {}
+): Record<string, string> {
+  if (!(error instanceof ValidationError)) {
+    return {};
+  }
+
+  const fieldErrors: Record<string, string> = {};
+  Object.entries(error.fieldErrors).forEach(([field, message]) => {
+    const formField = fieldAliases[field] ?? field;
+    fieldErrors[formField] = fieldErrors[formField] ?? message;
+  });
+  return fieldErrors;
+}
@@ -0,0 +1,68 @@
+/**
+ * Events the server pushes over the /skt/ws sockets: account events to the signed-in user
+ * and booking events to everyone working at a branch
+ * Usage: const ws = events.openEventSocket(token); ws.onmessage = ({ data }) => events.parseEvent(data);
+ *        const ws = events.openBranchSocket(branchId, token); ws.onmessage = ({ data }) => events.parseBranchEvent(data);
+ */
+import { bookedServiceSchema } from "./schemas";
+import { openSocket } from "./socket";
+import { BookedService } from "./types";
+
+export type UserEventType =
+  /** The user's permissions in the current account were changed by someone else */
+  "PERMISSIONS_CHANGED";
+
+export interface UserEvent {
+  type: UserEventType;
+}
+
+export type BranchEventType =
+  /** A customer booked one of the branch's services */
+  | "BOOKING_CREATED"
+  /** The customer cancelled their request */
+  | "BOOKING_CANCELLED"
+  /** The customer accepted the offer the branch sent for their request */
+  | "BOOKING_CONFIRMED";
+
+export interface BranchEvent {
+  type: BranchEventType;
+  /** The booking as it is after the change */
+  booking: BookedService;
+}
+
+const BRANCH_EVENT_TYPES: readonly string[] = ["BOOKING_CREATED", "BOOKING_CANCELLED", "BOOKING_CONFIRMED"];
+
+/**
+ * Opens the user's event socket, or returns null when API_DOMAIN is not configured
+ */
+export const openEventSocket = (token: string): WebSocket | null => openSocket(`/user?token=${token}`);
+
+/**
+ * Opens a branch's event socket, or returns null when API_DOMAIN is not configured
+ */
+export const openBranchSocket = (branchId: string, token: string): WebSocket | null =>
+  openSocket(`/branch/${encodeURIComponent(branchId)}?token=${token}`);
+
+/**
+ * Reads an event socket message; null for messages that are not events
+ */
+export const parseEvent = (data: string): UserEvent | null => {
+  try {
+    const message = JSON.parse(data);
+    return typeof message?.type === "string" ? message : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Reads a branch socket message; null for messages that are not booking events or carry a malformed booking
+ */
+export const parseBranchEvent = (data: string): BranchEvent | null => {
+  const event = parseEvent(data) as Partial<BranchEvent> | null;
+  if (!event || !BRANCH_EVENT_TYPES.includes(event.type as string)) {
+    return null;
+  }
+  const booking = bookedServiceSchema.safeParse(event.booking);
+  return booking.success ? { type: event.type as BranchEventType, booking: booking.data } : null;
+};
@@ -0,0 +1,126 @@
+/**
+ * Stored file endpoints
+ */
+import { useAuthStore } from "@/store/authStore";
+import { Platform } from "react-native";
+import { api, getTransport, refreshAccessToken, RequestOptions, resolveEndpoint, TransportUploadRequest } from "./api";
+import { AbortError, ApiError, ConfigError, createHttpError, NetworkError } from "./errors";
+
+/**
+ * Downloads a stored file (e.g. a service thumbnail) by its system name
+ * Screens should use loadResource or AuthImage, which cache the file on disk.
+ */
+export const resource = async (systemName: string, options?: RequestOptions) =>
+  (await api.get<Blob>(`/file/resource/${systemName}`, { ...options, responseType: "blob" })).data;
+
+export interface UploadFileInput {
+  /** Local URI of the file, e.g. from the image picker */
+  uri: string;
+  name: string;
+  mimeType: string;
+}
+
+export interface UploadFileOptions {
+  /**
+   * Called with the share of the file sent so far (0-100)
+   */
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+function sendUpload(
+  url: string,
+  { file, token, onProgress, signal }: TransportUploadRequest
+): Promise<{ status: number; data: any }> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const formData = new FormData();
+
+    // React Native's FormData takes a { uri, type, name } object for files
+    formData.append("file", {
+      uri: Platform.OS === "android" ? file.uri : file.uri.replace("file://", ""),
+      type: file.mimeType,
+      name: file.name,
+    } as any);
+
+    xhr.open("POST", url);
+    if (token) {
+      xhr.setRequestHeader("Authorization", `Bearer ${token}`);
+    }
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.((event.loaded / event.total) * 100);
+      }
+    };
+
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const settle = () => signal?.removeEventListener("abort", onAbort);
+
+    xhr.onload = () => {
+      settle();
+      let data: any = null;
+      try {
+        data = xhr.responseText ? JSON.parse(xhr.responseText) : null;
+      } catch {
+        data = xhr.responseText;
+      }
+      resolve({ status: xhr.status, data });
+    };
+    xhr.onerror = () => {
+      settle();
+      reject(new NetworkError("Upload failed. Please check your internet connection."));
+    };
+    xhr.onabort = () => {
+      settle();
+      reject(new AbortError());
+    };
+
+    xhr.send(formData);
+  });
+}
+
+/**
+ * Uploads a local file and returns the stored file's id
+ * Sent with XMLHttpRequest because fetch does not report upload progress, unless the transport has its own upload.
+ * A 401 refreshes the session once and sends the file again, like apiRequest.
+ * Prefer enqueueUpload from "./uploads", which queues, prepares and retries uploads.
+ */
+export async function upload(file: UploadFileInput, options: UploadFileOptions = {}): Promise<string> {
+  const { baseUrl, upload: transportUpload = sendUpload } = getTransport();
+  if (!baseUrl || baseUrl.trim() === "") {
+    throw new ConfigError(
+      "API_DOMAIN is not configured. Please set EXPO_PUBLIC_API_DOMAIN in your environment variables."
+    );
+  }
+
+  const url = `${baseUrl}${resolveEndpoint("/:locale/upload/file")}`;
+  let response = await transportUpload(url, { ...options, file, token: useAuthStore.getState().token });
+  if (response.status === 401) {
+    options.onProgress?.(0);
+    response = await transportUpload(url, { ...options, file, token: await refreshAccessToken() });
+  }
+
+  if (response.status < 200 || response.status >= 300) {
+    const message = response.data?.message || `Upload failed with status ${response.status}`;
+    throw createHttpError(response.status, message.charAt(0).toUpperCase() + message.slice(1), {
+      data: response.data,
+    });
+  }
+
+  // Response format: { id: "...", name: "...", ... } or { data: { id: "...", ... } }
+  const fileId = response.data?.id || response.data?.data?.id;
+  if (!fileId) {
+    throw new ApiError(response.data?.message || "No file ID in response", "REQUEST_FAILED", {
+      status: response.status,
+      data: response.data,
+    });
+  }
+  return fileId as string;
+}
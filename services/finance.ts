@@ -0,0 +1,18 @@
+/**
+ * Finance and reporting endpoints
+ */
+import { z } from "zod";
+import { api, RequestOptions } from "./api";
+import { revenueBreakdownSchema } from "./schemas";
+import { RevenueBreakdown } from "./types";
+
+/**
+ * Revenue per organization, branch, service and customer
+ */
+export const revenueBreakdown = async (options?: RequestOptions) =>
+  (
+    await api.get<RevenueBreakdown[]>("/:locale/on/revenue/breakdown", {
+      ...options,
+      schema: z.array(revenueBreakdownSchema),
+    })
+  ).data;
@@ -0,0 +1,99 @@
+/**
+ * Idempotency keys for state-changing requests
+ * A key is created the first time the user attempts an action (e.g. receiving payment for an invoice)
+ * and reused for every retry of that action until the server gives a definitive answer,
+ * so a request that reached the server before the connection dropped is not applied twice.
+ * A retry with a different body (e.g. an invoice edited after a failed attempt) is a new request and gets a new key;
+ * servers reject a reused key whose body does not match the original request.
+ */
+import { ApiError } from "./errors";
+
+interface IntentKey {
+  key: string;
+  /** Serialized body the key was issued for */
+  body: string;
+}
+
+interface PendingRequest {
+  body: string;
+  promise: Promise<unknown>;
+}
+
+const keys = new Map<string, IntentKey>();
+const pending = new Map<string, PendingRequest>();
+
+/**
+ * Client errors after which the same key must not be reused
+ * 408, 409 and 429 are excluded: the server may still be processing or accept a retry of the request.
+ */
+function isDefinitiveRejection(error: ApiError | null) {
+  const status = error?.status;
+  return status !== undefined && status >= 400 && status < 500 && ![408, 409, 429].includes(status);
+}
+
+/**
+ * Random RFC 4122 version 4 UUID
+ * Keys only need to be unique per user action, not unguessable.
+ */
+export function createIdempotencyKey(): string {
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (char) => {
+    const random = (Math.random() * 16) | 0;
+    return (char === "x" ? random : (random & 0x3) | 0x8).toString(16);
+  });
+}
+
+/**
+ * Runs a request for a user intent with that intent's idempotency key
+ * Calls for an intent that is already in flight with the same body (e.g. a double tap) share the first call
+ * instead of sending again.
+ * The key is kept after network failures, timeouts and 5xx responses and released once the request
+ * succeeds or is definitively rejected. A call with a different body than the kept key's gets a new key.
+ * @param intent - Identifies the action, e.g. `invoice.receivePayment:${invoiceId}`
+ * @param body - Request body, when the intent does not already identify everything that is sent
+ */
+export function withIdempotencyKey<T>(
+  intent: string,
+  request: (idempotencyKey: string) => Promise<T>,
+  body?: unknown
+): Promise<T> {
+  const serializedBody = JSON.stringify(body ?? null);
+
+  const inFlight = pending.get(intent);
+  if (inFlight?.body === serializedBody) {
+    return inFlight.promise as Promise<T>;
+  }
+
+  let intentKey = keys.get(intent);
+  if (intentKey?.body !== serializedBody) {
+    intentKey = { key: createIdempotencyKey(), body: serializedBody };
+    keys.set(intent, intentKey);
+  }
+  const issued = intentKey;
+
+  // A call with another body may have replaced this call's key in the meantime
+  const release = () => {
+    if (keys.get(intent) === issued) {
+      keys.delete(intent);
+    }
+  };
+
+  const promise = request(issued.key)
+    .then((result) => {
+      release();
+      return result;
+    })
+    .catch((error: ApiError) => {
+      if (isDefinitiveRejection(error)) {
+        release();
+      }
+      throw error;
+    })
+    .finally(() => {
+      if (pending.get(intent)?.promise === promise) {
+        pending.delete(intent);
+      }
+    });
+
+  pending.set(intent, { body: serializedBody, promise });
+  return promise;
+}
@@ -0,0 +1,26 @@
+/**
+ * Typed endpoint SDK
+ * Usage: import { bookings } from "@/services"; await bookings.accept(id);
+ */
+export * as auth from "./auth";
+export * as bookings from "./bookings";
+export * as branches from "./branches";
+export * as chat from "./chat";
+export * as events from "./events";
+export * as files from "./files";
+export * as finance from "./finance";
+export * as invoices from "./invoices";
+export * as onboarding from "./onboarding";
+export * as reference from "./reference";
+export * as roleTemplates from "./roleTemplates";
+export * as services from "./services";
+export * as sessions from "./sessions";
+export * as staff from "./staff";
+export * as subscriptions from "./subscriptions";
+export * as twoFactor from "./twoFactor";
+export * from "./errors";
+export * from "./schemas";
+export * from "./types";
+export { type RequestOptions } from "./api";
+export { createIdempotencyKey, withIdempotencyKey } from "./idempotency";
+export { ApiSchemaError, isApiSchemaError } from "./validation";
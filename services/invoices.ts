@@ -0,0 +1,81 @@
+/**
+ * Invoice endpoints for booked services
+ */
+import { z } from "zod";
+import { api, RequestOptions } from "./api";
+import { invoiceItemSchema, invoiceSchema } from "./schemas";
+import { Invoice, InvoiceItem, InvoiceItemInput } from "./types";
+
+export interface InvoiceInput {
+  bookedServiceId: string;
+  discount: number;
+  items: InvoiceItemInput[];
+}
+
+export type InvoiceFilters = {
+  isPaymentReceived?: string;
+  customerPaid?: string;
+  published?: string;
+};
+
+/**
+ * Invoices raised for a booked service
+ */
+export const listForBooking = async (bookedServiceId: string, filters?: InvoiceFilters, options?: RequestOptions) =>
+  (
+    await api.get<Invoice[]>(`/:locale/auth/booked/service/invoices/${bookedServiceId}`, {
+      ...options,
+      params: filters,
+      schema: z.array(invoiceSchema),
+    })
+  ).data;
+
+/**
+ * Invoice history of the current organization
+ */
+export const history = async (options?: RequestOptions) =>
+  (
+    await api.get<Invoice[]>("/:locale/on/book/service/invoices/histories", {
+      ...options,
+      schema: z.array(invoiceSchema),
+    })
+  ).data;
+
+export const get = async (invoiceId: string, options?: RequestOptions) =>
+  (await api.get<Invoice>(`/:locale/auth/booked/service/invoice/${invoiceId}`, { ...options, schema: invoiceSchema })).data;
+
+export const items = async (invoiceId: string, options?: RequestOptions) =>
+  (
+    await api.get<InvoiceItem[]>(`/:locale/auth/booked/service/invoice/${invoiceId}/items`, {
+      ...options,
+      schema: z.array(invoiceItemSchema),
+    })
+  ).data;
+
+/**
+ * Pass an idempotencyKey so a retried request does not create a second invoice
+ */
+export const create = async (input: InvoiceInput, options?: RequestOptions) =>
+  (await api.post("/:locale/on/booked/service/create/invoice", input, options)).data;
+
+/**
+ * Updates the booked service's unpublished invoice
+ * Pass an idempotencyKey so a replayed update is not applied twice
+ */
+export const update = async (input: InvoiceInput, options?: RequestOptions) =>
+  (await api.patch("/:locale/on/booked/service/update/invoice", input, options)).data;
+
+/**
+ * Makes an invoice visible to the customer
+ */
+export const publish = async (invoiceId: string) =>
+  (await api.patch(`/:locale/on/booked/service/invoice/${invoiceId}/publish`, null)).data;
+
+/**
+ * Records that the customer's payment was received
+ * Pass an idempotencyKey so a retried request does not record the payment twice
+ */
+export const receivePayment = async (invoiceId: string, options?: RequestOptions) =>
+  (await api.post(`/:locale/on/book/service/invoice/${invoiceId}/receivedPayments`, null, options)).data;
+
+export const remove = async (invoiceId: string) => (await api.delete(`/:locale/on/book/delete/invoice/${invoiceId}`)).data;
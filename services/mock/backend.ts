@@ -0,0 +1,1280 @@
+/**
+ * In-app mock of the REST API
+ * Answers the endpoints used by the SDK from an in-memory copy of the seed data, so writes
+ * (creating invoices, accepting requests, editing services...) are visible to later reads until
+ * the backend is reset or the app restarts. Responses use the server's { data } envelope and
+ * error format, and requests with an Idempotency-Key are answered once and replayed after.
+ */
+import { base32Encode, createOtpAuthUri, generateTotp, verifyTotp } from "@/utils/totp";
+import { TransportUploadRequest } from "../api";
+import {
+  AcceptStatus,
+  Account,
+  BookedService,
+  Branch,
+  BranchStaff,
+  InvoiceItemInput,
+  OrganizationStaff,
+  RevenueBreakdown,
+  Service,
+  UserProfile,
+} from "../types";
+import {
+  createMockBooking,
+  createMockDatabase,
+  createMockInvoice,
+  createMockInvoiceItems,
+  MockDatabase,
+  mockId,
+  MockSession,
+  nowSeconds,
+} from "./fixtures";
+
+interface RouteContext {
+  params: Record<string, string>;
+  query: Record<string, string>;
+  body: any;
+  headers: Record<string, string>;
+}
+
+type RouteHandler = (context: RouteContext) => unknown;
+
+export interface MockBranchEvent {
+  type: "BOOKING_CREATED" | "BOOKING_CANCELLED" | "BOOKING_CONFIRMED";
+  booking: BookedService;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+}
+
+/**
+ * Simulated network latency per request (ms)
+ */
+const LATENCY = { min: 150, max: 450 };
+
+/**
+ * How long a customer takes to accept a request sent from the app (ms)
+ */
+const CUSTOMER_ACCEPT_DELAY = 5_000;
+
+/**
+ * The code every password reset "email" contains
+ */
+export const MOCK_RESET_CODE = "123456";
+
+let db: MockDatabase = createMockDatabase();
+// Account the session was switched to; permissions and the signed-in account follow it
+let currentAccountId = db.accounts[0].id;
+// Reset tokens handed out by /password/verify, mapped to the email they were issued for
+const resetTokens = new Map<string, string>();
+// Two-step verification of the mock user; the pending secret is the one handed out by /enroll until confirmed
+const twoFactor = { secret: null as string | null, pendingSecret: null as string | null, backupCodes: [] as string[] };
+// Challenge tokens of logins waiting for a two-step verification code
+const twoFactorChallenges = new Set<string>();
+// Session of each access and refresh token handed out, and the tokens of sessions signed out remotely
+const sessionTokens = new Map<string, string>();
+const revokedTokens = new Set<string>();
+const idempotentResponses = new Map<string, { status: number; body: unknown }>();
+// Open mock event sockets, pushed events meant for the signed-in user
+const eventListeners = new Set<(event: { type: string }) => void>();
+// Open mock branch sockets, pushed booking events of every branch
+const branchEventListeners = new Set<(event: MockBranchEvent) => void>();
+const routes: Route[] = [];
+
+/**
+ * The live mock data, e.g. for the chat socket to look up bookings
+ */
+export const getMockDatabase = () => db;
+
+/**
+ * Calls the listener with every event the server would push to the signed-in user
+ * @returns Function that removes the listener
+ */
+export function subscribeMockEvents(listener: (event: { type: string }) => void) {
+  eventListeners.add(listener);
+  return () => {
+    eventListeners.delete(listener);
+  };
+}
+
+/**
+ * Calls the listener with every booking event the server would push to branch sockets
+ * @returns Function that removes the listener
+ */
+export function subscribeMockBranchEvents(listener: (event: MockBranchEvent) => void) {
+  branchEventListeners.add(listener);
+  return () => {
+    branchEventListeners.delete(listener);
+  };
+}
+
+/**
+ * Books one of the branch's services for a random customer, as if from the customer app
+ */
+export function simulateMockBookingRequest(branchId: string) {
+  const branch = db.branches.find((item) => item.id === branchId);
+  const offered = db.branchServices.filter((item) => item.branchId === branchId && !item.isDeleted);
+  const services = offered.length > 0 ? offered.map((item) => item.service) : db.services;
+  if (!branch || services.length === 0) {
+    return;
+  }
+
+  const pick = <T>(items: T[]) => items[Math.floor(Math.random() * items.length)];
+  const booking = createMockBooking(db, pick(db.customers), pick(services), branch);
+  db.bookings.push(booking);
+  addActivity(booking, "Customer requested the service", "REQUESTED");
+  emitBranchEvent("BOOKING_CREATED", booking);
+}
+
+/**
+ * Cancels the branch's oldest unanswered booking, as if the customer gave up waiting
+ */
+export function simulateMockBookingCancellation(branchId: string) {
+  const booking = db.bookings.find(
+    (item) => item.branchId === branchId && !item.isAccepted && !item.isCancelled && !item.isCompleted
+  );
+  if (!booking) {
+    return;
+  }
+
+  touch(booking, { isCancelled: true, isActive: false });
+  db.acceptStatuses
+    .filter((status) => status.bookServiceId === booking.id && !status.isCancelled)
+    .forEach((status) => touch(status, { isCancelled: true, isCustomerCancelled: true }));
+  addActivity(booking, "Customer cancelled the request", "CANCELLED");
+  emitBranchEvent("BOOKING_CANCELLED", booking);
+}
+
+/**
+ * Restores the seed data and forgets every write
+ */
+export function resetMockDatabase() {
+  db = createMockDatabase();
+  currentAccountId = db.accounts[0].id;
+  resetTokens.clear();
+  Object.assign(twoFactor, { secret: null, pendingSecret: null, backupCodes: [] });
+  twoFactorChallenges.clear();
+  sessionTokens.clear();
+  revokedTokens.clear();
+  idempotentResponses.clear();
+}
+
+/**
+ * The code an authenticator app would show for the mock user right now, while enrolling or enrolled
+ * Stands in for the authenticator app in demos.
+ */
+export function getMockTwoFactorCode() {
+  const secret = twoFactor.pendingSecret ?? twoFactor.secret;
+  return secret ? generateTotp(secret) : null;
+}
+
+class MockHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly errors?: Record<string, string>,
+    readonly code?: string
+  ) {
+    super(message);
+  }
+}
+
+const notFound = (what: string) => new MockHttpError(404, `${what} not found`);
+
+const sessionRevoked = () =>
+  new MockHttpError(401, "This device was signed out from another session", undefined, "SESSION_REVOKED");
+
+function route(method: string, path: string, handler: RouteHandler) {
+  const keys: string[] = [];
+  const source = path.replace(/:(\w+)/g, (_match, key: string) => {
+    keys.push(key);
+    return "([^/]+)";
+  });
+  routes.push({ method, pattern: new RegExp(`^${source}$`), keys, handler });
+}
+
+/**
+ * Throws a 422 with field errors for required fields that are missing or blank
+ */
+function requireFields(body: any, fields: string[]) {
+  const errors: Record<string, string> = {};
+  fields.forEach((field) => {
+    const value = body?.[field];
+    if (value === undefined || value === null || (typeof value === "string" && value.trim() === "")) {
+      errors[field] = `${field} is required`;
+    }
+  });
+  if (Object.keys(errors).length > 0) {
+    throw new MockHttpError(422, "Validation failed", errors);
+  }
+}
+
+function find<T extends { id: string }>(records: T[], id: string, what: string): T {
+  const record = records.find((item) => item.id === id);
+  if (!record) {
+    throw notFound(what);
+  }
+  return record;
+}
+
+const currentAccount = (): Account => find(db.accounts, currentAccountId, "Account");
+
+// Tells the signed-in user when their own permissions change
+function setGrants(accountId: string, names: string[]) {
+  db.grants[accountId] = names;
+  if (accountId === currentAccountId) {
+    eventListeners.forEach((listener) => listener({ type: "PERMISSIONS_CHANGED" }));
+  }
+}
+
+const touch = <T extends { updatedAt: number }>(record: T, updates: Partial<T>) =>
+  Object.assign(record, updates, { updatedAt: nowSeconds() });
+
+// Pushes a copy, so later writes to the record do not reach events already delivered
+function emitBranchEvent(type: MockBranchEvent["type"], booking: BookedService) {
+  branchEventListeners.forEach((listener) => listener({ type, booking: { ...booking } }));
+}
+
+function addActivity(booking: BookedService, description: string, status: string) {
+  const now = nowSeconds();
+  db.activities.push({
+    id: mockId("activity"),
+    description,
+    bookServiceId: booking.id,
+    status,
+    user_id: db.user.id,
+    user: db.user,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Starts a session for the device named in the request's device headers
+ */
+function createSession(headers: Record<string, string>): MockSession {
+  const now = nowSeconds();
+  const session: MockSession = {
+    id: mockId("session"),
+    deviceName: headers["X-Device-Name"] ? decodeURIComponent(headers["X-Device-Name"]) : "Unknown device",
+    platform: headers["X-Device-Platform"] ?? "unknown",
+    appVersion: headers["X-App-Version"] ?? null,
+    branch: null,
+    lastSeenAt: now,
+    createdAt: now,
+  };
+  db.sessions.push(session);
+  return session;
+}
+
+/**
+ * The session a token belongs to
+ * Tokens from before the app restarted are unknown to the freshly seeded backend and get a new session.
+ */
+function findSession(token: string | null, headers: Record<string, string>) {
+  const sessionId = token ? sessionTokens.get(token) : undefined;
+  let session = db.sessions.find((item) => item.id === sessionId);
+  if (!session) {
+    session = createSession(headers);
+    if (token) {
+      sessionTokens.set(token, session.id);
+    }
+  }
+  session.lastSeenAt = nowSeconds();
+  return session;
+}
+
+const bearerToken = (headers: Record<string, string>) => headers.Authorization?.replace(/^Bearer /, "") ?? null;
+
+const currentSession = (headers: Record<string, string>) => findSession(bearerToken(headers), headers);
+
+function revokeSession(sessionId: string) {
+  db.sessions = db.sessions.filter((session) => session.id !== sessionId);
+  sessionTokens.forEach((id, token) => {
+    if (id === sessionId) {
+      sessionTokens.delete(token);
+      revokedTokens.add(token);
+    }
+  });
+}
+
+function createTokens(session: MockSession) {
+  const tokens = { accessToken: mockId("access-token"), refreshToken: mockId("refresh-token") };
+  sessionTokens.set(tokens.accessToken, session.id);
+  sessionTokens.set(tokens.refreshToken, session.id);
+  return tokens;
+}
+
+function createTwoFactorSecret() {
+  return base32Encode(Uint8Array.from({ length: 20 }, () => Math.floor(Math.random() * 256)));
+}
+
+function createBackupCodes() {
+  const alphabet = "abcdefghjkmnpqrstuvwxyz23456789";
+  const randomPart = () => Array.from({ length: 4 }, () => alphabet[Math.floor(Math.random() * alphabet.length)]).join("");
+  return Array.from({ length: 10 }, () => `${randomPart()}-${randomPart()}`);
+}
+
+/**
+ * Checks an authenticator code, or uses up a backup code
+ */
+function verifyTwoFactorCode(code: string) {
+  if (twoFactor.secret && verifyTotp(twoFactor.secret, code)) {
+    return true;
+  }
+  const normalized = code.trim().toLowerCase();
+  const index = twoFactor.backupCodes.indexOf(normalized);
+  if (index === -1) {
+    return false;
+  }
+  twoFactor.backupCodes.splice(index, 1);
+  return true;
+}
+
+// Auth and accounts
+
+route("POST", "/login", ({ body, headers }) => {
+  requireFields(body, ["emailOrUserNumber", "password"]);
+  if (twoFactor.secret) {
+    const challengeToken = mockId("challenge-token");
+    twoFactorChallenges.add(challengeToken);
+    return { twoFactorRequired: true, challengeToken };
+  }
+  return { ...createTokens(createSession(headers)), user: db.user };
+});
+
+route("POST", "/login/two-factor", ({ body, headers }) => {
+  requireFields(body, ["challengeToken", "code"]);
+  if (!twoFactorChallenges.has(body.challengeToken)) {
+    throw new MockHttpError(400, "The sign-in has expired. Please sign in again.");
+  }
+  if (!verifyTwoFactorCode(body.code)) {
+    throw new MockHttpError(422, "Validation failed", { code: "The code is invalid or has expired" });
+  }
+  twoFactorChallenges.delete(body.challengeToken);
+  return { ...createTokens(createSession(headers)), user: db.user };
+});
+
+route("POST", "/refresh/token", ({ body, headers }) => {
+  if (revokedTokens.has(body?.refreshToken)) {
+    throw sessionRevoked();
+  }
+  return createTokens(findSession(body?.refreshToken ?? null, headers));
+});
+
+// Registering updates the single mock user instead of creating another one, so the demo data stays reachable
+route("POST", "/:locale/register", ({ body, headers }) => {
+  requireFields(body, ["firstName", "lastName", "email", "password"]);
+  touch(db.user, {
+    firstName: body.firstName,
+    lastName: body.lastName,
+    email: body.email,
+    phone: Number(body.phone) || db.user.phone,
+  });
+  return { ...createTokens(createSession(headers)), user: db.user };
+});
+
+route("POST", "/:locale/password/forgot", ({ body }) => {
+  requireFields(body, ["email"]);
+  return { success: true };
+});
+
+route("POST", "/:locale/password/verify", ({ body }) => {
+  requireFields(body, ["email", "code"]);
+  if (body.code !== MOCK_RESET_CODE) {
+    throw new MockHttpError(422, "Validation failed", { code: "The code is invalid or has expired" });
+  }
+  const resetToken = mockId("reset-token");
+  resetTokens.set(resetToken, body.email);
+  return { resetToken };
+});
+
+route("POST", "/:locale/password/reset", ({ body, headers }) => {
+  requireFields(body, ["resetToken", "password"]);
+  if (!resetTokens.delete(body.resetToken)) {
+    throw new MockHttpError(400, "The reset link is invalid or has expired");
+  }
+  if (body.password.length < 8) {
+    throw new MockHttpError(422, "Validation failed", { password: "Password must be at least 8 characters" });
+  }
+  if (twoFactor.secret) {
+    const challengeToken = mockId("challenge-token");
+    twoFactorChallenges.add(challengeToken);
+    return { twoFactorRequired: true, challengeToken };
+  }
+  return { ...createTokens(createSession(headers)), user: db.user };
+});
+
+route("GET", "/:locale/my/accounts", () => db.accounts.filter((account) => account.userId === db.user.id));
+
+route("POST", "/:locale/switch/account", ({ body, headers }) => {
+  const account = find(db.accounts, body?.accountId, "Account");
+  const branch = find(db.branches, body?.branchId, "Branch");
+  const session = currentSession(headers);
+  currentAccountId = account.id;
+  session.branch = { id: branch.id, name: branch.name };
+  return { user: db.user, account, branch, ...createTokens(session) };
+});
+
+route("GET", "/:locale/auth/user/permissions", () => db.grants[currentAccount().id] ?? []);
+
+route("PATCH", "/:locale/auth/user/profile", ({ body }) => {
+  requireFields(body, ["firstName", "lastName"]);
+  return touch(db.user, {
+    firstName: body.firstName,
+    middleName: body.middleName ?? "",
+    lastName: body.lastName,
+    gender: body.gender,
+    birthDate: body.birthDate,
+  });
+});
+
+route("POST", "/:locale/update/password", ({ body }) => {
+  if (typeof body?.password !== "string" || body.password.length < 8) {
+    throw new MockHttpError(422, "Validation failed", { password: "Password must be at least 8 characters" });
+  }
+  return { success: true };
+});
+
+// Sessions
+
+route("GET", "/:locale/auth/sessions", ({ headers }) => {
+  const current = currentSession(headers);
+  return db.sessions
+    .map((session) => ({ ...session, isCurrent: session.id === current.id }))
+    .sort((a, b) => Number(b.isCurrent) - Number(a.isCurrent) || b.lastSeenAt - a.lastSeenAt);
+});
+
+route("DELETE", "/:locale/auth/sessions/:sessionId", ({ params }) => {
+  revokeSession(find(db.sessions, params.sessionId, "Session").id);
+  return { success: true };
+});
+
+route("POST", "/:locale/auth/sessions/revoke-others", ({ headers }) => {
+  const current = currentSession(headers);
+  db.sessions.filter((session) => session.id !== current.id).forEach((session) => revokeSession(session.id));
+  return { success: true };
+});
+
+// Two-step verification; the mock accepts any password for re-confirmation, like it does for login
+
+route("GET", "/:locale/auth/two-factor", () => ({
+  enabled: twoFactor.secret !== null,
+  backupCodesRemaining: twoFactor.backupCodes.length,
+}));
+
+route("POST", "/:locale/auth/two-factor/enroll", () => {
+  if (twoFactor.secret) {
+    throw new MockHttpError(409, "Two-step verification is already on");
+  }
+  twoFactor.pendingSecret = createTwoFactorSecret();
+  return {
+    secret: twoFactor.pendingSecret,
+    otpauthUri: createOtpAuthUri({ secret: twoFactor.pendingSecret, accountName: db.user.email, issuer: "Diracks" }),
+  };
+});
+
+route("POST", "/:locale/auth/two-factor/confirm", ({ body }) => {
+  requireFields(body, ["code"]);
+  if (!twoFactor.pendingSecret) {
+    throw new MockHttpError(400, "Start the setup again");
+  }
+  if (!verifyTotp(twoFactor.pendingSecret, body.code)) {
+    throw new MockHttpError(422, "Validation failed", { code: "The code is invalid or has expired" });
+  }
+  twoFactor.secret = twoFactor.pendingSecret;
+  twoFactor.pendingSecret = null;
+  twoFactor.backupCodes = createBackupCodes();
+  return { backupCodes: [...twoFactor.backupCodes] };
+});
+
+route("POST", "/:locale/auth/two-factor/backup-codes", ({ body }) => {
+  requireFields(body, ["password"]);
+  if (!twoFactor.secret) {
+    throw new MockHttpError(400, "Two-step verification is off");
+  }
+  twoFactor.backupCodes = createBackupCodes();
+  return { backupCodes: [...twoFactor.backupCodes] };
+});
+
+route("POST", "/:locale/auth/two-factor/disable", ({ body }) => {
+  requireFields(body, ["password"]);
+  Object.assign(twoFactor, { secret: null, pendingSecret: null, backupCodes: [] });
+  return { success: true };
+});
+
+// Onboarding
+
+route("POST", "/:locale/onboarding", ({ body }) => {
+  requireFields(body, ["organization", "branch", "services", "planId"]);
+  requireFields(body.organization, ["name"]);
+  requireFields(body.branch, ["name", "email", "city", "stateProvince", "location"]);
+  find(db.plans, body.planId, "Subscription plan");
+
+  const now = nowSeconds();
+  const organization = {
+    id: mockId("organization"),
+    name: body.organization.name,
+    description: body.organization.description ?? "",
+    isActive: true,
+    isServiceProvider: true,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const account: Account = {
+    id: mockId("account"),
+    userId: db.user.id,
+    active: true,
+    isLocked: false,
+    organization,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const branch: Branch = {
+    id: mockId("branch"),
+    organizationId: organization.id,
+    isMain: true,
+    name: body.branch.name,
+    longitude: body.branch.longitude ?? 0,
+    latitude: body.branch.latitude ?? 0,
+    accuracy: body.branch.accuracy ?? null,
+    contact: body.branch.contact ?? 0,
+    description: body.branch.description ?? "",
+    email: body.branch.email,
+    stateProvince: body.branch.stateProvince,
+    city: body.branch.city,
+    location: body.branch.location,
+    slotsId: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  (body.services as any[]).forEach((input) => {
+    requireFields(input, ["name", "modeId"]);
+    const service: Service = {
+      id: mockId("service"),
+      organizationId: organization.id,
+      name: input.name,
+      description: input.description ?? "",
+      isPublic: false,
+      isDeleted: false,
+      modeId: input.modeId,
+      staffId: db.user.id,
+      thumbNailId: null,
+      thumbNail: null,
+      mode: db.modes.find((mode) => mode.id === input.modeId) ?? db.modes[0],
+      createdAt: now,
+      updatedAt: now,
+    };
+    db.services.push(service);
+    db.branchServices.push({
+      id: mockId("branch-service"),
+      organizationId: organization.id,
+      branchId: branch.id,
+      serviceId: service.id,
+      isDeleted: false,
+      service,
+      createdAt: now,
+      updatedAt: now,
+    });
+  });
+
+  db.accounts.push(account);
+  db.branches.push(branch);
+  // The owner gets every permission
+  db.grants[account.id] = db.permissions.map((permission) => permission.name);
+  return { account, branch };
+});
+
+// Reference data
+
+route("GET", "/countries", () => db.countries);
+route("GET", "/:locale/service/modes", () => db.modes);
+route("GET", "/:locale/on/subscription/plans", () => db.plans);
+
+// Branches
+
+route("GET", "/:locale/on/branches", () => db.branches);
+route("GET", "/:locale/staff/branches/:organizationId", ({ params }) =>
+  db.branches.filter((branch) => branch.organizationId === params.organizationId)
+);
+route("GET", "/:locale/on/branch/:branchId", ({ params }) => find(db.branches, params.branchId, "Branch"));
+
+route("POST", "/:locale/on/branch", ({ body }) => {
+  requireFields(body, ["name", "email", "city", "stateProvince", "location"]);
+  const now = nowSeconds();
+  const branch: Branch = {
+    id: mockId("branch"),
+    organizationId: db.organization.id,
+    isMain: false,
+    name: body.name,
+    longitude: body.longitude ?? 0,
+    latitude: body.latitude ?? 0,
+    accuracy: body.accuracy ?? null,
+    contact: body.contact ?? 0,
+    description: body.description ?? "",
+    email: body.email,
+    stateProvince: body.stateProvince,
+    city: body.city,
+    location: body.location,
+    slotsId: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  db.branches.push(branch);
+  return branch;
+});
+
+route("GET", "/:locale/on/branch/:branchId/services", ({ params }) =>
+  db.branchServices.filter((item) => item.branchId === params.branchId && !item.isDeleted)
+);
+
+route("POST", "/:locale/on/add/service/branch", ({ body }) => {
+  const branch = find(db.branches, body?.branchId, "Branch");
+  const now = nowSeconds();
+  (body.serviceId as string[]).forEach((serviceId) => {
+    const exists = db.branchServices.some(
+      (item) => item.branchId === branch.id && item.serviceId === serviceId && !item.isDeleted
+    );
+    if (!exists) {
+      db.branchServices.push({
+        id: mockId("branch-service"),
+        organizationId: db.organization.id,
+        branchId: branch.id,
+        serviceId,
+        isDeleted: false,
+        service: find(db.services, serviceId, "Service"),
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+  });
+  return { success: true };
+});
+
+route("DELETE", "/:locale/on/remove/service/branch/:serviceBranchId", ({ params }) => {
+  touch(find(db.branchServices, params.serviceBranchId, "Branch service"), { isDeleted: true });
+  return null;
+});
+
+route("GET", "/:locale/on/branch/:branchId/staffs", ({ params }) =>
+  db.branchStaff.filter((item) => item.branch_id === params.branchId)
+);
+
+route("POST", "/:locale/on/staff/:userId", ({ params, body }) => {
+  const branch = find(db.branches, body?.branchId, "Branch");
+  const staffUser = find(db.users, params.userId, "Staff member");
+  if (db.branchStaff.some((item) => item.branch_id === branch.id && item.userId === staffUser.id)) {
+    throw new MockHttpError(409, "Staff member is already assigned to this branch");
+  }
+  const now = nowSeconds();
+  const assignment: BranchStaff = {
+    id: mockId("branch-staff"),
+    organizationId: db.organization.id,
+    branch_id: branch.id,
+    userId: staffUser.id,
+    isLocked: false,
+    staff: staffUser,
+    createdAt: now,
+    updatedAt: now,
+  };
+  db.branchStaff.push(assignment);
+  return assignment;
+});
+
+route("PATCH", "/:locale/on/staff/branch/lock", ({ body }) =>
+  touch(find(db.branchStaff, body?.branchUserId, "Branch staff"), { isLocked: !!body.locked })
+);
+
+// Services
+
+route("GET", "/:locale/on/services", () => db.services.filter((service) => !service.isDeleted));
+
+route("GET", "/:locale/on/service/:serviceId", ({ params }) => {
+  const service = find(db.services, params.serviceId, "Service");
+  return { ...service, staff: find(db.users, service.staffId, "Staff member") };
+});
+
+route("POST", "/:locale/on/service", ({ body }) => {
+  requireFields(body, ["name", "description", "modeId"]);
+  const now = nowSeconds();
+  const service: Service = {
+    id: mockId("service"),
+    organizationId: db.organization.id,
+    name: body.name,
+    description: body.description,
+    isPublic: false,
+    isDeleted: false,
+    modeId: body.modeId,
+    staffId: db.user.id,
+    thumbNailId: body.thumbNailId ?? null,
+    // Uploaded files are not kept, so services created in mock mode show the placeholder image
+    thumbNail: null,
+    mode: db.modes.find((mode) => mode.id === body.modeId) ?? db.modes[0],
+    createdAt: now,
+    updatedAt: now,
+  };
+  db.services.push(service);
+  return service;
+});
+
+route("PATCH", "/:locale/on/service/:serviceId", ({ params, body }) => {
+  requireFields(body, ["name", "description", "modeId"]);
+  return touch(find(db.services, params.serviceId, "Service"), {
+    name: body.name,
+    description: body.description,
+    modeId: body.modeId,
+    thumbNailId: body.thumbNailId ?? null,
+    mode: db.modes.find((mode) => mode.id === body.modeId) ?? db.modes[0],
+  });
+});
+
+route("POST", "/:locale/on/service/state", ({ body }) =>
+  touch(find(db.services, body?.serviceId, "Service"), { isPublic: !!body.isPublic })
+);
+
+route("GET", "/:locale/on/organization/:organizationId/service/stats", () => {
+  const active = db.services.filter((service) => !service.isDeleted);
+  return {
+    organizationId: db.organization.id,
+    organizationName: db.organization.name,
+    totalServices: active.length,
+    totalPublicServices: active.filter((service) => service.isPublic).length,
+    totalDraftServices: active.filter((service) => !service.isPublic).length,
+    totalDeletedServices: db.services.length - active.length,
+  };
+});
+
+route("GET", "/:locale/on/service/:serviceId/tags", ({ params }) =>
+  db.tags.filter((tag) => tag.serviceId === params.serviceId)
+);
+
+route("POST", "/:locale/on/service/tags", ({ body }) => {
+  const service = find(db.services, body?.serviceId, "Service");
+  const now = nowSeconds();
+  (body.tags as string[]).forEach((name) =>
+    db.tags.push({ id: mockId("tag"), serviceId: service.id, name, createdAt: now, updatedAt: now })
+  );
+  return { success: true };
+});
+
+route("PATCH", "/:locale/on/service/tag/:tagId", ({ params, body }) => {
+  requireFields(body, ["tag"]);
+  return touch(find(db.tags, params.tagId, "Tag"), { name: body.tag });
+});
+
+route("DELETE", "/:locale/on/service/tag/:tagId", ({ params }) => {
+  find(db.tags, params.tagId, "Tag");
+  db.tags = db.tags.filter((tag) => tag.id !== params.tagId);
+  return null;
+});
+
+route("GET", "/:locale/on/service/:serviceId/pricing", ({ params }) =>
+  db.pricing.filter((price) => price.serviceId === params.serviceId && !price.isDeleted)
+);
+
+route("POST", "/:locale/on/create/service/:serviceId/pricing", ({ params, body }) => {
+  requireFields(body, ["name", "amount"]);
+  const now = nowSeconds();
+  const price = {
+    id: mockId("pricing"),
+    name: body.name,
+    description: body.description ?? "",
+    amount: body.amount,
+    discount: body.discount ?? 0,
+    organizationId: db.organization.id,
+    serviceId: find(db.services, params.serviceId, "Service").id,
+    isDeleted: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+  db.pricing.push(price);
+  return price;
+});
+
+route("PATCH", "/:locale/on/service/:serviceId/pricing/:pricingId", ({ params, body }) => {
+  requireFields(body, ["name", "amount"]);
+  return touch(find(db.pricing, params.pricingId, "Pricing"), {
+    name: body.name,
+    description: body.description ?? "",
+    amount: body.amount,
+    discount: body.discount ?? 0,
+  });
+});
+
+route("DELETE", "/:locale/on/service/:serviceId/pricing/:pricingId", ({ params }) => {
+  touch(find(db.pricing, params.pricingId, "Pricing"), { isDeleted: true });
+  return null;
+});
+
+// Staff
+
+route("GET", "/:locale/on/staffs", () => db.organizationStaff);
+
+route("GET", "/:locale/on/staff/:organizationStaffId/details", ({ params }) =>
+  find(db.organizationStaff, params.organizationStaffId, "Staff member")
+);
+
+route("POST", "/:locale/on/create/staff", ({ body }) => {
+  requireFields(body, ["firstName", "lastName", "email", "phone", "birthDate"]);
+  if (db.users.some((existing) => existing.email === body.email)) {
+    throw new MockHttpError(422, "Validation failed", { email: "Email is already registered" });
+  }
+
+  const now = nowSeconds();
+  const staffUser: UserProfile = {
+    id: mockId("user"),
+    firstName: body.firstName,
+    middleName: body.middleName ?? "",
+    lastName: body.lastName,
+    email: body.email,
+    phone: body.phone,
+    country: "Nepal",
+    userNumber: `U-${1000 + db.users.length + 1}`,
+    gender: body.gender ?? 1,
+    birthDate: body.birthDate,
+    verified: false,
+    active: true,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const membership: OrganizationStaff = {
+    id: mockId("organization-staff"),
+    organizationId: db.organization.id,
+    userId: staffUser.id,
+    staff: staffUser,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const account: Account = {
+    id: mockId("account"),
+    userId: staffUser.id,
+    active: true,
+    isLocked: false,
+    organization: db.organization,
+    createdAt: now,
+    updatedAt: now,
+  };
+  db.users.push(staffUser);
+  db.organizationStaff.push(membership);
+  db.accounts.push(account);
+  db.grants[account.id] = [];
+  return membership;
+});
+
+route("GET", "/:locale/on/staff/:organizationStaffId/branches", ({ params }) => {
+  const membership = find(db.organizationStaff, params.organizationStaffId, "Staff member");
+  return db.branchStaff
+    .filter((item) => item.userId === membership.userId)
+    .map(({ staff: _staff, ...item }) => ({ ...item, branch: find(db.branches, item.branch_id, "Branch") }));
+});
+
+route("GET", "/:locale/on/organization/staff/:userId/account", ({ params }) => {
+  const account = db.accounts.find((item) => item.userId === params.userId);
+  if (!account) {
+    throw notFound("Account");
+  }
+  return account;
+});
+
+route("PATCH", "/:locale/on/organization/staff/account/lock", ({ body }) =>
+  touch(find(db.accounts, body?.accountId, "Account"), { isLocked: !!body.locked })
+);
+
+route("GET", "/:locale/on/organization/permissions", () => db.permissions);
+
+route("GET", "/:locale/on/user/permission/:accountId", ({ params }) => db.grants[params.accountId] ?? []);
+
+route("POST", "/:locale/on/assign/staff/:accountId/permissions", ({ params, body }) => {
+  find(db.accounts, params.accountId, "Account");
+  const names = (body?.permissionId as string[]).map((id) => find(db.permissions, id, "Permission").name);
+  setGrants(params.accountId, [...new Set([...(db.grants[params.accountId] ?? []), ...names])]);
+  return { success: true };
+});
+
+route("DELETE", "/:locale/on/remove/staff/:accountId/permission/:permissionId", ({ params }) => {
+  const permission = find(db.permissions, params.permissionId, "Permission");
+  setGrants(params.accountId, (db.grants[params.accountId] ?? []).filter((name) => name !== permission.name));
+  return null;
+});
+
+// Role templates
+
+function requireTemplateFields(body: any) {
+  requireFields(body, ["name"]);
+  const permissions = Array.isArray(body.permissions) ? (body.permissions as string[]) : [];
+  const unknown = permissions.filter((name) => !db.permissions.some((permission) => permission.name === name));
+  if (unknown.length > 0) {
+    throw new MockHttpError(422, "Validation failed", { permissions: `Unknown permissions: ${unknown.join(", ")}` });
+  }
+  return { name: body.name.trim(), description: body.description?.trim() || null, permissions: [...new Set(permissions)] };
+}
+
+route("GET", "/:locale/on/organization/role-templates", () => db.roleTemplates);
+
+route("POST", "/:locale/on/organization/role-template", ({ body }) => {
+  const now = nowSeconds();
+  const template = { id: mockId("role-template"), ...requireTemplateFields(body), members: [], createdAt: now, updatedAt: now };
+  db.roleTemplates.push(template);
+  return template;
+});
+
+route("PATCH", "/:locale/on/organization/role-template/:templateId", ({ params, body }) =>
+  touch(find(db.roleTemplates, params.templateId, "Role template"), requireTemplateFields(body))
+);
+
+route("DELETE", "/:locale/on/organization/role-template/:templateId", ({ params }) => {
+  find(db.roleTemplates, params.templateId, "Role template");
+  db.roleTemplates = db.roleTemplates.filter((template) => template.id !== params.templateId);
+  return null;
+});
+
+// An account is on one template at a time; applying another moves it
+route("POST", "/:locale/on/organization/role-template/:templateId/apply", ({ params, body }) => {
+  const template = find(db.roleTemplates, params.templateId, "Role template");
+  const accounts = ((body?.accountIds ?? []) as string[]).map((accountId) => find(db.accounts, accountId, "Account"));
+  accounts.forEach((account) => {
+    setGrants(account.id, [...template.permissions]);
+  });
+  db.roleTemplates.forEach((other) => {
+    other.members = other.members.filter((member) => !accounts.some((account) => account.id === member.accountId));
+  });
+  return touch(template, {
+    members: [...template.members, ...accounts.map((account) => ({ accountId: account.id, userId: account.userId }))],
+  });
+});
+
+// Bookings
+
+route("GET", "/:locale/on/book/services/branch/:branchId", ({ params }) =>
+  db.bookings.filter((booking) => booking.branchId === params.branchId && !booking.isCompleted)
+);
+
+route("GET", "/:locale/on/book/service/request/:bookedServiceId", ({ params }) =>
+  find(db.bookings, params.bookedServiceId, "Booked service")
+);
+
+route("GET", "/:locale/on/book/service/histories", () => db.bookings.filter((booking) => booking.isCompleted));
+
+route("GET", "/:locale/on/accept/incoming/request/:bookedServiceId/status", ({ params }) =>
+  db.acceptStatuses.find((status) => status.bookServiceId === params.bookedServiceId && !status.isCancelled) ?? null
+);
+
+route("POST", "/:locale/on/accept/incoming/request", ({ body }) => {
+  const booking = find(db.bookings, body?.bookedServiceId, "Booked service");
+  if (db.acceptStatuses.some((status) => status.bookServiceId === booking.id && !status.isCancelled)) {
+    throw new MockHttpError(409, "This request has already been accepted");
+  }
+
+  const now = nowSeconds();
+  const status: AcceptStatus = {
+    id: mockId("accept-status"),
+    organizationId: db.organization.id,
+    branchId: booking.branchId,
+    bookServiceId: booking.id,
+    staffId: db.user.id,
+    serviceId: booking.serviceId,
+    isAccepted: false,
+    isCancelled: false,
+    isCustomerCancelled: false,
+    isCompleted: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+  db.acceptStatuses.push(status);
+  addActivity(booking, "Workshop sent an offer to the customer", "OFFERED");
+
+  // The customer accepts shortly after, unless the offer was withdrawn meanwhile
+  const seed = db;
+  setTimeout(() => {
+    if (db !== seed || status.isCancelled) {
+      return;
+    }
+    touch(status, { isAccepted: true });
+    touch(booking, { isAccepted: true, staffId: db.user.id, acceptedDate: nowSeconds() });
+    addActivity(booking, "Customer accepted the offer", "ACCEPTED");
+    emitBranchEvent("BOOKING_CONFIRMED", booking);
+  }, CUSTOMER_ACCEPT_DELAY);
+
+  return { incomingProviderId: status.id };
+});
+
+route("POST", "/:locale/on/cancel/sent/request/:acceptStatusId", ({ params }) => {
+  const status = find(db.acceptStatuses, params.acceptStatusId, "Request");
+  if (status.isAccepted) {
+    throw new MockHttpError(409, "The customer has already accepted this request");
+  }
+  touch(status, { isCancelled: true });
+  return { success: true };
+});
+
+route("POST", "/:locale/on/book/service/complete/:bookedServiceId/request", ({ params }) => {
+  const booking = find(db.bookings, params.bookedServiceId, "Booked service");
+  if (!booking.isAccepted) {
+    throw new MockHttpError(409, "Only accepted requests can be completed");
+  }
+  if (!booking.isCompleted) {
+    touch(booking, { isCompleted: true, completedDate: nowSeconds() });
+    db.acceptStatuses
+      .filter((status) => status.bookServiceId === booking.id)
+      .forEach((status) => touch(status, { isCompleted: true }));
+    addActivity(booking, "Service completed", "COMPLETED");
+  }
+  return { success: true };
+});
+
+route("GET", "/:locale/auth/book/service/:bookedServiceId/processes", ({ params }) =>
+  db.activities.filter((activity) => activity.bookServiceId === params.bookedServiceId)
+);
+
+// Uploaded files are not kept, so no booking has shared files
+route("GET", "/:locale/auth/shared/service/files/:bookedServiceId", () => []);
+
+route("GET", "/:locale/auth/share/vehicle/profiles/:bookedServiceId", ({ params }) =>
+  db.vehicleProfiles.filter((profile) => profile.bookServiceId === params.bookedServiceId)
+);
+
+route("GET", "/file/resource/:systemName", () => {
+  throw notFound("File");
+});
+
+// Invoices
+
+function invoiceTotals(invoiceId: string, discount: number) {
+  const subtotal = (db.invoiceItems[invoiceId] ?? []).reduce((sum, item) => sum + item.netAmount, 0);
+  return subtotal - (subtotal * discount) / 100;
+}
+
+function validateInvoiceInput(body: any) {
+  requireFields(body, ["bookedServiceId"]);
+  const items = (body.items ?? []) as InvoiceItemInput[];
+  if (items.length === 0 || items.some((item) => !item.name?.trim())) {
+    throw new MockHttpError(422, "Validation failed", { items: "Add at least one item with a name" });
+  }
+  return items;
+}
+
+route("GET", "/:locale/auth/booked/service/invoices/:bookedServiceId", ({ params, query }) =>
+  db.invoices.filter(
+    (invoice) =>
+      invoice.bookServiceId === params.bookedServiceId &&
+      invoice.deletedAt === null &&
+      (query.isPaymentReceived !== "true" || invoice.isPaymentReceived) &&
+      (query.customerPaid !== "true" || invoice.isCustomerPaid) &&
+      (query.published !== "false" || !invoice.isPublished)
+  )
+);
+
+route("GET", "/:locale/on/book/service/invoices/histories", () =>
+  db.invoices.filter((invoice) => invoice.deletedAt === null && invoice.isPublished)
+);
+
+route("GET", "/:locale/auth/booked/service/invoice/:invoiceId", ({ params }) =>
+  find(db.invoices, params.invoiceId, "Invoice")
+);
+
+route("GET", "/:locale/auth/booked/service/invoice/:invoiceId/items", ({ params }) => {
+  find(db.invoices, params.invoiceId, "Invoice");
+  return db.invoiceItems[params.invoiceId] ?? [];
+});
+
+route("POST", "/:locale/on/booked/service/create/invoice", ({ body }) => {
+  const items = validateInvoiceInput(body);
+  const booking = find(db.bookings, body.bookedServiceId, "Booked service");
+  if (booking.isCompleted) {
+    throw new MockHttpError(409, "Invoices cannot be added to a completed request");
+  }
+
+  const invoice = createMockInvoice(db, booking, body.discount ?? 0);
+  db.invoices.push(invoice);
+  db.invoiceItems[invoice.id] = createMockInvoiceItems(invoice, items);
+  return invoice;
+});
+
+route("PATCH", "/:locale/on/booked/service/update/invoice", ({ body }) => {
+  const items = validateInvoiceInput(body);
+  const invoice = db.invoices.find(
+    (item) => item.bookServiceId === body.bookedServiceId && item.deletedAt === null && !item.isPublished
+  );
+  if (!invoice) {
+    throw new MockHttpError(409, "The invoice has already been published");
+  }
+  touch(invoice, { discount: body.discount ?? 0 });
+  db.invoiceItems[invoice.id] = createMockInvoiceItems(invoice, items);
+  return invoice;
+});
+
+route("PATCH", "/:locale/on/booked/service/invoice/:invoiceId/publish", ({ params }) =>
+  touch(find(db.invoices, params.invoiceId, "Invoice"), { isPublished: true })
+);
+
+route("POST", "/:locale/on/book/service/invoice/:invoiceId/receivedPayments", ({ params }) => {
+  const invoice = find(db.invoices, params.invoiceId, "Invoice");
+  if (!invoice.isPublished) {
+    throw new MockHttpError(409, "Publish the invoice before receiving payment");
+  }
+  return touch(invoice, { isCustomerPaid: true, isPaymentReceived: true });
+});
+
+route("DELETE", "/:locale/on/book/delete/invoice/:invoiceId", ({ params }) => {
+  const invoice = find(db.invoices, params.invoiceId, "Invoice");
+  if (invoice.isPublished) {
+    throw new MockHttpError(409, "Published invoices cannot be deleted");
+  }
+  touch(invoice, { deletedAt: nowSeconds() });
+  return null;
+});
+
+// Finance
+
+route("GET", "/:locale/on/revenue/breakdown", () => {
+  const rows = new Map<string, RevenueBreakdown>();
+  db.invoices
+    .filter((invoice) => invoice.deletedAt === null && invoice.isPaymentReceived)
+    .forEach((invoice) => {
+      const key = `${invoice.branchId}:${invoice.serviceId}:${invoice.customerId}`;
+      const row = rows.get(key) ?? {
+        organizationId: db.organization.id,
+        organizationName: db.organization.name,
+        branchId: invoice.branchId,
+        branchName: invoice.branch.name,
+        serviceId: invoice.serviceId,
+        serviceName: invoice.service.name,
+        customerId: invoice.customerId,
+        customerFirstName: invoice.customer.firstName,
+        customerLastName: invoice.customer.lastName,
+        totalInvoices: 0,
+        totalRevenue: 0,
+        averageRevenuePerInvoice: 0,
+      };
+      row.totalInvoices += 1;
+      row.totalRevenue += invoiceTotals(invoice.id, invoice.discount);
+      row.averageRevenuePerInvoice = row.totalRevenue / row.totalInvoices;
+      rows.set(key, row);
+    });
+  return [...rows.values()];
+});
+
+// Chat
+
+route("GET", "/:locale/on/my/book/service/staff", () =>
+  db.bookings.filter((booking) => booking.isAccepted && booking.staffId === db.user.id)
+);
+
+function jsonResponse(status: number, body: unknown) {
+  return new Response(status === 204 ? null : JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function delay(signal?: AbortSignal | null) {
+  const ms = LATENCY.min + Math.random() * (LATENCY.max - LATENCY.min);
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("Aborted"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Splits a request URL into its path and query
+ * React Native's URL and URLSearchParams do not implement reading, so the URL is parsed by hand.
+ */
+function parseUrl(url: string) {
+  const [, path = "/", search = ""] = /^[a-z]+:\/\/[^/?#]*([^?#]*)\??([^#]*)/i.exec(url) ?? [];
+  const query: Record<string, string> = {};
+  search
+    .split("&")
+    .filter(Boolean)
+    .forEach((pair) => {
+      const [key, value = ""] = pair.split("=");
+      query[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, " "));
+    });
+  return { path: path.replace(/\/+$/, "") || "/", query };
+}
+
+function handle(method: string, path: string, query: Record<string, string>, body: any, headers: Record<string, string>) {
+  const matching = routes.filter((item) => item.pattern.test(path));
+  const matched = matching.find((item) => item.method === method);
+  if (!matched) {
+    return matching.length > 0
+      ? { status: 405, body: { message: `${method} is not supported for ${path}` } }
+      : { status: 404, body: { message: `No mock handler for ${method} ${path}` } };
+  }
+
+  const values = matched.pattern.exec(path)!.slice(1);
+  const params = Object.fromEntries(matched.keys.map((key, index) => [key, decodeURIComponent(values[index])]));
+  try {
+    const data = matched.handler({ params, query, body, headers });
+    return { status: 200, body: { data } };
+  } catch (error) {
+    if (error instanceof MockHttpError) {
+      return { status: error.status, body: { message: error.message, errors: error.errors, code: error.code } };
+    }
+    console.error("Mock backend handler failed:", error);
+    return { status: 500, body: { message: "Mock backend error" } };
+  }
+}
+
+/**
+ * fetch replacement that answers from the mock data
+ * Behaves like the network: responses arrive after a short delay and aborted signals reject.
+ */
+export async function mockFetch(url: string, init: RequestInit): Promise<Response> {
+  await delay(init.signal);
+
+  const { path, query } = parseUrl(url);
+  const method = (init.method ?? "GET").toUpperCase();
+  const headers = (init.headers ?? {}) as Record<string, string>;
+  const idempotencyKey = headers["Idempotency-Key"];
+
+  // Like the server, tokens of a session signed out from another device are rejected outright
+  const token = bearerToken(headers);
+  if (token && revokedTokens.has(token)) {
+    return jsonResponse(401, { message: sessionRevoked().message, code: "SESSION_REVOKED" });
+  }
+
+  const replay = idempotencyKey ? idempotentResponses.get(idempotencyKey) : undefined;
+  if (replay) {
+    return jsonResponse(replay.status, replay.body);
+  }
+
+  let body: any = null;
+  if (typeof init.body === "string") {
+    try {
+      body = JSON.parse(init.body);
+    } catch {
+      return jsonResponse(400, { message: "Malformed JSON body" });
+    }
+  }
+
+  const result = handle(method, path, query, body, headers);
+  if (idempotencyKey && result.status < 500) {
+    idempotentResponses.set(idempotencyKey, result);
+  }
+  return jsonResponse(result.status, result.body);
+}
+
+/**
+ * Accepts an upload without storing it, reporting progress like a slow connection
+ */
+export async function mockUpload(
+  _url: string,
+  { file, onProgress, signal }: TransportUploadRequest
+): Promise<{ status: number; data: any }> {
+  for (let progress = 20; progress <= 100; progress += 20) {
+    await delay(signal);
+    onProgress?.(progress);
+  }
+  return { status: 200, data: { data: { id: mockId("file"), name: file.name, mimeType: file.mimeType } } };
+}
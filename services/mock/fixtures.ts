@@ -0,0 +1,630 @@
+/**
+ * Seed data for the mock backend
+ * One organization with two branches, a small team, a service catalog and bookings in every
+ * lifecycle state (new, accepted, completed), so each screen has something to show.
+ * Timestamps are unix epochs in seconds relative to when the backend is seeded, like the server's.
+ */
+import {
+  AcceptStatus,
+  Account,
+  BookedService,
+  BookingActivity,
+  Branch,
+  BranchService,
+  BranchStaff,
+  Country,
+  Invoice,
+  InvoiceItem,
+  Organization,
+  OrganizationStaff,
+  Permission,
+  RoleTemplate,
+  Service,
+  ServiceMode,
+  ServicePricing,
+  ServiceTag,
+  Session,
+  SubscriptionPlan,
+  UserProfile,
+  VehicleProfile,
+} from "../types";
+
+/**
+ * A session as stored; whether it is the current one depends on the request
+ */
+export type MockSession = Omit<Session, "isCurrent">;
+
+export interface MockDatabase {
+  organization: Organization;
+  /** The signed-in staff member; every login signs in as this user */
+  user: UserProfile;
+  users: UserProfile[];
+  accounts: Account[];
+  customers: UserProfile[];
+  branches: Branch[];
+  modes: ServiceMode[];
+  services: Service[];
+  tags: ServiceTag[];
+  pricing: ServicePricing[];
+  branchServices: BranchService[];
+  organizationStaff: OrganizationStaff[];
+  branchStaff: BranchStaff[];
+  permissions: Permission[];
+  /** Permission names granted to each account */
+  grants: Record<string, string[]>;
+  roleTemplates: RoleTemplate[];
+  bookings: BookedService[];
+  acceptStatuses: AcceptStatus[];
+  activities: BookingActivity[];
+  vehicleProfiles: VehicleProfile[];
+  invoices: Invoice[];
+  invoiceItems: Record<string, InvoiceItem[]>;
+  plans: SubscriptionPlan[];
+  countries: Country[];
+  /** The user's sessions on other devices; logins add the app's own */
+  sessions: MockSession[];
+}
+
+let sequence = 0;
+let invoiceSequence = 0;
+
+/**
+ * Unique id for seeded and created records, e.g. "mock-invoice-12"
+ */
+export const mockId = (kind: string) => `mock-${kind}-${++sequence}`;
+
+/**
+ * Current time as a unix epoch in seconds
+ */
+export const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+const PERMISSION_NAMES: [string, string][] = [
+  ["view_services", "services"],
+  ["manage_services", "services"],
+  ["view_branches", "branches"],
+  ["manage_branches", "branches"],
+  ["view_staff", "staff"],
+  ["manage_staff", "staff"],
+  ["view_bookings", "bookings"],
+  ["manage_bookings", "bookings"],
+  ["view_invoices", "invoices"],
+  ["manage_invoices", "invoices"],
+  ["view_finance", "finance"],
+];
+
+function person(
+  firstName: string,
+  lastName: string,
+  gender: number,
+  userNumber: string,
+  createdAt: number
+): UserProfile {
+  return {
+    id: mockId("user"),
+    firstName,
+    middleName: "",
+    lastName,
+    email: `${firstName}.${lastName}@example.com`.toLowerCase(),
+    phone: 9800000000 + Number(userNumber.replace(/\D/g, "")),
+    country: "Nepal",
+    userNumber,
+    gender,
+    birthDate: "1990-01-01",
+    verified: true,
+    active: true,
+    createdAt,
+    updatedAt: createdAt,
+  };
+}
+
+/**
+ * Builds a fresh copy of the seed data
+ */
+export function createMockDatabase(): MockDatabase {
+  // Same ids on every seed, so records keep their ids across app restarts
+  sequence = 0;
+  invoiceSequence = 0;
+  const now = nowSeconds();
+  const seededAt = now - 90 * DAY;
+
+  const organization: Organization = {
+    id: mockId("organization"),
+    name: "Diracks Demo Garage",
+    description: "Vehicle servicing and roadside assistance",
+    isActive: true,
+    isServiceProvider: true,
+    createdAt: seededAt,
+    updatedAt: seededAt,
+  };
+
+  const user = person("Alex", "Sharma", 1, "U-1001", seededAt);
+  const technician = person("Priya", "Thapa", 2, "U-1002", seededAt);
+  const advisor = person("Rohan", "Karki", 1, "U-1003", seededAt);
+  const users = [user, technician, advisor];
+
+  const accounts: Account[] = users.map((staffUser) => ({
+    id: mockId("account"),
+    userId: staffUser.id,
+    active: true,
+    isLocked: false,
+    organization,
+    createdAt: seededAt,
+    updatedAt: seededAt,
+  }));
+
+  const customers = [
+    person("Sita", "Gurung", 2, "C-2001", seededAt),
+    person("Bikash", "Rai", 1, "C-2002", seededAt),
+    person("Maya", "Shrestha", 2, "C-2003", seededAt),
+  ];
+
+  const branch = (name: string, isMain: boolean, city: string, latitude: number, longitude: number): Branch => ({
+    id: mockId("branch"),
+    organizationId: organization.id,
+    isMain,
+    name,
+    longitude,
+    latitude,
+    accuracy: 10,
+    contact: 9801234567,
+    description: `${name} workshop`,
+    email: `${city.toLowerCase()}@diracks.example.com`,
+    stateProvince: "Bagmati",
+    city,
+    location: `${city} Ring Road`,
+    slotsId: null,
+    createdAt: seededAt,
+    updatedAt: seededAt,
+  });
+  const branches = [
+    branch("Kathmandu Main", true, "Kathmandu", 27.7172, 85.324),
+    branch("Lalitpur Express", false, "Lalitpur", 27.6588, 85.3247),
+  ];
+
+  const modes: ServiceMode[] = [
+    { id: 1, name: "At workshop", isActive: true, createdAt: seededAt, updatedAt: seededAt },
+    { id: 2, name: "Home service", isActive: true, createdAt: seededAt, updatedAt: seededAt },
+  ];
+
+  const service = (name: string, description: string, mode: ServiceMode, isPublic = true): Service => ({
+    id: mockId("service"),
+    organizationId: organization.id,
+    name,
+    description,
+    isPublic,
+    isDeleted: false,
+    modeId: mode.id,
+    staffId: user.id,
+    thumbNailId: null,
+    thumbNail: null,
+    mode,
+    createdAt: seededAt,
+    updatedAt: seededAt,
+  });
+  const services = [
+    service("Full Car Service", "Oil change, filters, brakes and a 40-point inspection", modes[0]),
+    service("Battery Replacement", "Battery test and replacement at your location", modes[1]),
+    service("Tyre Change", "Swap, balance and align all four tyres", modes[0]),
+    service("Detailing Package", "Interior and exterior detailing", modes[0], false),
+  ];
+
+  const tags: ServiceTag[] = [
+    ["Maintenance", 0],
+    ["Oil", 0],
+    ["Electrical", 1],
+    ["Tyres", 2],
+  ].map(([name, index]) => ({
+    id: mockId("tag"),
+    serviceId: services[index as number].id,
+    name: name as string,
+    createdAt: seededAt,
+    updatedAt: seededAt,
+  }));
+
+  const pricing: ServicePricing[] = [
+    ["Standard", 4500, 0, 0],
+    ["Premium", 7500, 10, 0],
+    ["Standard", 9000, 0, 1],
+    ["Per tyre", 600, 0, 2],
+  ].map(([name, amount, discount, serviceIndex]) => ({
+    id: mockId("pricing"),
+    name: name as string,
+    description: `${name} package`,
+    amount: amount as number,
+    discount: discount as number,
+    organizationId: organization.id,
+    serviceId: services[serviceIndex as number].id,
+    isDeleted: false,
+    createdAt: seededAt,
+    updatedAt: seededAt,
+  }));
+
+  const branchServices: BranchService[] = branches.flatMap((branchRecord) =>
+    services.slice(0, 3).map((serviceRecord) => ({
+      id: mockId("branch-service"),
+      organizationId: organization.id,
+      branchId: branchRecord.id,
+      serviceId: serviceRecord.id,
+      isDeleted: false,
+      service: serviceRecord,
+      createdAt: seededAt,
+      updatedAt: seededAt,
+    }))
+  );
+
+  const organizationStaff: OrganizationStaff[] = users.map((staffUser) => ({
+    id: mockId("organization-staff"),
+    organizationId: organization.id,
+    userId: staffUser.id,
+    staff: staffUser,
+    createdAt: seededAt,
+    updatedAt: seededAt,
+  }));
+
+  const branchStaff: BranchStaff[] = users.map((staffUser, index) => ({
+    id: mockId("branch-staff"),
+    organizationId: organization.id,
+    branch_id: branches[index === 2 ? 1 : 0].id,
+    userId: staffUser.id,
+    isLocked: false,
+    staff: staffUser,
+    createdAt: seededAt,
+    updatedAt: seededAt,
+  }));
+
+  const permissions: Permission[] = PERMISSION_NAMES.map(([name, type]) => ({
+    id: mockId("permission"),
+    name,
+    type,
+    account: "organization",
+    createdAt: seededAt,
+    updatedAt: seededAt,
+  }));
+  const grants: Record<string, string[]> = {
+    [accounts[0].id]: permissions.map((permission) => permission.name),
+    [accounts[1].id]: ["view_services", "view_bookings", "manage_bookings", "view_invoices", "manage_invoices"],
+    [accounts[2].id]: ["view_services", "view_bookings"],
+  };
+
+  // The technician's grants have drifted from their template, so re-syncing shows a change
+  const roleTemplate = (name: string, description: string, names: string[], members: Account[]): RoleTemplate => ({
+    id: mockId("role-template"),
+    name,
+    description,
+    permissions: names,
+    members: members.map((account) => ({ accountId: account.id, userId: account.userId })),
+    createdAt: seededAt,
+    updatedAt: seededAt,
+  });
+  const roleTemplates = [
+    roleTemplate(
+      "Front desk",
+      "Takes bookings and prepares invoices",
+      ["view_services", "view_branches", "view_bookings", "manage_bookings", "view_invoices"],
+      [accounts[2]]
+    ),
+    roleTemplate(
+      "Technician",
+      "Works on accepted bookings",
+      ["view_services", "view_bookings", "manage_bookings", "view_invoices"],
+      [accounts[1]]
+    ),
+    roleTemplate(
+      "Branch manager",
+      "Runs a branch, its services and its team",
+      permissions.map((permission) => permission.name).filter((name) => name !== "view_finance"),
+      []
+    ),
+    roleTemplate(
+      "Accountant",
+      "Invoices and finance reports",
+      ["view_bookings", "view_invoices", "manage_invoices", "view_finance"],
+      []
+    ),
+  ];
+
+  let bookingCount = 0;
+  const booking = (
+    customer: UserProfile,
+    serviceRecord: Service,
+    state: "new" | "accepted" | "completed",
+    bookedAgo: number
+  ): BookedService => {
+    const bookedDate = now - bookedAgo;
+    return {
+      id: mockId("booking"),
+      bookCode: `BK-${1024 + bookingCount++}`,
+      description: `${serviceRecord.name} requested by ${customer.firstName}`,
+      organizationId: organization.id,
+      branchId: branches[0].id,
+      customerId: customer.id,
+      staffId: state === "new" ? null : user.id,
+      serviceId: serviceRecord.id,
+      priceId: null,
+      bookedDate,
+      acceptedDate: state === "new" ? null : bookedDate + HOUR,
+      isAccepted: state !== "new",
+      isActive: true,
+      isHomeWorkRequest: serviceRecord.modeId === 2,
+      isCancelled: false,
+      isDeclined: false,
+      isCompleted: state === "completed",
+      completedDate: state === "completed" ? bookedDate + DAY : null,
+      organization,
+      service: serviceRecord,
+      branch: branches[0],
+      customer,
+      createdAt: bookedDate,
+      updatedAt: bookedDate,
+    };
+  };
+  const bookings = [
+    booking(customers[0], services[0], "new", 2 * HOUR),
+    booking(customers[1], services[1], "new", 5 * HOUR),
+    booking(customers[2], services[2], "accepted", 2 * DAY),
+    booking(customers[0], services[1], "accepted", 3 * DAY),
+    booking(customers[1], services[0], "completed", 10 * DAY),
+    booking(customers[2], services[0], "completed", 30 * DAY),
+  ];
+
+  const acceptStatuses: AcceptStatus[] = bookings
+    .filter((record) => record.isAccepted)
+    .map((record) => ({
+      id: mockId("accept-status"),
+      organizationId: organization.id,
+      branchId: record.branchId,
+      bookServiceId: record.id,
+      staffId: user.id,
+      serviceId: record.serviceId,
+      isAccepted: true,
+      isCancelled: false,
+      isCustomerCancelled: false,
+      isCompleted: record.isCompleted,
+      createdAt: record.acceptedDate!,
+      updatedAt: record.acceptedDate!,
+    }));
+
+  const activities: BookingActivity[] = bookings.flatMap((record) => {
+    const steps = [["Request received", "PENDING", record.bookedDate]];
+    if (record.isAccepted) {
+      steps.push(["Request accepted by the workshop", "ACCEPTED", record.acceptedDate!]);
+    }
+    if (record.isCompleted) {
+      steps.push(["Service completed", "COMPLETED", record.completedDate!]);
+    }
+    return steps.map(([description, status, at]) => ({
+      id: mockId("activity"),
+      description: description as string,
+      bookServiceId: record.id,
+      status: status as string,
+      user_id: user.id,
+      user,
+      createdAt: at as number,
+      updatedAt: at as number,
+    }));
+  });
+
+  const vehicleProfiles: VehicleProfile[] = bookings.slice(2, 4).map((record, index) => ({
+    id: mockId("vehicle-share"),
+    customerId: record.customerId,
+    bookServiceId: record.id,
+    vehicleServiceId: mockId("vehicle-service"),
+    isRevoked: false,
+    profile: {
+      id: mockId("vehicle"),
+      userId: record.customerId,
+      vehicleIdentificationNumber: `1HGCM82633A00435${index}`,
+      make: index === 0 ? "Toyota" : "Hyundai",
+      model: index === 0 ? "Corolla" : "Creta",
+      drive: "FWD",
+      year: 2019 + index,
+      engineType: "1.8L I4",
+      color: index === 0 ? "White" : "Grey",
+      transmission: "Automatic",
+      bodyType: index === 0 ? "Sedan" : "SUV",
+      fuelType: "Petrol",
+      licensePlate: `BA 2 PA ${4410 + index}`,
+      lastServiceDate: "2026-03-12",
+      deleted: false,
+      createdAt: seededAt,
+      updatedAt: seededAt,
+    },
+    customer: record.customer,
+    createdAt: record.acceptedDate!,
+    updatedAt: record.acceptedDate!,
+  }));
+
+  // The second accepted booking has a published invoice, the first a draft
+  const invoices: Invoice[] = [];
+  const invoiceItems: Record<string, InvoiceItem[]> = {};
+  bookings
+    .filter((record) => record.isAccepted)
+    .forEach((record, index) => {
+      const invoice = createMockInvoice({ organization, user }, record, record.isCompleted ? 5 : 0);
+      invoice.isPublished = record.isCompleted || index === 1;
+      invoice.isCustomerPaid = record.isCompleted;
+      invoice.isPaymentReceived = record.isCompleted;
+      invoices.push(invoice);
+      invoiceItems[invoice.id] = createMockInvoiceItems(invoice, [
+        { name: "Labour", amount: 1500, quantity: 2 },
+        { name: "Parts", amount: 2200, quantity: 1 },
+      ]);
+    });
+
+  const plans: SubscriptionPlan[] = [
+    ["Starter", "STARTER", "1", "5", 0, 1],
+    ["Growth", "GROWTH", "3", "20", 2999, 1],
+    ["Enterprise", "ENTERPRISE", "Unlimited", "Unlimited", 9999, 12],
+  ].map(([title, subscriptionCode, noOfBranches, members, price, noOfMonth]) => ({
+    id: mockId("plan"),
+    title: title as string,
+    subscriptionCode: subscriptionCode as string,
+    noOfBranches: noOfBranches as string,
+    members: members as string,
+    tadarVisibility: "Standard",
+    teamManagement: price !== 0,
+    services: "Unlimited",
+    assistanceSupport: price === 0 ? "Email" : "Priority",
+    reports: price !== 0,
+    noOfMonth: noOfMonth as number,
+    isRenewed: false,
+    price: price as number,
+    active: true,
+    createdAt: seededAt,
+    updatedAt: seededAt,
+  }));
+
+  const countries: Country[] = [
+    { id: "np", name: "Nepal", short: "NP", formats: ["+977 ##########"] },
+    { id: "in", name: "India", short: "IN", formats: ["+91 ##########"] },
+  ];
+
+  const sessions: MockSession[] = [
+    {
+      id: mockId("session"),
+      deviceName: "Alex's Galaxy A54",
+      platform: "android",
+      appVersion: "1.0.0",
+      branch: { id: branches[1].id, name: branches[1].name },
+      lastSeenAt: now - 2 * HOUR,
+      createdAt: now - 12 * DAY,
+    },
+    {
+      id: mockId("session"),
+      deviceName: "Front desk iPad",
+      platform: "ios",
+      appVersion: "1.0.0",
+      branch: { id: branches[0].id, name: branches[0].name },
+      lastSeenAt: now - 3 * DAY,
+      createdAt: now - 40 * DAY,
+    },
+    {
+      id: mockId("session"),
+      deviceName: "Chrome on Windows",
+      platform: "web",
+      appVersion: null,
+      branch: null,
+      lastSeenAt: now - 20 * 60,
+      createdAt: now - 5 * DAY,
+    },
+  ];
+
+  return {
+    organization,
+    user,
+    users,
+    accounts,
+    customers,
+    branches,
+    modes,
+    services,
+    tags,
+    pricing,
+    branchServices,
+    organizationStaff,
+    branchStaff,
+    permissions,
+    grants,
+    roleTemplates,
+    bookings,
+    acceptStatuses,
+    activities,
+    vehicleProfiles,
+    invoices,
+    invoiceItems,
+    plans,
+    countries,
+    sessions,
+  };
+}
+
+/**
+ * New, unanswered booking of a service at a branch, as a customer would make it from their app
+ */
+export function createMockBooking(
+  db: Pick<MockDatabase, "organization" | "bookings">,
+  customer: UserProfile,
+  service: Service,
+  branch: Branch
+): BookedService {
+  const now = nowSeconds();
+  return {
+    id: mockId("booking"),
+    bookCode: `BK-${1024 + db.bookings.length}`,
+    description: `${service.name} requested by ${customer.firstName}`,
+    organizationId: db.organization.id,
+    branchId: branch.id,
+    customerId: customer.id,
+    staffId: null,
+    serviceId: service.id,
+    priceId: null,
+    bookedDate: now,
+    acceptedDate: null,
+    isAccepted: false,
+    isActive: true,
+    isHomeWorkRequest: service.modeId === 2,
+    isCancelled: false,
+    isDeclined: false,
+    isCompleted: false,
+    completedDate: null,
+    organization: db.organization,
+    service,
+    branch,
+    customer,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Invoice for a booking, numbered like the server's ("INV-0001")
+ */
+export function createMockInvoice(
+  db: Pick<MockDatabase, "organization" | "user">,
+  booking: BookedService,
+  discount: number
+): Invoice {
+  const now = nowSeconds();
+  const { mode: _mode, ...service } = booking.service;
+  return {
+    id: mockId("invoice"),
+    customerId: booking.customerId,
+    bookServiceId: booking.id,
+    serviceId: booking.serviceId,
+    organizationId: db.organization.id,
+    branchId: booking.branchId,
+    staffId: db.user.id,
+    invoiceNumber: `INV-${String(++invoiceSequence).padStart(4, "0")}`,
+    invoiceDate: new Date(now * 1000).toISOString(),
+    discount,
+    branch: booking.branch,
+    organization: db.organization,
+    customer: booking.customer,
+    service,
+    staff: db.user,
+    isPublished: false,
+    isCustomerPaid: false,
+    isPaymentReceived: false,
+    createdAt: now,
+    updatedAt: now,
+    deletedAt: null,
+  };
+}
+
+export function createMockInvoiceItems(
+  invoice: Invoice,
+  items: { name: string; amount: number; quantity: number }[]
+): InvoiceItem[] {
+  return items.map((item) => ({
+    id: mockId("invoice-item"),
+    name: item.name,
+    quantity: item.quantity,
+    amount: item.amount,
+    netAmount: item.amount * item.quantity,
+    createdAt: invoice.createdAt,
+    updatedAt: invoice.updatedAt,
+  }));
+}
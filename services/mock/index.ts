@@ -0,0 +1,47 @@
+/**
+ * In-app mock backend
+ * Replaces the network transport so the app runs without a server: for demos, onboarding
+ * and development away from the API. Selected as the "mock" environment (services/environment):
+ * with MOCK_API=true at build time, the developer switch on the login screen or the diagnostics screen.
+ * Sign in with any username and password while it is enabled; password reset codes are always MOCK_RESET_CODE,
+ * and getMockTwoFactorCode stands in for the authenticator app.
+ */
+import { getTransport, Transport } from "../api";
+import { clearQueryCache } from "../queryClient";
+import { mockFetch, mockUpload, resetMockDatabase } from "./backend";
+import { MockBranchSocket, MockChatSocket, MockEventSocket } from "./socket";
+
+export { getMockTwoFactorCode, MOCK_RESET_CODE } from "./backend";
+
+/**
+ * Origin of mock requests; never resolved, only shown in URLs and logs
+ */
+export const MOCK_BASE_URL = "https://mock.diracks.local";
+
+export const mockTransport: Transport = {
+  baseUrl: MOCK_BASE_URL,
+  fetch: mockFetch,
+  openSocket: (url) => {
+    if (/\/skt\/ws\/user\b/.test(url)) {
+      return new MockEventSocket(url) as unknown as WebSocket;
+    }
+    if (/\/skt\/ws\/branch\//.test(url)) {
+      return new MockBranchSocket(url) as unknown as WebSocket;
+    }
+    return new MockChatSocket(url) as unknown as WebSocket;
+  },
+  upload: mockUpload,
+};
+
+/**
+ * Whether requests are currently answered by the mock backend
+ */
+export const isMockBackendActive = () => getTransport() === mockTransport;
+
+/**
+ * Restores the mock backend's seed data, discarding everything written in this session
+ */
+export function resetMockBackend() {
+  resetMockDatabase();
+  clearQueryCache();
+}
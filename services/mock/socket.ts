@@ -0,0 +1,203 @@
+/**
+ * Fake sockets for the mock backend
+ * The chat room socket echoes sent messages back as the server's broadcast, and the customer replies
+ * shortly after so conversations can be demoed. The event socket pushes the signed-in user's events,
+ * and the branch socket pushes booking events while customers book and cancel now and then.
+ */
+import {
+  getMockDatabase,
+  simulateMockBookingCancellation,
+  simulateMockBookingRequest,
+  subscribeMockBranchEvents,
+  subscribeMockEvents,
+} from "./backend";
+import { mockId } from "./fixtures";
+
+const CONNECT_DELAY = 300;
+const ECHO_DELAY = 200;
+const REPLY_DELAY = 2_000;
+// How often a simulated customer books or cancels at the connected branch (ms)
+const CUSTOMER_ACTIVITY_INTERVAL = 45_000;
+// Share of simulated customer activity that cancels instead of booking
+const CANCEL_CHANCE = 0.25;
+
+const CUSTOMER_REPLIES = [
+  "Thanks for the update!",
+  "Great, see you then.",
+  "How long will it take?",
+  "Perfect, thank you.",
+];
+
+// Outbox replays carry a clientMessageId; like the server, a message already delivered is not sent again
+const deliveredMessageIds = new Set<string>();
+
+type SocketHandler<E> = ((event: E) => void) | null;
+type SocketEventType = "open" | "message" | "error" | "close";
+
+/**
+ * The part of the WebSocket API the app uses, with events delivered on timers like a real connection
+ */
+abstract class MockSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+
+  readyState = MockSocket.CONNECTING;
+  onopen: SocketHandler<unknown> = null;
+  onmessage: SocketHandler<{ data: string }> = null;
+  onerror: SocketHandler<unknown> = null;
+  onclose: SocketHandler<unknown> = null;
+
+  private readonly timers = new Set<ReturnType<typeof setTimeout>>();
+  private readonly listeners = new Map<SocketEventType, Set<(event: any) => void>>();
+
+  constructor(readonly url: string) {}
+
+  abstract send(data: string): void;
+
+  close() {
+    if (this.readyState === MockSocket.CLOSED) {
+      return;
+    }
+    this.timers.forEach(clearTimeout);
+    this.timers.clear();
+    this.readyState = MockSocket.CLOSED;
+    this.dispatch("close", {});
+  }
+
+  addEventListener(type: SocketEventType, listener: (event: any) => void) {
+    this.listeners.set(type, (this.listeners.get(type) ?? new Set()).add(listener));
+  }
+
+  removeEventListener(type: SocketEventType, listener: (event: any) => void) {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  protected open() {
+    this.readyState = MockSocket.OPEN;
+    this.dispatch("open", {});
+  }
+
+  protected dispatch(type: SocketEventType, event: object) {
+    this[`on${type}`]?.(event as any);
+    this.listeners.get(type)?.forEach((listener) => listener(event));
+  }
+
+  protected emit(payload: object) {
+    if (this.readyState === MockSocket.OPEN) {
+      this.dispatch("message", { data: JSON.stringify(payload) });
+    }
+  }
+
+  protected schedule(callback: () => void, delay: number) {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      callback();
+    }, delay);
+    this.timers.add(timer);
+  }
+}
+
+export class MockChatSocket extends MockSocket {
+  private readonly bookCode: string;
+
+  constructor(url: string) {
+    super(url);
+    this.bookCode = decodeURIComponent(/\/service\/([^/?]+)/.exec(url)?.[1] ?? "");
+    this.schedule(() => {
+      const booking = getMockDatabase().bookings.find((item) => item.bookCode === this.bookCode);
+      if (!booking) {
+        this.dispatch("error", { message: `No booking ${this.bookCode}` });
+        this.close();
+        return;
+      }
+      this.open();
+    }, CONNECT_DELAY);
+  }
+
+  send(data: string) {
+    if (this.readyState !== MockSocket.OPEN) {
+      throw new Error("WebSocket is not open");
+    }
+
+    const message = JSON.parse(data);
+    if (message.clientMessageId) {
+      if (deliveredMessageIds.has(message.clientMessageId)) {
+        return;
+      }
+      deliveredMessageIds.add(message.clientMessageId);
+    }
+    this.schedule(() => this.emit({ ...message, id: mockId("message"), timestamp: new Date().toISOString() }), ECHO_DELAY);
+    this.schedule(
+      () =>
+        this.emit({
+          type: "MESSAGE",
+          id: mockId("message"),
+          content: CUSTOMER_REPLIES[Math.floor(Math.random() * CUSTOMER_REPLIES.length)],
+          senderId: message.receiverId,
+          receiverId: message.senderId,
+          bookCode: message.bookCode,
+          bookServiceId: message.bookServiceId,
+          timestamp: new Date().toISOString(),
+        }),
+      REPLY_DELAY
+    );
+  }
+}
+
+export class MockEventSocket extends MockSocket {
+  private readonly unsubscribe: () => void;
+
+  constructor(url: string) {
+    super(url);
+    this.unsubscribe = subscribeMockEvents((event) => this.emit(event));
+    this.schedule(() => this.open(), CONNECT_DELAY);
+  }
+
+  // The server only pushes on this socket
+  send() {}
+
+  close() {
+    this.unsubscribe();
+    super.close();
+  }
+}
+
+export class MockBranchSocket extends MockSocket {
+  private readonly branchId: string;
+  private readonly unsubscribe: () => void;
+
+  constructor(url: string) {
+    super(url);
+    this.branchId = decodeURIComponent(/\/branch\/([^/?]+)/.exec(url)?.[1] ?? "");
+    this.unsubscribe = subscribeMockBranchEvents((event) => {
+      if (event.booking.branchId === this.branchId) {
+        this.emit(event);
+      }
+    });
+    this.schedule(() => {
+      this.open();
+      this.simulateCustomers();
+    }, CONNECT_DELAY);
+  }
+
+  // The server only pushes on this socket
+  send() {}
+
+  close() {
+    this.unsubscribe();
+    super.close();
+  }
+
+  private simulateCustomers() {
+    this.schedule(() => {
+      if (Math.random() < CANCEL_CHANCE) {
+        simulateMockBookingCancellation(this.branchId);
+      } else {
+        simulateMockBookingRequest(this.branchId);
+      }
+      this.simulateCustomers();
+    }, CUSTOMER_ACTIVITY_INTERVAL);
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Network log for the diagnostics screen
+ * Every request attempt made by apiRequest and every chat socket is recorded with its timing and outcome.
+ * Credentials never reach the log: the Authorization header, socket tokens and secret body fields
+ * (passwords, tokens, OTPs) are redacted when the entry is recorded.
+ */
+import { NetworkLogEntry, useNetworkLogStore } from "@/store/networkLogStore";
+
+const REDACTED = "<redacted>";
+const MULTIPART_BODY = "[multipart form data]";
+
+// Body fields whose values are never logged
+const SECRET_FIELDS = /password|token|secret|^otp$|^code$/i;
+
+// Longest body kept per entry (characters)
+const MAX_BODY_LENGTH = 4_000;
+
+let nextId = 0;
+
+function redactHeaders(headers: RequestInit["headers"]): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  Object.entries((headers ?? {}) as Record<string, string>).forEach(([name, value]) => {
+    if (name.toLowerCase() === "authorization") {
+      redacted[name] = value.startsWith("Bearer ") ? `Bearer ${REDACTED}` : REDACTED;
+    } else {
+      redacted[name] = value;
+    }
+  });
+  return redacted;
+}
+
+function redactValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactValue);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, nested]) => [
+        key,
+        SECRET_FIELDS.test(key) && nested !== null && typeof nested !== "object" ? REDACTED : redactValue(nested),
+      ])
+    );
+  }
+  return value;
+}
+
+function redactBody(body: RequestInit["body"]): string | null {
+  if (body === undefined || body === null) {
+    return null;
+  }
+  if (typeof body !== "string") {
+    return MULTIPART_BODY;
+  }
+
+  let text = body;
+  try {
+    text = JSON.stringify(redactValue(JSON.parse(body)));
+  } catch {
+    // Not JSON; logged as sent
+  }
+  return text.length > MAX_BODY_LENGTH ? `${text.slice(0, MAX_BODY_LENGTH)}…` : text;
+}
+
+/**
+ * Strips the token query parameter from socket URLs
+ */
+function redactUrl(url: string) {
+  return url.replace(/([?&]token=)[^&]*/, `$1${REDACTED}`);
+}
+
+/**
+ * Records a request attempt and returns a callback that completes the entry
+ * @param url - The full request URL
+ * @param init - The fetch init the attempt is sent with
+ */
+export function recordRequest(url: string, init: RequestInit) {
+  const id = String(++nextId);
+  const startedAt = Date.now();
+  useNetworkLogStore.getState().addRequest({
+    id,
+    method: init.method ?? "GET",
+    url,
+    headers: redactHeaders(init.headers),
+    body: redactBody(init.body),
+    status: null,
+    error: null,
+    startedAt,
+    duration: null,
+  });
+
+  return (outcome: { status: number } | { error: unknown }) => {
+    const duration = Date.now() - startedAt;
+    if ("status" in outcome) {
+      useNetworkLogStore.getState().updateRequest(id, { status: outcome.status, duration });
+    } else {
+      const error = outcome.error instanceof Error ? outcome.error.message : String(outcome.error);
+      useNetworkLogStore.getState().updateRequest(id, { error, duration });
+    }
+  };
+}
+
+/**
+ * Records a socket's connection state and message counts for the diagnostics screen
+ * Listeners are added alongside the caller's handlers, so the socket behaves as before.
+ * @returns The same socket
+ */
+export function monitorSocket(socket: WebSocket, url: string): WebSocket {
+  const id = String(++nextId);
+  const { addSocket, updateSocket } = useNetworkLogStore.getState();
+  addSocket({
+    id,
+    url: redactUrl(url),
+    status: "connecting",
+    messagesSent: 0,
+    messagesReceived: 0,
+    openedAt: Date.now(),
+    closedAt: null,
+  });
+
+  socket.addEventListener("open", () => updateSocket(id, () => ({ status: "open" })));
+  socket.addEventListener("message", () =>
+    updateSocket(id, (entry) => ({ messagesReceived: entry.messagesReceived + 1 }))
+  );
+  socket.addEventListener("error", () => updateSocket(id, () => ({ status: "error" })));
+  socket.addEventListener("close", () =>
+    updateSocket(id, (entry) => ({ status: entry.status === "error" ? "error" : "closed", closedAt: Date.now() }))
+  );
+
+  const send = socket.send.bind(socket);
+  socket.send = (data) => {
+    send(data);
+    updateSocket(id, (entry) => ({ messagesSent: entry.messagesSent + 1 }));
+  };
+
+  return socket;
+}
+
+const quote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * Formats a logged request as a cURL command
+ * Redacted values stay redacted; paste a token in before running it.
+ */
+export function toCurl(entry: NetworkLogEntry): string {
+  const parts = [`curl -X ${entry.method} ${quote(entry.url)}`];
+  Object.entries(entry.headers).forEach(([name, value]) => parts.push(`-H ${quote(`${name}: ${value}`)}`));
+  // Multipart bodies are not logged, so they cannot be replayed
+  if (entry.body !== null && entry.body !== MULTIPART_BODY) {
+    parts.push(`--data ${quote(entry.body)}`);
+  }
+  return parts.join(" \\\n  ");
+}
@@ -0,0 +1,38 @@
+/**
+ * Self-service organization sign-up
+ */
+import { api, RequestOptions } from "./api";
+import { BranchInput } from "./branches";
+import { ServiceInput } from "./services";
+import { Account, Branch } from "./types";
+
+export interface OrganizationInput {
+  name: string;
+  email: string;
+  phone: string;
+  website: string;
+  description: string;
+  logoId: string | null;
+}
+
+export interface OnboardingInput {
+  organization: OrganizationInput;
+  /** Created as the organization's main branch */
+  branch: BranchInput;
+  /** Created and added to the main branch */
+  services: ServiceInput[];
+  planId: string;
+}
+
+export interface OnboardingResponse {
+  /** The owner's account in the new organization */
+  account: Account;
+  branch: Branch;
+}
+
+/**
+ * Creates the signed-in user's organization with its main branch, first services and plan
+ * Pass an idempotencyKey so a retried request does not create a second organization
+ */
+export const complete = async (input: OnboardingInput, options?: RequestOptions) =>
+  (await api.post<OnboardingResponse>("/:locale/onboarding", input, options)).data;
@@ -0,0 +1,300 @@
+/**
+ * Offline outbox for mutations made in the field
+ * Writes that cannot reach the server (no signal, timeout) are queued in the outbox store with an
+ * idempotency key and replayed in order once connectivity returns, so a technician can keep working offline.
+ * Replay stops at the first network failure and resumes on the next reconnect.
+ * A write the server state no longer allows (e.g. updating an invoice that was published meanwhile)
+ * is marked as a conflict instead of being forced through; the user retries or discards it on the
+ * pending sync screen. Later writes for the same record wait behind a conflict or failure.
+ * Writes belong to the user who made them: they wait through an expired session and are only replayed
+ * once that user signs in again. Signing out on purpose discards them after a warning (hooks/useLogout.ts).
+ * React bindings live in hooks/useOutbox.ts.
+ */
+import { useAuthStore } from "@/store/authStore";
+import { isOutboxItemOfUser, OutboxItem, useOutboxStore } from "@/store/outboxStore";
+import { useUserStore } from "@/store/userStore";
+import NetInfo from "@react-native-community/netinfo";
+import { AppState } from "react-native";
+import * as bookings from "./bookings";
+import * as chat from "./chat";
+import { ApiError, AuthError, isAbortError, NetworkError } from "./errors";
+import { createIdempotencyKey } from "./idempotency";
+import * as invoices from "./invoices";
+
+/**
+ * Payload of each mutation that can be queued
+ */
+export interface OutboxPayloads {
+  "bookings.complete": { bookedServiceId: string };
+  "invoices.create": invoices.InvoiceInput;
+  "invoices.update": invoices.InvoiceInput;
+  "chat.send": chat.ChatMessageInput;
+}
+
+export type OutboxMutation = keyof OutboxPayloads;
+
+interface OutboxHandler<P> {
+  send: (payload: P, idempotencyKey: string) => Promise<unknown>;
+  /**
+   * Checks the server state before a queued write is replayed
+   * @returns A conflict message, or null if the write can be sent
+   */
+  checkConflict?: (payload: P) => Promise<string | null>;
+}
+
+const handlers: { [K in OutboxMutation]: OutboxHandler<OutboxPayloads[K]> } = {
+  "bookings.complete": {
+    send: ({ bookedServiceId }, idempotencyKey) => bookings.complete(bookedServiceId, { idempotencyKey }),
+  },
+  "invoices.create": {
+    send: (payload, idempotencyKey) => invoices.create(payload, { idempotencyKey }),
+  },
+  "invoices.update": {
+    send: (payload, idempotencyKey) => invoices.update(payload, { idempotencyKey }),
+    // Only an unpublished invoice can be edited; the customer may already have seen the published one
+    checkConflict: async ({ bookedServiceId }) => {
+      const current = await invoices.listForBooking(bookedServiceId);
+      return current.some((invoice) => !invoice.isPublished)
+        ? null
+        : "The invoice was published before this change was sent.";
+    },
+  },
+  "chat.send": {
+    // The room socket has no headers; the server drops a message whose clientMessageId it already delivered
+    send: (payload, idempotencyKey) => {
+      const token = useAuthStore.getState().token;
+      if (!token) {
+        return Promise.reject(new AuthError("Session expired. Please log in again."));
+      }
+      return chat.sendMessage({ ...payload, clientMessageId: idempotencyKey }, token);
+    },
+  },
+};
+
+export interface QueueOptions {
+  /** Short description for the pending sync screen, e.g. "Complete BK-1024" */
+  label: string;
+  /** Id of the record the write belongs to, e.g. the booked service id */
+  entityId?: string | null;
+  /**
+   * Idempotency key of the user's intent, e.g. from withIdempotencyKey; sent now and on every replay
+   * so retrying the same action cannot apply it twice (default: a new key)
+   */
+  idempotencyKey?: string;
+}
+
+export type RunOrQueueResult = { queued: false } | { queued: true; id: string };
+
+let replaying: Promise<void> | null = null;
+
+const updateItem = (id: string, updates: Partial<OutboxItem>) => useOutboxStore.getState().updateItem(id, updates);
+
+const currentUserId = () => useUserStore.getState().user?.id ?? null;
+
+/**
+ * A failure that says nothing about the write itself, only that the server was not reached
+ */
+const isConnectivityError = (error: unknown) => error instanceof NetworkError && !isAbortError(error);
+
+const getErrorMessage = (error: unknown) => (error instanceof Error ? error.message : "Sync failed");
+
+function queue<K extends OutboxMutation>(
+  type: K,
+  payload: OutboxPayloads[K],
+  options: QueueOptions,
+  userId: string,
+  idempotencyKey: string
+): string {
+  const item: OutboxItem = {
+    id: createIdempotencyKey(),
+    type,
+    payload,
+    label: options.label,
+    entityId: options.entityId ?? null,
+    userId,
+    idempotencyKey,
+    status: "pending",
+    error: null,
+    attempts: 0,
+    createdAt: Date.now(),
+  };
+  useOutboxStore.getState().addItem(item);
+  return item.id;
+}
+
+/**
+ * Sends a mutation now, or queues it when the server cannot be reached
+ * Writes are also queued while earlier writes are still waiting, so they reach the server in order.
+ * Errors other than connectivity failures (validation, permissions) are thrown as usual, and nothing is
+ * queued without a signed-in user to replay it for.
+ * @returns Whether the write was queued, and its outbox item id if so
+ */
+export async function runOrQueue<K extends OutboxMutation>(
+  type: K,
+  payload: OutboxPayloads[K],
+  options: QueueOptions
+): Promise<RunOrQueueResult> {
+  const userId = currentUserId();
+  if (!userId) {
+    throw new AuthError("Session expired. Please log in again.");
+  }
+  const hasQueuedItems = useOutboxStore
+    .getState()
+    .items.some(
+      (item) => isOutboxItemOfUser(item, userId) && (item.status === "pending" || item.status === "syncing")
+    );
+  const idempotencyKey = options.idempotencyKey ?? createIdempotencyKey();
+  const { isConnected } = await NetInfo.fetch();
+  if (hasQueuedItems || isConnected === false) {
+    const id = queue(type, payload, options, userId, idempotencyKey);
+    replayOutbox();
+    return { queued: true, id };
+  }
+
+  try {
+    await handlers[type].send(payload, idempotencyKey);
+    return { queued: false };
+  } catch (error) {
+    if (!isConnectivityError(error)) {
+      throw error;
+    }
+    // Same key: the request may have reached the server before the connection dropped
+    return { queued: true, id: queue(type, payload, options, userId, idempotencyKey) };
+  }
+}
+
+async function replayItem(item: OutboxItem): Promise<"sent" | "stop" | "skip"> {
+  const handler = handlers[item.type as OutboxMutation] as OutboxHandler<unknown> | undefined;
+  if (!handler) {
+    updateItem(item.id, { status: "failed", error: "This change can no longer be sent." });
+    return "skip";
+  }
+
+  updateItem(item.id, { status: "syncing", attempts: item.attempts + 1 });
+  try {
+    const conflict = await handler.checkConflict?.(item.payload);
+    if (conflict) {
+      updateItem(item.id, { status: "conflict", error: conflict });
+      return "skip";
+    }
+
+    await handler.send(item.payload, item.idempotencyKey);
+    useOutboxStore.getState().removeItem(item.id);
+    return "sent";
+  } catch (error) {
+    // Still offline, or the session must be restored first: the write stays queued for its user
+    // and is tried again on the next trigger, e.g. after signing in again. A 403 is not about the
+    // session but about this write, so like other rejections it fails and replay moves on.
+    if (isConnectivityError(error) || (error instanceof AuthError && error.status === 401)) {
+      updateItem(item.id, { status: "pending", error: getErrorMessage(error) });
+      return "stop";
+    }
+
+    console.error("Outbox replay failed:", error);
+    const isConflict = error instanceof ApiError && error.status === 409;
+    updateItem(item.id, { status: isConflict ? "conflict" : "failed", error: getErrorMessage(error) });
+    return "skip";
+  }
+}
+
+/**
+ * Sends the signed-in user's queued writes in order
+ * Concurrent calls share one replay. Writes for a record with an unresolved conflict or failure are held back.
+ */
+export function replayOutbox(): Promise<void> {
+  const userId = currentUserId();
+  if (!useOutboxStore.persist.hasHydrated() || !useAuthStore.getState().isAuthenticated || !userId) {
+    return Promise.resolve();
+  }
+
+  if (!replaying) {
+    replaying = (async () => {
+      const blockedEntities = new Set<string>();
+      const attempted = new Set<string>();
+
+      while (true) {
+        const items = useOutboxStore.getState().items.filter((item) => item.userId === userId);
+        items
+          .filter((item) => (item.status === "conflict" || item.status === "failed") && item.entityId)
+          .forEach((item) => blockedEntities.add(item.entityId!));
+
+        const next = items.find(
+          (item) =>
+            item.status === "pending" &&
+            !attempted.has(item.id) &&
+            !(item.entityId && blockedEntities.has(item.entityId))
+        );
+        if (!next) {
+          return;
+        }
+
+        attempted.add(next.id);
+        if ((await replayItem(next)) === "stop") {
+          return;
+        }
+      }
+    })().finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+}
+
+/**
+ * Queues a conflicted or failed write to be sent again
+ */
+export function retryOutboxItem(id: string) {
+  updateItem(id, { status: "pending", error: null });
+  return replayOutbox();
+}
+
+/**
+ * Drops a queued write without sending it
+ */
+export function discardOutboxItem(id: string) {
+  useOutboxStore.getState().removeItem(id);
+  replayOutbox();
+}
+
+// Replay on launch, after signing in, when the device reconnects and when the app returns to the foreground
+useOutboxStore.persist.onFinishHydration(() => {
+  replayOutbox();
+});
+if (useOutboxStore.persist.hasHydrated()) {
+  replayOutbox();
+}
+
+NetInfo.addEventListener((state) => {
+  if (state.isConnected && state.isInternetReachable !== false) {
+    replayOutbox();
+  }
+});
+
+AppState.addEventListener("change", (state) => {
+  if (state === "active") {
+    replayOutbox();
+  }
+});
+
+// Queued writes wait through a sign-out; the next user's session only replays that user's writes
+useAuthStore.subscribe((state, previousState) => {
+  if (!previousState.isAuthenticated && state.isAuthenticated) {
+    replayOutbox();
+  }
+});
+// Signing in sets the user after the token
+useUserStore.subscribe((state, previousState) => {
+  if (state.user?.id && state.user.id !== previousState.user?.id) {
+    replayOutbox();
+  }
+});
+
+/**
+ * Drops the signed-in user's queued writes; called when they sign out on purpose
+ */
+export function discardUserOutbox() {
+  const userId = currentUserId();
+  if (userId) {
+    useOutboxStore.getState().removeUserItems(userId);
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * In-memory query cache for API reads
+ * Concurrent fetches of the same key share one request, cached data is served
+ * while stale entries revalidate, and mutations invalidate keys by prefix.
+ * React bindings live in hooks/useQuery.ts.
+ */
+import { useAuthStore } from "@/store/authStore";
+import { useLocaleStore } from "@/store/localeStore";
+import { onOrganizationTeardown } from "@/store/organizationScope";
+import { ApiError, isAbortError } from "./errors";
+
+/**
+ * Identifies a cached query, e.g. ["services", serviceId, "pricing"]
+ * Invalidating a key also invalidates every key it is a prefix of
+ */
+export type QueryKey = readonly unknown[];
+
+export interface QueryState<T = unknown> {
+  data: T | undefined;
+  error: ApiError | null;
+  /** When the data was last fetched successfully (0 if never) */
+  updatedAt: number;
+  isFetching: boolean;
+  isInvalidated: boolean;
+}
+
+/**
+ * Passed to every fetcher; the signal is aborted once no mounted query needs the result
+ */
+export interface QueryFetcherContext {
+  signal: AbortSignal;
+}
+
+export type QueryFetcher<T> = (context: QueryFetcherContext) => Promise<T>;
+
+interface QueryEntry<T = unknown> {
+  key: QueryKey;
+  state: QueryState<T>;
+  promise: Promise<T> | null;
+  controller: AbortController | null;
+  /** Fetcher of the most recently mounted query, used to refetch on invalidation */
+  fetcher: QueryFetcher<T> | null;
+  listeners: Set<() => void>;
+}
+
+/**
+ * How long fetched data is considered fresh before it is revalidated (ms)
+ */
+export const DEFAULT_STALE_TIME = 30_000;
+
+const initialState: QueryState<any> = {
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  isFetching: false,
+  isInvalidated: false,
+};
+
+const cache = new Map<string, QueryEntry<any>>();
+
+export const hashQueryKey = (key: QueryKey) => JSON.stringify(key);
+
+function getEntry<T>(key: QueryKey): QueryEntry<T> {
+  const hash = hashQueryKey(key);
+  let entry = cache.get(hash);
+  if (!entry) {
+    entry = { key, state: initialState, promise: null, controller: null, fetcher: null, listeners: new Set() };
+    cache.set(hash, entry);
+  }
+  return entry;
+}
+
+/**
+ * Replaces the entry state with a new object so subscribers see a new snapshot
+ */
+function setEntryState<T>(entry: QueryEntry<T>, updates: Partial<QueryState<T>>) {
+  entry.state = { ...entry.state, ...updates };
+  entry.listeners.forEach((listener) => listener());
+}
+
+function isPrefixOf(prefix: QueryKey, key: QueryKey) {
+  return prefix.length <= key.length && prefix.every((part, index) => hashQueryKey([part]) === hashQueryKey([key[index]]));
+}
+
+export function getQueryState<T>(key: QueryKey): QueryState<T> {
+  return (cache.get(hashQueryKey(key))?.state as QueryState<T> | undefined) ?? initialState;
+}
+
+export function getQueryData<T>(key: QueryKey): T | undefined {
+  return getQueryState<T>(key).data;
+}
+
+/**
+ * Subscribes to state changes of a key
+ * Returns an unsubscribe function; when the last subscriber leaves, a fetch in flight is cancelled
+ */
+export function subscribeQuery(key: QueryKey, listener: () => void) {
+  const entry = getEntry(key);
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+    if (entry.listeners.size === 0) {
+      entry.controller?.abort();
+    }
+  };
+}
+
+/**
+ * Remembers the fetcher for a key so invalidation can refetch it
+ */
+export function registerQueryFetcher<T>(key: QueryKey, fetcher: QueryFetcher<T>) {
+  getEntry<T>(key).fetcher = fetcher;
+}
+
+/**
+ * Whether a key has never been fetched, was invalidated or is older than staleTime
+ */
+export function isQueryStale(key: QueryKey, staleTime: number = DEFAULT_STALE_TIME) {
+  const { updatedAt, isInvalidated } = getQueryState(key);
+  return updatedAt === 0 || isInvalidated || Date.now() - updatedAt > staleTime;
+}
+
+/**
+ * Fetches a key and caches the result
+ * While a fetch for the key is in flight, callers receive the same promise instead of a new request.
+ * Existing data is kept until the new data arrives.
+ * A cancelled fetch leaves the entry invalidated without an error, so it refetches on next use.
+ */
+export function fetchQuery<T>(key: QueryKey, fetcher: QueryFetcher<T>): Promise<T> {
+  const entry = getEntry<T>(key);
+  if (entry.promise && !entry.controller?.signal.aborted) {
+    return entry.promise;
+  }
+
+  const controller = new AbortController();
+  const promise = fetcher({ signal: controller.signal })
+    .then((data) => {
+      // The cache may have been cleared (e.g. on logout) while the request was in flight
+      if (entry.promise === promise) {
+        setEntryState(entry, { data, error: null, updatedAt: Date.now(), isInvalidated: false });
+      }
+      return data;
+    })
+    .catch((error: ApiError) => {
+      if (entry.promise === promise) {
+        setEntryState(entry, isAbortError(error) ? { isInvalidated: true } : { error });
+      }
+      throw error;
+    })
+    .finally(() => {
+      if (entry.promise === promise) {
+        entry.promise = null;
+        entry.controller = null;
+        setEntryState(entry, { isFetching: false });
+      }
+    });
+
+  entry.promise = promise;
+  entry.controller = controller;
+  // A previous error is cleared so retries render as loading again
+  setEntryState(entry, { isFetching: true, error: null });
+  return promise;
+}
+
+/**
+ * Writes data for a key directly, e.g. after a mutation returns the updated entity
+ */
+export function setQueryData<T>(key: QueryKey, updater: T | ((previous: T | undefined) => T)) {
+  const entry = getEntry<T>(key);
+  const data =
+    typeof updater === "function" ? (updater as (previous: T | undefined) => T)(entry.state.data) : updater;
+  setEntryState(entry, { data, error: null, updatedAt: Date.now(), isInvalidated: false });
+}
+
+/**
+ * Marks every key starting with the prefix as stale
+ * Keys with mounted queries are refetched right away; the rest refetch on next use.
+ */
+export function invalidateQueries(prefix: QueryKey) {
+  cache.forEach((entry) => {
+    if (!isPrefixOf(prefix, entry.key)) {
+      return;
+    }
+
+    setEntryState(entry, { isInvalidated: true });
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      fetchQuery(entry.key, entry.fetcher).catch(() => {
+        // The error is stored on the entry for mounted queries to render
+      });
+    }
+  });
+}
+
+/**
+ * Drops all cached data, e.g. when the signed-in user or organization changes
+ */
+export function clearQueryCache() {
+  cache.forEach((entry, hash) => {
+    entry.controller?.abort();
+    entry.promise = null;
+    entry.controller = null;
+    if (entry.listeners.size > 0) {
+      setEntryState(entry, initialState);
+    } else {
+      cache.delete(hash);
+    }
+  });
+}
+
+// Never show one user's data to the next user on this device
+useAuthStore.subscribe((state, previousState) => {
+  if (previousState.isAuthenticated && !state.isAuthenticated) {
+    clearQueryCache();
+  }
+});
+
+// Nor one organization's data in the next
+onOrganizationTeardown(clearQueryCache);
+
+// Responses are fetched in the active language, so mounted queries refetch in the new one
+useLocaleStore.subscribe((state, previousState) => {
+  if (state.language !== previousState.language) {
+    clearQueryCache();
+  }
+});
@@ -0,0 +1,44 @@
+/**
+ * Query cache keys per domain
+ * Nested keys share a prefix with their parent, so invalidating
+ * queryKeys.services.detail(id) also invalidates that service's tags and pricing.
+ */
+export const queryKeys = {
+  services: {
+    all: ["services"] as const,
+    list: () => ["services", "list"] as const,
+    modes: () => ["services", "modes"] as const,
+    detail: (serviceId: string) => ["services", "detail", serviceId] as const,
+    tags: (serviceId: string) => ["services", "detail", serviceId, "tags"] as const,
+    pricing: (serviceId: string) => ["services", "detail", serviceId, "pricing"] as const,
+  },
+  branches: {
+    all: ["branches"] as const,
+    list: () => ["branches", "list"] as const,
+    detail: (branchId: string) => ["branches", "detail", branchId] as const,
+    services: (branchId: string) => ["branches", "detail", branchId, "services"] as const,
+    staffs: (branchId: string) => ["branches", "detail", branchId, "staffs"] as const,
+  },
+  reference: {
+    countries: () => ["reference", "countries"] as const,
+  },
+  twoFactor: {
+    status: () => ["twoFactor", "status"] as const,
+  },
+  sessions: {
+    list: () => ["sessions", "list"] as const,
+  },
+  subscriptions: {
+    all: ["subscriptions"] as const,
+    plans: () => ["subscriptions", "plans"] as const,
+  },
+  staff: {
+    all: ["staff"] as const,
+    list: () => ["staff", "list"] as const,
+    organizationPermissions: () => ["staff", "organizationPermissions"] as const,
+    detail: (organizationStaffId: string) => ["staff", "detail", organizationStaffId] as const,
+  },
+  roleTemplates: {
+    list: () => ["roleTemplates", "list"] as const,
+  },
+};
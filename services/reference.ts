@@ -0,0 +1,8 @@
+/**
+ * Reference data endpoints
+ */
+import { api, RequestOptions } from "./api";
+import { Country } from "./types";
+
+export const countries = async (options?: RequestOptions) =>
+  (await api.get<Country[]>("/countries", { ...options, requiresAuth: false })).data;
@@ -0,0 +1,265 @@
+/**
+ * Loader for authenticated file resources (service thumbnails, shared files)
+ * A stored file never changes under its system name, so each file is downloaded once and
+ * cached on disk under a name derived from the system name, without revalidation.
+ * The cache is capped by total size and evicts the least recently used files first.
+ * Concurrent loads of the same file share one download.
+ * On web there is no file system; files are kept as data URIs in memory, under the same cap.
+ * UI bindings live in components/AuthImage.tsx.
+ */
+import { useAuthStore } from "@/store/authStore";
+import { Directory, File, Paths } from "expo-file-system";
+import { Platform } from "react-native";
+import { RequestOptions } from "./api";
+import { AbortError } from "./errors";
+import { resource } from "./files";
+
+interface CacheEntry {
+  /** File name in the cache directory on native, data URI on web */
+  location: string;
+  size: number;
+}
+
+/**
+ * Maximum total size of cached files (bytes)
+ */
+export const DEFAULT_RESOURCE_CACHE_SIZE = 50 * 1024 * 1024;
+
+const isWeb = Platform.OS === "web";
+const INDEX_FILE_NAME = "index.json";
+
+let maxCacheSize = DEFAULT_RESOURCE_CACHE_SIZE;
+
+// Ordered from least to most recently used
+const entries = new Map<string, CacheEntry>();
+const pending = new Map<string, Promise<string>>();
+let indexLoaded = isWeb;
+// Incremented when the cache is cleared so downloads started before are not cached
+let generation = 0;
+
+/**
+ * Changes the cache size cap; entries over the new cap are evicted on the next write
+ */
+export function configureResourceCache(config: { maxSize: number }) {
+  maxCacheSize = config.maxSize;
+}
+
+const getCacheDirectory = () => new Directory(Paths.cache, "resources");
+
+/**
+ * FNV-1a hash, used to turn a system name into a safe, fixed-length file name
+ */
+function hashSystemName(systemName: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < systemName.length; i++) {
+    hash ^= systemName.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+function getCacheFileName(systemName: string) {
+  const extension = /\.[a-zA-Z0-9]{1,5}$/.exec(systemName)?.[0] ?? "";
+  const safeName = systemName.replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, 48);
+  return `${safeName}-${hashSystemName(systemName)}${extension.toLowerCase()}`;
+}
+
+function getEntryUri(entry: CacheEntry) {
+  return isWeb ? entry.location : new File(getCacheDirectory(), entry.location).uri;
+}
+
+/**
+ * Restores the LRU order persisted by the previous session
+ * Entries whose file was removed (e.g. the OS cleared the cache) are dropped.
+ */
+async function loadIndex() {
+  if (indexLoaded) {
+    return;
+  }
+  indexLoaded = true;
+
+  try {
+    const directory = getCacheDirectory();
+    directory.create({ idempotent: true, intermediates: true });
+
+    const indexFile = new File(directory, INDEX_FILE_NAME);
+    if (!indexFile.exists) {
+      return;
+    }
+
+    const persisted: [string, CacheEntry][] = JSON.parse(await indexFile.text());
+    persisted.forEach(([systemName, entry]) => {
+      if (!entries.has(systemName) && new File(directory, entry.location).exists) {
+        entries.set(systemName, entry);
+      }
+    });
+  } catch (error) {
+    console.warn("Failed to load the resource cache index:", error);
+  }
+}
+
+function saveIndex() {
+  if (isWeb) {
+    return;
+  }
+
+  try {
+    new File(getCacheDirectory(), INDEX_FILE_NAME).write(JSON.stringify([...entries]));
+  } catch (error) {
+    console.warn("Failed to save the resource cache index:", error);
+  }
+}
+
+function deleteEntryFile(entry: CacheEntry) {
+  if (isWeb) {
+    return;
+  }
+
+  try {
+    const file = new File(getCacheDirectory(), entry.location);
+    if (file.exists) {
+      file.delete();
+    }
+  } catch (error) {
+    console.warn("Failed to delete a cached resource:", error);
+  }
+}
+
+function touch(systemName: string, entry: CacheEntry) {
+  entries.delete(systemName);
+  entries.set(systemName, entry);
+}
+
+/**
+ * Evicts least recently used entries until the cache fits its cap
+ * The most recently used entry is always kept, even if it alone exceeds the cap.
+ */
+function evict() {
+  let totalSize = 0;
+  entries.forEach((entry) => {
+    totalSize += entry.size;
+  });
+
+  for (const [systemName, entry] of entries) {
+    if (totalSize <= maxCacheSize || entries.size <= 1) {
+      break;
+    }
+    entries.delete(systemName);
+    deleteEntryFile(entry);
+    totalSize -= entry.size;
+  }
+}
+
+function readAsDataUri(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error("Failed to read resource"));
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function download(systemName: string, options?: RequestOptions): Promise<string> {
+  const startedGeneration = generation;
+  const blob = await resource(systemName, options);
+  const dataUri = await readAsDataUri(blob);
+
+  if (startedGeneration !== generation) {
+    return dataUri;
+  }
+
+  let entry: CacheEntry;
+  if (isWeb) {
+    entry = { location: dataUri, size: dataUri.length };
+  } else {
+    const location = getCacheFileName(systemName);
+    const directory = getCacheDirectory();
+    directory.create({ idempotent: true, intermediates: true });
+    const file = new File(directory, location);
+    file.write(dataUri.slice(dataUri.indexOf(",") + 1), { encoding: "base64" });
+    entry = { location, size: file.size ?? blob.size };
+  }
+
+  touch(systemName, entry);
+  evict();
+  saveIndex();
+  return getEntryUri(entry);
+}
+
+/**
+ * URI of a file that is already cached, or null
+ * Lets images render cached files on their first frame instead of showing a placeholder.
+ */
+export function getCachedResourceUri(systemName: string): string | null {
+  const entry = entries.get(systemName);
+  return entry ? getEntryUri(entry) : null;
+}
+
+/**
+ * Loads a file resource and returns a URI an <Image> can display
+ * An aborted signal only rejects this call; the shared download continues so the file still gets cached.
+ * @param systemName - The file's system name, e.g. service.thumbNail.systemName
+ */
+export async function loadResource(systemName: string, options?: RequestOptions): Promise<string> {
+  await loadIndex();
+
+  const entry = entries.get(systemName);
+  if (entry) {
+    // The new order is persisted with the next download
+    touch(systemName, entry);
+    return getEntryUri(entry);
+  }
+
+  let promise = pending.get(systemName);
+  if (!promise) {
+    // The shared download is not tied to the first caller's signal
+    promise = download(systemName, { ...options, signal: undefined }).finally(() => {
+      pending.delete(systemName);
+    });
+    pending.set(systemName, promise);
+  }
+
+  return options?.signal ? abortable(promise, options.signal) : promise;
+}
+
+/**
+ * Rejects with the signal's AbortError without cancelling the shared promise
+ */
+function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new AbortError());
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/**
+ * Removes every cached file, e.g. when the signed-in user changes
+ */
+export function clearResourceCache() {
+  generation++;
+  entries.clear();
+  if (isWeb) {
+    return;
+  }
+
+  try {
+    const directory = getCacheDirectory();
+    if (directory.exists) {
+      directory.delete();
+    }
+  } catch (error) {
+    console.warn("Failed to clear the resource cache:", error);
+  }
+}
+
+// Files belong to the signed-in organization; never show them to the next user on this device
+useAuthStore.subscribe((state, previousState) => {
+  if (previousState.isAuthenticated && !state.isAuthenticated) {
+    clearResourceCache();
+  }
+});
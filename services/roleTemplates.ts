@@ -0,0 +1,33 @@
+/**
+ * Permission role templates of the current organization
+ * Applying a template replaces an account's permissions with the template's and records the account
+ * as a member, so everyone on a template can be re-synced after the template changes.
+ * Open backend dependency: only the mock backend (services/mock) implements the role-template endpoints so far.
+ */
+import { api, RequestOptions } from "./api";
+import { RoleTemplate } from "./types";
+
+export interface RoleTemplateInput {
+  name: string;
+  description: string | null;
+  /** Permission names */
+  permissions: string[];
+}
+
+export const list = async (options?: RequestOptions) =>
+  (await api.get<RoleTemplate[]>("/:locale/on/organization/role-templates", options)).data;
+
+export const create = async (input: RoleTemplateInput) =>
+  (await api.post<RoleTemplate>("/:locale/on/organization/role-template", input)).data;
+
+export const update = async (templateId: string, input: RoleTemplateInput) =>
+  (await api.patch<RoleTemplate>(`/:locale/on/organization/role-template/${templateId}`, input)).data;
+
+export const remove = async (templateId: string) =>
+  (await api.delete(`/:locale/on/organization/role-template/${templateId}`)).data;
+
+/**
+ * Sets the accounts' permissions to exactly the template's
+ */
+export const apply = async (templateId: string, accountIds: string[]) =>
+  (await api.post<RoleTemplate>(`/:locale/on/organization/role-template/${templateId}/apply`, { accountIds })).data;
@@ -0,0 +1,206 @@
+/**
+ * Zod schemas for API payloads
+ * Each schema is checked against its shared type so the two cannot drift apart.
+ * Objects are loose: unknown fields from the server are kept, missing or mistyped ones fail.
+ */
+import { z } from "zod";
+import {
+  AcceptStatus,
+  BookedService,
+  Branch,
+  FileResource,
+  Invoice,
+  InvoiceItem,
+  InvoiceService,
+  Organization,
+  RevenueBreakdown,
+  Service,
+  ServiceMode,
+  UserProfile,
+} from "./types";
+
+export const fileResourceSchema: z.ZodType<FileResource> = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  systemName: z.string(),
+  fileSize: z.number(),
+  mimeType: z.string(),
+  fileSource: z.string(),
+  userId: z.string(),
+  deleted: z.boolean(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+export const userProfileSchema: z.ZodType<UserProfile> = z.looseObject({
+  id: z.string(),
+  firstName: z.string(),
+  middleName: z.string(),
+  lastName: z.string(),
+  email: z.string(),
+  phone: z.number(),
+  country: z.string().nullable(),
+  userNumber: z.string(),
+  gender: z.number(),
+  birthDate: z.string(),
+  verified: z.boolean(),
+  active: z.boolean(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+export const organizationSchema: z.ZodType<Organization> = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  isActive: z.boolean(),
+  isServiceProvider: z.boolean(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+export const branchSchema: z.ZodType<Branch> = z.looseObject({
+  id: z.string(),
+  organizationId: z.string(),
+  isMain: z.boolean(),
+  name: z.string(),
+  longitude: z.number(),
+  latitude: z.number(),
+  accuracy: z.number().nullable(),
+  contact: z.number(),
+  description: z.string(),
+  email: z.string(),
+  stateProvince: z.string(),
+  city: z.string(),
+  location: z.string(),
+  slotsId: z.string().nullable(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+export const serviceModeSchema: z.ZodType<ServiceMode> = z.looseObject({
+  id: z.number(),
+  name: z.string(),
+  isActive: z.boolean(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+const serviceFields = {
+  id: z.string(),
+  organizationId: z.string(),
+  name: z.string(),
+  description: z.string(),
+  isPublic: z.boolean(),
+  isDeleted: z.boolean(),
+  modeId: z.number(),
+  staffId: z.string(),
+  thumbNailId: z.string().nullable(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+};
+
+export const serviceSchema: z.ZodType<Service> = z.looseObject({
+  ...serviceFields,
+  thumbNail: fileResourceSchema.nullable(),
+  mode: serviceModeSchema,
+});
+
+export const invoiceServiceSchema: z.ZodType<InvoiceService> = z.looseObject({
+  ...serviceFields,
+  thumbNail: fileResourceSchema.nullable().optional(),
+});
+
+export const bookedServiceSchema: z.ZodType<BookedService> = z.looseObject({
+  id: z.string(),
+  bookCode: z.string(),
+  description: z.string(),
+  organizationId: z.string(),
+  branchId: z.string(),
+  customerId: z.string(),
+  staffId: z.string().nullable(),
+  serviceId: z.string(),
+  priceId: z.string().nullable(),
+  bookedDate: z.number(),
+  acceptedDate: z.number().nullable(),
+  isAccepted: z.boolean(),
+  isActive: z.boolean(),
+  isHomeWorkRequest: z.boolean(),
+  isCancelled: z.boolean(),
+  isDeclined: z.boolean(),
+  isCompleted: z.boolean(),
+  completedDate: z.number().nullable(),
+  organization: organizationSchema.optional(),
+  service: serviceSchema,
+  branch: branchSchema,
+  customer: userProfileSchema,
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+export const acceptStatusSchema: z.ZodType<AcceptStatus> = z.looseObject({
+  id: z.string(),
+  organizationId: z.string(),
+  branchId: z.string(),
+  bookServiceId: z.string(),
+  staffId: z.string(),
+  serviceId: z.string(),
+  isAccepted: z.boolean(),
+  isCancelled: z.boolean(),
+  isCustomerCancelled: z.boolean(),
+  isCompleted: z.boolean(),
+  organization: organizationSchema.optional(),
+  branch: branchSchema.optional(),
+  service: serviceSchema.optional(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+export const invoiceItemSchema: z.ZodType<InvoiceItem> = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  quantity: z.number(),
+  amount: z.number(),
+  netAmount: z.number(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+export const invoiceSchema: z.ZodType<Invoice> = z.looseObject({
+  id: z.string(),
+  customerId: z.string(),
+  bookServiceId: z.string(),
+  serviceId: z.string(),
+  organizationId: z.string(),
+  branchId: z.string(),
+  staffId: z.string(),
+  invoiceNumber: z.string(),
+  invoiceDate: z.string(),
+  discount: z.number(),
+  branch: branchSchema,
+  organization: organizationSchema,
+  customer: userProfileSchema,
+  service: invoiceServiceSchema,
+  staff: userProfileSchema.optional(),
+  isPublished: z.boolean(),
+  isCustomerPaid: z.boolean(),
+  isPaymentReceived: z.boolean(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  deletedAt: z.number().nullable(),
+});
+
+export const revenueBreakdownSchema: z.ZodType<RevenueBreakdown> = z.looseObject({
+  organizationId: z.string(),
+  organizationName: z.string(),
+  branchId: z.string(),
+  branchName: z.string(),
+  serviceId: z.string(),
+  serviceName: z.string(),
+  customerId: z.string(),
+  customerFirstName: z.string(),
+  customerLastName: z.string(),
+  totalInvoices: z.number(),
+  totalRevenue: z.number(),
+  averageRevenuePerInvoice: z.number(),
+});
@@ -0,0 +1,83 @@
+/**
+ * Service catalog endpoints (services, tags, pricing and service modes)
+ */
+import { api, RequestOptions } from "./api";
+import { storeServices, storeServiceWrite } from "./entities";
+import { Service, ServiceDetails, ServiceMode, ServicePricing, ServiceStats, ServiceTag } from "./types";
+
+export interface ServiceInput {
+  name: string;
+  description: string;
+  thumbNailId: string | null;
+  modeId: number;
+}
+
+export interface PricingInput {
+  name: string;
+  description: string;
+  amount: number;
+  discount: number;
+}
+
+/**
+ * All services of the current organization
+ */
+export const list = async (options?: RequestOptions) =>
+  storeServices((await api.get<Service[]>("/:locale/on/services", options)).data);
+
+/**
+ * A single service with the staff member who created it
+ */
+export const get = async (serviceId: string, options?: RequestOptions) =>
+  storeServices((await api.get<ServiceDetails>(`/:locale/on/service/${serviceId}`, options)).data);
+
+export const create = async (input: ServiceInput) =>
+  storeServices((await api.post<Service>("/:locale/on/service", input)).data);
+
+export const update = async (serviceId: string, input: ServiceInput) =>
+  storeServiceWrite(serviceId, input, (await api.patch<Service>(`/:locale/on/service/${serviceId}`, input)).data);
+
+/**
+ * Publishes or unpublishes a service
+ */
+export const setVisibility = async (serviceId: string, isPublic: boolean) =>
+  storeServiceWrite(
+    serviceId,
+    { isPublic },
+    (await api.post<Service>("/:locale/on/service/state", { isPublic, serviceId })).data
+  );
+
+/**
+ * Available service modes (e.g. in-shop, home service)
+ */
+export const modes = async (options?: RequestOptions) =>
+  (await api.get<ServiceMode[]>("/:locale/service/modes", options)).data;
+
+/**
+ * Service counts for an organization
+ */
+export const stats = async (organizationId: string, options?: RequestOptions) =>
+  (await api.get<ServiceStats>(`/:locale/on/organization/${organizationId}/service/stats`, options)).data;
+
+export const tags = async (serviceId: string, options?: RequestOptions) =>
+  (await api.get<ServiceTag[]>(`/:locale/on/service/${serviceId}/tags`, options)).data;
+
+export const addTags = async (serviceId: string, tagNames: string[]) =>
+  (await api.post("/:locale/on/service/tags", { serviceId, tags: tagNames })).data;
+
+export const updateTag = async (tagId: string, tag: string) =>
+  (await api.patch(`/:locale/on/service/tag/${tagId}`, { tag })).data;
+
+export const deleteTag = async (tagId: string) => (await api.delete(`/:locale/on/service/tag/${tagId}`)).data;
+
+export const pricing = async (serviceId: string, options?: RequestOptions) =>
+  (await api.get<ServicePricing[]>(`/:locale/on/service/${serviceId}/pricing`, options)).data;
+
+export const createPricing = async (serviceId: string, input: PricingInput) =>
+  (await api.post(`/:locale/on/create/service/${serviceId}/pricing`, input)).data;
+
+export const updatePricing = async (serviceId: string, pricingId: string, input: PricingInput) =>
+  (await api.patch(`/:locale/on/service/${serviceId}/pricing/${pricingId}`, input)).data;
+
+export const deletePricing = async (serviceId: string, pricingId: string) =>
+  (await api.delete(`/:locale/on/service/${serviceId}/pricing/${pricingId}`)).data;
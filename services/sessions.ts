@@ -0,0 +1,22 @@
+/**
+ * Devices the signed-in user is logged in on
+ * Revoking a session invalidates its tokens; that device is signed out on its next request
+ * (see isSessionRevokedError).
+ */
+import { api, RequestOptions } from "./api";
+import { Session } from "./types";
+
+/**
+ * Active sessions of the signed-in user, the current one included
+ */
+export const list = async (options?: RequestOptions) => (await api.get<Session[]>("/:locale/auth/sessions", options)).data;
+
+/**
+ * Signs one other device out
+ */
+export const revoke = async (sessionId: string) => (await api.delete(`/:locale/auth/sessions/${sessionId}`)).data;
+
+/**
+ * Signs every device out except this one
+ */
+export const revokeOthers = async () => (await api.post("/:locale/auth/sessions/revoke-others")).data;
@@ -0,0 +1,52 @@
+/**
+ * WebSocket connections to the server's /skt/ws endpoints
+ */
+import { onOrganizationTeardown } from "@/store/organizationScope";
+import { getTransport } from "./api";
+import { monitorSocket } from "./networkLog";
+
+// Connections are opened for the current organization, so they close when it changes
+const openSockets = new Set<WebSocket>();
+
+onOrganizationTeardown(() => {
+  openSockets.forEach((ws) => ws.close());
+  openSockets.clear();
+});
+
+/**
+ * WebSocket URL of a /skt/ws endpoint, or null when API_DOMAIN is not configured
+ * @param path - Path below /skt/ws, including any query string
+ */
+export const socketUrl = (path: string) => {
+  const { baseUrl } = getTransport();
+  if (!baseUrl) {
+    return null;
+  }
+
+  // Convert http/https to ws/wss; assume wss when no protocol is given
+  let wsUrl = baseUrl;
+  if (wsUrl.startsWith("https://")) {
+    wsUrl = wsUrl.replace("https://", "wss://");
+  } else if (wsUrl.startsWith("http://")) {
+    wsUrl = wsUrl.replace("http://", "ws://");
+  } else {
+    wsUrl = `wss://${wsUrl}`;
+  }
+
+  return `${wsUrl}/skt/ws${path}`;
+};
+
+/**
+ * Opens a /skt/ws endpoint through the current transport, or returns null when API_DOMAIN is not configured
+ */
+export const openSocket = (path: string): WebSocket | null => {
+  const url = socketUrl(path);
+  if (!url) {
+    return null;
+  }
+  const { openSocket: openTransportSocket } = getTransport();
+  const ws = monitorSocket(openTransportSocket ? openTransportSocket(url) : new WebSocket(url), url);
+  openSockets.add(ws);
+  ws.addEventListener("close", () => openSockets.delete(ws));
+  return ws;
+};
@@ -0,0 +1,93 @@
+/**
+ * Organization staff endpoints (staff members, accounts and permissions)
+ */
+import { api, RequestOptions } from "./api";
+import { storeStaff } from "./entities";
+import { Account, OrganizationStaff, Permission, StaffBranch } from "./types";
+
+export interface StaffInput {
+  firstName: string;
+  middleName: string | null;
+  lastName: string;
+  email: string;
+  phone: number;
+  birthDate: string;
+  gender: number | null;
+}
+
+/**
+ * All staff members of the current organization
+ */
+export const list = async (options?: RequestOptions) =>
+  storeStaff((await api.get<OrganizationStaff[]>("/:locale/on/staffs", options)).data);
+
+export const get = async (organizationStaffId: string, options?: RequestOptions) =>
+  storeStaff((await api.get<OrganizationStaff>(`/:locale/on/staff/${organizationStaffId}/details`, options)).data);
+
+export const create = async (input: StaffInput) => (await api.post("/:locale/on/create/staff", input)).data;
+
+export const branches = async (organizationStaffId: string, options?: RequestOptions) =>
+  (await api.get<StaffBranch[]>(`/:locale/on/staff/${organizationStaffId}/branches`, options)).data;
+
+/**
+ * The staff member's account in the current organization
+ */
+export const account = async (userId: string, options?: RequestOptions) =>
+  (await api.get<Account>(`/:locale/on/organization/staff/${userId}/account`, options)).data;
+
+/**
+ * Locks or unlocks a staff member's organization account
+ */
+export const lockAccount = async (accountId: string, locked: boolean, reasons: string) =>
+  (await api.patch("/:locale/on/organization/staff/account/lock", { accountId, reasons, locked })).data;
+
+/**
+ * Every permission that can be assigned in the organization
+ */
+export const organizationPermissions = async (options?: RequestOptions) =>
+  (await api.get<Permission[]>("/:locale/on/organization/permissions", options)).data;
+
+/**
+ * Names of the permissions assigned to an account
+ */
+export const permissions = async (accountId: string, options?: RequestOptions) =>
+  (await api.get<string[]>(`/:locale/on/user/permission/${accountId}`, options)).data;
+
+export const assignPermissions = async (accountId: string, permissionIds: string[]) =>
+  (await api.post(`/:locale/on/assign/staff/${accountId}/permissions`, { permissionId: permissionIds })).data;
+
+export const removePermission = async (accountId: string, permissionId: string) =>
+  (await api.delete(`/:locale/on/remove/staff/${accountId}/permission/${permissionId}`)).data;
+
+export interface PermissionChangeFailure {
+  permission: Permission;
+  error: Error;
+}
+
+/**
+ * Adds and removes several permissions at once
+ * Additions go in one request and removals run in parallel; a failed change does not stop the others,
+ * so the result lists every change that did not apply.
+ */
+export const changePermissions = async (
+  accountId: string,
+  changes: { add: Permission[]; remove: Permission[] }
+): Promise<PermissionChangeFailure[]> => {
+  const [assigned, ...removed] = await Promise.allSettled([
+    changes.add.length > 0
+      ? assignPermissions(accountId, changes.add.map((permission) => permission.id))
+      : Promise.resolve(),
+    ...changes.remove.map((permission) => removePermission(accountId, permission.id)),
+  ]);
+
+  const failures: PermissionChangeFailure[] = [];
+  if (assigned.status === "rejected") {
+    failures.push(...changes.add.map((permission) => ({ permission, error: assigned.reason })));
+  }
+  removed.forEach((result, index) => {
+    if (result.status === "rejected") {
+      failures.push({ permission: changes.remove[index], error: result.reason });
+    }
+  });
+  return failures;
+};
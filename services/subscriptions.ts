@@ -0,0 +1,8 @@
+/**
+ * Subscription plan endpoints
+ */
+import { api, RequestOptions } from "./api";
+import { SubscriptionPlan } from "./types";
+
+export const plans = async (options?: RequestOptions) =>
+  (await api.get<SubscriptionPlan[]>("/:locale/on/subscription/plans", options)).data;
@@ -0,0 +1,50 @@
+/**
+ * Two-step verification endpoints of the signed-in user
+ * Enrolling is two requests: enroll hands out a new secret, and confirm turns verification on once
+ * the user proves their authenticator app has it. The login challenge is in auth.verifyTwoFactor.
+ */
+import { api, RequestOptions } from "./api";
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  /** Unused backup codes left */
+  backupCodesRemaining: number;
+}
+
+export interface TwoFactorEnrollment {
+  /** Base32 secret for manual entry in an authenticator app */
+  secret: string;
+  /** otpauth:// URI with the secret, shown as a QR code */
+  otpauthUri: string;
+}
+
+export interface BackupCodesResponse {
+  /** One-time codes for signing in without the authenticator app, shown only once */
+  backupCodes: string[];
+}
+
+export const status = async (options?: RequestOptions) =>
+  (await api.get<TwoFactorStatus>("/:locale/auth/two-factor", options)).data;
+
+/**
+ * Starts enrollment with a new secret; a previous unconfirmed secret is replaced
+ */
+export const enroll = async () => (await api.post<TwoFactorEnrollment>("/:locale/auth/two-factor/enroll")).data;
+
+/**
+ * Turns two-step verification on with a code from the authenticator app and issues backup codes
+ */
+export const confirm = async (code: string) =>
+  (await api.post<BackupCodesResponse>("/:locale/auth/two-factor/confirm", { code })).data;
+
+/**
+ * Replaces all backup codes; requires the account password
+ */
+export const regenerateBackupCodes = async (password: string) =>
+  (await api.post<BackupCodesResponse>("/:locale/auth/two-factor/backup-codes", { password })).data;
+
+/**
+ * Turns two-step verification off; requires the account password
+ */
+export const disable = async (password: string) =>
+  (await api.post("/:locale/auth/two-factor/disable", { password })).data;
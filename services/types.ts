@@ -0,0 +1,442 @@
+/**
+ * Shared domain types for API payloads
+ * Timestamps are unix epochs as returned by the server
+ */
+
+/**
+ * Uploaded file metadata (service thumbnails, shared files)
+ */
+export interface FileResource {
+  id: string;
+  name: string;
+  systemName: string;
+  fileSize: number;
+  mimeType: string;
+  fileSource: string;
+  userId: string;
+  deleted: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Public profile of a user (staff member or customer)
+ */
+export interface UserProfile {
+  id: string;
+  firstName: string;
+  middleName: string;
+  lastName: string;
+  email: string;
+  phone: number;
+  country: string | null;
+  userNumber: string;
+  gender: number; // 1 = male, 2 = female, 3 = transgender
+  birthDate: string;
+  verified: boolean;
+  active: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Organization {
+  id: string;
+  name: string;
+  description: string;
+  isActive: boolean;
+  isServiceProvider: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A user's account within an organization
+ */
+export interface Account {
+  id: string;
+  userId: string;
+  active: boolean;
+  isLocked: boolean;
+  organization?: Organization;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Branch {
+  id: string;
+  organizationId: string;
+  isMain: boolean;
+  name: string;
+  longitude: number;
+  latitude: number;
+  accuracy: number | null;
+  contact: number;
+  description: string;
+  email: string;
+  stateProvince: string;
+  city: string;
+  location: string;
+  slotsId: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Country {
+  id: string;
+  name: string;
+  short: string;
+  formats: string[];
+}
+
+export interface ServiceMode {
+  id: number;
+  name: string;
+  isActive: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Service {
+  id: string;
+  organizationId: string;
+  name: string;
+  description: string;
+  isPublic: boolean;
+  isDeleted: boolean;
+  modeId: number;
+  staffId: string;
+  thumbNailId: string | null;
+  thumbNail: FileResource | null;
+  mode: ServiceMode;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A service with the staff member who created it
+ */
+export interface ServiceDetails extends Service {
+  staff: UserProfile;
+}
+
+export interface ServiceTag {
+  id: string;
+  serviceId: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ServicePricing {
+  id: string;
+  name: string;
+  description: string;
+  amount: number;
+  discount: number;
+  organizationId: string;
+  serviceId: string;
+  isDeleted: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ServiceStats {
+  organizationId: string;
+  organizationName: string;
+  totalServices: number;
+  totalPublicServices: number;
+  totalDraftServices: number;
+  totalDeletedServices: number;
+}
+
+/**
+ * A service offered by a branch
+ */
+export interface BranchService {
+  id: string;
+  organizationId: string;
+  branchId: string;
+  serviceId: string;
+  isDeleted: boolean;
+  service: Service;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A staff member's membership in the organization
+ */
+export interface OrganizationStaff {
+  id: string;
+  organizationId: string;
+  userId: string;
+  staff: UserProfile;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A staff member assigned to a branch
+ */
+export interface BranchStaff {
+  id: string;
+  organizationId: string;
+  branch_id: string;
+  userId: string;
+  isLocked: boolean;
+  staff: UserProfile;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A branch a staff member is assigned to
+ */
+export interface StaffBranch {
+  id: string;
+  organizationId: string;
+  branch_id: string;
+  userId: string;
+  isLocked: boolean;
+  branch: Branch;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Permission {
+  id: string;
+  name: string;
+  type: string;
+  account: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A customer's booking request for a service
+ */
+export interface BookedService {
+  id: string;
+  bookCode: string;
+  description: string;
+  organizationId: string;
+  branchId: string;
+  customerId: string;
+  staffId: string | null;
+  serviceId: string;
+  priceId: string | null;
+  bookedDate: number;
+  acceptedDate: number | null;
+  isAccepted: boolean;
+  isActive: boolean;
+  isHomeWorkRequest: boolean;
+  isCancelled: boolean;
+  isDeclined: boolean;
+  isCompleted: boolean;
+  completedDate: number | null;
+  organization?: Organization;
+  service: Service;
+  branch: Branch;
+  customer: UserProfile;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * The provider's acceptance of an incoming request
+ */
+export interface AcceptStatus {
+  id: string;
+  organizationId: string;
+  branchId: string;
+  bookServiceId: string;
+  staffId: string;
+  serviceId: string;
+  isAccepted: boolean;
+  isCancelled: boolean;
+  isCustomerCancelled: boolean;
+  isCompleted: boolean;
+  organization?: Organization;
+  branch?: Branch;
+  service?: Service;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface BookingActivity {
+  id: string;
+  description: string;
+  bookServiceId: string;
+  status: string;
+  user_id: string;
+  user: UserProfile;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface SharedFile {
+  id: string;
+  customerId: string;
+  bookServiceId: string;
+  fileId: string;
+  file: FileResource;
+  customer: UserProfile;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface VehicleProfile {
+  id: string;
+  customerId: string;
+  bookServiceId: string;
+  vehicleServiceId: string;
+  isRevoked: boolean;
+  profile: {
+    id: string;
+    userId: string;
+    vehicleIdentificationNumber: string;
+    make: string;
+    model: string;
+    drive: string;
+    year: number;
+    engineType: string;
+    color: string;
+    transmission: string;
+    bodyType: string;
+    fuelType: string;
+    licensePlate: string;
+    lastServiceDate: string;
+    deleted: boolean;
+    createdAt: number;
+    updatedAt: number;
+  };
+  customer: UserProfile;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface InvoiceItem {
+  id: string;
+  name: string;
+  quantity: number;
+  amount: number;
+  netAmount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Invoice line as sent when creating or updating an invoice
+ */
+export interface InvoiceItemInput {
+  name: string;
+  amount: number;
+  quantity: number;
+  totalAmount: number;
+}
+
+/**
+ * A service as embedded in an invoice, which omits its mode
+ */
+export type InvoiceService = Omit<Service, "mode" | "thumbNail"> & {
+  thumbNail?: FileResource | null;
+};
+
+export interface Invoice {
+  id: string;
+  customerId: string;
+  bookServiceId: string;
+  serviceId: string;
+  organizationId: string;
+  branchId: string;
+  staffId: string;
+  invoiceNumber: string;
+  invoiceDate: string;
+  discount: number;
+  branch: Branch;
+  organization: Organization;
+  customer: UserProfile;
+  service: InvoiceService;
+  staff?: UserProfile;
+  isPublished: boolean;
+  isCustomerPaid: boolean;
+  isPaymentReceived: boolean;
+  createdAt: number;
+  updatedAt: number;
+  deletedAt: number | null;
+}
+
+export interface RevenueBreakdown {
+  organizationId: string;
+  organizationName: string;
+  branchId: string;
+  branchName: string;
+  serviceId: string;
+  serviceName: string;
+  customerId: string;
+  customerFirstName: string;
+  customerLastName: string;
+  totalInvoices: number;
+  totalRevenue: number;
+  averageRevenuePerInvoice: number;
+}
+
+export interface SubscriptionPlan {
+  id: string;
+  title: string;
+  subscriptionCode: string;
+  noOfBranches: string;
+  members: string;
+  tadarVisibility: string;
+  teamManagement: boolean;
+  services: string;
+  assistanceSupport: string;
+  reports: boolean;
+  noOfMonth: number;
+  isRenewed: boolean;
+  price: number;
+  active: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A device the signed-in user is logged in on
+ */
+export interface Session {
+  id: string;
+  /** Device name as reported by the app, e.g. "Priya's Galaxy A54" */
+  deviceName: string;
+  /** "ios", "android" or "web" */
+  platform: string;
+  appVersion: string | null;
+  /** Branch the session last switched to */
+  branch: Pick<Branch, "id" | "name"> | null;
+  /** Last request made with this session */
+  lastSeenAt: number;
+  createdAt: number;
+  /** The session making the request */
+  isCurrent: boolean;
+}
+
+/**
+ * A staff account a role template was last applied to
+ */
+export interface RoleTemplateMember {
+  accountId: string;
+  userId: string;
+}
+
+/**
+ * A named set of permissions (e.g. "Front desk") applied to staff accounts in one step
+ */
+export interface RoleTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  /** Permission names the template grants */
+  permissions: string[];
+  members: RoleTemplateMember[];
+  createdAt: number;
+  updatedAt: number;
+}
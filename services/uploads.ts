@@ -0,0 +1,336 @@
+/**
+ * Upload manager
+ * Files are queued in the upload store and uploaded independently of the screen that added them,
+ * so leaving a screen does not cancel its uploads and any screen can observe their progress.
+ * Images are scaled down and compressed per uploadConfig before they are sent; videos are sent as picked.
+ * At most uploadConfig.concurrentUploads files are sent at once, and uploads that fail with a
+ * network or server error are retried with backoff. The queue is persisted and resumes on launch;
+ * the upload endpoint takes a file in one request, so an interrupted upload starts over from the first byte.
+ * Uploads started for a form field (a target) stay in the queue once completed until the form releases them,
+ * so the form can recover the file id after it was left or the app restarted.
+ * React bindings live in hooks/useUploads.ts.
+ */
+import { formatFileSize, uploadConfig } from "@/constants/upload";
+import { useAuthStore } from "@/store/authStore";
+import { UploadTask, useUploadStore } from "@/store/uploadStore";
+import { File } from "expo-file-system";
+import { ImageManipulator, SaveFormat } from "expo-image-manipulator";
+import { Platform } from "react-native";
+import { ApiError, isAbortError, NetworkError, ServerError } from "./errors";
+import { upload } from "./files";
+import { createIdempotencyKey } from "./idempotency";
+
+export interface UploadAsset {
+  uri: string;
+  name?: string | null;
+  mimeType?: string | null;
+  /** Size in bytes, if known */
+  size?: number | null;
+  width?: number | null;
+  height?: number | null;
+  /** Maximum size in bytes after compression (default: from uploadConfig) */
+  maxSize?: number;
+}
+
+const controllers = new Map<string, AbortController>();
+const retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+const waiters = new Map<string, { resolve: (fileId: string) => void; reject: (error: Error) => void }[]>();
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  mp4: "video/mp4",
+  mov: "video/quicktime",
+  avi: "video/avi",
+};
+
+const getTask = (id: string): UploadTask | undefined => useUploadStore.getState().tasks[id];
+
+const updateTask = (id: string, updates: Partial<UploadTask>) => useUploadStore.getState().updateTask(id, updates);
+
+function getMimeType(asset: UploadAsset) {
+  if (asset.mimeType) {
+    return asset.mimeType;
+  }
+  const extension = (asset.name || asset.uri).split(".").pop()?.toLowerCase() ?? "";
+  return MIME_TYPES_BY_EXTENSION[extension] ?? "image/jpeg";
+}
+
+/**
+ * Size of a local file in bytes, or null when it cannot be read (e.g. on web)
+ */
+function getFileSize(uri: string): number | null {
+  if (Platform.OS === "web") {
+    return null;
+  }
+  try {
+    return new File(uri).size ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks a picked file against uploadConfig
+ * Image sizes are checked after compression, so only their type is checked here.
+ * @returns An error message, or null if the file can be uploaded
+ */
+export function validateUpload(asset: UploadAsset): string | null {
+  const mimeType = getMimeType(asset);
+  const name = asset.name || "File";
+
+  if (mimeType.startsWith("video/")) {
+    if (!uploadConfig.allowedVideoTypes.includes(mimeType)) {
+      return `${name} is not a supported video type`;
+    }
+    const maxSize = asset.maxSize ?? uploadConfig.maxVideoSize;
+    const size = asset.size ?? getFileSize(asset.uri);
+    if (size !== null && size > maxSize) {
+      return `${name} exceeds maximum size of ${formatFileSize(maxSize)}`;
+    }
+    return null;
+  }
+
+  // Images are re-encoded as JPEG or PNG, which are always allowed
+  if (!mimeType.startsWith("image/")) {
+    return `${name} is not a supported file type`;
+  }
+  return null;
+}
+
+/**
+ * Adds a file to the upload queue
+ * @param target - Form field the upload belongs to (see UPLOAD_TARGETS), to recover it with useUploadsFor
+ * @returns The upload task id, to observe it with useUpload or wait for it with waitForUpload
+ */
+export function enqueueUpload(asset: UploadAsset, target: string | null = null): string {
+  const mimeType = getMimeType(asset);
+  const task: UploadTask = {
+    id: createIdempotencyKey(),
+    uri: asset.uri,
+    name: asset.name || `upload_${Date.now()}.${mimeType.split("/")[1]}`,
+    mimeType,
+    kind: mimeType.startsWith("video/") ? "video" : "image",
+    width: asset.width ?? null,
+    height: asset.height ?? null,
+    maxSize: asset.maxSize ?? null,
+    isPrepared: false,
+    status: "queued",
+    progress: 0,
+    attempts: 0,
+    fileId: null,
+    error: null,
+    target,
+    createdAt: Date.now(),
+  };
+
+  useUploadStore.getState().addTask(task);
+  processQueue();
+  return task.id;
+}
+
+/**
+ * Sends a failed upload again, resetting its retry count
+ */
+export function retryUpload(id: string) {
+  const task = getTask(id);
+  if (!task || task.status !== "failed") {
+    return;
+  }
+  updateTask(id, { status: "queued", progress: 0, attempts: 0, error: null });
+  processQueue();
+}
+
+/**
+ * Cancels an upload and removes it from the queue
+ * Callers waiting for it with waitForUpload are rejected.
+ */
+export function cancelUpload(id: string) {
+  controllers.get(id)?.abort();
+  controllers.delete(id);
+  clearTimeout(retryTimers.get(id));
+  retryTimers.delete(id);
+  useUploadStore.getState().removeTask(id);
+  settleWaiters(id, null, new Error("Upload was cancelled"));
+  processQueue();
+}
+
+/**
+ * Cancels and removes every upload of a form field, e.g. once the form has been saved
+ */
+export function releaseUploads(target: string) {
+  Object.values(useUploadStore.getState().tasks)
+    .filter((task) => task.target === target)
+    .forEach((task) => cancelUpload(task.id));
+}
+
+/**
+ * Resolves with the stored file id once the upload completes
+ * Rejects when the upload fails for good or is cancelled.
+ */
+export function waitForUpload(id: string): Promise<string> {
+  const task = getTask(id);
+  if (!task) {
+    return Promise.reject(new Error("Upload not found"));
+  }
+  if (task.status === "completed" && task.fileId) {
+    return Promise.resolve(task.fileId);
+  }
+  if (task.status === "failed") {
+    return Promise.reject(new Error(task.error ?? "Upload failed"));
+  }
+
+  return new Promise((resolve, reject) => {
+    waiters.set(id, [...(waiters.get(id) ?? []), { resolve, reject }]);
+  });
+}
+
+function settleWaiters(id: string, fileId: string | null, error: Error | null) {
+  const pending = waiters.get(id) ?? [];
+  waiters.delete(id);
+  pending.forEach(({ resolve, reject }) => (fileId ? resolve(fileId) : reject(error ?? new Error("Upload failed"))));
+}
+
+/**
+ * Scales the image down to uploadConfig.maxImageDimension and re-encodes it at uploadConfig.imageQuality
+ * PNGs stay PNGs to keep transparency; everything else becomes JPEG.
+ */
+async function prepareImage(task: UploadTask): Promise<Partial<UploadTask>> {
+  const maxDimension = uploadConfig.maxImageDimension;
+  const context = ImageManipulator.manipulate(task.uri);
+
+  let { width, height } = task;
+  if (!width || !height) {
+    ({ width, height } = await context.renderAsync());
+  }
+  if (Math.max(width, height) > maxDimension) {
+    context.resize(width >= height ? { width: maxDimension } : { height: maxDimension });
+  }
+
+  const isPng = task.mimeType === "image/png";
+  const image = await context.renderAsync();
+  const result = await image.saveAsync({
+    compress: uploadConfig.imageQuality,
+    format: isPng ? SaveFormat.PNG : SaveFormat.JPEG,
+  });
+
+  const extension = isPng ? "png" : "jpg";
+  return {
+    uri: result.uri,
+    name: `${task.name.replace(/\.[^.]+$/, "")}.${extension}`,
+    mimeType: isPng ? "image/png" : "image/jpeg",
+    width: result.width,
+    height: result.height,
+  };
+}
+
+function isRetryable(error: unknown) {
+  if (error instanceof NetworkError || error instanceof ServerError) {
+    return true;
+  }
+  return error instanceof ApiError && (error.status === 408 || error.status === 429);
+}
+
+// Same full-jitter backoff as API retries: 1s, 2s, 4s... capped at 30s
+const getRetryDelay = (attempt: number) => Math.random() * Math.min(30_000, 1_000 * 2 ** (attempt - 1));
+
+async function runTask(id: string) {
+  const controller = new AbortController();
+  controllers.set(id, controller);
+
+  try {
+    let task = getTask(id)!;
+    if (!task.isPrepared) {
+      updateTask(id, { status: "preparing", error: null });
+      const prepared = task.kind === "image" ? await prepareImage(task) : {};
+      updateTask(id, { ...prepared, isPrepared: true });
+      task = getTask(id)!;
+
+      const size = getFileSize(task.uri);
+      const maxSize = task.maxSize ?? (task.kind === "video" ? uploadConfig.maxVideoSize : uploadConfig.maxImageSize);
+      if (size !== null && size > maxSize) {
+        throw new Error(`${task.name} exceeds maximum size of ${formatFileSize(maxSize)}`);
+      }
+    }
+
+    updateTask(id, { status: "uploading", progress: 0, attempts: task.attempts + 1 });
+    const fileId = await upload(
+      { uri: task.uri, name: task.name, mimeType: task.mimeType },
+      {
+        signal: controller.signal,
+        onProgress: (progress) => updateTask(id, { progress }),
+      }
+    );
+
+    updateTask(id, { status: "completed", progress: 100, fileId });
+    settleWaiters(id, fileId, null);
+  } catch (error) {
+    if (isAbortError(error) || !getTask(id)) {
+      return;
+    }
+
+    const task = getTask(id)!;
+    const message = error instanceof Error ? error.message : "Upload failed";
+    if (isRetryable(error) && task.attempts <= uploadConfig.uploadRetries) {
+      // Stays queued for the retry so other files can use the slot meanwhile
+      updateTask(id, { status: "queued", progress: 0, error: message });
+      retryTimers.set(
+        id,
+        setTimeout(() => {
+          retryTimers.delete(id);
+          processQueue();
+        }, getRetryDelay(task.attempts))
+      );
+      return;
+    }
+
+    console.error("Upload failed:", error);
+    updateTask(id, { status: "failed", error: message });
+    settleWaiters(id, null, error instanceof Error ? error : new Error(message));
+  } finally {
+    controllers.delete(id);
+    processQueue();
+  }
+}
+
+/**
+ * Starts queued uploads, oldest first, until the concurrency limit is reached
+ * Uploads waiting for a retry are skipped until their backoff has passed.
+ */
+function processQueue() {
+  if (!useUploadStore.persist.hasHydrated() || !useAuthStore.getState().isAuthenticated) {
+    return;
+  }
+
+  const tasks = Object.values(useUploadStore.getState().tasks);
+  let slots = uploadConfig.concurrentUploads - controllers.size;
+  tasks
+    .filter((task) => task.status === "queued" && !controllers.has(task.id) && !retryTimers.has(task.id))
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .forEach((task) => {
+      if (slots > 0) {
+        slots--;
+        runTask(task.id);
+      }
+    });
+}
+
+// Resume the persisted queue on launch and after signing in
+useUploadStore.persist.onFinishHydration(processQueue);
+if (useUploadStore.persist.hasHydrated()) {
+  processQueue();
+}
+
+useAuthStore.subscribe((state, previousState) => {
+  if (!previousState.isAuthenticated && state.isAuthenticated) {
+    processQueue();
+  }
+
+  // Uploads belong to the signed-in user; never send them with the next user's session
+  if (previousState.isAuthenticated && !state.isAuthenticated) {
+    Object.keys(useUploadStore.getState().tasks).forEach(cancelUpload);
+  }
+});
@@ -0,0 +1,61 @@
+/**
+ * Runtime validation of API responses against zod schemas
+ */
+import { SchemaDriftIssue, useSchemaDriftStore } from "@/store/schemaDriftStore";
+import { z } from "zod";
+import { ApiError } from "./errors";
+
+/**
+ * Thrown when a response body does not match the schema passed to the request
+ */
+export class ApiSchemaError extends ApiError {
+  readonly endpoint: string;
+  readonly method: string;
+  readonly issues: SchemaDriftIssue[];
+
+  constructor(endpoint: string, method: string, issues: SchemaDriftIssue[], data: unknown) {
+    super(`Unexpected response from ${method} ${endpoint}`, "SCHEMA_MISMATCH", { data });
+    this.endpoint = endpoint;
+    this.method = method;
+    this.issues = issues;
+  }
+}
+
+export function isApiSchemaError(error: unknown): error is ApiSchemaError {
+  return error instanceof ApiSchemaError;
+}
+
+interface ValidateResponseOptions {
+  endpoint: string;
+  method: string;
+  /**
+   * Log the failure and return the unvalidated data instead of throwing
+   */
+  lenient?: boolean;
+}
+
+/**
+ * Validates response data against a schema.
+ * Every failure is reported to the schema drift store; strict mode then throws an ApiSchemaError.
+ */
+export function validateResponse<T>(schema: z.ZodType<T>, data: unknown, options: ValidateResponseOptions): T {
+  const { endpoint, method, lenient = false } = options;
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return result.data;
+  }
+
+  const issues: SchemaDriftIssue[] = result.error.issues.map((issue) => ({
+    path: issue.path.length > 0 ? issue.path.join(".") : "(root)",
+    message: issue.message,
+  }));
+
+  useSchemaDriftStore.getState().addReport({ endpoint, method, issues, lenient });
+
+  if (lenient) {
+    console.warn(`Schema mismatch for ${method} ${endpoint}:`, issues);
+    return data as T;
+  }
+
+  throw new ApiSchemaError(endpoint, method, issues, data);
+}
@@ -0,0 +1,123 @@
+import mockAsyncStorage from "@react-native-async-storage/async-storage/jest/async-storage-mock";
+import { setTransport } from "@/services/api";
+import { fetchQuery, getQueryData } from "@/services/queryClient";
+import { openSocket } from "@/services/socket";
+import type { BookedService, Service } from "@/services/types";
+import { useBookingAlertStore } from "../bookingAlertStore";
+import { Branch, useBranchStore } from "../branchStore";
+import { useCompanyStore } from "../companyStore";
+import { useEntityStore } from "../entityStore";
+import {
+  clearOrganizationScope,
+  enterOrganizationScope,
+  OrganizationScope,
+  onOrganizationTeardown,
+} from "../organizationScope";
+import { usePermissionsStore } from "../permissionsStore";
+
+jest.mock("@react-native-async-storage/async-storage", () => mockAsyncStorage);
+
+class FakeSocket extends EventTarget {
+  close = jest.fn(() => this.dispatchEvent(new Event("close")));
+  send = jest.fn();
+}
+
+const branch = (id: string, organizationId: string): Branch => ({
+  id,
+  organizationId,
+  isMain: true,
+  name: `Branch ${id}`,
+  longitude: 0,
+  latitude: 0,
+  accuracy: null,
+  contact: 0,
+  description: "",
+  email: "",
+  stateProvince: "",
+  city: "",
+  location: "",
+  slotsId: null,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+const firstOrganization: OrganizationScope = {
+  company: { id: "org-1", name: "First" },
+  branch: branch("branch-1", "org-1"),
+  permissions: ["VIEW_SERVICE", "EDIT_SERVICE"],
+};
+
+const secondOrganization: OrganizationScope = {
+  company: { id: "org-2", name: "Second" },
+  branch: branch("branch-2", "org-2"),
+  permissions: ["VIEW_SERVICE"],
+};
+
+/**
+ * Fills every organization-scoped store, the query cache and a socket as the first organization would
+ */
+async function populateFirstOrganization() {
+  enterOrganizationScope(firstOrganization);
+  useEntityStore.getState().upsert("services", [{ id: "service-1", updatedAt: 1 } as unknown as Service]);
+  useBookingAlertStore.getState().addAlert("created", { id: "booking-1" } as BookedService);
+  await fetchQuery(["services", "branch-1"], async () => ["service-1"]);
+
+  const socket = new FakeSocket();
+  setTransport({
+    baseUrl: "https://api.example.test",
+    fetch: jest.fn(),
+    openSocket: () => socket as unknown as WebSocket,
+  });
+  expect(openSocket("/branch/branch-1")).toBe(socket);
+  return socket;
+}
+
+function expectScopeCleared() {
+  expect(useEntityStore.getState().services).toEqual({});
+  expect(useBookingAlertStore.getState().alerts).toEqual([]);
+  expect(getQueryData(["services", "branch-1"])).toBeUndefined();
+}
+
+afterEach(() => {
+  setTransport(null);
+  clearOrganizationScope();
+});
+
+describe("clearOrganizationScope", () => {
+  it("clears every store, the query cache and open sockets", async () => {
+    const socket = await populateFirstOrganization();
+
+    clearOrganizationScope();
+
+    expect(useBranchStore.getState().branch).toBeNull();
+    expect(useCompanyStore.getState().company).toBeNull();
+    expect(usePermissionsStore.getState().permissions).toEqual([]);
+    expectScopeCleared();
+    expect(socket.close).toHaveBeenCalledTimes(1);
+  });
+
+  it("runs registered teardowns until they are removed", () => {
+    const teardown = jest.fn();
+    const remove = onOrganizationTeardown(teardown);
+
+    clearOrganizationScope();
+    remove();
+    clearOrganizationScope();
+
+    expect(teardown).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("enterOrganizationScope", () => {
+  it("replaces the previous organization without keeping any of its state", async () => {
+    const socket = await populateFirstOrganization();
+
+    enterOrganizationScope(secondOrganization);
+
+    expect(useCompanyStore.getState().company).toEqual(secondOrganization.company);
+    expect(useBranchStore.getState().branch).toEqual(secondOrganization.branch);
+    expect(usePermissionsStore.getState().permissions).toEqual(["VIEW_SERVICE"]);
+    expectScopeCleared();
+    expect(socket.close).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,32 @@
+import mockAsyncStorage from "@react-native-async-storage/async-storage/jest/async-storage-mock";
+import { PERMISSIONS } from "@/constants/permissions";
+import { usePermissionsStore } from "../permissionsStore";
+
+jest.mock("@react-native-async-storage/async-storage", () => mockAsyncStorage);
+
+beforeEach(() => {
+  usePermissionsStore.getState().clearPermissions();
+});
+
+describe("hasPermission", () => {
+  it("passes for granted names", () => {
+    usePermissionsStore.getState().setPermissions([PERMISSIONS.viewServices, PERMISSIONS.manageServices]);
+
+    expect(usePermissionsStore.getState().hasPermission(PERMISSIONS.viewServices)).toBe(true);
+    expect(usePermissionsStore.getState().hasPermission(PERMISSIONS.manageServices)).toBe(true);
+  });
+
+  it("denies names that are not granted, including ones the server does not define", () => {
+    usePermissionsStore.getState().setPermissions(["VIEW_SERVICE"]);
+
+    expect(usePermissionsStore.getState().hasPermission(PERMISSIONS.viewServices)).toBe(false);
+    expect(usePermissionsStore.getState().hasPermission("unknown_permission")).toBe(false);
+  });
+
+  it("denies everything once permissions are cleared", () => {
+    usePermissionsStore.getState().setPermissions([PERMISSIONS.viewStaff]);
+    usePermissionsStore.getState().clearPermissions();
+
+    expect(usePermissionsStore.getState().hasPermission(PERMISSIONS.viewStaff)).toBe(false);
+  });
+});
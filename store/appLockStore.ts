@@ -0,0 +1,189 @@
+/**
+ * Zustand store for the app lock
+ * A PIN set on this device (stored salted and hashed, in secure storage) and optionally biometrics unlock
+ * the app after it was idle or sent to the background, and confirm sensitive actions.
+ * UI bindings live in components/LockScreen.tsx; inactivity is tracked by hooks/useAppLock.ts.
+ */
+import * as Crypto from "expo-crypto";
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { createMigrate, secureStorage, STORAGE_KEYS } from "./persistence";
+
+export const PIN_LENGTH = 6;
+
+/**
+ * Inactivity choices for auto-lock (minutes)
+ */
+export const AUTO_LOCK_MINUTES = [1, 5, 15, 30] as const;
+
+/**
+ * Wrong PINs allowed before entry is blocked; each further wrong PIN blocks it again
+ */
+export const MAX_PIN_ATTEMPTS = 5;
+const LOCKOUT_DURATION = 30_000;
+
+interface AppLockStore {
+  /** SHA-256 of the salt and PIN; null when the app lock is off */
+  pinHash: string | null;
+  pinSalt: string | null;
+  biometricsEnabled: boolean;
+  /** Minutes without interaction, in the app or away from it, after which the app locks */
+  autoLockMinutes: number;
+  /** Locks as soon as the app goes to the background */
+  lockOnBackground: boolean;
+  /** Wrong PINs entered since the last unlock */
+  failedAttempts: number;
+  /** Unix time (ms) until which PIN entry is blocked */
+  lockedOutUntil: number | null;
+  isLocked: boolean;
+  /** Sensitive action waiting for the PIN; see confirmSensitiveAction */
+  confirmation: { reason: string | null } | null;
+
+  // Actions
+  setPin: (pin: string) => Promise<void>;
+  setBiometricsEnabled: (enabled: boolean) => void;
+  setAutoLockMinutes: (minutes: number) => void;
+  setLockOnBackground: (enabled: boolean) => void;
+  lock: () => void;
+  verifyPin: (pin: string) => Promise<boolean>;
+  unlock: () => void;
+  cancelConfirmation: () => void;
+  reset: () => void;
+}
+
+const initialSettings = {
+  pinHash: null,
+  pinSalt: null,
+  biometricsEnabled: false,
+  autoLockMinutes: 5,
+  lockOnBackground: false,
+  failedAttempts: 0,
+  lockedOutUntil: null,
+};
+
+// Bump when the persisted shape changes and register a migration for the new version
+const STORE_VERSION = 1;
+
+// Settles the promise returned by confirmSensitiveAction
+let resolveConfirmation: ((confirmed: boolean) => void) | null = null;
+
+function settleConfirmation(confirmed: boolean) {
+  resolveConfirmation?.(confirmed);
+  resolveConfirmation = null;
+}
+
+/**
+ * The hash only keeps the PIN out of plain sight in storage: six digits are quickly guessed from a hash,
+ * so guessing is limited by the attempt lockout instead.
+ */
+const hashPin = (pin: string, salt: string) =>
+  Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+
+export const useAppLockStore = create<AppLockStore>()(
+  persist(
+    (set, get) => ({
+      ...initialSettings,
+      isLocked: false,
+      confirmation: null,
+
+      setPin: async (pin: string) => {
+        const pinSalt = Array.from(Crypto.getRandomBytes(16), (byte) => byte.toString(16).padStart(2, "0")).join("");
+        const pinHash = await hashPin(pin, pinSalt);
+        set({ pinHash, pinSalt, failedAttempts: 0, lockedOutUntil: null });
+      },
+
+      setBiometricsEnabled: (enabled: boolean) =>
+        set({
+          biometricsEnabled: enabled,
+        }),
+
+      setAutoLockMinutes: (minutes: number) =>
+        set({
+          autoLockMinutes: minutes,
+        }),
+
+      setLockOnBackground: (enabled: boolean) =>
+        set({
+          lockOnBackground: enabled,
+        }),
+
+      lock: () => {
+        if (get().pinHash) {
+          set({ isLocked: true });
+        }
+      },
+
+      verifyPin: async (pin: string) => {
+        const { pinHash, pinSalt, lockedOutUntil } = get();
+        if (!pinHash || !pinSalt || (lockedOutUntil !== null && Date.now() < lockedOutUntil)) {
+          return false;
+        }
+
+        if ((await hashPin(pin, pinSalt)) === pinHash) {
+          set({ failedAttempts: 0, lockedOutUntil: null });
+          return true;
+        }
+
+        const failedAttempts = get().failedAttempts + 1;
+        set({
+          failedAttempts,
+          lockedOutUntil: failedAttempts >= MAX_PIN_ATTEMPTS ? Date.now() + LOCKOUT_DURATION : null,
+        });
+        return false;
+      },
+
+      unlock: () => {
+        settleConfirmation(true);
+        set({ isLocked: false, confirmation: null, failedAttempts: 0, lockedOutUntil: null });
+      },
+
+      cancelConfirmation: () => {
+        settleConfirmation(false);
+        set({ confirmation: null });
+      },
+
+      // Turns the app lock off and forgets its settings
+      reset: () => {
+        settleConfirmation(false);
+        set({ ...initialSettings, isLocked: false, confirmation: null });
+      },
+    }),
+    {
+      name: STORAGE_KEYS.appLock,
+      storage: secureStorage,
+      version: STORE_VERSION,
+      migrate: createMigrate({}),
+      partialize: (state) => ({
+        pinHash: state.pinHash,
+        pinSalt: state.pinSalt,
+        biometricsEnabled: state.biometricsEnabled,
+        autoLockMinutes: state.autoLockMinutes,
+        lockOnBackground: state.lockOnBackground,
+        failedAttempts: state.failedAttempts,
+        lockedOutUntil: state.lockedOutUntil,
+      }),
+      // A cold start counts as returning to the app
+      onRehydrateStorage: () => (state) => state?.lock(),
+    }
+  )
+);
+
+/**
+ * Asks for the PIN (or biometrics) before a sensitive action, e.g. deleting an invoice
+ * Resolves true right away when the app lock is off.
+ * Usage: if (!(await confirmSensitiveAction("Delete this invoice"))) return;
+ * @param reason - Shown on the lock screen
+ * @returns Whether the user confirmed; false when they cancelled
+ */
+export function confirmSensitiveAction(reason?: string): Promise<boolean> {
+  if (!useAppLockStore.getState().pinHash) {
+    return Promise.resolve(true);
+  }
+
+  // Only one prompt at a time; an earlier one counts as cancelled
+  settleConfirmation(false);
+  return new Promise((resolve) => {
+    resolveConfirmation = resolve;
+    useAppLockStore.setState({ confirmation: { reason: reason ?? null } });
+  });
+}
@@ -2,19 +2,32 @@
  * Zustand store for authentication state (token management)
  */
 import { create } from "zustand";
-import { useCompanyStore } from "./companyStore";
-import { usePermissionsStore } from "./permissionsStore";
+import { persist } from "zustand/middleware";
+import { useAppLockStore } from "./appLockStore";
+import { useOnboardingStore } from "./onboardingStore";
+import { clearOrganizationScope } from "./organizationScope";
+import { createMigrate, secureStorage, STORAGE_KEYS } from "./persistence";
 import { AuthState, User } from "./types";
 import { useUserStore } from "./userStore";
 
+/**
+ * Why the session ended without the user signing out: the token could not be refreshed,
+ * or the session was signed out from another device
+ */
+export type SignOutReason = "expired" | "revoked";
+
 interface AuthStore extends AuthState {
+  /** Shown once on the login screen after a forced sign-out */
+  signOutReason: SignOutReason | null;
+
   // Actions
-  setToken: (token: string, refreshToken: string) => void;
+  setToken: (token: string, refreshToken: string | null) => void;
   clearToken: () => void;
   updateToken: (token: string) => void;
   updateRefreshToken: (refreshToken: string) => void;
-  login: (token: string, refreshToken: string, user: User) => void;
+  login: (token: string, refreshToken: string | null, user: User) => void;
   logout: () => void;
+  endSession: (reason: SignOutReason) => void;
 }
 
 const initialState: AuthState = {
@@ -23,54 +36,81 @@ const initialState: AuthState = {
   isAuthenticated: false,
 };
 
-export const useAuthStore = create<AuthStore>((set) => ({
-  ...initialState,
+// Bump when the persisted shape changes and register a migration for the new version
+const STORE_VERSION = 1;
 
-  setToken: (token: string, refreshToken: string) =>
-    set({
-      token,
-      refreshToken,
-      isAuthenticated: true,
-    }),
+export const useAuthStore = create<AuthStore>()(
+  persist(
+    (set, get) => ({
+      ...initialState,
+      signOutReason: null,
 
-  clearToken: () =>
-    set({
-      token: null,
-      refreshToken: null,
-      isAuthenticated: false,
-    }),
+      setToken: (token: string, refreshToken: string | null) =>
+        set({
+          token,
+          refreshToken,
+          isAuthenticated: true,
+        }),
 
-  updateToken: (token: string) =>
-    set((state) => ({
-      token,
-      isAuthenticated: !!token,
-    })),
+      clearToken: () =>
+        set({
+          token: null,
+          refreshToken: null,
+          isAuthenticated: false,
+        }),
 
-  updateRefreshToken: (refreshToken: string) =>
-    set({
-      refreshToken,
-    }),
+      updateToken: (token: string) =>
+        set((state) => ({
+          token,
+          isAuthenticated: !!token,
+        })),
+
+      updateRefreshToken: (refreshToken: string) =>
+        set({
+          refreshToken,
+        }),
 
-  login: (token: string, refreshToken: string, user: User) => {
-    set({
-      token,
-      refreshToken,
-      isAuthenticated: true,
-    });
-    // Also set the user in the user store
-    useUserStore.getState().setUser(user);
-  },
+      login: (token: string, refreshToken: string | null, user: User) => {
+        set({
+          token,
+          refreshToken,
+          isAuthenticated: true,
+          signOutReason: null,
+        });
+        // Also set the user in the user store
+        useUserStore.getState().setUser(user);
+      },
 
-  logout: () => {
-    set({
-      token: null,
-      refreshToken: null,
-      isAuthenticated: false,
-    });
-    // Also clear the user, company, and permissions stores
-    useUserStore.getState().clearUser();
-    useCompanyStore.getState().clearCompany();
-    usePermissionsStore.getState().clearPermissions();
-  },
-}));
+      logout: () => {
+        set({
+          token: null,
+          refreshToken: null,
+          isAuthenticated: false,
+        });
+        // Also clear the user, the organization scope and any unfinished sign-up
+        useUserStore.getState().clearUser();
+        clearOrganizationScope();
+        useOnboardingStore.getState().reset();
+        // The PIN belongs to the signed-in user; the next user sets their own
+        useAppLockStore.getState().reset();
+      },
+
+      endSession: (reason: SignOutReason) => {
+        get().logout();
+        set({ signOutReason: reason });
+      },
+    }),
+    {
+      name: STORAGE_KEYS.auth,
+      storage: secureStorage,
+      version: STORE_VERSION,
+      migrate: createMigrate({}),
+      partialize: (state) => ({
+        token: state.token,
+        refreshToken: state.refreshToken,
+        isAuthenticated: state.isAuthenticated,
+      }),
+    }
+  )
+);
 
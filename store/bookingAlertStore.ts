@@ -0,0 +1,53 @@
+/**
+ * Zustand store for in-app alerts about bookings pushed over the branch event socket
+ * Feeds the booking alert banner; not persisted, and cleared with the organization scope
+ */
+import type { BookedService } from "@/services/types";
+import { create } from "zustand";
+
+export type BookingAlertType = "created" | "cancelled" | "confirmed";
+
+export interface BookingAlert {
+  id: string;
+  type: BookingAlertType;
+  booking: BookedService;
+  receivedAt: number;
+}
+
+interface BookingAlertStore {
+  /** Newest first */
+  alerts: BookingAlert[];
+
+  // Actions
+  addAlert: (type: BookingAlertType, booking: BookedService) => void;
+  dismissAlert: (id: string) => void;
+  clearAlerts: () => void;
+}
+
+// Older alerts are dropped so a busy branch does not pile them up
+const MAX_ALERTS = 10;
+
+let nextAlertId = 0;
+
+export const useBookingAlertStore = create<BookingAlertStore>((set) => ({
+  alerts: [],
+
+  addAlert: (type, booking) =>
+    set((state) => ({
+      alerts: [
+        { id: String(++nextAlertId), type, booking, receivedAt: Date.now() },
+        // A newer event about the same booking replaces its alert
+        ...state.alerts.filter((alert) => alert.booking.id !== booking.id),
+      ].slice(0, MAX_ALERTS),
+    })),
+
+  dismissAlert: (id: string) =>
+    set((state) => ({
+      alerts: state.alerts.filter((alert) => alert.id !== id),
+    })),
+
+  clearAlerts: () =>
+    set({
+      alerts: [],
+    }),
+}));
@@ -2,6 +2,8 @@
  * Zustand store for branch details state
  */
 import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { appStorage, createMigrate, STORAGE_KEYS } from "./persistence";
 
 export interface Branch {
   id: string;
@@ -41,34 +43,48 @@ const initialState = {
   error: null,
 };
 
-export const useBranchStore = create<BranchStore>((set) => ({
-  ...initialState,
+// Bump when the persisted shape changes and register a migration for the new version
+const STORE_VERSION = 1;
 
-  setBranch: (branch: Branch) =>
-    set({
-      branch,
-      error: null,
-    }),
+export const useBranchStore = create<BranchStore>()(
+  persist(
+    (set) => ({
+      ...initialState,
 
-  updateBranch: (updates: Partial<Branch>) =>
-    set((state) => ({
-      branch: state.branch ? { ...state.branch, ...updates } : null,
-    })),
+      setBranch: (branch: Branch) =>
+        set({
+          branch,
+          error: null,
+        }),
 
-  clearBranch: () =>
-    set({
-      branch: null,
-      error: null,
-    }),
+      updateBranch: (updates: Partial<Branch>) =>
+        set((state) => ({
+          branch: state.branch ? { ...state.branch, ...updates } : null,
+        })),
 
-  setLoading: (loading: boolean) =>
-    set({
-      isLoading: loading,
-    }),
+      clearBranch: () =>
+        set({
+          branch: null,
+          error: null,
+        }),
+
+      setLoading: (loading: boolean) =>
+        set({
+          isLoading: loading,
+        }),
 
-  setError: (error: string | null) =>
-    set({
-      error,
+      setError: (error: string | null) =>
+        set({
+          error,
+        }),
     }),
-}));
+    {
+      name: STORAGE_KEYS.branch,
+      storage: appStorage,
+      version: STORE_VERSION,
+      migrate: createMigrate({}),
+      partialize: (state) => ({ branch: state.branch }),
+    }
+  )
+);
 
@@ -2,6 +2,8 @@
  * Zustand store for company details state
  */
 import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { appStorage, createMigrate, STORAGE_KEYS } from "./persistence";
 import { Company } from "./types";
 
 interface CompanyStore {
@@ -23,34 +25,48 @@ const initialState = {
   error: null,
 };
 
-export const useCompanyStore = create<CompanyStore>((set) => ({
-  ...initialState,
+// Bump when the persisted shape changes and register a migration for the new version
+const STORE_VERSION = 1;
 
-  setCompany: (company: Company) =>
-    set({
-      company,
-      error: null,
-    }),
+export const useCompanyStore = create<CompanyStore>()(
+  persist(
+    (set) => ({
+      ...initialState,
 
-  updateCompany: (updates: Partial<Company>) =>
-    set((state) => ({
-      company: state.company ? { ...state.company, ...updates } : null,
-    })),
+      setCompany: (company: Company) =>
+        set({
+          company,
+          error: null,
+        }),
 
-  clearCompany: () =>
-    set({
-      company: null,
-      error: null,
-    }),
+      updateCompany: (updates: Partial<Company>) =>
+        set((state) => ({
+          company: state.company ? { ...state.company, ...updates } : null,
+        })),
 
-  setLoading: (loading: boolean) =>
-    set({
-      isLoading: loading,
-    }),
+      clearCompany: () =>
+        set({
+          company: null,
+          error: null,
+        }),
+
+      setLoading: (loading: boolean) =>
+        set({
+          isLoading: loading,
+        }),
 
-  setError: (error: string | null) =>
-    set({
-      error,
+      setError: (error: string | null) =>
+        set({
+          error,
+        }),
     }),
-}));
+    {
+      name: STORAGE_KEYS.company,
+      storage: appStorage,
+      version: STORE_VERSION,
+      migrate: createMigrate({}),
+      partialize: (state) => ({ company: state.company }),
+    }
+  )
+);
 
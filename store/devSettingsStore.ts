@@ -0,0 +1,55 @@
+/**
+ * Zustand store for developer settings
+ * Persisted so the chosen backend survives reloads; applied by services/environment.
+ */
+import { ApiEnvironmentId, DEFAULT_ENVIRONMENT_ID } from "@/constants/environments";
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { appStorage, createMigrate, STORAGE_KEYS } from "./persistence";
+
+interface DevSettingsStore {
+  /** Backend requests are sent to; see constants/environments.ts */
+  environmentId: ApiEnvironmentId;
+  /** Origin used by the "custom" environment, e.g. a developer's machine */
+  customApiDomain: string;
+
+  // Actions
+  setEnvironment: (environmentId: ApiEnvironmentId) => void;
+  setCustomApiDomain: (domain: string) => void;
+}
+
+// Bump when the persisted shape changes and register a migration for the new version
+const STORE_VERSION = 2;
+
+export const useDevSettingsStore = create<DevSettingsStore>()(
+  persist(
+    (set) => ({
+      environmentId: DEFAULT_ENVIRONMENT_ID,
+      customApiDomain: "",
+
+      setEnvironment: (environmentId: ApiEnvironmentId) =>
+        set({
+          environmentId,
+        }),
+
+      setCustomApiDomain: (domain: string) =>
+        set({
+          customApiDomain: domain.trim().replace(/\/+$/, ""),
+        }),
+    }),
+    {
+      name: STORAGE_KEYS.devSettings,
+      storage: appStorage,
+      version: STORE_VERSION,
+      migrate: createMigrate({
+        // The mock backend switch became one of the environments
+        2: ({ isMockBackend, ...state }) => ({
+          ...state,
+          environmentId: isMockBackend ? "mock" : "default",
+          customApiDomain: "",
+        }),
+      }),
+      partialize: (state) => ({ environmentId: state.environmentId, customApiDomain: state.customApiDomain }),
+    }
+  )
+);
@@ -0,0 +1,75 @@
+/**
+ * Zustand store of entities from API responses, keyed by id
+ * Filled by the endpoint SDK (services/entities.ts) from every response, so a screen that edits an entity
+ * updates every list showing it. Not persisted; cleared with the organization scope.
+ */
+import type { BookedService, Branch, OrganizationStaff, Service } from "@/services/types";
+import { create } from "zustand";
+
+export interface EntityTables {
+  services: Record<string, Service>;
+  branches: Record<string, Branch>;
+  /** Keyed by organization staff id */
+  staff: Record<string, OrganizationStaff>;
+  bookings: Record<string, BookedService>;
+}
+
+export type EntityType = keyof EntityTables;
+
+export type Entity<K extends EntityType> = EntityTables[K][string];
+
+interface EntityStore extends EntityTables {
+  // Actions
+  upsert: <K extends EntityType>(type: K, entities: Entity<K>[]) => void;
+  remove: (type: EntityType, id: string) => void;
+  clear: () => void;
+}
+
+const initialState: EntityTables = {
+  services: {},
+  branches: {},
+  staff: {},
+  bookings: {},
+};
+
+export const useEntityStore = create<EntityStore>()((set) => ({
+  ...initialState,
+
+  upsert: (type, entities) =>
+    set((state) => {
+      const table = state[type] as Record<string, Entity<typeof type>>;
+      let next: typeof table | null = null;
+
+      entities.forEach((entity) => {
+        // Responses may leave nested entities out
+        if (!entity?.id) {
+          return;
+        }
+        const existing = (next ?? table)[entity.id];
+        // A copy older than the one stored, e.g. a list fetched before an edit, is ignored
+        if (existing && existing.updatedAt > entity.updatedAt) {
+          return;
+        }
+        // Detail responses carry more fields than list items, so merge rather than replace
+        const merged = existing ? { ...existing, ...entity } : entity;
+        if (existing && JSON.stringify(merged) === JSON.stringify(existing)) {
+          return;
+        }
+        next = next ?? { ...table };
+        next[entity.id] = merged;
+      });
+
+      return next ? { [type]: next } : state;
+    }),
+
+  remove: (type, id) =>
+    set((state) => {
+      if (!state[type][id]) {
+        return state;
+      }
+      const { [id]: _removed, ...rest } = state[type];
+      return { [type]: rest };
+    }),
+
+  clear: () => set(initialState),
+}));
@@ -0,0 +1,56 @@
+/**
+ * Hydration gate for persisted stores
+ */
+import { useEffect, useState } from "react";
+import { useAppLockStore } from "./appLockStore";
+import { useAuthStore } from "./authStore";
+import { useBranchStore } from "./branchStore";
+import { useCompanyStore } from "./companyStore";
+import { useDevSettingsStore } from "./devSettingsStore";
+import { useLocaleStore } from "./localeStore";
+import { useOnboardingStore } from "./onboardingStore";
+import { usePermissionsStore } from "./permissionsStore";
+import { useUserStore } from "./userStore";
+
+const persistedStores = [
+  useAuthStore,
+  useUserStore,
+  useCompanyStore,
+  useBranchStore,
+  usePermissionsStore,
+  // Decides which backend the first requests go to
+  useDevSettingsStore,
+  // Decides the language of the first screen and the API prefix of the first requests
+  useLocaleStore,
+  // Decides whether the first screen resumes an unfinished sign-up
+  useOnboardingStore,
+  // Decides whether the first screen is covered by the lock screen
+  useAppLockStore,
+];
+
+/**
+ * Whether every persisted store has finished rehydrating from storage
+ */
+export const haveStoresHydrated = () =>
+  persistedStores.every((store) => store.persist.hasHydrated());
+
+/**
+ * Returns true once all persisted stores have been rehydrated
+ * Usage: const isHydrated = useStoresHydrated();
+ */
+export const useStoresHydrated = () => {
+  const [isHydrated, setIsHydrated] = useState(haveStoresHydrated);
+
+  useEffect(() => {
+    const unsubscribers = persistedStores.map((store) =>
+      store.persist.onFinishHydration(() => setIsHydrated(haveStoresHydrated()))
+    );
+
+    // A store may have finished between the initial render and subscribing
+    setIsHydrated(haveStoresHydrated());
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, []);
+
+  return isHydrated;
+};
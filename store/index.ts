@@ -7,6 +7,18 @@ export * from "./companyStore";
 export * from "./types";
 export * from "./userStore";
 export * from "./permissionsStore";
+export * from "./hydration";
+export * from "./schemaDriftStore";
+export * from "./outboxStore";
+export * from "./uploadStore";
+export * from "./devSettingsStore";
+export * from "./networkLogStore";
+export * from "./localeStore";
+export * from "./onboardingStore";
+export * from "./appLockStore";
+export * from "./organizationScope";
+export * from "./entityStore";
+export * from "./bookingAlertStore";
 
 /**
  * Combined store hook for convenience
@@ -57,12 +69,8 @@ export const useAppStore = () => {
     updateCompany: company.updateCompany,
     clearCompany: company.clearCompany,
 
-    // Combined logout action
-    logout: () => {
-      auth.clearToken();
-      user.clearUser();
-      company.clearCompany();
-    },
+    // Combined logout action; also clears the organization scope
+    logout: auth.logout,
   };
 };
 
@@ -0,0 +1,39 @@
+/**
+ * Zustand store for the app language
+ * Persisted so the language picked in Profile survives restarts; read through i18n.
+ */
+import type { Language } from "@/i18n/languages";
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { appStorage, createMigrate, STORAGE_KEYS } from "./persistence";
+
+interface LocaleStore {
+  /** Language picked in Profile, or null to follow the device language */
+  language: Language | null;
+
+  // Actions
+  setLanguage: (language: Language | null) => void;
+}
+
+// Bump when the persisted shape changes and register a migration for the new version
+const STORE_VERSION = 1;
+
+export const useLocaleStore = create<LocaleStore>()(
+  persist(
+    (set) => ({
+      language: null,
+
+      setLanguage: (language: Language | null) =>
+        set({
+          language,
+        }),
+    }),
+    {
+      name: STORAGE_KEYS.locale,
+      storage: appStorage,
+      version: STORE_VERSION,
+      migrate: createMigrate({}),
+      partialize: (state) => ({ language: state.language }),
+    }
+  )
+);
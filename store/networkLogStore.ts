@@ -0,0 +1,83 @@
+/**
+ * Zustand store for the diagnostics network log
+ * Written by services/networkLog.ts; read by the diagnostics screen. Not persisted
+ */
+import { create } from "zustand";
+
+export interface NetworkLogEntry {
+  id: string;
+  method: string;
+  url: string;
+  /** Request headers with credentials redacted */
+  headers: Record<string, string>;
+  /** Request body with secrets redacted, truncated for display */
+  body: string | null;
+  /** Response status, or null when no response was received */
+  status: number | null;
+  error: string | null;
+  startedAt: number;
+  /** Time until the response headers or the failure (ms), or null while in flight */
+  duration: number | null;
+}
+
+export type SocketStatus = "connecting" | "open" | "closed" | "error";
+
+export interface SocketLogEntry {
+  id: string;
+  /** Socket URL with the token redacted */
+  url: string;
+  status: SocketStatus;
+  messagesSent: number;
+  messagesReceived: number;
+  openedAt: number;
+  closedAt: number | null;
+}
+
+interface NetworkLogStore {
+  /** Most recent requests first */
+  requests: NetworkLogEntry[];
+  /** Most recent sockets first */
+  sockets: SocketLogEntry[];
+
+  // Actions
+  addRequest: (entry: NetworkLogEntry) => void;
+  updateRequest: (id: string, updates: Partial<NetworkLogEntry>) => void;
+  addSocket: (entry: SocketLogEntry) => void;
+  updateSocket: (id: string, updates: (entry: SocketLogEntry) => Partial<SocketLogEntry>) => void;
+  clearLog: () => void;
+}
+
+// Enough to cover a few screens' worth of traffic without holding on to bodies indefinitely
+const MAX_REQUESTS = 100;
+const MAX_SOCKETS = 20;
+
+export const useNetworkLogStore = create<NetworkLogStore>((set) => ({
+  requests: [],
+  sockets: [],
+
+  addRequest: (entry) =>
+    set((state) => ({
+      requests: [entry, ...state.requests].slice(0, MAX_REQUESTS),
+    })),
+
+  updateRequest: (id, updates) =>
+    set((state) => ({
+      requests: state.requests.map((entry) => (entry.id === id ? { ...entry, ...updates } : entry)),
+    })),
+
+  addSocket: (entry) =>
+    set((state) => ({
+      sockets: [entry, ...state.sockets].slice(0, MAX_SOCKETS),
+    })),
+
+  updateSocket: (id, updates) =>
+    set((state) => ({
+      sockets: state.sockets.map((entry) => (entry.id === id ? { ...entry, ...updates(entry) } : entry)),
+    })),
+
+  clearLog: () =>
+    set({
+      requests: [],
+      sockets: [],
+    }),
+}));
@@ -0,0 +1,157 @@
+/**
+ * Zustand store for an organization sign-up in progress
+ * Holds the onboarding wizard's drafts until the review step submits them, and is persisted
+ * so a sign-up interrupted after the owner registered resumes where it was left.
+ */
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { appStorage, createMigrate, STORAGE_KEYS } from "./persistence";
+
+/**
+ * Wizard steps in order; the owner step only runs for signed-out users
+ */
+export const ONBOARDING_STEPS = ["owner", "company", "branch", "services", "plan", "review"] as const;
+
+export type OnboardingStep = (typeof ONBOARDING_STEPS)[number];
+
+export interface CompanyDraft {
+  name: string;
+  email: string;
+  phone: string;
+  website: string;
+  description: string;
+  /** Uploaded logo file id */
+  logoId: string | null;
+}
+
+export interface BranchDraft {
+  name: string;
+  contact: string;
+  email: string;
+  city: string;
+  /** Country name */
+  stateProvince: string;
+  description: string;
+  location: {
+    location: string;
+    latitude: number;
+    longitude: number;
+    accuracy: number;
+  } | null;
+}
+
+export interface ServiceDraft {
+  /** Local id for removing the draft before it is submitted */
+  id: string;
+  name: string;
+  description: string;
+  modeId: number;
+}
+
+interface OnboardingStore {
+  /** Step to resume at; null when no sign-up is in progress */
+  step: OnboardingStep | null;
+  company: CompanyDraft;
+  branch: BranchDraft;
+  services: ServiceDraft[];
+  planId: string | null;
+  /** Sent with the final submission so a retry after the app closed does not create a second organization */
+  idempotencyKey: string | null;
+
+  // Actions
+  setStep: (step: OnboardingStep) => void;
+  updateCompany: (updates: Partial<CompanyDraft>) => void;
+  updateBranch: (updates: Partial<BranchDraft>) => void;
+  addService: (service: ServiceDraft) => void;
+  removeService: (id: string) => void;
+  setPlan: (planId: string) => void;
+  setIdempotencyKey: (idempotencyKey: string) => void;
+  reset: () => void;
+}
+
+const initialState = {
+  step: null,
+  company: {
+    name: "",
+    email: "",
+    phone: "",
+    website: "",
+    description: "",
+    logoId: null,
+  },
+  branch: {
+    name: "",
+    contact: "",
+    email: "",
+    city: "",
+    stateProvince: "",
+    description: "",
+    location: null,
+  },
+  services: [],
+  planId: null,
+  idempotencyKey: null,
+};
+
+// Bump when the persisted shape changes and register a migration for the new version
+const STORE_VERSION = 1;
+
+export const useOnboardingStore = create<OnboardingStore>()(
+  persist(
+    (set) => ({
+      ...initialState,
+
+      setStep: (step: OnboardingStep) =>
+        set({
+          step,
+        }),
+
+      updateCompany: (updates: Partial<CompanyDraft>) =>
+        set((state) => ({
+          company: { ...state.company, ...updates },
+        })),
+
+      updateBranch: (updates: Partial<BranchDraft>) =>
+        set((state) => ({
+          branch: { ...state.branch, ...updates },
+        })),
+
+      addService: (service: ServiceDraft) =>
+        set((state) => ({
+          services: [...state.services, service],
+        })),
+
+      removeService: (id: string) =>
+        set((state) => ({
+          services: state.services.filter((service) => service.id !== id),
+        })),
+
+      setPlan: (planId: string) =>
+        set({
+          planId,
+        }),
+
+      setIdempotencyKey: (idempotencyKey: string) =>
+        set({
+          idempotencyKey,
+        }),
+
+      reset: () => set(initialState),
+    }),
+    {
+      name: STORAGE_KEYS.onboarding,
+      storage: appStorage,
+      version: STORE_VERSION,
+      migrate: createMigrate({}),
+      partialize: (state) => ({
+        // The owner step is not resumable: the password is never stored
+        step: state.step === "owner" ? null : state.step,
+        company: state.company,
+        branch: state.branch,
+        services: state.services,
+        planId: state.planId,
+        idempotencyKey: state.idempotencyKey,
+      }),
+    }
+  )
+);
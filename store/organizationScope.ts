@@ -0,0 +1,57 @@
+/**
+ * Organization-scoped state: everything that belongs to the account and branch the session is switched to
+ * The branch, company, permissions, entity and booking alert stores plus registered teardowns (cached lists, open sockets)
+ * are cleared together, so nothing from one organization is shown in the next.
+ * Usage: enterOrganizationScope({ company, branch, permissions }) after switching account;
+ *        onOrganizationTeardown(clearCache) in modules that hold organization data.
+ */
+import { useBookingAlertStore } from "./bookingAlertStore";
+import { Branch, useBranchStore } from "./branchStore";
+import { useCompanyStore } from "./companyStore";
+import { useEntityStore } from "./entityStore";
+import { usePermissionsStore } from "./permissionsStore";
+import { Company } from "./types";
+
+export interface OrganizationScope {
+  company: Company;
+  branch: Branch;
+  /** Permission names granted in the account */
+  permissions: string[];
+}
+
+const teardowns = new Set<() => void>();
+
+/**
+ * Runs the teardown whenever the organization scope is cleared, e.g. to drop cached lists or close sockets
+ * Registered by modules outside the store so the store does not depend on them.
+ * @returns Function that removes the teardown
+ */
+export function onOrganizationTeardown(teardown: () => void) {
+  teardowns.add(teardown);
+  return () => {
+    teardowns.delete(teardown);
+  };
+}
+
+/**
+ * Clears every piece of organization-scoped state, on sign-out or before switching account or branch
+ */
+export function clearOrganizationScope() {
+  teardowns.forEach((teardown) => teardown());
+  useBranchStore.getState().clearBranch();
+  usePermissionsStore.getState().clearPermissions();
+  useCompanyStore.getState().clearCompany();
+  useEntityStore.getState().clear();
+  useBookingAlertStore.getState().clearAlerts();
+}
+
+/**
+ * Replaces the organization scope in one step: the previous organization's state is torn down
+ * and the new one set before anything renders in between
+ */
+export function enterOrganizationScope({ company, branch, permissions }: OrganizationScope) {
+  clearOrganizationScope();
+  useCompanyStore.getState().setCompany(company);
+  useBranchStore.getState().setBranch(branch);
+  usePermissionsStore.getState().setPermissions(permissions);
+}
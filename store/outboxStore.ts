@@ -0,0 +1,102 @@
+/**
+ * Zustand store for the offline mutation outbox
+ * Written by the outbox (services/outbox.ts); screens only read it.
+ * Persisted so writes made without signal survive the app being closed, and kept per user
+ * so a session that expires does not lose them.
+ */
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { appStorage, createMigrate, STORAGE_KEYS } from "./persistence";
+
+/**
+ * pending: waiting to be sent
+ * syncing: being sent
+ * conflict: the server state changed since the write was queued; needs the user to retry or discard
+ * failed: the server rejected the write
+ */
+export type OutboxStatus = "pending" | "syncing" | "conflict" | "failed";
+
+export interface OutboxItem {
+  id: string;
+  /** Mutation type, e.g. "invoices.create"; see services/outbox.ts */
+  type: string;
+  payload: any;
+  /** Short description for the pending sync screen, e.g. "Create invoice for BK-1024" */
+  label: string;
+  /** Id of the record the write belongs to, e.g. the booked service id */
+  entityId: string | null;
+  /** User who made the write; only replayed with their session */
+  userId: string;
+  /** Sent as the Idempotency-Key so a replay that already reached the server is not applied twice */
+  idempotencyKey: string;
+  status: OutboxStatus;
+  error: string | null;
+  attempts: number;
+  createdAt: number;
+}
+
+interface OutboxStore {
+  /** Queued writes, oldest first */
+  items: OutboxItem[];
+
+  // Actions
+  addItem: (item: OutboxItem) => void;
+  updateItem: (id: string, updates: Partial<OutboxItem>) => void;
+  removeItem: (id: string) => void;
+  removeUserItems: (userId: string) => void;
+}
+
+// Bump when the persisted shape changes and register a migration for the new version
+const STORE_VERSION = 1;
+
+/**
+ * Whether a queued write was made by the user
+ */
+export const isOutboxItemOfUser = (item: OutboxItem, userId: string | null | undefined) =>
+  !!userId && item.userId === userId;
+
+export const useOutboxStore = create<OutboxStore>()(
+  persist(
+    (set) => ({
+      items: [],
+
+      addItem: (item: OutboxItem) =>
+        set((state) => ({
+          items: [...state.items, item],
+        })),
+
+      updateItem: (id: string, updates: Partial<OutboxItem>) =>
+        set((state) => ({
+          items: state.items.map((item) => (item.id === id ? { ...item, ...updates } : item)),
+        })),
+
+      removeItem: (id: string) =>
+        set((state) => ({
+          items: state.items.filter((item) => item.id !== id),
+        })),
+
+      removeUserItems: (userId: string) =>
+        set((state) => ({
+          items: state.items.filter((item) => !isOutboxItemOfUser(item, userId)),
+        })),
+    }),
+    {
+      name: STORAGE_KEYS.outbox,
+      storage: appStorage,
+      version: STORE_VERSION,
+      migrate: createMigrate({}),
+      partialize: (state) => ({ items: state.items }),
+      // A replay cut off by the app closing is sent again with the same idempotency key
+      merge: (persistedState, currentState) => {
+        const persistedItems = (persistedState as Partial<OutboxStore>)?.items ?? [];
+        return {
+          ...currentState,
+          items: [
+            ...persistedItems.map((item) => (item.status === "syncing" ? { ...item, status: "pending" as const } : item)),
+            ...currentState.items,
+          ],
+        };
+      },
+    }
+  )
+);
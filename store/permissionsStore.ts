@@ -2,17 +2,27 @@
  * Zustand store for user permissions state
  */
 import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { appStorage, createMigrate, STORAGE_KEYS } from './persistence';
+
+/**
+ * Choices for how often permissions are re-fetched while the app is open; 0 turns the interval off
+ */
+export const PERMISSION_REFRESH_INTERVALS = [0, 1, 5, 15] as const;
 
 interface PermissionsStore {
   permissions: string[];
   isLoading: boolean;
   error: string | null;
+  /** Minutes between permission refreshes while the app is open, 0 for none */
+  refreshIntervalMinutes: number;
 
   // Actions
   setPermissions: (permissions: string[]) => void;
   clearPermissions: () => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
+  setRefreshInterval: (minutes: number) => void;
   hasPermission: (permission: string) => boolean;
 }
 
@@ -22,34 +32,54 @@ const initialState = {
   error: null,
 };
 
-export const usePermissionsStore = create<PermissionsStore>((set, get) => ({
-  ...initialState,
+// Bump when the persisted shape changes and register a migration for the new version
+const STORE_VERSION = 1;
 
-  setPermissions: (permissions: string[]) =>
-    set({
-      permissions,
-      error: null,
-    }),
+export const usePermissionsStore = create<PermissionsStore>()(
+  persist(
+    (set, get) => ({
+      ...initialState,
+      refreshIntervalMinutes: 5,
 
-  clearPermissions: () =>
-    set({
-      permissions: [],
-      error: null,
-    }),
+      setPermissions: (permissions: string[]) =>
+        set({
+          permissions,
+          error: null,
+        }),
 
-  setLoading: (loading: boolean) =>
-    set({
-      isLoading: loading,
-    }),
+      clearPermissions: () =>
+        set({
+          permissions: [],
+          error: null,
+        }),
 
-  setError: (error: string | null) =>
-    set({
-      error,
-    }),
+      setLoading: (loading: boolean) =>
+        set({
+          isLoading: loading,
+        }),
+
+      setError: (error: string | null) =>
+        set({
+          error,
+        }),
 
-  hasPermission: (permission: string) => {
-    const { permissions } = get();
-    return permissions.includes(permission);
-  },
-}));
+      setRefreshInterval: (minutes: number) =>
+        set({
+          refreshIntervalMinutes: minutes,
+        }),
+
+      hasPermission: (permission: string) => {
+        const { permissions } = get();
+        return permissions.includes(permission);
+      },
+    }),
+    {
+      name: STORAGE_KEYS.permissions,
+      storage: appStorage,
+      version: STORE_VERSION,
+      migrate: createMigrate({}),
+      partialize: (state) => ({ permissions: state.permissions, refreshIntervalMinutes: state.refreshIntervalMinutes }),
+    }
+  )
+);
 
@@ -0,0 +1,71 @@
+/**
+ * Storage adapters and schema migrations for persisted zustand stores
+ */
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as SecureStore from "expo-secure-store";
+import { Platform } from "react-native";
+import { createJSONStorage, StateStorage } from "zustand/middleware";
+
+/**
+ * Storage keys for every persisted store
+ * SecureStore only accepts alphanumeric characters, ".", "-" and "_" in keys
+ */
+export const STORAGE_KEYS = {
+  auth: "diracks.auth",
+  user: "diracks.user",
+  company: "diracks.company",
+  branch: "diracks.branch",
+  permissions: "diracks.permissions",
+  uploads: "diracks.uploads",
+  outbox: "diracks.outbox",
+  devSettings: "diracks.devSettings",
+  locale: "diracks.locale",
+  onboarding: "diracks.onboarding",
+  appLock: "diracks.appLock",
+} as const;
+
+/**
+ * Encrypted storage backed by the iOS Keychain / Android Keystore
+ * Falls back to AsyncStorage on web where SecureStore is not available
+ */
+const secureStateStorage: StateStorage = {
+  getItem: (name) =>
+    Platform.OS === "web" ? AsyncStorage.getItem(name) : SecureStore.getItemAsync(name),
+  setItem: (name, value) =>
+    Platform.OS === "web" ? AsyncStorage.setItem(name, value) : SecureStore.setItemAsync(name, value),
+  removeItem: (name) =>
+    Platform.OS === "web" ? AsyncStorage.removeItem(name) : SecureStore.deleteItemAsync(name),
+};
+
+/**
+ * Storage for tokens and other secrets
+ */
+export const secureStorage = createJSONStorage(() => secureStateStorage);
+
+/**
+ * Storage for non-sensitive app state (profile, organization, branch, permissions)
+ */
+export const appStorage = createJSONStorage(() => AsyncStorage);
+
+/**
+ * A migration upgrades a persisted state from the previous version to its own version
+ */
+export type Migration = (state: any) => any;
+
+/**
+ * Builds a zustand `migrate` function from a map of version -> migration.
+ * Every migration between the persisted version and the current one is applied in order.
+ *
+ * Usage:
+ *   migrate: createMigrate({ 2: (state) => ({ ...state, newField: null }) })
+ */
+export function createMigrate(migrations: Record<number, Migration>) {
+  return (persistedState: unknown, version: number) => {
+    const versions = Object.keys(migrations)
+      .map(Number)
+      .filter((target) => target > version)
+      .sort((a, b) => a - b);
+
+    return versions.reduce((state, target) => migrations[target](state), persistedState as any);
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Zustand store for API responses that did not match their schema
+ * Feeds the development overlay; not persisted
+ */
+import { create } from "zustand";
+
+export interface SchemaDriftIssue {
+  path: string;
+  message: string;
+}
+
+export interface SchemaDriftReport {
+  id: string;
+  endpoint: string;
+  method: string;
+  issues: SchemaDriftIssue[];
+  lenient: boolean;
+  reportedAt: number;
+}
+
+interface SchemaDriftStore {
+  reports: SchemaDriftReport[];
+
+  // Actions
+  addReport: (report: Omit<SchemaDriftReport, "id" | "reportedAt">) => void;
+  dismissReport: (id: string) => void;
+  clearReports: () => void;
+}
+
+// Keep the overlay readable when an endpoint is polled repeatedly
+const MAX_REPORTS = 20;
+
+let nextReportId = 0;
+
+export const useSchemaDriftStore = create<SchemaDriftStore>((set) => ({
+  reports: [],
+
+  addReport: (report) =>
+    set((state) => ({
+      reports: [
+        { ...report, id: String(++nextReportId), reportedAt: Date.now() },
+        ...state.reports,
+      ].slice(0, MAX_REPORTS),
+    })),
+
+  dismissReport: (id: string) =>
+    set((state) => ({
+      reports: state.reports.filter((report) => report.id !== id),
+    })),
+
+  clearReports: () =>
+    set({
+      reports: [],
+    }),
+}));
@@ -0,0 +1,107 @@
+/**
+ * Zustand store for the upload queue
+ * Written by the upload manager (services/uploads.ts); screens only read it.
+ * Persisted so queued and interrupted uploads resume after the app restarts, and so a form can
+ * recover the uploads of its fields (see UploadTask.target) after it was left.
+ */
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { appStorage, createMigrate, STORAGE_KEYS } from "./persistence";
+
+export type UploadStatus = "queued" | "preparing" | "uploading" | "completed" | "failed";
+
+export interface UploadTask {
+  id: string;
+  /** Local URI of the file; replaced by the compressed copy once prepared */
+  uri: string;
+  name: string;
+  mimeType: string;
+  kind: "image" | "video";
+  width: number | null;
+  height: number | null;
+  /** Maximum size in bytes after compression, or null for the uploadConfig default */
+  maxSize: number | null;
+  isPrepared: boolean;
+  status: UploadStatus;
+  /** Share of the file sent so far (0-100) */
+  progress: number;
+  attempts: number;
+  /** Id of the stored file once completed */
+  fileId: string | null;
+  error: string | null;
+  /** Form field the upload belongs to, e.g. UPLOAD_TARGETS.companyLogo; null when no form needs to recover it */
+  target: string | null;
+  createdAt: number;
+}
+
+interface UploadStore {
+  tasks: Record<string, UploadTask>;
+
+  // Actions
+  addTask: (task: UploadTask) => void;
+  updateTask: (id: string, updates: Partial<UploadTask>) => void;
+  removeTask: (id: string) => void;
+  clearTasks: () => void;
+}
+
+// Bump when the persisted shape changes and register a migration for the new version
+const STORE_VERSION = 2;
+
+export const useUploadStore = create<UploadStore>()(
+  persist(
+    (set) => ({
+      tasks: {},
+
+      addTask: (task: UploadTask) =>
+        set((state) => ({
+          tasks: { ...state.tasks, [task.id]: task },
+        })),
+
+      updateTask: (id: string, updates: Partial<UploadTask>) =>
+        set((state) =>
+          state.tasks[id]
+            ? { tasks: { ...state.tasks, [id]: { ...state.tasks[id], ...updates } } }
+            : state
+        ),
+
+      removeTask: (id: string) =>
+        set((state) => {
+          const { [id]: _removed, ...tasks } = state.tasks;
+          return { tasks };
+        }),
+
+      clearTasks: () =>
+        set({
+          tasks: {},
+        }),
+    }),
+    {
+      name: STORAGE_KEYS.uploads,
+      storage: appStorage,
+      version: STORE_VERSION,
+      migrate: createMigrate({
+        // Uploads queued before forms could recover them belong to no form
+        2: ({ tasks, ...state }) => ({
+          ...state,
+          tasks: Object.fromEntries(
+            Object.entries((tasks ?? {}) as Record<string, UploadTask>).map(([id, task]) => [id, { ...task, target: null }])
+          ),
+        }),
+      }),
+      partialize: (state) => ({ tasks: state.tasks }),
+      // Uploads cut off by the app closing start over from the queue. Completed uploads are kept
+      // until their form recovers and releases them; without a form nothing reads them again
+      merge: (persistedState, currentState) => {
+        const tasks: Record<string, UploadTask> = {};
+        Object.values((persistedState as Partial<UploadStore>)?.tasks ?? {}).forEach((task) => {
+          if (task.status === "completed" && !task.target) {
+            return;
+          }
+          const wasInterrupted = task.status === "preparing" || task.status === "uploading";
+          tasks[task.id] = wasInterrupted ? { ...task, status: "queued", progress: 0 } : task;
+        });
+        return { ...currentState, tasks: { ...tasks, ...currentState.tasks } };
+      },
+    }
+  )
+);
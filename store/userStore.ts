@@ -2,6 +2,8 @@
  * Zustand store for user profile state
  */
 import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { appStorage, createMigrate, STORAGE_KEYS } from "./persistence";
 import { User } from "./types";
 
 interface UserStore {
@@ -23,34 +25,48 @@ const initialState = {
   error: null,
 };
 
-export const useUserStore = create<UserStore>((set) => ({
-  ...initialState,
+// Bump when the persisted shape changes and register a migration for the new version
+const STORE_VERSION = 1;
 
-  setUser: (user: User) =>
-    set({
-      user,
-      error: null,
-    }),
+export const useUserStore = create<UserStore>()(
+  persist(
+    (set) => ({
+      ...initialState,
 
-  updateUser: (updates: Partial<User>) =>
-    set((state) => ({
-      user: state.user ? { ...state.user, ...updates } : null,
-    })),
+      setUser: (user: User) =>
+        set({
+          user,
+          error: null,
+        }),
 
-  clearUser: () =>
-    set({
-      user: null,
-      error: null,
-    }),
+      updateUser: (updates: Partial<User>) =>
+        set((state) => ({
+          user: state.user ? { ...state.user, ...updates } : null,
+        })),
 
-  setLoading: (loading: boolean) =>
-    set({
-      isLoading: loading,
-    }),
+      clearUser: () =>
+        set({
+          user: null,
+          error: null,
+        }),
+
+      setLoading: (loading: boolean) =>
+        set({
+          isLoading: loading,
+        }),
 
-  setError: (error: string | null) =>
-    set({
-      error,
+      setError: (error: string | null) =>
+        set({
+          error,
+        }),
     }),
-}));
+    {
+      name: STORAGE_KEYS.user,
+      storage: appStorage,
+      version: STORE_VERSION,
+      migrate: createMigrate({}),
+      partialize: (state) => ({ user: state.user }),
+    }
+  )
+);
 
@@ -0,0 +1,68 @@
+import { base32Decode, base32Encode, generateTotp, verifyTotp } from "../totp";
+
+// The RFC 6238 SHA-1 seed "12345678901234567890" in base32
+const SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+const PERIOD_MS = 30_000;
+
+// Appendix B test vectors: Unix time in seconds and the 8-digit code
+const RFC_VECTORS: [number, string][] = [
+  [59, "94287082"],
+  [1111111109, "07081804"],
+  [1111111111, "14050471"],
+  [1234567890, "89005924"],
+  [2000000000, "69279037"],
+  [20000000000, "65353130"],
+];
+
+describe("base32", () => {
+  it("round-trips the RFC seed", () => {
+    const seed = new TextEncoder().encode("12345678901234567890");
+
+    expect(base32Encode(seed)).toBe(SECRET);
+    expect(base32Decode(SECRET)).toEqual(seed);
+  });
+
+  it("ignores case, spaces and padding", () => {
+    expect(base32Decode("gezd gnbv gy3t qojq gezd gnbv gy3t qojq==")).toEqual(base32Decode(SECRET));
+  });
+});
+
+describe("generateTotp", () => {
+  it.each(RFC_VECTORS)("matches the RFC 6238 vector at %i", (seconds, code) => {
+    expect(generateTotp(SECRET, { timestamp: seconds * 1000, digits: 8 })).toBe(code);
+  });
+
+  it("produces the last six digits by default", () => {
+    expect(generateTotp(SECRET, { timestamp: 59_000 })).toBe("287082");
+    expect(generateTotp(SECRET, { timestamp: 1111111109_000 })).toBe("081804");
+  });
+});
+
+describe("verifyTotp", () => {
+  const timestamp = 1111111109_000;
+  const codeAt = (offset: number) => generateTotp(SECRET, { timestamp: timestamp + offset * PERIOD_MS });
+
+  it("accepts the current code, ignoring spaces", () => {
+    expect(verifyTotp(SECRET, "081 804", { timestamp })).toBe(true);
+  });
+
+  it("accepts codes from one period before and after", () => {
+    expect(verifyTotp(SECRET, codeAt(-1), { timestamp })).toBe(true);
+    expect(verifyTotp(SECRET, codeAt(1), { timestamp })).toBe(true);
+  });
+
+  it("rejects codes two periods away", () => {
+    expect(verifyTotp(SECRET, codeAt(-2), { timestamp })).toBe(false);
+    expect(verifyTotp(SECRET, codeAt(2), { timestamp })).toBe(false);
+  });
+
+  it("only accepts the current code without a window", () => {
+    expect(verifyTotp(SECRET, codeAt(0), { timestamp, window: 0 })).toBe(true);
+    expect(verifyTotp(SECRET, codeAt(1), { timestamp, window: 0 })).toBe(false);
+  });
+
+  it("rejects codes of the wrong length or with other characters", () => {
+    expect(verifyTotp(SECRET, "07081804", { timestamp })).toBe(false);
+    expect(verifyTotp(SECRET, "08180a", { timestamp })).toBe(false);
+  });
+});
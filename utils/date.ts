@@ -2,7 +2,9 @@
  * Date utility functions for formatting timestamps
  * Handles both Unix timestamps (in seconds) and ISO 8601 date strings (e.g., "2026-01-04T13:35:44.911638Z")
  * and converts them to various date/time formats
+ * Dates are formatted in the active language's locale (see i18n) unless a locale is passed
  */
+import { getLocale, t } from '@/i18n';
 
 /**
  * Converts a timestamp (Unix timestamp in seconds or ISO 8601 string) to JavaScript Date object
@@ -24,10 +26,10 @@ function timestampToDate(timestamp: number | string): Date {
 /**
  * Formats a timestamp to date only (e.g., "January 15, 2024")
  * @param timestamp - Unix timestamp in seconds (number) or ISO 8601 date string (e.g., "2026-01-04T13:35:44.911638Z")
- * @param locale - Locale string (default: 'en-US')
+ * @param locale - Locale string (default: the active language's locale)
  * @returns Formatted date string
  */
-export function formatDate(timestamp: number | string, locale: string = 'en-US'): string {
+export function formatDate(timestamp: number | string, locale: string = getLocale()): string {
   const date = timestampToDate(timestamp);
   return date.toLocaleDateString(locale, {
     year: 'numeric',
@@ -39,13 +41,13 @@ export function formatDate(timestamp: number | string, locale: string = 'en-US')
 /**
  * Formats a timestamp to date and time (e.g., "January 15, 2024, 10:30 AM")
  * @param timestamp - Unix timestamp in seconds (number) or ISO 8601 date string (e.g., "2026-01-04T13:35:44.911638Z")
- * @param locale - Locale string (default: 'en-US')
+ * @param locale - Locale string (default: the active language's locale)
  * @param includeSeconds - Whether to include seconds in the time (default: false)
  * @returns Formatted date and time string
  */
 export function formatDateTime(
   timestamp: number | string,
-  locale: string = 'en-US',
+  locale: string = getLocale(),
   includeSeconds: boolean = false
 ): string {
   const date = timestampToDate(timestamp);
@@ -63,13 +65,13 @@ export function formatDateTime(
 /**
  * Formats a timestamp to time only (e.g., "10:30 AM")
  * @param timestamp - Unix timestamp in seconds (number) or ISO 8601 date string (e.g., "2026-01-04T13:35:44.911638Z")
- * @param locale - Locale string (default: 'en-US')
+ * @param locale - Locale string (default: the active language's locale)
  * @param includeSeconds - Whether to include seconds in the time (default: false)
  * @returns Formatted time string
  */
 export function formatTime(
   timestamp: number | string,
-  locale: string = 'en-US',
+  locale: string = getLocale(),
   includeSeconds: boolean = false
 ): string {
   const date = timestampToDate(timestamp);
@@ -102,7 +104,7 @@ export function formatTime(
  * 
  * @param timestamp - Unix timestamp in seconds (number) or ISO 8601 date string (e.g., "2026-01-04T13:35:44.911638Z")
  * @param format - Format string (e.g., "YYYY-MM-DD", "MM/DD/YYYY HH:mm A")
- * @param locale - Locale string (default: 'en-US')
+ * @param locale - Locale string (default: the active language's locale)
  * @returns Formatted date string according to the format pattern
  * 
  * @example
@@ -114,7 +116,7 @@ export function formatTime(
 export function formatDateCustom(
   timestamp: number | string,
   format: string,
-  locale: string = 'en-US'
+  locale: string = getLocale()
 ): string {
   const date = timestampToDate(timestamp);
   
@@ -128,23 +130,16 @@ export function formatDateCustom(
   const ampm = hours24 >= 12 ? 'PM' : 'AM';
   const ampmLower = ampm.toLowerCase();
 
-  const monthNames = [
-    'January', 'February', 'March', 'April', 'May', 'June',
-    'July', 'August', 'September', 'October', 'November', 'December'
-  ];
-  
-  const monthNamesShort = [
-    'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
-    'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'
-  ];
+  const monthName = date.toLocaleString(locale, { month: 'long' });
+  const monthNameShort = date.toLocaleString(locale, { month: 'short' });
 
   let formatted = format;
 
   // Replace format tokens
   formatted = formatted.replace(/YYYY/g, String(year));
   formatted = formatted.replace(/YY/g, String(year).slice(-2));
-  formatted = formatted.replace(/MMMM/g, monthNames[month]);
-  formatted = formatted.replace(/MMM/g, monthNamesShort[month]);
+  formatted = formatted.replace(/MMMM/g, monthName);
+  formatted = formatted.replace(/MMM/g, monthNameShort);
   formatted = formatted.replace(/MM/g, String(month + 1).padStart(2, '0'));
   formatted = formatted.replace(/DD/g, String(day).padStart(2, '0'));
   formatted = formatted.replace(/D(?!D)/g, String(day));
@@ -161,42 +156,41 @@ export function formatDateCustom(
 }
 
 /**
- * Gets a relative time string (e.g., "2 hours ago", "3 days ago", "just now")
+ * Gets a relative time string in the active language (e.g., "2 hours ago", "3 days ago", "just now")
  * @param timestamp - Unix timestamp in seconds (number) or ISO 8601 date string (e.g., "2026-01-04T13:35:44.911638Z")
- * @param locale - Locale string (default: 'en-US')
  * @returns Relative time string
  */
-export function formatRelativeTime(timestamp: number | string, locale: string = 'en-US'): string {
+export function formatRelativeTime(timestamp: number | string): string {
   const date = timestampToDate(timestamp);
   const now = new Date();
   const diffInSeconds = Math.floor((now.getTime() - date.getTime()) / 1000);
 
   if (diffInSeconds < 60) {
-    return 'just now';
+    return t('time.justNow');
   }
 
   const diffInMinutes = Math.floor(diffInSeconds / 60);
   if (diffInMinutes < 60) {
-    return `${diffInMinutes} minute${diffInMinutes !== 1 ? 's' : ''} ago`;
+    return t('time.minutesAgo', { count: diffInMinutes });
   }
 
   const diffInHours = Math.floor(diffInMinutes / 60);
   if (diffInHours < 24) {
-    return `${diffInHours} hour${diffInHours !== 1 ? 's' : ''} ago`;
+    return t('time.hoursAgo', { count: diffInHours });
   }
 
   const diffInDays = Math.floor(diffInHours / 24);
   if (diffInDays < 30) {
-    return `${diffInDays} day${diffInDays !== 1 ? 's' : ''} ago`;
+    return t('time.daysAgo', { count: diffInDays });
   }
 
   const diffInMonths = Math.floor(diffInDays / 30);
   if (diffInMonths < 12) {
-    return `${diffInMonths} month${diffInMonths !== 1 ? 's' : ''} ago`;
+    return t('time.monthsAgo', { count: diffInMonths });
   }
 
   const diffInYears = Math.floor(diffInMonths / 12);
-  return `${diffInYears} year${diffInYears !== 1 ? 's' : ''} ago`;
+  return t('time.yearsAgo', { count: diffInYears });
 }
 
 /**
@@ -237,16 +231,16 @@ export function isYesterday(timestamp: number | string): boolean {
  * - Relative time if within a week
  * - Full date otherwise
  * @param timestamp - Unix timestamp in seconds (number) or ISO 8601 date string (e.g., "2026-01-04T13:35:44.911638Z")
- * @param locale - Locale string (default: 'en-US')
+ * @param locale - Locale string (default: the active language's locale)
  * @returns Human-readable date string
  */
-export function formatSmartDate(timestamp: number | string, locale: string = 'en-US'): string {
+export function formatSmartDate(timestamp: number | string, locale: string = getLocale()): string {
   if (isToday(timestamp)) {
-    return 'Today';
+    return t('time.today');
   }
   
   if (isYesterday(timestamp)) {
-    return 'Yesterday';
+    return t('time.yesterday');
   }
 
   const date = timestampToDate(timestamp);
@@ -254,7 +248,7 @@ export function formatSmartDate(timestamp: number | string, locale: string = 'en
   const diffInDays = Math.floor((now.getTime() - date.getTime()) / (1000 * 60 * 60 * 24));
 
   if (diffInDays < 7) {
-    return formatRelativeTime(timestamp, locale);
+    return formatRelativeTime(timestamp);
   }
 
   return formatDate(timestamp, locale);
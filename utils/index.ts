@@ -4,4 +4,8 @@
  */
 
 export * from './date';
+export * from './number';
+export * from './permissions';
+export * from './qrcode';
+export * from './totp';
 
@@ -0,0 +1,41 @@
+/**
+ * Number utility functions for formatting amounts and counts
+ * Numbers are formatted in the active language's locale (see i18n) unless a locale is passed
+ */
+import { getLocale } from '@/i18n';
+
+/**
+ * Currency amounts are charged in
+ */
+export const DEFAULT_CURRENCY = 'KES';
+
+/**
+ * Formats a number with locale grouping (e.g., "12,500")
+ * @param value - Number to format
+ * @param options - Intl.NumberFormat options, e.g. { maximumFractionDigits: 1 }
+ * @param locale - Locale string (default: the active language's locale)
+ * @returns Formatted number string
+ */
+export function formatNumber(
+  value: number,
+  options: Intl.NumberFormatOptions = {},
+  locale: string = getLocale()
+): string {
+  return new Intl.NumberFormat(locale, options).format(value);
+}
+
+/**
+ * Formats an amount of money with two decimals (e.g., "KES 1,250.00")
+ * @param amount - Amount to format
+ * @param currency - ISO 4217 currency code (default: KES)
+ * @param locale - Locale string (default: the active language's locale)
+ * @returns Formatted amount string
+ */
+export function formatCurrency(amount: number, currency: string = DEFAULT_CURRENCY, locale: string = getLocale()): string {
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
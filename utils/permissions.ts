@@ -0,0 +1,30 @@
+/**
+ * Permission utility functions for comparing sets of granted permission names
+ */
+
+export interface PermissionDiff {
+  /** Permissions in the target but not currently granted */
+  added: string[];
+  /** Permissions currently granted but not in the target */
+  removed: string[];
+}
+
+/**
+ * Compares granted permissions with the ones they would be replaced by
+ * @param current - Permission names currently granted
+ * @param target - Permission names that would be granted instead
+ * @returns Permissions that would be added and removed, in their original order
+ */
+export function getPermissionDiff(current: string[], target: string[]): PermissionDiff {
+  return {
+    added: target.filter((name) => !current.includes(name)),
+    removed: current.filter((name) => !target.includes(name)),
+  };
+}
+
+/**
+ * Whether a permission diff changes nothing
+ */
+export function isEmptyPermissionDiff(diff: PermissionDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0;
+}
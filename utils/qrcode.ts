@@ -0,0 +1,444 @@
+/**
+ * QR code encoder (ISO/IEC 18004) for short texts such as the otpauth:// URI of two-step verification
+ * Encodes UTF-8 text in byte mode at error correction level M, in the smallest version that fits,
+ * and returns the module matrix for components/QRCode.tsx to draw. Pure functions without
+ * platform dependencies.
+ */
+
+// Error correction codewords per block and number of blocks at level M, indexed by version (1-40)
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28,
+  28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+];
+const ERROR_CORRECTION_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33,
+  35, 37, 38, 40, 43, 45, 47, 49,
+];
+// Format information bits of level M
+const ECC_FORMAT_BITS = 0;
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+// Penalty weights of the mask evaluation
+const PENALTY_RUN = 3;
+const PENALTY_BLOCK = 3;
+const PENALTY_FINDER_LIKE = 40;
+const PENALTY_BALANCE = 10;
+
+/**
+ * Dark (true) and light modules by row and column, without the quiet zone
+ */
+export type QrMatrix = boolean[][];
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+/**
+ * Modules available for data and error correction codewords in a version
+ */
+function getRawDataModules(version: number) {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignmentCount = Math.floor(version / 7) + 2;
+    result -= (25 * alignmentCount - 10) * alignmentCount - 55;
+    if (version >= 7) {
+      result -= 36;
+    }
+  }
+  return result;
+}
+
+const getDataCodewords = (version: number) =>
+  Math.floor(getRawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version] * ERROR_CORRECTION_BLOCKS[version];
+
+function getAlignmentPositions(version: number, size: number) {
+  if (version === 1) {
+    return [];
+  }
+  const count = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let position = size - 7; positions.length < count; position -= step) {
+    positions.splice(1, 0, position);
+  }
+  return positions;
+}
+
+// Reed-Solomon arithmetic over GF(2^8) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1
+
+function gfMultiply(x: number, y: number) {
+  let result = 0;
+  for (let i = 7; i >= 0; i--) {
+    result = (result << 1) ^ ((result >>> 7) * 0x11d);
+    result ^= ((y >>> i) & 1) * x;
+  }
+  return result;
+}
+
+function getReedSolomonDivisor(degree: number) {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) {
+        result[j] ^= result[j + 1];
+      }
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function getReedSolomonRemainder(data: number[], divisor: number[]) {
+  const result = new Array<number>(divisor.length).fill(0);
+  data.forEach((byte) => {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, index) => {
+      result[index] ^= gfMultiply(coefficient, factor);
+    });
+  });
+  return result;
+}
+
+/**
+ * Splits data codewords into blocks, appends each block's error correction and interleaves them
+ */
+function addErrorCorrection(data: number[], version: number) {
+  const blockCount = ERROR_CORRECTION_BLOCKS[version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(getRawDataModules(version) / 8);
+  const shortBlockCount = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = getReedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const block = data.slice(offset, offset + shortBlockLength - eccLength + (i < shortBlockCount ? 0 : 1));
+    offset += block.length;
+    const ecc = getReedSolomonRemainder(block, divisor);
+    if (i < shortBlockCount) {
+      // Placeholder so all blocks have the same length; skipped when interleaving
+      block.push(0);
+    }
+    blocks.push(block.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlockCount) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+/**
+ * Mode indicator, character count, data, terminator and padding, as codewords
+ */
+function encodeData(bytes: Uint8Array, version: number) {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push((value >>> i) & 1);
+    }
+  };
+
+  const capacityBits = getDataCodewords(version) * 8;
+  append(0b0100, 4);
+  append(bytes.length, version <= 9 ? 8 : 16);
+  bytes.forEach((byte) => append(byte, 8));
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    append(pad, 8);
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  return codewords;
+}
+
+function isMasked(mask: number, x: number, y: number) {
+  switch (mask) {
+    case 0:
+      return (x + y) % 2 === 0;
+    case 1:
+      return y % 2 === 0;
+    case 2:
+      return x % 3 === 0;
+    case 3:
+      return (x + y) % 3 === 0;
+    case 4:
+      return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5:
+      return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6:
+      return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default:
+      return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+/**
+ * Module grid of one version, tracking which modules belong to function patterns
+ */
+class QrGrid {
+  readonly size: number;
+  readonly modules: QrMatrix;
+  private readonly isFunction: boolean[][];
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  drawFunctionPatterns() {
+    const { size } = this;
+
+    // Timing patterns
+    for (let i = 0; i < size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    // Finder patterns with their separators
+    [
+      [3, 3],
+      [size - 4, 3],
+      [3, size - 4],
+    ].forEach(([x, y]) => {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          const xx = x + dx;
+          const yy = y + dy;
+          if (xx >= 0 && xx < size && yy >= 0 && yy < size) {
+            this.setFunction(xx, yy, distance !== 2 && distance !== 4);
+          }
+        }
+      }
+    });
+
+    // Alignment patterns, except where they would overlap a finder pattern
+    const positions = getAlignmentPositions(this.version, size);
+    const last = positions.length - 1;
+    positions.forEach((x, i) => {
+      positions.forEach((y, j) => {
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+          return;
+        }
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      });
+    });
+
+    // Reserves the format areas; drawn again once the mask is chosen
+    this.drawFormatBits(0);
+
+    if (this.version >= 7) {
+      let remainder = this.version;
+      for (let i = 0; i < 12; i++) {
+        remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+      }
+      const bits = (this.version << 12) | remainder;
+      for (let i = 0; i < 18; i++) {
+        const a = size - 11 + (i % 3);
+        const b = Math.floor(i / 3);
+        this.setFunction(a, b, getBit(bits, i));
+        this.setFunction(b, a, getBit(bits, i));
+      }
+    }
+  }
+
+  drawFormatBits(mask: number) {
+    const { size } = this;
+    const data = (ECC_FORMAT_BITS << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+
+    // Around the top left finder pattern
+    for (let i = 0; i <= 5; i++) {
+      this.setFunction(8, i, getBit(bits, i));
+    }
+    this.setFunction(8, 7, getBit(bits, 6));
+    this.setFunction(8, 8, getBit(bits, 7));
+    this.setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) {
+      this.setFunction(14 - i, 8, getBit(bits, i));
+    }
+
+    // Split between the top right and bottom left finder patterns
+    for (let i = 0; i < 8; i++) {
+      this.setFunction(size - 1 - i, 8, getBit(bits, i));
+    }
+    for (let i = 8; i < 15; i++) {
+      this.setFunction(8, size - 15 + i, getBit(bits, i));
+    }
+    this.setFunction(8, size - 8, true);
+  }
+
+  /**
+   * Places the codewords in the zigzag order, upwards and downwards in two-module columns
+   */
+  drawCodewords(codewords: number[]) {
+    const { size } = this;
+    let bitIndex = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) {
+        right = 5;
+      }
+      for (let vertical = 0; vertical < size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? size - 1 - vertical : vertical;
+          if (!this.isFunction[y][x] && bitIndex < codewords.length * 8) {
+            this.modules[y][x] = getBit(codewords[bitIndex >>> 3], 7 - (bitIndex & 7));
+            bitIndex++;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * XORs the mask onto the data modules; applying the same mask twice undoes it
+   */
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && isMasked(mask, x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  /**
+   * Penalty score of the current modules; the mask with the lowest score is used
+   */
+  getPenalty() {
+    const { size, modules } = this;
+    let penalty = 0;
+    let dark = 0;
+    const finderLike = [true, false, true, true, true, false, true];
+
+    const scoreLine = (get: (i: number) => boolean) => {
+      let runLength = 1;
+      for (let i = 1; i <= size; i++) {
+        if (i < size && get(i) === get(i - 1)) {
+          runLength++;
+          continue;
+        }
+        if (runLength >= 5) {
+          penalty += PENALTY_RUN + (runLength - 5);
+        }
+        runLength = 1;
+      }
+
+      // 1:1:3:1:1 dark and light pattern with four light modules on one side
+      for (let i = 0; i + finderLike.length <= size; i++) {
+        if (!finderLike.every((value, offset) => get(i + offset) === value)) {
+          continue;
+        }
+        const isLight = (from: number, to: number) => {
+          for (let j = from; j < to; j++) {
+            if (j >= 0 && j < size && get(j)) {
+              return false;
+            }
+          }
+          return true;
+        };
+        if (isLight(i - 4, i) || isLight(i + finderLike.length, i + finderLike.length + 4)) {
+          penalty += PENALTY_FINDER_LIKE;
+        }
+      }
+    };
+
+    for (let i = 0; i < size; i++) {
+      scoreLine((j) => modules[i][j]);
+      scoreLine((j) => modules[j][i]);
+    }
+
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (modules[y][x]) {
+          dark++;
+        }
+        if (
+          x < size - 1 &&
+          y < size - 1 &&
+          modules[y][x] === modules[y][x + 1] &&
+          modules[y][x] === modules[y + 1][x] &&
+          modules[y][x] === modules[y + 1][x + 1]
+        ) {
+          penalty += PENALTY_BLOCK;
+        }
+      }
+    }
+
+    // Every 5% the dark share deviates from 50%
+    const total = size * size;
+    penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * PENALTY_BALANCE;
+    return penalty;
+  }
+}
+
+/**
+ * Encodes text as a QR code
+ * @param mask - Mask pattern 0-7 (default: the one with the lowest penalty)
+ * @returns Module matrix; draw it with a light quiet zone of at least four modules
+ * @throws Error when the text does not fit in the largest version
+ */
+export function encodeQrCode(text: string, mask?: number): QrMatrix {
+  const bytes = new TextEncoder().encode(text);
+
+  let version = MIN_VERSION;
+  while ((version <= 9 ? 12 : 20) + bytes.length * 8 > getDataCodewords(version) * 8) {
+    if (++version > MAX_VERSION) {
+      throw new Error('Text is too long for a QR code');
+    }
+  }
+
+  const grid = new QrGrid(version);
+  grid.drawFunctionPatterns();
+  grid.drawCodewords(addErrorCorrection(encodeData(bytes, version), version));
+
+  let chosenMask = mask;
+  if (chosenMask === undefined) {
+    let lowestPenalty = Infinity;
+    for (let candidate = 0; candidate < 8; candidate++) {
+      grid.applyMask(candidate);
+      grid.drawFormatBits(candidate);
+      const penalty = grid.getPenalty();
+      if (penalty < lowestPenalty) {
+        lowestPenalty = penalty;
+        chosenMask = candidate;
+      }
+      grid.applyMask(candidate);
+    }
+  }
+
+  grid.applyMask(chosenMask as number);
+  grid.drawFormatBits(chosenMask as number);
+  return grid.modules;
+}
@@ -1,9 +1,18 @@
 /**
  * Validator utilities and helper functions
  */
+import { isTranslationKey, t } from "@/i18n";
 import { z } from "zod";
 export * from "./schemas";
 
+/**
+ * Resolves a schema message through the translation catalog
+ * Messages that are not catalog keys (e.g. zod's defaults) are returned unchanged
+ */
+export function translateMessage(message: string): string {
+  return isTranslationKey(message) ? t(message) : message;
+}
+
 /**
  * Helper function to validate a single field
  * @param schema - Zod schema to validate against (must be a ZodObject)
@@ -29,7 +38,8 @@ export function validateField(
     return null;
   } catch (error) {
     if (error instanceof z.ZodError) {
-      return error.issues[0]?.message || null;
+      const message = error.issues[0]?.message;
+      return message ? translateMessage(message) : null;
     }
     return null;
   }
@@ -52,7 +62,7 @@ export function getFieldErrors(error: z.ZodError): Record<string, string> {
   error.issues.forEach((issue) => {
     if (issue && issue.path && Array.isArray(issue.path)) {
       const path = issue.path.join(".");
-      errors[path] = issue.message || "Validation error";
+      errors[path] = issue.message ? translateMessage(issue.message) : t("validation.failed");
     }
   });
   return errors;
@@ -89,7 +99,7 @@ export function validateForm<T extends z.ZodTypeAny>(
     }
     return {
       isValid: false,
-      errors: { _general: "Validation failed" },
+      errors: { _general: t("validation.failed") },
     };
   }
 }
@@ -1,5 +1,6 @@
 /**
  * Zod validation schemas for all form inputs
+ * Messages are catalog keys (i18n/locales); the helpers in validators/index.ts translate them
  */
 import { z } from "zod";
 
@@ -9,14 +10,14 @@ import { z } from "zod";
 export const loginSchema = z.object({
   username: z
     .string()
-    .min(1, "Username is required"),
-    // .email("Please enter a valid email address"),
+    .min(1, "validation.usernameRequired"),
+    // .email("validation.emailInvalid"),
   password: z
     .string()
-    .min(1, "Password must be at least 8 characters"),
-    // .regex(/[A-Z]/, "Password must contain at least one capital letter")
-    // .regex(/[a-z]/, "Password must contain at least one lowercase letter")
-    // .regex(/[0-9]/, "Password must contain at least one number"),
+    .min(1, "validation.passwordRequired"),
+    // .regex(/[A-Z]/, "validation.passwordUppercase")
+    // .regex(/[a-z]/, "validation.passwordLowercase")
+    // .regex(/[0-9]/, "validation.passwordNumber"),
 });
 
 export type LoginFormData = z.infer<typeof loginSchema>;
@@ -27,34 +28,34 @@ export type LoginFormData = z.infer<typeof loginSchema>;
 export const registerSchema = z.object({
   firstName: z
     .string()
-    .min(1, "First name is required")
-    .min(2, "First name must be at least 2 characters")
-    .max(50, "First name must be less than 50 characters"),
+    .min(1, "validation.firstNameRequired")
+    .min(2, "validation.firstNameMin")
+    .max(50, "validation.firstNameMax"),
   lastName: z
     .string()
-    .min(1, "Last name is required")
-    .min(2, "Last name must be at least 2 characters")
-    .max(50, "Last name must be less than 50 characters"),
+    .min(1, "validation.lastNameRequired")
+    .min(2, "validation.lastNameMin")
+    .max(50, "validation.lastNameMax"),
   email: z
     .string()
-    .min(1, "Email is required")
-    .email("Please enter a valid email address"),
+    .min(1, "validation.emailRequired")
+    .email("validation.emailInvalid"),
   password: z
     .string()
-    .min(8, "Password must be at least 8 characters")
-    .regex(/[A-Z]/, "Password must contain at least one capital letter")
-    .regex(/[a-z]/, "Password must contain at least one lowercase letter")
-    .regex(/[0-9]/, "Password must contain at least one number"),
-  confirmPassword: z.string().min(1, "Please confirm your password"),
+    .min(8, "validation.passwordMin")
+    .regex(/[A-Z]/, "validation.passwordUppercase")
+    .regex(/[a-z]/, "validation.passwordLowercase")
+    .regex(/[0-9]/, "validation.passwordNumber"),
+  confirmPassword: z.string().min(1, "validation.confirmPasswordRequired"),
   phone: z
     .string()
     .optional()
     .refine(
       (val) => !val || /^\+?[1-9]\d{1,14}$/.test(val),
-      "Please enter a valid phone number"
+      "validation.phoneInvalid"
     ),
 }).refine((data) => data.password === data.confirmPassword, {
-  message: "Passwords do not match",
+  message: "validation.passwordsMismatch",
   path: ["confirmPassword"],
 });
 
@@ -66,12 +67,53 @@ export type RegisterFormData = z.infer<typeof registerSchema>;
 export const forgotPasswordSchema = z.object({
   email: z
     .string()
-    .min(1, "Email is required")
-    .email("Please enter a valid email address"),
+    .min(1, "validation.emailRequired")
+    .email("validation.emailInvalid"),
 });
 
 export type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
 
+/**
+ * Emailed password reset code validation schema
+ */
+export const resetCodeSchema = z.object({
+  code: z
+    .string()
+    .min(1, "validation.codeRequired")
+    .regex(/^\d{6}$/, "validation.codeInvalid"),
+});
+
+export type ResetCodeFormData = z.infer<typeof resetCodeSchema>;
+
+/**
+ * Authenticator app code validation schema (two-step verification)
+ */
+export const twoFactorCodeSchema = z.object({
+  code: z
+    .string()
+    .min(1, "validation.codeRequired")
+    .regex(/^\d{6}$/, "validation.authenticatorCodeInvalid"),
+});
+
+/**
+ * Two-step verification backup code validation schema, e.g. "ab3d-x7kq"
+ */
+export const backupCodeSchema = z.object({
+  code: z
+    .string()
+    .min(1, "validation.codeRequired")
+    .regex(/^[a-z0-9]{4}-?[a-z0-9]{4}$/i, "validation.backupCodeInvalid"),
+});
+
+/**
+ * Password re-confirmation before a security change, e.g. turning off two-step verification
+ */
+export const passwordConfirmationSchema = z.object({
+  password: z
+    .string()
+    .min(1, "validation.passwordRequired"),
+});
+
 /**
  * Reset password form validation schema
  */
@@ -79,14 +121,14 @@ export const resetPasswordSchema = z
   .object({
     password: z
       .string()
-      .min(8, "Password must be at least 8 characters")
-      .regex(/[A-Z]/, "Password must contain at least one capital letter")
-      .regex(/[a-z]/, "Password must contain at least one lowercase letter")
-      .regex(/[0-9]/, "Password must contain at least one number"),
-    confirmPassword: z.string().min(1, "Please confirm your password"),
+      .min(8, "validation.passwordMin")
+      .regex(/[A-Z]/, "validation.passwordUppercase")
+      .regex(/[a-z]/, "validation.passwordLowercase")
+      .regex(/[0-9]/, "validation.passwordNumber"),
+    confirmPassword: z.string().min(1, "validation.confirmPasswordRequired"),
   })
   .refine((data) => data.password === data.confirmPassword, {
-    message: "Passwords do not match",
+    message: "validation.passwordsMismatch",
     path: ["confirmPassword"],
   });
 
@@ -98,24 +140,24 @@ export type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
 export const profileUpdateSchema = z.object({
   firstName: z
     .string()
-    .min(1, "First name is required")
-    .min(2, "First name must be at least 2 characters")
-    .max(50, "First name must be less than 50 characters"),
+    .min(1, "validation.firstNameRequired")
+    .min(2, "validation.firstNameMin")
+    .max(50, "validation.firstNameMax"),
   lastName: z
     .string()
-    .min(1, "Last name is required")
-    .min(2, "Last name must be at least 2 characters")
-    .max(50, "Last name must be less than 50 characters"),
+    .min(1, "validation.lastNameRequired")
+    .min(2, "validation.lastNameMin")
+    .max(50, "validation.lastNameMax"),
   email: z
     .string()
-    .min(1, "Email is required")
-    .email("Please enter a valid email address"),
+    .min(1, "validation.emailRequired")
+    .email("validation.emailInvalid"),
   phone: z
     .string()
     .optional()
     .refine(
       (val) => !val || /^\+?[1-9]\d{1,14}$/.test(val),
-      "Please enter a valid phone number"
+      "validation.phoneInvalid"
     ),
   country: z.string().optional(),
   birthDate: z
@@ -123,7 +165,7 @@ export const profileUpdateSchema = z.object({
     .optional()
     .refine(
       (val) => !val || /^\d{4}-\d{2}-\d{2}$/.test(val),
-      "Please enter a valid date (YYYY-MM-DD)"
+      "validation.dateInvalid"
     ),
 });
 
@@ -135,22 +177,22 @@ export type ProfileUpdateFormData = z.infer<typeof profileUpdateSchema>;
 export const companySchema = z.object({
   name: z
     .string()
-    .min(1, "Company name is required")
-    .min(2, "Company name must be at least 2 characters")
-    .max(100, "Company name must be less than 100 characters"),
+    .min(1, "validation.companyNameRequired")
+    .min(2, "validation.companyNameMin")
+    .max(100, "validation.companyNameMax"),
   email: z
     .string()
     .optional()
     .refine(
       (val) => !val || z.string().email().safeParse(val).success,
-      "Please enter a valid email address"
+      "validation.emailInvalid"
     ),
   phone: z
     .string()
     .optional()
     .refine(
       (val) => !val || /^\+?[1-9]\d{1,14}$/.test(val),
-      "Please enter a valid phone number"
+      "validation.phoneInvalid"
     ),
   address: z.string().optional(),
   city: z.string().optional(),
@@ -161,7 +203,7 @@ export const companySchema = z.object({
     .optional()
     .refine(
       (val) => !val || /^[A-Z0-9\s-]{3,10}$/i.test(val),
-      "Please enter a valid zip/postal code"
+      "validation.zipCodeInvalid"
     ),
   website: z
     .string()
@@ -172,11 +214,11 @@ export const companySchema = z.object({
         /^https?:\/\/(www\.)?[-a-zA-Z0-9@:%._\+~#=]{1,256}\.[a-zA-Z0-9()]{1,6}\b([-a-zA-Z0-9()@:%_\+.~#?&//=]*)$/.test(
           val
         ),
-      "Please enter a valid website URL"
+      "validation.websiteInvalid"
     ),
   industry: z.string().optional(),
   size: z.string().optional(),
-  description: z.string().max(500, "Description must be less than 500 characters").optional(),
+  description: z.string().max(500, "validation.descriptionMax").optional(),
 });
 
 export type CompanyFormData = z.infer<typeof companySchema>;
@@ -187,27 +229,27 @@ export type CompanyFormData = z.infer<typeof companySchema>;
 export const staffSchema = z.object({
   firstName: z
     .string()
-    .min(1, 'First name is required')
-    .min(2, 'First name must be at least 2 characters')
-    .max(50, 'First name must be less than 50 characters'),
+    .min(1, 'validation.firstNameRequired')
+    .min(2, 'validation.firstNameMin')
+    .max(50, 'validation.firstNameMax'),
   middleName: z.string().optional().nullable(),
   lastName: z
     .string()
-    .min(1, 'Last name is required')
-    .min(2, 'Last name must be at least 2 characters')
-    .max(50, 'Last name must be less than 50 characters'),
+    .min(1, 'validation.lastNameRequired')
+    .min(2, 'validation.lastNameMin')
+    .max(50, 'validation.lastNameMax'),
   email: z
     .string()
-    .min(1, 'Email is required')
-    .email('Please enter a valid email address'),
+    .min(1, 'validation.emailRequired')
+    .email('validation.emailInvalid'),
   phone: z
     .string()
-    .min(1, 'Phone number is required')
-    .regex(/^\d+$/, 'Phone number must contain only digits'),
+    .min(1, 'validation.phoneRequired')
+    .regex(/^\d+$/, 'validation.phoneDigits'),
   birthDate: z
     .string()
-    .min(1, 'Birth date is required')
-    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+    .min(1, 'validation.birthDateRequired')
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'validation.dateFormat'),
   gender: z.enum(['1', '2', '3']).transform((val) => {
     switch (val) {
       case '1':
@@ -222,48 +264,65 @@ export const staffSchema = z.object({
 
 export type StaffFormData = z.infer<typeof staffSchema>;
 
+/**
+ * Service creation validation schema
+ */
+export const serviceSchema = z.object({
+  name: z
+    .string()
+    .min(1, "validation.serviceNameRequired"),
+  description: z
+    .string()
+    .min(1, "validation.descriptionRequired"),
+  modeId: z
+    .number({ error: "validation.serviceModeRequired" })
+    .min(1, "validation.serviceModeRequired"),
+});
+
+export type ServiceFormData = z.infer<typeof serviceSchema>;
+
 /**
  * Branch creation validation schema
  */
 export const branchSchema = z.object({
   name: z
     .string()
-    .min(1, 'Branch name is required')
-    .min(2, 'Branch name must be at least 2 characters')
-    .max(100, 'Branch name must be less than 100 characters'),
+    .min(1, 'validation.branchNameRequired')
+    .min(2, 'validation.branchNameMin')
+    .max(100, 'validation.branchNameMax'),
   contact: z
     .string()
-    .min(1, 'Contact number is required')
-    .regex(/^\+?[1-9]\d{1,14}$/, 'Please enter a valid phone number'),
+    .min(1, 'validation.contactRequired')
+    .regex(/^\+?[1-9]\d{1,14}$/, 'validation.phoneInvalid'),
   email: z
     .string()
-    .min(1, 'Email is required')
-    .email('Please enter a valid email address'),
+    .min(1, 'validation.emailRequired')
+    .email('validation.emailInvalid'),
   city: z
     .string()
-    .min(1, 'City is required')
-    .min(2, 'City must be at least 2 characters'),
+    .min(1, 'validation.cityRequired')
+    .min(2, 'validation.cityMin'),
   stateProvince: z
     .string()
-    .min(1, 'Country is required'),
+    .min(1, 'validation.countryRequired'),
   description: z
     .string()
     .optional()
     .nullable(),
   location: z
     .string()
-    .min(1, 'Location is required'),
+    .min(1, 'validation.locationRequired'),
   latitude: z
     .number()
-    .min(-90, 'Invalid latitude')
-    .max(90, 'Invalid latitude'),
+    .min(-90, 'validation.latitudeInvalid')
+    .max(90, 'validation.latitudeInvalid'),
   longitude: z
     .number()
-    .min(-180, 'Invalid longitude')
-    .max(180, 'Invalid longitude'),
+    .min(-180, 'validation.longitudeInvalid')
+    .max(180, 'validation.longitudeInvalid'),
   accuracy: z
     .number()
-    .min(0, 'Accuracy must be 0 or greater')
+    .min(0, 'validation.accuracyMin')
     .default(0),
 });
 